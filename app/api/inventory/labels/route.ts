@@ -0,0 +1,325 @@
+import { NextResponse } from "next/server";
+import { PDFDocument, StandardFonts, rgb } from "pdf-lib";
+import type { PDFFont, PDFPage } from "pdf-lib";
+import { z } from "zod";
+
+import {
+	LABEL_LAYOUTS,
+	encodeBarcode,
+	labelPosition,
+	type EncodedBarcode,
+	type LabelLayout,
+} from "@/lib/labels";
+import { labelPrintSchema } from "@/lib/schemas";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+
+export const dynamic = "force-dynamic";
+
+type ProductRow = {
+	id: string;
+	name: string;
+	sku: string | null;
+	sell_price: number | null;
+	currency: string | null;
+	product_barcodes: { code: string }[] | null;
+};
+
+type LabelEntry = {
+	name: string;
+	sku: string | null;
+	priceLabel: string | null;
+	barcode: EncodedBarcode | null;
+};
+
+type LabelFonts = {
+	regular: PDFFont;
+	bold: PDFFont;
+};
+
+// Blank modules on each side of the bars so scanners find the edges.
+const QUIET_ZONE_MODULES = 10;
+const MAX_MODULE_WIDTH = 1.4;
+const INK = rgb(0, 0, 0);
+const MUTED = rgb(0.3, 0.3, 0.3);
+
+function resolveCurrency(code: string | null | undefined): string {
+	if (!code || typeof code !== "string" || code.length !== 3) {
+		return "NIO";
+	}
+	return code.toUpperCase();
+}
+
+function formatCurrency(value: number, currency: string) {
+	return new Intl.NumberFormat("es-NI", {
+		style: "currency",
+		currency,
+		minimumFractionDigits: 2,
+	}).format(value);
+}
+
+// The standard fonts only cover WinAnsi; Intl may emit narrow spaces and
+// names may carry emoji.
+function toWinAnsi(text: string) {
+	return text
+		.replace(/[\u2000-\u200b\u202f]/g, " ")
+		.replace(/[^\x20-\x7e\xa0-\xff]/g, "");
+}
+
+function fitText(text: string, font: PDFFont, size: number, maxWidth: number) {
+	const safe = toWinAnsi(text).trim();
+	if (font.widthOfTextAtSize(safe, size) <= maxWidth) {
+		return safe;
+	}
+
+	let end = safe.length;
+	while (
+		end > 0 &&
+		font.widthOfTextAtSize(`${safe.slice(0, end)}…`, size) > maxWidth
+	) {
+		end -= 1;
+	}
+	return end > 0 ? `${safe.slice(0, end).trimEnd()}…` : "";
+}
+
+function drawBars(
+	page: PDFPage,
+	modules: string,
+	area: { x: number; y: number; width: number; height: number },
+) {
+	const moduleWidth = Math.min(
+		area.width / (modules.length + QUIET_ZONE_MODULES * 2),
+		MAX_MODULE_WIDTH,
+	);
+	let cursor = area.x + (area.width - modules.length * moduleWidth) / 2;
+	let index = 0;
+
+	while (index < modules.length) {
+		const bit = modules[index];
+		let run = 1;
+		while (modules[index + run] === bit) {
+			run += 1;
+		}
+		if (bit === "1") {
+			page.drawRectangle({
+				x: cursor,
+				y: area.y,
+				width: moduleWidth * run,
+				height: area.height,
+				color: INK,
+			});
+		}
+		cursor += moduleWidth * run;
+		index += run;
+	}
+}
+
+function drawLabel(
+	page: PDFPage,
+	layout: LabelLayout,
+	entry: LabelEntry,
+	fonts: LabelFonts,
+	origin: { x: number; y: number },
+) {
+	const padding = Math.min(6, layout.labelHeight * 0.08);
+	const innerWidth = layout.labelWidth - padding * 2;
+	const nameSize = Math.max(6, Math.min(10, layout.labelHeight * 0.11));
+	const detailSize = Math.max(5.5, nameSize - 1.5);
+	const left = origin.x + padding;
+	let cursorY = origin.y + layout.labelHeight - padding - nameSize;
+
+	page.drawText(fitText(entry.name, fonts.bold, nameSize, innerWidth), {
+		x: left,
+		y: cursorY,
+		font: fonts.bold,
+		size: nameSize,
+		color: INK,
+	});
+
+	cursorY -= detailSize + 2;
+	if (entry.priceLabel) {
+		page.drawText(toWinAnsi(entry.priceLabel), {
+			x: left,
+			y: cursorY,
+			font: fonts.bold,
+			size: detailSize + 1,
+			color: INK,
+		});
+	}
+	if (entry.sku) {
+		const skuText = fitText(
+			`SKU: ${entry.sku}`,
+			fonts.regular,
+			detailSize,
+			innerWidth / 2,
+		);
+		page.drawText(skuText, {
+			x:
+				origin.x +
+				layout.labelWidth -
+				padding -
+				fonts.regular.widthOfTextAtSize(skuText, detailSize),
+			y: cursorY,
+			font: fonts.regular,
+			size: detailSize,
+			color: MUTED,
+		});
+	}
+
+	const bottom = origin.y + padding;
+	const barsTop = cursorY - 3;
+	if (!entry.barcode) {
+		page.drawText("Sin código de barras", {
+			x: left,
+			y: bottom,
+			font: fonts.regular,
+			size: detailSize,
+			color: MUTED,
+		});
+		return;
+	}
+
+	const textSize = detailSize;
+	const barsBottom = bottom + textSize + 1.5;
+	drawBars(page, entry.barcode.modules, {
+		x: left,
+		y: barsBottom,
+		width: innerWidth,
+		height: Math.max(barsTop - barsBottom, 8),
+	});
+
+	const codeText = toWinAnsi(entry.barcode.text);
+	page.drawText(codeText, {
+		x:
+			left +
+			(innerWidth - fonts.regular.widthOfTextAtSize(codeText, textSize)) / 2,
+		y: bottom,
+		font: fonts.regular,
+		size: textSize,
+		color: INK,
+	});
+}
+
+export async function POST(request: Request) {
+	let payload: z.infer<typeof labelPrintSchema>;
+	try {
+		payload = labelPrintSchema.parse(await request.json());
+	} catch (error) {
+		const message =
+			error instanceof z.ZodError
+				? error.issues[0]?.message
+				: "Revisa los productos seleccionados.";
+		return NextResponse.json(
+			{ error: message ?? "Revisa los productos seleccionados." },
+			{ status: 400 },
+		);
+	}
+
+	const supabase = await createSupabaseServerClient();
+	const productIds = Array.from(
+		new Set(payload.items.map((item) => item.productId)),
+	);
+	const { data, error } = await supabase
+		.from("products")
+		.select("id, name, sku, sell_price, currency, product_barcodes(code)")
+		.in("id", productIds);
+
+	if (error) {
+		console.error("[inventory labels]", error);
+		return NextResponse.json(
+			{ error: "No pudimos generar las etiquetas." },
+			{ status: 500 },
+		);
+	}
+
+	const products = new Map(
+		((data ?? []) as ProductRow[]).map((product) => [product.id, product]),
+	);
+	const entries = new Map<string, LabelEntry>();
+	const withoutEan: string[] = [];
+
+	for (const productId of productIds) {
+		const product = products.get(productId);
+		if (!product) continue;
+
+		const candidates = [
+			...(product.product_barcodes ?? []).map((barcode) => barcode.code),
+			...(product.sku ? [product.sku] : []),
+		];
+		let barcode: EncodedBarcode | null = null;
+		for (const candidate of candidates) {
+			barcode = encodeBarcode(candidate, payload.symbology);
+			if (barcode) break;
+		}
+		if (!barcode && payload.symbology === "ean13") {
+			withoutEan.push(product.name);
+		}
+
+		const hasSellPrice =
+			product.sell_price !== null && product.sell_price !== undefined;
+		entries.set(productId, {
+			name: product.name,
+			sku: product.sku,
+			priceLabel:
+				payload.showPrice && hasSellPrice
+					? formatCurrency(
+							Number(product.sell_price) || 0,
+							resolveCurrency(product.currency),
+					  )
+					: null,
+			barcode,
+		});
+	}
+
+	if (entries.size === 0) {
+		return NextResponse.json(
+			{ error: "No encontramos los productos seleccionados." },
+			{ status: 404 },
+		);
+	}
+
+	if (withoutEan.length > 0) {
+		return NextResponse.json(
+			{
+				error: `Estos productos no tienen un código EAN-13 válido: ${withoutEan.join(", ")}.`,
+			},
+			{ status: 422 },
+		);
+	}
+
+	const layout = LABEL_LAYOUTS[payload.layout];
+	const pdfDoc = await PDFDocument.create();
+	const fonts: LabelFonts = {
+		regular: await pdfDoc.embedFont(StandardFonts.Helvetica),
+		bold: await pdfDoc.embedFont(StandardFonts.HelveticaBold),
+	};
+	const pages: PDFPage[] = [];
+	let labelIndex = 0;
+
+	for (const item of payload.items) {
+		const entry = entries.get(item.productId);
+		if (!entry) continue;
+
+		for (let copy = 0; copy < item.copies; copy += 1) {
+			const position = labelPosition(layout, labelIndex);
+			if (!pages[position.page]) {
+				pages[position.page] = pdfDoc.addPage([
+					layout.pageWidth,
+					layout.pageHeight,
+				]);
+			}
+			drawLabel(pages[position.page], layout, entry, fonts, position);
+			labelIndex += 1;
+		}
+	}
+
+	const pdfBytes = await pdfDoc.save();
+	const pdfBuffer = Buffer.from(pdfBytes);
+
+	return new NextResponse(pdfBuffer, {
+		headers: {
+			"Content-Type": "application/pdf",
+			"Content-Disposition": `attachment; filename=etiquetas-${layout.id}.pdf`,
+			"Cache-Control": "no-store",
+		},
+	});
+}
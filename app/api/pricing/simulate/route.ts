@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { simulatePricing } from "@/lib/pricing-simulation";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+
+export const dynamic = "force-dynamic";
+
+const simulateQuerySchema = z.union([
+	z
+		.object({ productId: z.string().uuid(), comboId: z.undefined() })
+		.transform(({ productId }) => ({ productId })),
+	z
+		.object({ comboId: z.string().uuid(), productId: z.undefined() })
+		.transform(({ comboId }) => ({ comboId })),
+]);
+
+export async function GET(request: Request) {
+	const { searchParams } = new URL(request.url);
+	const parsed = simulateQuerySchema.safeParse({
+		productId: searchParams.get("productId") ?? undefined,
+		comboId: searchParams.get("comboId") ?? undefined,
+	});
+
+	if (!parsed.success) {
+		return NextResponse.json(
+			{ error: "Indica un productId o un comboId válido." },
+			{ status: 400 },
+		);
+	}
+
+	try {
+		const supabase = await createSupabaseServerClient();
+		const simulation = await simulatePricing(supabase, parsed.data);
+
+		if (!simulation) {
+			return NextResponse.json(
+				{ error: "No encontramos el producto o combo." },
+				{ status: 404 },
+			);
+		}
+
+		return NextResponse.json(simulation);
+	} catch (error) {
+		console.error("[pricing simulate]", error);
+		return NextResponse.json(
+			{ error: "No pudimos simular las reglas de precio." },
+			{ status: 500 },
+		);
+	}
+}
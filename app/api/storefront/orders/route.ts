@@ -1,83 +1,178 @@
 import { NextResponse } from "next/server";
+import { z } from "zod";
 
+import {
+	PROMO_CODE_ERROR_MESSAGES,
+	isPromoCodeError,
+	type PromoCodeError,
+} from "@/lib/discounts";
+import { storefrontOrderSchema } from "@/lib/schemas";
+import { getReservationMinutes } from "@/lib/stock-reservations";
 import { createSupabaseAdminClient } from "@/lib/supabase-admin";
 
-type IncomingItem = {
-	id: string;
-	name: string;
-	slug: string;
-	currency: string;
-	price: number | null;
-	quantity: number;
-	imageUrl?: string | null;
-};
+type StorefrontOrderRpcResult =
+	| {
+			success: true;
+			order_id: string;
+			subtotal_amount: number;
+			discount_amount: number;
+			promo_code: string | null;
+			total_amount: number;
+			price_review_required: boolean;
+			reserved_until: string | null;
+	  }
+	| {
+			success: false;
+			error:
+				| "empty_order"
+				| "unavailable_products"
+				| "unavailable_combos"
+				| "insufficient_stock"
+				| "price_changed"
+				| PromoCodeError;
+			products?: Array<{ product_id: string; name: string | null }>;
+			combos?: Array<{ combo_id: string; name: string | null }>;
+			short_products?: Array<{
+				product_id: string;
+				name: string | null;
+				available: number;
+				required: number;
+			}>;
+			price_changes?: Array<{
+				product_id?: string;
+				combo_id?: string;
+				name: string | null;
+				expected_price: number | null;
+				current_price: number | null;
+			}>;
+	  };
 
-function validateString(value: unknown) {
-	return typeof value === "string" && value.trim().length > 0 ? value.trim() : null;
+function toNullableNumber(value: unknown) {
+	if (value === null || value === undefined) return null;
+	const parsed = Number(value);
+	return Number.isFinite(parsed) ? parsed : null;
+}
+
+function rejectOrder(
+	result: Extract<StorefrontOrderRpcResult, { success: false }>,
+) {
+	if (isPromoCodeError(result.error)) {
+		return NextResponse.json(
+			{
+				error: PROMO_CODE_ERROR_MESSAGES[result.error],
+				promoCodeError: result.error,
+			},
+			{ status: result.error === "promo_not_found" ? 400 : 409 },
+		);
+	}
+
+	switch (result.error) {
+		case "unavailable_products": {
+			const names = (result.products ?? [])
+				.map((product) => product.name ?? "Producto")
+				.join(", ");
+			return NextResponse.json(
+				{
+					error: `Algunos productos ya no están disponibles: ${names}. Retíralos del carrito para continuar.`,
+					unavailableProductIds: (result.products ?? []).map(
+						(product) => product.product_id,
+					),
+				},
+				{ status: 409 },
+			);
+		}
+		case "unavailable_combos": {
+			const names = (result.combos ?? [])
+				.map((combo) => combo.name ?? "Combo")
+				.join(", ");
+			return NextResponse.json(
+				{
+					error: `Algunos combos ya no están disponibles: ${names}. Retíralos del carrito para continuar.`,
+					unavailableComboIds: (result.combos ?? []).map(
+						(combo) => combo.combo_id,
+					),
+				},
+				{ status: 409 },
+			);
+		}
+		case "insufficient_stock": {
+			const shortProducts = result.short_products ?? [];
+			return NextResponse.json(
+				{
+					error: `No tenemos suficientes unidades de: ${shortProducts
+						.map(
+							(product) =>
+								`${product.name ?? "Producto"} (disponibles: ${product.available})`,
+						)
+						.join(", ")}.`,
+					stock: shortProducts.map((product) => ({
+						productId: product.product_id,
+						available: Number(product.available) || 0,
+					})),
+				},
+				{ status: 409 },
+			);
+		}
+		case "price_changed":
+			return NextResponse.json(
+				{
+					error:
+						"Algunos precios cambiaron desde que agregaste los productos. Actualizamos tu carrito, revisa el total antes de reservar.",
+					priceChanges: (result.price_changes ?? []).map((change) => ({
+						productId: change.product_id ?? null,
+						comboId: change.combo_id ?? null,
+						name: change.name,
+						previousPrice: toNullableNumber(change.expected_price),
+						currentPrice: toNullableNumber(change.current_price),
+					})),
+				},
+				{ status: 409 },
+			);
+		default:
+			return NextResponse.json(
+				{ error: "Tu carrito está vacío" },
+				{ status: 400 },
+			);
+	}
 }
 
 export async function POST(request: Request) {
 	try {
-		const payload = (await request.json()) as {
-			name?: string;
-			phone?: string;
-			email?: string;
-			message?: string;
-			delivery?: string;
-			payment?: string;
-			items?: IncomingItem[];
-			subtotal?: number;
-		};
+		const payload = storefrontOrderSchema.parse(await request.json());
 
-		const customer_name = validateString(payload.name);
-		const customer_phone = validateString(payload.phone);
-		const customer_email = validateString(payload.email);
 		const notesParts = [
-			validateString(payload.message),
-			validateString(payload.delivery)
-				? `Entrega: ${payload.delivery}`
-				: null,
-			Array.isArray(payload.items)
-				? `Items: ${payload.items
-						.map((i) => `${i.name} x${i.quantity}`)
-						.join(", ")}`
-				: null,
+			payload.message,
+			payload.delivery ? `Entrega: ${payload.delivery}` : null,
 		].filter(Boolean);
 		const notes = notesParts.length ? notesParts.join(" | ") : null;
 
-		const subtotal =
-			typeof payload.subtotal === "number" && Number.isFinite(payload.subtotal)
-				? payload.subtotal
-				: 0;
-
-		const payment_method =
-			typeof payload.payment === "string" &&
-			["cash", "card", "transfer"].includes(payload.payment)
-				? payload.payment
-				: "cash";
-
 		const admin = createSupabaseAdminClient();
-		const { data, error } = await admin
-			.from("orders")
-			.insert({
-				customer_name,
-				customer_phone,
-				customer_email,
+		const { data, error } = await admin.rpc("create_storefront_order", {
+			payload: {
+				customer_name: payload.name,
+				customer_phone: payload.phone ?? null,
+				customer_email: payload.email ?? null,
 				notes,
-				status: "pending",
-				payment_method,
-				subtotal_amount: subtotal,
-				discount_amount: 0,
-				tax_amount: 0,
-				total_amount: subtotal,
-				total_cost: 0,
-				profit_amount: 0,
+				payment_method: payload.payment,
 				currency: "NIO",
-			})
-			.select("id")
-			.single();
+				reservation_minutes: getReservationMinutes(),
+				promo_code: payload.promoCode ?? null,
+				items: payload.items.map((item) => ({
+					product_id: item.id,
+					qty: item.quantity,
+					expected_price: item.price ?? null,
+				})),
+				combo_items: payload.comboItems.map((item) => ({
+					combo_id: item.id,
+					qty: item.quantity,
+					expected_price: item.price ?? null,
+				})),
+			},
+		});
 
-		if (error || !data) {
+		const result = data as StorefrontOrderRpcResult | null;
+
+		if (error || !result) {
 			console.error("[storefront] create order", error);
 			return NextResponse.json(
 				{ error: "No se pudo crear la reserva" },
@@ -85,8 +180,28 @@ export async function POST(request: Request) {
 			);
 		}
 
-		return NextResponse.json({ orderId: data.id });
+		if (!result.success) {
+			return rejectOrder(result);
+		}
+
+		return NextResponse.json({
+			orderId: result.order_id,
+			subtotal: Number(result.subtotal_amount) || 0,
+			discount: Number(result.discount_amount) || 0,
+			promoCode: result.promo_code,
+			total: Number(result.total_amount) || 0,
+			priceReviewRequired: Boolean(result.price_review_required),
+			reservedUntil: result.reserved_until,
+		});
 	} catch (error) {
+		if (error instanceof z.ZodError) {
+			const [issue] = error.issues;
+			return NextResponse.json(
+				{ error: issue?.message ?? "Revisa los datos de tu reserva" },
+				{ status: 400 },
+			);
+		}
+
 		console.error("[storefront] create order payload", error);
 		return NextResponse.json(
 			{ error: "No pudimos procesar tu solicitud" },
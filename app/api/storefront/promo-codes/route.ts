@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import {
+	PROMO_CODE_ERROR_MESSAGES,
+	evaluatePromoCode,
+	fetchPromoCodeByCode,
+} from "@/lib/discounts";
+import { promoCodeLookupSchema } from "@/lib/schemas";
+import { createSupabaseAdminClient } from "@/lib/supabase-admin";
+
+/** Previews a promo code at checkout; the order RPC applies it for real. */
+export async function POST(request: Request) {
+	try {
+		const payload = promoCodeLookupSchema.parse(await request.json());
+
+		const admin = createSupabaseAdminClient();
+		const promo = await fetchPromoCodeByCode(admin, payload.code);
+		if (!promo) {
+			return NextResponse.json(
+				{ error: PROMO_CODE_ERROR_MESSAGES.promo_not_found },
+				{ status: 404 },
+			);
+		}
+
+		const evaluation = evaluatePromoCode(promo, payload.subtotal);
+		if (!evaluation.success) {
+			return NextResponse.json(
+				{ error: PROMO_CODE_ERROR_MESSAGES[evaluation.error] },
+				{ status: 409 },
+			);
+		}
+
+		return NextResponse.json({
+			code: promo.code,
+			discountType: promo.discountType,
+			discountValue: promo.discountValue,
+			minSubtotal: promo.minSubtotal,
+			discount: evaluation.discount,
+		});
+	} catch (error) {
+		if (error instanceof z.ZodError) {
+			const [issue] = error.issues;
+			return NextResponse.json(
+				{ error: issue?.message ?? "Ingresa un código válido" },
+				{ status: 400 },
+			);
+		}
+
+		console.error("[storefront] promo code", error);
+		return NextResponse.json(
+			{ error: "No pudimos validar el código" },
+			{ status: 500 },
+		);
+	}
+}
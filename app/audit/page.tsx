@@ -0,0 +1,330 @@
+import Link from "next/link";
+import type { ReactNode } from "react";
+
+import DashboardShell from "@/components/dashboard-shell";
+import {
+	AUDIT_ACTIONS,
+	AUDIT_ACTION_LABELS,
+	AUDIT_ENTITY_LABELS,
+	AUDIT_ENTITY_TYPES,
+	isAuditAction,
+	isAuditEntityType,
+	listAuditEntries,
+	type AuditChanges,
+	type AuditEntry,
+} from "@/lib/audit";
+import { requireStaffPage } from "@/lib/staff";
+import { createSupabaseAdminClient } from "@/lib/supabase-admin";
+
+export const dynamic = "force-dynamic";
+export const fetchCache = "force-no-store";
+export const revalidate = 0;
+
+const ENTITY_PATHS: Partial<Record<string, string>> = {
+	product: "/inventory",
+	combo: "/combos",
+	order: "/orders",
+	price_rule: "/pricing/rules",
+	promo_code: "/pricing/promo-codes",
+	register_session: "/pos/sessions",
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function readParam(
+	params: Record<string, string | string[] | undefined>,
+	key: string,
+) {
+	const value = params[key];
+	return (Array.isArray(value) ? value[0] : value)?.trim() ?? "";
+}
+
+function nextDay(date: string) {
+	const value = new Date(`${date}T00:00:00Z`);
+	value.setUTCDate(value.getUTCDate() + 1);
+	return value.toISOString();
+}
+
+export default async function AuditPage({
+	searchParams,
+}: {
+	searchParams?: Promise<Record<string, string | string[] | undefined>>;
+}) {
+	const { user } = await requireStaffPage("viewAudit");
+
+	const params = searchParams ? await searchParams : {};
+	const entityType = readParam(params, "entity");
+	const action = readParam(params, "action");
+	const actorId = readParam(params, "actor");
+	const entityId = readParam(params, "entityId");
+	const from = readParam(params, "from");
+	const to = readParam(params, "to");
+	const hasFilters = Boolean(
+		entityType || action || actorId || entityId || from || to,
+	);
+
+	const admin = createSupabaseAdminClient();
+	const usersRequest = admin.auth.admin.listUsers({ perPage: 200 });
+
+	let entries: AuditEntry[] = [];
+	let loadError = false;
+
+	try {
+		entries = await listAuditEntries(admin, {
+			entityType: isAuditEntityType(entityType) ? entityType : undefined,
+			action: isAuditAction(action) ? action : undefined,
+			actorId: actorId || undefined,
+			entityId: entityId || undefined,
+			from: DATE_PATTERN.test(from) ? `${from}T00:00:00Z` : undefined,
+			to: DATE_PATTERN.test(to) ? nextDay(to) : undefined,
+		});
+	} catch (error) {
+		console.error("[audit] list", error);
+		loadError = true;
+	}
+
+	const usersResponse = await usersRequest;
+	const actors = (usersResponse.data?.users ?? [])
+		.map((account) => ({
+			id: account.id,
+			email: account.email ?? account.id,
+		}))
+		.sort((a, b) => a.email.localeCompare(b.email));
+
+	return (
+		<DashboardShell
+			user={user}
+			currentPath='/audit'
+			title='Auditoría'
+			description='Quién cambió precios, existencias y dinero, y qué valores tenían antes.'>
+			<div className='space-y-6'>
+				<form
+					method='get'
+					className='grid gap-3 rounded-lg border border-gray-200 bg-white p-4 shadow-sm sm:grid-cols-2 lg:grid-cols-6'>
+					<FilterField label='Entidad'>
+						<select
+							name='entity'
+							defaultValue={entityType}
+							className='w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300'>
+							<option value=''>Todas</option>
+							{AUDIT_ENTITY_TYPES.map((type) => (
+								<option key={type} value={type}>
+									{AUDIT_ENTITY_LABELS[type]}
+								</option>
+							))}
+						</select>
+					</FilterField>
+					<FilterField label='Acción'>
+						<select
+							name='action'
+							defaultValue={action}
+							className='w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300'>
+							<option value=''>Todas</option>
+							{AUDIT_ACTIONS.map((value) => (
+								<option key={value} value={value}>
+									{AUDIT_ACTION_LABELS[value]}
+								</option>
+							))}
+						</select>
+					</FilterField>
+					<FilterField label='Responsable'>
+						<select
+							name='actor'
+							defaultValue={actorId}
+							className='w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300'>
+							<option value=''>Todo el equipo</option>
+							{actors.map((actor) => (
+								<option key={actor.id} value={actor.id}>
+									{actor.email}
+								</option>
+							))}
+						</select>
+					</FilterField>
+					<FilterField label='ID de la entidad'>
+						<input
+							type='search'
+							name='entityId'
+							defaultValue={entityId}
+							placeholder='UUID o número'
+							className='w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300'
+						/>
+					</FilterField>
+					<FilterField label='Desde'>
+						<input
+							type='date'
+							name='from'
+							defaultValue={from}
+							className='w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300'
+						/>
+					</FilterField>
+					<FilterField label='Hasta'>
+						<input
+							type='date'
+							name='to'
+							defaultValue={to}
+							className='w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300'
+						/>
+					</FilterField>
+					<div className='flex gap-2 sm:col-span-2 lg:col-span-6'>
+						<button
+							type='submit'
+							className='inline-flex items-center justify-center rounded-md bg-blush-500 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-blush-400'>
+							Filtrar
+						</button>
+						{hasFilters ? (
+							<Link
+								href='/audit'
+								className='inline-flex items-center justify-center rounded-md border border-gray-200 px-4 py-2 text-sm font-medium text-gray-700 transition hover:bg-blush-100'>
+								Limpiar
+							</Link>
+						) : null}
+					</div>
+				</form>
+
+				{loadError ? (
+					<div className='rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700'>
+						No pudimos cargar la auditoría. Verifica que la tabla{" "}
+						<code>audit_log</code> exista en Supabase y vuelve a intentarlo.
+					</div>
+				) : entries.length === 0 ? (
+					<div className='rounded-lg border border-dashed border-blush-200 bg-white p-10 text-center text-sm text-gray-500'>
+						{hasFilters
+							? "No hay movimientos que coincidan con los filtros."
+							: "Aún no hay cambios registrados."}
+					</div>
+				) : (
+					<div className='overflow-hidden rounded-lg border border-gray-200 bg-white shadow-sm'>
+						<table className='min-w-full divide-y divide-gray-200 text-sm'>
+							<thead className='bg-gray-50 text-xs font-semibold uppercase tracking-wider text-gray-500'>
+								<tr>
+									<th className='px-4 py-3 text-left'>Fecha</th>
+									<th className='px-4 py-3 text-left'>Responsable</th>
+									<th className='px-4 py-3 text-left'>Acción</th>
+									<th className='px-4 py-3 text-left'>Entidad</th>
+									<th className='px-4 py-3 text-left'>Cambios</th>
+								</tr>
+							</thead>
+							<tbody className='divide-y divide-gray-200 align-top'>
+								{entries.map((entry) => (
+									<tr key={entry.id} className='hover:bg-blush-50'>
+										<td className='whitespace-nowrap px-4 py-4 text-gray-500'>
+											{formatDateTime(entry.createdAt)}
+										</td>
+										<td className='px-4 py-4 text-gray-700'>
+											{entry.actorEmail ?? "Sistema"}
+										</td>
+										<td className='px-4 py-4 font-medium text-gray-900'>
+											{isAuditAction(entry.action)
+												? AUDIT_ACTION_LABELS[entry.action]
+												: entry.action}
+										</td>
+										<td className='px-4 py-4 text-gray-700'>
+											<EntityCell entry={entry} />
+										</td>
+										<td className='px-4 py-4'>
+											<ChangesList changes={entry.changes} />
+										</td>
+									</tr>
+								))}
+							</tbody>
+						</table>
+					</div>
+				)}
+			</div>
+		</DashboardShell>
+	);
+}
+
+function FilterField({
+	label,
+	children,
+}: {
+	label: string;
+	children: ReactNode;
+}) {
+	return (
+		<label className='block space-y-1 text-xs font-medium text-gray-500'>
+			<span>{label}</span>
+			{children}
+		</label>
+	);
+}
+
+function EntityCell({ entry }: { entry: AuditEntry }) {
+	const label = isAuditEntityType(entry.entityType)
+		? AUDIT_ENTITY_LABELS[entry.entityType]
+		: entry.entityType;
+	const basePath = ENTITY_PATHS[entry.entityType];
+	const name =
+		typeof entry.after?.name === "string"
+			? entry.after.name
+			: typeof entry.before?.name === "string"
+				? entry.before.name
+				: null;
+	const canLink =
+		basePath && entry.entityId && entry.action !== "product.delete";
+
+	return (
+		<div className='space-y-0.5'>
+			<p>{label}</p>
+			{name ? <p className='text-xs text-gray-500'>{name}</p> : null}
+			{entry.entityId ? (
+				canLink ? (
+					<Link
+						href={`${basePath}/${entry.entityId}`}
+						className='font-mono text-xs text-blush-600 hover:underline'>
+						{entry.entityId.slice(0, 8)}
+					</Link>
+				) : (
+					<p className='font-mono text-xs text-gray-400'>
+						{entry.entityId.slice(0, 8)}
+					</p>
+				)
+			) : null}
+		</div>
+	);
+}
+
+function ChangesList({ changes }: { changes: AuditChanges }) {
+	const fields = Object.entries(changes);
+
+	if (fields.length === 0) {
+		return <span className='text-xs text-gray-400'>Sin cambios</span>;
+	}
+
+	return (
+		<ul className='space-y-1 text-xs'>
+			{fields.map(([field, change]) => (
+				<li key={field} className='text-gray-600'>
+					<span className='font-medium text-gray-900'>{field}</span>:{" "}
+					<span className='text-red-600 line-through decoration-red-300'>
+						{formatValue(change.from)}
+					</span>{" "}
+					→ <span className='text-emerald-700'>{formatValue(change.to)}</span>
+				</li>
+			))}
+		</ul>
+	);
+}
+
+function formatValue(value: unknown) {
+	if (value === null || value === undefined || value === "") return "—";
+	if (typeof value === "string" || typeof value === "number") {
+		return String(value);
+	}
+	if (typeof value === "boolean") return value ? "sí" : "no";
+	const serialized = JSON.stringify(value);
+	return serialized.length > 80 ? `${serialized.slice(0, 77)}…` : serialized;
+}
+
+function formatDateTime(raw: string) {
+	try {
+		return new Intl.DateTimeFormat("es-NI", {
+			dateStyle: "medium",
+			timeStyle: "short",
+			timeZone: "UTC",
+		}).format(new Date(raw));
+	} catch {
+		return raw;
+	}
+}
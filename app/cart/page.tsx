@@ -125,10 +125,14 @@ export default function CartPage() {
 									<div className='flex flex-1 flex-col gap-2 text-sm text-gray-600'>
 										<div>
 											<p className='text-xs font-semibold uppercase tracking-[0.3em] text-blush-500'>
-												Producto
+												{item.type === "combo" ? "Combo" : "Producto"}
 											</p>
 											<Link
-												href={`/products/${item.slug}`}
+												href={
+													item.type === "combo"
+														? `/products/combos/${item.slug}`
+														: `/products/${item.slug}`
+												}
 												className='text-base font-semibold text-gray-900 underline-offset-2 hover:underline'>
 												{item.name}
 											</Link>
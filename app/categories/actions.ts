@@ -4,12 +4,18 @@ import { revalidatePath } from "next/cache";
 import { z } from "zod";
 
 import type { ActionErrorRecord, ActionResult } from "@/lib/actions";
+import { recordAuditEvent } from "@/lib/audit";
 import {
 	categoryFormSchema,
 	subcategoryFormSchema,
 	type CategoryFormValues,
 	type SubcategoryFormValues,
 } from "@/lib/schemas";
+import {
+	STAFF_AUTHORIZATION_MESSAGES,
+	StaffAuthorizationError,
+	requireRoutePermission,
+} from "@/lib/staff";
 import {
 	createSupabaseAdminClient,
 	MissingEnvironmentVariableError,
@@ -62,6 +68,7 @@ export async function createCategoryAction(
 	formData: FormData,
 ): Promise<ActionResult<{ category: CategoryFormValues & { id: number } }>> {
 	try {
+		const { user } = await requireRoutePermission("/categories");
 		const payload = categoryFormSchema.parse({
 			name: formData.get("name"),
 		});
@@ -78,6 +85,14 @@ export async function createCategoryAction(
 			throw new Error(error?.message ?? "No pudimos guardar la categoría");
 		}
 
+		await recordAuditEvent(adminClient, {
+			actor: user,
+			action: "category.create",
+			entityType: "category",
+			entityId: String(data.id),
+			after: { name: data.name ?? payload.name },
+		});
+
 		revalidatePath("/categories");
 
 		return {
@@ -90,6 +105,13 @@ export async function createCategoryAction(
 			return { success: false, errors: flattenErrors(error) };
 		}
 
+		if (error instanceof StaffAuthorizationError) {
+			return {
+				success: false,
+				errors: { form: [STAFF_AUTHORIZATION_MESSAGES[error.reason]] },
+			};
+		}
+
 		if (error instanceof MissingEnvironmentVariableError) {
 			return {
 				success: false,
@@ -119,6 +141,7 @@ export async function createSubcategoryAction(formData: FormData): Promise<
 	}>
 > {
 	try {
+		const { user } = await requireRoutePermission("/categories");
 		const payload = subcategoryFormSchema.parse({
 			categoryId: formData.get("categoryId"),
 			name: formData.get("name"),
@@ -161,6 +184,14 @@ export async function createSubcategoryAction(formData: FormData): Promise<
 			throw new Error(error?.message ?? "No pudimos guardar la subcategoría");
 		}
 
+		await recordAuditEvent(adminClient, {
+			actor: user,
+			action: "subcategory.create",
+			entityType: "subcategory",
+			entityId: String(data.id),
+			after: { name: data.name, category_id: data.category_id },
+		});
+
 		revalidatePath("/categories");
 
 		return {
@@ -179,6 +210,13 @@ export async function createSubcategoryAction(formData: FormData): Promise<
 			return { success: false, errors: flattenErrors(error) };
 		}
 
+		if (error instanceof StaffAuthorizationError) {
+			return {
+				success: false,
+				errors: { form: [STAFF_AUTHORIZATION_MESSAGES[error.reason]] },
+			};
+		}
+
 		if (error instanceof MissingEnvironmentVariableError) {
 			return {
 				success: false,
@@ -220,6 +258,7 @@ export async function updateProductClassificationAction(
 	}>
 > {
 	try {
+		const { user } = await requireRoutePermission("/categories");
 		const payload = updateProductClassificationSchema.parse({
 			productId: formData.get("productId"),
 			categoryId: formData.get("categoryId"),
@@ -230,7 +269,7 @@ export async function updateProductClassificationAction(
 
 		const { data: product, error: fetchProductError } = await adminClient
 			.from("products")
-			.select("id, meta")
+			.select("id, meta, category_id, subcategory_id")
 			.eq("id", payload.productId)
 			.maybeSingle();
 
@@ -337,6 +376,21 @@ export async function updateProductClassificationAction(
 			throw new Error(updateError.message);
 		}
 
+		await recordAuditEvent(adminClient, {
+			actor: user,
+			action: "product.classify",
+			entityType: "product",
+			entityId: payload.productId,
+			before: {
+				category_id: product.category_id ?? null,
+				subcategory_id: product.subcategory_id ?? null,
+			},
+			after: {
+				category_id: updated.category_id ?? null,
+				subcategory_id: updated.subcategory_id ?? null,
+			},
+		});
+
 		revalidatePath("/categories/association");
 		revalidatePath("/categories");
 		revalidatePath("/inventory");
@@ -355,6 +409,13 @@ export async function updateProductClassificationAction(
 			return { success: false, errors: flattenErrors(error) };
 		}
 
+		if (error instanceof StaffAuthorizationError) {
+			return {
+				success: false,
+				errors: { form: [STAFF_AUTHORIZATION_MESSAGES[error.reason]] },
+			};
+		}
+
 		if (error instanceof MissingEnvironmentVariableError) {
 			return {
 				success: false,
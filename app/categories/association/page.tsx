@@ -1,7 +1,7 @@
 import Link from "next/link";
-import { redirect } from "next/navigation";
 
 import DashboardShell from "@/components/dashboard-shell";
+import { requireStaffPage } from "@/lib/staff";
 import { createSupabaseServerClient } from "@/lib/supabase-server";
 
 import { ProductClassificationTable } from "./_components/product-classification-table";
@@ -44,14 +44,8 @@ type ProductItem = {
 };
 
 export default async function CategoryAssociationPage() {
+	const { user } = await requireStaffPage("manageInventory");
 	const supabase = await createSupabaseServerClient();
-	const {
-		data: { user },
-	} = await supabase.auth.getUser();
-
-	if (!user) {
-		redirect("/login");
-	}
 
 	const [categoriesResponse, productsResponse] = await Promise.all([
 		supabase
@@ -1,7 +1,7 @@
 import Link from "next/link";
-import { redirect } from "next/navigation";
 
 import DashboardShell from "@/components/dashboard-shell";
+import { requireStaffPage } from "@/lib/staff";
 import { createSupabaseServerClient } from "@/lib/supabase-server";
 
 import { CategoryForm } from "./_components/category-form";
@@ -25,14 +25,8 @@ type CategoryWithChildren = {
 };
 
 export default async function CategoriesPage() {
+	const { user } = await requireStaffPage("manageInventory");
 	const supabase = await createSupabaseServerClient();
-	const {
-		data: { user },
-	} = await supabase.auth.getUser();
-
-	if (!user) {
-		redirect("/login");
-	}
 
 	const { data, error } = await supabase
 		.from("categories")
@@ -6,6 +6,14 @@ import { useState } from "react";
 import { useCart } from "@/components/storefront/cart-context";
 import { SectionHeader } from "@/components/storefront/section-header";
 import { SiteShell } from "@/components/storefront/site-shell";
+import { computeDiscountAmount, type DiscountType } from "@/lib/discounts";
+
+type AppliedPromo = {
+	code: string;
+	discountType: DiscountType;
+	discountValue: number;
+	minSubtotal: number;
+};
 
 const DELIVERY_OPTIONS = [
 	{
@@ -58,8 +66,14 @@ function formatCurrency(value: number, currency?: string) {
 }
 
 export default function CheckoutPage() {
-	const { items, itemCount, subtotal, hasItemsWithoutPrice, clearCart } =
-		useCart();
+	const {
+		items,
+		itemCount,
+		subtotal,
+		hasItemsWithoutPrice,
+		syncPrices,
+		clearCart,
+	} = useCart();
 	const hasItems = itemCount > 0;
 	const [status, setStatus] = useState<"idle" | "submitting" | "done">("idle");
 	const [delivery, setDelivery] = useState<string>(DELIVERY_OPTIONS[0].value);
@@ -71,6 +85,58 @@ export default function CheckoutPage() {
 		message: "",
 	});
 	const [error, setError] = useState<string | null>(null);
+	const [promoInput, setPromoInput] = useState("");
+	const [appliedPromo, setAppliedPromo] = useState<AppliedPromo | null>(null);
+	const [promoError, setPromoError] = useState<string | null>(null);
+	const [checkingPromo, setCheckingPromo] = useState(false);
+
+	// Estimate only: the reservation applies the code again when it is placed.
+	const promoDiscount =
+		appliedPromo && subtotal >= appliedPromo.minSubtotal
+			? computeDiscountAmount(
+					subtotal,
+					appliedPromo.discountType,
+					appliedPromo.discountValue,
+			  )
+			: 0;
+
+	const handleApplyPromo = async () => {
+		const code = promoInput.trim();
+		if (!code) return;
+		setCheckingPromo(true);
+		setPromoError(null);
+
+		try {
+			const response = await fetch("/api/storefront/promo-codes", {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ code, subtotal }),
+			});
+			const payload = await response.json().catch(() => ({}));
+			if (!response.ok) {
+				throw new Error(
+					typeof payload?.error === "string"
+						? payload.error
+						: "No pudimos validar el código.",
+				);
+			}
+
+			setAppliedPromo({
+				code: payload.code,
+				discountType: payload.discountType,
+				discountValue: Number(payload.discountValue) || 0,
+				minSubtotal: Number(payload.minSubtotal) || 0,
+			});
+			setPromoInput(payload.code);
+		} catch (err) {
+			setAppliedPromo(null);
+			setPromoError(
+				err instanceof Error ? err.message : "No pudimos validar el código.",
+			);
+		} finally {
+			setCheckingPromo(false);
+		}
+	};
 
 	const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
 		event.preventDefault();
@@ -96,13 +162,45 @@ export default function CheckoutPage() {
 					message: form.message,
 					delivery,
 					payment: paymentMethod,
-					items,
-					subtotal,
+					promoCode: appliedPromo?.code,
+					items: items
+						.filter((item) => item.type === "product")
+						.map((item) => ({
+							id: item.id,
+							quantity: item.quantity,
+							price: item.price,
+						})),
+					comboItems: items
+						.filter((item) => item.type === "combo")
+						.map((item) => ({
+							id: item.id,
+							quantity: item.quantity,
+							price: item.price,
+						})),
 				}),
 			});
 
 			if (!response.ok) {
 				const payload = await response.json().catch(() => ({}));
+				// The server prices the order; refresh stale cart prices so the
+				// shopper can review the new total before trying again.
+				if (payload?.promoCodeError) {
+					setAppliedPromo(null);
+				}
+				if (Array.isArray(payload?.priceChanges)) {
+					syncPrices(
+						(
+							payload.priceChanges as Array<{
+								productId: string | null;
+								comboId: string | null;
+								currentPrice: number | null;
+							}>
+						).map((change) => ({
+							id: change.productId ?? change.comboId ?? "",
+							price: change.currentPrice,
+						})),
+					);
+				}
 				throw new Error(
 					typeof payload?.error === "string"
 						? payload.error
@@ -111,6 +209,8 @@ export default function CheckoutPage() {
 			}
 
 			clearCart();
+			setAppliedPromo(null);
+			setPromoInput("");
 			setStatus("done");
 		} catch (err) {
 			console.error("[checkout] submit failed", err);
@@ -306,6 +406,42 @@ export default function CheckoutPage() {
 									/>
 								</label>
 
+								<div className='space-y-2'>
+									<label
+										htmlFor='checkout-promo-code'
+										className='text-sm font-semibold text-gray-900'>
+										Código promocional
+									</label>
+									<div className='flex gap-2'>
+										<input
+											id='checkout-promo-code'
+											type='text'
+											value={promoInput}
+											onChange={(event) => {
+												setPromoInput(event.target.value);
+												setAppliedPromo(null);
+												setPromoError(null);
+											}}
+											placeholder='¿Tienes un código?'
+											className='w-full rounded-2xl border border-blush-200 bg-white px-4 py-3 text-sm uppercase text-gray-700 focus:border-blush-400 focus:outline-none focus:ring-2 focus:ring-blush-200'
+										/>
+										<button
+											type='button'
+											onClick={handleApplyPromo}
+											disabled={checkingPromo || !promoInput.trim()}
+											className='rounded-full border border-blush-200 px-4 py-2 text-sm font-semibold text-blush-600 transition hover:border-blush-300 hover:bg-blush-100/70 disabled:cursor-not-allowed disabled:opacity-60'>
+											{checkingPromo ? "Validando..." : "Aplicar"}
+										</button>
+									</div>
+									{promoError ? (
+										<p className='text-xs text-red-600'>{promoError}</p>
+									) : appliedPromo ? (
+										<p className='text-xs text-blush-600'>
+											Código {appliedPromo.code} aplicado.
+										</p>
+									) : null}
+								</div>
+
 								<div className='space-y-3 text-xs text-gray-500'>
 									<p>
 										Tu selección estará disponible por 24 horas mientras
@@ -366,6 +502,14 @@ export default function CheckoutPage() {
 									{formatCurrency(subtotal, items[0]?.currency)}
 								</span>
 							</div>
+							{appliedPromo ? (
+								<div className='mt-2 flex items-center justify-between'>
+									<span>Código {appliedPromo.code}</span>
+									<span className='font-semibold text-blush-600'>
+										-{formatCurrency(promoDiscount, items[0]?.currency)}
+									</span>
+								</div>
+							) : null}
 							{hasItemsWithoutPrice ? (
 								<p className='mt-2 text-xs text-blush-500'>
 									Confirmaremos precios para los artículos a coordinar.
@@ -1,10 +1,21 @@
 import Link from "next/link";
-import { notFound, redirect } from "next/navigation";
+import { notFound } from "next/navigation";
 
 import { ComboForm } from "@/app/combos/_components/combo-form";
 import { updateComboAction } from "@/app/combos/actions";
 import DashboardShell from "@/components/dashboard-shell";
+import { PriceHistoryTimeline } from "@/components/PriceHistoryTimeline";
+import { fetchComboBuildableCounts } from "@/lib/combo-availability";
+import { listPriceHistory, type PriceHistoryEntry } from "@/lib/price-history";
+import type { PriceRule } from "@/lib/pricing";
+import {
+	loadPriceRules,
+	loadProductPricingMetrics,
+} from "@/lib/pricing-catalog";
+import type { ProductPricingMetric } from "@/lib/pricing-rules";
 import type { ComboFormValues } from "@/lib/schemas";
+import { requireStaffPage } from "@/lib/staff";
+import { hasStaffPermission } from "@/lib/staff-roles";
 import { createSupabaseServerClient } from "@/lib/supabase-server";
 
 type ComboRow = {
@@ -14,6 +25,7 @@ type ComboRow = {
 	status: string;
 	packaging_cost: number;
 	suggested_price: number | null;
+	promo_tag: string | null;
 	image_path: string | null;
 	combo_items: Array<{
 		product_id: string;
@@ -30,6 +42,7 @@ type ProductRow = {
 	name: string;
 	cost_price: number;
 	status: string;
+	category_id: string | null;
 	categories: { name: string | null } | null;
 };
 
@@ -39,26 +52,20 @@ export default async function EditComboPage({
 	params: Promise<{ id: string }>;
 }) {
 	const { id } = await params;
+	const { user, role } = await requireStaffPage("manageInventory");
 	const supabase = await createSupabaseServerClient();
-	const {
-		data: { user },
-	} = await supabase.auth.getUser();
-
-	if (!user) {
-		redirect("/login");
-	}
 
 	const [{ data: rawCombo }, { data: rawProducts }] = await Promise.all([
 		supabase
 			.from("combos")
 			.select(
-				"id, name, description, status, packaging_cost, suggested_price, image_path, combo_items(product_id, qty, products(name, cost_price))",
+				"id, name, description, status, packaging_cost, suggested_price, promo_tag, image_path, combo_items(product_id, qty, products(name, cost_price))",
 			)
 			.eq("id", id)
 			.maybeSingle(),
 		supabase
 			.from("products")
-			.select("id, name, cost_price, status, categories(name)")
+			.select("id, name, cost_price, status, category_id, categories(name)")
 			.order("name", { ascending: true }),
 	]);
 
@@ -71,6 +78,28 @@ export default async function EditComboPage({
 
 	const comboData = combo;
 
+	let buildableQty: number | undefined;
+	try {
+		const buildable = await fetchComboBuildableCounts(supabase, [
+			comboData.id,
+		]);
+		buildableQty = buildable.get(comboData.id);
+	} catch (error) {
+		console.error("[EditComboPage] buildable count", error);
+	}
+
+	const showPriceHistory = hasStaffPermission(role, "viewCosts");
+	let priceHistory: PriceHistoryEntry[] = [];
+	if (showPriceHistory) {
+		try {
+			priceHistory = await listPriceHistory(supabase, {
+				comboId: comboData.id,
+			});
+		} catch (error) {
+			console.error("[EditComboPage] price history", error);
+		}
+	}
+
 	const defaultItems: ComboFormValues["items"] = (comboData.combo_items ?? [])
 		.filter(
 			(
@@ -90,9 +119,23 @@ export default async function EditComboPage({
 		id: product.id,
 		name: product.name,
 		cost_price: Number(product.cost_price ?? 0),
-		category: product.categories?.name ?? null,
+		categoryId: product.category_id,
+		categoryName: product.categories?.name ?? null,
 	}));
 
+	let pricingRules: PriceRule[] = [];
+	let productMetrics: ProductPricingMetric[] = [];
+	try {
+		const [rules, metrics] = await Promise.all([
+			loadPriceRules(supabase, "combo"),
+			loadProductPricingMetrics(supabase),
+		]);
+		pricingRules = rules;
+		productMetrics = Array.from(metrics.values());
+	} catch (error) {
+		console.error("[EditComboPage] pricing rules", error);
+	}
+
 	async function handleUpdate(formData: FormData) {
 		"use server";
 		formData.append("id", comboData.id);
@@ -112,21 +155,39 @@ export default async function EditComboPage({
 					Ver combos
 				</Link>
 			}>
-			<ComboForm
-				products={productOptions}
-				submitAction={handleUpdate}
-				submitLabel='Actualizar combo'
-				heading={comboData.name}
-				defaultValues={{
-					name: comboData.name,
-					description: comboData.description ?? undefined,
-					packagingCost: Number(comboData.packaging_cost ?? 0),
-					suggestedPrice: comboData.suggested_price ?? undefined,
-					status: comboData.status as ComboFormValues["status"],
-					imageUrl: comboData.image_path ?? undefined,
-					items: defaultItems,
-				}}
-			/>
+			<div className='space-y-6'>
+				{buildableQty === 0 ? (
+					<div className='rounded-md border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800'>
+						Con el stock actual no se puede armar este combo: no aparece en
+						la tienda y el POS no permite venderlo.
+					</div>
+				) : null}
+				<ComboForm
+					products={productOptions}
+					pricingRules={pricingRules}
+					productMetrics={productMetrics}
+					submitAction={handleUpdate}
+					submitLabel='Actualizar combo'
+					heading={comboData.name}
+					defaultValues={{
+						name: comboData.name,
+						description: comboData.description ?? undefined,
+						packagingCost: Number(comboData.packaging_cost ?? 0),
+						suggestedPrice: comboData.suggested_price ?? undefined,
+						promoTag: comboData.promo_tag ?? undefined,
+						status: comboData.status as ComboFormValues["status"],
+						imageUrl: comboData.image_path ?? undefined,
+						items: defaultItems,
+					}}
+				/>
+				{showPriceHistory ? (
+					<PriceHistoryTimeline
+						entries={priceHistory}
+						showCost={false}
+						description='Cada cambio del precio sugerido del combo con su origen y fecha.'
+					/>
+				) : null}
+			</div>
 		</DashboardShell>
 	);
 }
@@ -13,14 +13,17 @@ import { useFieldArray, useForm, useWatch } from "react-hook-form";
 import { ComboSummary } from "@/components/ComboSummary";
 import type { ComboSummaryItem } from "@/components/ComboSummary";
 import { PriceTiers } from "@/components/PriceTiers";
+import { RuleExplanationList } from "@/components/RuleExplanationList";
 import { UploadImage } from "@/components/UploadImage";
 import type { ActionErrorRecord, ActionResult } from "@/lib/actions";
+import type { ComboSuggestion } from "@/lib/combo-suggestions";
 import {
 	recommendPrice,
 	type PriceRecommendation,
 	type PriceRule,
 } from "@/lib/pricing";
 import {
+	explainComboRule,
 	normalizeRule,
 	selectBestRule,
 	type ProductPricingMetric,
@@ -32,6 +35,8 @@ import {
 	ComboItemInput,
 } from "@/lib/schemas";
 
+import { ComboSuggestions } from "./combo-suggestions";
+
 export type ComboProductOption = {
 	id: string;
 	name: string;
@@ -51,6 +56,7 @@ type ComboFormProps = {
 	heading?: string;
 	pricingRules?: PriceRule[];
 	productMetrics?: ProductPricingMetric[];
+	enableSuggestions?: boolean;
 };
 
 const statusOptions = comboStatusEnum.options;
@@ -63,6 +69,7 @@ export function ComboForm({
 	heading = "Nuevo combo",
 	pricingRules = [],
 	productMetrics = [],
+	enableSuggestions = false,
 }: ComboFormProps) {
 	const [serverErrors, setServerErrors] = useState<ActionErrorRecord | null>(
 		null,
@@ -93,6 +100,7 @@ export function ComboForm({
 		append,
 		update,
 		remove: removeItem,
+		replace,
 	} = useFieldArray({
 		control,
 		name: "items",
@@ -184,6 +192,12 @@ export function ComboForm({
 		}
 		return selectBestRule(normalizedRules, comboContext);
 	}, [comboItems.length, normalizedRules, comboContext]);
+	const ruleExplanations = useMemo(() => {
+		if (!comboItems.length) {
+			return [];
+		}
+		return normalizedRules.map((rule) => explainComboRule(rule, comboContext));
+	}, [comboItems.length, normalizedRules, comboContext]);
 	const primaryCategoryName = comboCategories.length
 		? comboCategories[0]?.name ?? null
 		: null;
@@ -208,6 +222,18 @@ export function ComboForm({
 		? "combo-promo-error"
 		: undefined;
 
+	const categoryNames = useMemo(
+		() =>
+			Array.from(
+				new Set(
+					products
+						.map((product) => product.categoryName)
+						.filter((name): name is string => Boolean(name)),
+				),
+			).sort((a, b) => a.localeCompare(b, "es")),
+		[products],
+	);
+
 	const filteredProducts = useMemo(() => {
 		if (!searchTerm) return products;
 		const value = searchTerm.toLowerCase();
@@ -366,6 +392,14 @@ export function ComboForm({
 		});
 	}
 
+	function handleApplySuggestion(suggestion: ComboSuggestion) {
+		replace(suggestion.items);
+		setValue("suggestedPrice", suggestion.suggestedPrice, {
+			shouldDirty: true,
+			shouldValidate: true,
+		});
+	}
+
 	function handleRemoveProduct(productId: string) {
 		const index = watchedItems.findIndex(
 			(item) => item.productId === productId,
@@ -528,6 +562,15 @@ export function ComboForm({
 					</div>
 				</div>
 
+				{enableSuggestions ? (
+					<ComboSuggestions
+						categories={categoryNames}
+						packagingCost={Number(packagingCost) || 0}
+						currency={currency}
+						onApply={handleApplySuggestion}
+					/>
+				) : null}
+
 				<div className='space-y-4 rounded-lg border border-gray-200 bg-white p-4 shadow-sm'>
 					<div className='flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between'>
 						<div>
@@ -653,6 +696,13 @@ export function ComboForm({
 					/>
 				</div>
 
+				{normalizedRules.length && comboItems.length ? (
+					<RuleExplanationList
+						explanations={ruleExplanations}
+						selectedRuleId={appliedRule?.id ?? null}
+					/>
+				) : null}
+
 				<div className='flex items-center justify-end'>
 					<button
 						type='submit'
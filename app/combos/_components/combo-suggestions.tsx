@@ -0,0 +1,204 @@
+"use client";
+
+import { useMemo, useState, useTransition } from "react";
+
+import type { ActionErrorRecord } from "@/lib/actions";
+import type { ComboSuggestion } from "@/lib/combo-suggestions";
+
+import { suggestCombosAction } from "../actions";
+
+type ComboSuggestionsProps = {
+	categories: string[];
+	packagingCost: number;
+	currency: string;
+	onApply: (suggestion: ComboSuggestion) => void;
+};
+
+const inputClassName =
+	"block w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300";
+
+export function ComboSuggestions({
+	categories,
+	packagingCost,
+	currency,
+	onApply,
+}: ComboSuggestionsProps) {
+	const [budgetMin, setBudgetMin] = useState("");
+	const [budgetMax, setBudgetMax] = useState("");
+	const [maxItems, setMaxItems] = useState("3");
+	const [category, setCategory] = useState("");
+	const [suggestions, setSuggestions] = useState<ComboSuggestion[] | null>(
+		null,
+	);
+	const [message, setMessage] = useState<string | null>(null);
+	const [errors, setErrors] = useState<ActionErrorRecord | null>(null);
+	const [isPending, startTransition] = useTransition();
+	const formatter = useMemo(
+		() => new Intl.NumberFormat("es-NI", { style: "currency", currency }),
+		[currency],
+	);
+
+	function handleSuggest() {
+		const formData = new FormData();
+		formData.append("budgetMin", budgetMin);
+		formData.append("budgetMax", budgetMax);
+		formData.append("maxItems", maxItems);
+		formData.append("mustIncludeCategory", category);
+		formData.append("packagingCost", String(packagingCost));
+
+		setErrors(null);
+		setMessage(null);
+
+		startTransition(async () => {
+			const result = await suggestCombosAction(formData);
+			if (!result.success) {
+				setErrors(result.errors);
+				setSuggestions(null);
+				return;
+			}
+
+			setSuggestions(result.data);
+			setMessage(result.message ?? null);
+		});
+	}
+
+	const fieldError = (field: string) =>
+		errors?.[field]?.length ? (
+			<p className='text-xs text-red-500'>{errors[field].join(" ")}</p>
+		) : null;
+
+	return (
+		<div className='space-y-4 rounded-lg border border-gray-200 bg-white p-4 shadow-sm'>
+			<div>
+				<h3 className='text-lg font-semibold text-gray-900'>Sugerir combo</h3>
+				<p className='text-sm text-gray-500'>
+					Armamos propuestas con productos en stock dentro de tu presupuesto,
+					priorizando el inventario de menor rotación.
+				</p>
+			</div>
+
+			{errors?.form && (
+				<div
+					role='alert'
+					className='rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700'>
+					{errors.form.join(" ")}
+				</div>
+			)}
+
+			<div className='grid gap-3 sm:grid-cols-2'>
+				<div className='space-y-1'>
+					<label
+						htmlFor='suggestBudgetMin'
+						className='text-sm font-medium text-gray-700'>
+						Precio mínimo
+					</label>
+					<input
+						id='suggestBudgetMin'
+						type='number'
+						min={0}
+						step='0.01'
+						value={budgetMin}
+						onChange={(event) => setBudgetMin(event.target.value)}
+						className={inputClassName}
+					/>
+					{fieldError("budgetMin")}
+				</div>
+				<div className='space-y-1'>
+					<label
+						htmlFor='suggestBudgetMax'
+						className='text-sm font-medium text-gray-700'>
+						Precio máximo
+					</label>
+					<input
+						id='suggestBudgetMax'
+						type='number'
+						min={0}
+						step='0.01'
+						value={budgetMax}
+						onChange={(event) => setBudgetMax(event.target.value)}
+						className={inputClassName}
+					/>
+					{fieldError("budgetMax")}
+				</div>
+				<div className='space-y-1'>
+					<label
+						htmlFor='suggestMaxItems'
+						className='text-sm font-medium text-gray-700'>
+						Máximo de productos
+					</label>
+					<input
+						id='suggestMaxItems'
+						type='number'
+						min={2}
+						max={6}
+						value={maxItems}
+						onChange={(event) => setMaxItems(event.target.value)}
+						className={inputClassName}
+					/>
+					{fieldError("maxItems")}
+				</div>
+				<div className='space-y-1'>
+					<label
+						htmlFor='suggestCategory'
+						className='text-sm font-medium text-gray-700'>
+						Debe incluir la categoría
+					</label>
+					<select
+						id='suggestCategory'
+						value={category}
+						onChange={(event) => setCategory(event.target.value)}
+						className={inputClassName}>
+						<option value=''>Cualquiera</option>
+						{categories.map((name) => (
+							<option key={name} value={name}>
+								{name}
+							</option>
+						))}
+					</select>
+				</div>
+			</div>
+
+			<div className='flex justify-end'>
+				<button
+					type='button'
+					onClick={handleSuggest}
+					disabled={isPending}
+					className='inline-flex items-center rounded-md border border-blush-300 px-3 py-1.5 text-sm font-medium text-blush-700 transition hover:bg-blush-50 disabled:cursor-not-allowed disabled:opacity-60'>
+					{isPending ? "Buscando…" : "Sugerir combo"}
+				</button>
+			</div>
+
+			{message && <p className='text-sm text-gray-500'>{message}</p>}
+
+			{suggestions?.length ? (
+				<ol className='space-y-3'>
+					{suggestions.map((suggestion) => (
+						<li
+							key={suggestion.items.map((item) => item.productId).join(":")}
+							className='flex flex-col gap-3 rounded-md border border-gray-200 p-3 sm:flex-row sm:items-center sm:justify-between'>
+							<div>
+								<p className='text-sm font-medium text-gray-900'>
+									{suggestion.items.map((item) => item.name).join(" + ")}
+								</p>
+								<p className='text-xs text-gray-500'>
+									Precio sugerido:{" "}
+									{formatter.format(suggestion.suggestedPrice)} · Costo:{" "}
+									{formatter.format(suggestion.totalCost)}
+									{suggestion.averageAgeDays !== null
+										? ` · Antigüedad promedio: ${suggestion.averageAgeDays} días`
+										: null}
+								</p>
+							</div>
+							<button
+								type='button'
+								onClick={() => onApply(suggestion)}
+								className='inline-flex shrink-0 items-center rounded-md bg-blush-500 px-3 py-1.5 text-xs font-semibold text-white shadow-sm transition hover:bg-blush-400'>
+								Usar propuesta
+							</button>
+						</li>
+					))}
+				</ol>
+			) : null}
+		</div>
+	);
+}
@@ -3,13 +3,28 @@
 import { z } from "zod";
 
 import type { ActionErrorRecord, ActionResult } from "@/lib/actions";
-import { comboFormSchema, ComboFormValues } from "@/lib/schemas";
+import { recordAuditEvent } from "@/lib/audit";
+import { suggestCombos, type ComboSuggestion } from "@/lib/combo-suggestions";
+import { recordPriceChanges, toPriceSnapshot } from "@/lib/price-history";
+import {
+	loadActivePriceRules,
+	loadPricingCatalog,
+} from "@/lib/pricing-catalog";
+import {
+	comboFormSchema,
+	ComboFormValues,
+	suggestComboInputSchema,
+} from "@/lib/schemas";
+import {
+	STAFF_AUTHORIZATION_MESSAGES,
+	StaffAuthorizationError,
+	requireRoutePermission,
+} from "@/lib/staff";
 import { deleteImageFromBucket, uploadImageToBucket } from "@/lib/storage";
 import {
 	createSupabaseAdminClient,
 	MissingEnvironmentVariableError,
 } from "@/lib/supabase-admin";
-import { createSupabaseServerClient } from "@/lib/supabase-server";
 
 function parseItemsField(
 	value: FormDataEntryValue | null,
@@ -42,6 +57,14 @@ function flattenErrors(error: z.ZodError): ActionErrorRecord {
 	};
 }
 
+function serializeComboItems(
+	items: Array<{ productId: string; qty: number | string }>,
+) {
+	return items
+		.map((item) => ({ product_id: item.productId, qty: Number(item.qty) }))
+		.sort((a, b) => a.product_id.localeCompare(b.product_id));
+}
+
 function parseComboForm(formData: FormData) {
 	const itemsPayload = parseItemsField(formData.get("items"));
 	const imageEntry = formData.get("imageFile");
@@ -52,6 +75,7 @@ function parseComboForm(formData: FormData) {
 		packagingCost: formData.get("packagingCost"),
 		status: formData.get("status"),
 		suggestedPrice: formData.get("suggestedPrice"),
+		promoTag: formData.get("promoTag"),
 		imageFile:
 			imageEntry instanceof File && imageEntry.size > 0
 				? imageEntry
@@ -71,9 +95,8 @@ export async function createComboAction(
 ): Promise<ActionResult<{ id: string }>> {
 	try {
 		const payload = parseComboForm(formData);
-		const supabase = await createSupabaseServerClient();
+		const { user } = await requireRoutePermission("/combos");
 		const adminClient = createSupabaseAdminClient();
-		const [{ data: authData }] = await Promise.all([supabase.auth.getUser()]);
 
 		let imageUrl: string | null = null;
 		if (payload.imageFile instanceof File) {
@@ -86,17 +109,19 @@ export async function createComboAction(
 			imageUrl = upload.publicUrl;
 		}
 
+		const comboState = {
+			name: payload.name,
+			description: payload.description ?? null,
+			packaging_cost: Number(payload.packagingCost ?? 0),
+			suggested_price: payload.suggestedPrice ?? null,
+			promo_tag: payload.promoTag ?? null,
+			status: payload.status,
+			image_path: imageUrl,
+		};
+
 		const { data: combo, error } = await adminClient
 			.from("combos")
-			.insert({
-				name: payload.name,
-				description: payload.description ?? null,
-				packaging_cost: Number(payload.packagingCost ?? 0),
-				suggested_price: payload.suggestedPrice ?? null,
-				status: payload.status,
-				image_path: imageUrl,
-				created_by: authData?.user?.id ?? null,
-			})
+			.insert({ ...comboState, created_by: user.id })
 			.select("id")
 			.single();
 
@@ -124,6 +149,28 @@ export async function createComboAction(
 			}
 		}
 
+		try {
+			await recordPriceChanges(adminClient, [
+				{
+					comboId: combo.id,
+					source: "manual",
+					before: null,
+					after: toPriceSnapshot(comboState.suggested_price),
+					createdBy: user.id,
+				},
+			]);
+		} catch (historyError) {
+			console.error("[createComboAction] price history", historyError);
+		}
+
+		await recordAuditEvent(adminClient, {
+			actor: user,
+			action: "combo.create",
+			entityType: "combo",
+			entityId: combo.id,
+			after: { ...comboState, items: serializeComboItems(payload.items) },
+		});
+
 		return {
 			success: true,
 			data: { id: combo.id },
@@ -134,6 +181,13 @@ export async function createComboAction(
 			return { success: false, errors: flattenErrors(error) };
 		}
 
+		if (error instanceof StaffAuthorizationError) {
+			return {
+				success: false,
+				errors: { form: [STAFF_AUTHORIZATION_MESSAGES[error.reason]] },
+			};
+		}
+
 		if (error instanceof MissingEnvironmentVariableError) {
 			return {
 				success: false,
@@ -164,13 +218,14 @@ export async function updateComboAction(
 			.uuid("ID de combo inválido")
 			.parse(formData.get("id"));
 		const payload = parseComboForm(formData);
-		const supabase = await createSupabaseServerClient();
+		const { user } = await requireRoutePermission("/combos");
 		const adminClient = createSupabaseAdminClient();
-		const [{ data: authData }] = await Promise.all([supabase.auth.getUser()]);
 
 		const { data: existing, error: fetchError } = await adminClient
 			.from("combos")
-			.select("image_path, created_by")
+			.select(
+				"name, description, packaging_cost, suggested_price, promo_tag, status, image_path, combo_items(product_id, qty)",
+			)
 			.eq("id", id)
 			.maybeSingle();
 
@@ -185,17 +240,6 @@ export async function updateComboAction(
 			};
 		}
 
-		if (
-			existing.created_by &&
-			authData?.user?.id &&
-			existing.created_by !== authData.user.id
-		) {
-			return {
-				success: false,
-				errors: { form: ["No tienes permisos para modificar este combo."] },
-			};
-		}
-
 		let imageUrl = existing.image_path ?? null;
 		if (payload.imageFile instanceof File) {
 			await deleteImageFromBucket(adminClient, "products", existing.image_path);
@@ -208,16 +252,19 @@ export async function updateComboAction(
 			imageUrl = upload.publicUrl;
 		}
 
+		const comboState = {
+			name: payload.name,
+			description: payload.description ?? null,
+			packaging_cost: Number(payload.packagingCost ?? 0),
+			suggested_price: payload.suggestedPrice ?? null,
+			promo_tag: payload.promoTag ?? null,
+			status: payload.status,
+			image_path: imageUrl,
+		};
+
 		const { error: updateError } = await adminClient
 			.from("combos")
-			.update({
-				name: payload.name,
-				description: payload.description ?? null,
-				packaging_cost: Number(payload.packagingCost ?? 0),
-				suggested_price: payload.suggestedPrice ?? null,
-				status: payload.status,
-				image_path: imageUrl,
-			})
+			.update(comboState)
 			.eq("id", id);
 
 		if (updateError) {
@@ -242,6 +289,43 @@ export async function updateComboAction(
 			}
 		}
 
+		try {
+			await recordPriceChanges(adminClient, [
+				{
+					comboId: id,
+					source: "manual",
+					before: toPriceSnapshot(existing.suggested_price),
+					after: toPriceSnapshot(comboState.suggested_price),
+					createdBy: user.id,
+				},
+			]);
+		} catch (historyError) {
+			console.error("[updateComboAction] price history", historyError);
+		}
+
+		const { combo_items: existingItems, ...existingState } = existing;
+		await recordAuditEvent(adminClient, {
+			actor: user,
+			action: "combo.update",
+			entityType: "combo",
+			entityId: id,
+			before: {
+				...existingState,
+				packaging_cost: Number(existingState.packaging_cost ?? 0),
+				suggested_price:
+					existingState.suggested_price === null
+						? null
+						: Number(existingState.suggested_price),
+				items: serializeComboItems(
+					(existingItems ?? []).map((item) => ({
+						productId: item.product_id,
+						qty: item.qty,
+					})),
+				),
+			},
+			after: { ...comboState, items: serializeComboItems(payload.items) },
+		});
+
 		return {
 			success: true,
 			data: { payload: { id, ...payload } },
@@ -252,6 +336,13 @@ export async function updateComboAction(
 			return { success: false, errors: flattenErrors(error) };
 		}
 
+		if (error instanceof StaffAuthorizationError) {
+			return {
+				success: false,
+				errors: { form: [STAFF_AUTHORIZATION_MESSAGES[error.reason]] },
+			};
+		}
+
 		if (error instanceof MissingEnvironmentVariableError) {
 			return {
 				success: false,
@@ -270,3 +361,81 @@ export async function updateComboAction(
 		};
 	}
 }
+
+export async function suggestCombosAction(
+	formData: FormData,
+): Promise<ActionResult<ComboSuggestion[]>> {
+	try {
+		const values = suggestComboInputSchema.parse({
+			budgetMin: formData.get("budgetMin"),
+			budgetMax: formData.get("budgetMax"),
+			maxItems: formData.get("maxItems"),
+			mustIncludeCategory: formData.get("mustIncludeCategory"),
+			packagingCost: formData.get("packagingCost"),
+		});
+		await requireRoutePermission("/combos");
+		const adminClient = createSupabaseAdminClient();
+		const [catalog, rules] = await Promise.all([
+			loadPricingCatalog(adminClient),
+			loadActivePriceRules(adminClient, "combo"),
+		]);
+
+		const candidates = catalog.products
+			.filter(
+				(product) =>
+					product.status === "active" &&
+					product.quantity > 0 &&
+					(product.costPrice ?? 0) > 0,
+			)
+			.map((product) => {
+				const metric = catalog.metrics.get(product.id);
+				return {
+					id: product.id,
+					name: product.name,
+					costPrice: product.costPrice ?? 0,
+					categoryId: product.categoryId,
+					categoryName: product.categoryName,
+					inventoryAgeDays: metric?.inventoryAgeDays ?? null,
+					costChangePct: metric?.costChangePct ?? null,
+				};
+			});
+
+		const suggestions = suggestCombos(candidates, { ...values, rules });
+
+		return {
+			success: true,
+			data: suggestions,
+			message: suggestions.length
+				? undefined
+				: "No encontramos combos dentro de ese presupuesto.",
+		};
+	} catch (error) {
+		if (error instanceof z.ZodError) {
+			return { success: false, errors: flattenErrors(error) };
+		}
+
+		if (error instanceof StaffAuthorizationError) {
+			return {
+				success: false,
+				errors: { form: [STAFF_AUTHORIZATION_MESSAGES[error.reason]] },
+			};
+		}
+
+		if (error instanceof MissingEnvironmentVariableError) {
+			return {
+				success: false,
+				errors: {
+					form: [
+						`Falta configurar la variable de entorno ${error.envVar}. Revisa la guía de instalación para obtener el valor correcto.`,
+					],
+				},
+			};
+		}
+
+		console.error("[suggestCombosAction]", error);
+		return {
+			success: false,
+			errors: { form: ["No pudimos generar sugerencias de combos."] },
+		};
+	}
+}
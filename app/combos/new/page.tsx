@@ -1,9 +1,15 @@
 import Link from "next/link";
-import { redirect } from "next/navigation";
 
 import { ComboForm } from "@/app/combos/_components/combo-form";
 import { createComboAction } from "@/app/combos/actions";
 import DashboardShell from "@/components/dashboard-shell";
+import type { PriceRule } from "@/lib/pricing";
+import {
+	loadPriceRules,
+	loadProductPricingMetrics,
+} from "@/lib/pricing-catalog";
+import type { ProductPricingMetric } from "@/lib/pricing-rules";
+import { requireStaffPage } from "@/lib/staff";
 import { createSupabaseServerClient } from "@/lib/supabase-server";
 
 type ProductRow = {
@@ -11,21 +17,16 @@ type ProductRow = {
 	name: string;
 	cost_price: number;
 	status: string;
+	category_id: string | null;
 	categories: { name: string | null } | null;
 };
 
 export default async function NewComboPage() {
+	const { user } = await requireStaffPage("manageInventory");
 	const supabase = await createSupabaseServerClient();
-	const {
-		data: { user },
-	} = await supabase.auth.getUser();
-
-	if (!user) {
-		redirect("/login");
-	}
 	const { data: products } = await supabase
 		.from("products")
-		.select("id, name, cost_price, status, categories(name)")
+		.select("id, name, cost_price, status, category_id, categories(name)")
 		.eq("status", "active")
 		.order("name", { ascending: true });
 
@@ -33,9 +34,23 @@ export default async function NewComboPage() {
 		id: product.id,
 		name: product.name,
 		cost_price: Number(product.cost_price ?? 0),
-		category: product.categories?.name ?? null,
+		categoryId: product.category_id,
+		categoryName: product.categories?.name ?? null,
 	}));
 
+	let pricingRules: PriceRule[] = [];
+	let productMetrics: ProductPricingMetric[] = [];
+	try {
+		const [rules, metrics] = await Promise.all([
+			loadPriceRules(supabase, "combo"),
+			loadProductPricingMetrics(supabase),
+		]);
+		pricingRules = rules;
+		productMetrics = Array.from(metrics.values());
+	} catch (error) {
+		console.error("[NewComboPage] pricing rules", error);
+	}
+
 	return (
 		<DashboardShell
 			user={user}
@@ -51,8 +66,11 @@ export default async function NewComboPage() {
 			}>
 			<ComboForm
 				products={productOptions}
+				pricingRules={pricingRules}
+				productMetrics={productMetrics}
 				submitAction={createComboAction}
 				submitLabel='Guardar borrador'
+				enableSuggestions
 			/>
 		</DashboardShell>
 	);
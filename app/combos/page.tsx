@@ -1,9 +1,10 @@
 import Image from "next/image";
 import Link from "next/link";
-import { redirect } from "next/navigation";
 
 import DashboardShell from "@/components/dashboard-shell";
+import { fetchComboBuildableCounts } from "@/lib/combo-availability";
 import { recommendPrice } from "@/lib/pricing";
+import { requireStaffPage } from "@/lib/staff";
 import { createSupabaseServerClient } from "@/lib/supabase-server";
 
 const COMBO_STATUSES = [
@@ -49,14 +50,8 @@ export default async function CombosPage({
 	searchParams: Promise<SearchParams>;
 }) {
 	const resolvedSearchParams = await searchParams;
+	const { user } = await requireStaffPage("manageInventory");
 	const supabase = await createSupabaseServerClient();
-	const {
-		data: { user },
-	} = await supabase.auth.getUser();
-
-	if (!user) {
-		redirect("/login");
-	}
 
 	let combosQuery = supabase
 		.from("combos")
@@ -72,6 +67,16 @@ export default async function CombosPage({
 
 	const { data: combos } = await combosQuery;
 
+	let buildable = new Map<string, number>();
+	try {
+		buildable = await fetchComboBuildableCounts(
+			supabase,
+			(combos ?? []).map((combo: ComboRow) => combo.id),
+		);
+	} catch (error) {
+		console.error("[CombosPage] buildable counts", error);
+	}
+
 	return (
 		<DashboardShell
 			user={user}
@@ -109,12 +114,18 @@ export default async function CombosPage({
 				</button>
 			</form>
 
-			<CombosTable combos={combos ?? []} />
+			<CombosTable combos={combos ?? []} buildable={buildable} />
 		</DashboardShell>
 	);
 }
 
-function CombosTable({ combos }: { combos: ComboRow[] }) {
+function CombosTable({
+	combos,
+	buildable,
+}: {
+	combos: ComboRow[];
+	buildable: Map<string, number>;
+}) {
 	if (!combos.length) {
 		return (
 			<div className='rounded-lg border border-blush-200 bg-white p-12 text-center text-sm text-gray-500 shadow-sm'>
@@ -137,6 +148,9 @@ function CombosTable({ combos }: { combos: ComboRow[] }) {
 						<th className='px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500'>
 							Precio sugerido
 						</th>
+						<th className='px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500'>
+							Disponibles
+						</th>
 						<th className='px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500'>
 							Estado
 						</th>
@@ -194,6 +208,9 @@ function CombosTable({ combos }: { combos: ComboRow[] }) {
 								<td className='px-4 py-4 text-sm text-gray-700'>
 									{formatCurrency(suggested)}
 								</td>
+								<td className='px-4 py-4 text-sm text-gray-700'>
+									<BuildableCount value={buildable.get(combo.id)} />
+								</td>
 								<td className='px-4 py-4 text-sm text-gray-700'>
 									<StatusBadge status={combo.status} />
 								</td>
@@ -213,6 +230,16 @@ function CombosTable({ combos }: { combos: ComboRow[] }) {
 	);
 }
 
+function BuildableCount({ value }: { value: number | undefined }) {
+	if (value === undefined) {
+		return <span className='text-gray-400'>—</span>;
+	}
+	if (value === 0) {
+		return <span className='font-medium text-red-600'>Sin stock</span>;
+	}
+	return <span>{value}</span>;
+}
+
 function StatusBadge({ status }: { status: string }) {
 	const baseClass =
 		"inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium";
@@ -0,0 +1,241 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+import DashboardShell from "@/components/dashboard-shell";
+import { fetchCustomerSummary } from "@/lib/customers";
+import { ORDER_STATUS_LABELS, isOrderStatus } from "@/lib/order-status";
+import { requireStaffPage } from "@/lib/staff";
+import { createSupabaseAdminClient } from "@/lib/supabase-admin";
+
+export const dynamic = "force-dynamic";
+export const fetchCache = "force-no-store";
+export const revalidate = 0;
+
+type CustomerOrderRow = {
+	id: string;
+	receipt_number: string | null;
+	status: string | null;
+	total_amount: number | string | null;
+	refunded_amount: number | string | null;
+	currency: string | null;
+	created_at: string;
+};
+
+function parseNumber(value: string | number | null | undefined) {
+	if (value === null || value === undefined) return 0;
+	const parsed = Number(value);
+	return Number.isFinite(parsed) ? parsed : 0;
+}
+
+export default async function CustomerDetailPage({
+	params,
+}: {
+	params: Promise<{ id: string }>;
+}) {
+	const { user } = await requireStaffPage("viewCustomers");
+
+	const { id } = await params;
+	const admin = createSupabaseAdminClient();
+
+	const [customer, { data: ordersData, error: ordersError }] =
+		await Promise.all([
+			fetchCustomerSummary(admin, id).catch((error) => {
+				console.error("[customers] detail", error);
+				return null;
+			}),
+			admin
+				.from("orders")
+				.select(
+					"id, receipt_number, status, total_amount, refunded_amount, currency, created_at",
+				)
+				.eq("customer_id", id)
+				.order("created_at", { ascending: false })
+				.limit(100),
+		]);
+
+	if (!customer) {
+		notFound();
+	}
+
+	const orders = (ordersData ?? []) as CustomerOrderRow[];
+	const currency = orders[0]?.currency ?? "NIO";
+
+	return (
+		<DashboardShell
+			user={user}
+			currentPath='/customers'
+			title={customer.name ?? "Cliente sin nombre"}
+			description={
+				[customer.phone, customer.email].filter(Boolean).join(" · ") ||
+				undefined
+			}
+			action={
+				<Link
+					href='/customers'
+					className='inline-flex items-center rounded-md border border-gray-200 px-4 py-2 text-sm font-medium text-gray-700 transition hover:bg-blush-100'>
+					Volver a clientes
+				</Link>
+			}>
+			<div className='space-y-8'>
+				<div className='grid gap-4 sm:grid-cols-2 xl:grid-cols-4'>
+					<StatCard
+						title='Gasto total'
+						value={formatCurrency(customer.lifetimeSpend, currency)}
+						description='Compras completadas menos reembolsos.'
+					/>
+					<StatCard
+						title='Compras'
+						value={customer.orderCount.toString()}
+						description={
+							customer.firstPurchaseAt
+								? `Cliente desde ${formatDate(customer.firstPurchaseAt)}.`
+								: "Aún no completa una compra."
+						}
+					/>
+					<StatCard
+						title='Última compra'
+						value={
+							customer.lastPurchaseAt
+								? formatDate(customer.lastPurchaseAt)
+								: "Sin compras"
+						}
+						description='Fecha de la orden completada más reciente.'
+					/>
+					<StatCard
+						title='Ticket promedio'
+						value={formatCurrency(
+							customer.orderCount
+								? customer.lifetimeSpend / customer.orderCount
+								: 0,
+							currency,
+						)}
+						description='Gasto total entre compras completadas.'
+					/>
+				</div>
+
+				<section className='rounded-lg border border-gray-200 bg-white p-6 shadow-sm'>
+					<h2 className='text-lg font-semibold text-gray-900'>
+						Categorías favoritas
+					</h2>
+					{customer.favoriteCategories.length ? (
+						<ol className='mt-4 flex flex-wrap gap-2'>
+							{customer.favoriteCategories.map((category, index) => (
+								<li
+									key={category}
+									className='inline-flex items-center gap-2 rounded-full bg-blush-100 px-3 py-1 text-sm font-medium text-blush-600'>
+									<span className='text-xs text-blush-400'>#{index + 1}</span>
+									{category}
+								</li>
+							))}
+						</ol>
+					) : (
+						<p className='mt-2 text-sm text-gray-500'>
+							Aún no hay compras de productos con categoría.
+						</p>
+					)}
+				</section>
+
+				<section className='overflow-hidden rounded-lg border border-gray-200 bg-white shadow-sm'>
+					<h2 className='border-b border-gray-200 px-6 py-4 text-lg font-semibold text-gray-900'>
+						Historial de órdenes
+					</h2>
+					{ordersError ? (
+						<p className='px-6 py-4 text-sm text-red-600'>
+							No pudimos cargar las órdenes del cliente.
+						</p>
+					) : orders.length ? (
+						<table className='min-w-full divide-y divide-gray-200 text-sm'>
+							<thead className='bg-gray-50 text-xs font-semibold uppercase tracking-wider text-gray-500'>
+								<tr>
+									<th className='px-4 py-3 text-left'>Comprobante</th>
+									<th className='px-4 py-3 text-left'>Estado</th>
+									<th className='px-4 py-3 text-left'>Total</th>
+									<th className='px-4 py-3 text-left'>Reembolsado</th>
+									<th className='px-4 py-3 text-left'>Creada</th>
+									<th className='px-4 py-3 text-right'>Acciones</th>
+								</tr>
+							</thead>
+							<tbody className='divide-y divide-gray-200'>
+								{orders.map((order) => (
+									<tr key={order.id} className='hover:bg-blush-50'>
+										<td className='px-4 py-4 text-gray-700'>
+											{order.receipt_number ?? "Sin comprobante"}
+										</td>
+										<td className='px-4 py-4 text-gray-700'>
+											{isOrderStatus(order.status)
+												? ORDER_STATUS_LABELS[order.status]
+												: order.status ?? "Sin estado"}
+										</td>
+										<td className='px-4 py-4 text-gray-900'>
+											{formatCurrency(
+												parseNumber(order.total_amount),
+												order.currency ?? currency,
+											)}
+										</td>
+										<td className='px-4 py-4 text-gray-700'>
+											{formatCurrency(
+												parseNumber(order.refunded_amount),
+												order.currency ?? currency,
+											)}
+										</td>
+										<td className='px-4 py-4 text-gray-500'>
+											{formatDate(order.created_at)}
+										</td>
+										<td className='px-4 py-4 text-right'>
+											<Link
+												href={`/orders/${order.id}`}
+												className='inline-flex items-center rounded-md border border-gray-200 px-3 py-1.5 text-xs font-medium text-gray-700 transition hover:bg-blush-100'>
+												Ver orden
+											</Link>
+										</td>
+									</tr>
+								))}
+							</tbody>
+						</table>
+					) : (
+						<p className='px-6 py-4 text-sm text-gray-500'>
+							Este cliente aún no tiene órdenes.
+						</p>
+					)}
+				</section>
+			</div>
+		</DashboardShell>
+	);
+}
+
+function StatCard({
+	title,
+	value,
+	description,
+}: {
+	title: string;
+	value: string;
+	description: string;
+}) {
+	return (
+		<div className='rounded-xl border border-gray-200 bg-white p-5 shadow-sm'>
+			<p className='text-sm font-medium text-gray-500'>{title}</p>
+			<p className='mt-2 text-2xl font-semibold text-gray-900'>{value}</p>
+			<p className='mt-1 text-xs text-gray-500'>{description}</p>
+		</div>
+	);
+}
+
+function formatCurrency(value: number, currency: string) {
+	return new Intl.NumberFormat("es-NI", {
+		style: "currency",
+		currency,
+		minimumFractionDigits: 2,
+	}).format(value ?? 0);
+}
+
+function formatDate(raw: string) {
+	try {
+		return new Intl.DateTimeFormat("es-NI", {
+			dateStyle: "medium",
+			timeZone: "UTC",
+		}).format(new Date(raw));
+	} catch {
+		return raw;
+	}
+}
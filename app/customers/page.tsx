@@ -0,0 +1,230 @@
+import Link from "next/link";
+
+import DashboardShell from "@/components/dashboard-shell";
+import { listCustomerSummaries, type CustomerSummary } from "@/lib/customers";
+import { requireStaffPage } from "@/lib/staff";
+import { createSupabaseAdminClient } from "@/lib/supabase-admin";
+
+export const dynamic = "force-dynamic";
+export const fetchCache = "force-no-store";
+export const revalidate = 0;
+
+const CURRENCY = "NIO";
+
+export default async function CustomersPage({
+	searchParams,
+}: {
+	searchParams?: Promise<Record<string, string | string[] | undefined>>;
+}) {
+	const { user } = await requireStaffPage("viewCustomers");
+
+	const params = searchParams ? await searchParams : {};
+	const rawQuery = Array.isArray(params?.q) ? params.q[0] : params?.q;
+	const search = rawQuery?.trim() ?? "";
+
+	let customers: CustomerSummary[] = [];
+	let loadError = false;
+
+	try {
+		customers = await listCustomerSummaries(createSupabaseAdminClient(), {
+			search: search || undefined,
+		});
+	} catch (error) {
+		console.error("[customers] list", error);
+		loadError = true;
+	}
+
+	const repeatCustomers = customers.filter(
+		(customer) => customer.orderCount > 1,
+	).length;
+	const totalSpend = customers.reduce(
+		(sum, customer) => sum + customer.lifetimeSpend,
+		0,
+	);
+	const buyers = customers.filter((customer) => customer.orderCount > 0);
+
+	return (
+		<DashboardShell
+			user={user}
+			currentPath='/customers'
+			title='Clientes'
+			description='Identifica a tus clientes frecuentes, cuánto han comprado y qué categorías prefieren.'>
+			{loadError ? (
+				<div className='rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700'>
+					No pudimos cargar los clientes. Verifica que la vista{" "}
+					<code>customer_summaries</code> exista en Supabase y vuelve a
+					intentarlo.
+				</div>
+			) : (
+				<div className='space-y-8'>
+					<div className='grid gap-4 sm:grid-cols-2 xl:grid-cols-4'>
+						<StatCard
+							title='Clientes'
+							value={customers.length.toString()}
+							description={
+								search
+									? "Coincidencias con tu búsqueda."
+									: "Registrados por teléfono o correo."
+							}
+						/>
+						<StatCard
+							title='Clientes frecuentes'
+							value={repeatCustomers.toString()}
+							description='Con más de una compra completada.'
+						/>
+						<StatCard
+							title='Gasto acumulado'
+							value={formatCurrency(totalSpend)}
+							description='Compras completadas menos reembolsos.'
+						/>
+						<StatCard
+							title='Gasto promedio'
+							value={formatCurrency(
+								buyers.length ? totalSpend / buyers.length : 0,
+							)}
+							description='Por cliente con al menos una compra.'
+						/>
+					</div>
+
+					<form className='flex flex-col gap-2 sm:flex-row' method='get'>
+						<input
+							type='search'
+							name='q'
+							defaultValue={search}
+							placeholder='Buscar por nombre, teléfono o correo'
+							className='w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300 sm:max-w-md'
+						/>
+						<button
+							type='submit'
+							className='inline-flex items-center justify-center rounded-md bg-blush-500 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-blush-400'>
+							Buscar
+						</button>
+						{search ? (
+							<Link
+								href='/customers'
+								className='inline-flex items-center justify-center rounded-md border border-gray-200 px-4 py-2 text-sm font-medium text-gray-700 transition hover:bg-blush-100'>
+								Limpiar
+							</Link>
+						) : null}
+					</form>
+
+					<CustomersTable customers={customers} />
+				</div>
+			)}
+		</DashboardShell>
+	);
+}
+
+function StatCard({
+	title,
+	value,
+	description,
+}: {
+	title: string;
+	value: string;
+	description: string;
+}) {
+	return (
+		<div className='rounded-xl border border-gray-200 bg-white p-5 shadow-sm'>
+			<p className='text-sm font-medium text-gray-500'>{title}</p>
+			<p className='mt-2 text-2xl font-semibold text-gray-900'>{value}</p>
+			<p className='mt-1 text-xs text-gray-500'>{description}</p>
+		</div>
+	);
+}
+
+function CustomersTable({ customers }: { customers: CustomerSummary[] }) {
+	if (!customers.length) {
+		return (
+			<div className='rounded-lg border border-gray-200 bg-white p-12 text-center text-sm text-gray-500 shadow-sm'>
+				Aún no hay clientes registrados. Se crean automáticamente al registrar
+				ventas con teléfono o correo.
+			</div>
+		);
+	}
+
+	return (
+		<div className='overflow-hidden rounded-lg border border-gray-200 bg-white shadow-sm'>
+			<table className='min-w-full divide-y divide-gray-200 text-sm'>
+				<thead className='bg-gray-50 text-xs font-semibold uppercase tracking-wider text-gray-500'>
+					<tr>
+						<th className='px-4 py-3 text-left'>Cliente</th>
+						<th className='px-4 py-3 text-left'>Contacto</th>
+						<th className='px-4 py-3 text-left'>Compras</th>
+						<th className='px-4 py-3 text-left'>Gasto total</th>
+						<th className='px-4 py-3 text-left'>Última compra</th>
+						<th className='px-4 py-3 text-left'>Categorías favoritas</th>
+						<th className='px-4 py-3 text-right'>Acciones</th>
+					</tr>
+				</thead>
+				<tbody className='divide-y divide-gray-200'>
+					{customers.map((customer) => (
+						<tr key={customer.id} className='hover:bg-blush-50'>
+							<td className='px-4 py-4 font-medium text-gray-900'>
+								{customer.name ?? "Cliente sin nombre"}
+							</td>
+							<td className='px-4 py-4 text-gray-700'>
+								<div className='flex flex-col text-xs'>
+									{customer.phone ? <span>{customer.phone}</span> : null}
+									{customer.email ? (
+										<span className='text-gray-500'>{customer.email}</span>
+									) : null}
+								</div>
+							</td>
+							<td className='px-4 py-4 text-gray-700'>{customer.orderCount}</td>
+							<td className='px-4 py-4 text-gray-900'>
+								{formatCurrency(customer.lifetimeSpend)}
+							</td>
+							<td className='px-4 py-4 text-gray-500'>
+								{customer.lastPurchaseAt
+									? formatDate(customer.lastPurchaseAt)
+									: "Sin compras"}
+							</td>
+							<td className='px-4 py-4'>
+								{customer.favoriteCategories.length ? (
+									<div className='flex flex-wrap gap-1'>
+										{customer.favoriteCategories.map((category) => (
+											<span
+												key={category}
+												className='inline-flex items-center rounded-full bg-blush-100 px-2 py-0.5 text-xs font-medium text-blush-600'>
+												{category}
+											</span>
+										))}
+									</div>
+								) : (
+									<span className='text-xs text-gray-400'>Sin datos</span>
+								)}
+							</td>
+							<td className='px-4 py-4 text-right'>
+								<Link
+									href={`/customers/${customer.id}`}
+									className='inline-flex items-center rounded-md border border-gray-200 px-3 py-1.5 text-xs font-medium text-gray-700 transition hover:bg-blush-100'>
+									Ver detalle
+								</Link>
+							</td>
+						</tr>
+					))}
+				</tbody>
+			</table>
+		</div>
+	);
+}
+
+function formatCurrency(value: number) {
+	return new Intl.NumberFormat("es-NI", {
+		style: "currency",
+		currency: CURRENCY,
+		minimumFractionDigits: 2,
+	}).format(value ?? 0);
+}
+
+function formatDate(raw: string) {
+	try {
+		return new Intl.DateTimeFormat("es-NI", {
+			dateStyle: "medium",
+			timeZone: "UTC",
+		}).format(new Date(raw));
+	} catch {
+		return raw;
+	}
+}
@@ -1,7 +1,7 @@
 import Link from "next/link";
-import { redirect } from "next/navigation";
 
 import DashboardShell from "@/components/dashboard-shell";
+import { requireStaffPage } from "@/lib/staff";
 import { createSupabaseServerClient } from "@/lib/supabase-server";
 
 const numberFormatter = new Intl.NumberFormat("es-NI");
@@ -53,17 +53,13 @@ type OrderSnapshotRow = {
 	total_amount: number | string | null;
 	profit_amount: number | string | null;
 	total_cost: number | string | null;
+	refunded_amount?: number | string | null;
+	refunded_cost?: number | string | null;
 };
 
 export default async function DashboardPage() {
+	const { user } = await requireStaffPage("viewDashboard");
 	const supabase = await createSupabaseServerClient();
-	const {
-		data: { user },
-	} = await supabase.auth.getUser();
-
-	if (!user) {
-		redirect("/login");
-	}
 
 	let productCount = 0;
 	let activeProductCount = 0;
@@ -117,7 +113,9 @@ export default async function DashboardPage() {
 			.limit(5),
 		supabase
 			.from("orders")
-			.select("created_at, total_amount, profit_amount, total_cost")
+			.select(
+				"created_at, total_amount, profit_amount, total_cost, refunded_amount, refunded_cost",
+			)
 			.eq("status", "completed")
 			.gte("created_at", thirtyDaysAgoISO)
 			.limit(2000),
@@ -235,19 +233,26 @@ export default async function DashboardPage() {
 
 	ordersLast30 = orderRows.length;
 
-	revenueLast30 = orderRows.reduce((total, row) => {
-		return total + safeNumber(row.total_amount);
-	}, 0);
-
-	const trendReadyOrders = orderRows.map((row) => ({
-		created_at: row.created_at,
-		total_amount: safeNumber(row.total_amount),
-		profit_amount:
+	// Partial refunds stay on completed orders; net them out of revenue and
+	// profit so the dashboard reflects what was actually kept.
+	const trendReadyOrders = orderRows.map((row) => {
+		const refundedAmount = safeNumber(row.refunded_amount);
+		const refundedCost = safeNumber(row.refunded_cost);
+		const grossProfit =
 			row.profit_amount !== null && row.profit_amount !== undefined
 				? safeNumber(row.profit_amount)
-				: safeNumber(row.total_amount) - safeNumber(row.total_cost),
-		total_cost: safeNumber(row.total_cost),
-	}));
+				: safeNumber(row.total_amount) - safeNumber(row.total_cost);
+		return {
+			created_at: row.created_at,
+			total_amount: safeNumber(row.total_amount) - refundedAmount,
+			profit_amount: grossProfit - (refundedAmount - refundedCost),
+			total_cost: safeNumber(row.total_cost) - refundedCost,
+		};
+	});
+
+	revenueLast30 = trendReadyOrders.reduce((total, row) => {
+		return total + row.total_amount;
+	}, 0);
 
 	salesTrendPoints = buildWeeklyTrendFromOrders(trendReadyOrders);
 
@@ -4,17 +4,28 @@ import { revalidatePath } from "next/cache";
 import { z } from "zod";
 
 import type { ActionErrorRecord, ActionResult } from "@/lib/actions";
+import { recordAuditEvent } from "@/lib/audit";
+import { fifoUnitCost, weightedAverageCost } from "@/lib/costing";
+import { recordPriceChanges, toPriceSnapshot } from "@/lib/price-history";
 import {
 	expenseFormSchema,
 	inventoryIntakeFormSchema,
 	type ExpenseFormValues,
 	type InventoryIntakeFormValues,
 } from "@/lib/schemas";
+import {
+	STAFF_AUTHORIZATION_MESSAGES,
+	StaffAuthorizationError,
+	requireRoutePermission,
+} from "@/lib/staff";
+import {
+	StockConflictError,
+	adjustProductStock,
+} from "@/lib/stock-movements";
 import {
 	MissingEnvironmentVariableError,
 	createSupabaseAdminClient,
 } from "@/lib/supabase-admin";
-import { createSupabaseServerClient } from "@/lib/supabase-server";
 
 function flattenErrors(error: z.ZodError): ActionErrorRecord {
 	const { fieldErrors, formErrors } = error.flatten();
@@ -100,25 +111,24 @@ export async function createExpenseAction(
 ): Promise<ActionResult<CreateExpenseResult>> {
 	try {
 		const payload = parseExpenseForm(formData);
-		const supabase = await createSupabaseServerClient();
+		const { user } = await requireRoutePermission("/finance");
 		const adminClient = createSupabaseAdminClient();
-
-		const [{ data: authData }] = await Promise.all([supabase.auth.getUser()]);
-		const userId = authData?.user?.id ?? null;
+		const userId = user.id;
+
+		const expense = {
+			description: payload.description,
+			category: payload.category ?? null,
+			type: payload.type ?? "expense",
+			provider_name: payload.providerName ?? null,
+			amount: roundCurrency(payload.amount),
+			currency: payload.currency ?? "NIO",
+			reference: payload.reference ?? null,
+			occurred_at: toISOString(payload.occurredAt),
+		};
 
 		const { data, error } = await adminClient
 			.from("expense_transactions")
-			.insert({
-				description: payload.description,
-				category: payload.category ?? null,
-				type: payload.type ?? "expense",
-				provider_name: payload.providerName ?? null,
-				amount: roundCurrency(payload.amount),
-				currency: payload.currency ?? "NIO",
-				reference: payload.reference ?? null,
-				occurred_at: toISOString(payload.occurredAt),
-				created_by: userId,
-			})
+			.insert({ ...expense, created_by: userId })
 			.select("id")
 			.single();
 
@@ -126,6 +136,14 @@ export async function createExpenseAction(
 			throw new Error(error?.message ?? "No pudimos registrar el gasto");
 		}
 
+		await recordAuditEvent(adminClient, {
+			actor: user,
+			action: "expense.create",
+			entityType: "expense",
+			entityId: data.id,
+			after: expense,
+		});
+
 		revalidatePath("/finance");
 		revalidatePath("/dashboard");
 		revalidatePath("/inventory");
@@ -140,6 +158,13 @@ export async function createExpenseAction(
 			return { success: false, errors: flattenErrors(error) };
 		}
 
+		if (error instanceof StaffAuthorizationError) {
+			return {
+				success: false,
+				errors: { form: [STAFF_AUTHORIZATION_MESSAGES[error.reason]] },
+			};
+		}
+
 		if (error instanceof MissingEnvironmentVariableError) {
 			return {
 				success: false,
@@ -167,21 +192,20 @@ export async function createInventoryIntakeAction(
 	formData: FormData,
 ): Promise<ActionResult<CreateInventoryIntakeResult>> {
 	let intakeId: string | null = null;
-	let previousQuantity = 0;
+	let stockAdded = 0;
+	let previousCost: number | null = null;
 	let productId: string | null = null;
 
 	try {
 		const payload = parseInventoryIntakeForm(formData);
 		productId = payload.productId;
-		const supabase = await createSupabaseServerClient();
+		const { user } = await requireRoutePermission("/finance");
 		const adminClient = createSupabaseAdminClient();
-
-		const [{ data: authData }] = await Promise.all([supabase.auth.getUser()]);
-		const userId = authData?.user?.id ?? null;
+		const userId = user.id;
 
 		const { data: product, error: productError } = await adminClient
 			.from("products")
-			.select("id, name, quantity")
+			.select("id, name, quantity, cost_price, sell_price, costing_method")
 			.eq("id", payload.productId)
 			.single();
 
@@ -196,7 +220,9 @@ export async function createInventoryIntakeAction(
 			};
 		}
 
-		previousQuantity = safeNumber(product.quantity);
+		const previousQuantity = safeNumber(product.quantity);
+		previousCost =
+			product.cost_price === null ? null : safeNumber(product.cost_price);
 		const newQuantity = previousQuantity + payload.quantity;
 
 		const roundedUnitCost = roundCurrency(payload.unitCost);
@@ -208,6 +234,7 @@ export async function createInventoryIntakeAction(
 				product_id: payload.productId,
 				provider_name: payload.providerName ?? null,
 				quantity: payload.quantity,
+				remaining_qty: payload.quantity,
 				unit_cost: roundedUnitCost,
 				total_cost: roundedTotalCost,
 				currency: payload.currency ?? "NIO",
@@ -226,16 +253,81 @@ export async function createInventoryIntakeAction(
 
 		intakeId = intake.id;
 
+		// The intake is now the newest cost layer; recompute the effective cost
+		// with the product's method so later sales pick it up.
+		let newCost: number;
+		if (product.costing_method === "fifo") {
+			const { data: layers, error: layersError } = await adminClient
+				.from("inventory_intake")
+				.select("unit_cost, remaining_qty")
+				.eq("product_id", payload.productId)
+				.gt("remaining_qty", 0)
+				.order("occurred_at", { ascending: true })
+				.order("created_at", { ascending: true })
+				.order("id", { ascending: true });
+
+			if (layersError) {
+				throw new Error(layersError.message);
+			}
+
+			newCost = fifoUnitCost(
+				(layers ?? []).map((layer) => ({
+					unitCost: safeNumber(layer.unit_cost),
+					remainingQty: safeNumber(layer.remaining_qty),
+				})),
+				1,
+				previousCost ?? roundedUnitCost,
+			);
+		} else {
+			newCost = weightedAverageCost(
+				previousQuantity,
+				previousCost ?? roundedUnitCost,
+				payload.quantity,
+				roundedUnitCost,
+			);
+		}
+
+		// The new cost is averaged over the quantity read above, so the stock
+		// must not have moved since. The ledger row cascades with the intake,
+		// so the cleanup below also removes it if a later step fails.
+		await adjustProductStock(adminClient, {
+			productId: payload.productId,
+			expectedQuantity: previousQuantity,
+			quantityChange: payload.quantity,
+			type: "intake",
+			intakeId: intake.id,
+			notes: payload.providerName ? `Proveedor: ${payload.providerName}` : null,
+			createdBy: userId,
+		});
+		stockAdded = payload.quantity;
+
 		const { error: updateProductError } = await adminClient
 			.from("products")
-			.update({ quantity: newQuantity })
+			.update({ cost_price: newCost })
 			.eq("id", payload.productId);
 
 		if (updateProductError) {
-			await adminClient.from("inventory_intake").delete().eq("id", intake.id);
 			throw new Error(updateProductError.message);
 		}
 
+		try {
+			await recordPriceChanges(adminClient, [
+				{
+					productId: payload.productId,
+					source: "intake",
+					before: toPriceSnapshot(product.sell_price, previousCost),
+					after: toPriceSnapshot(product.sell_price, newCost),
+					reference: `inventory_intake:${intake.id}`,
+					createdBy: userId,
+				},
+			]);
+		} catch (historyError) {
+			console.error(
+				"[createInventoryIntakeAction] price history",
+				historyError,
+			);
+		}
+
 		const expenseDescription = payload.notes?.trim().length
 			? payload.notes.trim()
 			: `Ingreso de inventario - ${product.name ?? "Producto"}`;
@@ -257,14 +349,30 @@ export async function createInventoryIntakeAction(
 			.single();
 
 		if (expenseError) {
-			await adminClient
-				.from("products")
-				.update({ quantity: previousQuantity })
-				.eq("id", payload.productId);
-			await adminClient.from("inventory_intake").delete().eq("id", intake.id);
 			throw new Error(expenseError.message);
 		}
 
+		await recordAuditEvent(adminClient, {
+			actor: user,
+			action: "inventory_intake.create",
+			entityType: "inventory_intake",
+			entityId: intake.id,
+			before: {
+				product_id: payload.productId,
+				quantity: previousQuantity,
+				cost_price: previousCost,
+			},
+			after: {
+				product_id: payload.productId,
+				quantity: newQuantity,
+				cost_price: newCost,
+				unit_cost: roundedUnitCost,
+				total_cost: roundedTotalCost,
+				provider_name: payload.providerName ?? null,
+				expense_id: expense?.id ?? null,
+			},
+		});
+
 		revalidatePath("/finance");
 		revalidatePath("/inventory");
 		revalidatePath("/dashboard");
@@ -284,6 +392,13 @@ export async function createInventoryIntakeAction(
 			return { success: false, errors: flattenErrors(error) };
 		}
 
+		if (error instanceof StaffAuthorizationError) {
+			return {
+				success: false,
+				errors: { form: [STAFF_AUTHORIZATION_MESSAGES[error.reason]] },
+			};
+		}
+
 		if (error instanceof MissingEnvironmentVariableError) {
 			return {
 				success: false,
@@ -300,11 +415,24 @@ export async function createInventoryIntakeAction(
 		if (intakeId) {
 			try {
 				const adminClient = createSupabaseAdminClient();
+				// Take back only the units this intake added; sales made in the
+				// meantime keep their effect. Deleting the intake then drops both
+				// ledger rows.
+				if (stockAdded > 0) {
+					await adjustProductStock(adminClient, {
+						productId: productId ?? "",
+						expectedQuantity: null,
+						quantityChange: -stockAdded,
+						type: "adjustment",
+						intakeId,
+						notes: "Reversión de ingreso",
+					});
+					await adminClient
+						.from("products")
+						.update({ cost_price: previousCost })
+						.eq("id", productId ?? "");
+				}
 				await adminClient.from("inventory_intake").delete().eq("id", intakeId);
-				await adminClient
-					.from("products")
-					.update({ quantity: previousQuantity })
-					.eq("id", productId ?? "");
 			} catch (cleanupError) {
 				console.error(
 					"[createInventoryIntakeAction] Failed to cleanup after error",
@@ -313,6 +441,10 @@ export async function createInventoryIntakeAction(
 			}
 		}
 
+		if (error instanceof StockConflictError) {
+			return { success: false, errors: { form: [error.message] } };
+		}
+
 		return {
 			success: false,
 			errors: {
@@ -1,7 +1,7 @@
 import Link from "next/link";
-import { redirect } from "next/navigation";
 
 import DashboardShell from "@/components/dashboard-shell";
+import { requireStaffPage } from "@/lib/staff";
 import { createSupabaseServerClient } from "@/lib/supabase-server";
 
 import { ExpenseForm } from "./_components/expense-form";
@@ -82,14 +82,8 @@ type ProductOption = {
 type CurrencyTotals = Map<string, number>;
 
 export default async function FinancePage() {
+	const { user } = await requireStaffPage("viewFinance");
 	const supabase = await createSupabaseServerClient();
-	const {
-		data: { user },
-	} = await supabase.auth.getUser();
-
-	if (!user) {
-		redirect("/login");
-	}
 
 	const now = new Date();
 	const startOfMonth = new Date(
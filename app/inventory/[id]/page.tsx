@@ -1,10 +1,25 @@
 import Link from "next/link";
-import { notFound, redirect } from "next/navigation";
+import { notFound } from "next/navigation";
 
 import { ProductForm } from "@/app/inventory/_components/product-form";
+import { StockMovementHistory } from "@/app/inventory/_components/stock-movement-history";
 import { updateProductAction } from "@/app/inventory/actions";
 import DashboardShell from "@/components/dashboard-shell";
+import { PriceHistoryTimeline } from "@/components/PriceHistoryTimeline";
+import { listPriceHistory, type PriceHistoryEntry } from "@/lib/price-history";
+import type { PriceRule } from "@/lib/pricing";
+import {
+	loadActivePriceRules,
+	loadProductPricingMetrics,
+} from "@/lib/pricing-catalog";
+import type { ProductPricingMetric } from "@/lib/pricing-rules";
 import type { ProductFormValues } from "@/lib/schemas";
+import { requireStaffPage } from "@/lib/staff";
+import { hasStaffPermission } from "@/lib/staff-roles";
+import {
+	listProductStockMovements,
+	type StockMovement,
+} from "@/lib/stock-movements";
 import { createSupabaseServerClient } from "@/lib/supabase-server";
 
 export default async function EditProductPage({
@@ -13,14 +28,8 @@ export default async function EditProductPage({
 	params: Promise<{ id: string }>;
 }) {
 	const { id } = await params;
+	const { user, role } = await requireStaffPage("manageInventory");
 	const supabase = await createSupabaseServerClient();
-	const {
-		data: { user },
-	} = await supabase.auth.getUser();
-
-	if (!user) {
-		redirect("/login");
-	}
 
 	const [{ data: categories }, { data: product }] = await Promise.all([
 		supabase
@@ -30,7 +39,7 @@ export default async function EditProductPage({
 		supabase
 			.from("products")
 			.select(
-				"id, name, sku, description, status, cost_price, sell_price, currency, category_id, image_path, quantity, meta",
+				"id, name, sku, description, status, cost_price, sell_price, currency, category_id, image_path, quantity, meta, costing_method, product_barcodes(code)",
 			)
 			.eq("id", id)
 			.maybeSingle(),
@@ -40,6 +49,38 @@ export default async function EditProductPage({
 		notFound();
 	}
 
+	let movements: StockMovement[] = [];
+	try {
+		movements = await listProductStockMovements(supabase, product.id);
+	} catch (error) {
+		console.error("[EditProductPage] stock movements", error);
+	}
+
+	const showPriceHistory = hasStaffPermission(role, "viewCosts");
+	let priceHistory: PriceHistoryEntry[] = [];
+	if (showPriceHistory) {
+		try {
+			priceHistory = await listPriceHistory(supabase, {
+				productId: product.id,
+			});
+		} catch (error) {
+			console.error("[EditProductPage] price history", error);
+		}
+	}
+
+	let pricingRules: PriceRule[] = [];
+	let productMetric: ProductPricingMetric | null = null;
+	try {
+		const [rules, metrics] = await Promise.all([
+			loadActivePriceRules(supabase, "product"),
+			loadProductPricingMetrics(supabase),
+		]);
+		pricingRules = rules;
+		productMetric = metrics.get(product.id) ?? null;
+	} catch (error) {
+		console.error("[EditProductPage] pricing rules", error);
+	}
+
 	const productMeta =
 		product.meta &&
 		typeof product.meta === "object" &&
@@ -50,10 +91,15 @@ export default async function EditProductPage({
 		productMeta && typeof productMeta.brand === "string"
 			? (productMeta.brand as string)
 			: undefined;
+	const defaultPromoTag =
+		productMeta && typeof productMeta.promoTag === "string"
+			? (productMeta.promoTag as string)
+			: undefined;
 
 	async function handleUpdate(formData: FormData) {
 		"use server";
 		formData.append("id", product.id);
+		formData.append("expectedQuantity", String(product.quantity ?? 0));
 		return updateProductAction(formData);
 	}
 
@@ -70,28 +116,48 @@ export default async function EditProductPage({
 					Volver al inventario
 				</Link>
 			}>
-			<div className='rounded-lg border border-gray-200 bg-white p-6 shadow-sm'>
-				<ProductForm
-					categories={categories ?? []}
-					submitAction={handleUpdate}
-					submitLabel='Actualizar producto'
-					heading={product.name}
-					defaultValues={{
-						name: product.name,
-						brand: defaultBrand,
-						sku: product.sku ?? undefined,
-						description: product.description ?? undefined,
-						categoryId: product.category_id
-							? String(product.category_id)
-							: undefined,
-						costPrice: Number(product.cost_price ?? 0),
-						sellPrice: product.sell_price ?? undefined,
-						currency: product.currency ?? "NIO",
-						status: (product.status as ProductFormValues["status"]) ?? "active",
-						imageUrl: product.image_path,
-						quantity: product.quantity ?? 0,
-					}}
-				/>
+			<div className='space-y-6'>
+				<div className='rounded-lg border border-gray-200 bg-white p-6 shadow-sm'>
+					<ProductForm
+						categories={categories ?? []}
+						submitAction={handleUpdate}
+						submitLabel='Actualizar producto'
+						heading={product.name}
+						pricingRules={pricingRules}
+						productMetric={productMetric}
+						defaultValues={{
+							id: product.id,
+							name: product.name,
+							brand: defaultBrand,
+							promoTag: defaultPromoTag,
+							sku: product.sku ?? undefined,
+							barcodes:
+								(product.product_barcodes ?? [])
+									.map((barcode: { code: string }) => barcode.code)
+									.join("\n") || undefined,
+							description: product.description ?? undefined,
+							categoryId: product.category_id
+								? String(product.category_id)
+								: undefined,
+							costPrice: Number(product.cost_price ?? 0),
+							sellPrice: product.sell_price ?? undefined,
+							currency: product.currency ?? "NIO",
+							status: (product.status as ProductFormValues["status"]) ?? "active",
+							costingMethod:
+								(product.costing_method as ProductFormValues["costingMethod"]) ??
+								"weighted_average",
+							imageUrl: product.image_path,
+							quantity: product.quantity ?? 0,
+						}}
+					/>
+				</div>
+				{showPriceHistory ? (
+					<PriceHistoryTimeline
+						entries={priceHistory}
+						currency={product.currency ?? "NIO"}
+					/>
+				) : null}
+				<StockMovementHistory movements={movements} />
 			</div>
 		</DashboardShell>
 	);
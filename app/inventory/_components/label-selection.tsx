@@ -0,0 +1,290 @@
+"use client";
+
+import {
+	createContext,
+	useCallback,
+	useContext,
+	useMemo,
+	useState,
+	useTransition,
+	type ReactNode,
+} from "react";
+
+import {
+	LABEL_LAYOUTS,
+	LABEL_LAYOUT_IDS,
+	type LabelLayoutId,
+} from "@/lib/labels";
+
+type SelectedLabel = {
+	productId: string;
+	name: string;
+	copies: number;
+};
+
+type LabelSelectionContextValue = {
+	selected: SelectedLabel[];
+	isSelected: (productId: string) => boolean;
+	toggle: (productId: string, name: string) => void;
+	setCopies: (productId: string, copies: number) => void;
+	clear: () => void;
+};
+
+type Symbology = "auto" | "code128" | "ean13";
+
+const LabelSelectionContext = createContext<LabelSelectionContextValue | null>(
+	null,
+);
+
+const MAX_COPIES = 500;
+
+function useLabelSelection() {
+	const context = useContext(LabelSelectionContext);
+	if (!context) {
+		throw new Error(
+			"useLabelSelection must be used within a LabelSelectionProvider",
+		);
+	}
+	return context;
+}
+
+export function LabelSelectionProvider({ children }: { children: ReactNode }) {
+	const [selected, setSelected] = useState<SelectedLabel[]>([]);
+
+	const isSelected = useCallback(
+		(productId: string) =>
+			selected.some((item) => item.productId === productId),
+		[selected],
+	);
+
+	const toggle = useCallback((productId: string, name: string) => {
+		setSelected((current) =>
+			current.some((item) => item.productId === productId)
+				? current.filter((item) => item.productId !== productId)
+				: [...current, { productId, name, copies: 1 }],
+		);
+	}, []);
+
+	const setCopies = useCallback((productId: string, copies: number) => {
+		const safeCopies = Number.isFinite(copies)
+			? Math.min(MAX_COPIES, Math.max(1, Math.floor(copies)))
+			: 1;
+		setSelected((current) =>
+			current.map((item) =>
+				item.productId === productId ? { ...item, copies: safeCopies } : item,
+			),
+		);
+	}, []);
+
+	const clear = useCallback(() => setSelected([]), []);
+
+	const value = useMemo(
+		() => ({ selected, isSelected, toggle, setCopies, clear }),
+		[clear, isSelected, selected, setCopies, toggle],
+	);
+
+	return (
+		<LabelSelectionContext.Provider value={value}>
+			{children}
+		</LabelSelectionContext.Provider>
+	);
+}
+
+export function LabelSelectToggle({
+	productId,
+	name,
+}: {
+	productId: string;
+	name: string;
+}) {
+	const { isSelected, toggle } = useLabelSelection();
+	const checked = isSelected(productId);
+
+	return (
+		<label className='inline-flex cursor-pointer items-center gap-1.5 text-xs font-medium text-gray-600'>
+			<input
+				type='checkbox'
+				checked={checked}
+				onChange={() => toggle(productId, name)}
+				className='h-3.5 w-3.5 rounded border-gray-300 text-blush-500 focus:ring-blush-300'
+			/>
+			Etiqueta
+		</label>
+	);
+}
+
+export function LabelPrintPanel() {
+	const { selected, setCopies, toggle, clear } = useLabelSelection();
+	const [layout, setLayout] = useState<LabelLayoutId>("a4-3x10");
+	const [symbology, setSymbology] = useState<Symbology>("auto");
+	const [showPrice, setShowPrice] = useState(true);
+	const [errorMessage, setErrorMessage] = useState<string | null>(null);
+	const [isPending, startTransition] = useTransition();
+
+	if (selected.length === 0) {
+		return null;
+	}
+
+	const totalLabels = selected.reduce((sum, item) => sum + item.copies, 0);
+
+	const handleGenerate = () => {
+		setErrorMessage(null);
+		startTransition(async () => {
+			try {
+				const response = await fetch("/api/inventory/labels", {
+					method: "POST",
+					headers: { "Content-Type": "application/json" },
+					body: JSON.stringify({
+						layout,
+						symbology,
+						showPrice,
+						items: selected.map((item) => ({
+							productId: item.productId,
+							copies: item.copies,
+						})),
+					}),
+				});
+
+				if (!response.ok) {
+					const payload = await response.json().catch(() => null);
+					throw new Error(
+						payload?.error ?? "No pudimos generar el PDF de etiquetas",
+					);
+				}
+
+				const blob = await response.blob();
+				const url = URL.createObjectURL(blob);
+				const anchor = document.createElement("a");
+				anchor.href = url;
+				anchor.download = `etiquetas-${layout}.pdf`;
+				document.body.appendChild(anchor);
+				anchor.click();
+				anchor.remove();
+				URL.revokeObjectURL(url);
+			} catch (error) {
+				if (error instanceof Error) {
+					setErrorMessage(error.message);
+				} else {
+					setErrorMessage("Ocurrió un error inesperado al generar el PDF.");
+				}
+			}
+		});
+	};
+
+	return (
+		<section className='sticky bottom-4 z-10 space-y-4 rounded-lg border border-blush-200 bg-white p-4 shadow-lg'>
+			<div className='flex flex-wrap items-center justify-between gap-2'>
+				<div>
+					<h2 className='text-base font-semibold text-gray-900'>
+						Imprimir etiquetas
+					</h2>
+					<p className='text-xs text-gray-500'>
+						{selected.length} producto{selected.length === 1 ? "" : "s"} ·{" "}
+						{totalLabels} etiqueta{totalLabels === 1 ? "" : "s"}
+					</p>
+				</div>
+				<button
+					type='button'
+					onClick={clear}
+					className='text-xs font-medium text-gray-500 hover:text-gray-700'>
+					Quitar selección
+				</button>
+			</div>
+
+			<ul className='max-h-48 space-y-2 overflow-y-auto'>
+				{selected.map((item) => (
+					<li
+						key={item.productId}
+						className='flex items-center justify-between gap-3 text-sm'>
+						<span className='min-w-0 truncate text-gray-800'>{item.name}</span>
+						<div className='flex shrink-0 items-center gap-2'>
+							<label className='sr-only' htmlFor={`copies-${item.productId}`}>
+								Copias de {item.name}
+							</label>
+							<input
+								id={`copies-${item.productId}`}
+								type='number'
+								min={1}
+								max={MAX_COPIES}
+								value={item.copies}
+								onChange={(event) =>
+									setCopies(item.productId, Number(event.target.value))
+								}
+								className='w-20 rounded-md border border-gray-300 px-2 py-1 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300'
+							/>
+							<button
+								type='button'
+								onClick={() => toggle(item.productId, item.name)}
+								className='text-xs text-gray-400 hover:text-red-500'>
+								Quitar
+							</button>
+						</div>
+					</li>
+				))}
+			</ul>
+
+			<div className='grid gap-3 sm:grid-cols-3 sm:items-end'>
+				<div className='flex flex-col gap-1'>
+					<label
+						htmlFor='labelLayout'
+						className='text-xs font-medium text-gray-700'>
+						Formato
+					</label>
+					<select
+						id='labelLayout'
+						value={layout}
+						onChange={(event) =>
+							setLayout(event.target.value as LabelLayoutId)
+						}
+						className='rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300'>
+						{LABEL_LAYOUT_IDS.map((id) => (
+							<option key={id} value={id}>
+								{LABEL_LAYOUTS[id].name}
+							</option>
+						))}
+					</select>
+				</div>
+				<div className='flex flex-col gap-1'>
+					<label
+						htmlFor='labelSymbology'
+						className='text-xs font-medium text-gray-700'>
+						Código de barras
+					</label>
+					<select
+						id='labelSymbology'
+						value={symbology}
+						onChange={(event) =>
+							setSymbology(event.target.value as Symbology)
+						}
+						className='rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300'>
+						<option value='auto'>Automático (EAN-13 si aplica)</option>
+						<option value='code128'>Code 128</option>
+						<option value='ean13'>EAN-13</option>
+					</select>
+				</div>
+				<label className='inline-flex items-center gap-2 text-sm text-gray-700'>
+					<input
+						type='checkbox'
+						checked={showPrice}
+						onChange={(event) => setShowPrice(event.target.checked)}
+						className='h-4 w-4 rounded border-gray-300 text-blush-500 focus:ring-blush-300'
+					/>
+					Incluir precio
+				</label>
+			</div>
+
+			<div className='flex flex-col items-end gap-1'>
+				<button
+					type='button'
+					onClick={handleGenerate}
+					disabled={isPending}
+					className='inline-flex items-center rounded-md bg-blush-500 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-blush-400 disabled:cursor-not-allowed disabled:opacity-60'>
+					{isPending ? "Generando PDF…" : "Generar etiquetas PDF"}
+				</button>
+				{errorMessage ? (
+					<p className='text-xs text-red-600'>{errorMessage}</p>
+				) : null}
+			</div>
+		</section>
+	);
+}
@@ -7,9 +7,19 @@ import { useForm, useWatch } from "react-hook-form";
 import { PriceTiers } from "@/components/PriceTiers";
 import { UploadImage } from "@/components/UploadImage";
 import type { ActionErrorRecord, ActionResult } from "@/lib/actions";
-import { recommendPrice, type PriceRecommendation } from "@/lib/pricing";
+import { COSTING_METHOD_LABELS } from "@/lib/costing";
+import {
+	recommendPrice,
+	type PriceRecommendation,
+	type PriceRule,
+} from "@/lib/pricing";
+import {
+	selectBestProductRule,
+	type ProductPricingMetric,
+} from "@/lib/pricing-rules";
 import {
 	ProductFormValues,
+	costingMethodEnum,
 	productFormSchema,
 	productStatusEnum,
 	MAX_PRODUCT_IMAGE_BYTES,
@@ -31,9 +41,12 @@ type ProductFormProps = {
 	submitAction: (formData: FormData) => Promise<ActionResult<unknown>>;
 	submitLabel?: string;
 	heading?: string;
+	pricingRules?: PriceRule[];
+	productMetric?: ProductPricingMetric | null;
 };
 
 const statusOptions = productStatusEnum.options;
+const costingMethodOptions = costingMethodEnum.options;
 const imageUploadHelperText = `Formatos: JPG, PNG, WEBP. Tamaño máximo: ${MAX_PRODUCT_IMAGE_SIZE_MB} MB (recomendado 800x800px).`;
 
 type GenerateSkuArgs = {
@@ -124,6 +137,8 @@ export function ProductForm({
 	submitAction,
 	submitLabel = "Guardar producto",
 	heading = "Información del producto",
+	pricingRules = [],
+	productMetric = null,
 }: ProductFormProps) {
 	const [serverErrors, setServerErrors] = useState<ActionErrorRecord | null>(
 		null,
@@ -140,7 +155,9 @@ export function ProductForm({
 		defaultValues: {
 			name: defaultValues?.name ?? "",
 			brand: defaultValues?.brand,
+			promoTag: defaultValues?.promoTag,
 			sku: defaultValues?.sku,
+			barcodes: defaultValues?.barcodes,
 			description: defaultValues?.description,
 			categoryId: defaultValues?.categoryId,
 			newCategoryName: defaultValues?.newCategoryName,
@@ -148,6 +165,7 @@ export function ProductForm({
 			sellPrice: defaultValues?.sellPrice,
 			currency: defaultValues?.currency ?? "NIO",
 			status: defaultValues?.status ?? "active",
+			costingMethod: defaultValues?.costingMethod ?? "weighted_average",
 			quantity: defaultValues?.quantity ?? 0,
 			imageFile: undefined,
 		},
@@ -167,12 +185,15 @@ export function ProductForm({
 		errors.imageFile?.message !== undefined
 			? String(errors.imageFile.message)
 			: serverErrors?.imageFile?.[0];
+	const barcodesError =
+		errors.barcodes?.message ?? serverErrors?.barcodes?.join(" ");
 
 	const costPrice = useWatch({ control, name: "costPrice" });
 	const categoryId = useWatch({ control, name: "categoryId" });
 	const currencyValue = useWatch({ control, name: "currency" }) ?? "NIO";
 	const nameValue = useWatch({ control, name: "name" }) ?? "";
 	const brandValue = useWatch({ control, name: "brand" }) ?? "";
+	const promoTagValue = useWatch({ control, name: "promoTag" }) ?? "";
 
 	const selectedCategoryName = useMemo(() => {
 		if (!categoryId) return undefined;
@@ -182,6 +203,30 @@ export function ProductForm({
 		return match?.name;
 	}, [categoryId, categories]);
 
+	const appliedRule = useMemo(
+		() =>
+			selectBestProductRule(pricingRules, {
+				productId: defaultValues?.id,
+				name: nameValue,
+				categoryId: categoryId ? String(categoryId) : null,
+				categoryName: selectedCategoryName,
+				brand: brandValue,
+				promoTag: promoTagValue,
+				inventoryAgeDays: productMetric?.inventoryAgeDays,
+				costChangePct: productMetric?.costChangePct,
+			}),
+		[
+			brandValue,
+			categoryId,
+			defaultValues?.id,
+			nameValue,
+			pricingRules,
+			productMetric,
+			promoTagValue,
+			selectedCategoryName,
+		],
+	);
+
 	const recommendation = useMemo(() => {
 		const parsedCost = Number(costPrice ?? 0);
 		if (!Number.isFinite(parsedCost) || parsedCost <= 0) {
@@ -192,12 +237,14 @@ export function ProductForm({
 			return recommendPrice({
 				costPrice: parsedCost,
 				categoryName: selectedCategoryName,
+				brand: brandValue,
+				rule: appliedRule,
 			});
 		} catch (error) {
 			console.error("Failed to recommend price", error);
 			return null;
 		}
-	}, [costPrice, selectedCategoryName]);
+	}, [appliedRule, brandValue, costPrice, selectedCategoryName]);
 
 	const handleTierSelect = useCallback(
 		(_tier: PriceRecommendation["appliedTier"], value: number) => {
@@ -241,7 +288,9 @@ export function ProductForm({
 		const formData = new FormData();
 		formData.append("name", values.name);
 		if (values.brand) formData.append("brand", values.brand);
+		if (values.promoTag) formData.append("promoTag", values.promoTag);
 		if (values.sku) formData.append("sku", values.sku);
+		if (values.barcodes) formData.append("barcodes", values.barcodes);
 		if (values.description) formData.append("description", values.description);
 		if (values.categoryId)
 			formData.append("categoryId", String(values.categoryId));
@@ -252,6 +301,7 @@ export function ProductForm({
 			formData.append("sellPrice", String(values.sellPrice));
 		formData.append("currency", values.currency ?? "NIO");
 		formData.append("status", values.status);
+		formData.append("costingMethod", values.costingMethod);
 		formData.append("quantity", String(values.quantity ?? 0));
 		if (values.imageFile instanceof File)
 			formData.append("imageFile", values.imageFile);
@@ -271,7 +321,9 @@ export function ProductForm({
 				reset({
 					name: "",
 					brand: undefined,
+					promoTag: undefined,
 					sku: undefined,
+					barcodes: undefined,
 					description: undefined,
 					categoryId: undefined,
 					newCategoryName: undefined,
@@ -279,6 +331,7 @@ export function ProductForm({
 					sellPrice: undefined,
 					currency: values.currency ?? "NIO",
 					status: "active",
+					costingMethod: values.costingMethod,
 					quantity: 0,
 					imageFile: undefined,
 				});
@@ -348,6 +401,31 @@ export function ProductForm({
 						)}
 					</div>
 
+					<div className='space-y-2'>
+						<label
+							className='text-sm font-medium text-gray-700'
+							htmlFor='promoTag'>
+							Etiqueta promo
+						</label>
+						<input
+							id='promoTag'
+							type='text'
+							autoComplete='off'
+							{...register("promoTag")}
+							placeholder='Ej. liquidacion-verano'
+							className='block w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300'
+						/>
+						<p className='text-xs text-gray-500'>
+							Las reglas de precio con alcance o condición de promoción usan esta
+							etiqueta.
+						</p>
+						{errors.promoTag && (
+							<p className='text-xs text-red-500'>
+								{errors.promoTag.message}
+							</p>
+						)}
+					</div>
+
 					<div className='grid gap-4 sm:grid-cols-2'>
 						<div className='space-y-2'>
 							<div className='flex items-center justify-between'>
@@ -401,6 +479,28 @@ export function ProductForm({
 						</div>
 					</div>
 
+					<div className='space-y-2'>
+						<label
+							className='text-sm font-medium text-gray-700'
+							htmlFor='barcodes'>
+							Códigos de barras
+						</label>
+						<textarea
+							id='barcodes'
+							rows={2}
+							autoComplete='off'
+							{...register("barcodes")}
+							className='block w-full rounded-md border border-gray-300 px-3 py-2 font-mono text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300'
+							placeholder='Uno por línea. Puedes escanearlos directamente aquí.'
+						/>
+						<p className='text-xs text-gray-500'>
+							Se usan en el punto de venta para agregar el producto al escanear.
+						</p>
+						{barcodesError && (
+							<p className='text-xs text-red-500'>{barcodesError}</p>
+						)}
+					</div>
+
 					<div className='space-y-2'>
 						<label
 							className='text-sm font-medium text-gray-700'
@@ -543,11 +643,25 @@ export function ProductForm({
 						</button>
 
 						{showRecommendations && (
-							<PriceTiers
-								recommendation={recommendation}
-								currency={currencyValue}
-								onSelectTier={handleTierSelect}
-							/>
+							<>
+								<p className='text-xs text-gray-500'>
+									{appliedRule ? (
+										<>
+											Regla aplicada:{" "}
+											<span className='font-medium text-gray-700'>
+												{appliedRule.name ?? `Regla ${appliedRule.id}`}
+											</span>
+										</>
+									) : (
+										"Ninguna regla activa coincide; se usan los márgenes predeterminados."
+									)}
+								</p>
+								<PriceTiers
+									recommendation={recommendation}
+									currency={currencyValue}
+									onSelectTier={handleTierSelect}
+								/>
+							</>
 						)}
 					</div>
 				</div>
@@ -599,6 +713,33 @@ export function ProductForm({
 							<p className='text-xs text-red-500'>{errors.currency.message}</p>
 						)}
 					</div>
+
+					<div className='space-y-2'>
+						<label
+							className='text-sm font-medium text-gray-700'
+							htmlFor='costingMethod'>
+							Método de costeo
+						</label>
+						<select
+							id='costingMethod'
+							{...register("costingMethod")}
+							className='block w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300'>
+							{costingMethodOptions.map((method) => (
+								<option key={method} value={method}>
+									{COSTING_METHOD_LABELS[method]}
+								</option>
+							))}
+						</select>
+						<p className='text-xs text-gray-500'>
+							Cada ingreso de inventario recalcula el costo con este método, y
+							las ventas toman el costo de ahí.
+						</p>
+						{errors.costingMethod && (
+							<p className='text-xs text-red-500'>
+								{errors.costingMethod.message}
+							</p>
+						)}
+					</div>
 				</div>
 			</div>
 
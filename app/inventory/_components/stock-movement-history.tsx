@@ -0,0 +1,130 @@
+import Link from "next/link";
+
+import {
+	STOCK_MOVEMENT_LABELS,
+	type StockMovement,
+	type StockMovementType,
+} from "@/lib/stock-movements";
+
+const TYPE_STYLES: Record<StockMovementType, string> = {
+	sale: "bg-blush-100 text-blush-700",
+	intake: "bg-emerald-100 text-emerald-700",
+	adjustment: "bg-gray-100 text-gray-700",
+	return: "bg-sky-100 text-sky-700",
+	cancellation: "bg-amber-100 text-amber-700",
+	combo_consumption: "bg-purple-100 text-purple-700",
+};
+
+function formatDate(raw: string) {
+	try {
+		return new Intl.DateTimeFormat("es-NI", {
+			dateStyle: "medium",
+			timeStyle: "short",
+			timeZone: "UTC",
+		}).format(new Date(raw));
+	} catch {
+		return raw;
+	}
+}
+
+function formatChange(value: number) {
+	return value > 0 ? `+${value}` : String(value);
+}
+
+export function StockMovementHistory({
+	movements,
+}: {
+	movements: StockMovement[];
+}) {
+	return (
+		<section className='rounded-lg border border-gray-200 bg-white shadow-sm'>
+			<header className='border-b border-gray-200 px-6 py-4'>
+				<h2 className='text-base font-semibold text-gray-900'>
+					Historial de movimientos
+				</h2>
+				<p className='text-sm text-gray-500'>
+					Cada cambio en la existencia del producto con su motivo.
+				</p>
+			</header>
+			{movements.length === 0 ? (
+				<p className='px-6 py-8 text-center text-sm text-gray-500'>
+					Aún no hay movimientos registrados para este producto.
+				</p>
+			) : (
+				<div className='overflow-x-auto'>
+					<table className='min-w-full divide-y divide-gray-200 text-sm'>
+						<thead className='bg-gray-50 text-xs font-semibold uppercase tracking-wider text-gray-500'>
+							<tr>
+								<th className='px-4 py-3 text-left'>Fecha</th>
+								<th className='px-4 py-3 text-left'>Motivo</th>
+								<th className='px-4 py-3 text-right'>Cambio</th>
+								<th className='px-4 py-3 text-right'>Antes</th>
+								<th className='px-4 py-3 text-right'>Después</th>
+								<th className='px-4 py-3 text-left'>Referencia</th>
+							</tr>
+						</thead>
+						<tbody className='divide-y divide-gray-200'>
+							{movements.map((movement) => (
+								<tr key={movement.id} className='hover:bg-blush-50'>
+									<td className='whitespace-nowrap px-4 py-3 text-gray-700'>
+										{formatDate(movement.createdAt)}
+									</td>
+									<td className='px-4 py-3'>
+										<span
+											className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${
+												TYPE_STYLES[movement.type]
+											}`}>
+											{STOCK_MOVEMENT_LABELS[movement.type]}
+										</span>
+									</td>
+									<td
+										className={`px-4 py-3 text-right font-semibold ${
+											movement.quantityChange < 0
+												? "text-red-600"
+												: "text-emerald-600"
+										}`}>
+										{formatChange(movement.quantityChange)}
+									</td>
+									<td className='px-4 py-3 text-right text-gray-700'>
+										{movement.quantityBefore ?? "—"}
+									</td>
+									<td className='px-4 py-3 text-right text-gray-700'>
+										{movement.quantityAfter ?? "—"}
+									</td>
+									<td className='px-4 py-3 text-gray-600'>
+										<div className='flex flex-col gap-0.5'>
+											{movement.orderId ? (
+												<Link
+													href={`/orders/${movement.orderId}`}
+													className='font-medium text-blush-600 hover:text-blush-500'>
+													Ver orden
+												</Link>
+											) : null}
+											{movement.intakeId ? (
+												<Link
+													href='/finance'
+													className='font-medium text-blush-600 hover:text-blush-500'>
+													Ingreso de inventario
+												</Link>
+											) : null}
+											{movement.notes ? (
+												<span className='text-xs text-gray-500'>
+													{movement.notes}
+												</span>
+											) : null}
+											{!movement.orderId &&
+											!movement.intakeId &&
+											!movement.notes ? (
+												<span className='text-xs text-gray-400'>—</span>
+											) : null}
+										</div>
+									</td>
+								</tr>
+							))}
+						</tbody>
+					</table>
+				</div>
+			)}
+		</section>
+	);
+}
@@ -4,13 +4,30 @@ import { revalidatePath } from "next/cache";
 import { z } from "zod";
 
 import { ActionErrorRecord, ActionResult } from "@/lib/actions";
+import { recordAuditEvent } from "@/lib/audit";
+import { recordPriceChanges, toPriceSnapshot } from "@/lib/price-history";
+import {
+	BarcodeConflictError,
+	assertBarcodesAvailable,
+	parseBarcodeList,
+	replaceProductBarcodes,
+} from "@/lib/product-barcodes";
 import { productFormSchema } from "@/lib/schemas";
+import {
+	STAFF_AUTHORIZATION_MESSAGES,
+	StaffAuthorizationError,
+	requireRoutePermission,
+} from "@/lib/staff";
+import {
+	StockConflictError,
+	adjustProductStock,
+	recordStockMovements,
+} from "@/lib/stock-movements";
 import { deleteImageFromBucket, uploadImageToBucket } from "@/lib/storage";
 import {
 	createSupabaseAdminClient,
 	MissingEnvironmentVariableError,
 } from "@/lib/supabase-admin";
-import { createSupabaseServerClient } from "@/lib/supabase-server";
 
 function flattenErrors(error: z.ZodError): ActionErrorRecord {
 	const { fieldErrors, formErrors } = error.flatten();
@@ -28,7 +45,9 @@ function parseProductForm(formData: FormData) {
 	const parsed = productFormSchema.safeParse({
 		name: formData.get("name"),
 		brand: formData.get("brand"),
+		promoTag: formData.get("promoTag"),
 		sku: formData.get("sku"),
+		barcodes: formData.get("barcodes"),
 		description: formData.get("description"),
 		categoryId: formData.get("categoryId"),
 		newCategoryName: formData.get("newCategoryName"),
@@ -36,6 +55,7 @@ function parseProductForm(formData: FormData) {
 		sellPrice: formData.get("sellPrice"),
 		currency: formData.get("currency"),
 		status: formData.get("status"),
+		costingMethod: formData.get("costingMethod") ?? undefined,
 		quantity: formData.get("quantity"),
 		imageFile:
 			imageEntry instanceof File && imageEntry.size > 0
@@ -55,20 +75,48 @@ type CreateProductPayload = {
 	imageUrl?: string | null;
 };
 
+const PRODUCT_AUDIT_COLUMNS =
+	"name, sku, description, category_id, cost_price, sell_price, currency, status, costing_method, quantity, image_path";
+
+const NUMERIC_PRODUCT_AUDIT_COLUMNS = new Set([
+	"category_id",
+	"cost_price",
+	"sell_price",
+	"quantity",
+]);
+
+// Postgres numerics come back as strings; normalise them so the audit diff
+// only lists fields whose value actually changed.
+function pickProductAuditState(row: Record<string, unknown>) {
+	return Object.fromEntries(
+		PRODUCT_AUDIT_COLUMNS.split(", ").map((column) => {
+			const value = row[column] ?? null;
+			return [
+				column,
+				value !== null && NUMERIC_PRODUCT_AUDIT_COLUMNS.has(column)
+					? Number(value)
+					: value,
+			];
+		}),
+	);
+}
+
 function isRecord(value: unknown): value is Record<string, unknown> {
 	return Boolean(value) && typeof value === "object" && !Array.isArray(value);
 }
 
 function buildProductMeta(
 	existingMeta: unknown,
-	brand: ReturnType<typeof parseProductForm>["brand"],
+	tags: Pick<ReturnType<typeof parseProductForm>, "brand" | "promoTag">,
 ) {
 	const base = isRecord(existingMeta) ? { ...existingMeta } : {};
 
-	if (brand) {
-		base.brand = brand;
-	} else if ("brand" in base) {
-		delete base.brand;
+	for (const key of ["brand", "promoTag"] as const) {
+		if (tags[key]) {
+			base[key] = tags[key];
+		} else if (key in base) {
+			delete base[key];
+		}
 	}
 
 	return base;
@@ -114,11 +162,9 @@ export async function createProductAction(
 ): Promise<ActionResult<CreateProductPayload>> {
 	try {
 		const payload = parseProductForm(formData);
-		const supabase = await createSupabaseServerClient();
+		const { user } = await requireRoutePermission("/inventory");
 		const adminClient = createSupabaseAdminClient();
 
-		const [{ data: authData }] = await Promise.all([supabase.auth.getUser()]);
-
 		const categoryId = await ensureCategoryId(
 			adminClient,
 			payload.categoryId,
@@ -139,7 +185,10 @@ export async function createProductAction(
 			imageUrl = upload.publicUrl;
 		}
 
-		const meta = buildProductMeta(null, payload.brand);
+		const barcodes = parseBarcodeList(payload.barcodes);
+		await assertBarcodesAvailable(adminClient, barcodes);
+
+		const meta = buildProductMeta(null, payload);
 		const insertPayload: Record<string, unknown> = {
 			name: payload.name,
 			sku: payload.sku ?? null,
@@ -149,9 +198,10 @@ export async function createProductAction(
 			sell_price: payload.sellPrice ?? null,
 			currency: payload.currency ?? "NIO",
 			status: resolvedStatus,
+			costing_method: payload.costingMethod,
 			image_path: imageUrl,
 			quantity: quantityValue,
-			created_by: authData?.user?.id ?? null,
+			created_by: user.id,
 		};
 
 		if (Object.keys(meta).length > 0) {
@@ -168,6 +218,48 @@ export async function createProductAction(
 			throw new Error("No pudimos guardar el producto");
 		}
 
+		await replaceProductBarcodes(adminClient, data.id, barcodes);
+
+		try {
+			await recordStockMovements(adminClient, [
+				{
+					productId: data.id,
+					type: "adjustment",
+					quantityBefore: 0,
+					quantityAfter: quantityValue,
+					notes: "Inventario inicial",
+					createdBy: user.id,
+				},
+			]);
+		} catch (movementError) {
+			console.error("[createProductAction] stock movement", movementError);
+		}
+
+		try {
+			await recordPriceChanges(adminClient, [
+				{
+					productId: data.id,
+					source: "manual",
+					before: null,
+					after: toPriceSnapshot(
+						insertPayload.sell_price,
+						insertPayload.cost_price,
+					),
+					createdBy: user.id,
+				},
+			]);
+		} catch (historyError) {
+			console.error("[createProductAction] price history", historyError);
+		}
+
+		await recordAuditEvent(adminClient, {
+			actor: user,
+			action: "product.create",
+			entityType: "product",
+			entityId: data.id,
+			after: pickProductAuditState(insertPayload),
+		});
+
 		revalidatePath("/inventory");
 		revalidatePath("/dashboard");
 
@@ -181,6 +273,17 @@ export async function createProductAction(
 			return { success: false, errors: flattenErrors(error) };
 		}
 
+		if (error instanceof BarcodeConflictError) {
+			return { success: false, errors: { barcodes: [error.message] } };
+		}
+
+		if (error instanceof StaffAuthorizationError) {
+			return {
+				success: false,
+				errors: { form: [STAFF_AUTHORIZATION_MESSAGES[error.reason]] },
+			};
+		}
+
 		if (error instanceof MissingEnvironmentVariableError) {
 			return {
 				success: false,
@@ -212,13 +315,12 @@ export async function updateProductAction(formData: FormData): Promise<
 			.parse(formData.get("id"));
 		const payload = parseProductForm(formData);
 
-		const supabase = await createSupabaseServerClient();
+		const { user } = await requireRoutePermission("/inventory");
 		const adminClient = createSupabaseAdminClient();
-		const [{ data: authData }] = await Promise.all([supabase.auth.getUser()]);
 
 		const { data: existing, error: fetchError } = await adminClient
 			.from("products")
-			.select("image_path, created_by, meta")
+			.select(`${PRODUCT_AUDIT_COLUMNS}, meta`)
 			.eq("id", id)
 			.maybeSingle();
 
@@ -233,16 +335,8 @@ export async function updateProductAction(formData: FormData): Promise<
 			};
 		}
 
-		if (
-			existing.created_by &&
-			authData?.user?.id &&
-			existing.created_by !== authData.user.id
-		) {
-			return {
-				success: false,
-				errors: { form: ["No tienes permisos para modificar este producto."] },
-			};
-		}
+		const barcodes = parseBarcodeList(payload.barcodes);
+		await assertBarcodesAvailable(adminClient, barcodes, id);
 
 		const categoryId = await ensureCategoryId(
 			adminClient,
@@ -253,6 +347,24 @@ export async function updateProductAction(formData: FormData): Promise<
 		const submittedStatus = payload.status ?? "active";
 		const resolvedStatus = quantityValue <= 0 ? "archived" : submittedStatus;
 
+		// The edit page sends the quantity it showed, so sales made while the
+		// form was open surface as a conflict instead of being overwritten.
+		const currentQuantity = Math.max(0, Number(existing.quantity ?? 0) || 0);
+		const expectedEntry = formData.get("expectedQuantity");
+		const expectedQuantity =
+			expectedEntry === null
+				? currentQuantity
+				: z.coerce.number().int().min(0).parse(expectedEntry);
+
+		await adjustProductStock(adminClient, {
+			productId: id,
+			expectedQuantity,
+			quantityChange: quantityValue - expectedQuantity,
+			type: "adjustment",
+			notes: "Edición del producto",
+			createdBy: user.id,
+		});
+
 		let imageUrl = existing.image_path ?? null;
 		if (payload.imageFile instanceof File) {
 			await deleteImageFromBucket(adminClient, "products", existing.image_path);
@@ -265,30 +377,61 @@ export async function updateProductAction(formData: FormData): Promise<
 			imageUrl = upload.publicUrl;
 		}
 
-		const meta = buildProductMeta(existing.meta, payload.brand);
+		const meta = buildProductMeta(existing.meta, payload);
+
+		const updatePayload = {
+			name: payload.name,
+			sku: payload.sku ?? null,
+			description: payload.description ?? null,
+			category_id: categoryId,
+			cost_price: payload.costPrice,
+			sell_price: payload.sellPrice ?? null,
+			currency: payload.currency ?? "NIO",
+			status: resolvedStatus,
+			costing_method: payload.costingMethod,
+			image_path: imageUrl,
+			meta,
+		};
 
 		const { error: updateError } = await adminClient
 			.from("products")
-			.update({
-				name: payload.name,
-				sku: payload.sku ?? null,
-				description: payload.description ?? null,
-				category_id: categoryId,
-				cost_price: payload.costPrice,
-				sell_price: payload.sellPrice ?? null,
-				currency: payload.currency ?? "NIO",
-				status: resolvedStatus,
-				image_path: imageUrl,
-				quantity: quantityValue,
-				meta,
-			})
+			.update(updatePayload)
 			.eq("id", id);
 
 		if (updateError) {
 			throw new Error(updateError.message);
 		}
 
+		await replaceProductBarcodes(adminClient, id, barcodes);
+
+		try {
+			await recordPriceChanges(adminClient, [
+				{
+					productId: id,
+					source: "manual",
+					before: toPriceSnapshot(existing.sell_price, existing.cost_price),
+					after: toPriceSnapshot(
+						updatePayload.sell_price,
+						updatePayload.cost_price,
+					),
+					createdBy: user.id,
+				},
+			]);
+		} catch (historyError) {
+			console.error("[updateProductAction] price history", historyError);
+		}
+
+		await recordAuditEvent(adminClient, {
+			actor: user,
+			action: "product.update",
+			entityType: "product",
+			entityId: id,
+			before: pickProductAuditState(existing),
+			after: pickProductAuditState({ ...updatePayload, quantity: quantityValue }),
+		});
+
 		revalidatePath("/inventory");
+		revalidatePath(`/inventory/${id}`);
 		revalidatePath("/dashboard");
 
 		return {
@@ -301,6 +444,21 @@ export async function updateProductAction(formData: FormData): Promise<
 			return { success: false, errors: flattenErrors(error) };
 		}
 
+		if (error instanceof BarcodeConflictError) {
+			return { success: false, errors: { barcodes: [error.message] } };
+		}
+
+		if (error instanceof StockConflictError) {
+			return { success: false, errors: { quantity: [error.message] } };
+		}
+
+		if (error instanceof StaffAuthorizationError) {
+			return {
+				success: false,
+				errors: { form: [STAFF_AUTHORIZATION_MESSAGES[error.reason]] },
+			};
+		}
+
 		if (error instanceof MissingEnvironmentVariableError) {
 			return {
 				success: false,
@@ -328,7 +486,13 @@ export async function archiveProductAction(
 	}
 
 	try {
+		const { user } = await requireRoutePermission("/inventory");
 		const adminClient = createSupabaseAdminClient();
+		const { data: existing } = await adminClient
+			.from("products")
+			.select("status")
+			.eq("id", productId)
+			.maybeSingle();
 		const { error } = await adminClient
 			.from("products")
 			.update({ status: "archived" })
@@ -338,6 +502,15 @@ export async function archiveProductAction(
 			throw new Error(error.message);
 		}
 
+		await recordAuditEvent(adminClient, {
+			actor: user,
+			action: "product.archive",
+			entityType: "product",
+			entityId: productId,
+			before: existing ? { status: existing.status } : null,
+			after: { status: "archived" },
+		});
+
 		revalidatePath("/inventory");
 		revalidatePath("/dashboard");
 
@@ -347,6 +520,13 @@ export async function archiveProductAction(
 			message: "Producto archivado correctamente",
 		};
 	} catch (error) {
+		if (error instanceof StaffAuthorizationError) {
+			return {
+				success: false,
+				errors: { form: [STAFF_AUTHORIZATION_MESSAGES[error.reason]] },
+			};
+		}
+
 		if (error instanceof MissingEnvironmentVariableError) {
 			return {
 				success: false,
@@ -374,7 +554,13 @@ export async function activateProductAction(
 	}
 
 	try {
+		const { user } = await requireRoutePermission("/inventory");
 		const adminClient = createSupabaseAdminClient();
+		const { data: existing } = await adminClient
+			.from("products")
+			.select("status")
+			.eq("id", productId)
+			.maybeSingle();
 		const { error } = await adminClient
 			.from("products")
 			.update({ status: "active" })
@@ -384,6 +570,15 @@ export async function activateProductAction(
 			throw new Error(error.message);
 		}
 
+		await recordAuditEvent(adminClient, {
+			actor: user,
+			action: "product.activate",
+			entityType: "product",
+			entityId: productId,
+			before: existing ? { status: existing.status } : null,
+			after: { status: "active" },
+		});
+
 		revalidatePath("/inventory");
 		revalidatePath("/dashboard");
 
@@ -393,6 +588,13 @@ export async function activateProductAction(
 			message: "Producto activado correctamente",
 		};
 	} catch (error) {
+		if (error instanceof StaffAuthorizationError) {
+			return {
+				success: false,
+				errors: { form: [STAFF_AUTHORIZATION_MESSAGES[error.reason]] },
+			};
+		}
+
 		if (error instanceof MissingEnvironmentVariableError) {
 			return {
 				success: false,
@@ -420,13 +622,12 @@ export async function deleteProductAction(
 	}
 
 	try {
-		const supabase = await createSupabaseServerClient();
+		const { user } = await requireRoutePermission("/inventory");
 		const adminClient = createSupabaseAdminClient();
-		const [{ data: authData }] = await Promise.all([supabase.auth.getUser()]);
 
 		const { data: existing, error: fetchError } = await adminClient
 			.from("products")
-			.select("image_path, created_by")
+			.select(PRODUCT_AUDIT_COLUMNS)
 			.eq("id", productId)
 			.maybeSingle();
 
@@ -441,19 +642,6 @@ export async function deleteProductAction(
 			};
 		}
 
-		if (
-			existing.created_by &&
-			authData?.user?.id &&
-			existing.created_by !== authData.user.id
-		) {
-			return {
-				success: false,
-				errors: {
-					form: ["No tienes permisos para eliminar este producto."],
-				},
-			};
-		}
-
 		const { error: deleteError } = await adminClient
 			.from("products")
 			.delete()
@@ -463,6 +651,14 @@ export async function deleteProductAction(
 			throw new Error(deleteError.message);
 		}
 
+		await recordAuditEvent(adminClient, {
+			actor: user,
+			action: "product.delete",
+			entityType: "product",
+			entityId: productId,
+			before: pickProductAuditState(existing),
+		});
+
 		if (existing.image_path) {
 			try {
 				await deleteImageFromBucket(
@@ -483,6 +679,13 @@ export async function deleteProductAction(
 			message: "Producto eliminado definitivamente",
 		};
 	} catch (error) {
+		if (error instanceof StaffAuthorizationError) {
+			return {
+				success: false,
+				errors: { form: [STAFF_AUTHORIZATION_MESSAGES[error.reason]] },
+			};
+		}
+
 		if (error instanceof MissingEnvironmentVariableError) {
 			return {
 				success: false,
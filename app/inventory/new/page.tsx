@@ -1,26 +1,29 @@
 import Link from "next/link";
-import { redirect } from "next/navigation";
 
 import { ProductForm } from "@/app/inventory/_components/product-form";
 import { createProductAction } from "@/app/inventory/actions";
 import DashboardShell from "@/components/dashboard-shell";
+import type { PriceRule } from "@/lib/pricing";
+import { loadActivePriceRules } from "@/lib/pricing-catalog";
+import { requireStaffPage } from "@/lib/staff";
 import { createSupabaseServerClient } from "@/lib/supabase-server";
 
 export default async function NewProductPage() {
+	const { user } = await requireStaffPage("manageInventory");
 	const supabase = await createSupabaseServerClient();
-	const {
-		data: { user },
-	} = await supabase.auth.getUser();
-
-	if (!user) {
-		redirect("/login");
-	}
 
 	const { data: categories } = await supabase
 		.from("categories")
 		.select("id, name")
 		.order("name", { ascending: true });
 
+	let pricingRules: PriceRule[] = [];
+	try {
+		pricingRules = await loadActivePriceRules(supabase, "product");
+	} catch (error) {
+		console.error("[NewProductPage] price rules", error);
+	}
+
 	return (
 		<DashboardShell
 			user={user}
@@ -40,6 +43,7 @@ export default async function NewProductPage() {
 					submitAction={createProductAction}
 					submitLabel='Guardar borrador'
 					heading='Detalle del producto'
+					pricingRules={pricingRules}
 				/>
 			</div>
 		</DashboardShell>
@@ -1,14 +1,28 @@
 import Image from "next/image";
 import Link from "next/link";
-import { redirect } from "next/navigation";
 import { Suspense } from "react";
 
 import DashboardShell from "@/components/dashboard-shell";
-import { recommendPrice } from "@/lib/pricing";
+import { recommendPrice, type PriceRule } from "@/lib/pricing";
+import {
+	loadActivePriceRules,
+	loadProductPricingMetrics,
+	readProductMetaTags,
+} from "@/lib/pricing-catalog";
+import {
+	selectBestProductRule,
+	type ProductPricingMetric,
+} from "@/lib/pricing-rules";
+import { requireStaffPage } from "@/lib/staff";
 import { createSupabaseServerClient } from "@/lib/supabase-server";
 
 import { DeleteProductButton } from "./_components/delete-product-button";
 import { ExportCatalogButton } from "./_components/export-catalog-button";
+import {
+	LabelPrintPanel,
+	LabelSelectToggle,
+	LabelSelectionProvider,
+} from "./_components/label-selection";
 import { activateProductAction, archiveProductAction } from "./actions";
 
 const LOW_STOCK_THRESHOLD = 5;
@@ -46,7 +60,9 @@ type ProductRow = {
 	created_at: string;
 	category_id: number | null;
 	quantity: number | null;
+	meta: Record<string, unknown> | null;
 	categories: { name: string | null } | null;
+	subcategories: { name: string | null } | null;
 };
 
 export default async function InventoryPage({
@@ -65,14 +81,8 @@ export default async function InventoryPage({
 		resolvedSearchParams?.category === undefined
 			? ""
 			: resolvedSearchParams.category;
+	const { user } = await requireStaffPage("manageInventory");
 	const supabase = await createSupabaseServerClient();
-	const {
-		data: { user },
-	} = await supabase.auth.getUser();
-
-	if (!user) {
-		redirect("/login");
-	}
 
 	const { data: categories } = await supabase
 		.from("categories")
@@ -82,7 +92,7 @@ export default async function InventoryPage({
 	let productsQuery = supabase
 		.from("products")
 		.select(
-			"id, sku, name, status, cost_price, sell_price, currency, image_path, created_at, category_id, quantity, categories(name)",
+			"id, sku, name, status, cost_price, sell_price, currency, image_path, created_at, category_id, quantity, meta, categories(name), subcategories(name)",
 		)
 		.order("created_at", { ascending: false });
 
@@ -100,6 +110,17 @@ export default async function InventoryPage({
 	}
 
 	const { data: products } = await productsQuery;
+
+	let pricingRules: PriceRule[] = [];
+	let pricingMetrics = new Map<string, ProductPricingMetric>();
+	try {
+		[pricingRules, pricingMetrics] = await Promise.all([
+			loadActivePriceRules(supabase, "product"),
+			loadProductPricingMetrics(supabase),
+		]);
+	} catch (error) {
+		console.error("[InventoryPage] pricing rules", error);
+	}
 	const normalizedSearchParams: SearchParams = {
 		q: resolvedSearchParams?.q,
 		status: appliedStatus,
@@ -133,7 +154,15 @@ export default async function InventoryPage({
 						categories={categories ?? []}
 						searchParams={normalizedSearchParams}
 					/>
-					<InventoryGrid products={products ?? []} status={appliedStatus} />
+					<LabelSelectionProvider>
+						<InventoryGrid
+							products={products ?? []}
+							status={appliedStatus}
+							pricingRules={pricingRules}
+							pricingMetrics={pricingMetrics}
+						/>
+						<LabelPrintPanel />
+					</LabelSelectionProvider>
 				</div>
 			</Suspense>
 		</DashboardShell>
@@ -216,9 +245,13 @@ async function InventoryFilters({
 async function InventoryGrid({
 	products,
 	status,
+	pricingRules,
+	pricingMetrics,
 }: {
 	products: ProductRow[];
 	status: ProductStatus;
+	pricingRules: PriceRule[];
+	pricingMetrics: Map<string, ProductPricingMetric>;
 }) {
 	if (!products.length) {
 		const emptyMessages: Record<ProductStatus, string> = {
@@ -243,6 +276,20 @@ async function InventoryGrid({
 		<div className='grid gap-6 sm:grid-cols-2 xl:grid-cols-3'>
 			{products.map((product) => {
 				const categoryName = product.categories?.name ?? undefined;
+				const { brand, promoTag } = readProductMetaTags(product.meta);
+				const metric = pricingMetrics.get(product.id);
+				const appliedRule = selectBestProductRule(pricingRules, {
+					productId: product.id,
+					name: product.name,
+					categoryId:
+						product.category_id === null ? null : String(product.category_id),
+					categoryName,
+					subcategoryName: product.subcategories?.name,
+					brand,
+					promoTag,
+					inventoryAgeDays: metric?.inventoryAgeDays,
+					costChangePct: metric?.costChangePct,
+				});
 				const hasCostPrice = typeof product.cost_price === "number";
 				const hasSellPrice = typeof product.sell_price === "number";
 				const costPrice = hasCostPrice ? Number(product.cost_price) : 0;
@@ -252,6 +299,8 @@ async function InventoryGrid({
 						? recommendPrice({
 								costPrice,
 								categoryName,
+								brand,
+								rule: appliedRule,
 						  })
 						: null;
 				const unitEarnings =
@@ -317,15 +366,7 @@ async function InventoryGrid({
 										{hasSellPrice ? (
 											formatCurrency(sellPrice, product.currency)
 										) : (
-											<span className='text-gray-400'>
-												Sin precio asignado
-												{recommendation
-													? ` · Sugerido ${formatCurrency(
-															recommendation.suggested,
-															product.currency,
-													  )}`
-													: ""}
-											</span>
+											<span className='text-gray-400'>Sin precio asignado</span>
 										)}
 									</p>
 								</div>
@@ -358,12 +399,28 @@ async function InventoryGrid({
 								</div>
 							</div>
 
+							{recommendation ? (
+								<p className='rounded-md bg-blush-50 px-3 py-2 text-xs text-gray-600'>
+									Sugerido{" "}
+									<span className='font-semibold text-gray-900'>
+										{formatCurrency(recommendation.suggested, product.currency)}
+									</span>{" "}
+									·{" "}
+									{appliedRule
+										? `Regla: ${appliedRule.name ?? `#${appliedRule.id}`}`
+										: "Márgenes predeterminados"}
+								</p>
+							) : null}
+
 							<div className='mt-auto flex flex-wrap items-center justify-between gap-2 pt-2'>
-								<Link
-									href={`/inventory/${product.id}`}
-									className='inline-flex items-center rounded-md border border-gray-200 px-3 py-1.5 text-xs font-medium text-gray-700 transition hover:bg-gray-100'>
-									Editar
-								</Link>
+								<div className='flex items-center gap-3'>
+									<Link
+										href={`/inventory/${product.id}`}
+										className='inline-flex items-center rounded-md border border-gray-200 px-3 py-1.5 text-xs font-medium text-gray-700 transition hover:bg-gray-100'>
+										Editar
+									</Link>
+									<LabelSelectToggle productId={product.id} name={product.name} />
+								</div>
 								<div className='flex items-center gap-2'>
 									{canActivate ? (
 										<form
@@ -22,9 +22,14 @@ function SubmitButton() {
 type LoginFormProps = {
 	message?: string | null;
 	initialError?: string | null;
+	nextPath?: string | null;
 };
 
-export function LoginForm({ message, initialError }: LoginFormProps) {
+export function LoginForm({
+	message,
+	initialError,
+	nextPath,
+}: LoginFormProps) {
 	const [state, formAction] = useActionState(
 		loginAction,
 		initialError
@@ -37,6 +42,7 @@ export function LoginForm({ message, initialError }: LoginFormProps) {
 
 	return (
 		<form className='mt-8 space-y-6' action={formAction} noValidate>
+			{nextPath ? <input type='hidden' name='next' value={nextPath} /> : null}
 			{message ? (
 				<div
 					role='status'
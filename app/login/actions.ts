@@ -3,6 +3,7 @@
 import { redirect } from "next/navigation";
 import { z } from "zod";
 
+import { NEXT_PARAM, sanitizeNextPath } from "@/lib/route-policies";
 import { createSupabaseServerClient } from "@/lib/supabase-server";
 import type { LoginFormState } from "./form-state";
 
@@ -54,5 +55,5 @@ export async function loginAction(
 		};
 	}
 
-	redirect("/dashboard");
+	redirect(sanitizeNextPath(formData.get(NEXT_PARAM)) ?? "/dashboard");
 }
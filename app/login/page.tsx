@@ -1,5 +1,6 @@
 import { redirect } from "next/navigation";
 
+import { NEXT_PARAM, sanitizeNextPath } from "@/lib/route-policies";
 import { createSupabaseServerClient } from "@/lib/supabase-server";
 
 import { LoginForm } from "./_components/login-form";
@@ -9,7 +10,7 @@ export const revalidate = 0;
 export const fetchCache = "force-no-store";
 
 type LoginPageProps = {
-	searchParams?: Record<string, string | string[] | undefined>;
+	searchParams?: Promise<Record<string, string | string[] | undefined>>;
 };
 
 export default async function LoginPage({ searchParams }: LoginPageProps) {
@@ -18,17 +19,20 @@ export default async function LoginPage({ searchParams }: LoginPageProps) {
 		data: { user },
 	} = await supabase.auth.getUser();
 
+	const params = searchParams ? await searchParams : {};
+	const nextPath = sanitizeNextPath(params[NEXT_PARAM]);
+
 	if (user) {
-		redirect("/dashboard");
+		redirect(nextPath ?? "/dashboard");
 	}
 
 	const successMessage =
-		typeof searchParams?.message === "string"
-			? decodeURIComponent(searchParams.message)
+		typeof params.message === "string"
+			? decodeURIComponent(params.message)
 			: null;
 	const initialError =
-		typeof searchParams?.error === "string"
-			? decodeURIComponent(searchParams.error)
+		typeof params.error === "string"
+			? decodeURIComponent(params.error)
 			: null;
 
 	return (
@@ -39,7 +43,11 @@ export default async function LoginPage({ searchParams }: LoginPageProps) {
 						Sign in to your account
 					</h2>
 				</div>
-				<LoginForm message={successMessage} initialError={initialError} />
+				<LoginForm
+					message={successMessage}
+					initialError={initialError}
+					nextPath={nextPath}
+				/>
 			</div>
 		</div>
 	);
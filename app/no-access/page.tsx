@@ -0,0 +1,52 @@
+import { redirect } from "next/navigation";
+
+import { getStaffSession } from "@/lib/staff";
+import { STAFF_HOME_PATHS } from "@/lib/staff-roles";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const fetchCache = "force-no-store";
+
+export default async function NoAccessPage() {
+	const session = await getStaffSession();
+
+	if (!session) {
+		redirect("/login");
+	}
+
+	if (session.role) {
+		redirect(STAFF_HOME_PATHS[session.role]);
+	}
+
+	async function signOut() {
+		"use server";
+
+		const supabase = await createSupabaseServerClient();
+		await supabase.auth.signOut();
+		redirect("/login");
+	}
+
+	return (
+		<div className='flex min-h-screen items-center justify-center bg-blush-50'>
+			<div className='w-full max-w-md space-y-6 rounded-lg border border-blush-100 bg-white p-8 text-center shadow-md'>
+				<h2 className='text-2xl font-bold tracking-tight text-gray-900'>
+					Tu cuenta aún no tiene acceso
+				</h2>
+				<p className='text-sm text-gray-600'>
+					Iniciaste sesión como{" "}
+					<span className='font-semibold'>{session.user.email}</span>, pero
+					todavía no tienes un rol asignado. Pide a la dueña de la tienda que
+					te asigne uno desde Ajustes.
+				</p>
+				<form action={signOut}>
+					<button
+						type='submit'
+						className='inline-flex items-center justify-center rounded-md bg-blush-500 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-blush-400'>
+						Cerrar sesión
+					</button>
+				</form>
+			</div>
+		</div>
+	);
+}
@@ -1,13 +1,23 @@
 import Link from "next/link";
-import { notFound, redirect } from "next/navigation";
+import { notFound } from "next/navigation";
 import type { ReactNode } from "react";
 
 import OrderReceiptCard, {
 	type OrderReceiptData,
 	type OrderReceiptItem,
 } from "@/app/orders/_components/order-receipt";
+import {
+	OrderRefundPanel,
+	type RefundableLine,
+} from "@/app/orders/_components/order-refund-panel";
+import { OrderStatusActions } from "@/app/orders/_components/order-status-actions";
 import DashboardShell from "@/components/dashboard-shell";
-import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { PAYMENT_METHOD_LABELS } from "@/lib/payments";
+import { getPricesAt, type PriceSnapshot } from "@/lib/price-history";
+import { findActionPermission } from "@/lib/route-policies";
+import { requireStaffPage } from "@/lib/staff";
+import { hasStaffPermission } from "@/lib/staff-roles";
+import { createSupabaseAdminClient } from "@/lib/supabase-admin";
 
 const STATUS_LABELS: Record<string, string> = {
 	pending: "Pendiente",
@@ -16,15 +26,10 @@ const STATUS_LABELS: Record<string, string> = {
 	cancelled: "Cancelada",
 };
 
-const PAYMENT_LABELS: Record<string, string> = {
-	cash: "Efectivo",
-	card: "Tarjeta",
-	transfer: "Transferencia",
-};
-
 type OrderDetailRow = {
 	id: string;
 	receipt_number: string | number | null;
+	customer_id: string | null;
 	customer_name: string | null;
 	customer_phone: string | number | null;
 	customer_email: string | null;
@@ -34,20 +39,31 @@ type OrderDetailRow = {
 	payment_reference: string | number | null;
 	subtotal_amount: number | string | null;
 	discount_amount: number | string | null;
+	line_discount_amount: number | string | null;
+	promo_code: string | null;
+	promo_discount_amount: number | string | null;
+	discount_reason: string | null;
 	tax_amount: number | string | null;
 	total_amount: number | string | null;
 	total_cost: number | string | null;
 	profit_amount: number | string | null;
+	refunded_amount: number | string | null;
+	refunded_cost: number | string | null;
+	price_review_required: boolean | null;
 	currency: string | null;
 	created_at: string;
 	updated_at: string;
+	cancelled_at: string | null;
 	order_product_items: Array<{
 		id: number;
 		qty: number | string | null;
+		refunded_qty: number | string | null;
 		unit_price: number | string | null;
 		unit_cost: number | string | null;
 		line_total: number | string | null;
 		line_cost_total: number | string | null;
+		discount_amount: number | string | null;
+		discount_reason: string | null;
 		products: {
 			id: string;
 			name: string | null;
@@ -57,15 +73,41 @@ type OrderDetailRow = {
 	order_combo_items: Array<{
 		id: number;
 		qty: number | string | null;
+		refunded_qty: number | string | null;
 		unit_price: number | string | null;
 		unit_cost: number | string | null;
 		line_total: number | string | null;
 		line_cost_total: number | string | null;
+		discount_amount: number | string | null;
+		discount_reason: string | null;
 		combos: {
 			id: string;
 			name: string | null;
 		} | null;
 	}>;
+	order_payments: Array<{
+		id: number;
+		method: string;
+		amount: number | string | null;
+		tendered_amount: number | string | null;
+		change_amount: number | string | null;
+		reference: string | null;
+	}>;
+	order_refunds: Array<{
+		id: string;
+		refund_type: string | null;
+		reason: string | null;
+		amount: number | string | null;
+		cost_amount: number | string | null;
+		created_at: string;
+	}>;
+	order_status_history: Array<{
+		id: number;
+		from_status: string | null;
+		to_status: string;
+		notes: string | null;
+		created_at: string;
+	}>;
 };
 
 type OrderDetailProps = {
@@ -74,19 +116,16 @@ type OrderDetailProps = {
 
 export default async function OrderDetailPage({ params }: OrderDetailProps) {
 	const { id } = await params;
-	const supabase = await createSupabaseServerClient();
-	const {
-		data: { user },
-	} = await supabase.auth.getUser();
-
-	if (!user) {
-		redirect("/login");
-	}
+	const { user, role } = await requireStaffPage("viewOrders");
+	const showCosts = hasStaffPermission(role, "viewCosts");
+	// Cashiers can't read orders directly (the cost columns); costs below are
+	// only rendered for roles that may see them.
+	const supabase = createSupabaseAdminClient();
 
 	const { data, error } = await supabase
 		.from("orders")
 		.select(
-			"id, receipt_number, customer_name, customer_phone, customer_email, notes, status, payment_method, payment_reference, subtotal_amount, discount_amount, tax_amount, total_amount, total_cost, profit_amount, currency, created_at, updated_at, order_product_items(id, qty, unit_price, unit_cost, line_total, line_cost_total, products(id, name, sku)), order_combo_items(id, qty, unit_price, unit_cost, line_total, line_cost_total, combos(id, name)))",
+			"id, receipt_number, customer_id, customer_name, customer_phone, customer_email, notes, status, payment_method, payment_reference, subtotal_amount, discount_amount, line_discount_amount, promo_code, promo_discount_amount, discount_reason, tax_amount, total_amount, total_cost, profit_amount, refunded_amount, refunded_cost, price_review_required, currency, created_at, updated_at, cancelled_at, order_product_items(id, qty, refunded_qty, unit_price, unit_cost, line_total, line_cost_total, discount_amount, discount_reason, products(id, name, sku)), order_combo_items(id, qty, refunded_qty, unit_price, unit_cost, line_total, line_cost_total, discount_amount, discount_reason, combos(id, name)), order_payments(id, method, amount, tendered_amount, change_amount, reference), order_refunds(id, refund_type, reason, amount, cost_amount, created_at), order_status_history(id, from_status, to_status, notes, created_at)",
 		)
 		.eq("id", id)
 		.maybeSingle();
@@ -100,7 +139,7 @@ export default async function OrderDetailPage({ params }: OrderDetailProps) {
 		notFound();
 	}
 
-	const order = data as OrderDetailRow;
+	const order = data as unknown as OrderDetailRow;
 	const currency = order.currency ?? "NIO";
 	const productItems = order.order_product_items ?? [];
 	const comboItems = order.order_combo_items ?? [];
@@ -111,16 +150,45 @@ export default async function OrderDetailPage({ params }: OrderDetailProps) {
 			name: normalizeText(item.products?.name) ?? "Producto",
 			qty: Math.max(0, parseNumber(item.qty)),
 			unitPrice: parseNumber(item.unit_price),
+			discount: parseNumber(item.discount_amount),
 		})),
 		...comboItems.map((item) => ({
 			name: `${normalizeText(item.combos?.name) ?? "Combo"} (Combo)`,
 			qty: Math.max(0, parseNumber(item.qty)),
 			unitPrice: parseNumber(item.unit_price),
+			discount: parseNumber(item.discount_amount),
 		})),
 	].filter((item) => Number.isFinite(item.unitPrice) && item.qty > 0);
 
+	// List prices in force when the order was placed, to flag lines sold at a
+	// different price. Price history is only readable by cost-viewing roles.
+	let listPrices: {
+		products: Map<string, PriceSnapshot>;
+		combos: Map<string, PriceSnapshot>;
+	} = { products: new Map(), combos: new Map() };
+	if (showCosts) {
+		try {
+			listPrices = await getPricesAt(supabase, {
+				productIds: productItems.flatMap((item) =>
+					item.products ? [item.products.id] : [],
+				),
+				comboIds: comboItems.flatMap((item) =>
+					item.combos ? [item.combos.id] : [],
+				),
+				at: order.created_at,
+			});
+		} catch (priceError) {
+			console.error("[OrderDetailPage] price history", priceError);
+		}
+	}
+
 	const subtotal = parseNumber(order.subtotal_amount);
 	const discount = parseNumber(order.discount_amount);
+	const lineDiscount = parseNumber(order.line_discount_amount);
+	const promoDiscount = parseNumber(order.promo_discount_amount);
+	const manualDiscount = Math.max(0, discount - lineDiscount - promoDiscount);
+	const promoCode = normalizeText(order.promo_code);
+	const discountReason = normalizeText(order.discount_reason);
 	const tax = parseNumber(order.tax_amount);
 	const total = parseNumber(order.total_amount);
 	const totalCost = parseNumber(order.total_cost);
@@ -129,6 +197,50 @@ export default async function OrderDetailPage({ params }: OrderDetailProps) {
 			? parseNumber(order.profit_amount)
 			: total - totalCost;
 
+	const refundedAmount = parseNumber(order.refunded_amount);
+	const refundedCost = parseNumber(order.refunded_cost);
+	const netProfit = profit - (refundedAmount - refundedCost);
+	const refunds = [...(order.order_refunds ?? [])].sort((a, b) =>
+		b.created_at.localeCompare(a.created_at),
+	);
+
+	const payments = [...(order.order_payments ?? [])]
+		.sort((a, b) => a.id - b.id)
+		.map((payment) => ({
+			id: payment.id,
+			method: payment.method,
+			amount: parseNumber(payment.amount),
+			tendered:
+				payment.tendered_amount === null
+					? undefined
+					: parseNumber(payment.tendered_amount),
+			change: parseNumber(payment.change_amount),
+			reference: normalizeText(payment.reference) ?? undefined,
+		}));
+
+	const statusHistory = [...(order.order_status_history ?? [])].sort(
+		(a, b) => a.created_at.localeCompare(b.created_at) || a.id - b.id,
+	);
+
+	const refundableLines: RefundableLine[] = [
+		...productItems.map((item) => ({
+			lineType: "product" as const,
+			lineId: item.id,
+			name: normalizeText(item.products?.name) ?? "Producto",
+			qty: parseNumber(item.qty),
+			refundedQty: parseNumber(item.refunded_qty),
+			unitPrice: netUnitPrice(item),
+		})),
+		...comboItems.map((item) => ({
+			lineType: "combo" as const,
+			lineId: item.id,
+			name: `${normalizeText(item.combos?.name) ?? "Combo"} (Combo)`,
+			qty: parseNumber(item.qty),
+			refundedQty: parseNumber(item.refunded_qty),
+			unitPrice: netUnitPrice(item),
+		})),
+	];
+
 	const paymentMethod =
 		normalizeText(order.payment_method)?.toLowerCase() ?? "cash";
 
@@ -136,14 +248,16 @@ export default async function OrderDetailPage({ params }: OrderDetailProps) {
 		receiptNumber: normalizeText(order.receipt_number) ?? undefined,
 		createdAt: order.created_at,
 		paymentMethod,
+		payments,
 		customerName: normalizeText(order.customer_name) ?? undefined,
 		customerPhone: normalizeText(order.customer_phone) ?? undefined,
 		notes: normalizedNotes ?? undefined,
 		subtotal,
 		discount,
+		promoCode: promoCode ?? undefined,
 		tax,
 		total,
-		profit,
+		profit: showCosts ? profit : undefined,
 		currency,
 		items: receiptItems,
 	};
@@ -162,6 +276,12 @@ export default async function OrderDetailPage({ params }: OrderDetailProps) {
 				</Link>
 			}>
 			<div className='grid gap-6'>
+				{order.price_review_required ? (
+					<div className='rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800'>
+						Esta reserva incluye productos sin precio de venta. Confirma el
+						monto con el cliente antes de completarla.
+					</div>
+				) : null}
 				<OrderReceiptCard receipt={receiptData} />
 				<section className='rounded-lg border border-gray-200 bg-white p-6 shadow-sm'>
 					<h2 className='text-lg font-semibold text-gray-900'>
@@ -185,18 +305,168 @@ export default async function OrderDetailPage({ params }: OrderDetailProps) {
 							value={formatCurrency(total, currency)}
 							emphasis
 						/>
-						<SummaryCard
-							label='Costo total'
-							value={formatCurrency(totalCost, currency)}
-						/>
-						<SummaryCard
-							label='Ganancia'
-							value={formatCurrency(profit, currency)}
-							emphasis
-						/>
+						{showCosts ? (
+							<>
+								<SummaryCard
+									label='Costo total'
+									value={formatCurrency(totalCost, currency)}
+								/>
+								<SummaryCard
+									label='Ganancia'
+									value={formatCurrency(profit, currency)}
+									emphasis
+								/>
+							</>
+						) : null}
+						{refundedAmount > 0 ? (
+							<>
+								<SummaryCard
+									label='Reembolsado'
+									value={formatCurrency(refundedAmount, currency)}
+								/>
+								{showCosts ? (
+									<SummaryCard
+										label='Ganancia neta'
+										value={formatCurrency(netProfit, currency)}
+										emphasis
+									/>
+								) : null}
+							</>
+						) : null}
 					</div>
+					{discount > 0 ? (
+						<ul className='mt-4 space-y-1 text-sm text-gray-600'>
+							{lineDiscount > 0 ? (
+								<li>
+									Descuentos por línea: {formatCurrency(lineDiscount, currency)}
+								</li>
+							) : null}
+							{promoCode ? (
+								<li>
+									Código {promoCode}: {formatCurrency(promoDiscount, currency)}
+								</li>
+							) : null}
+							{manualDiscount > 0 ? (
+								<li>
+									Descuento general: {formatCurrency(manualDiscount, currency)}
+									{discountReason ? ` · ${discountReason}` : ""}
+								</li>
+							) : null}
+						</ul>
+					) : null}
 				</section>
 
+				<OrderStatusActions orderId={order.id} status={order.status} />
+
+				{hasStaffPermission(role, findActionPermission("/orders", "refund")) ? (
+					<OrderRefundPanel
+						orderId={order.id}
+						status={order.status ?? "completed"}
+						currency={currency}
+						discountRatio={
+							subtotal - lineDiscount > 0 ? total / (subtotal - lineDiscount) : 1
+						}
+						lines={refundableLines}
+					/>
+				) : null}
+
+				{statusHistory.length ? (
+					<section className='rounded-lg border border-gray-200 bg-white p-6 shadow-sm'>
+						<h2 className='text-lg font-semibold text-gray-900'>
+							Historial de estados
+						</h2>
+						<ol className='mt-4 space-y-3 border-l border-blush-100 pl-4 text-sm'>
+							{statusHistory.map((entry) => (
+								<li key={entry.id} className='relative'>
+									<span className='absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full bg-blush-400' />
+									<p className='font-medium text-gray-900'>
+										{entry.from_status
+											? `${
+													STATUS_LABELS[entry.from_status] ?? entry.from_status
+											  } → ${STATUS_LABELS[entry.to_status] ?? entry.to_status}`
+											: `Creada como ${(
+													STATUS_LABELS[entry.to_status] ?? entry.to_status
+											  ).toLowerCase()}`}
+									</p>
+									<p className='text-xs text-gray-500'>
+										{formatDate(entry.created_at)}
+									</p>
+									{normalizeText(entry.notes) ? (
+										<p className='text-gray-600'>{entry.notes}</p>
+									) : null}
+								</li>
+							))}
+						</ol>
+					</section>
+				) : null}
+
+				{payments.length ? (
+					<section className='rounded-lg border border-gray-200 bg-white p-6 shadow-sm'>
+						<h2 className='text-lg font-semibold text-gray-900'>
+							Desglose de pagos
+						</h2>
+						<ul className='mt-4 divide-y divide-gray-200 text-sm'>
+							{payments.map((payment) => (
+								<li
+									key={payment.id}
+									className='flex flex-col gap-1 py-3 sm:flex-row sm:items-center sm:justify-between'>
+									<div>
+										<p className='font-medium text-gray-900'>
+											{formatPayment(payment.method)}
+										</p>
+										{payment.reference ? (
+											<p className='text-gray-600'>
+												Referencia: {payment.reference}
+											</p>
+										) : null}
+										{payment.tendered !== undefined ? (
+											<p className='text-gray-600'>
+												Recibido {formatCurrency(payment.tendered, currency)} ·
+												Cambio {formatCurrency(payment.change, currency)}
+											</p>
+										) : null}
+									</div>
+									<span className='font-semibold text-gray-900'>
+										{formatCurrency(payment.amount, currency)}
+									</span>
+								</li>
+							))}
+						</ul>
+					</section>
+				) : null}
+
+				{refunds.length ? (
+					<section className='rounded-lg border border-gray-200 bg-white p-6 shadow-sm'>
+						<h2 className='text-lg font-semibold text-gray-900'>
+							Historial de reembolsos
+						</h2>
+						<ul className='mt-4 divide-y divide-gray-200 text-sm'>
+							{refunds.map((refund) => (
+								<li
+									key={refund.id}
+									className='flex flex-col gap-1 py-3 sm:flex-row sm:items-center sm:justify-between'>
+									<div>
+										<p className='font-medium text-gray-900'>
+											{refund.refund_type === "full"
+												? "Cancelación total"
+												: "Reembolso parcial"}
+											<span className='ml-2 text-xs font-normal text-gray-500'>
+												{formatDate(refund.created_at)}
+											</span>
+										</p>
+										<p className='text-gray-600'>
+											{displayText(refund.reason, "Sin motivo")}
+										</p>
+									</div>
+									<span className='font-semibold text-red-600'>
+										-{formatCurrency(parseNumber(refund.amount), currency)}
+									</span>
+								</li>
+							))}
+						</ul>
+					</section>
+				) : null}
+
 				<section className='rounded-lg border border-gray-200 bg-white p-6 shadow-sm'>
 					<h2 className='text-lg font-semibold text-gray-900'>
 						Información de la orden
@@ -215,7 +485,15 @@ export default async function OrderDetailPage({ params }: OrderDetailProps) {
 							{displayText(order.receipt_number, "Sin número")}
 						</InfoBlock>
 						<InfoBlock label='Cliente'>
-							{displayText(order.customer_name, "Cliente sin nombre")}
+							{order.customer_id ? (
+								<Link
+									href={`/customers/${order.customer_id}`}
+									className='text-blush-600 hover:underline'>
+									{displayText(order.customer_name, "Cliente sin nombre")}
+								</Link>
+							) : (
+								displayText(order.customer_name, "Cliente sin nombre")
+							)}
 						</InfoBlock>
 						<InfoBlock label='Teléfono'>
 							{displayText(order.customer_phone, "Sin teléfono")}
@@ -229,6 +507,11 @@ export default async function OrderDetailPage({ params }: OrderDetailProps) {
 						<InfoBlock label='Actualizada el'>
 							{formatDate(order.updated_at)}
 						</InfoBlock>
+						{order.cancelled_at ? (
+							<InfoBlock label='Cancelada el'>
+								{formatDate(order.cancelled_at)}
+							</InfoBlock>
+						) : null}
 					</div>
 					{normalizedNotes ? (
 						<div className='mt-6 rounded-md border border-dashed border-gray-200 bg-gray-50 p-4 text-sm text-gray-600'>
@@ -256,14 +539,19 @@ export default async function OrderDetailPage({ params }: OrderDetailProps) {
 										<th className='px-4 py-3 text-left'>SKU</th>
 										<th className='px-4 py-3 text-left'>Cantidad</th>
 										<th className='px-4 py-3 text-left'>Precio unitario</th>
-										<th className='px-4 py-3 text-left'>Costo unitario</th>
+										{showCosts ? (
+											<th className='px-4 py-3 text-left'>Costo unitario</th>
+										) : null}
 										<th className='px-4 py-3 text-left'>Importe</th>
-										<th className='px-4 py-3 text-left'>Costo</th>
+										{showCosts ? (
+											<th className='px-4 py-3 text-left'>Costo</th>
+										) : null}
 									</tr>
 								</thead>
 								<tbody className='divide-y divide-gray-200'>
 									{productItems.map((item) => {
 										const qty = parseNumber(item.qty);
+										const refundedQty = parseNumber(item.refunded_qty);
 										return (
 											<tr
 												key={`product-${item.id}`}
@@ -274,31 +562,57 @@ export default async function OrderDetailPage({ params }: OrderDetailProps) {
 												<td className='px-4 py-3 text-gray-500'>
 													{item.products?.sku ?? "—"}
 												</td>
-												<td className='px-4 py-3 text-gray-700'>{qty}</td>
 												<td className='px-4 py-3 text-gray-700'>
-													{formatCurrency(
-														parseNumber(item.unit_price),
-														currency,
-													)}
+													{qty}
+													{refundedQty > 0 ? (
+														<span className='ml-1 text-xs text-red-600'>
+															({refundedQty} reembolsado
+															{refundedQty === 1 ? "" : "s"})
+														</span>
+													) : null}
 												</td>
 												<td className='px-4 py-3 text-gray-700'>
 													{formatCurrency(
-														parseNumber(item.unit_cost),
+														parseNumber(item.unit_price),
 														currency,
 													)}
+													<ListPriceNote
+														unitPrice={parseNumber(item.unit_price)}
+														listPrice={
+															item.products
+																? listPrices.products.get(item.products.id)?.sellPrice
+																: null
+														}
+														currency={currency}
+													/>
 												</td>
+												{showCosts ? (
+													<td className='px-4 py-3 text-gray-700'>
+														{formatCurrency(
+															parseNumber(item.unit_cost),
+															currency,
+														)}
+													</td>
+												) : null}
 												<td className='px-4 py-3 text-gray-900'>
 													{formatCurrency(
 														parseNumber(item.line_total),
 														currency,
 													)}
+													<LineDiscountNote
+														amount={parseNumber(item.discount_amount)}
+														reason={normalizeText(item.discount_reason)}
+														currency={currency}
+													/>
 												</td>
-												<td className='px-4 py-3 text-gray-900'>
-													{formatCurrency(
-														parseNumber(item.line_cost_total),
-														currency,
-													)}
-												</td>
+												{showCosts ? (
+													<td className='px-4 py-3 text-gray-900'>
+														{formatCurrency(
+															parseNumber(item.line_cost_total),
+															currency,
+														)}
+													</td>
+												) : null}
 											</tr>
 										);
 									})}
@@ -329,14 +643,19 @@ export default async function OrderDetailPage({ params }: OrderDetailProps) {
 										<th className='px-4 py-3 text-left'>Combo</th>
 										<th className='px-4 py-3 text-left'>Cantidad</th>
 										<th className='px-4 py-3 text-left'>Precio unitario</th>
-										<th className='px-4 py-3 text-left'>Costo unitario</th>
+										{showCosts ? (
+											<th className='px-4 py-3 text-left'>Costo unitario</th>
+										) : null}
 										<th className='px-4 py-3 text-left'>Importe</th>
-										<th className='px-4 py-3 text-left'>Costo</th>
+										{showCosts ? (
+											<th className='px-4 py-3 text-left'>Costo</th>
+										) : null}
 									</tr>
 								</thead>
 								<tbody className='divide-y divide-gray-200'>
 									{comboItems.map((item) => {
 										const qty = parseNumber(item.qty);
+										const refundedQty = parseNumber(item.refunded_qty);
 										return (
 											<tr
 												key={`combo-${item.id}`}
@@ -344,31 +663,57 @@ export default async function OrderDetailPage({ params }: OrderDetailProps) {
 												<td className='px-4 py-3 text-gray-900'>
 													{item.combos?.name ?? "Combo"}
 												</td>
-												<td className='px-4 py-3 text-gray-700'>{qty}</td>
 												<td className='px-4 py-3 text-gray-700'>
-													{formatCurrency(
-														parseNumber(item.unit_price),
-														currency,
-													)}
+													{qty}
+													{refundedQty > 0 ? (
+														<span className='ml-1 text-xs text-red-600'>
+															({refundedQty} reembolsado
+															{refundedQty === 1 ? "" : "s"})
+														</span>
+													) : null}
 												</td>
 												<td className='px-4 py-3 text-gray-700'>
 													{formatCurrency(
-														parseNumber(item.unit_cost),
+														parseNumber(item.unit_price),
 														currency,
 													)}
+													<ListPriceNote
+														unitPrice={parseNumber(item.unit_price)}
+														listPrice={
+															item.combos
+																? listPrices.combos.get(item.combos.id)?.sellPrice
+																: null
+														}
+														currency={currency}
+													/>
 												</td>
+												{showCosts ? (
+													<td className='px-4 py-3 text-gray-700'>
+														{formatCurrency(
+															parseNumber(item.unit_cost),
+															currency,
+														)}
+													</td>
+												) : null}
 												<td className='px-4 py-3 text-gray-900'>
 													{formatCurrency(
 														parseNumber(item.line_total),
 														currency,
 													)}
+													<LineDiscountNote
+														amount={parseNumber(item.discount_amount)}
+														reason={normalizeText(item.discount_reason)}
+														currency={currency}
+													/>
 												</td>
-												<td className='px-4 py-3 text-gray-900'>
-													{formatCurrency(
-														parseNumber(item.line_cost_total),
-														currency,
-													)}
-												</td>
+												{showCosts ? (
+													<td className='px-4 py-3 text-gray-900'>
+														{formatCurrency(
+															parseNumber(item.line_cost_total),
+															currency,
+														)}
+													</td>
+												) : null}
 											</tr>
 										);
 									})}
@@ -416,7 +761,10 @@ function formatCurrency(value: number, currency: string) {
 
 function formatPayment(method: string | null | undefined) {
 	const normalized = (method ?? "cash").toLowerCase();
-	return PAYMENT_LABELS[normalized] ?? normalized;
+	return (
+		PAYMENT_METHOD_LABELS[normalized as keyof typeof PAYMENT_METHOD_LABELS] ??
+		normalized
+	);
 }
 
 function formatDate(raw: string) {
@@ -431,6 +779,55 @@ function formatDate(raw: string) {
 	}
 }
 
+function ListPriceNote({
+	unitPrice,
+	listPrice,
+	currency,
+}: {
+	unitPrice: number;
+	listPrice: number | null | undefined;
+	currency: string;
+}) {
+	if (listPrice === null || listPrice === undefined) return null;
+	if (Math.abs(listPrice - unitPrice) < 0.005) return null;
+
+	return (
+		<span className='block text-xs text-amber-600'>
+			Lista en esa fecha: {formatCurrency(listPrice, currency)}
+		</span>
+	);
+}
+
+function LineDiscountNote({
+	amount,
+	reason,
+	currency,
+}: {
+	amount: number;
+	reason: string | null;
+	currency: string;
+}) {
+	if (amount <= 0) return null;
+
+	return (
+		<span className='block text-xs text-emerald-600'>
+			Descuento {formatCurrency(amount, currency)}
+			{reason ? ` · ${reason}` : ""}
+		</span>
+	);
+}
+
+/** Unit price after the line discount, which is what a refund gives back. */
+function netUnitPrice(item: {
+	qty: number | string | null;
+	unit_price: number | string | null;
+	line_total: number | string | null;
+}) {
+	const qty = parseNumber(item.qty);
+	if (qty <= 0 || item.line_total === null) return parseNumber(item.unit_price);
+	return parseNumber(item.line_total) / qty;
+}
+
 function OrderStatusBadge({ status }: { status: string | null }) {
 	const label = status ? STATUS_LABELS[status] ?? status : "Sin estado";
 	const normalized = status ?? "unknown";
@@ -1,25 +1,41 @@
 "use client";
 
-import { useCallback, useMemo, useRef } from "react";
+import { Fragment, useCallback, useMemo, useRef } from "react";
+
+import { PAYMENT_METHOD_LABELS } from "@/lib/payments";
 
 export type OrderReceiptItem = {
 	name: string;
 	qty: number;
 	unitPrice: number;
+	/** Line discount already taken off the line amount. */
+	discount?: number;
+};
+
+export type OrderReceiptPayment = {
+	method: string;
+	amount: number;
+	tendered?: number;
+	change?: number;
+	reference?: string;
 };
 
 export type OrderReceiptData = {
 	receiptNumber?: string;
 	createdAt: string;
 	paymentMethod: string;
+	/** Tender breakdown; empty for orders paid before split tender. */
+	payments?: OrderReceiptPayment[];
 	customerName?: string;
 	customerPhone?: string;
 	notes?: string;
 	subtotal: number;
 	discount: number;
+	promoCode?: string;
 	tax: number;
 	total: number;
-	profit: number;
+	/** Omitted for staff who can't see costs. */
+	profit?: number;
 	currency: string;
 	items: OrderReceiptItem[];
 };
@@ -28,13 +44,8 @@ type OrderReceiptProps = {
 	receipt: OrderReceiptData;
 };
 
-const PAYMENT_LABELS: Record<string, string> = {
-	cash: "Efectivo",
-	card: "Tarjeta",
-	transfer: "Transferencia",
-};
-
-const PRINT_STYLES = `
+/** Standalone styles for printing a `.thermal-receipt` in a popup window. */
+export const THERMAL_PRINT_STYLES = `
 	* { box-sizing: border-box; }
 	@page { margin: 6mm; }
 	body {
@@ -180,7 +191,7 @@ export default function OrderReceiptCard({ receipt }: OrderReceiptProps) {
 <head>
 <meta charset="utf-8" />
 <title>Recibo ${sanitizeHtmlAttribute(receipt.receiptNumber ?? "")}</title>
-<style>${PRINT_STYLES}</style>
+<style>${THERMAL_PRINT_STYLES}</style>
 </head>
 <body>
 ${receiptMarkup}
@@ -263,11 +274,22 @@ ${receiptMarkup}
 							<tbody>
 								{receipt.items.map((item, index) => (
 									<tr key={`${item.name}-${index}`}>
-										<td>{item.name}</td>
+										<td>
+											{item.name}
+											{item.discount ? (
+												<>
+													<br />
+													<small>
+														Desc.{" "}
+														{formatCurrency(-item.discount, receipt.currency)}
+													</small>
+												</>
+											) : null}
+										</td>
 										<td>{item.qty}</td>
 										<td>
 											{formatCurrency(
-												item.unitPrice * item.qty,
+												item.unitPrice * item.qty - (item.discount ?? 0),
 												receipt.currency,
 											)}
 										</td>
@@ -287,6 +309,12 @@ ${receiptMarkup}
 							<span>Descuento</span>
 							<span>{formatCurrency(discountDisplay, receipt.currency)}</span>
 						</div>
+						{receipt.promoCode ? (
+							<div className='thermal-summary-row'>
+								<span>Código promocional</span>
+								<span>{receipt.promoCode}</span>
+							</div>
+						) : null}
 						<div className='thermal-summary-row'>
 							<span>Impuesto</span>
 							<span>{formatCurrency(receipt.tax, receipt.currency)}</span>
@@ -295,10 +323,39 @@ ${receiptMarkup}
 							<span>Total</span>
 							<span>{formatCurrency(receipt.total, receipt.currency)}</span>
 						</div>
-						<div className='thermal-summary-row is-accent'>
-							<span>Ganancia</span>
-							<span>{formatCurrency(receipt.profit, receipt.currency)}</span>
-						</div>
+						{(receipt.payments ?? []).map((payment, index) => (
+							<Fragment key={`${payment.method}-${index}`}>
+								<div className='thermal-summary-row'>
+									<span>
+										{formatPaymentMethod(payment.method)}
+										{payment.reference ? ` · ${payment.reference}` : ""}
+									</span>
+									<span>{formatCurrency(payment.amount, receipt.currency)}</span>
+								</div>
+								{payment.tendered !== undefined ? (
+									<>
+										<div className='thermal-summary-row'>
+											<span>Recibido</span>
+											<span>
+												{formatCurrency(payment.tendered, receipt.currency)}
+											</span>
+										</div>
+										<div className='thermal-summary-row'>
+											<span>Cambio</span>
+											<span>
+												{formatCurrency(payment.change ?? 0, receipt.currency)}
+											</span>
+										</div>
+									</>
+								) : null}
+							</Fragment>
+						))}
+						{receipt.profit !== undefined ? (
+							<div className='thermal-summary-row is-accent'>
+								<span>Ganancia</span>
+								<span>{formatCurrency(receipt.profit, receipt.currency)}</span>
+							</div>
+						) : null}
 					</div>
 					{noteText ? (
 						<div className='thermal-notes'>
@@ -336,7 +393,11 @@ function formatReceiptDate(isoDate: string) {
 
 function formatPaymentMethod(method: string) {
 	const normalized = (method ?? "cash").toLowerCase();
-	return PAYMENT_LABELS[normalized] ?? method ?? "Efectivo";
+	return (
+		PAYMENT_METHOD_LABELS[normalized as keyof typeof PAYMENT_METHOD_LABELS] ??
+		method ??
+		"Efectivo"
+	);
 }
 
 function sanitizeHtmlAttribute(value: string) {
@@ -0,0 +1,253 @@
+"use client";
+
+import { useMemo, useState, useTransition } from "react";
+
+import { refundOrderAction } from "../actions";
+
+export type RefundableLine = {
+	lineType: "product" | "combo";
+	lineId: number;
+	name: string;
+	qty: number;
+	refundedQty: number;
+	unitPrice: number;
+};
+
+type OrderRefundPanelProps = {
+	orderId: string;
+	status: string;
+	currency: string;
+	discountRatio: number;
+	lines: RefundableLine[];
+};
+
+function formatCurrency(value: number, currency: string) {
+	return new Intl.NumberFormat("es-NI", {
+		style: "currency",
+		currency,
+		minimumFractionDigits: 2,
+	}).format(value);
+}
+
+function lineKey(line: Pick<RefundableLine, "lineType" | "lineId">) {
+	return `${line.lineType}-${line.lineId}`;
+}
+
+export function OrderRefundPanel({
+	orderId,
+	status,
+	currency,
+	discountRatio,
+	lines,
+}: OrderRefundPanelProps) {
+	const [quantities, setQuantities] = useState<Record<string, number>>({});
+	const [reason, setReason] = useState("");
+	const [confirmingFull, setConfirmingFull] = useState(false);
+	const [errorMessages, setErrorMessages] = useState<string[]>([]);
+	const [successMessage, setSuccessMessage] = useState<string | null>(null);
+	const [isPending, startTransition] = useTransition();
+
+	const isCompleted = status === "completed";
+	const refundableLines = lines.filter((line) => line.qty > line.refundedQty);
+
+	const selectedLines = useMemo(
+		() =>
+			refundableLines
+				.map((line) => ({ line, qty: quantities[lineKey(line)] ?? 0 }))
+				.filter((entry) => entry.qty > 0),
+		[quantities, refundableLines],
+	);
+
+	const estimatedRefund = selectedLines.reduce(
+		(total, entry) =>
+			total + entry.line.unitPrice * entry.qty * discountRatio,
+		0,
+	);
+
+	const updateQuantity = (line: RefundableLine, raw: string) => {
+		const remaining = line.qty - line.refundedQty;
+		const parsed = Math.floor(Number(raw));
+		const next = Number.isFinite(parsed)
+			? Math.min(Math.max(parsed, 0), remaining)
+			: 0;
+		setQuantities((current) => ({ ...current, [lineKey(line)]: next }));
+	};
+
+	const submit = (mode: "full" | "partial") => {
+		setErrorMessages([]);
+		setSuccessMessage(null);
+		startTransition(async () => {
+			const result = await refundOrderAction({
+				orderId,
+				mode,
+				reason,
+				lines:
+					mode === "partial"
+						? selectedLines.map((entry) => ({
+								lineType: entry.line.lineType,
+								lineId: entry.line.lineId,
+								qty: entry.qty,
+						  }))
+						: [],
+			});
+
+			if (!result.success) {
+				const messages = Object.values(result.errors).flat();
+				setErrorMessages(
+					messages.length
+						? messages
+						: ["No pudimos registrar el reembolso."],
+				);
+				return;
+			}
+
+			setConfirmingFull(false);
+			setQuantities({});
+			setReason("");
+			setSuccessMessage(
+				`${result.message ?? "Reembolso registrado"} · ${formatCurrency(
+					result.data.refundAmount,
+					currency,
+				)}`,
+			);
+		});
+	};
+
+	if (status === "cancelled") {
+		return null;
+	}
+
+	return (
+		<section className='rounded-lg border border-gray-200 bg-white p-6 shadow-sm'>
+			<h2 className='text-lg font-semibold text-gray-900'>
+				Cancelación y reembolsos
+			</h2>
+			<p className='mt-1 text-sm text-gray-500'>
+				{isCompleted
+					? "Los productos reembolsados regresan al inventario, incluidos los componentes de cada combo."
+					: "La orden aún no descuenta inventario; solo puede cancelarse completa."}
+			</p>
+
+			{isCompleted && refundableLines.length ? (
+				<div className='mt-4 overflow-x-auto'>
+					<table className='min-w-full divide-y divide-gray-200 text-sm'>
+						<thead className='bg-gray-50 text-xs font-semibold uppercase tracking-wider text-gray-500'>
+							<tr>
+								<th className='px-4 py-3 text-left'>Artículo</th>
+								<th className='px-4 py-3 text-left'>Vendidos</th>
+								<th className='px-4 py-3 text-left'>Reembolsados</th>
+								<th className='px-4 py-3 text-left'>A reembolsar</th>
+							</tr>
+						</thead>
+						<tbody className='divide-y divide-gray-200'>
+							{refundableLines.map((line) => {
+								const key = lineKey(line);
+								return (
+									<tr key={key} className='hover:bg-blush-50'>
+										<td className='px-4 py-3 text-gray-900'>{line.name}</td>
+										<td className='px-4 py-3 text-gray-700'>{line.qty}</td>
+										<td className='px-4 py-3 text-gray-700'>
+											{line.refundedQty}
+										</td>
+										<td className='px-4 py-3'>
+											<input
+												type='number'
+												min={0}
+												max={line.qty - line.refundedQty}
+												value={quantities[key] ?? 0}
+												onChange={(event) =>
+													updateQuantity(line, event.target.value)
+												}
+												disabled={isPending}
+												className='w-20 rounded-md border border-gray-200 px-2 py-1 text-sm focus:border-blush-400 focus:outline-none focus:ring-2 focus:ring-blush-200'
+											/>
+										</td>
+									</tr>
+								);
+							})}
+						</tbody>
+					</table>
+				</div>
+			) : null}
+
+			<label className='mt-4 block text-sm font-medium text-gray-700'>
+				Motivo
+				<textarea
+					value={reason}
+					onChange={(event) => setReason(event.target.value)}
+					rows={2}
+					disabled={isPending}
+					placeholder='Ej. Producto dañado, venta anulada por error…'
+					className='mt-1 w-full rounded-md border border-gray-200 px-3 py-2 text-sm focus:border-blush-400 focus:outline-none focus:ring-2 focus:ring-blush-200'
+				/>
+			</label>
+
+			{errorMessages.length ? (
+				<div className='mt-3 rounded-md bg-red-50 px-3 py-2 text-sm text-red-600'>
+					{errorMessages.map((message) => (
+						<p key={message}>{message}</p>
+					))}
+				</div>
+			) : null}
+			{successMessage ? (
+				<div className='mt-3 rounded-md bg-emerald-50 px-3 py-2 text-sm text-emerald-700'>
+					{successMessage}
+				</div>
+			) : null}
+
+			{confirmingFull ? (
+				<div className='mt-4 rounded-md border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800'>
+					<p>
+						Se cancelará la orden completa y se devolverán al inventario todas
+						las unidades pendientes. Esta acción no se puede deshacer.
+					</p>
+					<div className='mt-3 flex flex-wrap justify-end gap-2'>
+						<button
+							type='button'
+							onClick={() => setConfirmingFull(false)}
+							disabled={isPending}
+							className='inline-flex items-center rounded-md border border-gray-200 bg-white px-3 py-1.5 text-xs font-medium text-gray-700 transition hover:bg-gray-100 disabled:cursor-not-allowed disabled:opacity-60'>
+							Volver
+						</button>
+						<button
+							type='button'
+							onClick={() => submit("full")}
+							disabled={isPending}
+							className='inline-flex items-center rounded-md bg-red-600 px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-red-500 disabled:cursor-not-allowed disabled:opacity-60'>
+							{isPending ? "Cancelando…" : "Confirmar cancelación"}
+						</button>
+					</div>
+				</div>
+			) : (
+				<div className='mt-4 flex flex-wrap items-center justify-between gap-3'>
+					<span className='text-sm text-gray-600'>
+						{isCompleted && selectedLines.length
+							? `Reembolso estimado: ${formatCurrency(
+									estimatedRefund,
+									currency,
+							  )}`
+							: null}
+					</span>
+					<div className='flex flex-wrap gap-2'>
+						{isCompleted ? (
+							<button
+								type='button'
+								onClick={() => submit("partial")}
+								disabled={isPending || selectedLines.length === 0}
+								className='inline-flex items-center rounded-md border border-blush-200 px-3 py-1.5 text-xs font-medium text-blush-600 transition hover:bg-blush-50 disabled:cursor-not-allowed disabled:opacity-60'>
+								{isPending ? "Procesando…" : "Reembolsar selección"}
+							</button>
+						) : null}
+						<button
+							type='button'
+							onClick={() => setConfirmingFull(true)}
+							disabled={isPending}
+							className='inline-flex items-center rounded-md border border-red-200 px-3 py-1.5 text-xs font-medium text-red-600 transition hover:bg-red-50 disabled:cursor-not-allowed disabled:opacity-60'>
+							Cancelar venta completa
+						</button>
+					</div>
+				</div>
+			)}
+		</section>
+	);
+}
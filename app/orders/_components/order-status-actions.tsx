@@ -0,0 +1,126 @@
+"use client";
+
+import { useState, useTransition } from "react";
+
+import {
+	ORDER_STATUS_TRANSITIONS,
+	isOrderStatus,
+	type OrderStatus,
+} from "@/lib/order-status";
+
+import { updateOrderStatusAction } from "../actions";
+
+const TRANSITION_COPY: Partial<
+	Record<OrderStatus, { label: string; pending: string; className: string }>
+> = {
+	processing: {
+		label: "Empezar a preparar",
+		pending: "Reservando…",
+		className:
+			"bg-blush-500 text-white hover:bg-blush-400 disabled:bg-blush-200",
+	},
+	completed: {
+		label: "Completar venta",
+		pending: "Completando…",
+		className:
+			"bg-emerald-600 text-white hover:bg-emerald-500 disabled:bg-emerald-200",
+	},
+	pending: {
+		label: "Regresar a pendiente",
+		pending: "Liberando…",
+		className:
+			"border border-gray-200 text-gray-700 hover:bg-gray-100 disabled:opacity-60",
+	},
+};
+
+type OrderStatusActionsProps = {
+	orderId: string;
+	status: string | null;
+};
+
+export function OrderStatusActions({ orderId, status }: OrderStatusActionsProps) {
+	const [notes, setNotes] = useState("");
+	const [target, setTarget] = useState<OrderStatus | null>(null);
+	const [errorMessages, setErrorMessages] = useState<string[]>([]);
+	const [isPending, startTransition] = useTransition();
+
+	const transitions = isOrderStatus(status)
+		? ORDER_STATUS_TRANSITIONS[status]
+		: [];
+
+	if (transitions.length === 0) {
+		return null;
+	}
+
+	const handleTransition = (nextStatus: OrderStatus) => {
+		setErrorMessages([]);
+		setTarget(nextStatus);
+		startTransition(async () => {
+			const result = await updateOrderStatusAction({
+				orderId,
+				status: nextStatus as "pending" | "processing" | "completed",
+				notes,
+			});
+
+			if (!result.success) {
+				const messages = Object.values(result.errors).flat();
+				setErrorMessages(
+					messages.length
+						? messages
+						: ["No pudimos actualizar el estado de la orden."],
+				);
+				return;
+			}
+
+			setNotes("");
+		});
+	};
+
+	return (
+		<section className='rounded-lg border border-gray-200 bg-white p-6 shadow-sm'>
+			<h2 className='text-lg font-semibold text-gray-900'>Avanzar orden</h2>
+			<p className='mt-1 text-sm text-gray-500'>
+				{status === "pending"
+					? "Al pasar a preparación se reservan las unidades para que no se vendan en el punto de venta."
+					: "Al completar la venta se descuenta el inventario reservado, igual que en el punto de venta."}
+			</p>
+
+			<label className='mt-4 block text-sm font-medium text-gray-700'>
+				Nota (opcional)
+				<input
+					type='text'
+					value={notes}
+					onChange={(event) => setNotes(event.target.value)}
+					disabled={isPending}
+					placeholder='Ej. Pago confirmado por transferencia'
+					className='mt-1 w-full rounded-md border border-gray-200 px-3 py-2 text-sm focus:border-blush-400 focus:outline-none focus:ring-2 focus:ring-blush-200'
+				/>
+			</label>
+
+			{errorMessages.length ? (
+				<div className='mt-3 rounded-md bg-red-50 px-3 py-2 text-sm text-red-600'>
+					{errorMessages.map((message) => (
+						<p key={message}>{message}</p>
+					))}
+				</div>
+			) : null}
+
+			<div className='mt-4 flex flex-wrap justify-end gap-2'>
+				{transitions.map((nextStatus) => {
+					const copy = TRANSITION_COPY[nextStatus];
+					if (!copy) return null;
+					return (
+						<button
+							key={nextStatus}
+							type='button'
+							onClick={() => handleTransition(nextStatus)}
+							disabled={isPending}
+							className={`inline-flex items-center rounded-md px-4 py-2 text-sm font-semibold transition disabled:cursor-not-allowed ${copy.className}`}>
+							{isPending && target === nextStatus ? copy.pending : copy.label}
+						</button>
+					);
+				})}
+			</div>
+		</section>
+	);
+}
@@ -0,0 +1,363 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+
+import type { ActionErrorRecord, ActionResult } from "@/lib/actions";
+import { recordAuditEvent } from "@/lib/audit";
+import { ORDER_STATUS_LABELS } from "@/lib/order-status";
+import { orderRefundSchema, orderStatusTransitionSchema } from "@/lib/schemas";
+import {
+	STAFF_AUTHORIZATION_MESSAGES,
+	StaffAuthorizationError,
+	requireRoutePermission,
+} from "@/lib/staff";
+import {
+	MissingEnvironmentVariableError,
+	createSupabaseAdminClient,
+} from "@/lib/supabase-admin";
+
+function flattenErrors(error: z.ZodError): ActionErrorRecord {
+	const { fieldErrors, formErrors } = error.flatten();
+	return {
+		...(Object.fromEntries(
+			Object.entries(fieldErrors).map(([key, value]) => [key, value ?? []]),
+		) as ActionErrorRecord),
+		...(formErrors.length ? { form: formErrors } : {}),
+	};
+}
+
+function roundCurrency(value: number): number {
+	return Number(Number(value ?? 0).toFixed(2));
+}
+
+function safeNumber(value: unknown): number {
+	const parsed = Number(value ?? 0);
+	return Number.isFinite(parsed) ? parsed : 0;
+}
+
+type RefundOrderRpcResult =
+	| {
+			success: true;
+			refund_id: string;
+			refund_amount: number;
+			refund_cost: number;
+			order_status: string;
+	  }
+	| {
+			success: false;
+			error:
+				| "missing_reason"
+				| "order_not_found"
+				| "order_cancelled"
+				| "invalid_status"
+				| "nothing_to_refund"
+				| "invalid_lines";
+			status?: string;
+			lines?: Array<{
+				line_type: string;
+				line_id: number;
+				requested: number;
+				available: number;
+			}>;
+	  };
+
+type RefundOrderResult = {
+	refundId: string;
+	refundAmount: number;
+	orderStatus: string;
+};
+
+function mapRefundRpcError(
+	result: Extract<RefundOrderRpcResult, { success: false }>,
+): ActionErrorRecord {
+	switch (result.error) {
+		case "missing_reason":
+			return { reason: ["Indica el motivo"] };
+		case "order_not_found":
+			return { form: ["No encontramos la orden seleccionada."] };
+		case "order_cancelled":
+			return { form: ["Esta orden ya fue cancelada."] };
+		case "invalid_status":
+			return {
+				form: [
+					"Solo las órdenes completadas admiten reembolsos parciales. Cancela la orden completa.",
+				],
+			};
+		case "nothing_to_refund":
+			return { lines: ["Selecciona al menos una línea para reembolsar"] };
+		case "invalid_lines":
+			return {
+				lines: (result.lines ?? []).map(
+					(line) =>
+						`La línea ${line.line_id} solo tiene ${safeNumber(
+							line.available,
+						)} unidad(es) por reembolsar.`,
+				),
+			};
+		default:
+			return {
+				form: [
+					"No pudimos registrar el reembolso. Verifica la información e inténtalo nuevamente.",
+				],
+			};
+	}
+}
+
+export async function refundOrderAction(
+	input: z.input<typeof orderRefundSchema>,
+): Promise<ActionResult<RefundOrderResult>> {
+	try {
+		const payload = orderRefundSchema.parse(input);
+		const { user } = await requireRoutePermission("/orders", "refund");
+		const adminClient = createSupabaseAdminClient();
+
+		const { data, error } = await adminClient.rpc("refund_order", {
+			payload: {
+				order_id: payload.orderId,
+				mode: payload.mode,
+				reason: payload.reason,
+				created_by: user.id,
+				lines: payload.lines.map((line) => ({
+					line_type: line.lineType,
+					line_id: line.lineId,
+					qty: line.qty,
+				})),
+			},
+		});
+
+		if (error) {
+			throw new Error(error.message);
+		}
+
+		const result = data as RefundOrderRpcResult | null;
+		if (!result) {
+			throw new Error("No pudimos registrar el reembolso");
+		}
+
+		if (!result.success) {
+			return { success: false, errors: mapRefundRpcError(result) };
+		}
+
+		await recordAuditEvent(adminClient, {
+			actor: user,
+			action: "order.refund",
+			entityType: "order",
+			entityId: payload.orderId,
+			after: {
+				refund_id: result.refund_id,
+				mode: payload.mode,
+				reason: payload.reason,
+				refund_amount: result.refund_amount,
+				order_status: result.order_status,
+				lines: payload.lines,
+			},
+		});
+
+		revalidatePath("/orders");
+		revalidatePath(`/orders/${payload.orderId}`);
+		revalidatePath("/inventory");
+		revalidatePath("/pos");
+		revalidatePath("/dashboard");
+
+		return {
+			success: true,
+			data: {
+				refundId: result.refund_id,
+				refundAmount: roundCurrency(safeNumber(result.refund_amount)),
+				orderStatus: result.order_status,
+			},
+			message:
+				result.order_status === "cancelled"
+					? "Orden cancelada correctamente"
+					: "Reembolso registrado correctamente",
+		};
+	} catch (error) {
+		if (error instanceof z.ZodError) {
+			return { success: false, errors: flattenErrors(error) };
+		}
+
+		if (error instanceof StaffAuthorizationError) {
+			return {
+				success: false,
+				errors: { form: [STAFF_AUTHORIZATION_MESSAGES[error.reason]] },
+			};
+		}
+
+		if (error instanceof MissingEnvironmentVariableError) {
+			return {
+				success: false,
+				errors: {
+					form: [
+						`Falta configurar la variable de entorno ${error.envVar}. Revisa la guía de instalación para obtener el valor correcto.`,
+					],
+				},
+			};
+		}
+
+		console.error("[refundOrderAction]", error);
+
+		return {
+			success: false,
+			errors: {
+				form: [
+					"No pudimos registrar el reembolso. Verifica la información e inténtalo nuevamente.",
+				],
+			},
+		};
+	}
+}
+
+type TransitionOrderRpcResult =
+	| { success: true; order_id: string; status: string }
+	| {
+			success: false;
+			error:
+				| "order_not_found"
+				| "invalid_transition"
+				| "empty_order"
+				| "insufficient_stock";
+			from?: string;
+			to?: string;
+			short_products?: Array<{
+				product_id: string;
+				name: string | null;
+				available: number;
+				required: number;
+			}>;
+	  };
+
+function mapTransitionRpcError(
+	result: Extract<TransitionOrderRpcResult, { success: false }>,
+): ActionErrorRecord {
+	switch (result.error) {
+		case "order_not_found":
+			return { form: ["No encontramos la orden seleccionada."] };
+		case "invalid_transition":
+			return {
+				form: [
+					"La orden cambió de estado. Actualiza la página e inténtalo nuevamente.",
+				],
+			};
+		case "empty_order":
+			return {
+				form: [
+					"La orden no tiene artículos registrados. Regístrala desde el punto de venta.",
+				],
+			};
+		case "insufficient_stock":
+			return {
+				form: [
+					`Inventario insuficiente para: ${(result.short_products ?? [])
+						.map(
+							(product) =>
+								`${product.name ?? "Producto"} (disponible: ${safeNumber(
+									product.available,
+								)}, requerido: ${safeNumber(product.required)})`,
+						)
+						.join(", ")}.`,
+				],
+			};
+		default:
+			return {
+				form: [
+					"No pudimos actualizar el estado de la orden. Inténtalo nuevamente.",
+				],
+			};
+	}
+}
+
+export async function updateOrderStatusAction(
+	input: z.input<typeof orderStatusTransitionSchema>,
+): Promise<ActionResult<{ orderId: string; status: string }>> {
+	try {
+		const payload = orderStatusTransitionSchema.parse(input);
+
+		const { user } = await requireRoutePermission("/orders", "updateStatus");
+		const adminClient = createSupabaseAdminClient();
+
+		const { data: existing } = await adminClient
+			.from("orders")
+			.select("status")
+			.eq("id", payload.orderId)
+			.maybeSingle();
+
+		const { data, error } = await adminClient.rpc("transition_order_status", {
+			payload: {
+				order_id: payload.orderId,
+				status: payload.status,
+				notes: payload.notes ?? null,
+				created_by: user.id,
+			},
+		});
+
+		if (error) {
+			throw new Error(error.message);
+		}
+
+		const result = data as TransitionOrderRpcResult | null;
+		if (!result) {
+			throw new Error("No pudimos actualizar el estado de la orden");
+		}
+
+		if (!result.success) {
+			return { success: false, errors: mapTransitionRpcError(result) };
+		}
+
+		await recordAuditEvent(adminClient, {
+			actor: user,
+			action: "order.status",
+			entityType: "order",
+			entityId: payload.orderId,
+			before: existing ? { status: existing.status } : null,
+			after: { status: result.status, notes: payload.notes ?? null },
+		});
+
+		revalidatePath("/orders");
+		revalidatePath(`/orders/${payload.orderId}`);
+		revalidatePath("/inventory");
+		revalidatePath("/pos");
+		revalidatePath("/dashboard");
+
+		return {
+			success: true,
+			data: { orderId: result.order_id, status: result.status },
+			message: `Orden marcada como ${ORDER_STATUS_LABELS[
+				payload.status
+			].toLowerCase()}`,
+		};
+	} catch (error) {
+		if (error instanceof z.ZodError) {
+			return { success: false, errors: flattenErrors(error) };
+		}
+
+		if (error instanceof StaffAuthorizationError) {
+			return {
+				success: false,
+				errors: { form: [STAFF_AUTHORIZATION_MESSAGES[error.reason]] },
+			};
+		}
+
+		if (error instanceof MissingEnvironmentVariableError) {
+			return {
+				success: false,
+				errors: {
+					form: [
+						`Falta configurar la variable de entorno ${error.envVar}. Revisa la guía de instalación para obtener el valor correcto.`,
+					],
+				},
+			};
+		}
+
+		console.error("[updateOrderStatusAction]", error);
+
+		return {
+			success: false,
+			errors: {
+				form: [
+					"No pudimos actualizar el estado de la orden. Inténtalo nuevamente.",
+				],
+			},
+		};
+	}
+}
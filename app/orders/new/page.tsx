@@ -1,18 +1,10 @@
 import Link from "next/link";
-import { redirect } from "next/navigation";
 
 import DashboardShell from "@/components/dashboard-shell";
-import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { requireStaffPage } from "@/lib/staff";
 
 export default async function NewOrderPage() {
-	const supabase = await createSupabaseServerClient();
-	const {
-		data: { user },
-	} = await supabase.auth.getUser();
-
-	if (!user) {
-		redirect("/login");
-	}
+	const { user } = await requireStaffPage("manageOrders");
 
 	return (
 		<DashboardShell
@@ -1,9 +1,9 @@
 import Link from "next/link";
-import { redirect } from "next/navigation";
 
 import DashboardShell from "@/components/dashboard-shell";
+import { requireStaffPage } from "@/lib/staff";
+import { hasStaffPermission } from "@/lib/staff-roles";
 import { createSupabaseAdminClient } from "@/lib/supabase-admin";
-import { createSupabaseServerClient } from "@/lib/supabase-server";
 
 export const dynamic = "force-dynamic";
 export const fetchCache = "force-no-store";
@@ -52,14 +52,8 @@ export default async function OrdersPage({
 }: {
 	searchParams?: Promise<Record<string, string | string[] | undefined>>;
 }) {
-	const supabase = await createSupabaseServerClient();
-	const {
-		data: { user },
-	} = await supabase.auth.getUser();
-
-	if (!user) {
-		redirect("/login");
-	}
+	const { user, role } = await requireStaffPage("viewOrders");
+	const showCosts = hasStaffPermission(role, "viewCosts");
 
 	const admin = createSupabaseAdminClient();
 	const { data, error } = await admin
@@ -105,12 +99,16 @@ export default async function OrdersPage({
 				</div>
 			) : (
 				<div className='space-y-8'>
-					<OrderStatsGrid stats={stats} currency={currency} />
+					<OrderStatsGrid
+						stats={stats}
+						currency={currency}
+						showCosts={showCosts}
+					/>
 					<AttentionCard
 						count={attentionCount}
 						attentionOnly={attentionOnly}
 					/>
-					<OrdersTable orders={displayOrders} />
+					<OrdersTable orders={displayOrders} showCosts={showCosts} />
 				</div>
 			)}
 		</DashboardShell>
@@ -147,9 +145,11 @@ function calculateStats(orders: OrderRow[]): OrderStats {
 function OrderStatsGrid({
 	stats,
 	currency,
+	showCosts,
 }: {
 	stats: OrderStats;
 	currency: string;
+	showCosts: boolean;
 }) {
 	return (
 		<div className='grid gap-4 sm:grid-cols-2 xl:grid-cols-4'>
@@ -158,21 +158,25 @@ function OrderStatsGrid({
 				value={formatCurrency(stats.totalRevenue, currency)}
 				description='Suma de todas las órdenes registradas.'
 			/>
-			<StatCard
-				title='Ganancias totales'
-				value={formatCurrency(stats.totalProfit, currency)}
-				description='Ingresos netos descontando costos.'
-			/>
+			{showCosts ? (
+				<StatCard
+					title='Ganancias totales'
+					value={formatCurrency(stats.totalProfit, currency)}
+					description='Ingresos netos descontando costos.'
+				/>
+			) : null}
 			<StatCard
 				title='Ingresos de hoy'
 				value={formatCurrency(stats.todayRevenue, currency)}
 				description='Ventas registradas en la fecha actual.'
 			/>
-			<StatCard
-				title='Ganancias de hoy'
-				value={formatCurrency(stats.todayProfit, currency)}
-				description='Ingresos netos del día.'
-			/>
+			{showCosts ? (
+				<StatCard
+					title='Ganancias de hoy'
+					value={formatCurrency(stats.todayProfit, currency)}
+					description='Ingresos netos del día.'
+				/>
+			) : null}
 		</div>
 	);
 }
@@ -229,7 +233,13 @@ function AttentionCard({
 	);
 }
 
-function OrdersTable({ orders }: { orders: OrderRow[] }) {
+function OrdersTable({
+	orders,
+	showCosts,
+}: {
+	orders: OrderRow[];
+	showCosts: boolean;
+}) {
 	if (!orders.length) {
 		return (
 			<div className='rounded-lg border border-gray-200 bg-white p-12 text-center text-sm text-gray-500 shadow-sm'>
@@ -250,7 +260,9 @@ function OrdersTable({ orders }: { orders: OrderRow[] }) {
 						<th className='px-4 py-3 text-left'>Descuento</th>
 						<th className='px-4 py-3 text-left'>Impuesto</th>
 						<th className='px-4 py-3 text-left'>Total</th>
-						<th className='px-4 py-3 text-left'>Ganancia</th>
+						{showCosts ? (
+							<th className='px-4 py-3 text-left'>Ganancia</th>
+						) : null}
 						<th className='px-4 py-3 text-left'>Comprobante</th>
 						<th className='px-4 py-3 text-left'>Creada</th>
 						<th className='px-4 py-3 text-right'>Acciones</th>
@@ -294,15 +306,17 @@ function OrdersTable({ orders }: { orders: OrderRow[] }) {
 								<td className='px-4 py-4 text-gray-900'>
 									{formatCurrency(parseNumber(order.total_amount), currency)}
 								</td>
-								<td className='px-4 py-4 text-gray-900'>
-									{formatCurrency(
-										order.profit_amount !== null
-											? parseNumber(order.profit_amount)
-											: parseNumber(order.total_amount) -
-													parseNumber(order.total_cost),
-										currency,
-									)}
-								</td>
+								{showCosts ? (
+									<td className='px-4 py-4 text-gray-900'>
+										{formatCurrency(
+											order.profit_amount !== null
+												? parseNumber(order.profit_amount)
+												: parseNumber(order.total_amount) -
+														parseNumber(order.total_cost),
+											currency,
+										)}
+									</td>
+								) : null}
 								<td className='px-4 py-4 text-gray-700'>
 									{order.receipt_number ? (
 										<span className='inline-flex items-center rounded-md border border-gray-200 px-2 py-1 text-xs font-medium text-gray-600'>
@@ -381,6 +395,7 @@ function formatPayment(method: string | null | undefined) {
 		cash: "Efectivo",
 		card: "Tarjeta",
 		transfer: "Transferencia",
+		mixed: "Mixto",
 	};
 
 	return map[normalized] ?? normalized;
@@ -62,10 +62,16 @@ export default async function HomePage() {
 									{combo.description ??
 										"Una selección deliciosa para crear momentos memorables."}
 								</p>
+								{typeof combo.buildableQty === "number" &&
+								combo.buildableQty <= 5 ? (
+									<p className='mt-3 text-xs font-semibold text-amber-700'>
+										Quedan pocas unidades
+									</p>
+								) : null}
 								<Link
-									href='/contact'
+									href={`/products/combos/${combo.slug}`}
 									className='mt-6 inline-flex items-center rounded-full bg-blush-500 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-blush-400'>
-									Solicitar ahora
+									Ver combo
 								</Link>
 							</article>
 						))}
@@ -0,0 +1,144 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+export type ScanFeedback = {
+	tone: "success" | "error";
+	message: string;
+};
+
+type BarcodeScannerProps = {
+	feedback: ScanFeedback | null;
+	onScan: (code: string) => void;
+};
+
+// Keyboard-wedge scanners type the whole code in a burst and finish with
+// Enter; anything slower is someone typing.
+const MAX_KEY_INTERVAL_MS = 50;
+const MIN_CODE_LENGTH = 4;
+
+function isEditableTarget(target: EventTarget | null) {
+	if (!(target instanceof HTMLElement)) return false;
+	return (
+		target.isContentEditable ||
+		target instanceof HTMLInputElement ||
+		target instanceof HTMLTextAreaElement ||
+		target instanceof HTMLSelectElement
+	);
+}
+
+/** Short low beep for unknown or unavailable codes. */
+export function playScanErrorTone() {
+	if (typeof window === "undefined" || !("AudioContext" in window)) return;
+
+	try {
+		const context = new AudioContext();
+		const oscillator = context.createOscillator();
+		const gain = context.createGain();
+		oscillator.type = "square";
+		oscillator.frequency.value = 220;
+		gain.gain.value = 0.05;
+		oscillator.connect(gain);
+		gain.connect(context.destination);
+		oscillator.onended = () => {
+			void context.close();
+		};
+		oscillator.start();
+		oscillator.stop(context.currentTime + 0.25);
+	} catch (error) {
+		// Browsers may block audio; the message on screen is still shown.
+		console.warn("[pos] scan tone", error);
+	}
+}
+
+export function BarcodeScanner({ feedback, onScan }: BarcodeScannerProps) {
+	const [value, setValue] = useState("");
+	const inputRef = useRef<HTMLInputElement | null>(null);
+	const onScanRef = useRef(onScan);
+
+	useEffect(() => {
+		onScanRef.current = onScan;
+	}, [onScan]);
+
+	useEffect(() => {
+		inputRef.current?.focus();
+	}, []);
+
+	// Scans that arrive while focus is outside any field (e.g. after clicking
+	// a cart button) are still captured.
+	useEffect(() => {
+		let buffer = "";
+		let lastKeyAt = 0;
+
+		function handleKeyDown(event: KeyboardEvent) {
+			if (isEditableTarget(event.target)) return;
+			if (event.ctrlKey || event.metaKey || event.altKey) return;
+
+			if (event.timeStamp - lastKeyAt > MAX_KEY_INTERVAL_MS) {
+				buffer = "";
+			}
+			lastKeyAt = event.timeStamp;
+
+			if (event.key === "Enter") {
+				if (buffer.length >= MIN_CODE_LENGTH) {
+					event.preventDefault();
+					onScanRef.current(buffer);
+				}
+				buffer = "";
+				return;
+			}
+
+			if (event.key.length === 1) {
+				buffer += event.key;
+			}
+		}
+
+		window.addEventListener("keydown", handleKeyDown);
+		return () => window.removeEventListener("keydown", handleKeyDown);
+	}, []);
+
+	function handleInputKeyDown(event: React.KeyboardEvent<HTMLInputElement>) {
+		if (event.key !== "Enter") return;
+		event.preventDefault();
+		const code = value.trim();
+		if (!code) return;
+		onScan(code);
+		setValue("");
+	}
+
+	return (
+		<div className='space-y-2 rounded-lg border border-blush-200 bg-blush-50/60 p-4 shadow-sm'>
+			<label
+				htmlFor='posScanInput'
+				className='text-sm font-semibold text-gray-900'>
+				Escanear código
+			</label>
+			<input
+				ref={inputRef}
+				id='posScanInput'
+				type='text'
+				autoComplete='off'
+				value={value}
+				onChange={(event) => setValue(event.target.value)}
+				onKeyDown={handleInputKeyDown}
+				placeholder='Escanea o escribe un código de barras o SKU y presiona Enter'
+				className='w-full rounded-md border border-gray-300 px-3 py-2 font-mono text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300'
+			/>
+			{feedback ? (
+				<p
+					role={feedback.tone === "error" ? "alert" : "status"}
+					className={`rounded-md px-3 py-2 text-sm font-medium ${
+						feedback.tone === "error"
+							? "border border-red-200 bg-red-50 text-red-700"
+							: "border border-emerald-200 bg-emerald-50 text-emerald-700"
+					}`}>
+					{feedback.message}
+				</p>
+			) : (
+				<p className='text-xs text-gray-500'>
+					Cada lectura agrega una unidad al carrito.
+				</p>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,175 @@
+"use client";
+
+import { useRef, useState, useTransition } from "react";
+
+import type { CustomerSummary } from "@/lib/customers";
+
+import { searchCustomersAction } from "../actions";
+
+type CustomerLookupProps = {
+	selected: CustomerSummary | null;
+	currency: string;
+	disabled?: boolean;
+	onSelect: (customer: CustomerSummary) => void;
+	onClear: () => void;
+};
+
+const SEARCH_DELAY_MS = 300;
+
+function formatCurrency(value: number, currency: string) {
+	return new Intl.NumberFormat("es-NI", {
+		style: "currency",
+		currency,
+		minimumFractionDigits: 2,
+	}).format(value ?? 0);
+}
+
+function formatDate(raw: string | null) {
+	if (!raw) return "Sin compras";
+	try {
+		return new Intl.DateTimeFormat("es-NI", {
+			dateStyle: "medium",
+			timeZone: "UTC",
+		}).format(new Date(raw));
+	} catch {
+		return raw;
+	}
+}
+
+export function CustomerLookup({
+	selected,
+	currency,
+	disabled,
+	onSelect,
+	onClear,
+}: CustomerLookupProps) {
+	const [query, setQuery] = useState("");
+	const [results, setResults] = useState<CustomerSummary[]>([]);
+	const [searchedQuery, setSearchedQuery] = useState("");
+	const [searchError, setSearchError] = useState<string | null>(null);
+	const [isSearching, startSearch] = useTransition();
+	const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+	const latestQueryRef = useRef("");
+
+	const handleQueryChange = (value: string) => {
+		setQuery(value);
+		setSearchError(null);
+		latestQueryRef.current = value.trim();
+
+		if (timeoutRef.current) {
+			clearTimeout(timeoutRef.current);
+		}
+
+		if (value.trim().length < 2) {
+			setResults([]);
+			return;
+		}
+
+		timeoutRef.current = setTimeout(() => {
+			const term = value.trim();
+			startSearch(async () => {
+				const result = await searchCustomersAction({ query: term });
+				if (latestQueryRef.current !== term) return;
+
+				if (!result.success) {
+					setResults([]);
+					setSearchError(
+						Object.values(result.errors).flat()[0] ??
+							"No pudimos buscar clientes.",
+					);
+					return;
+				}
+
+				setResults(result.data);
+				setSearchedQuery(term);
+			});
+		}, SEARCH_DELAY_MS);
+	};
+
+	const handleSelect = (customer: CustomerSummary) => {
+		onSelect(customer);
+		setQuery("");
+		setResults([]);
+		latestQueryRef.current = "";
+	};
+
+	if (selected) {
+		return (
+			<div className='rounded-md border border-blush-200 bg-blush-50 px-3 py-3 text-sm'>
+				<div className='flex items-start justify-between gap-3'>
+					<div>
+						<p className='font-semibold text-gray-900'>
+							{selected.name ?? "Cliente sin nombre"}
+						</p>
+						<p className='text-xs text-gray-600'>
+							{[selected.phone, selected.email].filter(Boolean).join(" · ")}
+						</p>
+					</div>
+					<button
+						type='button'
+						onClick={onClear}
+						disabled={disabled}
+						className='rounded-md border border-blush-200 px-2 py-1 text-xs font-medium text-blush-600 transition hover:bg-white disabled:opacity-60'>
+						Cambiar
+					</button>
+				</div>
+				<p className='mt-2 text-xs text-gray-600'>
+					{selected.orderCount} compra(s) ·{" "}
+					{formatCurrency(selected.lifetimeSpend, currency)} · Última:{" "}
+					{formatDate(selected.lastPurchaseAt)}
+				</p>
+				{selected.favoriteCategories.length ? (
+					<p className='mt-1 text-xs text-blush-600'>
+						Prefiere: {selected.favoriteCategories.join(", ")}
+					</p>
+				) : null}
+			</div>
+		);
+	}
+
+	return (
+		<div className='relative'>
+			<input
+				type='search'
+				value={query}
+				onChange={(event) => handleQueryChange(event.target.value)}
+				disabled={disabled}
+				placeholder='Buscar cliente por nombre, teléfono o correo'
+				className='w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300'
+			/>
+			{isSearching ? (
+				<p className='mt-1 text-xs text-gray-500'>Buscando…</p>
+			) : null}
+			{searchError ? (
+				<p className='mt-1 text-xs text-red-600'>{searchError}</p>
+			) : null}
+			{results.length ? (
+				<ul className='absolute z-10 mt-1 max-h-64 w-full overflow-y-auto rounded-md border border-gray-200 bg-white shadow-lg'>
+					{results.map((customer) => (
+						<li key={customer.id}>
+							<button
+								type='button'
+								onClick={() => handleSelect(customer)}
+								className='flex w-full flex-col items-start px-3 py-2 text-left text-sm hover:bg-blush-50'>
+								<span className='font-medium text-gray-900'>
+									{customer.name ?? "Cliente sin nombre"}
+								</span>
+								<span className='text-xs text-gray-500'>
+									{[customer.phone, customer.email]
+										.filter(Boolean)
+										.join(" · ")}{" "}
+									· {customer.orderCount} compra(s)
+								</span>
+							</button>
+						</li>
+					))}
+				</ul>
+			) : searchedQuery && searchedQuery === query.trim() ? (
+				<p className='mt-1 text-xs text-gray-500'>
+					Sin coincidencias. Escribe el nombre y teléfono abajo para
+					registrarlo con la venta.
+				</p>
+			) : null}
+		</div>
+	);
+}
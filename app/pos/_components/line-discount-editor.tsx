@@ -0,0 +1,106 @@
+"use client";
+
+import { DISCOUNT_TYPE_LABELS, type DiscountType } from "@/lib/discounts";
+
+export type LineDiscountDraft = {
+	type: DiscountType;
+	value: string;
+	reason: string;
+};
+
+type LineDiscountEditorProps = {
+	id: string;
+	discount: LineDiscountDraft;
+	disabled?: boolean;
+	onChange: (discount: LineDiscountDraft | undefined) => void;
+};
+
+const DISCOUNT_TYPES = Object.keys(DISCOUNT_TYPE_LABELS) as DiscountType[];
+
+export const EMPTY_LINE_DISCOUNT: LineDiscountDraft = {
+	type: "percentage",
+	value: "",
+	reason: "",
+};
+
+export function LineDiscountEditor({
+	id,
+	discount,
+	disabled,
+	onChange,
+}: LineDiscountEditorProps) {
+	return (
+		<div className='flex flex-wrap items-end gap-2'>
+			<div className='space-y-1'>
+				<label
+					htmlFor={`${id}-discount-type`}
+					className='text-xs font-medium text-gray-600'>
+					Descuento
+				</label>
+				<select
+					id={`${id}-discount-type`}
+					value={discount.type}
+					disabled={disabled}
+					onChange={(event) =>
+						onChange({
+							...discount,
+							type: event.target.value as DiscountType,
+						})
+					}
+					className='block rounded-md border border-gray-300 px-2 py-1 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300'>
+					{DISCOUNT_TYPES.map((type) => (
+						<option key={type} value={type}>
+							{DISCOUNT_TYPE_LABELS[type]}
+						</option>
+					))}
+				</select>
+			</div>
+			<div className='space-y-1'>
+				<label
+					htmlFor={`${id}-discount-value`}
+					className='text-xs font-medium text-gray-600'>
+					{discount.type === "percentage" ? "Porcentaje" : "Monto"}
+				</label>
+				<input
+					id={`${id}-discount-value`}
+					type='number'
+					min={0}
+					max={discount.type === "percentage" ? 100 : undefined}
+					step='0.01'
+					value={discount.value}
+					disabled={disabled}
+					onChange={(event) =>
+						onChange({ ...discount, value: event.target.value })
+					}
+					className='block w-24 rounded-md border border-gray-300 px-2 py-1 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300'
+				/>
+			</div>
+			<div className='min-w-[10rem] flex-1 space-y-1'>
+				<label
+					htmlFor={`${id}-discount-reason`}
+					className='text-xs font-medium text-gray-600'>
+					Motivo
+				</label>
+				<input
+					id={`${id}-discount-reason`}
+					type='text'
+					value={discount.reason}
+					disabled={disabled}
+					maxLength={200}
+					placeholder='Ej. producto con detalle'
+					onChange={(event) =>
+						onChange({ ...discount, reason: event.target.value })
+					}
+					className='block w-full rounded-md border border-gray-300 px-2 py-1 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300'
+				/>
+			</div>
+			<button
+				type='button'
+				disabled={disabled}
+				onClick={() => onChange(undefined)}
+				className='pb-1 text-xs font-medium text-gray-500 hover:underline'>
+				Quitar descuento
+			</button>
+		</div>
+	);
+}
@@ -1,20 +1,71 @@
 "use client";
 
-import { useCallback, useMemo, useRef, useState, useTransition } from "react";
+import {
+	Fragment,
+	useCallback,
+	useMemo,
+	useRef,
+	useState,
+	useTransition,
+} from "react";
 
 import type { ActionErrorRecord } from "@/lib/actions";
+import type { CustomerSummary } from "@/lib/customers";
+import {
+	PROMO_CODE_ERROR_MESSAGES,
+	computeLineDiscount,
+	evaluatePromoCode,
+} from "@/lib/discounts";
+import {
+	capOrderDiscount,
+	computeSaleTotal,
+	findTenderIssue,
+	formatPaymentMethod,
+	resolveOrderPaymentMethod,
+	tenderChange,
+	type OrderPaymentMethod,
+	type Tender,
+} from "@/lib/payments";
+import {
+	buildBarcodeIndex,
+	findByBarcode,
+	normalizeBarcode,
+} from "@/lib/product-barcodes";
 
 import { createSaleAction } from "../actions";
 
-type PaymentMethod = "cash" | "card" | "transfer";
+import {
+	BarcodeScanner,
+	playScanErrorTone,
+	type ScanFeedback,
+} from "./barcode-scanner";
+import { CustomerLookup } from "./customer-lookup";
+import {
+	EMPTY_LINE_DISCOUNT,
+	LineDiscountEditor,
+	type LineDiscountDraft,
+} from "./line-discount-editor";
+import {
+	EMPTY_ORDER_DISCOUNT,
+	PromoCodePanel,
+	type OrderDiscountDraft,
+} from "./promo-code-panel";
+import {
+	TenderPanel,
+	createTenderDraft,
+	toTenders,
+	type TenderDraft,
+} from "./tender-panel";
 
 type PosProduct = {
 	id: string;
 	name: string;
 	sku: string | null;
+	barcodes: string[];
 	price: number;
 	cost: number;
 	quantity: number | null;
+	reservedQuantity: number;
 	currency: string;
 	imageUrl: string | null;
 };
@@ -27,6 +78,8 @@ type PosCombo = {
 	packagingCost: number;
 	imageUrl: string | null;
 	items: Array<{ productId: string; productName: string; qty: number }>;
+	/** Units the component stock can assemble. */
+	buildableQty: number;
 };
 
 type RecentSale = {
@@ -53,12 +106,14 @@ type CartLine = {
 	unitPrice: number;
 	qty: number;
 	maxQty?: number;
+	discount?: LineDiscountDraft;
 };
 
 type ReceiptLine = {
 	name: string;
 	qty: number;
 	unitPrice: number;
+	discount: number;
 	type: "product" | "combo";
 };
 
@@ -66,12 +121,15 @@ type ReceiptData = {
 	orderId: string;
 	receiptNumber: string;
 	createdAt: string;
-	paymentMethod: PaymentMethod;
+	paymentMethod: OrderPaymentMethod;
+	payments: Tender[];
 	customerName?: string;
 	customerPhone?: string;
 	notes?: string;
 	subtotal: number;
+	/** Line, promo and order discounts together. */
 	discount: number;
+	promoCode?: string;
 	tax: number;
 	total: number;
 	profit: number;
@@ -80,10 +138,13 @@ type ReceiptData = {
 };
 
 type PosTerminalProps = {
+	/** Sales are only accepted while a register session is open. */
+	registerOpen: boolean;
 	products: PosProduct[];
 	combos: PosCombo[];
 	currency: string;
 	earnings: EarningsSnapshot;
+	showCosts: boolean;
 };
 
 type ProductSortOption = "nameAZ" | "priceLowHigh" | "priceHighLow";
@@ -108,18 +169,27 @@ function roundCurrency(value: number) {
 	return Number(Number(value ?? 0).toFixed(2));
 }
 
-function buildCartKey(type: "product" | "combo", id: string) {
-	return `${type}-${id}`;
+function lineDiscountAmount(line: CartLine) {
+	if (!line.discount) return 0;
+	return computeLineDiscount({
+		qty: line.qty,
+		unitPrice: line.unitPrice,
+		discountType: line.discount.type,
+		discountValue: parseAmount(line.discount.value),
+	});
 }
 
-function formatPaymentMethod(method: PaymentMethod) {
-	const labels: Record<PaymentMethod, string> = {
-		cash: "Efectivo",
-		card: "Tarjeta",
-		transfer: "Transferencia",
+function toLineDiscountFields(line: CartLine) {
+	if (!line.discount) return {};
+	return {
+		discountType: line.discount.type,
+		discountValue: roundCurrency(parseAmount(line.discount.value)),
+		discountReason: line.discount.reason.trim(),
 	};
+}
 
-	return labels[method] ?? method;
+function buildCartKey(type: "product" | "combo", id: string) {
+	return `${type}-${id}`;
 }
 
 function formatReceiptDate(isoDate: string) {
@@ -130,22 +200,31 @@ function formatReceiptDate(isoDate: string) {
 }
 
 export function PosTerminal({
+	registerOpen,
 	products,
 	combos,
 	currency,
 	earnings,
+	showCosts,
 }: PosTerminalProps) {
 	const [cart, setCart] = useState<CartLine[]>([]);
 	const [customerName, setCustomerName] = useState("");
 	const [customerPhone, setCustomerPhone] = useState("");
+	const [selectedCustomer, setSelectedCustomer] =
+		useState<CustomerSummary | null>(null);
 	const [notes, setNotes] = useState("");
-	const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("cash");
+	const [tenderDrafts, setTenderDrafts] = useState<TenderDraft[]>([
+		createTenderDraft(0),
+	]);
 	const [receiptNumber, setReceiptNumber] = useState("");
-	const [discountInput, setDiscountInput] = useState("0");
+	const [orderDiscount, setOrderDiscount] =
+		useState<OrderDiscountDraft>(EMPTY_ORDER_DISCOUNT);
 	const [taxInput, setTaxInput] = useState("0");
 	const [search, setSearch] = useState("");
 	const [showOnlyAvailable, setShowOnlyAvailable] = useState(false);
 	const [productSort, setProductSort] = useState<ProductSortOption>("nameAZ");
+	const [scanMode, setScanMode] = useState(false);
+	const [scanFeedback, setScanFeedback] = useState<ScanFeedback | null>(null);
 	const [formErrors, setFormErrors] = useState<ActionErrorRecord | null>(null);
 	const [successMessage, setSuccessMessage] = useState<string | null>(null);
 	const [isPending, startTransition] = useTransition();
@@ -172,7 +251,10 @@ export function PosTerminal({
 			const matchBySku = product.sku
 				? product.sku.toLowerCase().includes(normalizedSearch)
 				: false;
-			const matchesSearch = matchByName || matchBySku;
+			const matchByBarcode = product.barcodes.some((code) =>
+				code.toLowerCase().includes(normalizedSearch),
+			);
+			const matchesSearch = matchByName || matchBySku || matchByBarcode;
 			if (!matchesSearch) return false;
 
 			const hasInventory = !showOnlyAvailable
@@ -218,9 +300,38 @@ export function PosTerminal({
 		[cart],
 	);
 
+	const lineDiscountTotal = useMemo(
+		() =>
+			roundCurrency(
+				cart.reduce((acc, line) => acc + lineDiscountAmount(line), 0),
+			),
+		[cart],
+	);
+
+	const { appliedPromo, discountInput, discountReason } = orderDiscount;
+
+	// The promo code applies to what is left after line discounts, and is
+	// checked again as the cart changes.
+	const promoEvaluation = useMemo(
+		() =>
+			appliedPromo
+				? evaluatePromoCode(appliedPromo, subtotal - lineDiscountTotal)
+				: null,
+		[appliedPromo, lineDiscountTotal, subtotal],
+	);
+
+	const promoDiscount =
+		promoEvaluation && promoEvaluation.success ? promoEvaluation.discount : 0;
+
+	// Like the database, the order discount only takes what line and promo
+	// discounts left of the subtotal.
 	const discountAmount = useMemo(
-		() => Math.max(0, roundCurrency(parseAmount(discountInput))),
-		[discountInput],
+		() =>
+			capOrderDiscount(
+				parseAmount(discountInput),
+				subtotal - lineDiscountTotal - promoDiscount,
+			),
+		[discountInput, lineDiscountTotal, promoDiscount, subtotal],
 	);
 
 	const taxAmount = useMemo(
@@ -228,12 +339,79 @@ export function PosTerminal({
 		[taxInput],
 	);
 
-	const total = useMemo(() => {
-		const raw = subtotal - discountAmount + taxAmount;
-		return raw < 0 ? 0 : roundCurrency(raw);
-	}, [discountAmount, subtotal, taxAmount]);
+	const total = useMemo(
+		() =>
+			computeSaleTotal({
+				lines: cart.map((line) => ({
+					qty: line.qty,
+					unitPrice: line.unitPrice,
+					discountAmount: lineDiscountAmount(line),
+				})),
+				promoDiscountAmount: promoDiscount,
+				discountAmount,
+				taxAmount,
+			}),
+		[cart, discountAmount, promoDiscount, taxAmount],
+	);
 
-	const canSubmit = cart.length > 0 && !isPending;
+	const discountIssue = useMemo(() => {
+		for (const line of cart) {
+			if (!line.discount) continue;
+			const value = parseAmount(line.discount.value);
+			if (value <= 0) return `Ingresa el valor del descuento de ${line.name}.`;
+			if (line.discount.type === "percentage" && value > 100) {
+				return `El descuento de ${line.name} no puede superar el 100 %.`;
+			}
+			if (!line.discount.reason.trim()) {
+				return `Indica el motivo del descuento de ${line.name}.`;
+			}
+		}
+		if (discountAmount > 0 && !discountReason.trim()) {
+			return "Indica el motivo del descuento general.";
+		}
+		if (promoEvaluation && !promoEvaluation.success) {
+			return PROMO_CODE_ERROR_MESSAGES[promoEvaluation.error];
+		}
+		return null;
+	}, [cart, discountAmount, discountReason, promoEvaluation]);
+
+	const tenders = useMemo(
+		() => toTenders(tenderDrafts, total),
+		[tenderDrafts, total],
+	);
+
+	const paymentIssue = useMemo(
+		() =>
+			findTenderIssue(tenders, total, (value) =>
+				formatCurrency(value, currency),
+			),
+		[currency, tenders, total],
+	);
+
+	const canSubmit =
+		registerOpen &&
+		cart.length > 0 &&
+		!isPending &&
+		!paymentIssue &&
+		!discountIssue;
+
+	const updateLineDiscount = useCallback(
+		(key: string, discount: LineDiscountDraft | undefined) => {
+			setCart((current) =>
+				current.map((line) =>
+					line.key === key ? { ...line, discount } : line,
+				),
+			);
+		},
+		[],
+	);
+
+	const updateOrderDiscount = useCallback(
+		(changes: Partial<OrderDiscountDraft>) => {
+			setOrderDiscount((current) => ({ ...current, ...changes }));
+		},
+		[],
+	);
 
 	const addProductToCart = useCallback(
 		(product: PosProduct) => {
@@ -290,6 +468,15 @@ export function PosTerminal({
 	);
 
 	const addComboToCart = useCallback((combo: PosCombo) => {
+		if (combo.buildableQty <= 0) {
+			setFormErrors({
+				form: [
+					`No hay existencias suficientes para armar ${combo.name}. Revisa el inventario de sus productos.`,
+				],
+			});
+			return;
+		}
+
 		setFormErrors(null);
 		setSuccessMessage(null);
 
@@ -297,8 +484,18 @@ export function PosTerminal({
 			const key = buildCartKey("combo", combo.id);
 			const existing = current.find((line) => line.key === key);
 			if (existing) {
+				const nextQty = existing.qty + 1;
+				if (nextQty > combo.buildableQty) {
+					setFormErrors({
+						form: [
+							`Inventario insuficiente para armar ${combo.name}. Disponible: ${combo.buildableQty}.`,
+						],
+					});
+					return current;
+				}
+
 				return current.map((line) =>
-					line.key === key ? { ...line, qty: line.qty + 1 } : line,
+					line.key === key ? { ...line, qty: nextQty } : line,
 				);
 			}
 
@@ -311,11 +508,50 @@ export function PosTerminal({
 					name: combo.name,
 					unitPrice: combo.price,
 					qty: 1,
+					maxQty: combo.buildableQty,
 				},
 			];
 		});
 	}, []);
 
+	const barcodeIndex = useMemo(() => buildBarcodeIndex(products), [products]);
+
+	const handleScan = useCallback(
+		(code: string) => {
+			const product = findByBarcode(barcodeIndex, code);
+			if (!product) {
+				setScanFeedback({
+					tone: "error",
+					message: `El código ${normalizeBarcode(code)} no corresponde a ningún producto activo.`,
+				});
+				playScanErrorTone();
+				return;
+			}
+
+			const inCart =
+				cart.find((line) => line.key === buildCartKey("product", product.id))
+					?.qty ?? 0;
+			if (product.quantity !== null && inCart >= product.quantity) {
+				setScanFeedback({
+					tone: "error",
+					message:
+						product.quantity <= 0
+							? `${product.name} no tiene existencias.`
+							: `No quedan más existencias de ${product.name}. Disponible: ${product.quantity}.`,
+				});
+				playScanErrorTone();
+				return;
+			}
+
+			addProductToCart(product);
+			setScanFeedback({
+				tone: "success",
+				message: `${product.name} agregado (${inCart + 1} en el carrito).`,
+			});
+		},
+		[addProductToCart, barcodeIndex, cart],
+	);
+
 	const updateQty = useCallback((key: string, qty: number) => {
 		setCart((current) =>
 			current
@@ -337,10 +573,11 @@ export function PosTerminal({
 		setCart([]);
 		setCustomerName("");
 		setCustomerPhone("");
+		setSelectedCustomer(null);
 		setNotes("");
-		setPaymentMethod("cash");
+		setTenderDrafts([createTenderDraft(0)]);
 		setReceiptNumber("");
-		setDiscountInput("0");
+		setOrderDiscount(EMPTY_ORDER_DISCOUNT);
 		setTaxInput("0");
 	}, []);
 
@@ -354,6 +591,16 @@ export function PosTerminal({
 				return;
 			}
 
+			if (discountIssue) {
+				setFormErrors({ discounts: [discountIssue] });
+				return;
+			}
+
+			if (paymentIssue) {
+				setFormErrors({ payments: [paymentIssue] });
+				return;
+			}
+
 			setFormErrors(null);
 			setSuccessMessage(null);
 
@@ -362,21 +609,39 @@ export function PosTerminal({
 				name: line.name,
 				qty: line.qty,
 				unitPrice: line.unitPrice,
+				discount: lineDiscountAmount(line),
 				type: line.type,
 			}));
 
 			startTransition(async () => {
 				const formData = new FormData();
+				if (selectedCustomer) {
+					formData.append("customerId", selectedCustomer.id);
+					if (selectedCustomer.email)
+						formData.append("customerEmail", selectedCustomer.email);
+				}
 				if (customerName.trim())
 					formData.append("customerName", customerName.trim());
 				if (customerPhone.trim())
 					formData.append("customerPhone", customerPhone.trim());
 				if (notes.trim()) formData.append("notes", notes.trim());
-				formData.append("paymentMethod", paymentMethod);
+				const salePayments = total > 0 ? tenders : [];
+				const paymentMethod = resolveOrderPaymentMethod(salePayments);
+				formData.append(
+					"paymentMethod",
+					salePayments.length === 1 ? salePayments[0].method : "cash",
+				);
+				formData.append("payments", JSON.stringify(salePayments));
 				if (receiptNumber.trim())
 					formData.append("receiptNumber", receiptNumber.trim());
 				formData.append("currency", currency);
 				formData.append("discountAmount", discountAmount.toString());
+				if (discountAmount > 0)
+					formData.append("discountReason", discountReason.trim());
+				if (appliedPromo) {
+					formData.append("promoCode", appliedPromo.code);
+					formData.append("promoDiscountAmount", promoDiscount.toString());
+				}
 				formData.append("taxAmount", taxAmount.toString());
 				formData.append(
 					"productItems",
@@ -387,6 +652,7 @@ export function PosTerminal({
 								productId: line.entityId,
 								qty: line.qty,
 								unitPrice: line.unitPrice,
+								...toLineDiscountFields(line),
 							})),
 					),
 				);
@@ -399,6 +665,7 @@ export function PosTerminal({
 								comboId: line.entityId,
 								qty: line.qty,
 								unitPrice: line.unitPrice,
+								...toLineDiscountFields(line),
 							})),
 					),
 				);
@@ -420,11 +687,15 @@ export function PosTerminal({
 						`POS-${result.data.orderId.slice(0, 8).toUpperCase()}`,
 					createdAt: new Date().toISOString(),
 					paymentMethod,
+					payments: salePayments,
 					customerName: customerName.trim() || undefined,
 					customerPhone: customerPhone.trim() || undefined,
 					notes: notes.trim() || undefined,
 					subtotal,
-					discount: discountAmount,
+					discount: roundCurrency(
+						lineDiscountTotal + promoDiscount + discountAmount,
+					),
+					promoCode: appliedPromo?.code,
 					tax: taxAmount,
 					total,
 					profit: result.data.profitAmount,
@@ -460,13 +731,20 @@ export function PosTerminal({
 		[
 			cart,
 			currency,
+			appliedPromo,
 			discountAmount,
-			paymentMethod,
+			discountIssue,
+			discountReason,
+			lineDiscountTotal,
+			paymentIssue,
+			promoDiscount,
 			taxAmount,
+			tenders,
 			total,
 			subtotal,
 			customerName,
 			customerPhone,
+			selectedCustomer,
 			notes,
 			receiptNumber,
 			resetForm,
@@ -669,7 +947,7 @@ ${receiptMarkup}
 										type='search'
 										value={search}
 										onChange={(event) => setSearch(event.target.value)}
-										placeholder='Buscar por nombre o SKU…'
+										placeholder='Buscar por nombre, SKU o código…'
 										className='w-full rounded-md border border-gray-300 px-3 py-2 pr-10 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300'
 										aria-label='Buscar productos por nombre o SKU'
 									/>
@@ -683,6 +961,20 @@ ${receiptMarkup}
 									) : null}
 								</div>
 								<div className='flex flex-col gap-2 sm:flex-row sm:items-center'>
+									<button
+										type='button'
+										onClick={() => {
+											setScanMode((value) => !value);
+											setScanFeedback(null);
+										}}
+										aria-pressed={scanMode}
+										className={`inline-flex items-center justify-center rounded-md border px-3 py-2 text-sm font-medium transition focus:outline-none focus:ring-2 focus:ring-blush-300 focus:ring-offset-1 ${
+											scanMode
+												? "border-blush-500 bg-blush-50 text-blush-600"
+												: "border-gray-300 bg-white text-gray-700 hover:bg-gray-100"
+										}`}>
+										{scanMode ? "Escáner activo" : "Modo escáner"}
+									</button>
 									<button
 										type='button'
 										onClick={() => setShowOnlyAvailable((value) => !value)}
@@ -710,6 +1002,10 @@ ${receiptMarkup}
 						</div>
 					</header>
 
+					{scanMode ? (
+						<BarcodeScanner feedback={scanFeedback} onScan={handleScan} />
+					) : null}
+
 					<div className='flex flex-wrap items-center justify-between gap-2 text-xs text-gray-500'>
 						{hasSearchTerm ? (
 							<p className='font-medium text-gray-600'>
@@ -779,15 +1075,24 @@ ${receiptMarkup}
 													Precio:{" "}
 													{formatCurrency(product.price, product.currency)}
 												</p>
-												<p>
-													Ganancia esperada:{" "}
-													{formatCurrency(profit, product.currency)}
-												</p>
+												{showCosts ? (
+													<p>
+														Ganancia esperada:{" "}
+														{formatCurrency(profit, product.currency)}
+													</p>
+												) : null}
 												{product.sku ? (
 													<p className='text-xs uppercase tracking-wide text-gray-400'>
 														SKU: {product.sku}
 													</p>
 												) : null}
+												{product.reservedQuantity > 0 ? (
+													<p className='text-xs text-amber-600'>
+														{product.reservedQuantity} reservada
+														{product.reservedQuantity === 1 ? "" : "s"} para
+														pedidos web
+													</p>
+												) : null}
 											</div>
 										</div>
 										<button
@@ -854,11 +1159,22 @@ ${receiptMarkup}
 													</li>
 												))}
 											</ul>
+											<p
+												className={`text-xs font-medium ${
+													combo.buildableQty > 0
+														? "text-gray-600"
+														: "text-red-600"
+												}`}>
+												{combo.buildableQty > 0
+													? `Se pueden armar: ${combo.buildableQty}`
+													: "Sin existencias para armarlo"}
+											</p>
 										</div>
 										<button
 											type='button'
 											onClick={() => addComboToCart(combo)}
-											className='mt-3 inline-flex items-center justify-center rounded-md border border-blush-400 bg-white px-3 py-2 text-sm font-semibold text-blush-600 transition hover:bg-blush-100'>
+											disabled={combo.buildableQty === 0}
+											className='mt-3 inline-flex items-center justify-center rounded-md border border-blush-400 bg-white px-3 py-2 text-sm font-semibold text-blush-600 transition hover:bg-blush-100 disabled:cursor-not-allowed disabled:border-gray-200 disabled:bg-gray-100 disabled:text-gray-500'>
 											Agregar combo
 										</button>
 									</article>
@@ -908,6 +1224,11 @@ ${receiptMarkup}
 								</div>
 							) : null}
 
+							{!registerOpen ? (
+								<p className='rounded-md bg-amber-50 px-3 py-2 text-sm text-amber-700'>
+									Abre la caja para poder registrar ventas.
+								</p>
+							) : null}
 							{formErrors?.form ? (
 								<div className='rounded-md border border-red-200 bg-red-50 px-4 py-2 text-sm text-red-600'>
 									{formErrors.form.join(" ")}
@@ -931,47 +1252,88 @@ ${receiptMarkup}
 													</thead>
 													<tbody className='divide-y divide-gray-200'>
 														{cart.map((line) => (
-															<tr key={line.key}>
-																<td className='px-3 py-2 font-medium text-gray-900'>
-																	{line.name}
-																</td>
-																<td className='px-3 py-2 text-gray-600'>
-																	{formatCurrency(line.unitPrice, currency)}
-																</td>
-																<td className='px-3 py-2'>
-																	<input
-																		type='number'
-																		min={1}
-																		value={line.qty}
-																		onChange={(event) =>
-																			updateQty(
-																				line.key,
-																				Number(event.target.value),
-																			)
-																		}
-																		className='w-20 rounded-md border border-gray-300 px-2 py-1 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300'
-																	/>
-																	{line.maxQty !== undefined ? (
-																		<p className='mt-1 text-xs text-gray-400'>
-																			Máx: {line.maxQty}
-																		</p>
-																	) : null}
-																</td>
-																<td className='px-3 py-2 text-right text-gray-600'>
-																	{formatCurrency(
-																		line.unitPrice * line.qty,
-																		currency,
-																	)}
-																</td>
-																<td className='px-3 py-2 text-right'>
-																	<button
-																		type='button'
-																		onClick={() => removeLine(line.key)}
-																		className='text-xs font-medium text-red-500 hover:underline'>
-																		Eliminar
-																	</button>
-																</td>
-															</tr>
+															<Fragment key={line.key}>
+																<tr>
+																	<td className='px-3 py-2 font-medium text-gray-900'>
+																		{line.name}
+																	</td>
+																	<td className='px-3 py-2 text-gray-600'>
+																		{formatCurrency(line.unitPrice, currency)}
+																	</td>
+																	<td className='px-3 py-2'>
+																		<input
+																			type='number'
+																			min={1}
+																			value={line.qty}
+																			onChange={(event) =>
+																				updateQty(
+																					line.key,
+																					Number(event.target.value),
+																				)
+																			}
+																			className='w-20 rounded-md border border-gray-300 px-2 py-1 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300'
+																		/>
+																		{line.maxQty !== undefined ? (
+																			<p className='mt-1 text-xs text-gray-400'>
+																				Máx: {line.maxQty}
+																			</p>
+																		) : null}
+																	</td>
+																	<td className='px-3 py-2 text-right text-gray-600'>
+																		{formatCurrency(
+																			line.unitPrice * line.qty -
+																				lineDiscountAmount(line),
+																			currency,
+																		)}
+																		{line.discount ? (
+																			<p className='text-xs text-emerald-600'>
+																				−
+																				{formatCurrency(
+																					lineDiscountAmount(line),
+																					currency,
+																				)}
+																			</p>
+																		) : null}
+																	</td>
+																	<td className='px-3 py-2 text-right'>
+																		<div className='flex flex-col items-end gap-1'>
+																			{line.discount ? null : (
+																				<button
+																					type='button'
+																					onClick={() =>
+																						updateLineDiscount(
+																							line.key,
+																							EMPTY_LINE_DISCOUNT,
+																						)
+																					}
+																					className='text-xs font-medium text-blush-600 hover:underline'>
+																					Descuento
+																				</button>
+																			)}
+																			<button
+																				type='button'
+																				onClick={() => removeLine(line.key)}
+																				className='text-xs font-medium text-red-500 hover:underline'>
+																				Eliminar
+																			</button>
+																		</div>
+																	</td>
+																</tr>
+																{line.discount ? (
+																	<tr className='bg-gray-50'>
+																		<td colSpan={5} className='px-3 py-2'>
+																			<LineDiscountEditor
+																				id={line.key}
+																				discount={line.discount}
+																				disabled={isPending}
+																				onChange={(discount) =>
+																					updateLineDiscount(line.key, discount)
+																				}
+																			/>
+																		</td>
+																	</tr>
+																) : null}
+															</Fragment>
 														))}
 													</tbody>
 												</table>
@@ -1022,7 +1384,8 @@ ${receiptMarkup}
 														</div>
 														<p className='text-sm font-semibold text-gray-900'>
 															{formatCurrency(
-																line.unitPrice * line.qty,
+																line.unitPrice * line.qty -
+																	lineDiscountAmount(line),
 																currency,
 															)}
 														</p>
@@ -1032,6 +1395,27 @@ ${receiptMarkup}
 															Máx: {line.maxQty}
 														</p>
 													) : null}
+													<div className='mt-2'>
+														{line.discount ? (
+															<LineDiscountEditor
+																id={`${line.key}-mobile`}
+																discount={line.discount}
+																disabled={isPending}
+																onChange={(discount) =>
+																	updateLineDiscount(line.key, discount)
+																}
+															/>
+														) : (
+															<button
+																type='button'
+																onClick={() =>
+																	updateLineDiscount(line.key, EMPTY_LINE_DISCOUNT)
+																}
+																className='text-xs font-semibold text-blush-600 hover:underline'>
+																Agregar descuento
+															</button>
+														)}
+													</div>
 												</div>
 											))}
 										</div>
@@ -1044,6 +1428,23 @@ ${receiptMarkup}
 								)}
 							</div>
 
+							<div className='space-y-2'>
+								<label className='text-sm font-medium text-gray-700'>
+									Cliente frecuente
+								</label>
+								<CustomerLookup
+									selected={selectedCustomer}
+									currency={currency}
+									disabled={isPending}
+									onSelect={(customer) => {
+										setSelectedCustomer(customer);
+										setCustomerName(customer.name ?? "");
+										setCustomerPhone(customer.phone ?? "");
+									}}
+									onClear={() => setSelectedCustomer(null)}
+								/>
+							</div>
+
 							<div className='grid gap-3 md:grid-cols-2'>
 								<div className='space-y-2'>
 									<label className='text-sm font-medium text-gray-700'>
@@ -1064,7 +1465,10 @@ ${receiptMarkup}
 									<input
 										type='tel'
 										value={customerPhone}
-										onChange={(event) => setCustomerPhone(event.target.value)}
+										onChange={(event) => {
+											setCustomerPhone(event.target.value);
+											setSelectedCustomer(null);
+										}}
 										placeholder='Opcional'
 										className='w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300'
 									/>
@@ -1084,66 +1488,46 @@ ${receiptMarkup}
 								/>
 							</div>
 
-							<div className='grid gap-3 md:grid-cols-2'>
-								<div className='space-y-2'>
-									<label className='text-sm font-medium text-gray-700'>
-										Método de pago
-									</label>
-									<select
-										value={paymentMethod}
-										onChange={(event) =>
-											setPaymentMethod(event.target.value as PaymentMethod)
-										}
-										className='w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300'>
-										<option value='cash'>Efectivo</option>
-										<option value='card'>Tarjeta</option>
-										<option value='transfer'>Transferencia</option>
-									</select>
-								</div>
-								<div className='space-y-2'>
-									<label className='text-sm font-medium text-gray-700'>
-										No. comprobante
-									</label>
-									<input
-										type='text'
-										value={receiptNumber}
-										onChange={(event) => setReceiptNumber(event.target.value)}
-										placeholder='Requerido si la venta es por transferencia'
-										className='w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300'
-									/>
-									{paymentMethod === "transfer" && !receiptNumber.trim() ? (
-										<p className='text-xs text-red-500'>
-											Este campo es obligatorio para transferencias.
-										</p>
-									) : null}
-								</div>
+							<div className='space-y-2'>
+								<label className='text-sm font-medium text-gray-700'>
+									No. comprobante
+								</label>
+								<input
+									type='text'
+									value={receiptNumber}
+									onChange={(event) => setReceiptNumber(event.target.value)}
+									placeholder='Se genera automáticamente si lo dejas vacío'
+									className='w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300'
+								/>
 							</div>
 
-							<div className='grid gap-3 md:grid-cols-2'>
-								<div className='space-y-2'>
-									<label className='text-sm font-medium text-gray-700'>
-										Descuento
-									</label>
-									<input
-										type='text'
-										value={discountInput}
-										onChange={(event) => setDiscountInput(event.target.value)}
-										placeholder='0.00'
-										className='w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300'
-									/>
-								</div>
-								<div className='space-y-2'>
-									<label className='text-sm font-medium text-gray-700'>
-										Impuesto
-									</label>
-									<input
-										type='text'
-										value={taxInput}
-										onChange={(event) => setTaxInput(event.target.value)}
-										placeholder='0.00'
-										className='w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300'
-									/>
-								</div>
+							<PromoCodePanel
+								draft={orderDiscount}
+								currency={currency}
+								discountableSubtotal={roundCurrency(
+									subtotal - lineDiscountTotal,
+								)}
+								discountAmount={discountAmount}
+								cartEmpty={!cart.length}
+								disabled={isPending}
+								errors={formErrors}
+								onChange={updateOrderDiscount}
+							/>
+
+							<div className='space-y-2'>
+								<label
+									htmlFor='pos-tax'
+									className='text-sm font-medium text-gray-700'>
+									Impuesto
+								</label>
+								<input
+									id='pos-tax'
+									type='text'
+									value={taxInput}
+									onChange={(event) => setTaxInput(event.target.value)}
+									placeholder='0.00'
+									className='w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300'
+								/>
 							</div>
 
 							<div className='space-y-1 rounded-lg bg-gray-50 p-4 text-sm'>
@@ -1151,6 +1535,18 @@ ${receiptMarkup}
 									<span>Subtotal</span>
 									<span>{formatCurrency(subtotal, currency)}</span>
 								</div>
+								{lineDiscountTotal > 0 ? (
+									<div className='flex items-center justify-between text-gray-600'>
+										<span>Descuentos por línea</span>
+										<span>-{formatCurrency(lineDiscountTotal, currency)}</span>
+									</div>
+								) : null}
+								{appliedPromo ? (
+									<div className='flex items-center justify-between text-gray-600'>
+										<span>Promoción {appliedPromo.code}</span>
+										<span>-{formatCurrency(promoDiscount, currency)}</span>
+									</div>
+								) : null}
 								<div className='flex items-center justify-between text-gray-600'>
 									<span>Descuento</span>
 									<span>-{formatCurrency(discountAmount, currency)}</span>
@@ -1164,6 +1560,21 @@ ${receiptMarkup}
 									<span>{formatCurrency(total, currency)}</span>
 								</div>
 							</div>
+							{discountIssue || formErrors?.discounts?.length ? (
+								<p className='text-xs text-red-500'>
+									{discountIssue ?? formErrors?.discounts?.join(" ")}
+								</p>
+							) : null}
+
+							<TenderPanel
+								drafts={tenderDrafts}
+								tenders={tenders}
+								total={total}
+								currency={currency}
+								issue={cart.length > 0 ? paymentIssue : null}
+								errors={formErrors}
+								onDraftsChange={setTenderDrafts}
+							/>
 
 							<div className='flex items-center justify-end gap-2'>
 								<button
@@ -1202,14 +1613,16 @@ ${receiptMarkup}
 									{formatCurrency(snapshot.todayRevenue, currency)}
 								</p>
 							</div>
-							<div className='rounded-md border border-gray-200 p-3'>
-								<p className='text-xs uppercase tracking-wide text-gray-500'>
-									Ganancia hoy
-								</p>
-								<p className='mt-1 text-2xl font-semibold text-gray-900'>
-									{formatCurrency(snapshot.todayProfit, currency)}
-								</p>
-							</div>
+							{showCosts ? (
+								<div className='rounded-md border border-gray-200 p-3'>
+									<p className='text-xs uppercase tracking-wide text-gray-500'>
+										Ganancia hoy
+									</p>
+									<p className='mt-1 text-2xl font-semibold text-gray-900'>
+										{formatCurrency(snapshot.todayProfit, currency)}
+									</p>
+								</div>
+							) : null}
 							<div className='rounded-md border border-gray-200 p-3'>
 								<p className='text-xs uppercase tracking-wide text-gray-500'>
 									Ventas totales
@@ -1218,14 +1631,16 @@ ${receiptMarkup}
 									{formatCurrency(snapshot.totalRevenue, currency)}
 								</p>
 							</div>
-							<div className='rounded-md border border-gray-200 p-3'>
-								<p className='text-xs uppercase tracking-wide text-gray-500'>
-									Ganancia acumulada
-								</p>
-								<p className='mt-1 text-2xl font-semibold text-gray-900'>
-									{formatCurrency(snapshot.totalProfit, currency)}
-								</p>
-							</div>
+							{showCosts ? (
+								<div className='rounded-md border border-gray-200 p-3'>
+									<p className='text-xs uppercase tracking-wide text-gray-500'>
+										Ganancia acumulada
+									</p>
+									<p className='mt-1 text-2xl font-semibold text-gray-900'>
+										{formatCurrency(snapshot.totalProfit, currency)}
+									</p>
+								</div>
+							) : null}
 						</div>
 
 						{snapshot.recent.length ? (
@@ -1320,11 +1735,25 @@ ${receiptMarkup}
 										<tbody>
 											{lastReceipt.items.map((item, index) => (
 												<tr key={`${item.name}-${index}`}>
-													<td>{item.name}</td>
+													<td>
+														{item.name}
+														{item.discount > 0 ? (
+															<>
+																<br />
+																<small>
+																	Desc.{" "}
+																	{formatCurrency(
+																		-item.discount,
+																		lastReceipt.currency,
+																	)}
+																</small>
+															</>
+														) : null}
+													</td>
 													<td>{item.qty}</td>
 													<td>
 														{formatCurrency(
-															item.unitPrice * item.qty,
+															item.unitPrice * item.qty - item.discount,
 															lastReceipt.currency,
 														)}
 													</td>
@@ -1353,6 +1782,12 @@ ${receiptMarkup}
 													: formatCurrency(0, lastReceipt.currency)}
 											</span>
 										</div>
+										{lastReceipt.promoCode ? (
+											<div className='thermal-summary-row'>
+												<span>Código promocional</span>
+												<span>{lastReceipt.promoCode}</span>
+											</div>
+										) : null}
 										<div className='thermal-summary-row'>
 											<span>Impuesto</span>
 											<span>
@@ -1368,15 +1803,55 @@ ${receiptMarkup}
 												)}
 											</span>
 										</div>
-										<div className='thermal-summary-row is-accent'>
-											<span>Ganancia</span>
-											<span>
-												{formatCurrency(
-													lastReceipt.profit,
-													lastReceipt.currency,
-												)}
-											</span>
-										</div>
+										{lastReceipt.payments.map((payment, index) => (
+											<Fragment key={`${payment.method}-${index}`}>
+												<div className='thermal-summary-row'>
+													<span>
+														{formatPaymentMethod(payment.method)}
+														{payment.reference ? ` · ${payment.reference}` : ""}
+													</span>
+													<span>
+														{formatCurrency(
+															payment.amount,
+															lastReceipt.currency,
+														)}
+													</span>
+												</div>
+												{payment.tendered !== undefined ? (
+													<>
+														<div className='thermal-summary-row'>
+															<span>Recibido</span>
+															<span>
+																{formatCurrency(
+																	payment.tendered,
+																	lastReceipt.currency,
+																)}
+															</span>
+														</div>
+														<div className='thermal-summary-row'>
+															<span>Cambio</span>
+															<span>
+																{formatCurrency(
+																	tenderChange(payment),
+																	lastReceipt.currency,
+																)}
+															</span>
+														</div>
+													</>
+												) : null}
+											</Fragment>
+										))}
+										{showCosts ? (
+											<div className='thermal-summary-row is-accent'>
+												<span>Ganancia</span>
+												<span>
+													{formatCurrency(
+														lastReceipt.profit,
+														lastReceipt.currency,
+													)}
+												</span>
+											</div>
+										) : null}
 									</div>
 									{lastReceipt.notes ? (
 										<div className='thermal-notes'>
@@ -0,0 +1,209 @@
+"use client";
+
+import { useTransition } from "react";
+
+import type { ActionErrorRecord } from "@/lib/actions";
+import { describePromoCode, type PromoCode } from "@/lib/discounts";
+
+import { lookupPromoCodeAction } from "../actions";
+
+export type OrderDiscountDraft = {
+	promoInput: string;
+	appliedPromo: PromoCode | null;
+	promoError: string | null;
+	discountInput: string;
+	discountReason: string;
+};
+
+type PromoCodePanelProps = {
+	draft: OrderDiscountDraft;
+	currency: string;
+	/** What is left of the subtotal after line discounts. */
+	discountableSubtotal: number;
+	/** Order discount after capping it at what is left to discount. */
+	discountAmount: number;
+	cartEmpty: boolean;
+	disabled?: boolean;
+	errors: ActionErrorRecord | null;
+	onChange: (changes: Partial<OrderDiscountDraft>) => void;
+};
+
+const INPUT_CLASS_NAME =
+	"w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300";
+
+export const EMPTY_ORDER_DISCOUNT: OrderDiscountDraft = {
+	promoInput: "",
+	appliedPromo: null,
+	promoError: null,
+	discountInput: "0",
+	discountReason: "",
+};
+
+function formatCurrency(value: number, currency: string) {
+	return new Intl.NumberFormat("es-NI", {
+		style: "currency",
+		currency,
+		minimumFractionDigits: 2,
+	}).format(value ?? 0);
+}
+
+function FieldErrors({
+	errors,
+	field,
+}: {
+	errors: ActionErrorRecord | null;
+	field: string;
+}) {
+	const messages = errors?.[field];
+	if (!messages?.length) return null;
+	return <p className='text-xs text-red-500'>{messages.join(" ")}</p>;
+}
+
+export function PromoCodePanel({
+	draft,
+	currency,
+	discountableSubtotal,
+	discountAmount,
+	cartEmpty,
+	disabled,
+	errors,
+	onChange,
+}: PromoCodePanelProps) {
+	const [isCheckingPromo, startPromoCheck] = useTransition();
+
+	const applyPromoCode = () => {
+		const code = draft.promoInput.trim();
+		if (!code) return;
+
+		onChange({ promoError: null });
+		startPromoCheck(async () => {
+			const result = await lookupPromoCodeAction({
+				code,
+				subtotal: discountableSubtotal,
+			});
+
+			if (!result.success) {
+				onChange({
+					appliedPromo: null,
+					promoError:
+						result.errors.promoCode?.[0] ??
+						result.errors.code?.[0] ??
+						result.errors.form?.[0] ??
+						"No pudimos validar el código.",
+				});
+				return;
+			}
+
+			onChange({ appliedPromo: result.data, promoInput: result.data.code });
+		});
+	};
+
+	const removePromoCode = () => {
+		onChange({ appliedPromo: null, promoInput: "", promoError: null });
+	};
+
+	return (
+		<>
+			<div className='space-y-2'>
+				<label
+					htmlFor='pos-promo-code'
+					className='text-sm font-medium text-gray-700'>
+					Código promocional
+				</label>
+				{draft.appliedPromo ? (
+					<div className='flex items-center justify-between rounded-md border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm'>
+						<span className='font-medium text-emerald-700'>
+							{draft.appliedPromo.code} ·{" "}
+							{describePromoCode(draft.appliedPromo, (value) =>
+								formatCurrency(value, currency),
+							)}
+						</span>
+						<button
+							type='button'
+							onClick={removePromoCode}
+							disabled={disabled}
+							className='text-xs font-semibold text-gray-500 hover:underline'>
+							Quitar
+						</button>
+					</div>
+				) : (
+					<div className='flex gap-2'>
+						<input
+							id='pos-promo-code'
+							type='text'
+							value={draft.promoInput}
+							onChange={(event) =>
+								onChange({
+									promoInput: event.target.value,
+									promoError: null,
+								})
+							}
+							onKeyDown={(event) => {
+								if (event.key === "Enter") {
+									event.preventDefault();
+									applyPromoCode();
+								}
+							}}
+							placeholder='Ej. BIENVENIDA10'
+							className={`${INPUT_CLASS_NAME} uppercase`}
+						/>
+						<button
+							type='button'
+							onClick={applyPromoCode}
+							disabled={
+								isCheckingPromo || !draft.promoInput.trim() || cartEmpty
+							}
+							className='rounded-md border border-gray-300 px-3 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-60'>
+							{isCheckingPromo ? "Validando..." : "Aplicar"}
+						</button>
+					</div>
+				)}
+				{draft.promoError ? (
+					<p className='text-xs text-red-500'>{draft.promoError}</p>
+				) : null}
+				<FieldErrors errors={errors} field='promoCode' />
+			</div>
+
+			<div className='grid gap-3 md:grid-cols-2'>
+				<div className='space-y-2'>
+					<label
+						htmlFor='pos-order-discount'
+						className='text-sm font-medium text-gray-700'>
+						Descuento general
+					</label>
+					<input
+						id='pos-order-discount'
+						type='text'
+						value={draft.discountInput}
+						onChange={(event) =>
+							onChange({ discountInput: event.target.value })
+						}
+						placeholder='0.00'
+						className={INPUT_CLASS_NAME}
+					/>
+				</div>
+				{discountAmount > 0 ? (
+					<div className='space-y-2'>
+						<label
+							htmlFor='pos-order-discount-reason'
+							className='text-sm font-medium text-gray-700'>
+							Motivo del descuento
+						</label>
+						<input
+							id='pos-order-discount-reason'
+							type='text'
+							value={draft.discountReason}
+							onChange={(event) =>
+								onChange({ discountReason: event.target.value })
+							}
+							maxLength={200}
+							placeholder='Ej. cliente frecuente'
+							className={INPUT_CLASS_NAME}
+						/>
+						<FieldErrors errors={errors} field='discountReason' />
+					</div>
+				) : null}
+			</div>
+		</>
+	);
+}
@@ -0,0 +1,467 @@
+"use client";
+
+import Link from "next/link";
+import { useState, useTransition } from "react";
+
+import type { ActionErrorRecord } from "@/lib/actions";
+import {
+	CASH_MOVEMENT_LABELS,
+	type CashMovementKind,
+} from "@/lib/register-sessions";
+
+import {
+	closeRegisterSessionAction,
+	openRegisterSessionAction,
+	recordCashMovementAction,
+} from "../actions";
+
+export type RegisterSessionSummary = {
+	id: string;
+	openedAt: string;
+	openingFloat: number;
+	salesCount: number;
+	netSales: number;
+	cashIn: number;
+	cashOut: number;
+	expectedCash: number;
+};
+
+type ClosedSummary = {
+	sessionId: string;
+	expectedCash: number;
+	countedCash: number;
+	cashVariance: number;
+};
+
+type RegisterSessionPanelProps = {
+	session: RegisterSessionSummary | null;
+	currency: string;
+};
+
+const INPUT_CLASS_NAME =
+	"w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300";
+
+function formatCurrency(value: number, currency: string) {
+	return new Intl.NumberFormat("es-NI", {
+		style: "currency",
+		currency,
+		minimumFractionDigits: 2,
+	}).format(value ?? 0);
+}
+
+function formatDateTime(isoDate: string) {
+	return new Intl.DateTimeFormat("es-NI", {
+		dateStyle: "medium",
+		timeStyle: "short",
+	}).format(new Date(isoDate));
+}
+
+function parseAmount(value: string) {
+	const parsed = Number(value.replace(/,/g, ".").replace(/[^0-9.-]/g, ""));
+	return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function FieldErrors({
+	errors,
+	field,
+}: {
+	errors: ActionErrorRecord | null;
+	field: string;
+}) {
+	const messages = errors?.[field];
+	if (!messages?.length) return null;
+	return <p className='text-xs text-red-500'>{messages.join(" ")}</p>;
+}
+
+export function VarianceLabel({
+	variance,
+	currency,
+}: {
+	variance: number;
+	currency: string;
+}) {
+	if (Math.abs(variance) < 0.005) {
+		return <span className='font-semibold text-emerald-600'>Cuadrada</span>;
+	}
+
+	return (
+		<span
+			className={`font-semibold ${
+				variance > 0 ? "text-amber-600" : "text-red-600"
+			}`}>
+			{variance > 0 ? "Sobrante" : "Faltante"}{" "}
+			{formatCurrency(Math.abs(variance), currency)}
+		</span>
+	);
+}
+
+export function RegisterSessionPanel({
+	session,
+	currency,
+}: RegisterSessionPanelProps) {
+	const [openingFloat, setOpeningFloat] = useState("");
+	const [openingNotes, setOpeningNotes] = useState("");
+	const [movementKind, setMovementKind] = useState<CashMovementKind>("cash_in");
+	const [movementAmount, setMovementAmount] = useState("");
+	const [movementReason, setMovementReason] = useState("");
+	const [countedCash, setCountedCash] = useState("");
+	const [closingNotes, setClosingNotes] = useState("");
+	const [isClosing, setIsClosing] = useState(false);
+	const [errors, setErrors] = useState<ActionErrorRecord | null>(null);
+	const [message, setMessage] = useState<string | null>(null);
+	const [closedSummary, setClosedSummary] = useState<ClosedSummary | null>(
+		null,
+	);
+	const [isPending, startTransition] = useTransition();
+
+	const handleOpen = (event: React.FormEvent<HTMLFormElement>) => {
+		event.preventDefault();
+		setErrors(null);
+		setMessage(null);
+
+		startTransition(async () => {
+			const formData = new FormData();
+			formData.append("openingFloat", openingFloat);
+			if (openingNotes.trim()) formData.append("notes", openingNotes.trim());
+
+			const result = await openRegisterSessionAction(formData);
+			if (!result.success) {
+				setErrors(result.errors);
+				return;
+			}
+
+			setOpeningFloat("");
+			setOpeningNotes("");
+			setClosedSummary(null);
+			setMessage(result.message ?? "Caja abierta.");
+		});
+	};
+
+	const handleMovement = (event: React.FormEvent<HTMLFormElement>) => {
+		event.preventDefault();
+		if (!session) return;
+		setErrors(null);
+		setMessage(null);
+
+		startTransition(async () => {
+			const formData = new FormData();
+			formData.append("sessionId", session.id);
+			formData.append("kind", movementKind);
+			formData.append("amount", movementAmount);
+			formData.append("reason", movementReason);
+
+			const result = await recordCashMovementAction(formData);
+			if (!result.success) {
+				setErrors(result.errors);
+				return;
+			}
+
+			setMovementAmount("");
+			setMovementReason("");
+			setMessage(result.message ?? "Movimiento registrado.");
+		});
+	};
+
+	const handleClose = (event: React.FormEvent<HTMLFormElement>) => {
+		event.preventDefault();
+		if (!session) return;
+		setErrors(null);
+		setMessage(null);
+
+		startTransition(async () => {
+			const formData = new FormData();
+			formData.append("sessionId", session.id);
+			formData.append("countedCash", countedCash);
+			if (closingNotes.trim()) formData.append("notes", closingNotes.trim());
+
+			const result = await closeRegisterSessionAction(formData);
+			if (!result.success) {
+				setErrors(result.errors);
+				return;
+			}
+
+			setCountedCash("");
+			setClosingNotes("");
+			setIsClosing(false);
+			setClosedSummary(result.data);
+			setMessage(result.message ?? "Caja cerrada.");
+		});
+	};
+
+	const previewVariance = session
+		? parseAmount(countedCash) - session.expectedCash
+		: 0;
+
+	return (
+		<section className='space-y-4 rounded-lg border border-gray-200 bg-white p-4 shadow-sm'>
+			<header className='flex flex-wrap items-center justify-between gap-2'>
+				<div>
+					<h2 className='text-lg font-semibold text-gray-900'>Caja</h2>
+					<p className='text-sm text-gray-500'>
+						{session
+							? `Abierta desde ${formatDateTime(session.openedAt)}`
+							: "No hay una sesión de caja abierta. Ábrela para registrar ventas."}
+					</p>
+				</div>
+				<Link
+					href='/pos/sessions'
+					className='text-sm font-medium text-blush-600 hover:underline'>
+					Historial de cierres
+				</Link>
+			</header>
+
+			{message ? (
+				<p className='rounded-md bg-emerald-50 px-3 py-2 text-sm text-emerald-700'>
+					{message}
+				</p>
+			) : null}
+			{errors?.form?.length ? (
+				<p className='rounded-md bg-red-50 px-3 py-2 text-sm text-red-600'>
+					{errors.form.join(" ")}
+				</p>
+			) : null}
+
+			{closedSummary ? (
+				<div className='space-y-1 rounded-lg bg-gray-50 p-4 text-sm'>
+					<div className='flex items-center justify-between text-gray-600'>
+						<span>Efectivo esperado</span>
+						<span>{formatCurrency(closedSummary.expectedCash, currency)}</span>
+					</div>
+					<div className='flex items-center justify-between text-gray-600'>
+						<span>Efectivo contado</span>
+						<span>{formatCurrency(closedSummary.countedCash, currency)}</span>
+					</div>
+					<div className='flex items-center justify-between'>
+						<span className='text-gray-600'>Diferencia</span>
+						<VarianceLabel
+							variance={closedSummary.cashVariance}
+							currency={currency}
+						/>
+					</div>
+					<Link
+						href={`/pos/sessions/${closedSummary.sessionId}`}
+						className='mt-2 inline-flex text-sm font-semibold text-blush-600 hover:underline'>
+						Ver e imprimir reporte Z
+					</Link>
+				</div>
+			) : null}
+
+			{session ? (
+				<>
+					<dl className='grid gap-3 text-sm sm:grid-cols-4'>
+						<div>
+							<dt className='text-gray-500'>Fondo inicial</dt>
+							<dd className='font-semibold text-gray-900'>
+								{formatCurrency(session.openingFloat, currency)}
+							</dd>
+						</div>
+						<div>
+							<dt className='text-gray-500'>Ventas</dt>
+							<dd className='font-semibold text-gray-900'>
+								{session.salesCount} ·{" "}
+								{formatCurrency(session.netSales, currency)}
+							</dd>
+						</div>
+						<div>
+							<dt className='text-gray-500'>Entradas / salidas</dt>
+							<dd className='font-semibold text-gray-900'>
+								{formatCurrency(session.cashIn, currency)} /{" "}
+								{formatCurrency(session.cashOut, currency)}
+							</dd>
+						</div>
+						<div>
+							<dt className='text-gray-500'>Efectivo esperado</dt>
+							<dd className='font-semibold text-gray-900'>
+								{formatCurrency(session.expectedCash, currency)}
+							</dd>
+						</div>
+					</dl>
+
+					<form
+						onSubmit={handleMovement}
+						className='grid gap-3 sm:grid-cols-[auto,1fr,2fr,auto] sm:items-end'>
+						<div className='space-y-1'>
+							<label
+								htmlFor='movementKind'
+								className='text-xs font-medium text-gray-600'>
+								Movimiento
+							</label>
+							<select
+								id='movementKind'
+								value={movementKind}
+								onChange={(event) =>
+									setMovementKind(event.target.value as CashMovementKind)
+								}
+								className={INPUT_CLASS_NAME}>
+								<option value='cash_in'>{CASH_MOVEMENT_LABELS.cash_in}</option>
+								<option value='cash_out'>
+									{CASH_MOVEMENT_LABELS.cash_out}
+								</option>
+							</select>
+						</div>
+						<div className='space-y-1'>
+							<label
+								htmlFor='movementAmount'
+								className='text-xs font-medium text-gray-600'>
+								Monto
+							</label>
+							<input
+								id='movementAmount'
+								type='text'
+								inputMode='decimal'
+								value={movementAmount}
+								onChange={(event) => setMovementAmount(event.target.value)}
+								placeholder='0.00'
+								className={INPUT_CLASS_NAME}
+							/>
+							<FieldErrors errors={errors} field='amount' />
+						</div>
+						<div className='space-y-1'>
+							<label
+								htmlFor='movementReason'
+								className='text-xs font-medium text-gray-600'>
+								Motivo
+							</label>
+							<input
+								id='movementReason'
+								type='text'
+								value={movementReason}
+								onChange={(event) => setMovementReason(event.target.value)}
+								placeholder='Ej. cambio de billetes, pago a proveedor'
+								className={INPUT_CLASS_NAME}
+							/>
+							<FieldErrors errors={errors} field='reason' />
+						</div>
+						<button
+							type='submit'
+							disabled={isPending}
+							className='inline-flex items-center justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm transition hover:bg-gray-100 disabled:cursor-not-allowed disabled:opacity-60'>
+							Registrar
+						</button>
+					</form>
+
+					{isClosing ? (
+						<form
+							onSubmit={handleClose}
+							className='space-y-3 rounded-lg border border-blush-200 bg-blush-50/40 p-4'>
+							<div className='grid gap-3 sm:grid-cols-2'>
+								<div className='space-y-1'>
+									<label
+										htmlFor='countedCash'
+										className='text-xs font-medium text-gray-600'>
+										Efectivo contado en caja
+									</label>
+									<input
+										id='countedCash'
+										type='text'
+										inputMode='decimal'
+										value={countedCash}
+										onChange={(event) => setCountedCash(event.target.value)}
+										placeholder='0.00'
+										className={INPUT_CLASS_NAME}
+									/>
+									<FieldErrors errors={errors} field='countedCash' />
+								</div>
+								<div className='space-y-1'>
+									<label
+										htmlFor='closingNotes'
+										className='text-xs font-medium text-gray-600'>
+										Notas de cierre
+									</label>
+									<input
+										id='closingNotes'
+										type='text'
+										value={closingNotes}
+										onChange={(event) => setClosingNotes(event.target.value)}
+										placeholder='Opcional'
+										className={INPUT_CLASS_NAME}
+									/>
+								</div>
+							</div>
+							{countedCash.trim() ? (
+								<p className='text-sm text-gray-600'>
+									Diferencia estimada:{" "}
+									<VarianceLabel
+										variance={previewVariance}
+										currency={currency}
+									/>
+								</p>
+							) : null}
+							<div className='flex justify-end gap-2'>
+								<button
+									type='button'
+									onClick={() => setIsClosing(false)}
+									className='inline-flex items-center rounded-md border border-gray-200 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm transition hover:bg-gray-100'>
+									Cancelar
+								</button>
+								<button
+									type='submit'
+									disabled={isPending}
+									className='inline-flex items-center rounded-md bg-blush-500 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-blush-400 disabled:cursor-not-allowed disabled:opacity-60'>
+									{isPending ? "Cerrando…" : "Cerrar caja"}
+								</button>
+							</div>
+						</form>
+					) : (
+						<div className='flex flex-wrap justify-end gap-2'>
+							<Link
+								href={`/pos/sessions/${session.id}`}
+								className='inline-flex items-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm transition hover:bg-gray-100'>
+								Reporte parcial
+							</Link>
+							<button
+								type='button'
+								onClick={() => setIsClosing(true)}
+								className='inline-flex items-center rounded-md bg-blush-500 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-blush-400'>
+								Cerrar caja
+							</button>
+						</div>
+					)}
+				</>
+			) : (
+				<form
+					onSubmit={handleOpen}
+					className='grid gap-3 sm:grid-cols-[1fr,2fr,auto] sm:items-end'>
+					<div className='space-y-1'>
+						<label
+							htmlFor='openingFloat'
+							className='text-xs font-medium text-gray-600'>
+							Fondo inicial en efectivo
+						</label>
+						<input
+							id='openingFloat'
+							type='text'
+							inputMode='decimal'
+							value={openingFloat}
+							onChange={(event) => setOpeningFloat(event.target.value)}
+							placeholder='0.00'
+							className={INPUT_CLASS_NAME}
+						/>
+						<FieldErrors errors={errors} field='openingFloat' />
+					</div>
+					<div className='space-y-1'>
+						<label
+							htmlFor='openingNotes'
+							className='text-xs font-medium text-gray-600'>
+							Notas
+						</label>
+						<input
+							id='openingNotes'
+							type='text'
+							value={openingNotes}
+							onChange={(event) => setOpeningNotes(event.target.value)}
+							placeholder='Opcional'
+							className={INPUT_CLASS_NAME}
+						/>
+					</div>
+					<button
+						type='submit'
+						disabled={isPending}
+						className='inline-flex items-center justify-center rounded-md bg-blush-500 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-blush-400 disabled:cursor-not-allowed disabled:opacity-60'>
+						{isPending ? "Abriendo…" : "Abrir caja"}
+					</button>
+				</form>
+			)}
+		</section>
+	);
+}
@@ -0,0 +1,344 @@
+"use client";
+
+import { useMemo, useRef, type Dispatch, type SetStateAction } from "react";
+
+import type { ActionErrorRecord } from "@/lib/actions";
+import {
+	summarizeTenders,
+	tenderChange,
+	type Tender,
+	type TenderMethod,
+} from "@/lib/payments";
+
+export type TenderDraft = {
+	id: number;
+	method: TenderMethod;
+	amount: string;
+	tendered: string;
+	reference: string;
+};
+
+type TenderPanelProps = {
+	drafts: TenderDraft[];
+	/** `drafts` as computed by `toTenders`. */
+	tenders: Tender[];
+	total: number;
+	currency: string;
+	issue: string | null;
+	errors: ActionErrorRecord | null;
+	onDraftsChange: Dispatch<SetStateAction<TenderDraft[]>>;
+};
+
+function formatCurrency(value: number, currency: string) {
+	return new Intl.NumberFormat("es-NI", {
+		style: "currency",
+		currency,
+		minimumFractionDigits: 2,
+	}).format(value ?? 0);
+}
+
+function parseAmount(value: string) {
+	const cleaned = value.replace(/[^0-9.,-]/g, "");
+	if (!cleaned) return 0;
+	const normalized = cleaned.replace(/,/g, ".");
+	const parsed = Number(normalized);
+	return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function roundCurrency(value: number) {
+	return Number(Number(value ?? 0).toFixed(2));
+}
+
+function FieldErrors({
+	errors,
+	field,
+}: {
+	errors: ActionErrorRecord | null;
+	field: string;
+}) {
+	const messages = errors?.[field];
+	if (!messages?.length) return null;
+	return <p className='text-xs text-red-500'>{messages.join(" ")}</p>;
+}
+
+export function createTenderDraft(
+	id: number,
+	method: TenderMethod = "cash",
+): TenderDraft {
+	return { id, method, amount: "", tendered: "", reference: "" };
+}
+
+/**
+ * A single tender always covers the whole total, so the cashier only types
+ * amounts once the sale is split.
+ */
+export function toTenders(drafts: TenderDraft[], total: number): Tender[] {
+	return drafts.map((draft) => {
+		const amount =
+			drafts.length === 1
+				? total
+				: Math.max(0, roundCurrency(parseAmount(draft.amount)));
+		const tendered =
+			draft.method === "cash" && draft.tendered.trim()
+				? roundCurrency(parseAmount(draft.tendered))
+				: undefined;
+
+		return {
+			method: draft.method,
+			amount,
+			tendered,
+			reference: draft.reference.trim() || undefined,
+		};
+	});
+}
+
+export function TenderPanel({
+	drafts,
+	tenders,
+	total,
+	currency,
+	issue,
+	errors,
+	onDraftsChange,
+}: TenderPanelProps) {
+	// Ids only key the rows. The parent resets to a single draft after each
+	// sale, and rows added later keep counting from here so keys never repeat.
+	const nextTenderIdRef = useRef(drafts.length);
+
+	const paymentSummary = useMemo(
+		() => summarizeTenders(tenders, total),
+		[tenders, total],
+	);
+
+	const updateTender = (
+		id: number,
+		changes: Partial<Omit<TenderDraft, "id">>,
+	) => {
+		onDraftsChange((current) =>
+			current.map((draft) =>
+				draft.id === id ? { ...draft, ...changes } : draft,
+			),
+		);
+	};
+
+	const addTender = () => {
+		const id = nextTenderIdRef.current;
+		nextTenderIdRef.current += 1;
+		onDraftsChange((current) => {
+			// Splitting a single tender: it keeps the full total until the
+			// cashier lowers it.
+			const existing =
+				current.length === 1
+					? [{ ...current[0], amount: total.toFixed(2) }]
+					: current;
+			const remaining = summarizeTenders(
+				toTenders(existing, total),
+				total,
+			).remaining;
+			return [
+				...existing,
+				{
+					...createTenderDraft(id, "transfer"),
+					amount: remaining > 0 ? remaining.toFixed(2) : "",
+				},
+			];
+		});
+	};
+
+	const removeTender = (id: number) => {
+		onDraftsChange((current) =>
+			current.length > 1
+				? current.filter((draft) => draft.id !== id)
+				: current,
+		);
+	};
+
+	const fillTenderWithBalance = (id: number) => {
+		onDraftsChange((current) => {
+			const others = toTenders(
+				current.filter((draft) => draft.id !== id),
+				total,
+			);
+			const paidByOthers = summarizeTenders(others, 0).paid;
+			const balance = roundCurrency(total - paidByOthers);
+			return current.map((draft) =>
+				draft.id === id
+					? { ...draft, amount: balance > 0 ? balance.toFixed(2) : "" }
+					: draft,
+			);
+		});
+	};
+
+	return (
+		<div className='space-y-3'>
+			<div className='flex items-center justify-between'>
+				<span className='text-sm font-medium text-gray-700'>Pagos</span>
+				<button
+					type='button'
+					onClick={addTender}
+					disabled={total <= 0}
+					className='text-xs font-semibold text-blush-600 hover:text-blush-500 disabled:cursor-not-allowed disabled:text-gray-400'>
+					+ Dividir pago
+				</button>
+			</div>
+			<ul className='space-y-3'>
+				{drafts.map((draft, index) => {
+					const tender = tenders[index];
+					const isSplit = drafts.length > 1;
+					return (
+						<li
+							key={draft.id}
+							className='space-y-2 rounded-md border border-gray-200 p-3'>
+							<div className='grid gap-2 sm:grid-cols-[1fr,1fr,auto] sm:items-end'>
+								<div className='space-y-1'>
+									<label
+										htmlFor={`tender-method-${draft.id}`}
+										className='text-xs font-medium text-gray-600'>
+										Método
+									</label>
+									<select
+										id={`tender-method-${draft.id}`}
+										value={draft.method}
+										onChange={(event) =>
+											updateTender(draft.id, {
+												method: event.target.value as TenderMethod,
+											})
+										}
+										className='w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300'>
+										<option value='cash'>Efectivo</option>
+										<option value='card'>Tarjeta</option>
+										<option value='transfer'>Transferencia</option>
+									</select>
+								</div>
+								<div className='space-y-1'>
+									<label
+										htmlFor={`tender-amount-${draft.id}`}
+										className='text-xs font-medium text-gray-600'>
+										Monto
+									</label>
+									{isSplit ? (
+										<div className='flex gap-1'>
+											<input
+												id={`tender-amount-${draft.id}`}
+												type='text'
+												inputMode='decimal'
+												value={draft.amount}
+												onChange={(event) =>
+													updateTender(draft.id, {
+														amount: event.target.value,
+													})
+												}
+												placeholder='0.00'
+												className='w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300'
+											/>
+											<button
+												type='button'
+												onClick={() => fillTenderWithBalance(draft.id)}
+												title='Completar con el saldo pendiente'
+												className='whitespace-nowrap rounded-md border border-gray-200 px-2 text-xs text-gray-600 hover:bg-gray-100'>
+												Saldo
+											</button>
+										</div>
+									) : (
+										<p
+											id={`tender-amount-${draft.id}`}
+											className='rounded-md bg-gray-50 px-3 py-2 text-sm text-gray-700'>
+											{formatCurrency(total, currency)}
+										</p>
+									)}
+								</div>
+								{isSplit ? (
+									<button
+										type='button'
+										onClick={() => removeTender(draft.id)}
+										className='text-xs text-gray-400 hover:text-red-500 sm:pb-2'>
+										Quitar
+									</button>
+								) : null}
+							</div>
+							{draft.method === "cash" ? (
+								<div className='grid gap-2 sm:grid-cols-2 sm:items-end'>
+									<div className='space-y-1'>
+										<label
+											htmlFor={`tender-cash-${draft.id}`}
+											className='text-xs font-medium text-gray-600'>
+											Efectivo recibido
+										</label>
+										<input
+											id={`tender-cash-${draft.id}`}
+											type='text'
+											inputMode='decimal'
+											value={draft.tendered}
+											onChange={(event) =>
+												updateTender(draft.id, {
+													tendered: event.target.value,
+												})
+											}
+											placeholder='Opcional'
+											className='w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300'
+										/>
+									</div>
+									{tender && tenderChange(tender) > 0 ? (
+										<p className='text-sm font-semibold text-emerald-600 sm:pb-2'>
+											Cambio:{" "}
+											{formatCurrency(tenderChange(tender), currency)}
+										</p>
+									) : null}
+								</div>
+							) : null}
+							{draft.method !== "cash" ? (
+								<div className='space-y-1'>
+									<label
+										htmlFor={`tender-reference-${draft.id}`}
+										className='text-xs font-medium text-gray-600'>
+										Referencia
+									</label>
+									<input
+										id={`tender-reference-${draft.id}`}
+										type='text'
+										value={draft.reference}
+										onChange={(event) =>
+											updateTender(draft.id, {
+												reference: event.target.value,
+											})
+										}
+										placeholder={
+											draft.method === "transfer"
+												? "Requerida para transferencias"
+												: "Últimos dígitos o autorización (opcional)"
+										}
+										className='w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300'
+									/>
+								</div>
+							) : null}
+						</li>
+					);
+				})}
+			</ul>
+			<div className='space-y-1 rounded-lg bg-gray-50 p-3 text-sm'>
+				<div className='flex items-center justify-between text-gray-600'>
+					<span>Pagado</span>
+					<span>{formatCurrency(paymentSummary.paid, currency)}</span>
+				</div>
+				{paymentSummary.remaining !== 0 ? (
+					<div className='flex items-center justify-between text-red-600'>
+						<span>
+							{paymentSummary.remaining > 0 ? "Pendiente" : "Excedente"}
+						</span>
+						<span>
+							{formatCurrency(Math.abs(paymentSummary.remaining), currency)}
+						</span>
+					</div>
+				) : null}
+				{paymentSummary.change > 0 ? (
+					<div className='flex items-center justify-between font-semibold text-emerald-700'>
+						<span>Cambio a entregar</span>
+						<span>{formatCurrency(paymentSummary.change, currency)}</span>
+					</div>
+				) : null}
+			</div>
+			{issue ? <p className='text-xs text-red-500'>{issue}</p> : null}
+			<FieldErrors errors={errors} field='payments' />
+		</div>
+	);
+}
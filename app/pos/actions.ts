@@ -1,15 +1,39 @@
 "use server";
 
-import type { PostgrestError } from "@supabase/supabase-js";
+import { revalidatePath } from "next/cache";
 import { z } from "zod";
 
 import type { ActionErrorRecord, ActionResult } from "@/lib/actions";
-import { posOrderSchema } from "@/lib/schemas";
+import { recordAuditEvent } from "@/lib/audit";
+import { listCustomerSummaries, type CustomerSummary } from "@/lib/customers";
+import {
+	PROMO_CODE_ERROR_MESSAGES,
+	evaluatePromoCode,
+	fetchPromoCodeByCode,
+	isPromoCodeError,
+	type PromoCode,
+	type PromoCodeError,
+} from "@/lib/discounts";
+import { resolveOrderPaymentMethod } from "@/lib/payments";
+import {
+	customerSearchSchema,
+	posOrderSchema,
+	promoCodeLookupSchema,
+	type PosOrderValues,
+	registerCashMovementSchema,
+	registerCloseSchema,
+	registerOpenSchema,
+} from "@/lib/schemas";
+import {
+	STAFF_AUTHORIZATION_MESSAGES,
+	StaffAuthorizationError,
+	requireRoutePermission,
+} from "@/lib/staff";
+import { hasStaffPermission } from "@/lib/staff-roles";
 import {
 	MissingEnvironmentVariableError,
 	createSupabaseAdminClient,
 } from "@/lib/supabase-admin";
-import { createSupabaseServerClient } from "@/lib/supabase-server";
 
 function flattenErrors(error: z.ZodError): ActionErrorRecord {
 	const { fieldErrors, formErrors } = error.flatten();
@@ -40,16 +64,22 @@ function parseItemsField(value: FormDataEntryValue | null) {
 
 function parsePosForm(formData: FormData) {
 	const parsed = posOrderSchema.safeParse({
+		customerId: formData.get("customerId"),
 		customerName: formData.get("customerName"),
 		customerPhone: formData.get("customerPhone"),
+		customerEmail: formData.get("customerEmail"),
 		notes: formData.get("notes"),
 		paymentMethod: formData.get("paymentMethod"),
 		receiptNumber: formData.get("receiptNumber"),
 		currency: formData.get("currency"),
 		discountAmount: formData.get("discountAmount"),
+		discountReason: formData.get("discountReason"),
+		promoCode: formData.get("promoCode"),
+		promoDiscountAmount: formData.get("promoDiscountAmount"),
 		taxAmount: formData.get("taxAmount"),
 		productItems: parseItemsField(formData.get("productItems")),
 		comboItems: parseItemsField(formData.get("comboItems")),
+		payments: parseItemsField(formData.get("payments")),
 	});
 
 	if (!parsed.success) {
@@ -83,508 +113,720 @@ function generateReceiptNumber() {
 	return `POS-${timestamp}-${randomSegment}`;
 }
 
-type ProductRow = {
-	id: string;
+type ShortProduct = {
+	product_id: string;
 	name: string | null;
-	cost_price: number | null;
-	quantity: number | null;
-	status: string | null;
-};
-
-type ComboItemRow = {
-	product_id: string | null;
-	qty: number | null;
-};
-
-type ComboRow = {
-	id: string;
-	name: string;
-	packaging_cost: number | null;
-	combo_items: ComboItemRow[] | null;
+	available: number;
+	required: number;
 };
 
-type ProductLineRecord = {
-	order_id: string;
-	product_id: string;
-	qty: number;
-	unit_price: number;
-	unit_cost: number;
-	line_total: number;
-	line_cost_total: number;
-};
+type CreatePosSaleRpcResult =
+	| {
+			success: true;
+			order_id: string;
+			receipt_number: string | null;
+			total_amount: number;
+			discount_amount: number;
+			promo_code: string | null;
+			profit_amount: number;
+			payment_method: string;
+	  }
+	| {
+			success: false;
+			error:
+				| "empty_sale"
+				| "customer_not_found"
+				| "register_closed"
+				| "missing_combos"
+				| "empty_combo"
+				| "missing_products"
+				| "insufficient_stock"
+				| "invalid_discount"
+				| "invalid_payment"
+				| "payment_mismatch"
+				| PromoCodeError;
+			combo_ids?: string[];
+			combo_name?: string;
+			product_ids?: string[];
+			short_products?: ShortProduct[];
+			total_amount?: number;
+			paid_amount?: number;
+	  };
+
+function toLineDiscountPayload(
+	item: Pick<
+		PosOrderValues["productItems"][number],
+		"discountType" | "discountValue" | "discountReason"
+	>,
+) {
+	if (!item.discountType) {
+		return { discount_type: null, discount_value: null, discount_reason: null };
+	}
 
-type ComboLineRecord = {
-	order_id: string;
-	combo_id: string;
-	qty: number;
-	unit_price: number;
-	unit_cost: number;
-	line_total: number;
-	line_cost_total: number;
-};
+	return {
+		discount_type: item.discountType,
+		discount_value: roundCurrency(item.discountValue ?? 0),
+		discount_reason: item.discountReason ?? null,
+	};
+}
 
-type LineItemInsertRecord = Record<string, unknown> & {
-	line_total?: number;
-	line_cost_total?: number;
+type CreateSaleResult = {
+	orderId: string;
+	receiptNumber: string | null;
+	profitAmount: number;
 };
 
-function isGeneratedColumnError(error: PostgrestError | null): boolean {
-	if (!error?.message) {
-		return false;
+function mapSaleRpcError(
+	result: Extract<CreatePosSaleRpcResult, { success: false }>,
+): ActionErrorRecord {
+	if (isPromoCodeError(result.error)) {
+		return { promoCode: [PROMO_CODE_ERROR_MESSAGES[result.error]] };
 	}
 
-	const message = error.message.toLowerCase();
-	return (
-		message.includes("non-default value") ||
-		message.includes("generated column")
-	);
-}
-
-async function insertLineItemsWithFallback(
-	adminClient: ReturnType<typeof createSupabaseAdminClient>,
-	table: string,
-	records: LineItemInsertRecord[],
-): Promise<void> {
-	if (!records.length) {
-		return;
+	switch (result.error) {
+		case "empty_sale":
+			return { items: ["Agrega al menos un producto o combo"] };
+		case "register_closed":
+			return {
+				form: [
+					"La caja está cerrada. Abre una sesión de caja antes de registrar ventas.",
+				],
+			};
+		case "customer_not_found":
+			return {
+				form: [
+					"El cliente seleccionado ya no existe. Búscalo de nuevo o registra sus datos.",
+				],
+			};
+		case "missing_combos":
+			return {
+				form: [
+					"El combo seleccionado ya no existe. Recarga la página e inténtalo nuevamente.",
+				],
+			};
+		case "empty_combo":
+			return {
+				form: [
+					`El combo ${
+						result.combo_name ?? ""
+					} no tiene productos asociados. Revisa su configuración.`,
+				],
+			};
+		case "missing_products":
+			return {
+				form: [
+					`No pudimos encontrar inventario para: ${(
+						result.product_ids ?? []
+					).join(", ")}. Verifica que existan y estén activos.`,
+				],
+			};
+		case "insufficient_stock": {
+			const shortProducts = (result.short_products ?? []).map(
+				(product) =>
+					`${product.name ?? "Producto"} (disponible: ${safeNumber(
+						product.available,
+					)}, requerido: ${safeNumber(product.required)})`,
+			);
+			return {
+				form: [
+					`Inventario insuficiente para: ${shortProducts.join(
+						", ",
+					)}. Actualiza existencias e inténtalo de nuevo.`,
+				],
+				shortProducts,
+			};
+		}
+		case "invalid_discount":
+			return {
+				discounts: [
+					"Revisa los descuentos: cada uno necesita un valor válido y un motivo.",
+				],
+			};
+		case "invalid_payment":
+			return {
+				payments: [
+					"Revisa los pagos: cada uno necesita un método y un monto mayor a cero.",
+				],
+			};
+		case "payment_mismatch":
+			return {
+				payments: [
+					`Los pagos suman ${roundCurrency(
+						safeNumber(result.paid_amount),
+					).toFixed(2)} pero el total de la venta es ${roundCurrency(
+						safeNumber(result.total_amount),
+					).toFixed(2)}.`,
+				],
+			};
+		default:
+			return {
+				form: [
+					"No pudimos registrar la venta. Verifica la información e inténtalo nuevamente.",
+				],
+			};
 	}
+}
 
-	const variants: Array<
-		(record: LineItemInsertRecord) => Record<string, unknown>
-	> = [
-		(record) => ({ ...record }),
-		(record) => {
-			if (!("line_total" in record)) {
-				return { ...record };
-			}
+export async function createSaleAction(
+	formData: FormData,
+): Promise<ActionResult<CreateSaleResult>> {
+	try {
+		const payload = parsePosForm(formData);
+		const { user, role } = await requireRoutePermission("/pos");
+		const adminClient = createSupabaseAdminClient();
 
-			const { line_total: _ignored, ...rest } = record;
-			return { ...rest };
-		},
-		(record) => {
-			const {
-				line_total: _ignoredLineTotal,
-				line_cost_total: _ignoredLineCostTotal,
-				...rest
-			} = record;
-			return { ...rest };
-		},
-	];
+		const receiptNumber =
+			payload.receiptNumber ??
+			(payload.paymentMethod === "transfer"
+				? generateReceiptNumber()
+				: generateReceiptNumber());
 
-	let lastError: PostgrestError | null = null;
+		const { data, error } = await adminClient.rpc("create_pos_sale", {
+			payload: {
+				receipt_number: receiptNumber,
+				customer_id: payload.customerId ?? null,
+				customer_name: payload.customerName ?? null,
+				customer_phone: payload.customerPhone ?? null,
+				customer_email: payload.customerEmail ?? null,
+				notes: payload.notes ?? null,
+				payment_method: resolveOrderPaymentMethod(
+					payload.payments,
+					payload.paymentMethod,
+				),
+				payment_reference:
+					payload.payments.length === 0 && payload.paymentMethod === "transfer"
+						? payload.receiptNumber ?? receiptNumber
+						: null,
+				payments: payload.payments.map((tender) => ({
+					method: tender.method,
+					amount: roundCurrency(tender.amount),
+					tendered_amount:
+						tender.tendered === undefined
+							? null
+							: roundCurrency(tender.tendered),
+					reference: tender.reference ?? null,
+				})),
+				discount_amount: roundCurrency(payload.discountAmount ?? 0),
+				discount_reason: payload.discountReason ?? null,
+				promo_code: payload.promoCode ?? null,
+				tax_amount: roundCurrency(payload.taxAmount ?? 0),
+				currency: payload.currency ?? "NIO",
+				created_by: user.id,
+				product_items: payload.productItems.map((item) => ({
+					product_id: item.productId,
+					qty: Math.max(1, item.qty),
+					unit_price: roundCurrency(item.unitPrice),
+					...toLineDiscountPayload(item),
+				})),
+				combo_items: payload.comboItems.map((item) => ({
+					combo_id: item.comboId,
+					qty: Math.max(1, item.qty),
+					unit_price: roundCurrency(item.unitPrice),
+					...toLineDiscountPayload(item),
+				})),
+			},
+		});
 
-	for (const buildPayload of variants) {
-		const payload = records.map((record) => buildPayload(record));
-		const { error } = await adminClient.from(table).insert(payload);
+		if (error) {
+			throw new Error(error.message);
+		}
 
-		if (!error) {
-			return;
+		const result = data as CreatePosSaleRpcResult | null;
+		if (!result) {
+			throw new Error("No pudimos registrar la venta");
 		}
 
-		if (!isGeneratedColumnError(error)) {
-			throw new Error(error.message);
+		if (!result.success) {
+			return { success: false, errors: mapSaleRpcError(result) };
 		}
 
-		lastError = error;
-	}
+		await recordAuditEvent(adminClient, {
+			actor: user,
+			action: "order.sale",
+			entityType: "order",
+			entityId: result.order_id,
+			after: {
+				receipt_number: result.receipt_number ?? receiptNumber,
+				payment_method: result.payment_method,
+				payments: payload.payments.map((tender) => ({
+					method: tender.method,
+					amount: roundCurrency(tender.amount),
+				})),
+				total_amount: roundCurrency(safeNumber(result.total_amount)),
+				discount_amount: roundCurrency(safeNumber(result.discount_amount)),
+				discount_reason: payload.discountReason ?? null,
+				promo_code: result.promo_code ?? null,
+				line_discounts: [...payload.productItems, ...payload.comboItems]
+					.filter((item) => item.discountType)
+					.map((item) => ({
+						type: item.discountType,
+						value: item.discountValue,
+						reason: item.discountReason,
+					})),
+				customer_id: payload.customerId ?? null,
+				product_items: payload.productItems.length,
+				combo_items: payload.comboItems.length,
+			},
+		});
 
-	if (lastError) {
-		throw new Error(lastError.message);
-	}
-}
+		revalidatePath("/pos");
+		revalidatePath("/orders");
+		revalidatePath("/inventory");
+		revalidatePath("/dashboard");
 
-type InventoryRequirement = {
-	name: string;
-	required: number;
-	available: number;
-	status: string | null;
-};
+		return {
+			success: true,
+			data: {
+				orderId: result.order_id,
+				receiptNumber: result.receipt_number ?? receiptNumber,
+				profitAmount: hasStaffPermission(role, "viewCosts")
+					? roundCurrency(safeNumber(result.profit_amount))
+					: 0,
+			},
+			message: "Venta registrada correctamente",
+		};
+	} catch (error) {
+		if (error instanceof z.ZodError) {
+			return { success: false, errors: flattenErrors(error) };
+		}
 
-type CreateSaleResult = {
-	orderId: string;
-	receiptNumber: string | null;
-	profitAmount: number;
-};
+		if (error instanceof StaffAuthorizationError) {
+			return {
+				success: false,
+				errors: { form: [STAFF_AUTHORIZATION_MESSAGES[error.reason]] },
+			};
+		}
 
-export async function createSaleAction(
-	formData: FormData,
-): Promise<ActionResult<CreateSaleResult>> {
-	let createdOrderId: string | null = null;
+		if (error instanceof MissingEnvironmentVariableError) {
+			return {
+				success: false,
+				errors: {
+					form: [
+						`Falta configurar la variable de entorno ${error.envVar}. Revisa la guía de instalación para obtener el valor correcto.`,
+					],
+				},
+			};
+		}
 
-	try {
-		const payload = parsePosForm(formData);
-		const supabase = await createSupabaseServerClient();
-		const adminClient = createSupabaseAdminClient();
+		console.error("[createSaleAction]", error);
+
+		return {
+			success: false,
+			errors: {
+				form: [
+					"No pudimos registrar la venta. Verifica la información e inténtalo nuevamente.",
+				],
+			},
+		};
+	}
+}
 
-		const [{ data: authData }] = await Promise.all([supabase.auth.getUser()]);
+export async function searchCustomersAction(
+	input: z.input<typeof customerSearchSchema>,
+): Promise<ActionResult<CustomerSummary[]>> {
+	try {
+		const { query } = customerSearchSchema.parse(input);
+		await requireRoutePermission("/pos");
 
-		const directProductIds = new Set(
-			payload.productItems.map((item) => item.productId),
+		const customers = await listCustomerSummaries(
+			createSupabaseAdminClient(),
+			{ search: query, limit: 6 },
 		);
-		const comboIds = new Set(payload.comboItems.map((item) => item.comboId));
-
-		let combos: ComboRow[] = [];
-		if (comboIds.size) {
-			const { data, error } = await adminClient
-				.from("combos")
-				.select("id, name, packaging_cost, combo_items(product_id, qty)")
-				.in("id", Array.from(comboIds));
 
-			if (error) {
-				throw new Error(error.message);
-			}
+		return { success: true, data: customers };
+	} catch (error) {
+		if (error instanceof z.ZodError) {
+			return { success: false, errors: flattenErrors(error) };
+		}
 
-			combos = (data ?? []) as ComboRow[];
+		if (error instanceof StaffAuthorizationError) {
+			return {
+				success: false,
+				errors: { form: [STAFF_AUTHORIZATION_MESSAGES[error.reason]] },
+			};
 		}
 
-		const comboItemsProductIds = new Set<string>();
-		for (const combo of combos) {
-			for (const item of combo.combo_items ?? []) {
-				if (item?.product_id) {
-					comboItemsProductIds.add(item.product_id);
-				}
-			}
+		if (error instanceof MissingEnvironmentVariableError) {
+			return {
+				success: false,
+				errors: {
+					form: [
+						`Falta configurar la variable de entorno ${error.envVar}. Revisa la guía de instalación para obtener el valor correcto.`,
+					],
+				},
+			};
 		}
 
-		const allProductIds = new Set<string>([
-			...directProductIds,
-			...comboItemsProductIds,
-		]);
-		const productMap = new Map<string, ProductRow>();
+		console.error("[searchCustomersAction]", error);
 
-		if (allProductIds.size) {
-			const { data, error } = await adminClient
-				.from("products")
-				.select("id, name, cost_price, quantity, status")
-				.in("id", Array.from(allProductIds));
+		return {
+			success: false,
+			errors: { form: ["No pudimos buscar clientes. Inténtalo nuevamente."] },
+		};
+	}
+}
 
-			if (error) {
-				throw new Error(error.message);
-			}
+/**
+ * Checks a promo code at the till so the discount shows before charging.
+ * `create_pos_sale` validates it again when the sale is registered.
+ */
+export async function lookupPromoCodeAction(
+	input: z.input<typeof promoCodeLookupSchema>,
+): Promise<ActionResult<PromoCode>> {
+	try {
+		const { code, subtotal } = promoCodeLookupSchema.parse(input);
+		await requireRoutePermission("/pos");
 
-			for (const product of (data ?? []) as ProductRow[]) {
-				productMap.set(product.id, product);
-			}
+		const promo = await fetchPromoCodeByCode(createSupabaseAdminClient(), code);
+		if (!promo) {
+			return {
+				success: false,
+				errors: { promoCode: [PROMO_CODE_ERROR_MESSAGES.promo_not_found] },
+			};
 		}
 
-		const missingProducts: string[] = [];
-		for (const productId of allProductIds) {
-			if (!productMap.has(productId)) {
-				missingProducts.push(productId);
-			}
+		const evaluation = evaluatePromoCode(promo, subtotal);
+		if (!evaluation.success) {
+			return {
+				success: false,
+				errors: { promoCode: [PROMO_CODE_ERROR_MESSAGES[evaluation.error]] },
+			};
+		}
+
+		return { success: true, data: promo };
+	} catch (error) {
+		if (error instanceof z.ZodError) {
+			return { success: false, errors: flattenErrors(error) };
+		}
+
+		if (error instanceof StaffAuthorizationError) {
+			return {
+				success: false,
+				errors: { form: [STAFF_AUTHORIZATION_MESSAGES[error.reason]] },
+			};
 		}
 
-		if (missingProducts.length) {
+		if (error instanceof MissingEnvironmentVariableError) {
 			return {
 				success: false,
 				errors: {
 					form: [
-						`No pudimos encontrar inventario para: ${missingProducts.join(
-							", ",
-						)}. Verifica que existan y estén activos.`,
+						`Falta configurar la variable de entorno ${error.envVar}. Revisa la guía de instalación para obtener el valor correcto.`,
 					],
 				},
 			};
 		}
 
-		const productLineRecords: ProductLineRecord[] = [];
-		const comboLineRecords: ComboLineRecord[] = [];
-		const requirements = new Map<string, InventoryRequirement>();
+		console.error("[lookupPromoCodeAction]", error);
 
-		for (const item of payload.productItems) {
-			const product = productMap.get(item.productId);
-			if (!product) {
-				return {
-					success: false,
-					errors: {
-						form: [
-							`El producto con ID ${item.productId} no existe. Recarga la página e inténtalo nuevamente.`,
-						],
-					},
-				};
-			}
+		return {
+			success: false,
+			errors: {
+				promoCode: ["No pudimos validar el código. Inténtalo nuevamente."],
+			},
+		};
+	}
+}
 
-			const unitCost = roundCurrency(safeNumber(product.cost_price));
-			const unitPrice = roundCurrency(item.unitPrice);
-			const qty = Math.max(1, item.qty);
-			const lineTotal = roundCurrency(unitPrice * qty);
-			const lineCostTotal = roundCurrency(unitCost * qty);
-
-			productLineRecords.push({
-				order_id: "",
-				product_id: item.productId,
-				qty,
-				unit_price: unitPrice,
-				unit_cost: unitCost,
-				line_total: lineTotal,
-				line_cost_total: lineCostTotal,
-			});
-
-			const available = safeNumber(product.quantity);
-			const existing = requirements.get(item.productId);
-			const required = (existing?.required ?? 0) + qty;
-
-			requirements.set(item.productId, {
-				name: product.name ?? "Producto",
-				required,
-				available,
-				status: existing?.status ?? product.status ?? null,
-			});
-		}
-
-		const comboMap = new Map<string, ComboRow>();
-		for (const combo of combos) {
-			comboMap.set(combo.id, combo);
-		}
-
-		for (const item of payload.comboItems) {
-			const combo = comboMap.get(item.comboId);
-			if (!combo) {
-				return {
-					success: false,
-					errors: {
-						form: [
-							`El combo seleccionado ya no existe. Recarga la página e inténtalo nuevamente.`,
-						],
-					},
-				};
-			}
+type CloseRegisterRpcResult =
+	| {
+			success: true;
+			session_id: string;
+			expected_cash: number;
+			counted_cash: number;
+			cash_variance: number;
+	  }
+	| {
+			success: false;
+			error: "invalid_count" | "session_not_found" | "session_closed";
+	  };
+
+function revalidateRegisterPaths(sessionId?: string) {
+	revalidatePath("/pos");
+	revalidatePath("/pos/sessions");
+	if (sessionId) {
+		revalidatePath(`/pos/sessions/${sessionId}`);
+	}
+}
 
-			const components = combo.combo_items ?? [];
-			if (!components.length) {
+export async function openRegisterSessionAction(
+	formData: FormData,
+): Promise<ActionResult<{ sessionId: string }>> {
+	try {
+		const payload = registerOpenSchema.parse({
+			openingFloat: formData.get("openingFloat"),
+			notes: formData.get("notes"),
+		});
+		const { user } = await requireRoutePermission("/pos");
+		const adminClient = createSupabaseAdminClient();
+
+		const { data, error } = await adminClient
+			.from("register_sessions")
+			.insert({
+				opening_float: roundCurrency(payload.openingFloat),
+				opening_notes: payload.notes ?? null,
+				opened_by: user.id,
+			})
+			.select("id")
+			.single();
+
+		if (error) {
+			// The partial unique index allows a single open session.
+			if (error.code === "23505") {
 				return {
 					success: false,
 					errors: {
 						form: [
-							`El combo ${combo.name} no tiene productos asociados. Revisa su configuración.`,
+							"Ya hay una caja abierta. Recarga la página para continuar con esa sesión.",
 						],
 					},
 				};
 			}
+			throw new Error(error.message);
+		}
 
-			const qty = Math.max(1, item.qty);
-			let comboUnitCost = roundCurrency(safeNumber(combo.packaging_cost));
-
-			for (const component of components) {
-				if (!component?.product_id) {
-					continue;
-				}
-
-				const product = productMap.get(component.product_id);
-				if (!product) {
-					return {
-						success: false,
-						errors: {
-							form: [
-								`El producto requerido por el combo ${combo.name} no está disponible. Actualiza el combo e inténtalo nuevamente.`,
-							],
-						},
-					};
-				}
-
-				const componentQty = Math.max(1, component.qty ?? 0);
-				const requiredQty = componentQty * qty;
-				const unitCost = roundCurrency(safeNumber(product.cost_price));
-				comboUnitCost = roundCurrency(comboUnitCost + unitCost * componentQty);
-
-				const existing = requirements.get(component.product_id);
-				const available = safeNumber(product.quantity);
-				requirements.set(component.product_id, {
-					name: product.name ?? "Producto",
-					required: (existing?.required ?? 0) + requiredQty,
-					available,
-					status: existing?.status ?? product.status ?? null,
-				});
-			}
+		await recordAuditEvent(adminClient, {
+			actor: user,
+			action: "register_session.open",
+			entityType: "register_session",
+			entityId: data.id,
+			after: {
+				opening_float: roundCurrency(payload.openingFloat),
+				notes: payload.notes ?? null,
+			},
+		});
 
-			const unitPrice = roundCurrency(item.unitPrice);
-			const lineTotal = roundCurrency(unitPrice * qty);
-			const lineCostTotal = roundCurrency(comboUnitCost * qty);
-
-			comboLineRecords.push({
-				order_id: "",
-				combo_id: item.comboId,
-				qty,
-				unit_price: unitPrice,
-				unit_cost: comboUnitCost,
-				line_total: lineTotal,
-				line_cost_total: lineCostTotal,
-			});
-		}
-
-		const insufficientProducts: string[] = [];
-		for (const requirement of requirements.values()) {
-			if (requirement.available < requirement.required) {
-				insufficientProducts.push(
-					`${requirement.name} (disponible: ${requirement.available}, requerido: ${requirement.required})`,
-				);
-			}
+		revalidateRegisterPaths();
+
+		return {
+			success: true,
+			data: { sessionId: data.id },
+			message: "Caja abierta correctamente",
+		};
+	} catch (error) {
+		if (error instanceof z.ZodError) {
+			return { success: false, errors: flattenErrors(error) };
 		}
 
-		if (insufficientProducts.length) {
+		if (error instanceof StaffAuthorizationError) {
+			return {
+				success: false,
+				errors: { form: [STAFF_AUTHORIZATION_MESSAGES[error.reason]] },
+			};
+		}
+
+		if (error instanceof MissingEnvironmentVariableError) {
 			return {
 				success: false,
 				errors: {
 					form: [
-						`Inventario insuficiente para: ${insufficientProducts.join(
-							", ",
-						)}. Actualiza existencias e inténtalo de nuevo.`,
+						`Falta configurar la variable de entorno ${error.envVar}. Revisa la guía de instalación para obtener el valor correcto.`,
 					],
 				},
 			};
 		}
 
-		const subtotal = roundCurrency(
-			productLineRecords.reduce((acc, line) => acc + line.line_total, 0) +
-				comboLineRecords.reduce((acc, line) => acc + line.line_total, 0),
-		);
-		const discount = Math.max(0, roundCurrency(payload.discountAmount ?? 0));
-		const tax = Math.max(0, roundCurrency(payload.taxAmount ?? 0));
-		const totalCost = roundCurrency(
-			productLineRecords.reduce((acc, line) => acc + line.line_cost_total, 0) +
-				comboLineRecords.reduce((acc, line) => acc + line.line_cost_total, 0),
-		);
-		let total = roundCurrency(subtotal - discount + tax);
-		if (total < 0) {
-			total = 0;
+		console.error("[openRegisterSessionAction]", error);
+
+		return {
+			success: false,
+			errors: { form: ["No pudimos abrir la caja. Inténtalo nuevamente."] },
+		};
+	}
+}
+
+export async function recordCashMovementAction(
+	formData: FormData,
+): Promise<ActionResult<{ id: number }>> {
+	try {
+		const payload = registerCashMovementSchema.parse({
+			sessionId: formData.get("sessionId"),
+			kind: formData.get("kind"),
+			amount: formData.get("amount"),
+			reason: formData.get("reason"),
+		});
+		const { user } = await requireRoutePermission("/pos");
+		const adminClient = createSupabaseAdminClient();
+
+		const { data: session, error: sessionError } = await adminClient
+			.from("register_sessions")
+			.select("id, status")
+			.eq("id", payload.sessionId)
+			.maybeSingle();
+
+		if (sessionError) {
+			throw new Error(sessionError.message);
 		}
-		const profit = roundCurrency(total - totalCost);
 
-		const receiptNumber =
-			payload.receiptNumber ??
-			(payload.paymentMethod === "transfer"
-				? generateReceiptNumber()
-				: generateReceiptNumber());
+		if (!session || session.status !== "open") {
+			return {
+				success: false,
+				errors: {
+					form: ["La sesión de caja ya está cerrada. Recarga la página."],
+				},
+			};
+		}
 
-		const { data: order, error: orderError } = await adminClient
-			.from("orders")
+		const { data, error } = await adminClient
+			.from("register_cash_movements")
 			.insert({
-				receipt_number: receiptNumber,
-				customer_name: payload.customerName ?? null,
-				customer_phone: payload.customerPhone ?? null,
-				notes: payload.notes ?? null,
-				status: "completed",
-				payment_method: payload.paymentMethod,
-				payment_reference:
-					payload.paymentMethod === "transfer"
-						? payload.receiptNumber ?? receiptNumber
-						: null,
-				subtotal_amount: subtotal,
-				discount_amount: discount,
-				tax_amount: tax,
-				total_amount: total,
-				total_cost: totalCost,
-				profit_amount: profit,
-				currency: payload.currency ?? "NIO",
-				created_by: authData?.user?.id ?? null,
+				session_id: payload.sessionId,
+				kind: payload.kind,
+				amount: roundCurrency(payload.amount),
+				reason: payload.reason,
+				created_by: user.id,
 			})
-			.select("id, receipt_number")
+			.select("id")
 			.single();
 
-		if (orderError || !order) {
-			console.log(orderError);
-			throw new Error(orderError?.message ?? "No pudimos registrar la venta");
-		}
-
-		createdOrderId = order.id;
-
-		if (productLineRecords.length) {
-			const productRecordsWithOrder: LineItemInsertRecord[] =
-				productLineRecords.map((record) => ({
-					order_id: order.id,
-					product_id: record.product_id,
-					qty: record.qty,
-					unit_price: record.unit_price,
-					unit_cost: record.unit_cost,
-					line_total: record.line_total,
-					line_cost_total: record.line_cost_total,
-				}));
-
-			await insertLineItemsWithFallback(
-				adminClient,
-				"order_product_items",
-				productRecordsWithOrder,
-			);
+		if (error) {
+			throw new Error(error.message);
 		}
 
-		if (comboLineRecords.length) {
-			const comboRecordsWithOrder: LineItemInsertRecord[] =
-				comboLineRecords.map((record) => ({
-					order_id: order.id,
-					combo_id: record.combo_id,
-					qty: record.qty,
-					unit_price: record.unit_price,
-					unit_cost: record.unit_cost,
-					line_total: record.line_total,
-					line_cost_total: record.line_cost_total,
-				}));
-
-			await insertLineItemsWithFallback(
-				adminClient,
-				"order_combo_items",
-				comboRecordsWithOrder,
-			);
+		await recordAuditEvent(adminClient, {
+			actor: user,
+			action: "register_session.cash_movement",
+			entityType: "register_session",
+			entityId: payload.sessionId,
+			after: {
+				kind: payload.kind,
+				amount: roundCurrency(payload.amount),
+				reason: payload.reason,
+			},
+		});
+
+		revalidateRegisterPaths(payload.sessionId);
+
+		return {
+			success: true,
+			data: { id: data.id },
+			message:
+				payload.kind === "cash_in"
+					? "Entrada de efectivo registrada"
+					: "Salida de efectivo registrada",
+		};
+	} catch (error) {
+		if (error instanceof z.ZodError) {
+			return { success: false, errors: flattenErrors(error) };
 		}
 
-		const inventoryUpdates = Array.from(requirements.entries()).map(
-			([productId, requirement]) => ({
-				productId,
-				newQuantity: Math.max(requirement.available - requirement.required, 0),
-				previousQuantity: requirement.available,
-				previousStatus: requirement.status ?? null,
-			}),
-		);
+		if (error instanceof StaffAuthorizationError) {
+			return {
+				success: false,
+				errors: { form: [STAFF_AUTHORIZATION_MESSAGES[error.reason]] },
+			};
+		}
 
-		for (let index = 0; index < inventoryUpdates.length; index += 1) {
-			const update = inventoryUpdates[index];
-			const updatePayload: Record<string, unknown> = {
-				quantity: update.newQuantity,
+		if (error instanceof MissingEnvironmentVariableError) {
+			return {
+				success: false,
+				errors: {
+					form: [
+						`Falta configurar la variable de entorno ${error.envVar}. Revisa la guía de instalación para obtener el valor correcto.`,
+					],
+				},
 			};
+		}
 
-			if (update.newQuantity <= 0) {
-				updatePayload.status = "archived";
-			}
+		console.error("[recordCashMovementAction]", error);
 
-			const { error: updateError } = await adminClient
-				.from("products")
-				.update(updatePayload)
-				.eq("id", update.productId);
-
-			if (updateError) {
-				for (let revertIndex = 0; revertIndex < index; revertIndex += 1) {
-					const revert = inventoryUpdates[revertIndex];
-					const revertPayload: Record<string, unknown> = {
-						quantity: revert.previousQuantity,
-					};
-
-					if (typeof revert.previousStatus === "string") {
-						revertPayload.status = revert.previousStatus;
-					}
-
-					await adminClient
-						.from("products")
-						.update(revertPayload)
-						.eq("id", revert.productId);
-				}
-
-				throw new Error(updateError.message);
-			}
+		return {
+			success: false,
+			errors: { form: ["No pudimos registrar el movimiento de caja. Inténtalo nuevamente."] },
+		};
+	}
+}
+
+export async function closeRegisterSessionAction(
+	formData: FormData,
+): Promise<
+	ActionResult<{
+		sessionId: string;
+		expectedCash: number;
+		countedCash: number;
+		cashVariance: number;
+	}>
+> {
+	try {
+		const payload = registerCloseSchema.parse({
+			sessionId: formData.get("sessionId"),
+			countedCash: formData.get("countedCash"),
+			notes: formData.get("notes"),
+		});
+		const { user } = await requireRoutePermission("/pos");
+		const adminClient = createSupabaseAdminClient();
+
+		const { data, error } = await adminClient.rpc("close_register_session", {
+			payload: {
+				session_id: payload.sessionId,
+				counted_cash: roundCurrency(payload.countedCash ?? 0),
+				notes: payload.notes ?? null,
+				closed_by: user.id,
+			},
+		});
+
+		if (error) {
+			throw new Error(error.message);
 		}
 
+		const result = data as CloseRegisterRpcResult | null;
+		if (!result) {
+			throw new Error("No pudimos cerrar la caja");
+		}
+
+		if (!result.success) {
+			return {
+				success: false,
+				errors:
+					result.error === "invalid_count"
+						? { countedCash: ["Ingresa el efectivo contado"] }
+						: {
+								form: [
+									"La sesión de caja ya fue cerrada o no existe. Recarga la página.",
+								],
+						  },
+			};
+		}
+
+		const summary = {
+			expectedCash: roundCurrency(safeNumber(result.expected_cash)),
+			countedCash: roundCurrency(safeNumber(result.counted_cash)),
+			cashVariance: roundCurrency(safeNumber(result.cash_variance)),
+		};
+
+		await recordAuditEvent(adminClient, {
+			actor: user,
+			action: "register_session.close",
+			entityType: "register_session",
+			entityId: result.session_id,
+			before: { status: "open" },
+			after: {
+				status: "closed",
+				expected_cash: summary.expectedCash,
+				counted_cash: summary.countedCash,
+				cash_variance: summary.cashVariance,
+			},
+		});
+
+		revalidateRegisterPaths(result.session_id);
+
 		return {
 			success: true,
-			data: {
-				orderId: order.id,
-				receiptNumber: order.receipt_number ?? receiptNumber,
-				profitAmount: profit,
-			},
-			message: "Venta registrada correctamente",
+			data: { sessionId: result.session_id, ...summary },
+			message: "Caja cerrada correctamente",
 		};
 	} catch (error) {
 		if (error instanceof z.ZodError) {
 			return { success: false, errors: flattenErrors(error) };
 		}
 
+		if (error instanceof StaffAuthorizationError) {
+			return {
+				success: false,
+				errors: { form: [STAFF_AUTHORIZATION_MESSAGES[error.reason]] },
+			};
+		}
+
 		if (error instanceof MissingEnvironmentVariableError) {
 			return {
 				success: false,
@@ -596,27 +838,11 @@ export async function createSaleAction(
 			};
 		}
 
-		console.error("[createSaleAction]", error);
-
-		if (createdOrderId) {
-			try {
-				const adminClient = createSupabaseAdminClient();
-				await adminClient.from("orders").delete().eq("id", createdOrderId);
-			} catch (cleanupError) {
-				console.error(
-					"[createSaleAction] Failed to cleanup order",
-					cleanupError,
-				);
-			}
-		}
+		console.error("[closeRegisterSessionAction]", error);
 
 		return {
 			success: false,
-			errors: {
-				form: [
-					"No pudimos registrar la venta. Verifica la información e inténtalo nuevamente.",
-				],
-			},
+			errors: { form: ["No pudimos cerrar la caja. Inténtalo nuevamente."] },
 		};
 	}
 }
@@ -1,9 +1,23 @@
-import { redirect } from "next/navigation";
-
 import DashboardShell from "@/components/dashboard-shell";
+import { buildableComboCount } from "@/lib/combo-availability";
+import {
+	fetchOpenRegisterSession,
+	fetchRegisterSessionReport,
+} from "@/lib/register-sessions";
+import { requireStaffPage } from "@/lib/staff";
+import { hasStaffPermission } from "@/lib/staff-roles";
+import {
+	availableQuantity,
+	fetchReservedQuantities,
+} from "@/lib/stock-reservations";
+import { createSupabaseAdminClient } from "@/lib/supabase-admin";
 import { createSupabaseServerClient } from "@/lib/supabase-server";
 
 import { PosTerminal } from "./_components/pos-terminal";
+import {
+	RegisterSessionPanel,
+	type RegisterSessionSummary,
+} from "./_components/register-session-panel";
 
 const DEFAULT_CURRENCY = "NIO";
 
@@ -17,12 +31,13 @@ type ProductRow = {
 	currency: string | null;
 	status: string | null;
 	image_path: string | null;
+	product_barcodes: { code: string }[] | null;
 };
 
 type ComboItemRow = {
 	product_id: string | null;
 	qty: number | null;
-	products: { id: string; name: string } | null;
+	pos_products: { id: string; name: string } | null;
 };
 
 type ComboRow = {
@@ -51,30 +66,27 @@ function parseNumber(value: number | string | null | undefined) {
 }
 
 export default async function PosPage() {
+	const { user, role } = await requireStaffPage("sellAtPos");
+	const showCosts = hasStaffPermission(role, "viewCosts");
 	const supabase = await createSupabaseServerClient();
-	const {
-		data: { user },
-	} = await supabase.auth.getUser();
-
-	if (!user) {
-		redirect("/login");
-	}
 
+	// Cashiers can't read the product and order tables; the pos_* views blank
+	// the cost columns for them.
 	const [productsResponse, combosResponse, ordersResponse] = await Promise.all([
 		supabase
-			.from("products")
+			.from("pos_products")
 			.select(
-				"id, name, sku, sell_price, cost_price, quantity, currency, status, image_path",
+				"id, name, sku, sell_price, cost_price, quantity, currency, status, image_path, product_barcodes(code)",
 			)
 			.order("name", { ascending: true }),
 		supabase
 			.from("combos")
 			.select(
-				"id, name, suggested_price, packaging_cost, status, image_path, combo_items(product_id, qty, products(id, name))",
+				"id, name, suggested_price, packaging_cost, status, image_path, combo_items(product_id, qty, pos_products(id, name))",
 			)
 			.order("name", { ascending: true }),
 		supabase
-			.from("orders")
+			.from("pos_orders")
 			.select(
 				"id, total_amount, total_cost, profit_amount, created_at, payment_method",
 			)
@@ -85,6 +97,28 @@ export default async function PosPage() {
 	const rawProducts = (productsResponse?.data ?? []) as ProductRow[];
 	const rawCombos = (combosResponse?.data ?? []) as ComboRow[];
 	const rawOrders = (ordersResponse?.data ?? []) as OrderRow[];
+	const reservedQuantities = await fetchReservedQuantities(supabase);
+
+	// Refunds feed the expected cash and are hidden from cashiers by RLS.
+	const openSession = await fetchOpenRegisterSession(supabase);
+	const sessionReport = openSession
+		? await fetchRegisterSessionReport(
+				createSupabaseAdminClient(),
+				openSession.id,
+		  )
+		: null;
+	const registerSession: RegisterSessionSummary | null = sessionReport
+		? {
+				id: sessionReport.session.id,
+				openedAt: sessionReport.session.openedAt,
+				openingFloat: sessionReport.session.openingFloat,
+				salesCount: sessionReport.report.salesCount,
+				netSales: sessionReport.report.netSales,
+				cashIn: sessionReport.report.cashIn,
+				cashOut: sessionReport.report.cashOut,
+				expectedCash: sessionReport.report.expectedCash,
+		  }
+		: null;
 
 	const activeProducts = rawProducts
 		.filter((product) => (product.status ?? "active") === "active")
@@ -96,34 +130,53 @@ export default async function PosPage() {
 				id: product.id,
 				name: product.name,
 				sku: product.sku,
+				barcodes: (product.product_barcodes ?? []).map(
+					(barcode) => barcode.code,
+				),
 				price,
-				cost,
-				quantity: product.quantity,
+				cost: showCosts ? cost : 0,
+				quantity: availableQuantity(
+					product.quantity,
+					reservedQuantities.get(product.id),
+				),
+				reservedQuantity: reservedQuantities.get(product.id) ?? 0,
 				currency: product.currency ?? DEFAULT_CURRENCY,
 				imageUrl: product.image_path ?? null,
 			};
 		});
 
+	const availableByProduct = new Map(
+		rawProducts.map((product) => [
+			product.id,
+			availableQuantity(product.quantity, reservedQuantities.get(product.id)),
+		]),
+	);
+
 	const activeCombos = rawCombos
 		.filter((combo) => (combo.status ?? "active") === "active")
-		.map((combo) => ({
-			id: combo.id,
-			name: combo.name,
-			price: Math.max(parseNumber(combo.suggested_price), 0),
-			currency: DEFAULT_CURRENCY,
-			packagingCost: parseNumber(combo.packaging_cost),
-			imageUrl: combo.image_path ?? null,
-			items: (combo.combo_items ?? [])
+		.map((combo) => {
+			const items = (combo.combo_items ?? [])
 				.filter(
 					(item): item is ComboItemRow & { product_id: string; qty: number } =>
 						Boolean(item?.product_id) && Number.isFinite(item?.qty ?? NaN),
 				)
 				.map((item) => ({
 					productId: item.product_id as string,
-					productName: item.products?.name ?? "Producto",
+					productName: item.pos_products?.name ?? "Producto",
 					qty: Math.max(1, parseNumber(item.qty)),
-				})),
-		}));
+				}));
+
+			return {
+				id: combo.id,
+				name: combo.name,
+				price: Math.max(parseNumber(combo.suggested_price), 0),
+				currency: DEFAULT_CURRENCY,
+				packagingCost: showCosts ? parseNumber(combo.packaging_cost) : 0,
+				imageUrl: combo.image_path ?? null,
+				items,
+				buildableQty: buildableComboCount(items, availableByProduct),
+			};
+		});
 
 	const currency =
 		activeProducts[0]?.currency ??
@@ -183,18 +236,25 @@ export default async function PosPage() {
 			currentPath='/pos'
 			title='Punto de venta'
 			description='Registra ventas, controla comprobantes y visualiza tus márgenes en tiempo real.'>
-			<PosTerminal
-				products={activeProducts}
-				combos={activeCombos}
-				currency={currency}
-				earnings={{
-					totalRevenue,
-					totalProfit,
-					todayRevenue,
-					todayProfit,
-					recent,
-				}}
-			/>
+			<div className='space-y-4 lg:space-y-6'>
+				<RegisterSessionPanel session={registerSession} currency={currency} />
+				<PosTerminal
+					registerOpen={registerSession !== null}
+					products={activeProducts}
+					combos={activeCombos}
+					currency={currency}
+					earnings={{
+						totalRevenue,
+						totalProfit: showCosts ? totalProfit : 0,
+						todayRevenue,
+						todayProfit: showCosts ? todayProfit : 0,
+						recent: showCosts
+							? recent
+							: recent.map((sale) => ({ ...sale, profitAmount: 0 })),
+					}}
+					showCosts={showCosts}
+				/>
+			</div>
 		</DashboardShell>
 	);
 }
@@ -0,0 +1,87 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+import DashboardShell from "@/components/dashboard-shell";
+import { fetchRegisterSessionReport } from "@/lib/register-sessions";
+import { requireStaffPage } from "@/lib/staff";
+import { createSupabaseAdminClient } from "@/lib/supabase-admin";
+
+import { ZReportCard } from "../_components/z-report";
+
+export const dynamic = "force-dynamic";
+export const fetchCache = "force-no-store";
+export const revalidate = 0;
+
+const UUID_PATTERN =
+	/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export default async function RegisterSessionPage({
+	params,
+}: {
+	params: Promise<{ id: string }>;
+}) {
+	const { user } = await requireStaffPage("sellAtPos");
+
+	const { id } = await params;
+	if (!UUID_PATTERN.test(id)) {
+		notFound();
+	}
+
+	// Cashiers print the Z-report too, but RLS hides refunds from them.
+	const admin = createSupabaseAdminClient();
+	const result = await fetchRegisterSessionReport(admin, id).catch(
+		(error) => {
+			console.error("[register sessions] report", error);
+			return null;
+		},
+	);
+
+	if (!result) {
+		notFound();
+	}
+
+	const { session, movements, report } = result;
+	const staffIds = Array.from(
+		new Set(
+			[session.openedBy, session.closedBy].filter(
+				(value): value is string => Boolean(value),
+			),
+		),
+	);
+	const staffEmails = new Map(
+		await Promise.all(
+			staffIds.map(async (staffId) => {
+				const { data } = await admin.auth.admin.getUserById(staffId);
+				return [staffId, data.user?.email ?? null] as const;
+			}),
+		),
+	);
+
+	return (
+		<DashboardShell
+			user={user}
+			currentPath='/pos'
+			title={session.status === "closed" ? "Cierre de caja" : "Caja abierta"}
+			description='Ventas por método de pago, movimientos de efectivo y cuadre de la sesión.'
+			action={
+				<Link
+					href='/pos/sessions'
+					className='inline-flex items-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm transition hover:bg-gray-100'>
+					Volver al historial
+				</Link>
+			}>
+			<ZReportCard
+				session={session}
+				movements={movements}
+				report={report}
+				openedByEmail={
+					session.openedBy ? (staffEmails.get(session.openedBy) ?? null) : null
+				}
+				closedByEmail={
+					session.closedBy ? (staffEmails.get(session.closedBy) ?? null) : null
+				}
+				currency='NIO'
+			/>
+		</DashboardShell>
+	);
+}
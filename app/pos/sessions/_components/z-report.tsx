@@ -0,0 +1,286 @@
+"use client";
+
+import { useCallback, useRef } from "react";
+
+import { THERMAL_PRINT_STYLES } from "@/app/orders/_components/order-receipt";
+import { PAYMENT_METHOD_LABELS, type TenderMethod } from "@/lib/payments";
+import {
+	CASH_MOVEMENT_LABELS,
+	type RegisterCashMovement,
+	type RegisterSession,
+	type ZReport,
+} from "@/lib/register-sessions";
+
+type ZReportCardProps = {
+	session: RegisterSession;
+	movements: RegisterCashMovement[];
+	report: ZReport;
+	openedByEmail: string | null;
+	closedByEmail: string | null;
+	currency: string;
+};
+
+const TENDER_METHODS: TenderMethod[] = ["cash", "card", "transfer"];
+
+function formatCurrency(value: number, currency: string) {
+	return new Intl.NumberFormat("es-NI", {
+		style: "currency",
+		currency,
+		minimumFractionDigits: 2,
+	}).format(Number.isFinite(value) ? value : 0);
+}
+
+function formatDateTime(isoDate: string) {
+	try {
+		return new Intl.DateTimeFormat("es-NI", {
+			dateStyle: "medium",
+			timeStyle: "short",
+		}).format(new Date(isoDate));
+	} catch {
+		return isoDate;
+	}
+}
+
+function formatVariance(variance: number, currency: string) {
+	if (Math.abs(variance) < 0.005) return "Cuadrada";
+	return `${variance > 0 ? "Sobrante" : "Faltante"} ${formatCurrency(
+		Math.abs(variance),
+		currency,
+	)}`;
+}
+
+export function ZReportCard({
+	session,
+	movements,
+	report,
+	openedByEmail,
+	closedByEmail,
+	currency,
+}: ZReportCardProps) {
+	const reportRef = useRef<HTMLDivElement>(null);
+	const isClosed = session.status === "closed";
+
+	const handlePrint = useCallback(() => {
+		if (!reportRef.current) return;
+
+		const printWindow = window.open("", "z-report", "width=720,height=900");
+		if (!printWindow) return;
+
+		printWindow.document.write(`<!DOCTYPE html>
+<html lang="es">
+<head>
+<meta charset="utf-8" />
+<title>Reporte ${isClosed ? "Z" : "X"}</title>
+<style>${THERMAL_PRINT_STYLES}</style>
+</head>
+<body>
+${reportRef.current.innerHTML}
+</body>
+</html>`);
+		printWindow.document.close();
+		printWindow.focus();
+		printWindow.print();
+		printWindow.close();
+	}, [isClosed]);
+
+	return (
+		<section className='rounded-lg border border-gray-200 bg-white p-6 shadow-sm'>
+			<div className='flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between'>
+				<div>
+					<h2 className='text-lg font-semibold text-gray-900'>
+						{isClosed ? "Reporte Z" : "Reporte X (caja abierta)"}
+					</h2>
+					<p className='text-sm text-gray-500'>
+						{isClosed
+							? "Resumen del cierre de caja con formato térmico."
+							: "Totales parciales; el efectivo esperado puede cambiar hasta el cierre."}
+					</p>
+				</div>
+				<button
+					type='button'
+					onClick={handlePrint}
+					className='inline-flex items-center justify-center rounded-md bg-blush-500 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-blush-400'>
+					Imprimir reporte
+				</button>
+			</div>
+			<div className='mt-4 flex justify-center'>
+				<div ref={reportRef} className='thermal-receipt'>
+					<div className='thermal-receipt__header'>
+						<p>Inventario Girlee</p>
+						<p className='thermal-receipt__subtitle'>
+							{isClosed ? "Reporte Z · Cierre de caja" : "Reporte X · Parcial"}
+						</p>
+					</div>
+					<div className='thermal-meta'>
+						<div className='thermal-meta__line'>
+							<span>Apertura</span>
+							<span>{formatDateTime(session.openedAt)}</span>
+						</div>
+						{openedByEmail ? (
+							<div className='thermal-meta__line'>
+								<span>Abrió</span>
+								<span>{openedByEmail}</span>
+							</div>
+						) : null}
+						{session.closedAt ? (
+							<div className='thermal-meta__line'>
+								<span>Cierre</span>
+								<span>{formatDateTime(session.closedAt)}</span>
+							</div>
+						) : null}
+						{closedByEmail ? (
+							<div className='thermal-meta__line'>
+								<span>Cerró</span>
+								<span>{closedByEmail}</span>
+							</div>
+						) : null}
+					</div>
+					<div className='thermal-receipt__divider' />
+					<div className='thermal-summary'>
+						<div className='thermal-summary-row'>
+							<span>Ventas ({report.salesCount})</span>
+							<span>{formatCurrency(report.grossSales, currency)}</span>
+						</div>
+						<div className='thermal-summary-row'>
+							<span>Descuentos</span>
+							<span>{formatCurrency(-report.discounts, currency)}</span>
+						</div>
+						{report.lineDiscounts > 0 ? (
+							<div className='thermal-summary-row'>
+								<span>· Por línea</span>
+								<span>{formatCurrency(-report.lineDiscounts, currency)}</span>
+							</div>
+						) : null}
+						{report.promoDiscounts > 0 ? (
+							<div className='thermal-summary-row'>
+								<span>· Códigos promocionales</span>
+								<span>{formatCurrency(-report.promoDiscounts, currency)}</span>
+							</div>
+						) : null}
+						<div className='thermal-summary-row'>
+							<span>Impuestos</span>
+							<span>{formatCurrency(report.taxes, currency)}</span>
+						</div>
+						<div className='thermal-summary-row is-total'>
+							<span>Venta neta</span>
+							<span>{formatCurrency(report.netSales, currency)}</span>
+						</div>
+					</div>
+					<div className='thermal-receipt__divider' />
+					<table className='thermal-table'>
+						<thead>
+							<tr>
+								<th>Método</th>
+								<th>Pagos</th>
+								<th>Importe</th>
+							</tr>
+						</thead>
+						<tbody>
+							{TENDER_METHODS.map((method) => (
+								<tr key={method}>
+									<td>{PAYMENT_METHOD_LABELS[method]}</td>
+									<td>{report.byMethod[method].count}</td>
+									<td>
+										{formatCurrency(report.byMethod[method].amount, currency)}
+									</td>
+								</tr>
+							))}
+						</tbody>
+					</table>
+					<div className='thermal-summary'>
+						<div className='thermal-summary-row'>
+							<span>Cambio entregado</span>
+							<span>{formatCurrency(report.changeGiven, currency)}</span>
+						</div>
+						<div className='thermal-summary-row'>
+							<span>Reembolsos ({report.refundsCount})</span>
+							<span>{formatCurrency(-report.refunds, currency)}</span>
+						</div>
+					</div>
+					<div className='thermal-receipt__divider' />
+					<div className='thermal-summary'>
+						<div className='thermal-summary-row'>
+							<span>Fondo inicial</span>
+							<span>{formatCurrency(report.openingFloat, currency)}</span>
+						</div>
+						<div className='thermal-summary-row'>
+							<span>Ventas en efectivo</span>
+							<span>{formatCurrency(report.byMethod.cash.amount, currency)}</span>
+						</div>
+						<div className='thermal-summary-row'>
+							<span>Entradas</span>
+							<span>{formatCurrency(report.cashIn, currency)}</span>
+						</div>
+						<div className='thermal-summary-row'>
+							<span>Salidas</span>
+							<span>{formatCurrency(-report.cashOut, currency)}</span>
+						</div>
+						<div className='thermal-summary-row'>
+							<span>Reembolsos en efectivo</span>
+							<span>{formatCurrency(-report.cashRefunds, currency)}</span>
+						</div>
+						<div className='thermal-summary-row is-total'>
+							<span>Efectivo esperado</span>
+							<span>{formatCurrency(report.expectedCash, currency)}</span>
+						</div>
+						{report.countedCash !== null ? (
+							<div className='thermal-summary-row'>
+								<span>Efectivo contado</span>
+								<span>{formatCurrency(report.countedCash, currency)}</span>
+							</div>
+						) : null}
+						{report.variance !== null ? (
+							<div className='thermal-summary-row is-total'>
+								<span>Diferencia</span>
+								<span>{formatVariance(report.variance, currency)}</span>
+							</div>
+						) : null}
+					</div>
+					{movements.length ? (
+						<>
+							<div className='thermal-receipt__divider' />
+							<table className='thermal-table'>
+								<thead>
+									<tr>
+										<th>Movimiento</th>
+										<th>Hora</th>
+										<th>Monto</th>
+									</tr>
+								</thead>
+								<tbody>
+									{movements.map((movement) => (
+										<tr key={movement.id}>
+											<td>
+												{CASH_MOVEMENT_LABELS[movement.kind]}
+												<br />
+												<small>{movement.reason}</small>
+											</td>
+											<td>
+												{new Intl.DateTimeFormat("es-NI", {
+													timeStyle: "short",
+												}).format(new Date(movement.createdAt))}
+											</td>
+											<td>
+												{formatCurrency(
+													movement.kind === "cash_in"
+														? movement.amount
+														: -movement.amount,
+													currency,
+												)}
+											</td>
+										</tr>
+									))}
+								</tbody>
+							</table>
+						</>
+					) : null}
+					{session.closingNotes ? (
+						<div className='thermal-notes'>
+							<strong>Notas:</strong> {session.closingNotes}
+						</div>
+					) : null}
+				</div>
+			</div>
+		</section>
+	);
+}
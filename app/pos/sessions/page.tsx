@@ -0,0 +1,137 @@
+import Link from "next/link";
+
+import DashboardShell from "@/components/dashboard-shell";
+import {
+	listRegisterSessions,
+	type RegisterSession,
+} from "@/lib/register-sessions";
+import { requireStaffPage } from "@/lib/staff";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+
+import { VarianceLabel } from "../_components/register-session-panel";
+
+export const dynamic = "force-dynamic";
+export const fetchCache = "force-no-store";
+export const revalidate = 0;
+
+const CURRENCY = "NIO";
+
+function formatCurrency(value: number | null, currency: string) {
+	if (value === null) return "—";
+	return new Intl.NumberFormat("es-NI", {
+		style: "currency",
+		currency,
+		minimumFractionDigits: 2,
+	}).format(value);
+}
+
+function formatDate(raw: string | null) {
+	if (!raw) return "—";
+	try {
+		return new Intl.DateTimeFormat("es-NI", {
+			dateStyle: "medium",
+			timeStyle: "short",
+		}).format(new Date(raw));
+	} catch {
+		return raw;
+	}
+}
+
+export default async function RegisterSessionsPage() {
+	const { user } = await requireStaffPage("sellAtPos");
+	const supabase = await createSupabaseServerClient();
+
+	let sessions: RegisterSession[] = [];
+	let loadError = false;
+	try {
+		sessions = await listRegisterSessions(supabase, { limit: 60 });
+	} catch (error) {
+		console.error("[register sessions] list", error);
+		loadError = true;
+	}
+
+	return (
+		<DashboardShell
+			user={user}
+			currentPath='/pos'
+			title='Cierres de caja'
+			description='Sesiones de caja con su fondo inicial, efectivo contado y diferencia.'
+			action={
+				<Link
+					href='/pos'
+					className='inline-flex items-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm transition hover:bg-gray-100'>
+					Volver al POS
+				</Link>
+			}>
+			{loadError ? (
+				<div className='rounded-lg border border-red-200 bg-red-50 p-6 text-sm text-red-700'>
+					No pudimos cargar las sesiones de caja.
+				</div>
+			) : sessions.length === 0 ? (
+				<div className='rounded-lg border border-gray-200 bg-white p-12 text-center text-sm text-gray-500 shadow-sm'>
+					Aún no se ha abierto ninguna caja.
+				</div>
+			) : (
+				<div className='overflow-x-auto rounded-lg border border-gray-200 bg-white shadow-sm'>
+					<table className='min-w-full divide-y divide-gray-200 text-sm'>
+						<thead className='bg-gray-50 text-xs font-semibold uppercase tracking-wider text-gray-500'>
+							<tr>
+								<th className='px-4 py-3 text-left'>Apertura</th>
+								<th className='px-4 py-3 text-left'>Cierre</th>
+								<th className='px-4 py-3 text-left'>Fondo inicial</th>
+								<th className='px-4 py-3 text-left'>Esperado</th>
+								<th className='px-4 py-3 text-left'>Contado</th>
+								<th className='px-4 py-3 text-left'>Diferencia</th>
+								<th className='px-4 py-3 text-right'>Reporte</th>
+							</tr>
+						</thead>
+						<tbody className='divide-y divide-gray-200'>
+							{sessions.map((session) => (
+								<tr key={session.id} className='hover:bg-blush-50'>
+									<td className='px-4 py-4 text-gray-900'>
+										{formatDate(session.openedAt)}
+									</td>
+									<td className='px-4 py-4 text-gray-700'>
+										{session.status === "open" ? (
+											<span className='inline-flex items-center rounded-full bg-emerald-100 px-2 py-0.5 text-xs font-semibold text-emerald-700'>
+												Abierta
+											</span>
+										) : (
+											formatDate(session.closedAt)
+										)}
+									</td>
+									<td className='px-4 py-4 text-gray-700'>
+										{formatCurrency(session.openingFloat, CURRENCY)}
+									</td>
+									<td className='px-4 py-4 text-gray-700'>
+										{formatCurrency(session.expectedCash, CURRENCY)}
+									</td>
+									<td className='px-4 py-4 text-gray-700'>
+										{formatCurrency(session.countedCash, CURRENCY)}
+									</td>
+									<td className='px-4 py-4'>
+										{session.cashVariance === null ? (
+											<span className='text-gray-400'>—</span>
+										) : (
+											<VarianceLabel
+												variance={session.cashVariance}
+												currency={CURRENCY}
+											/>
+										)}
+									</td>
+									<td className='px-4 py-4 text-right'>
+										<Link
+											href={`/pos/sessions/${session.id}`}
+											className='text-sm font-medium text-blush-600 hover:underline'>
+											{session.status === "open" ? "Reporte X" : "Reporte Z"}
+										</Link>
+									</td>
+								</tr>
+							))}
+						</tbody>
+					</table>
+				</div>
+			)}
+		</DashboardShell>
+	);
+}
@@ -0,0 +1,210 @@
+"use client";
+
+import { useMemo, useState, useTransition } from "react";
+
+import type { RepricingRow } from "@/lib/repricing";
+import type { RepricingFilters } from "@/lib/schemas";
+
+import { applyRepricingAction } from "../actions";
+
+type RepricingTableProps = {
+	rows: RepricingRow[];
+	filters: RepricingFilters;
+};
+
+function formatCurrency(value: number, currency: string) {
+	return new Intl.NumberFormat("es-NI", {
+		style: "currency",
+		currency,
+		minimumFractionDigits: 2,
+	}).format(value);
+}
+
+function formatPct(value: number) {
+	return `${value.toFixed(1)} %`;
+}
+
+export function RepricingTable({ rows, filters }: RepricingTableProps) {
+	const changedRows = useMemo(
+		() => rows.filter((row) => row.currentPrice !== row.suggestedPrice),
+		[rows],
+	);
+	const [selected, setSelected] = useState<Set<string>>(
+		() => new Set(changedRows.map((row) => row.productId)),
+	);
+	const [message, setMessage] = useState<string | null>(null);
+	const [errors, setErrors] = useState<string[]>([]);
+	const [isPending, startTransition] = useTransition();
+
+	const allSelected =
+		changedRows.length > 0 && selected.size === changedRows.length;
+
+	function toggle(productId: string) {
+		setSelected((current) => {
+			const next = new Set(current);
+			if (next.has(productId)) {
+				next.delete(productId);
+			} else {
+				next.add(productId);
+			}
+			return next;
+		});
+	}
+
+	function toggleAll() {
+		setSelected(
+			allSelected ? new Set() : new Set(changedRows.map((row) => row.productId)),
+		);
+	}
+
+	function handleApply() {
+		setMessage(null);
+		setErrors([]);
+
+		startTransition(async () => {
+			const result = await applyRepricingAction({
+				filters,
+				productIds: Array.from(selected),
+			});
+
+			if (!result.success) {
+				setErrors(Object.values(result.errors).flat());
+				return;
+			}
+
+			setMessage(result.message ?? "Precios actualizados");
+			setSelected(new Set());
+		});
+	}
+
+	if (rows.length === 0) {
+		return (
+			<div className='rounded-lg border border-dashed border-blush-200 bg-white p-10 text-center text-sm text-gray-500'>
+				No hay productos con costo registrado para estos filtros.
+			</div>
+		);
+	}
+
+	return (
+		<div className='space-y-4'>
+			<div className='flex flex-wrap items-center justify-between gap-3'>
+				<p className='text-sm text-gray-600'>
+					{changedRows.length} de {rows.length} producto(s) cambiarían de
+					precio · {selected.size} seleccionado(s)
+				</p>
+				<button
+					type='button'
+					onClick={handleApply}
+					disabled={isPending || selected.size === 0}
+					className='inline-flex items-center rounded-md bg-blush-500 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-blush-400 disabled:cursor-not-allowed disabled:opacity-70'>
+					{isPending ? "Aplicando…" : "Aplicar seleccionados"}
+				</button>
+			</div>
+
+			{message ? (
+				<p className='rounded-md border border-green-200 bg-green-50 px-3 py-2 text-sm text-green-700'>
+					{message}
+				</p>
+			) : null}
+			{errors.length ? (
+				<div className='rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700'>
+					<ul className='list-disc pl-4'>
+						{errors.map((error, index) => (
+							<li key={index}>{error}</li>
+						))}
+					</ul>
+				</div>
+			) : null}
+
+			<div className='overflow-x-auto rounded-lg border border-gray-200 bg-white shadow-sm'>
+				<table className='min-w-full divide-y divide-gray-200 text-sm'>
+					<thead className='bg-gray-50 text-xs font-semibold uppercase tracking-wider text-gray-500'>
+						<tr>
+							<th className='px-4 py-3 text-left'>
+								<input
+									type='checkbox'
+									checked={allSelected}
+									onChange={toggleAll}
+									disabled={changedRows.length === 0}
+									aria-label='Seleccionar todos'
+									className='h-4 w-4 rounded border-gray-300 text-blush-500 focus:ring-blush-300'
+								/>
+							</th>
+							<th className='px-4 py-3 text-left'>Producto</th>
+							<th className='px-4 py-3 text-right'>Costo</th>
+							<th className='px-4 py-3 text-right'>Precio actual</th>
+							<th className='px-4 py-3 text-right'>Sugerido</th>
+							<th className='px-4 py-3 text-right'>Margen</th>
+							<th className='px-4 py-3 text-left'>Regla</th>
+						</tr>
+					</thead>
+					<tbody className='divide-y divide-gray-200'>
+						{rows.map((row) => {
+							const unchanged = row.currentPrice === row.suggestedPrice;
+							const priceDelta =
+								row.currentPrice === null
+									? null
+									: row.suggestedPrice - row.currentPrice;
+
+							return (
+								<tr
+									key={row.productId}
+									className={unchanged ? "text-gray-400" : "hover:bg-blush-50"}>
+									<td className='px-4 py-3'>
+										<input
+											type='checkbox'
+											checked={selected.has(row.productId)}
+											onChange={() => toggle(row.productId)}
+											disabled={unchanged}
+											aria-label={`Seleccionar ${row.name}`}
+											className='h-4 w-4 rounded border-gray-300 text-blush-500 focus:ring-blush-300'
+										/>
+									</td>
+									<td className='px-4 py-3'>
+										<p className='font-medium text-gray-900'>{row.name}</p>
+										<p className='text-xs text-gray-500'>
+											{[row.sku, row.categoryName, row.brand]
+												.filter(Boolean)
+												.join(" · ") || "—"}
+										</p>
+									</td>
+									<td className='px-4 py-3 text-right'>
+										{formatCurrency(row.costPrice, row.currency)}
+									</td>
+									<td className='px-4 py-3 text-right'>
+										{row.currentPrice === null
+											? "—"
+											: formatCurrency(row.currentPrice, row.currency)}
+									</td>
+									<td className='px-4 py-3 text-right'>
+										<span className='font-medium text-gray-900'>
+											{formatCurrency(row.suggestedPrice, row.currency)}
+										</span>
+										{priceDelta ? (
+											<p
+												className={`text-xs ${
+													priceDelta > 0 ? "text-emerald-600" : "text-red-600"
+												}`}>
+												{priceDelta > 0 ? "+" : ""}
+												{formatCurrency(priceDelta, row.currency)}
+											</p>
+										) : null}
+									</td>
+									<td className='px-4 py-3 text-right text-xs'>
+										{row.currentMarginPct === null
+											? "—"
+											: formatPct(row.currentMarginPct)}{" "}
+										→ {formatPct(row.suggestedMarginPct)}
+									</td>
+									<td className='px-4 py-3 text-xs text-gray-600'>
+										{row.ruleName ?? "Márgenes predeterminados"}
+									</td>
+								</tr>
+							);
+						})}
+					</tbody>
+				</table>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { useState, useTransition } from "react";
+
+import { rollbackRepricingRunAction } from "../actions";
+
+type RollbackRunButtonProps = {
+	runId: number;
+	itemCount: number;
+	restorableCount: number;
+};
+
+export function RollbackRunButton({
+	runId,
+	itemCount,
+	restorableCount,
+}: RollbackRunButtonProps) {
+	const [feedback, setFeedback] = useState<{
+		tone: "success" | "error";
+		text: string;
+	} | null>(null);
+	const [isPending, startTransition] = useTransition();
+
+	function handleClick() {
+		if (
+			!window.confirm(
+				`¿Restaurar el precio anterior de ${restorableCount} de ${itemCount} producto(s)? Los productos repreciados después no se tocarán.`,
+			)
+		) {
+			return;
+		}
+
+		setFeedback(null);
+		startTransition(async () => {
+			const result = await rollbackRepricingRunAction(runId);
+			setFeedback(
+				result.success
+					? { tone: "success", text: result.message ?? "Lote revertido" }
+					: {
+							tone: "error",
+							text: result.errors.form?.[0] ?? "No pudimos revertir el lote.",
+						},
+			);
+		});
+	}
+
+	return (
+		<div className='flex flex-col items-end gap-1'>
+			<button
+				type='button'
+				onClick={handleClick}
+				disabled={isPending}
+				className='inline-flex items-center rounded-md border border-red-200 px-3 py-1.5 text-xs font-medium text-red-600 transition hover:bg-red-50 disabled:cursor-not-allowed disabled:opacity-60'>
+				{isPending ? "Revirtiendo…" : "Revertir"}
+			</button>
+			{feedback ? (
+				<p
+					className={`text-xs ${
+						feedback.tone === "success" ? "text-emerald-600" : "text-red-600"
+					}`}>
+					{feedback.text}
+				</p>
+			) : null}
+		</div>
+	);
+}
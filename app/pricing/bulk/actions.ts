@@ -0,0 +1,242 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+
+import type { ActionErrorRecord, ActionResult } from "@/lib/actions";
+import { recordAuditEvent } from "@/lib/audit";
+import { buildRepricingPreview } from "@/lib/repricing";
+import { repricingApplySchema } from "@/lib/schemas";
+import {
+	STAFF_AUTHORIZATION_MESSAGES,
+	StaffAuthorizationError,
+	requireRoutePermission,
+} from "@/lib/staff";
+import {
+	MissingEnvironmentVariableError,
+	createSupabaseAdminClient,
+} from "@/lib/supabase-admin";
+
+const runIdSchema = z.coerce
+	.number({ invalid_type_error: "Lote inválido" })
+	.int("Lote inválido")
+	.positive("Lote inválido");
+
+type ApplyRepricingRpcResult =
+	| { success: true; run_id: number; item_count: number }
+	| { success: false; error: "empty_run" | "no_changes" };
+
+type RollbackRepricingRpcResult =
+	| { success: true; restored: number; skipped: number }
+	| { success: false; error: "run_not_found" | "already_rolled_back" };
+
+function flattenErrors(error: z.ZodError): ActionErrorRecord {
+	const { fieldErrors, formErrors } = error.flatten();
+	return {
+		...(Object.fromEntries(
+			Object.entries(fieldErrors).map(([key, value]) => [key, value ?? []]),
+		) as ActionErrorRecord),
+		...(formErrors.length ? { form: formErrors } : {}),
+	};
+}
+
+function revalidateRepricing() {
+	revalidatePath("/pricing/bulk");
+	revalidatePath("/inventory");
+	revalidatePath("/dashboard");
+}
+
+/**
+ * Recomputes the suggestion for the selected products on the server, so the
+ * prices written are the ones the current rules produce rather than whatever
+ * the browser sent, and applies them as one run.
+ */
+export async function applyRepricingAction(
+	input: unknown,
+): Promise<ActionResult<{ runId: number; itemCount: number }>> {
+	try {
+		const payload = repricingApplySchema.parse(input);
+		const { user } = await requireRoutePermission("/pricing/bulk");
+		const adminClient = createSupabaseAdminClient();
+
+		const rows = await buildRepricingPreview(
+			adminClient,
+			payload.filters,
+			payload.productIds,
+		);
+		const items = rows
+			.filter((row) => row.currentPrice !== row.suggestedPrice)
+			.map((row) => ({
+				product_id: row.productId,
+				new_price: row.suggestedPrice,
+				rule_id: row.ruleId,
+			}));
+
+		if (items.length === 0) {
+			return {
+				success: false,
+				errors: {
+					form: ["Los productos seleccionados ya tienen el precio sugerido."],
+				},
+			};
+		}
+
+		const { data, error } = await adminClient.rpc("apply_repricing_run", {
+			payload: {
+				created_by: user.id,
+				filters: payload.filters,
+				items,
+			},
+		});
+
+		if (error) {
+			throw new Error(error.message);
+		}
+
+		const result = data as ApplyRepricingRpcResult | null;
+		if (!result) {
+			throw new Error("No pudimos aplicar los precios");
+		}
+
+		if (!result.success) {
+			return {
+				success: false,
+				errors: {
+					form: ["Los productos seleccionados ya tienen el precio sugerido."],
+				},
+			};
+		}
+
+		await recordAuditEvent(adminClient, {
+			actor: user,
+			action: "repricing_run.apply",
+			entityType: "repricing_run",
+			entityId: String(result.run_id),
+			after: {
+				filters: payload.filters,
+				item_count: result.item_count,
+				items,
+			},
+		});
+
+		revalidateRepricing();
+
+		return {
+			success: true,
+			data: { runId: result.run_id, itemCount: result.item_count },
+			message: `Se actualizaron ${result.item_count} precio(s)`,
+		};
+	} catch (error) {
+		if (error instanceof z.ZodError) {
+			return { success: false, errors: flattenErrors(error) };
+		}
+
+		if (error instanceof StaffAuthorizationError) {
+			return {
+				success: false,
+				errors: { form: [STAFF_AUTHORIZATION_MESSAGES[error.reason]] },
+			};
+		}
+
+		if (error instanceof MissingEnvironmentVariableError) {
+			return {
+				success: false,
+				errors: {
+					form: [
+						`Falta configurar la variable de entorno ${error.envVar}. Revisa la guía de instalación para obtener el valor correcto.`,
+					],
+				},
+			};
+		}
+
+		console.error("[applyRepricingAction]", error);
+		return {
+			success: false,
+			errors: {
+				form: ["No pudimos aplicar los precios. Inténtalo nuevamente."],
+			},
+		};
+	}
+}
+
+export async function rollbackRepricingRunAction(
+	runId: number,
+): Promise<ActionResult<{ restored: number; skipped: number }>> {
+	try {
+		const id = runIdSchema.parse(runId);
+		const { user } = await requireRoutePermission("/pricing/bulk");
+		const adminClient = createSupabaseAdminClient();
+
+		const { data, error } = await adminClient.rpc("rollback_repricing_run", {
+			payload: { run_id: id, rolled_back_by: user.id },
+		});
+
+		if (error) {
+			throw new Error(error.message);
+		}
+
+		const result = data as RollbackRepricingRpcResult | null;
+		if (!result) {
+			throw new Error("No pudimos revertir el lote");
+		}
+
+		if (!result.success) {
+			return {
+				success: false,
+				errors: {
+					form: [
+						result.error === "already_rolled_back"
+							? "Este lote ya fue revertido."
+							: "No encontramos el lote seleccionado.",
+					],
+				},
+			};
+		}
+
+		await recordAuditEvent(adminClient, {
+			actor: user,
+			action: "repricing_run.rollback",
+			entityType: "repricing_run",
+			entityId: String(id),
+			after: { restored: result.restored, skipped: result.skipped },
+		});
+
+		revalidateRepricing();
+
+		return {
+			success: true,
+			data: { restored: result.restored, skipped: result.skipped },
+			message: result.skipped
+				? `Se restauraron ${result.restored} precio(s); ${result.skipped} ya habían cambiado y se dejaron igual`
+				: `Se restauraron ${result.restored} precio(s)`,
+		};
+	} catch (error) {
+		if (error instanceof z.ZodError) {
+			return { success: false, errors: flattenErrors(error) };
+		}
+
+		if (error instanceof StaffAuthorizationError) {
+			return {
+				success: false,
+				errors: { form: [STAFF_AUTHORIZATION_MESSAGES[error.reason]] },
+			};
+		}
+
+		if (error instanceof MissingEnvironmentVariableError) {
+			return {
+				success: false,
+				errors: {
+					form: [
+						`Falta configurar la variable de entorno ${error.envVar}. Revisa la guía de instalación para obtener el valor correcto.`,
+					],
+				},
+			};
+		}
+
+		console.error("[rollbackRepricingRunAction]", error);
+		return {
+			success: false,
+			errors: { form: ["No pudimos revertir el lote. Inténtalo nuevamente."] },
+		};
+	}
+}
@@ -0,0 +1,273 @@
+import Link from "next/link";
+
+import DashboardShell from "@/components/dashboard-shell";
+import {
+	buildRepricingPreview,
+	listRepricingRuns,
+	type RepricingRow,
+	type RepricingRun,
+} from "@/lib/repricing";
+import { repricingFiltersSchema } from "@/lib/schemas";
+import { requireStaffPage } from "@/lib/staff";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+
+import { RepricingTable } from "./_components/repricing-table";
+import { RollbackRunButton } from "./_components/rollback-run-button";
+
+export const dynamic = "force-dynamic";
+
+const STATUS_OPTIONS = [
+	{ value: "active", label: "Activos" },
+	{ value: "draft", label: "Borradores" },
+	{ value: "all", label: "Activos y borradores" },
+];
+
+const dateFormatter = new Intl.DateTimeFormat("es-NI", {
+	dateStyle: "medium",
+	timeStyle: "short",
+	timeZone: "UTC",
+});
+
+const selectClassName =
+	"mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300";
+
+function readParam(
+	params: Record<string, string | string[] | undefined>,
+	key: string,
+) {
+	const value = params[key];
+	return Array.isArray(value) ? value[0] : value;
+}
+
+export default async function BulkRepricingPage({
+	searchParams,
+}: {
+	searchParams?: Promise<Record<string, string | string[] | undefined>>;
+}) {
+	const { user } = await requireStaffPage("managePricing");
+	const params = searchParams ? await searchParams : {};
+	const filters = repricingFiltersSchema.parse({
+		categoryId: readParam(params, "category"),
+		subcategoryId: readParam(params, "subcategory"),
+		brand: readParam(params, "brand"),
+		status: readParam(params, "status"),
+	});
+
+	const supabase = await createSupabaseServerClient();
+	const [{ data: categories }, { data: subcategories }, { data: brandRows }] =
+		await Promise.all([
+			supabase
+				.from("categories")
+				.select("id, name")
+				.order("name", { ascending: true }),
+			supabase
+				.from("subcategories")
+				.select("id, name, category_id")
+				.order("name", { ascending: true }),
+			supabase.from("products").select("meta").neq("status", "archived"),
+		]);
+
+	const brands = Array.from(
+		new Set(
+			((brandRows ?? []) as Array<{ meta: Record<string, unknown> | null }>)
+				.map((row) =>
+					typeof row.meta?.brand === "string" ? row.meta.brand.trim() : "",
+				)
+				.filter(Boolean),
+		),
+	).sort((a, b) => a.localeCompare(b, "es"));
+
+	let rows: RepricingRow[] = [];
+	let runs: RepricingRun[] = [];
+	let loadError = false;
+
+	try {
+		[rows, runs] = await Promise.all([
+			buildRepricingPreview(supabase, filters),
+			listRepricingRuns(supabase),
+		]);
+	} catch (error) {
+		console.error("[pricing] bulk preview", error);
+		loadError = true;
+	}
+
+	const visibleSubcategories = (subcategories ?? []).filter(
+		(subcategory: { category_id: number }) =>
+			!filters.categoryId ||
+			String(subcategory.category_id) === filters.categoryId,
+	);
+
+	return (
+		<DashboardShell
+			user={user}
+			currentPath='/pricing/bulk'
+			title='Repreciado masivo'
+			description='Recalcula precios con las reglas vigentes, revisa la diferencia y aplica solo lo que elijas.'
+			action={
+				<Link
+					href='/pricing/rules'
+					className='inline-flex items-center rounded-md border border-gray-200 px-3 py-1.5 text-sm font-medium text-gray-700 transition hover:bg-gray-100'>
+					Ver reglas
+				</Link>
+			}>
+			<div className='space-y-8'>
+				<form
+					method='get'
+					className='grid gap-4 rounded-lg border border-gray-200 bg-white p-4 shadow-sm md:grid-cols-5 md:items-end'>
+					<div>
+						<label
+							htmlFor='category'
+							className='text-sm font-medium text-gray-700'>
+							Categoría
+						</label>
+						<select
+							id='category'
+							name='category'
+							defaultValue={filters.categoryId ?? ""}
+							className={selectClassName}>
+							<option value=''>Todas</option>
+							{(categories ?? []).map(
+								(category: { id: number; name: string }) => (
+									<option key={category.id} value={category.id}>
+										{category.name}
+									</option>
+								),
+							)}
+						</select>
+					</div>
+					<div>
+						<label
+							htmlFor='subcategory'
+							className='text-sm font-medium text-gray-700'>
+							Subcategoría
+						</label>
+						<select
+							id='subcategory'
+							name='subcategory'
+							defaultValue={filters.subcategoryId ?? ""}
+							className={selectClassName}>
+							<option value=''>Todas</option>
+							{visibleSubcategories.map(
+								(subcategory: { id: number; name: string }) => (
+									<option key={subcategory.id} value={subcategory.id}>
+										{subcategory.name}
+									</option>
+								),
+							)}
+						</select>
+					</div>
+					<div>
+						<label htmlFor='brand' className='text-sm font-medium text-gray-700'>
+							Marca
+						</label>
+						<select
+							id='brand'
+							name='brand'
+							defaultValue={filters.brand ?? ""}
+							className={selectClassName}>
+							<option value=''>Todas</option>
+							{brands.map((brand) => (
+								<option key={brand} value={brand}>
+									{brand}
+								</option>
+							))}
+						</select>
+					</div>
+					<div>
+						<label htmlFor='status' className='text-sm font-medium text-gray-700'>
+							Estado
+						</label>
+						<select
+							id='status'
+							name='status'
+							defaultValue={filters.status}
+							className={selectClassName}>
+							{STATUS_OPTIONS.map((option) => (
+								<option key={option.value} value={option.value}>
+									{option.label}
+								</option>
+							))}
+						</select>
+					</div>
+					<div className='flex justify-end'>
+						<button
+							type='submit'
+							className='inline-flex items-center rounded-md border border-gray-200 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm transition hover:bg-gray-100'>
+							Calcular
+						</button>
+					</div>
+				</form>
+
+				{loadError ? (
+					<div className='rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700'>
+						No pudimos calcular los precios sugeridos. Inténtalo nuevamente.
+					</div>
+				) : (
+					<RepricingTable
+						key={rows
+							.map((row) => `${row.productId}:${row.currentPrice}`)
+							.join("|")}
+						rows={rows}
+						filters={filters}
+					/>
+				)}
+
+				<section className='space-y-3'>
+					<h2 className='text-lg font-semibold text-gray-900'>
+						Lotes aplicados
+					</h2>
+					{runs.length === 0 ? (
+						<p className='text-sm text-gray-500'>
+							Aún no se ha aplicado ningún repreciado.
+						</p>
+					) : (
+						<div className='overflow-hidden rounded-lg border border-gray-200 bg-white shadow-sm'>
+							<table className='min-w-full divide-y divide-gray-200 text-sm'>
+								<thead className='bg-gray-50 text-xs font-semibold uppercase tracking-wider text-gray-500'>
+									<tr>
+										<th className='px-4 py-3 text-left'>Lote</th>
+										<th className='px-4 py-3 text-left'>Fecha</th>
+										<th className='px-4 py-3 text-right'>Productos</th>
+										<th className='px-4 py-3 text-left'>Estado</th>
+										<th className='px-4 py-3 text-right'>Acciones</th>
+									</tr>
+								</thead>
+								<tbody className='divide-y divide-gray-200'>
+									{runs.map((run) => (
+										<tr key={run.id}>
+											<td className='px-4 py-3 font-mono text-gray-500'>
+												#{run.id}
+											</td>
+											<td className='px-4 py-3 text-gray-700'>
+												{dateFormatter.format(new Date(run.createdAt))}
+											</td>
+											<td className='px-4 py-3 text-right text-gray-700'>
+												{run.itemCount}
+											</td>
+											<td className='px-4 py-3 text-gray-700'>
+												{run.rolledBackAt
+													? `Revertido el ${dateFormatter.format(
+															new Date(run.rolledBackAt),
+														)}`
+													: "Aplicado"}
+											</td>
+											<td className='px-4 py-3'>
+												{run.rolledBackAt ? null : (
+													<RollbackRunButton
+														runId={run.id}
+														itemCount={run.itemCount}
+														restorableCount={run.restorableCount}
+													/>
+												)}
+											</td>
+										</tr>
+									))}
+								</tbody>
+							</table>
+						</div>
+					)}
+				</section>
+			</div>
+		</DashboardShell>
+	);
+}
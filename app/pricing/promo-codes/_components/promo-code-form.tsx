@@ -0,0 +1,212 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import {
+	useRef,
+	useState,
+	useTransition,
+	type FormEvent,
+	type ReactNode,
+} from "react";
+
+import type { ActionErrorRecord } from "@/lib/actions";
+import { DISCOUNT_TYPE_LABELS, type DiscountType } from "@/lib/discounts";
+
+import { createPromoCodeAction } from "../actions";
+
+const inputClassName =
+	"mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300";
+
+export function PromoCodeForm() {
+	const router = useRouter();
+	const formRef = useRef<HTMLFormElement>(null);
+	const [discountType, setDiscountType] = useState<DiscountType>("percentage");
+	const [errors, setErrors] = useState<ActionErrorRecord | null>(null);
+	const [successMessage, setSuccessMessage] = useState<string | null>(null);
+	const [isPending, startTransition] = useTransition();
+
+	function handleSubmit(event: FormEvent<HTMLFormElement>) {
+		event.preventDefault();
+		const formData = new FormData(event.currentTarget);
+
+		setErrors(null);
+		setSuccessMessage(null);
+
+		startTransition(async () => {
+			const result = await createPromoCodeAction(formData);
+			if (!result.success) {
+				setErrors(result.errors);
+				return;
+			}
+
+			formRef.current?.reset();
+			setDiscountType("percentage");
+			setSuccessMessage(result.message ?? "Código creado");
+			router.refresh();
+		});
+	}
+
+	return (
+		<form
+			ref={formRef}
+			onSubmit={handleSubmit}
+			className='space-y-6 rounded-xl border border-gray-200 bg-white p-6 shadow-sm'>
+			<div>
+				<h2 className='text-lg font-semibold text-gray-900'>Nuevo código</h2>
+				<p className='text-sm text-gray-500'>
+					Los códigos se aplican en el POS y en el checkout de la tienda sobre
+					el subtotal después de los descuentos por línea.
+				</p>
+			</div>
+			{successMessage ? (
+				<p className='rounded-md border border-green-200 bg-green-50 px-3 py-2 text-sm text-green-700'>
+					{successMessage}
+				</p>
+			) : null}
+			{errors?.form ? (
+				<div className='rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700'>
+					<ul className='list-disc pl-4'>
+						{errors.form.map((message, index) => (
+							<li key={index}>{message}</li>
+						))}
+					</ul>
+				</div>
+			) : null}
+
+			<section className='grid gap-4 sm:grid-cols-2'>
+				<Field label='Código' name='code' errors={errors}>
+					<input
+						id='code'
+						name='code'
+						type='text'
+						required
+						maxLength={32}
+						placeholder='Ej. BIENVENIDA10'
+						className={`${inputClassName} uppercase`}
+					/>
+				</Field>
+				<Field label='Descripción' name='description' errors={errors}>
+					<input
+						id='description'
+						name='description'
+						type='text'
+						placeholder='Opcional'
+						className={inputClassName}
+					/>
+				</Field>
+			</section>
+
+			<section className='grid gap-4 sm:grid-cols-3'>
+				<Field label='Tipo de descuento' name='discountType' errors={errors}>
+					<select
+						id='discountType'
+						name='discountType'
+						value={discountType}
+						onChange={(event) =>
+							setDiscountType(event.target.value as DiscountType)
+						}
+						className={inputClassName}>
+						{(Object.keys(DISCOUNT_TYPE_LABELS) as DiscountType[]).map(
+							(value) => (
+								<option key={value} value={value}>
+									{DISCOUNT_TYPE_LABELS[value]}
+								</option>
+							),
+						)}
+					</select>
+				</Field>
+				<Field
+					label={discountType === "percentage" ? "Porcentaje" : "Monto"}
+					name='discountValue'
+					errors={errors}>
+					<input
+						id='discountValue'
+						name='discountValue'
+						type='number'
+						required
+						min='0.01'
+						max={discountType === "percentage" ? "100" : undefined}
+						step='0.01'
+						placeholder={discountType === "percentage" ? "10" : "100.00"}
+						className={inputClassName}
+					/>
+				</Field>
+				<Field label='Compra mínima' name='minSubtotal' errors={errors}>
+					<input
+						id='minSubtotal'
+						name='minSubtotal'
+						type='number'
+						min='0'
+						step='0.01'
+						placeholder='0.00'
+						className={inputClassName}
+					/>
+				</Field>
+			</section>
+
+			<section className='grid gap-4 sm:grid-cols-3'>
+				<Field label='Vigente desde' name='startsAt' errors={errors}>
+					<input
+						id='startsAt'
+						name='startsAt'
+						type='datetime-local'
+						className={inputClassName}
+					/>
+				</Field>
+				<Field label='Vigente hasta' name='endsAt' errors={errors}>
+					<input
+						id='endsAt'
+						name='endsAt'
+						type='datetime-local'
+						className={inputClassName}
+					/>
+				</Field>
+				<Field label='Límite de usos' name='maxUses' errors={errors}>
+					<input
+						id='maxUses'
+						name='maxUses'
+						type='number'
+						min='1'
+						step='1'
+						placeholder='Sin límite'
+						className={inputClassName}
+					/>
+				</Field>
+			</section>
+
+			<div className='flex justify-end'>
+				<button
+					type='submit'
+					disabled={isPending}
+					className='inline-flex items-center rounded-md bg-blush-500 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-blush-400 disabled:cursor-not-allowed disabled:opacity-70'>
+					{isPending ? "Guardando…" : "Crear código"}
+				</button>
+			</div>
+		</form>
+	);
+}
+
+function Field({
+	label,
+	name,
+	errors,
+	children,
+}: {
+	label: string;
+	name: string;
+	errors: ActionErrorRecord | null;
+	children: ReactNode;
+}) {
+	const messages = errors?.[name];
+	return (
+		<div>
+			<label htmlFor={name} className='text-sm font-medium text-gray-700'>
+				{label}
+			</label>
+			{children}
+			{messages && messages.length > 0 ? (
+				<p className='mt-1 text-xs text-red-600'>{messages.join(" ")}</p>
+			) : null}
+		</div>
+	);
+}
@@ -0,0 +1,41 @@
+"use client";
+
+import { useState, useTransition } from "react";
+
+import { setPromoCodeActiveAction } from "../actions";
+
+type PromoCodeRowActionsProps = {
+	promoCodeId: string;
+	active: boolean;
+};
+
+export function PromoCodeRowActions({
+	promoCodeId,
+	active,
+}: PromoCodeRowActionsProps) {
+	const [error, setError] = useState<string | null>(null);
+	const [isPending, startTransition] = useTransition();
+
+	function toggle() {
+		setError(null);
+		startTransition(async () => {
+			const result = await setPromoCodeActiveAction(promoCodeId, !active);
+			if (!result.success) {
+				setError(result.errors.form?.[0] ?? "No pudimos guardar el cambio.");
+			}
+		});
+	}
+
+	return (
+		<div className='flex flex-col items-end gap-1'>
+			<button
+				type='button'
+				disabled={isPending}
+				onClick={toggle}
+				className='rounded-md border border-gray-200 px-3 py-1 text-xs font-medium text-gray-700 transition hover:bg-blush-100 disabled:cursor-not-allowed disabled:opacity-60'>
+				{active ? "Desactivar" : "Activar"}
+			</button>
+			{error ? <p className='text-xs text-red-600'>{error}</p> : null}
+		</div>
+	);
+}
@@ -0,0 +1,204 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+
+import type { ActionErrorRecord, ActionResult } from "@/lib/actions";
+import { recordAuditEvent } from "@/lib/audit";
+import { promoCodeFormSchema, type PromoCodeFormValues } from "@/lib/schemas";
+import {
+	STAFF_AUTHORIZATION_MESSAGES,
+	StaffAuthorizationError,
+	requireRoutePermission,
+} from "@/lib/staff";
+import {
+	MissingEnvironmentVariableError,
+	createSupabaseAdminClient,
+} from "@/lib/supabase-admin";
+
+const promoCodeIdSchema = z
+	.string({ invalid_type_error: "Código inválido" })
+	.uuid("Código inválido");
+
+function flattenErrors(error: z.ZodError): ActionErrorRecord {
+	const { fieldErrors, formErrors } = error.flatten();
+	return {
+		...(Object.fromEntries(
+			Object.entries(fieldErrors).map(([key, value]) => [key, value ?? []]),
+		) as ActionErrorRecord),
+		...(formErrors.length ? { form: formErrors } : {}),
+	};
+}
+
+function parsePromoCodeForm(formData: FormData) {
+	return promoCodeFormSchema.parse({
+		code: formData.get("code"),
+		description: formData.get("description"),
+		discountType: formData.get("discountType") ?? undefined,
+		discountValue: formData.get("discountValue"),
+		minSubtotal: formData.get("minSubtotal"),
+		startsAt: formData.get("startsAt"),
+		endsAt: formData.get("endsAt"),
+		maxUses: formData.get("maxUses"),
+	});
+}
+
+function buildPromoCodeRecord(values: PromoCodeFormValues) {
+	return {
+		code: values.code,
+		description: values.description ?? null,
+		discount_type: values.discountType,
+		discount_value: values.discountValue,
+		min_subtotal: values.minSubtotal,
+		starts_at: values.startsAt ?? null,
+		ends_at: values.endsAt ?? null,
+		max_uses: values.maxUses ?? null,
+	};
+}
+
+function revalidatePromoCodes() {
+	revalidatePath("/pricing/promo-codes");
+}
+
+export async function createPromoCodeAction(
+	formData: FormData,
+): Promise<ActionResult<{ id: string }>> {
+	try {
+		const values = parsePromoCodeForm(formData);
+		const { user } = await requireRoutePermission("/pricing/promo-codes");
+		const adminClient = createSupabaseAdminClient();
+		const record = buildPromoCodeRecord(values);
+
+		const { data, error } = await adminClient
+			.from("promo_codes")
+			.insert({ ...record, created_by: user.id })
+			.select("id")
+			.single();
+
+		if (error?.code === "23505") {
+			return {
+				success: false,
+				errors: { code: ["Ya existe un código con ese nombre"] },
+			};
+		}
+
+		if (error || !data) {
+			throw new Error(error?.message ?? "No pudimos crear el código");
+		}
+
+		await recordAuditEvent(adminClient, {
+			actor: user,
+			action: "promo_code.create",
+			entityType: "promo_code",
+			entityId: data.id,
+			after: record,
+		});
+
+		revalidatePromoCodes();
+
+		return {
+			success: true,
+			data: { id: data.id },
+			message: "Código promocional creado",
+		};
+	} catch (error) {
+		if (error instanceof z.ZodError) {
+			return { success: false, errors: flattenErrors(error) };
+		}
+
+		if (error instanceof StaffAuthorizationError) {
+			return {
+				success: false,
+				errors: { form: [STAFF_AUTHORIZATION_MESSAGES[error.reason]] },
+			};
+		}
+
+		if (error instanceof MissingEnvironmentVariableError) {
+			return {
+				success: false,
+				errors: {
+					form: [
+						`Falta configurar la variable de entorno ${error.envVar}. Revisa la guía de instalación para obtener el valor correcto.`,
+					],
+				},
+			};
+		}
+
+		console.error("[createPromoCodeAction]", error);
+		return {
+			success: false,
+			errors: { form: ["No pudimos crear el código. Inténtalo nuevamente."] },
+		};
+	}
+}
+
+export async function setPromoCodeActiveAction(
+	promoCodeId: string,
+	active: boolean,
+): Promise<ActionResult<{ id: string; active: boolean }>> {
+	try {
+		const id = promoCodeIdSchema.parse(promoCodeId);
+		const { user } = await requireRoutePermission("/pricing/promo-codes");
+		const adminClient = createSupabaseAdminClient();
+
+		const { data, error } = await adminClient
+			.from("promo_codes")
+			.update({ active })
+			.eq("id", id)
+			.select("id")
+			.maybeSingle();
+
+		if (error) {
+			throw new Error(error.message);
+		}
+
+		if (!data) {
+			return { success: false, errors: { form: ["Código no encontrado."] } };
+		}
+
+		await recordAuditEvent(adminClient, {
+			actor: user,
+			action: active ? "promo_code.activate" : "promo_code.deactivate",
+			entityType: "promo_code",
+			entityId: id,
+			before: { active: !active },
+			after: { active },
+		});
+
+		revalidatePromoCodes();
+
+		return {
+			success: true,
+			data: { id, active },
+			message: active ? "Código activado" : "Código desactivado",
+		};
+	} catch (error) {
+		if (error instanceof z.ZodError) {
+			return { success: false, errors: flattenErrors(error) };
+		}
+
+		if (error instanceof StaffAuthorizationError) {
+			return {
+				success: false,
+				errors: { form: [STAFF_AUTHORIZATION_MESSAGES[error.reason]] },
+			};
+		}
+
+		if (error instanceof MissingEnvironmentVariableError) {
+			return {
+				success: false,
+				errors: {
+					form: [
+						`Falta configurar la variable de entorno ${error.envVar}. Revisa la guía de instalación para obtener el valor correcto.`,
+					],
+				},
+			};
+		}
+
+		console.error("[setPromoCodeActiveAction]", error);
+		return {
+			success: false,
+			errors: { form: ["No pudimos cambiar el estado del código."] },
+		};
+	}
+}
@@ -0,0 +1,130 @@
+import DashboardShell from "@/components/dashboard-shell";
+import {
+	describePromoCode,
+	listPromoCodes,
+	type PromoCode,
+} from "@/lib/discounts";
+import { requireStaffPage } from "@/lib/staff";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+
+import { PromoCodeForm } from "./_components/promo-code-form";
+import { PromoCodeRowActions } from "./_components/promo-code-row-actions";
+
+export const dynamic = "force-dynamic";
+
+const dateFormatter = new Intl.DateTimeFormat("es-NI", {
+	dateStyle: "medium",
+	timeStyle: "short",
+});
+
+function formatCurrency(value: number) {
+	return new Intl.NumberFormat("es-NI", {
+		style: "currency",
+		currency: "NIO",
+		minimumFractionDigits: 2,
+	}).format(value);
+}
+
+function describeWindow(promo: PromoCode) {
+	if (!promo.startsAt && !promo.endsAt) return "Siempre";
+	const from = promo.startsAt
+		? dateFormatter.format(new Date(promo.startsAt))
+		: "…";
+	const to = promo.endsAt ? dateFormatter.format(new Date(promo.endsAt)) : "…";
+	return `${from} → ${to}`;
+}
+
+export default async function PromoCodesPage() {
+	const { user } = await requireStaffPage("managePricing");
+	const supabase = await createSupabaseServerClient();
+
+	let promoCodes: PromoCode[] = [];
+	let loadFailed = false;
+	try {
+		promoCodes = await listPromoCodes(supabase);
+	} catch (error) {
+		console.error("[pricing] promo codes", error);
+		loadFailed = true;
+	}
+
+	return (
+		<DashboardShell
+			user={user}
+			currentPath='/pricing/promo-codes'
+			title='Códigos promocionales'
+			description='Crea códigos con vigencia, compra mínima y límite de usos para el POS y la tienda.'>
+			<div className='space-y-8'>
+				<PromoCodeForm />
+
+				{loadFailed ? (
+					<div className='rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700'>
+						No pudimos cargar los códigos promocionales. Inténtalo nuevamente.
+					</div>
+				) : promoCodes.length === 0 ? (
+					<div className='rounded-lg border border-dashed border-blush-200 bg-white p-8 text-center text-sm text-gray-500'>
+						Todavía no hay códigos promocionales.
+					</div>
+				) : (
+					<div className='overflow-hidden rounded-lg border border-gray-200 bg-white shadow-sm'>
+						<table className='min-w-full divide-y divide-gray-200 text-sm'>
+							<thead className='bg-gray-50 text-xs font-semibold uppercase tracking-wider text-gray-500'>
+								<tr>
+									<th className='px-4 py-3 text-left'>Código</th>
+									<th className='px-4 py-3 text-right'>Descuento</th>
+									<th className='px-4 py-3 text-right'>Compra mínima</th>
+									<th className='px-4 py-3 text-left'>Vigencia</th>
+									<th className='px-4 py-3 text-right'>Usos</th>
+									<th className='px-4 py-3 text-right'>Acciones</th>
+								</tr>
+							</thead>
+							<tbody className='divide-y divide-gray-200 align-top'>
+								{promoCodes.map((promo) => (
+									<tr
+										key={promo.id}
+										className={promo.active ? "hover:bg-blush-50" : "bg-gray-50"}>
+										<td className='px-4 py-4'>
+											<span className='font-mono font-medium text-gray-900'>
+												{promo.code}
+											</span>
+											{promo.active ? null : (
+												<span className='ml-2 rounded-full bg-gray-200 px-2 py-0.5 text-xs text-gray-600'>
+													Inactivo
+												</span>
+											)}
+											{promo.description ? (
+												<p className='mt-1 text-xs text-gray-500'>
+													{promo.description}
+												</p>
+											) : null}
+										</td>
+										<td className='px-4 py-4 text-right text-gray-700'>
+											{describePromoCode(promo, formatCurrency)}
+										</td>
+										<td className='px-4 py-4 text-right text-gray-700'>
+											{promo.minSubtotal > 0
+												? formatCurrency(promo.minSubtotal)
+												: "—"}
+										</td>
+										<td className='px-4 py-4 text-xs text-gray-600'>
+											{describeWindow(promo)}
+										</td>
+										<td className='px-4 py-4 text-right text-gray-700'>
+											{promo.timesUsed}
+											{promo.maxUses !== null ? ` / ${promo.maxUses}` : ""}
+										</td>
+										<td className='px-4 py-4'>
+											<PromoCodeRowActions
+												promoCodeId={promo.id}
+												active={promo.active}
+											/>
+										</td>
+									</tr>
+								))}
+							</tbody>
+						</table>
+					</div>
+				)}
+			</div>
+		</DashboardShell>
+	);
+}
@@ -0,0 +1,84 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+import { PriceRuleForm } from "@/app/pricing/rules/_components/price-rule-form";
+import { updatePriceRuleAction } from "@/app/pricing/rules/actions";
+import DashboardShell from "@/components/dashboard-shell";
+import type { PriceRule } from "@/lib/pricing";
+import {
+	buildScopeOptions,
+	loadPricingCatalog,
+	type PricingScopeOptions,
+} from "@/lib/pricing-catalog";
+import { requireStaffPage } from "@/lib/staff";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+
+const EMPTY_SCOPE_OPTIONS: PricingScopeOptions = {
+	categories: [],
+	brands: [],
+	products: [],
+	promoTags: [],
+};
+
+export default async function EditPriceRulePage({
+	params,
+}: {
+	params: Promise<{ id: string }>;
+}) {
+	const { id } = await params;
+	const { user } = await requireStaffPage("managePricing");
+
+	const ruleId = Number(id);
+	if (!Number.isInteger(ruleId) || ruleId <= 0) {
+		notFound();
+	}
+
+	const supabase = await createSupabaseServerClient();
+	const { data } = await supabase
+		.from("price_rules")
+		.select(
+			"id, name, description, target, scope, scope_ref, margin_low, margin_mid, margin_high, margin_premium, endings, active, priority, price_adjustment_pct, conditions, starts_at, ends_at",
+		)
+		.eq("id", ruleId)
+		.maybeSingle();
+
+	const rule = data as PriceRule | null;
+	if (!rule) {
+		notFound();
+	}
+
+	let scopeOptions = EMPTY_SCOPE_OPTIONS;
+	try {
+		scopeOptions = buildScopeOptions(await loadPricingCatalog(supabase));
+	} catch (error) {
+		console.error("[pricing] catalog", error);
+	}
+
+	async function handleUpdate(formData: FormData) {
+		"use server";
+		formData.append("id", String(ruleId));
+		return updatePriceRuleAction(formData);
+	}
+
+	return (
+		<DashboardShell
+			user={user}
+			currentPath='/pricing/rules'
+			title='Editar regla de precio'
+			description={rule.name ?? `Regla ${rule.id}`}
+			action={
+				<Link
+					href='/pricing/rules'
+					className='inline-flex items-center rounded-md border border-gray-200 px-3 py-1.5 text-sm font-medium text-gray-700 transition hover:bg-gray-100'>
+					Ver reglas
+				</Link>
+			}>
+			<PriceRuleForm
+				rule={rule}
+				scopeOptions={scopeOptions}
+				submitAction={handleUpdate}
+				submitLabel='Actualizar regla'
+			/>
+		</DashboardShell>
+	);
+}
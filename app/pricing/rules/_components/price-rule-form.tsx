@@ -0,0 +1,577 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import {
+	useCallback,
+	useEffect,
+	useRef,
+	useState,
+	useTransition,
+	type FormEvent,
+	type ReactNode,
+} from "react";
+
+import type { ActionErrorRecord, ActionResult } from "@/lib/actions";
+import type {
+	PriceRule,
+	PriceRuleScope,
+	PriceRuleTarget,
+} from "@/lib/pricing";
+import type { PricingScopeOptions, RulePreview } from "@/lib/pricing-catalog";
+import { parseRuleConditions } from "@/lib/pricing-rules";
+
+import { previewPriceRuleAction } from "../actions";
+
+const PREVIEW_DELAY_MS = 400;
+const PREVIEW_LIMIT = 12;
+
+const TARGET_LABELS: Record<PriceRuleTarget, string> = {
+	product: "Productos",
+	combo: "Combos",
+};
+
+const SCOPE_LABELS: Partial<Record<PriceRuleScope, string>> = {
+	global: "Todo el catálogo",
+	category: "Categoría",
+	brand: "Marca",
+	product: "Producto",
+	promo: "Promoción",
+};
+
+const COMBO_SCOPES = new Set<PriceRuleScope>(["global", "category", "promo"]);
+
+const inputClassName =
+	"mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300";
+
+type PriceRuleFormProps = {
+	rule?: PriceRule;
+	scopeOptions: PricingScopeOptions;
+	submitAction: (formData: FormData) => Promise<ActionResult<unknown>>;
+	submitLabel?: string;
+};
+
+type PreviewState =
+	| { status: "idle" | "loading" }
+	| { status: "ready"; preview: RulePreview }
+	| { status: "invalid" };
+
+function toDateTimeInput(value: string | null | undefined) {
+	return value ? value.slice(0, 16) : "";
+}
+
+export function PriceRuleForm({
+	rule,
+	scopeOptions,
+	submitAction,
+	submitLabel = "Guardar regla",
+}: PriceRuleFormProps) {
+	const router = useRouter();
+	const formRef = useRef<HTMLFormElement>(null);
+	const previewTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+	const [target, setTarget] = useState<PriceRuleTarget>(
+		rule?.target ?? "product",
+	);
+	const [scope, setScope] = useState<PriceRuleScope>(rule?.scope ?? "global");
+	const [errors, setErrors] = useState<ActionErrorRecord | null>(null);
+	const [successMessage, setSuccessMessage] = useState<string | null>(null);
+	const [preview, setPreview] = useState<PreviewState>({ status: "idle" });
+	const [isPending, startTransition] = useTransition();
+
+	const conditions = parseRuleConditions(rule?.conditions ?? null);
+	const isEditing = Boolean(rule?.id);
+
+	const refreshPreview = useCallback(() => {
+		if (previewTimer.current) {
+			clearTimeout(previewTimer.current);
+		}
+
+		previewTimer.current = setTimeout(async () => {
+			const form = formRef.current;
+			if (!form) return;
+
+			setPreview({ status: "loading" });
+			const result = await previewPriceRuleAction(new FormData(form));
+			setPreview(
+				result.success
+					? { status: "ready", preview: result.data }
+					: { status: "invalid" },
+			);
+		}, PREVIEW_DELAY_MS);
+	}, []);
+
+	useEffect(() => {
+		refreshPreview();
+		return () => {
+			if (previewTimer.current) {
+				clearTimeout(previewTimer.current);
+			}
+		};
+	}, [refreshPreview]);
+
+	function handleTargetChange(value: PriceRuleTarget) {
+		setTarget(value);
+		if (value === "combo" && !COMBO_SCOPES.has(scope)) {
+			setScope("global");
+		}
+	}
+
+	function handleSubmit(event: FormEvent<HTMLFormElement>) {
+		event.preventDefault();
+		const formData = new FormData(event.currentTarget);
+
+		setErrors(null);
+		setSuccessMessage(null);
+
+		startTransition(async () => {
+			const result = await submitAction(formData);
+			if (!result.success) {
+				setErrors(result.errors);
+				return;
+			}
+
+			if (!isEditing) {
+				router.push("/pricing/rules");
+				return;
+			}
+
+			setSuccessMessage(result.message ?? "Regla guardada");
+			router.refresh();
+		});
+	}
+
+	const scopeSuggestions =
+		scope === "category"
+			? scopeOptions.categories
+			: scope === "brand"
+				? scopeOptions.brands
+				: scope === "product"
+					? scopeOptions.products
+					: scope === "promo"
+						? scopeOptions.promoTags
+						: [];
+
+	return (
+		<div className='grid gap-6 lg:grid-cols-[minmax(0,2fr)_minmax(0,1fr)]'>
+			<form
+				ref={formRef}
+				onSubmit={handleSubmit}
+				onChange={refreshPreview}
+				className='space-y-6 rounded-xl border border-gray-200 bg-white p-6 shadow-sm'>
+				{successMessage ? (
+					<p className='rounded-md border border-green-200 bg-green-50 px-3 py-2 text-sm text-green-700'>
+						{successMessage}
+					</p>
+				) : null}
+				{errors?.form ? (
+					<div className='rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700'>
+						<ul className='list-disc pl-4'>
+							{errors.form.map((message, index) => (
+								<li key={index}>{message}</li>
+							))}
+						</ul>
+					</div>
+				) : null}
+
+				<section className='grid gap-4 sm:grid-cols-2'>
+					<Field label='Nombre' name='name' errors={errors}>
+						<input
+							id='name'
+							name='name'
+							type='text'
+							required
+							defaultValue={rule?.name ?? ""}
+							placeholder='Ej. Liquidación de inventario lento'
+							className={inputClassName}
+						/>
+					</Field>
+					<Field label='Aplica a' name='target' errors={errors}>
+						<select
+							id='target'
+							name='target'
+							value={target}
+							onChange={(event) =>
+								handleTargetChange(event.target.value as PriceRuleTarget)
+							}
+							className={inputClassName}>
+							{(Object.keys(TARGET_LABELS) as PriceRuleTarget[]).map(
+								(value) => (
+									<option key={value} value={value}>
+										{TARGET_LABELS[value]}
+									</option>
+								),
+							)}
+						</select>
+					</Field>
+					<div className='sm:col-span-2'>
+						<Field label='Descripción' name='description' errors={errors}>
+							<textarea
+								id='description'
+								name='description'
+								rows={2}
+								defaultValue={rule?.description ?? ""}
+								className={inputClassName}
+							/>
+						</Field>
+					</div>
+					<Field label='Alcance' name='scope' errors={errors}>
+						<select
+							id='scope'
+							name='scope'
+							value={scope}
+							onChange={(event) =>
+								setScope(event.target.value as PriceRuleScope)
+							}
+							className={inputClassName}>
+							{Object.entries(SCOPE_LABELS).map(([value, label]) => (
+								<option
+									key={value}
+									value={value}
+									disabled={
+										target === "combo" &&
+										!COMBO_SCOPES.has(value as PriceRuleScope)
+									}>
+									{label}
+								</option>
+							))}
+						</select>
+					</Field>
+					<Field label='Referencia' name='scopeRef' errors={errors}>
+						<input
+							id='scopeRef'
+							name='scopeRef'
+							type='text'
+							list='price-rule-scope-options'
+							disabled={scope === "global"}
+							defaultValue={rule?.scope_ref ?? ""}
+							placeholder={
+								scope === "global"
+									? "No aplica"
+									: `Nombre de ${SCOPE_LABELS[scope]?.toLowerCase()}`
+							}
+							className={`${inputClassName} disabled:bg-gray-50`}
+						/>
+						<datalist id='price-rule-scope-options'>
+							{scopeSuggestions.map((option) => (
+								<option key={option} value={option} />
+							))}
+						</datalist>
+					</Field>
+				</section>
+
+				<section className='space-y-3'>
+					<h3 className='text-sm font-semibold text-gray-900'>Precio</h3>
+					<div className='grid gap-4 sm:grid-cols-4'>
+						<Field label='Margen bajo' name='marginLow' errors={errors}>
+							<MarginInput name='marginLow' value={rule?.margin_low} />
+						</Field>
+						<Field label='Margen medio' name='marginMid' errors={errors}>
+							<MarginInput name='marginMid' value={rule?.margin_mid} />
+						</Field>
+						<Field label='Margen alto' name='marginHigh' errors={errors}>
+							<MarginInput name='marginHigh' value={rule?.margin_high} />
+						</Field>
+						<Field
+							label='Margen premium'
+							name='marginPremium'
+							errors={errors}>
+							<MarginInput
+								name='marginPremium'
+								value={rule?.margin_premium}
+							/>
+						</Field>
+					</div>
+					<div className='grid gap-4 sm:grid-cols-3'>
+						<Field
+							label='Ajuste adicional (%)'
+							name='priceAdjustmentPct'
+							errors={errors}>
+							<input
+								id='priceAdjustmentPct'
+								name='priceAdjustmentPct'
+								type='number'
+								step='0.1'
+								defaultValue={rule?.price_adjustment_pct ?? ""}
+								placeholder='Ej. -15'
+								className={inputClassName}
+							/>
+						</Field>
+						<Field label='Terminaciones' name='endings' errors={errors}>
+							<input
+								id='endings'
+								name='endings'
+								type='text'
+								defaultValue={rule?.endings?.join(", ") ?? ""}
+								placeholder='9, 0'
+								className={inputClassName}
+							/>
+						</Field>
+						<Field label='Prioridad' name='priority' errors={errors}>
+							<input
+								id='priority'
+								name='priority'
+								type='number'
+								min='0'
+								step='1'
+								defaultValue={rule?.priority ?? ""}
+								placeholder='100'
+								className={inputClassName}
+							/>
+						</Field>
+					</div>
+				</section>
+
+				<section className='space-y-3'>
+					<h3 className='text-sm font-semibold text-gray-900'>Condiciones</h3>
+					<div className='grid gap-4 sm:grid-cols-3'>
+						<Field
+							label='Antigüedad mínima (días)'
+							name='inventoryAgeMinDays'
+							errors={errors}>
+							<input
+								id='inventoryAgeMinDays'
+								name='inventoryAgeMinDays'
+								type='number'
+								min='0'
+								step='1'
+								defaultValue={conditions?.inventoryAge?.minDays ?? ""}
+								className={inputClassName}
+							/>
+						</Field>
+						<Field
+							label='Antigüedad máxima (días)'
+							name='inventoryAgeMaxDays'
+							errors={errors}>
+							<input
+								id='inventoryAgeMaxDays'
+								name='inventoryAgeMaxDays'
+								type='number'
+								min='0'
+								step='1'
+								defaultValue={conditions?.inventoryAge?.maxDays ?? ""}
+								className={inputClassName}
+							/>
+						</Field>
+						<Field
+							label='Antigüedad en combos'
+							name='inventoryAgeStrategy'
+							errors={errors}>
+							<select
+								id='inventoryAgeStrategy'
+								name='inventoryAgeStrategy'
+								defaultValue={conditions?.inventoryAge?.strategy ?? "any"}
+								className={inputClassName}>
+								<option value='any'>Al menos un producto</option>
+								<option value='all'>Todos los productos</option>
+							</select>
+						</Field>
+						<Field
+							label='Cambio de costo'
+							name='costChangeDirection'
+							errors={errors}>
+							<select
+								id='costChangeDirection'
+								name='costChangeDirection'
+								defaultValue={conditions?.costChange?.direction ?? ""}
+								className={inputClassName}>
+								<option value=''>Sin condición</option>
+								<option value='increase'>Subió</option>
+								<option value='decrease'>Bajó</option>
+								<option value='any'>Subió o bajó</option>
+							</select>
+						</Field>
+						<Field
+							label='Umbral de cambio (%)'
+							name='costChangeThresholdPct'
+							errors={errors}>
+							<input
+								id='costChangeThresholdPct'
+								name='costChangeThresholdPct'
+								type='number'
+								min='0'
+								step='0.1'
+								defaultValue={conditions?.costChange?.thresholdPct ?? ""}
+								className={inputClassName}
+							/>
+						</Field>
+						<Field
+							label='Cambio de costo en combos'
+							name='costChangeStrategy'
+							errors={errors}>
+							<select
+								id='costChangeStrategy'
+								name='costChangeStrategy'
+								defaultValue={conditions?.costChange?.strategy ?? "any"}
+								className={inputClassName}>
+								<option value='any'>Al menos un producto</option>
+								<option value='all'>Todos los productos</option>
+							</select>
+						</Field>
+						<Field label='Etiqueta promo' name='promoTag' errors={errors}>
+							<input
+								id='promoTag'
+								name='promoTag'
+								type='text'
+								list='price-rule-promo-tags'
+								defaultValue={conditions?.promo?.tag ?? ""}
+								className={inputClassName}
+							/>
+							<datalist id='price-rule-promo-tags'>
+								{scopeOptions.promoTags.map((tag) => (
+									<option key={tag} value={tag} />
+								))}
+							</datalist>
+						</Field>
+					</div>
+				</section>
+
+				<section className='grid gap-4 sm:grid-cols-3'>
+					<Field label='Vigente desde' name='startsAt' errors={errors}>
+						<input
+							id='startsAt'
+							name='startsAt'
+							type='datetime-local'
+							defaultValue={toDateTimeInput(rule?.starts_at)}
+							className={inputClassName}
+						/>
+					</Field>
+					<Field label='Vigente hasta' name='endsAt' errors={errors}>
+						<input
+							id='endsAt'
+							name='endsAt'
+							type='datetime-local'
+							defaultValue={toDateTimeInput(rule?.ends_at)}
+							className={inputClassName}
+						/>
+					</Field>
+					<label className='flex items-center gap-2 self-end pb-2 text-sm font-medium text-gray-700'>
+						<input
+							type='checkbox'
+							name='active'
+							defaultChecked={rule?.active ?? true}
+							className='h-4 w-4 rounded border-gray-300 text-blush-500 focus:ring-blush-300'
+						/>
+						Regla activa
+					</label>
+				</section>
+
+				<div className='flex justify-end gap-3'>
+					<Link
+						href='/pricing/rules'
+						className='inline-flex items-center rounded-md border border-gray-200 px-4 py-2 text-sm font-medium text-gray-700 transition hover:bg-gray-100'>
+						Cancelar
+					</Link>
+					<button
+						type='submit'
+						disabled={isPending}
+						className='inline-flex items-center rounded-md bg-blush-500 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-blush-400 disabled:cursor-not-allowed disabled:opacity-70'>
+						{isPending ? "Guardando…" : submitLabel}
+					</button>
+				</div>
+			</form>
+
+			<RulePreviewPanel target={target} state={preview} />
+		</div>
+	);
+}
+
+function Field({
+	label,
+	name,
+	errors,
+	children,
+}: {
+	label: string;
+	name: string;
+	errors: ActionErrorRecord | null;
+	children: ReactNode;
+}) {
+	const messages = errors?.[name];
+	return (
+		<div>
+			<label htmlFor={name} className='text-sm font-medium text-gray-700'>
+				{label}
+			</label>
+			{children}
+			{messages && messages.length > 0 ? (
+				<p className='mt-1 text-xs text-red-600'>{messages.join(" ")}</p>
+			) : null}
+		</div>
+	);
+}
+
+function MarginInput({
+	name,
+	value,
+}: {
+	name: string;
+	value: number | null | undefined;
+}) {
+	return (
+		<input
+			id={name}
+			name={name}
+			type='number'
+			min='0'
+			max='5'
+			step='0.01'
+			defaultValue={value ?? ""}
+			placeholder='0.50'
+			className={inputClassName}
+		/>
+	);
+}
+
+function RulePreviewPanel({
+	target,
+	state,
+}: {
+	target: PriceRuleTarget;
+	state: PreviewState;
+}) {
+	const matches =
+		state.status === "ready"
+			? target === "combo"
+				? state.preview.combos
+				: state.preview.products
+			: [];
+
+	return (
+		<aside className='h-fit space-y-3 rounded-xl border border-blush-100 bg-blush-50/60 p-5'>
+			<div>
+				<h3 className='text-sm font-semibold text-gray-900'>Vista previa</h3>
+				<p className='text-xs text-gray-500'>
+					{target === "combo" ? "Combos" : "Productos"} que tomarían esta regla
+					si estuviera activa hoy.
+				</p>
+			</div>
+			{state.status === "loading" || state.status === "idle" ? (
+				<p className='text-sm text-gray-500'>Calculando…</p>
+			) : state.status === "invalid" ? (
+				<p className='text-sm text-gray-500'>
+					Completa los campos obligatorios para ver qué se vería afectado.
+				</p>
+			) : matches.length === 0 ? (
+				<p className='text-sm text-gray-500'>Ningún elemento coincide.</p>
+			) : (
+				<>
+					<p className='text-2xl font-semibold text-gray-900'>
+						{matches.length}
+					</p>
+					<ul className='space-y-1 text-sm text-gray-700'>
+						{matches.slice(0, PREVIEW_LIMIT).map((match) => (
+							<li key={match.id} className='truncate'>
+								{match.name}
+							</li>
+						))}
+					</ul>
+					{matches.length > PREVIEW_LIMIT ? (
+						<p className='text-xs text-gray-500'>
+							y {matches.length - PREVIEW_LIMIT} más.
+						</p>
+					) : null}
+				</>
+			)}
+		</aside>
+	);
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import { useState, useTransition } from "react";
+
+import type { ActionResult } from "@/lib/actions";
+
+import { movePriceRuleAction, setPriceRuleActiveAction } from "../actions";
+
+type PriceRuleRowActionsProps = {
+	ruleId: number;
+	active: boolean;
+	isFirst: boolean;
+	isLast: boolean;
+};
+
+export function PriceRuleRowActions({
+	ruleId,
+	active,
+	isFirst,
+	isLast,
+}: PriceRuleRowActionsProps) {
+	const [error, setError] = useState<string | null>(null);
+	const [isPending, startTransition] = useTransition();
+
+	function run(action: () => Promise<ActionResult<unknown>>) {
+		setError(null);
+		startTransition(async () => {
+			const result = await action();
+			if (!result.success) {
+				setError(result.errors.form?.[0] ?? "No pudimos guardar el cambio.");
+			}
+		});
+	}
+
+	return (
+		<div className='flex flex-col items-end gap-1'>
+			<div className='flex items-center gap-1'>
+				<button
+					type='button'
+					disabled={isPending || isFirst}
+					onClick={() => run(() => movePriceRuleAction(ruleId, "up"))}
+					aria-label='Subir prioridad'
+					className='rounded-md border border-gray-200 px-2 py-1 text-xs text-gray-600 transition hover:bg-gray-100 disabled:cursor-not-allowed disabled:opacity-40'>
+					↑
+				</button>
+				<button
+					type='button'
+					disabled={isPending || isLast}
+					onClick={() => run(() => movePriceRuleAction(ruleId, "down"))}
+					aria-label='Bajar prioridad'
+					className='rounded-md border border-gray-200 px-2 py-1 text-xs text-gray-600 transition hover:bg-gray-100 disabled:cursor-not-allowed disabled:opacity-40'>
+					↓
+				</button>
+				<button
+					type='button'
+					disabled={isPending}
+					onClick={() => run(() => setPriceRuleActiveAction(ruleId, !active))}
+					className='rounded-md border border-gray-200 px-3 py-1 text-xs font-medium text-gray-700 transition hover:bg-blush-100 disabled:cursor-not-allowed disabled:opacity-60'>
+					{active ? "Desactivar" : "Activar"}
+				</button>
+			</div>
+			{error ? <p className='text-xs text-red-600'>{error}</p> : null}
+		</div>
+	);
+}
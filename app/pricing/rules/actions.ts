@@ -0,0 +1,502 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+
+import type { ActionErrorRecord, ActionResult } from "@/lib/actions";
+import { recordAuditEvent } from "@/lib/audit";
+import type { PriceRule } from "@/lib/pricing";
+import {
+	loadPricingCatalog,
+	previewRuleMatches,
+	type RulePreview,
+} from "@/lib/pricing-catalog";
+import { parseRuleConditions } from "@/lib/pricing-rules";
+import { priceRuleFormSchema, type PriceRuleFormValues } from "@/lib/schemas";
+import {
+	STAFF_AUTHORIZATION_MESSAGES,
+	StaffAuthorizationError,
+	requireRoutePermission,
+} from "@/lib/staff";
+import {
+	MissingEnvironmentVariableError,
+	createSupabaseAdminClient,
+} from "@/lib/supabase-admin";
+
+const DEFAULT_PRIORITY = 100;
+const PRIORITY_STEP = 10;
+
+const RULE_COLUMNS =
+	"id, name, description, target, scope, scope_ref, margin_low, margin_mid, margin_high, margin_premium, endings, active, priority, price_adjustment_pct, conditions, starts_at, ends_at";
+
+const ruleIdSchema = z.coerce
+	.number({ invalid_type_error: "Regla inválida" })
+	.int("Regla inválida")
+	.positive("Regla inválida");
+
+function flattenErrors(error: z.ZodError): ActionErrorRecord {
+	const { fieldErrors, formErrors } = error.flatten();
+	return {
+		...(Object.fromEntries(
+			Object.entries(fieldErrors).map(([key, value]) => [key, value ?? []]),
+		) as ActionErrorRecord),
+		...(formErrors.length ? { form: formErrors } : {}),
+	};
+}
+
+function parsePriceRuleForm(formData: FormData) {
+	return priceRuleFormSchema.parse({
+		name: formData.get("name"),
+		description: formData.get("description"),
+		target: formData.get("target") ?? undefined,
+		scope: formData.get("scope") ?? undefined,
+		scopeRef: formData.get("scopeRef"),
+		marginLow: formData.get("marginLow"),
+		marginMid: formData.get("marginMid"),
+		marginHigh: formData.get("marginHigh"),
+		marginPremium: formData.get("marginPremium"),
+		endings: formData.get("endings"),
+		priority: formData.get("priority"),
+		priceAdjustmentPct: formData.get("priceAdjustmentPct"),
+		active: formData.get("active"),
+		startsAt: formData.get("startsAt"),
+		endsAt: formData.get("endsAt"),
+		inventoryAgeMinDays: formData.get("inventoryAgeMinDays"),
+		inventoryAgeMaxDays: formData.get("inventoryAgeMaxDays"),
+		inventoryAgeStrategy: formData.get("inventoryAgeStrategy"),
+		costChangeDirection: formData.get("costChangeDirection"),
+		costChangeThresholdPct: formData.get("costChangeThresholdPct"),
+		costChangeStrategy: formData.get("costChangeStrategy"),
+		promoTag: formData.get("promoTag"),
+	});
+}
+
+/**
+ * Row written to `price_rules`. Conditions go through `parseRuleConditions`
+ * so only the shape the matcher understands is stored.
+ */
+function buildRuleRecord(values: PriceRuleFormValues) {
+	const conditions = parseRuleConditions({
+		inventoryAge: {
+			minDays: values.inventoryAgeMinDays ?? null,
+			maxDays: values.inventoryAgeMaxDays ?? null,
+			strategy: values.inventoryAgeStrategy,
+		},
+		costChange: {
+			direction: values.costChangeDirection,
+			thresholdPct: values.costChangeThresholdPct ?? null,
+			strategy: values.costChangeStrategy,
+		},
+		promo: { tag: values.promoTag ?? null },
+	});
+
+	return {
+		name: values.name,
+		description: values.description ?? null,
+		target: values.target,
+		scope: values.scope,
+		scope_ref: values.scope === "global" ? null : values.scopeRef ?? null,
+		margin_low: values.marginLow ?? null,
+		margin_mid: values.marginMid ?? null,
+		margin_high: values.marginHigh ?? null,
+		margin_premium: values.marginPremium ?? null,
+		endings: values.endings?.length ? values.endings : ["9", "0"],
+		priority: values.priority ?? DEFAULT_PRIORITY,
+		price_adjustment_pct: values.priceAdjustmentPct ?? 0,
+		active: values.active,
+		starts_at: values.startsAt ?? null,
+		ends_at: values.endsAt ?? null,
+		conditions: conditions ?? {},
+	};
+}
+
+function revalidatePricing() {
+	revalidatePath("/pricing/rules");
+	revalidatePath("/combos");
+	revalidatePath("/inventory");
+}
+
+export async function createPriceRuleAction(
+	formData: FormData,
+): Promise<ActionResult<{ id: number }>> {
+	try {
+		const values = parsePriceRuleForm(formData);
+		const { user } = await requireRoutePermission("/pricing/rules");
+		const adminClient = createSupabaseAdminClient();
+		const record = buildRuleRecord(values);
+
+		const { data, error } = await adminClient
+			.from("price_rules")
+			.insert({ ...record, created_by: user.id })
+			.select("id")
+			.single();
+
+		if (error || !data) {
+			throw new Error(error?.message ?? "No pudimos crear la regla");
+		}
+
+		await recordAuditEvent(adminClient, {
+			actor: user,
+			action: "price_rule.create",
+			entityType: "price_rule",
+			entityId: String(data.id),
+			after: record,
+		});
+
+		revalidatePricing();
+
+		return {
+			success: true,
+			data: { id: data.id },
+			message: "Regla creada correctamente",
+		};
+	} catch (error) {
+		if (error instanceof z.ZodError) {
+			return { success: false, errors: flattenErrors(error) };
+		}
+
+		if (error instanceof StaffAuthorizationError) {
+			return {
+				success: false,
+				errors: { form: [STAFF_AUTHORIZATION_MESSAGES[error.reason]] },
+			};
+		}
+
+		if (error instanceof MissingEnvironmentVariableError) {
+			return {
+				success: false,
+				errors: {
+					form: [
+						`Falta configurar la variable de entorno ${error.envVar}. Revisa la guía de instalación para obtener el valor correcto.`,
+					],
+				},
+			};
+		}
+
+		console.error("[createPriceRuleAction]", error);
+		return {
+			success: false,
+			errors: { form: ["No pudimos crear la regla. Inténtalo nuevamente."] },
+		};
+	}
+}
+
+export async function updatePriceRuleAction(
+	formData: FormData,
+): Promise<ActionResult<{ id: number }>> {
+	try {
+		const id = ruleIdSchema.parse(formData.get("id"));
+		const values = parsePriceRuleForm(formData);
+		const { user } = await requireRoutePermission("/pricing/rules");
+		const adminClient = createSupabaseAdminClient();
+
+		const { data: existing, error: fetchError } = await adminClient
+			.from("price_rules")
+			.select(RULE_COLUMNS)
+			.eq("id", id)
+			.maybeSingle();
+
+		if (fetchError) {
+			throw new Error(fetchError.message);
+		}
+
+		if (!existing) {
+			return { success: false, errors: { form: ["Regla no encontrada."] } };
+		}
+
+		const record = buildRuleRecord(values);
+		const { error } = await adminClient
+			.from("price_rules")
+			.update(record)
+			.eq("id", id);
+
+		if (error) {
+			throw new Error(error.message);
+		}
+
+		const { id: _existingId, ...before } = existing;
+		await recordAuditEvent(adminClient, {
+			actor: user,
+			action: "price_rule.update",
+			entityType: "price_rule",
+			entityId: String(id),
+			before,
+			after: record,
+		});
+
+		revalidatePricing();
+		revalidatePath(`/pricing/rules/${id}`);
+
+		return {
+			success: true,
+			data: { id },
+			message: "Regla actualizada correctamente",
+		};
+	} catch (error) {
+		if (error instanceof z.ZodError) {
+			return { success: false, errors: flattenErrors(error) };
+		}
+
+		if (error instanceof StaffAuthorizationError) {
+			return {
+				success: false,
+				errors: { form: [STAFF_AUTHORIZATION_MESSAGES[error.reason]] },
+			};
+		}
+
+		if (error instanceof MissingEnvironmentVariableError) {
+			return {
+				success: false,
+				errors: {
+					form: [
+						`Falta configurar la variable de entorno ${error.envVar}. Revisa la guía de instalación para obtener el valor correcto.`,
+					],
+				},
+			};
+		}
+
+		console.error("[updatePriceRuleAction]", error);
+		return {
+			success: false,
+			errors: {
+				form: ["No pudimos actualizar la regla. Inténtalo nuevamente."],
+			},
+		};
+	}
+}
+
+export async function setPriceRuleActiveAction(
+	ruleId: number,
+	active: boolean,
+): Promise<ActionResult<{ id: number; active: boolean }>> {
+	try {
+		const id = ruleIdSchema.parse(ruleId);
+		const { user } = await requireRoutePermission("/pricing/rules");
+		const adminClient = createSupabaseAdminClient();
+
+		const { data, error } = await adminClient
+			.from("price_rules")
+			.update({ active })
+			.eq("id", id)
+			.select("id")
+			.maybeSingle();
+
+		if (error) {
+			throw new Error(error.message);
+		}
+
+		if (!data) {
+			return { success: false, errors: { form: ["Regla no encontrada."] } };
+		}
+
+		await recordAuditEvent(adminClient, {
+			actor: user,
+			action: active ? "price_rule.activate" : "price_rule.deactivate",
+			entityType: "price_rule",
+			entityId: String(id),
+			before: { active: !active },
+			after: { active },
+		});
+
+		revalidatePricing();
+
+		return {
+			success: true,
+			data: { id, active },
+			message: active ? "Regla activada" : "Regla desactivada",
+		};
+	} catch (error) {
+		if (error instanceof z.ZodError) {
+			return { success: false, errors: flattenErrors(error) };
+		}
+
+		if (error instanceof StaffAuthorizationError) {
+			return {
+				success: false,
+				errors: { form: [STAFF_AUTHORIZATION_MESSAGES[error.reason]] },
+			};
+		}
+
+		if (error instanceof MissingEnvironmentVariableError) {
+			return {
+				success: false,
+				errors: {
+					form: [
+						`Falta configurar la variable de entorno ${error.envVar}. Revisa la guía de instalación para obtener el valor correcto.`,
+					],
+				},
+			};
+		}
+
+		console.error("[setPriceRuleActiveAction]", error);
+		return {
+			success: false,
+			errors: { form: ["No pudimos cambiar el estado de la regla."] },
+		};
+	}
+}
+
+/**
+ * Swaps a rule with its neighbour among rules of the same target, then
+ * renumbers that target's priorities in steps of ten so ties never decide
+ * which rule wins.
+ */
+export async function movePriceRuleAction(
+	ruleId: number,
+	direction: "up" | "down",
+): Promise<ActionResult<{ id: number; priority: number }>> {
+	try {
+		const id = ruleIdSchema.parse(ruleId);
+		const { user } = await requireRoutePermission("/pricing/rules");
+		const adminClient = createSupabaseAdminClient();
+
+		const { data: rule, error: fetchError } = await adminClient
+			.from("price_rules")
+			.select("id, target")
+			.eq("id", id)
+			.maybeSingle();
+
+		if (fetchError) {
+			throw new Error(fetchError.message);
+		}
+
+		if (!rule) {
+			return { success: false, errors: { form: ["Regla no encontrada."] } };
+		}
+
+		const { data: siblings, error: siblingsError } = await adminClient
+			.from("price_rules")
+			.select("id, priority")
+			.eq("target", rule.target ?? "product")
+			.order("priority", { ascending: true })
+			.order("id", { ascending: true });
+
+		if (siblingsError) {
+			throw new Error(siblingsError.message);
+		}
+
+		const ordered = (siblings ?? []) as Array<{
+			id: number;
+			priority: number | null;
+		}>;
+		const index = ordered.findIndex((entry) => entry.id === id);
+		const swapIndex = direction === "up" ? index - 1 : index + 1;
+
+		if (index < 0 || swapIndex < 0 || swapIndex >= ordered.length) {
+			return {
+				success: true,
+				data: { id, priority: ordered[index]?.priority ?? DEFAULT_PRIORITY },
+			};
+		}
+
+		[ordered[index], ordered[swapIndex]] = [ordered[swapIndex], ordered[index]];
+
+		const updates = ordered
+			.map((entry, position) => ({
+				id: entry.id,
+				from: entry.priority,
+				to: (position + 1) * PRIORITY_STEP,
+			}))
+			.filter((entry) => entry.from !== entry.to);
+
+		for (const update of updates) {
+			const { error } = await adminClient
+				.from("price_rules")
+				.update({ priority: update.to })
+				.eq("id", update.id);
+
+			if (error) {
+				throw new Error(error.message);
+			}
+		}
+
+		const moved = updates.find((entry) => entry.id === id);
+		const priority = (swapIndex + 1) * PRIORITY_STEP;
+
+		await recordAuditEvent(adminClient, {
+			actor: user,
+			action: "price_rule.reorder",
+			entityType: "price_rule",
+			entityId: String(id),
+			before: { priority: moved?.from ?? priority },
+			after: { priority },
+		});
+
+		revalidatePricing();
+
+		return {
+			success: true,
+			data: { id, priority },
+			message: "Prioridad actualizada",
+		};
+	} catch (error) {
+		if (error instanceof z.ZodError) {
+			return { success: false, errors: flattenErrors(error) };
+		}
+
+		if (error instanceof StaffAuthorizationError) {
+			return {
+				success: false,
+				errors: { form: [STAFF_AUTHORIZATION_MESSAGES[error.reason]] },
+			};
+		}
+
+		if (error instanceof MissingEnvironmentVariableError) {
+			return {
+				success: false,
+				errors: {
+					form: [
+						`Falta configurar la variable de entorno ${error.envVar}. Revisa la guía de instalación para obtener el valor correcto.`,
+					],
+				},
+			};
+		}
+
+		console.error("[movePriceRuleAction]", error);
+		return {
+			success: false,
+			errors: { form: ["No pudimos cambiar la prioridad de la regla."] },
+		};
+	}
+}
+
+export async function previewPriceRuleAction(
+	formData: FormData,
+): Promise<ActionResult<RulePreview>> {
+	try {
+		const values = parsePriceRuleForm(formData);
+		await requireRoutePermission("/pricing/rules");
+		const catalog = await loadPricingCatalog(createSupabaseAdminClient());
+		const record = buildRuleRecord(values) as PriceRule;
+
+		return { success: true, data: previewRuleMatches(record, catalog) };
+	} catch (error) {
+		if (error instanceof z.ZodError) {
+			return { success: false, errors: flattenErrors(error) };
+		}
+
+		if (error instanceof StaffAuthorizationError) {
+			return {
+				success: false,
+				errors: { form: [STAFF_AUTHORIZATION_MESSAGES[error.reason]] },
+			};
+		}
+
+		if (error instanceof MissingEnvironmentVariableError) {
+			return {
+				success: false,
+				errors: {
+					form: [
+						`Falta configurar la variable de entorno ${error.envVar}. Revisa la guía de instalación para obtener el valor correcto.`,
+					],
+				},
+			};
+		}
+
+		console.error("[previewPriceRuleAction]", error);
+		return {
+			success: false,
+			errors: { form: ["No pudimos calcular la vista previa."] },
+		};
+	}
+}
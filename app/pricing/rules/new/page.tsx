@@ -0,0 +1,52 @@
+import Link from "next/link";
+
+import { PriceRuleForm } from "@/app/pricing/rules/_components/price-rule-form";
+import { createPriceRuleAction } from "@/app/pricing/rules/actions";
+import DashboardShell from "@/components/dashboard-shell";
+import {
+	buildScopeOptions,
+	loadPricingCatalog,
+	type PricingScopeOptions,
+} from "@/lib/pricing-catalog";
+import { requireStaffPage } from "@/lib/staff";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+
+const EMPTY_SCOPE_OPTIONS: PricingScopeOptions = {
+	categories: [],
+	brands: [],
+	products: [],
+	promoTags: [],
+};
+
+export default async function NewPriceRulePage() {
+	const { user } = await requireStaffPage("managePricing");
+	const supabase = await createSupabaseServerClient();
+
+	let scopeOptions = EMPTY_SCOPE_OPTIONS;
+	try {
+		scopeOptions = buildScopeOptions(await loadPricingCatalog(supabase));
+	} catch (error) {
+		console.error("[pricing] catalog", error);
+	}
+
+	return (
+		<DashboardShell
+			user={user}
+			currentPath='/pricing/rules'
+			title='Nueva regla de precio'
+			description='Elige a qué aplica, cuándo y con qué margen. La vista previa muestra lo que se vería afectado.'
+			action={
+				<Link
+					href='/pricing/rules'
+					className='inline-flex items-center rounded-md border border-gray-200 px-3 py-1.5 text-sm font-medium text-gray-700 transition hover:bg-gray-100'>
+					Ver reglas
+				</Link>
+			}>
+			<PriceRuleForm
+				scopeOptions={scopeOptions}
+				submitAction={createPriceRuleAction}
+				submitLabel='Crear regla'
+			/>
+		</DashboardShell>
+	);
+}
@@ -0,0 +1,241 @@
+import Link from "next/link";
+
+import DashboardShell from "@/components/dashboard-shell";
+import type { PriceRule, PriceRuleTarget } from "@/lib/pricing";
+import {
+	loadPricingCatalog,
+	previewRuleMatches,
+	type PricingCatalog,
+} from "@/lib/pricing-catalog";
+import { parseRuleConditions } from "@/lib/pricing-rules";
+import { requireStaffPage } from "@/lib/staff";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+
+import { PriceRuleRowActions } from "./_components/price-rule-row-actions";
+
+export const dynamic = "force-dynamic";
+
+const TARGET_SECTIONS: Array<{ target: PriceRuleTarget; title: string }> = [
+	{ target: "product", title: "Reglas de productos" },
+	{ target: "combo", title: "Reglas de combos" },
+];
+
+const SCOPE_LABELS: Record<string, string> = {
+	global: "Todo el catálogo",
+	category: "Categoría",
+	brand: "Marca",
+	product: "Producto",
+	promo: "Promoción",
+};
+
+const dateFormatter = new Intl.DateTimeFormat("es-NI", {
+	dateStyle: "medium",
+	timeZone: "UTC",
+});
+
+function describeConditions(rule: PriceRule) {
+	const conditions = parseRuleConditions(rule.conditions ?? null);
+	const parts: string[] = [];
+
+	const age = conditions?.inventoryAge;
+	if (age && (age.minDays != null || age.maxDays != null)) {
+		const range =
+			age.minDays != null && age.maxDays != null
+				? `${age.minDays}–${age.maxDays} días`
+				: age.minDays != null
+					? `≥ ${age.minDays} días`
+					: `≤ ${age.maxDays} días`;
+		parts.push(
+			age.strategy === "all"
+				? `Antigüedad ${range} (todos)`
+				: `Antigüedad ${range}`,
+		);
+	}
+
+	const cost = conditions?.costChange;
+	if (cost?.direction) {
+		const label =
+			cost.direction === "increase"
+				? "Costo subió"
+				: cost.direction === "decrease"
+					? "Costo bajó"
+					: "Costo cambió";
+		const text =
+			cost.thresholdPct != null ? `${label} ≥ ${cost.thresholdPct} %` : label;
+		parts.push(cost.strategy === "all" ? `${text} (todos)` : text);
+	}
+
+	if (conditions?.promo?.tag) {
+		parts.push(`Promo “${conditions.promo.tag}”`);
+	}
+
+	return parts;
+}
+
+function describeWindow(rule: PriceRule) {
+	if (!rule.starts_at && !rule.ends_at) return "Siempre";
+	const from = rule.starts_at
+		? dateFormatter.format(new Date(rule.starts_at))
+		: "…";
+	const to = rule.ends_at ? dateFormatter.format(new Date(rule.ends_at)) : "…";
+	return `${from} → ${to}`;
+}
+
+function countMatches(rule: PriceRule, catalog: PricingCatalog | null) {
+	if (!catalog) return null;
+	const preview = previewRuleMatches(rule, catalog);
+	return rule.target === "combo"
+		? preview.combos.length
+		: preview.products.length;
+}
+
+export default async function PriceRulesPage() {
+	const { user } = await requireStaffPage("managePricing");
+	const supabase = await createSupabaseServerClient();
+
+	const { data, error } = await supabase
+		.from("price_rules")
+		.select(
+			"id, name, description, target, scope, scope_ref, margin_low, margin_mid, margin_high, margin_premium, endings, active, priority, price_adjustment_pct, conditions, starts_at, ends_at",
+		)
+		.order("priority", { ascending: true })
+		.order("id", { ascending: true });
+
+	if (error) {
+		console.error("[pricing] rules", error);
+	}
+
+	let catalog: PricingCatalog | null = null;
+	try {
+		catalog = await loadPricingCatalog(supabase);
+	} catch (catalogError) {
+		console.error("[pricing] catalog", catalogError);
+	}
+
+	const rules = (data ?? []) as PriceRule[];
+
+	return (
+		<DashboardShell
+			user={user}
+			currentPath='/pricing/rules'
+			title='Reglas de precio'
+			description='Define márgenes y ajustes por alcance y condición. Gana la regla con menor prioridad.'
+			action={
+				<Link
+					href='/pricing/rules/new'
+					className='inline-flex items-center justify-center rounded-md bg-blush-500 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-blush-400'>
+					Nueva regla
+				</Link>
+			}>
+			<div className='space-y-8'>
+				{error ? (
+					<div className='rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700'>
+						No pudimos cargar las reglas de precio. Inténtalo nuevamente.
+					</div>
+				) : null}
+				{TARGET_SECTIONS.map((section) => {
+					const sectionRules = rules.filter(
+						(rule) => (rule.target ?? "product") === section.target,
+					);
+
+					return (
+						<section key={section.target} className='space-y-3'>
+							<h2 className='text-lg font-semibold text-gray-900'>
+								{section.title}
+							</h2>
+							{sectionRules.length === 0 ? (
+								<div className='rounded-lg border border-dashed border-blush-200 bg-white p-8 text-center text-sm text-gray-500'>
+									No hay reglas para{" "}
+									{section.target === "combo" ? "combos" : "productos"}.
+								</div>
+							) : (
+								<div className='overflow-hidden rounded-lg border border-gray-200 bg-white shadow-sm'>
+									<table className='min-w-full divide-y divide-gray-200 text-sm'>
+										<thead className='bg-gray-50 text-xs font-semibold uppercase tracking-wider text-gray-500'>
+											<tr>
+												<th className='px-4 py-3 text-left'>Prioridad</th>
+												<th className='px-4 py-3 text-left'>Regla</th>
+												<th className='px-4 py-3 text-left'>Alcance</th>
+												<th className='px-4 py-3 text-left'>Condiciones</th>
+												<th className='px-4 py-3 text-left'>Vigencia</th>
+												<th className='px-4 py-3 text-right'>Ajuste</th>
+												<th className='px-4 py-3 text-right'>Afecta</th>
+												<th className='px-4 py-3 text-right'>Acciones</th>
+											</tr>
+										</thead>
+										<tbody className='divide-y divide-gray-200 align-top'>
+											{sectionRules.map((rule, index) => {
+												const conditions = describeConditions(rule);
+												const matches = countMatches(rule, catalog);
+
+												return (
+													<tr
+														key={rule.id}
+														className={
+															rule.active ? "hover:bg-blush-50" : "bg-gray-50"
+														}>
+														<td className='px-4 py-4 font-mono text-gray-500'>
+															{rule.priority ?? "—"}
+														</td>
+														<td className='px-4 py-4'>
+															<Link
+																href={`/pricing/rules/${rule.id}`}
+																className='font-medium text-gray-900 hover:text-blush-600'>
+																{rule.name ?? `Regla ${rule.id}`}
+															</Link>
+															{rule.active ? null : (
+																<span className='ml-2 rounded-full bg-gray-200 px-2 py-0.5 text-xs text-gray-600'>
+																	Inactiva
+																</span>
+															)}
+															{rule.description ? (
+																<p className='mt-1 text-xs text-gray-500'>
+																	{rule.description}
+																</p>
+															) : null}
+														</td>
+														<td className='px-4 py-4 text-gray-700'>
+															{SCOPE_LABELS[rule.scope ?? "global"] ??
+																rule.scope}
+															{rule.scope_ref ? (
+																<p className='text-xs text-gray-500'>
+																	{rule.scope_ref}
+																</p>
+															) : null}
+														</td>
+														<td className='px-4 py-4 text-xs text-gray-600'>
+															{conditions.length ? conditions.join(" · ") : "—"}
+														</td>
+														<td className='px-4 py-4 text-xs text-gray-600'>
+															{describeWindow(rule)}
+														</td>
+														<td className='px-4 py-4 text-right text-gray-700'>
+															{rule.price_adjustment_pct
+																? `${Number(rule.price_adjustment_pct) > 0 ? "+" : ""}${Number(rule.price_adjustment_pct)} %`
+																: "—"}
+														</td>
+														<td className='px-4 py-4 text-right text-gray-700'>
+															{matches ?? "—"}
+														</td>
+														<td className='px-4 py-4'>
+															<PriceRuleRowActions
+																ruleId={Number(rule.id)}
+																active={Boolean(rule.active)}
+																isFirst={index === 0}
+																isLast={index === sectionRules.length - 1}
+															/>
+														</td>
+													</tr>
+												);
+											})}
+										</tbody>
+									</table>
+								</div>
+							)}
+						</section>
+					);
+				})}
+			</div>
+		</DashboardShell>
+	);
+}
@@ -0,0 +1,44 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+
+import { ComboDetail } from "@/components/storefront/combo-detail";
+import { SiteShell } from "@/components/storefront/site-shell";
+import { fetchComboDetail } from "@/lib/storefront/products";
+
+type ComboPageProps = {
+	params: Promise<{ slug: string }>;
+};
+
+export async function generateMetadata({
+	params,
+}: ComboPageProps): Promise<Metadata> {
+	const { slug } = await params;
+	const combo = await fetchComboDetail(slug);
+	if (!combo) {
+		return {
+			title: "Combo no disponible · Inventario Girlee",
+			description: "El combo que buscas ya no está disponible.",
+		};
+	}
+
+	return {
+		title: `${combo.name} · Inventario Girlee`,
+		description:
+			combo.description ??
+			"Combos curados por Inventario Girlee con productos que se complementan.",
+	};
+}
+
+export default async function ComboDetailPage({ params }: ComboPageProps) {
+	const { slug } = await params;
+	const combo = await fetchComboDetail(slug);
+	if (!combo) {
+		notFound();
+	}
+
+	return (
+		<SiteShell>
+			<ComboDetail combo={combo} />
+		</SiteShell>
+	);
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import { useState, useTransition } from "react";
+
+import {
+	STAFF_ROLES,
+	STAFF_ROLE_LABELS,
+	type StaffRole,
+} from "@/lib/staff-roles";
+
+import { assignStaffRoleAction } from "../actions";
+
+type StaffRoleSelectProps = {
+	userId: string;
+	role: StaffRole | null;
+	disabled?: boolean;
+};
+
+export function StaffRoleSelect({
+	userId,
+	role,
+	disabled,
+}: StaffRoleSelectProps) {
+	const [value, setValue] = useState<StaffRole | "none">(role ?? "none");
+	const [feedback, setFeedback] = useState<{
+		type: "success" | "error";
+		message: string;
+	} | null>(null);
+	const [isPending, startTransition] = useTransition();
+
+	const handleSave = () => {
+		setFeedback(null);
+		startTransition(async () => {
+			const result = await assignStaffRoleAction({ userId, role: value });
+
+			if (!result.success) {
+				setFeedback({
+					type: "error",
+					message:
+						Object.values(result.errors).flat()[0] ??
+						"No pudimos actualizar el rol.",
+				});
+				return;
+			}
+
+			setFeedback({
+				type: "success",
+				message: result.message ?? "Rol actualizado",
+			});
+		});
+	};
+
+	return (
+		<div className='flex flex-col items-end gap-1'>
+			<div className='flex items-center gap-2'>
+				<select
+					value={value}
+					onChange={(event) =>
+						setValue(event.target.value as StaffRole | "none")
+					}
+					disabled={disabled || isPending}
+					className='rounded-md border border-gray-300 px-3 py-1.5 text-sm shadow-sm focus:border-blush-400 focus:outline-none focus:ring-1 focus:ring-blush-300'>
+					{STAFF_ROLES.map((option) => (
+						<option key={option} value={option}>
+							{STAFF_ROLE_LABELS[option]}
+						</option>
+					))}
+					<option value='none'>Sin acceso</option>
+				</select>
+				<button
+					type='button'
+					onClick={handleSave}
+					disabled={disabled || isPending || value === (role ?? "none")}
+					className='inline-flex items-center rounded-md bg-blush-500 px-3 py-1.5 text-xs font-semibold text-white shadow-sm transition hover:bg-blush-400 disabled:cursor-not-allowed disabled:bg-blush-200'>
+					{isPending ? "Guardando…" : "Guardar"}
+				</button>
+			</div>
+			{feedback ? (
+				<p
+					className={`text-xs ${
+						feedback.type === "error" ? "text-red-600" : "text-emerald-600"
+					}`}>
+					{feedback.message}
+				</p>
+			) : null}
+		</div>
+	);
+}
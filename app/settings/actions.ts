@@ -0,0 +1,140 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+
+import type { ActionErrorRecord, ActionResult } from "@/lib/actions";
+import { recordAuditEvent } from "@/lib/audit";
+import { staffRoleAssignmentSchema } from "@/lib/schemas";
+import {
+	STAFF_AUTHORIZATION_MESSAGES,
+	StaffAuthorizationError,
+	requireRoutePermission,
+} from "@/lib/staff";
+import { STAFF_ROLE_LABELS } from "@/lib/staff-roles";
+import {
+	MissingEnvironmentVariableError,
+	createSupabaseAdminClient,
+} from "@/lib/supabase-admin";
+
+function flattenErrors(error: z.ZodError): ActionErrorRecord {
+	const { fieldErrors, formErrors } = error.flatten();
+	return {
+		...(Object.fromEntries(
+			Object.entries(fieldErrors).map(([key, value]) => [key, value ?? []]),
+		) as ActionErrorRecord),
+		...(formErrors.length ? { form: formErrors } : {}),
+	};
+}
+
+export async function assignStaffRoleAction(
+	input: z.input<typeof staffRoleAssignmentSchema>,
+): Promise<ActionResult<{ userId: string; role: string }>> {
+	try {
+		const payload = staffRoleAssignmentSchema.parse(input);
+		const { user } = await requireRoutePermission("/settings");
+		const adminClient = createSupabaseAdminClient();
+
+		const { data: owners, error: ownersError } = await adminClient
+			.from("staff_members")
+			.select("user_id")
+			.eq("role", "owner");
+
+		if (ownersError) {
+			throw new Error(ownersError.message);
+		}
+
+		const { data: current } = await adminClient
+			.from("staff_members")
+			.select("role")
+			.eq("user_id", payload.userId)
+			.maybeSingle();
+
+		const ownerIds = (owners ?? []).map((row) => row.user_id as string);
+		const removesOwner =
+			ownerIds.includes(payload.userId) && payload.role !== "owner";
+
+		if (removesOwner && ownerIds.length <= 1) {
+			return {
+				success: false,
+				errors: {
+					form: [
+						"La tienda necesita al menos una dueña. Asigna otra antes de cambiar este rol.",
+					],
+				},
+			};
+		}
+
+		const { error } =
+			payload.role === "none"
+				? await adminClient
+						.from("staff_members")
+						.delete()
+						.eq("user_id", payload.userId)
+				: await adminClient.from("staff_members").upsert(
+						{
+							user_id: payload.userId,
+							role: payload.role,
+							created_by: user.id,
+						},
+						{ onConflict: "user_id" },
+				  );
+
+		if (error) {
+			throw new Error(error.message);
+		}
+
+		await recordAuditEvent(adminClient, {
+			actor: user,
+			action: "staff_member.role",
+			entityType: "staff_member",
+			entityId: payload.userId,
+			before: { role: current?.role ?? null },
+			after: { role: payload.role === "none" ? null : payload.role },
+		});
+
+		revalidatePath("/settings");
+
+		return {
+			success: true,
+			data: { userId: payload.userId, role: payload.role },
+			message:
+				payload.role === "none"
+					? "Acceso retirado"
+					: `Rol actualizado a ${STAFF_ROLE_LABELS[
+							payload.role
+					  ].toLowerCase()}`,
+		};
+	} catch (error) {
+		if (error instanceof z.ZodError) {
+			return { success: false, errors: flattenErrors(error) };
+		}
+
+		if (error instanceof StaffAuthorizationError) {
+			return {
+				success: false,
+				errors: { form: [STAFF_AUTHORIZATION_MESSAGES[error.reason]] },
+			};
+		}
+
+		if (error instanceof MissingEnvironmentVariableError) {
+			return {
+				success: false,
+				errors: {
+					form: [
+						`Falta configurar la variable de entorno ${error.envVar}. Revisa la guía de instalación para obtener el valor correcto.`,
+					],
+				},
+			};
+		}
+
+		console.error("[assignStaffRoleAction]", error);
+
+		return {
+			success: false,
+			errors: {
+				form: ["No pudimos actualizar el rol. Inténtalo nuevamente."],
+			},
+		};
+	}
+}
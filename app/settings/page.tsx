@@ -0,0 +1,154 @@
+import DashboardShell from "@/components/dashboard-shell";
+import { requireStaffPage } from "@/lib/staff";
+import {
+	STAFF_PERMISSIONS,
+	STAFF_ROLES,
+	STAFF_ROLE_LABELS,
+	isStaffRole,
+	type StaffRole,
+} from "@/lib/staff-roles";
+import { createSupabaseAdminClient } from "@/lib/supabase-admin";
+
+import { StaffRoleSelect } from "./_components/staff-role-select";
+
+export const dynamic = "force-dynamic";
+export const fetchCache = "force-no-store";
+export const revalidate = 0;
+
+const ROLE_SUMMARIES: Record<StaffRole, string> = {
+	owner: "Acceso completo, incluidas finanzas y ajustes.",
+	manager: "Inventario, combos, clientes y reembolsos, sin finanzas.",
+	cashier: "Punto de venta y seguimiento de órdenes, sin costos ni ganancias.",
+};
+
+type StaffRow = {
+	id: string;
+	email: string | null;
+	createdAt: string;
+	lastSignInAt: string | null;
+	role: StaffRole | null;
+};
+
+export default async function SettingsPage() {
+	const { user } = await requireStaffPage("manageSettings");
+	const admin = createSupabaseAdminClient();
+
+	const [usersResponse, membersResponse] = await Promise.all([
+		admin.auth.admin.listUsers({ perPage: 200 }),
+		admin.from("staff_members").select("user_id, role"),
+	]);
+
+	const loadError = usersResponse.error ?? membersResponse.error;
+	if (loadError) {
+		console.error("[settings] staff", loadError);
+	}
+
+	const roles = new Map<string, StaffRole>();
+	for (const member of (membersResponse.data ?? []) as Array<{
+		user_id: string;
+		role: string;
+	}>) {
+		if (isStaffRole(member.role)) {
+			roles.set(member.user_id, member.role);
+		}
+	}
+
+	const staff: StaffRow[] = (usersResponse.data?.users ?? [])
+		.map((account) => ({
+			id: account.id,
+			email: account.email ?? null,
+			createdAt: account.created_at,
+			lastSignInAt: account.last_sign_in_at ?? null,
+			role: roles.get(account.id) ?? null,
+		}))
+		.sort((a, b) => (a.email ?? "").localeCompare(b.email ?? ""));
+
+	return (
+		<DashboardShell
+			user={user}
+			currentPath='/settings'
+			title='Ajustes'
+			description='Decide qué puede ver y hacer cada persona del equipo.'>
+			<div className='space-y-8'>
+				<div className='grid gap-4 md:grid-cols-3'>
+					{STAFF_ROLES.map((role) => (
+						<div
+							key={role}
+							className='rounded-xl border border-gray-200 bg-white p-5 shadow-sm'>
+							<p className='text-sm font-semibold text-gray-900'>
+								{STAFF_ROLE_LABELS[role]}
+							</p>
+							<p className='mt-1 text-xs text-gray-500'>
+								{ROLE_SUMMARIES[role]}
+							</p>
+							<p className='mt-3 text-xs text-gray-400'>
+								{
+									Object.values(STAFF_PERMISSIONS).filter((roles) =>
+										(roles as readonly StaffRole[]).includes(role),
+									).length
+								}{" "}
+								de {Object.keys(STAFF_PERMISSIONS).length} permisos
+							</p>
+						</div>
+					))}
+				</div>
+
+				{loadError ? (
+					<div className='rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700'>
+						No pudimos cargar el equipo. Verifica que la tabla{" "}
+						<code>staff_members</code> exista en Supabase y vuelve a
+						intentarlo.
+					</div>
+				) : (
+					<div className='overflow-hidden rounded-lg border border-gray-200 bg-white shadow-sm'>
+						<table className='min-w-full divide-y divide-gray-200 text-sm'>
+							<thead className='bg-gray-50 text-xs font-semibold uppercase tracking-wider text-gray-500'>
+								<tr>
+									<th className='px-4 py-3 text-left'>Cuenta</th>
+									<th className='px-4 py-3 text-left'>Creada</th>
+									<th className='px-4 py-3 text-left'>Último acceso</th>
+									<th className='px-4 py-3 text-right'>Rol</th>
+								</tr>
+							</thead>
+							<tbody className='divide-y divide-gray-200'>
+								{staff.map((member) => (
+									<tr key={member.id} className='hover:bg-blush-50'>
+										<td className='px-4 py-4 font-medium text-gray-900'>
+											{member.email ?? "Sin correo"}
+											{member.id === user.id ? (
+												<span className='ml-2 text-xs text-gray-400'>(tú)</span>
+											) : null}
+										</td>
+										<td className='px-4 py-4 text-gray-500'>
+											{formatDate(member.createdAt)}
+										</td>
+										<td className='px-4 py-4 text-gray-500'>
+											{member.lastSignInAt
+												? formatDate(member.lastSignInAt)
+												: "Nunca"}
+										</td>
+										<td className='px-4 py-4 text-right'>
+											<StaffRoleSelect userId={member.id} role={member.role} />
+										</td>
+									</tr>
+								))}
+							</tbody>
+						</table>
+					</div>
+				)}
+			</div>
+		</DashboardShell>
+	);
+}
+
+function formatDate(raw: string) {
+	try {
+		return new Intl.DateTimeFormat("es-NI", {
+			dateStyle: "medium",
+			timeStyle: "short",
+			timeZone: "UTC",
+		}).format(new Date(raw));
+	} catch {
+		return raw;
+	}
+}
@@ -0,0 +1,267 @@
+import {
+	PRICE_HISTORY_SOURCE_LABELS,
+	type PriceHistoryEntry,
+} from "@/lib/price-history";
+
+type PriceHistoryTimelineProps = {
+	entries: PriceHistoryEntry[];
+	currency?: string;
+	showCost?: boolean;
+	description?: string;
+};
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 180;
+const CHART_PADDING = { top: 12, right: 12, bottom: 24, left: 12 };
+
+function formatDate(raw: string) {
+	try {
+		return new Intl.DateTimeFormat("es-NI", {
+			dateStyle: "medium",
+			timeStyle: "short",
+			timeZone: "UTC",
+		}).format(new Date(raw));
+	} catch {
+		return raw;
+	}
+}
+
+function formatShortDate(time: number) {
+	return new Intl.DateTimeFormat("es-NI", {
+		dateStyle: "short",
+		timeZone: "UTC",
+	}).format(new Date(time));
+}
+
+function formatReference(reference: string | null) {
+	if (!reference) return "—";
+	const [kind, id] = reference.split(":");
+	if (kind === "repricing_run") return `Lote #${id}`;
+	if (kind === "repricing_rollback") return `Reversión del lote #${id}`;
+	if (kind === "inventory_intake") return "Ingreso de inventario";
+	if (kind === "order") return `Orden ${id.slice(0, 8)}`;
+	return reference;
+}
+
+/**
+ * Builds an SVG step path: each price holds until the next change, and the
+ * last one runs to the right edge (now). Gaps where the price was unset break
+ * the line.
+ */
+function buildStepPath(
+	points: Array<{ time: number; value: number | null }>,
+	endTime: number,
+	toX: (time: number) => number,
+	toY: (value: number) => number,
+) {
+	const segments: string[] = [];
+
+	points.forEach((point, index) => {
+		if (point.value === null) return;
+		const nextTime = points[index + 1]?.time ?? endTime;
+		const y = toY(point.value).toFixed(1);
+		const previous = points[index - 1];
+		const command = previous && previous.value !== null ? "L" : "M";
+		segments.push(
+			`${command}${toX(point.time).toFixed(1)},${y}`,
+			`L${toX(nextTime).toFixed(1)},${y}`,
+		);
+	});
+
+	return segments.join(" ");
+}
+
+function PriceChart({
+	entries,
+	showCost,
+}: {
+	entries: PriceHistoryEntry[];
+	showCost: boolean;
+}) {
+	const points = [...entries]
+		.reverse()
+		.map((entry) => ({
+			time: new Date(entry.createdAt).getTime(),
+			sell: entry.sellPrice,
+			cost: showCost ? entry.costPrice : null,
+		}));
+
+	const values = points
+		.flatMap((point) => [point.sell, point.cost])
+		.filter((value): value is number => value !== null);
+
+	if (values.length === 0) {
+		return null;
+	}
+
+	const startTime = points[0].time;
+	const endTime = Math.max(new Date().getTime(), startTime + 1);
+	const maxValue = Math.max(...values);
+	const minValue = Math.min(0, ...values);
+	const range = maxValue - minValue || 1;
+
+	const innerWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+	const innerHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+	const toX = (time: number) =>
+		CHART_PADDING.left +
+		((time - startTime) / (endTime - startTime)) * innerWidth;
+	const toY = (value: number) =>
+		CHART_PADDING.top + (1 - (value - minValue) / range) * innerHeight;
+
+	const sellPath = buildStepPath(
+		points.map((point) => ({ time: point.time, value: point.sell })),
+		endTime,
+		toX,
+		toY,
+	);
+	const costPath = showCost
+		? buildStepPath(
+				points.map((point) => ({ time: point.time, value: point.cost })),
+				endTime,
+				toX,
+				toY,
+			)
+		: "";
+
+	return (
+		<div className='space-y-2'>
+			<svg
+				viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+				className='h-44 w-full'
+				role='img'
+				aria-label='Evolución del precio'>
+				<line
+					x1={CHART_PADDING.left}
+					x2={CHART_WIDTH - CHART_PADDING.right}
+					y1={toY(minValue)}
+					y2={toY(minValue)}
+					className='stroke-gray-200'
+				/>
+				{costPath ? (
+					<path
+						d={costPath}
+						fill='none'
+						strokeWidth={2}
+						strokeDasharray='4 3'
+						className='stroke-gray-400'
+					/>
+				) : null}
+				<path
+					d={sellPath}
+					fill='none'
+					strokeWidth={2}
+					className='stroke-blush-500'
+				/>
+				{points.map((point, index) =>
+					point.sell === null ? null : (
+						<circle
+							key={index}
+							cx={toX(point.time)}
+							cy={toY(point.sell)}
+							r={3}
+							className='fill-blush-500'
+						/>
+					),
+				)}
+				<text
+					x={CHART_PADDING.left}
+					y={CHART_HEIGHT - 6}
+					className='fill-gray-400 text-[10px]'>
+					{formatShortDate(startTime)}
+				</text>
+				<text
+					x={CHART_WIDTH - CHART_PADDING.right}
+					y={CHART_HEIGHT - 6}
+					textAnchor='end'
+					className='fill-gray-400 text-[10px]'>
+					Hoy
+				</text>
+			</svg>
+			<div className='flex items-center gap-4 text-xs text-gray-500'>
+				<span className='inline-flex items-center gap-1'>
+					<span className='h-0.5 w-4 bg-blush-500' /> Precio de venta
+				</span>
+				{showCost ? (
+					<span className='inline-flex items-center gap-1'>
+						<span className='h-0.5 w-4 border-t-2 border-dashed border-gray-400' />{" "}
+						Costo
+					</span>
+				) : null}
+			</div>
+		</div>
+	);
+}
+
+export function PriceHistoryTimeline({
+	entries,
+	currency = "NIO",
+	showCost = true,
+	description = "Cada cambio de precio con su origen y fecha.",
+}: PriceHistoryTimelineProps) {
+	const formatter = new Intl.NumberFormat("es-NI", {
+		style: "currency",
+		currency,
+	});
+	const formatPrice = (value: number | null) =>
+		value === null ? "—" : formatter.format(value);
+
+	return (
+		<section className='rounded-lg border border-gray-200 bg-white shadow-sm'>
+			<header className='border-b border-gray-200 px-6 py-4'>
+				<h2 className='text-base font-semibold text-gray-900'>
+					Historial de precios
+				</h2>
+				<p className='text-sm text-gray-500'>{description}</p>
+			</header>
+			{entries.length === 0 ? (
+				<p className='px-6 py-8 text-center text-sm text-gray-500'>
+					Aún no hay cambios de precio registrados.
+				</p>
+			) : (
+				<>
+					<div className='px-6 py-4'>
+						<PriceChart entries={entries} showCost={showCost} />
+					</div>
+					<div className='overflow-x-auto border-t border-gray-200'>
+						<table className='min-w-full divide-y divide-gray-200 text-sm'>
+							<thead className='bg-gray-50 text-xs font-semibold uppercase tracking-wider text-gray-500'>
+								<tr>
+									<th className='px-4 py-3 text-left'>Fecha</th>
+									<th className='px-4 py-3 text-left'>Origen</th>
+									<th className='px-4 py-3 text-right'>Precio</th>
+									{showCost ? (
+										<th className='px-4 py-3 text-right'>Costo</th>
+									) : null}
+									<th className='px-4 py-3 text-left'>Referencia</th>
+								</tr>
+							</thead>
+							<tbody className='divide-y divide-gray-200'>
+								{entries.map((entry) => (
+									<tr key={entry.id} className='hover:bg-blush-50'>
+										<td className='whitespace-nowrap px-4 py-3 text-gray-700'>
+											{formatDate(entry.createdAt)}
+										</td>
+										<td className='px-4 py-3 text-gray-700'>
+											{PRICE_HISTORY_SOURCE_LABELS[entry.source]}
+										</td>
+										<td className='px-4 py-3 text-right font-medium text-gray-900'>
+											{formatPrice(entry.sellPrice)}
+										</td>
+										{showCost ? (
+											<td className='px-4 py-3 text-right text-gray-700'>
+												{formatPrice(entry.costPrice)}
+											</td>
+										) : null}
+										<td className='px-4 py-3 text-xs text-gray-500'>
+											{formatReference(entry.reference)}
+										</td>
+									</tr>
+								))}
+							</tbody>
+						</table>
+					</div>
+				</>
+			)}
+		</section>
+	);
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import { useState } from "react";
+
+import type { RuleCheck, RuleExplanation } from "@/lib/pricing-rules";
+
+type RuleExplanationListProps = {
+	explanations: RuleExplanation[];
+	selectedRuleId: number | null;
+};
+
+function formatValues(check: RuleCheck) {
+	if (!check.values) return null;
+	if (!check.values.length) return "sin datos";
+	return check.values
+		.map((value) => Number(value.toFixed(2)).toString())
+		.join(", ");
+}
+
+export function RuleExplanationList({
+	explanations,
+	selectedRuleId,
+}: RuleExplanationListProps) {
+	const [expanded, setExpanded] = useState(false);
+	const selected =
+		explanations.find(
+			(explanation) => explanation.rule.id === selectedRuleId,
+		) ?? null;
+
+	return (
+		<div className='space-y-3 rounded-lg border border-gray-200 bg-white p-4 shadow-sm'>
+			<div className='flex items-start justify-between gap-3'>
+				<div>
+					<h3 className='text-sm font-semibold text-gray-900'>
+						Regla aplicada
+					</h3>
+					<p className='text-sm text-gray-600'>
+						{selected
+							? selected.rule.name ?? `Regla #${selected.rule.id}`
+							: "Ninguna regla coincide; se usan los márgenes base."}
+					</p>
+				</div>
+				{explanations.length ? (
+					<button
+						type='button'
+						onClick={() => setExpanded((prev) => !prev)}
+						aria-expanded={expanded}
+						className='shrink-0 text-xs font-medium text-blush-600 hover:text-blush-500'>
+						{expanded ? "Ocultar explicación" : "Ver explicación"}
+					</button>
+				) : null}
+			</div>
+
+			{expanded ? (
+				<ol className='space-y-3'>
+					{explanations.map((explanation, index) => {
+						const isSelected = explanation.rule.id === selectedRuleId;
+						return (
+							<li
+								key={explanation.rule.id ?? index}
+								className={`rounded-md border p-3 ${
+									isSelected
+										? "border-blush-300 bg-blush-50"
+										: "border-gray-200"
+								}`}>
+								<div className='flex items-center justify-between gap-2'>
+									<p className='text-sm font-medium text-gray-900'>
+										{explanation.rule.name ??
+											`Regla #${explanation.rule.id}`}
+									</p>
+									<span
+										className={`text-xs font-medium ${
+											isSelected
+												? "text-blush-700"
+												: explanation.matched
+													? "text-gray-600"
+													: "text-gray-400"
+										}`}>
+										{isSelected
+											? "Elegida"
+											: explanation.matched
+												? "Coincide (menor prioridad)"
+												: "No coincide"}
+									</span>
+								</div>
+								<ul className='mt-2 space-y-1'>
+									{explanation.checks.map((check) => {
+										const values = formatValues(check);
+										return (
+											<li
+												key={check.key}
+												className={`text-xs ${
+													check.passed ? "text-gray-600" : "text-red-600"
+												}`}>
+												{check.passed ? "✓" : "✗"} {check.detail}
+												{values ? ` · valores: ${values}` : null}
+											</li>
+										);
+									})}
+								</ul>
+							</li>
+						);
+					})}
+				</ol>
+			) : null}
+		</div>
+	);
+}
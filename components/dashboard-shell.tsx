@@ -3,6 +3,9 @@ import Link from "next/link";
 import { redirect } from "next/navigation";
 import type { ReactNode } from "react";
 
+import { findRoutePolicy } from "@/lib/route-policies";
+import { getStaffSession } from "@/lib/staff";
+import { STAFF_ROLE_LABELS, hasStaffPermission } from "@/lib/staff-roles";
 import { createSupabaseServerClient } from "@/lib/supabase-server";
 
 const NAV_ITEMS = [
@@ -11,8 +14,14 @@ const NAV_ITEMS = [
 	{ href: "/inventory", label: "Inventario" },
 	{ href: "/categories", label: "Categorías" },
 	{ href: "/combos", label: "Combos" },
+	{ href: "/pricing/rules", label: "Precios" },
+	{ href: "/pricing/bulk", label: "Repreciar" },
+	{ href: "/pricing/promo-codes", label: "Promociones" },
 	{ href: "/orders", label: "Órdenes" },
+	{ href: "/customers", label: "Clientes" },
 	{ href: "/pos", label: "POS" },
+	{ href: "/audit", label: "Auditoría" },
+	{ href: "/settings", label: "Ajustes" },
 ];
 
 type DashboardShellProps = {
@@ -93,7 +102,7 @@ export function DashboardShellSkeleton({
 		</div>
 	);
 }
-export default function DashboardShell({
+export default async function DashboardShell({
 	user,
 	currentPath,
 	title,
@@ -101,6 +110,13 @@ export default function DashboardShell({
 	action,
 	children,
 }: DashboardShellProps) {
+	const session = await getStaffSession();
+	const role = session?.role ?? null;
+	const navItems = NAV_ITEMS.filter((item) => {
+		const permission = findRoutePolicy(item.href)?.permission;
+		return !permission || hasStaffPermission(role, permission);
+	});
+
 	async function signOut() {
 		"use server";
 
@@ -116,7 +132,7 @@ export default function DashboardShell({
 					Inventario Girlee
 				</div>
 				<nav className='flex-1 space-y-1 px-3 py-6'>
-					{NAV_ITEMS.map((item) => {
+					{navItems.map((item) => {
 						const active = isActive(currentPath, item.href);
 						return (
 							<Link
@@ -145,10 +161,15 @@ export default function DashboardShell({
 							</p>
 							<p className='text-sm font-semibold text-gray-900'>
 								{user.email}
+								{role ? (
+									<span className='ml-2 inline-flex items-center rounded-full bg-blush-100 px-2 py-0.5 text-xs font-medium text-blush-600'>
+										{STAFF_ROLE_LABELS[role]}
+									</span>
+								) : null}
 							</p>
 						</div>
 						<nav className='flex items-center gap-2 text-sm text-gray-600 lg:hidden'>
-							{NAV_ITEMS.map((item) => {
+							{navItems.map((item) => {
 								const active = isActive(currentPath, item.href);
 								return (
 									<Link
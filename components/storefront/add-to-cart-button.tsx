@@ -4,6 +4,7 @@ import { useEffect, useState } from "react";
 
 type CartProduct = {
 	id: string;
+	type?: CartItemType;
 	slug: string;
 	name: string;
 	currency: string;
@@ -19,9 +20,15 @@ type AddToCartButtonProps = {
 	className?: string;
 	label?: string;
 	addedLabel?: string;
+	/** Shown instead of `label` on a disabled button, e.g. when sold out. */
+	disabledLabel?: string;
+	disabled?: boolean;
 };
 
-import { useCart } from "@/components/storefront/cart-context";
+import {
+	type CartItemType,
+	useCart,
+} from "@/components/storefront/cart-context";
 
 const SIZE_STYLES: Record<NonNullable<AddToCartButtonProps["size"]>, string> = {
 	sm: "px-3 py-2 text-xs",
@@ -49,6 +56,8 @@ export function AddToCartButton({
 	className,
 	label = "Agregar al carrito",
 	addedLabel = "Agregado",
+	disabledLabel = "Agotado",
+	disabled = false,
 }: AddToCartButtonProps) {
 	const { addItem } = useCart();
 	const [status, setStatus] = useState<"idle" | "added">("idle");
@@ -60,8 +69,10 @@ export function AddToCartButton({
 	}, [status]);
 
 	const handleClick = () => {
+		if (disabled) return;
 		addItem({
 			id: product.id,
+			type: product.type,
 			slug: product.slug,
 			name: product.name,
 			currency: product.currency,
@@ -76,10 +87,11 @@ export function AddToCartButton({
 		<button
 			type='button'
 			onClick={handleClick}
-			className={`inline-flex items-center justify-center rounded-full font-semibold transition focus:outline-none focus:ring-2 focus:ring-blush-200 focus:ring-offset-2 ${
+			disabled={disabled}
+			className={`inline-flex items-center justify-center rounded-full font-semibold transition focus:outline-none focus:ring-2 focus:ring-blush-200 focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-60 ${
 				SIZE_STYLES[size]
 			} ${VARIANT_STYLES[variant]} ${className ?? ""}`}>
-			{status === "added" ? addedLabel : label}
+			{disabled ? disabledLabel : status === "added" ? addedLabel : label}
 		</button>
 	);
 }
@@ -10,8 +10,11 @@ import {
 	useState,
 } from "react";
 
+export type CartItemType = "product" | "combo";
+
 export type CartItem = {
 	id: string;
+	type: CartItemType;
 	slug: string;
 	name: string;
 	currency: string;
@@ -22,6 +25,7 @@ export type CartItem = {
 
 type AddItemPayload = {
 	id: string;
+	type?: CartItemType;
 	slug: string;
 	name: string;
 	currency: string;
@@ -39,6 +43,7 @@ type CartContextValue = {
 	addItem: (item: AddItemPayload) => void;
 	removeItem: (id: string) => void;
 	updateQuantity: (id: string, quantity: number) => void;
+	syncPrices: (updates: Array<{ id: string; price: number | null }>) => void;
 	clearCart: () => void;
 };
 
@@ -58,7 +63,7 @@ function sanitizeStoredItems(candidate: unknown): CartItem[] {
 	return candidate
 		.map((item) => {
 			if (!item || typeof item !== "object") return null;
-			const { id, slug, name, currency, price, imageUrl, quantity } =
+			const { id, type, slug, name, currency, price, imageUrl, quantity } =
 				item as Record<string, unknown>;
 			if (
 				typeof id !== "string" ||
@@ -74,6 +79,8 @@ function sanitizeStoredItems(candidate: unknown): CartItem[] {
 			const safeImage = typeof imageUrl === "string" ? imageUrl : null;
 			return {
 				id,
+				// Carts saved before combos were sellable only held products.
+				type: type === "combo" ? "combo" : "product",
 				slug,
 				name,
 				currency: safeCurrency,
@@ -130,6 +137,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
 
 			const newItem: CartItem = {
 				id: payload.id,
+				type: payload.type ?? "product",
 				slug: payload.slug,
 				name: payload.name,
 				currency: payload.currency ?? "NIO",
@@ -161,6 +169,27 @@ export function CartProvider({ children }: { children: ReactNode }) {
 		);
 	}, []);
 
+	const syncPrices = useCallback(
+		(updates: Array<{ id: string; price: number | null }>) => {
+			const priceById = new Map(
+				updates.map((update) => [
+					update.id,
+					typeof update.price === "number" && Number.isFinite(update.price)
+						? update.price
+						: null,
+				]),
+			);
+			setItems((prev) =>
+				prev.map((item) =>
+					priceById.has(item.id)
+						? { ...item, price: priceById.get(item.id) ?? null }
+						: item,
+				),
+			);
+		},
+		[],
+	);
+
 	const clearCart = useCallback(() => {
 		setItems([]);
 	}, []);
@@ -184,9 +213,18 @@ export function CartProvider({ children }: { children: ReactNode }) {
 			addItem,
 			removeItem,
 			updateQuantity,
+			syncPrices,
 			clearCart,
 		};
-	}, [items, addItem, removeItem, updateQuantity, clearCart, isHydrated]);
+	}, [
+		items,
+		addItem,
+		removeItem,
+		updateQuantity,
+		syncPrices,
+		clearCart,
+		isHydrated,
+	]);
 
 	return (
 		<CartContext.Provider value={derived}>{children}</CartContext.Provider>
@@ -0,0 +1,143 @@
+import Image from "next/image";
+import Link from "next/link";
+
+import { AddToCartButton } from "@/components/storefront/add-to-cart-button";
+import type { StorefrontComboDetail } from "@/lib/storefront/types";
+
+const currencyFormatter = new Intl.NumberFormat("es-NI", {
+	style: "currency",
+	currency: "NIO",
+	minimumFractionDigits: 2,
+});
+
+function resolveAvailability(buildableQty: number | undefined) {
+	if (buildableQty === undefined) {
+		return {
+			label: "Consulta disponibilidad",
+			className: "bg-blush-100 text-blush-600",
+		};
+	}
+
+	if (buildableQty <= 0) {
+		return { label: "Agotado", className: "bg-gray-200 text-gray-600" };
+	}
+
+	if (buildableQty <= 5) {
+		return {
+			label: "Quedan pocas unidades",
+			className: "bg-amber-100 text-amber-700",
+		};
+	}
+
+	return { label: "En stock", className: "bg-emerald-100 text-emerald-700" };
+}
+
+export function ComboDetail({ combo }: { combo: StorefrontComboDetail }) {
+	const price =
+		typeof combo.suggestedPrice === "number" ? combo.suggestedPrice : null;
+	const availability = resolveAvailability(combo.buildableQty);
+	const isSoldOut = combo.buildableQty === 0;
+
+	return (
+		<article className='space-y-16'>
+			<section className='grid gap-10 rounded-3xl border border-blush-100 bg-white/80 p-8 shadow-sm lg:grid-cols-[minmax(0,1.1fr)_minmax(0,0.9fr)]'>
+				{combo.imageUrl ? (
+					<div className='relative aspect-square overflow-hidden rounded-3xl border border-blush-100 bg-white/80 shadow-sm'>
+						<Image
+							src={combo.imageUrl}
+							alt={combo.name}
+							fill
+							sizes='(min-width: 1280px) 560px, 100vw'
+							className='object-cover'
+						/>
+					</div>
+				) : (
+					<div className='flex min-h-80 items-center justify-center rounded-2xl border border-dashed border-blush-200 bg-blush-50/70 text-sm text-gray-500'>
+						Aún no tenemos fotografías para este combo.
+					</div>
+				)}
+
+				<div className='space-y-6 text-gray-800'>
+					<div className='space-y-3'>
+						<p className='text-xs font-semibold uppercase tracking-[0.3em] text-blush-500'>
+							Combo
+						</p>
+						<h1 className='text-3xl font-semibold text-gray-900 sm:text-4xl'>
+							{combo.name}
+						</h1>
+						{combo.description ? (
+							<p className='text-base leading-relaxed text-gray-600'>
+								{combo.description}
+							</p>
+						) : null}
+					</div>
+
+					<div className='rounded-2xl border border-blush-100 bg-white/60 p-6 shadow-inner'>
+						<p className='text-xs font-semibold uppercase tracking-[0.3em] text-blush-500'>
+							Precio
+						</p>
+						<p className='mt-3 text-3xl font-semibold text-gray-900'>
+							{price !== null ? currencyFormatter.format(price) : "Contáctanos"}
+						</p>
+						<span
+							className={`mt-4 inline-flex items-center rounded-full px-4 py-1.5 text-xs font-semibold uppercase tracking-wide ${availability.className}`}>
+							{availability.label}
+						</span>
+					</div>
+
+					<div className='flex flex-wrap gap-3'>
+						<AddToCartButton
+							product={{
+								id: combo.id,
+								type: "combo",
+								slug: combo.slug,
+								name: combo.name,
+								currency: combo.currency ?? "NIO",
+								price,
+								imageUrl: combo.imageUrl ?? null,
+							}}
+							size='lg'
+							label='Agregar combo al carrito'
+							disabled={isSoldOut}
+							className='flex-1 justify-center sm:flex-none'
+						/>
+						<Link
+							href='/cart'
+							className='inline-flex items-center justify-center rounded-full border border-blush-300 px-4 py-3 text-sm font-semibold text-blush-600 transition hover:bg-blush-100'>
+							Ver carrito
+						</Link>
+					</div>
+
+					<div className='space-y-3'>
+						<p className='text-xs font-semibold uppercase tracking-[0.3em] text-blush-500'>
+							Incluye
+						</p>
+						<ul className='space-y-3'>
+							{combo.items.map((item) => (
+								<li key={item.productId} className='flex items-center gap-3'>
+									<div className='relative h-12 w-12 overflow-hidden rounded-xl border border-blush-100 bg-blush-50/70'>
+										{item.imageUrl ? (
+											<Image
+												src={item.imageUrl}
+												alt={item.name}
+												fill
+												sizes='48px'
+												className='object-cover'
+											/>
+										) : null}
+									</div>
+									<Link
+										href={`/products/${item.slug}`}
+										className='text-sm font-medium text-gray-900 underline-offset-2 hover:underline'>
+										{item.qty > 1 ? `${item.qty}× ` : null}
+										{item.name}
+									</Link>
+								</li>
+							))}
+						</ul>
+					</div>
+				</div>
+			</section>
+		</article>
+	);
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+
+import { buildableComboCount } from "../combo-availability";
+
+describe("buildableComboCount", () => {
+	it("is limited by the scarcest component", () => {
+		const available = new Map([
+			["a", 10],
+			["b", 7],
+		]);
+		expect(
+			buildableComboCount(
+				[
+					{ productId: "a", qty: 2 },
+					{ productId: "b", qty: 3 },
+				],
+				available,
+			),
+		).toBe(2);
+	});
+
+	it("treats unknown components as out of stock", () => {
+		expect(
+			buildableComboCount(
+				[{ productId: "missing", qty: 1 }],
+				new Map([["a", 5]]),
+			),
+		).toBe(0);
+		expect(buildableComboCount([], new Map())).toBe(0);
+	});
+
+	it("treats a null quantity as out of stock", () => {
+		const available = new Map<string, number | null>([
+			["a", null],
+			["b", 4],
+		]);
+		expect(
+			buildableComboCount(
+				[
+					{ productId: "a", qty: 1 },
+					{ productId: "b", qty: 1 },
+				],
+				available,
+			),
+		).toBe(0);
+		expect(
+			buildableComboCount([{ productId: "b", qty: 1 }], available),
+		).toBe(4);
+	});
+});
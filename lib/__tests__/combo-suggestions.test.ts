@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+
+import {
+	suggestCombos,
+	type ComboSuggestionCandidate,
+} from "../combo-suggestions";
+
+function candidate(
+	id: string,
+	costPrice: number,
+	inventoryAgeDays: number | null,
+	categoryName: string | null = "Cuidado",
+): ComboSuggestionCandidate {
+	return {
+		id,
+		name: id,
+		costPrice,
+		categoryId: null,
+		categoryName,
+		inventoryAgeDays,
+		costChangePct: null,
+	};
+}
+
+describe("suggestCombos", () => {
+	const catalog = [
+		candidate("fresh", 100, 5),
+		candidate("old", 100, 200),
+		candidate("older", 120, 300),
+		candidate("mid", 90, 60, "Maquillaje"),
+	];
+
+	it("ranks bundles of slow-moving stock first", () => {
+		const [first] = suggestCombos(catalog, { maxItems: 2 });
+		expect(first?.items.map((item) => item.productId)).toEqual([
+			"older",
+			"old",
+		]);
+	});
+
+	it("keeps every proposal inside the budget", () => {
+		const proposals = suggestCombos(catalog, {
+			budgetMin: 300,
+			budgetMax: 420,
+			maxItems: 3,
+			packagingCost: 10,
+		});
+		expect(proposals.length).toBeGreaterThan(0);
+		for (const proposal of proposals) {
+			expect(proposal.suggestedPrice).toBeGreaterThanOrEqual(300);
+			expect(proposal.suggestedPrice).toBeLessThanOrEqual(420);
+		}
+	});
+
+	it("only returns bundles with the required category", () => {
+		const proposals = suggestCombos(catalog, {
+			mustIncludeCategory: "maquillaje",
+		});
+		expect(proposals.length).toBeGreaterThan(0);
+		for (const proposal of proposals) {
+			expect(proposal.items.some((item) => item.productId === "mid")).toBe(
+				true,
+			);
+		}
+		expect(suggestCombos(catalog, { mustIncludeCategory: "Joyas" })).toEqual(
+			[],
+		);
+	});
+});
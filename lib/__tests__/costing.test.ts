@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+
+import { fifoUnitCost, weightedAverageCost } from "../costing";
+
+describe("weightedAverageCost", () => {
+	it("blends stock on hand with the received units", () => {
+		expect(weightedAverageCost(10, 100, 10, 130)).toBe(115);
+	});
+
+	it("adopts the intake cost when there is no stock on hand", () => {
+		expect(weightedAverageCost(0, 80, 5, 95.5)).toBe(95.5);
+		expect(weightedAverageCost(-3, 80, 5, 95.5)).toBe(95.5);
+	});
+});
+
+describe("fifoUnitCost", () => {
+	const layers = [
+		{ unitCost: 100, remainingQty: 2 },
+		{ unitCost: 130, remainingQty: 5 },
+	];
+
+	it("takes the oldest layer first", () => {
+		expect(fifoUnitCost(layers, 1, 150)).toBe(100);
+	});
+
+	it("averages across layers when a sale spans several", () => {
+		expect(fifoUnitCost(layers, 4, 150)).toBe(115);
+	});
+
+	it("values units beyond the open layers at the fallback cost", () => {
+		expect(fifoUnitCost(layers, 8, 150)).toBe(125);
+	});
+});
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+
+import {
+	computeDiscountAmount,
+	computeLineDiscount,
+	evaluatePromoCode,
+	normalizePromoCode,
+	type PromoCode,
+} from "../discounts";
+
+const NOW = new Date("2026-03-15T12:00:00Z");
+
+function buildPromo(overrides: Partial<PromoCode> = {}): PromoCode {
+	return {
+		id: "promo-1",
+		code: "BIENVENIDA10",
+		description: null,
+		discountType: "percentage",
+		discountValue: 10,
+		minSubtotal: 0,
+		startsAt: null,
+		endsAt: null,
+		maxUses: null,
+		timesUsed: 0,
+		active: true,
+		createdAt: "2026-01-01T00:00:00Z",
+		...overrides,
+	};
+}
+
+describe("computeDiscountAmount", () => {
+	it("rounds percentages to cents and caps them at 100 %", () => {
+		expect(computeDiscountAmount(33.33, "percentage", 15)).toBe(5);
+		expect(computeDiscountAmount(80, "percentage", 150)).toBe(80);
+	});
+
+	it("never discounts more than the amount", () => {
+		expect(computeDiscountAmount(40, "fixed", 25.5)).toBe(25.5);
+		expect(computeDiscountAmount(40, "fixed", 60)).toBe(40);
+	});
+
+	it("ignores missing or non-positive discounts", () => {
+		expect(computeDiscountAmount(40, undefined, 10)).toBe(0);
+		expect(computeDiscountAmount(40, "fixed", 0)).toBe(0);
+		expect(computeDiscountAmount(0, "percentage", 10)).toBe(0);
+	});
+});
+
+describe("computeLineDiscount", () => {
+	it("applies to the rounded line amount", () => {
+		expect(
+			computeLineDiscount({
+				qty: 3,
+				unitPrice: 0.1,
+				discountType: "percentage",
+				discountValue: 50,
+			}),
+		).toBe(0.15);
+		expect(
+			computeLineDiscount({
+				qty: 2,
+				unitPrice: 10,
+				discountType: "fixed",
+				discountValue: 5,
+			}),
+		).toBe(5);
+		expect(computeLineDiscount({ qty: 2, unitPrice: 10 })).toBe(0);
+	});
+});
+
+describe("evaluatePromoCode", () => {
+	it("returns the discount on the amount", () => {
+		expect(evaluatePromoCode(buildPromo(), 250, NOW)).toEqual({
+			success: true,
+			discount: 25,
+		});
+	});
+
+	it("enforces the validity window", () => {
+		expect(
+			evaluatePromoCode(
+				buildPromo({ startsAt: "2026-04-01T00:00:00Z" }),
+				250,
+				NOW,
+			),
+		).toEqual({ success: false, error: "promo_not_started" });
+		expect(
+			evaluatePromoCode(
+				buildPromo({ endsAt: "2026-03-01T00:00:00Z" }),
+				250,
+				NOW,
+			),
+		).toEqual({ success: false, error: "promo_expired" });
+	});
+
+	it("enforces usage limits, minimum spend and the active flag", () => {
+		expect(
+			evaluatePromoCode(buildPromo({ maxUses: 5, timesUsed: 5 }), 250, NOW),
+		).toEqual({ success: false, error: "promo_exhausted" });
+		expect(
+			evaluatePromoCode(buildPromo({ minSubtotal: 300 }), 299.99, NOW),
+		).toEqual({ success: false, error: "promo_min_subtotal" });
+		expect(evaluatePromoCode(buildPromo({ active: false }), 250, NOW)).toEqual(
+			{ success: false, error: "promo_inactive" },
+		);
+	});
+});
+
+describe("normalizePromoCode", () => {
+	it("trims and uppercases codes", () => {
+		expect(normalizePromoCode("  bienvenida10 ")).toBe("BIENVENIDA10");
+	});
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+
+import {
+	LABEL_LAYOUTS,
+	code128Values,
+	encodeBarcode,
+	encodeCode128,
+	encodeEan13,
+	labelPosition,
+	normalizeEan13,
+} from "../labels";
+
+describe("Code 128", () => {
+	it("computes the weighted checksum", () => {
+		expect(code128Values("PJJ123C")).toEqual([
+			104, 48, 42, 42, 17, 18, 19, 35, 55,
+		]);
+	});
+
+	it("frames the data between start B and stop", () => {
+		const modules = encodeCode128("AB-12");
+		expect(modules?.startsWith("11010010000")).toBe(true);
+		expect(modules?.endsWith("1100011101011")).toBe(true);
+		// Start, five characters and checksum at 11 modules each, plus stop.
+		expect(modules).toHaveLength(7 * 11 + 13);
+	});
+
+	it("rejects characters outside printable ASCII", () => {
+		expect(encodeCode128("Año")).toBeNull();
+	});
+});
+
+describe("EAN-13", () => {
+	it("appends or validates the check digit", () => {
+		expect(normalizeEan13("400638133393")).toBe("4006381333931");
+		expect(normalizeEan13("4006381333931")).toBe("4006381333931");
+		expect(normalizeEan13("4006381333932")).toBeNull();
+	});
+
+	it("produces the 95-module symbol", () => {
+		const modules = encodeEan13("4006381333931");
+		expect(modules).toHaveLength(95);
+		expect(modules?.slice(0, 3)).toBe("101");
+		expect(modules?.slice(45, 50)).toBe("01010");
+	});
+
+	it("falls back to Code 128 in auto mode only", () => {
+		expect(encodeBarcode("4006381333931", "auto")?.symbology).toBe("ean13");
+		expect(encodeBarcode("LAB-001", "auto")?.symbology).toBe("code128");
+		expect(encodeBarcode("LAB-001", "ean13")).toBeNull();
+	});
+});
+
+describe("labelPosition", () => {
+	it("fills sheets row by row and starts a new page when full", () => {
+		const layout = LABEL_LAYOUTS["a4-3x10"];
+		const first = labelPosition(layout, 0);
+		const fourth = labelPosition(layout, 3);
+		const nextPage = labelPosition(layout, 30);
+
+		expect(first.page).toBe(0);
+		expect(first.x).toBe(0);
+		expect(first.y).toBeCloseTo(layout.pageHeight - layout.labelHeight);
+		expect(fourth.x).toBe(0);
+		expect(fourth.y).toBeCloseTo(layout.pageHeight - 2 * layout.labelHeight);
+		expect(nextPage).toEqual({ ...first, page: 1 });
+	});
+});
@@ -0,0 +1,240 @@
+import { describe, expect, it } from "vitest";
+
+import {
+	capOrderDiscount,
+	computeSaleTotal,
+	findTenderIssue,
+	resolveOrderPaymentMethod,
+	summarizeTenders,
+	tenderChange,
+} from "../payments";
+import { posOrderSchema } from "../schemas";
+
+const PRODUCT_ID = "0b7c6a3e-6f0e-4c41-9a55-1d2f3e4a5b6c";
+
+describe("computeSaleTotal", () => {
+	it("rounds each line and never goes below zero", () => {
+		expect(
+			computeSaleTotal({
+				lines: [
+					{ qty: 3, unitPrice: 0.1 },
+					{ qty: 1, unitPrice: 19.999 },
+				],
+				discountAmount: 5,
+				taxAmount: 1.5,
+			}),
+		).toBe(16.8);
+		expect(
+			computeSaleTotal({
+				lines: [{ qty: 1, unitPrice: 10 }],
+				discountAmount: 20,
+			}),
+		).toBe(0);
+	});
+
+	it("caps the order discount at what is left of the subtotal", () => {
+		// Tax is still owed on a sale discounted down to zero.
+		expect(
+			computeSaleTotal({
+				lines: [{ qty: 1, unitPrice: 100, discountAmount: 30 }],
+				promoDiscountAmount: 20,
+				discountAmount: 80,
+				taxAmount: 7.5,
+			}),
+		).toBe(7.5);
+	});
+
+	it("takes line and promo discounts off before the order discount", () => {
+		expect(
+			computeSaleTotal({
+				lines: [
+					{ qty: 2, unitPrice: 100, discountAmount: 20 },
+					{ qty: 1, unitPrice: 50 },
+				],
+				promoDiscountAmount: 23,
+				discountAmount: 7,
+				taxAmount: 10,
+			}),
+		).toBe(210);
+	});
+});
+
+describe("capOrderDiscount", () => {
+	it("keeps discounts that fit and trims the rest", () => {
+		expect(capOrderDiscount(15, 50)).toBe(15);
+		expect(capOrderDiscount(80, 50.25)).toBe(50.25);
+		expect(capOrderDiscount(10, -5)).toBe(0);
+	});
+});
+
+describe("summarizeTenders", () => {
+	it("balances a cash and transfer split and computes change", () => {
+		const summary = summarizeTenders(
+			[
+				{ method: "cash", amount: 300.1, tendered: 500 },
+				{ method: "transfer", amount: 200.2, reference: "BAC-991" },
+			],
+			500.3,
+		);
+
+		expect(summary).toEqual({
+			paid: 500.3,
+			remaining: 0,
+			change: 199.9,
+			isBalanced: true,
+		});
+	});
+
+	it("reports the pending balance when short", () => {
+		const summary = summarizeTenders([{ method: "card", amount: 80 }], 100);
+		expect(summary.isBalanced).toBe(false);
+		expect(summary.remaining).toBe(20);
+	});
+
+	it("only gives change on cash tendered above the amount", () => {
+		expect(tenderChange({ method: "cash", amount: 50, tendered: 40 })).toBe(0);
+		expect(tenderChange({ method: "card", amount: 50, tendered: 60 })).toBe(0);
+	});
+});
+
+describe("findTenderIssue", () => {
+	const formatAmount = (value: number) => value.toFixed(2);
+
+	it("accepts a balanced split with its transfer reference", () => {
+		expect(
+			findTenderIssue(
+				[
+					{ method: "cash", amount: 300.1, tendered: 500 },
+					{ method: "transfer", amount: 200.2, reference: "BAC-991" },
+				],
+				500.3,
+				formatAmount,
+			),
+		).toBeNull();
+	});
+
+	it("reports the missing or extra amount", () => {
+		expect(
+			findTenderIssue([{ method: "card", amount: 80 }], 100, formatAmount),
+		).toBe("Faltan 20.00 por cobrar.");
+		expect(
+			findTenderIssue(
+				[
+					{ method: "cash", amount: 80 },
+					{ method: "card", amount: 30 },
+				],
+				100,
+				formatAmount,
+			),
+		).toBe("Los pagos exceden el total por 10.00.");
+	});
+
+	it("rejects empty tenders, transfers without reference and short cash", () => {
+		expect(
+			findTenderIssue(
+				[
+					{ method: "cash", amount: 100 },
+					{ method: "card", amount: 0 },
+				],
+				100,
+				formatAmount,
+			),
+		).toBe("Cada pago necesita un monto mayor a cero.");
+		expect(
+			findTenderIssue([{ method: "transfer", amount: 100 }], 100, formatAmount),
+		).toBe("Ingresa la referencia de cada transferencia.");
+		expect(
+			findTenderIssue(
+				[{ method: "cash", amount: 100, tendered: 50 }],
+				100,
+				formatAmount,
+			),
+		).toBe("El efectivo recibido no cubre el monto en efectivo.");
+	});
+
+	it("has nothing to collect on free sales", () => {
+		expect(findTenderIssue([], 0, formatAmount)).toBeNull();
+	});
+});
+
+describe("resolveOrderPaymentMethod", () => {
+	it("keeps a single method and marks splits as mixed", () => {
+		expect(
+			resolveOrderPaymentMethod([{ method: "cash" }, { method: "cash" }]),
+		).toBe("cash");
+		expect(
+			resolveOrderPaymentMethod([{ method: "cash" }, { method: "transfer" }]),
+		).toBe("mixed");
+		expect(resolveOrderPaymentMethod([], "card")).toBe("card");
+	});
+});
+
+describe("posOrderSchema payments", () => {
+	const base = {
+		productItems: [{ productId: PRODUCT_ID, qty: 2, unitPrice: 150 }],
+		discountAmount: "50",
+		discountReason: "Cliente frecuente",
+	};
+
+	it("accepts tenders that add up to the total", () => {
+		const result = posOrderSchema.safeParse({
+			...base,
+			payments: [
+				{ method: "cash", amount: 100, tendered: 200 },
+				{ method: "transfer", amount: 150, reference: "TRX-1" },
+			],
+		});
+		expect(result.success).toBe(true);
+	});
+
+	it("rejects tenders that do not match the total", () => {
+		const result = posOrderSchema.safeParse({
+			...base,
+			payments: [{ method: "cash", amount: 200 }],
+		});
+		expect(result.success).toBe(false);
+		expect(result.error?.flatten().fieldErrors.payments).toContain(
+			"Los pagos deben sumar el total de la venta",
+		);
+	});
+
+	it("requires a reason for the order discount", () => {
+		const result = posOrderSchema.safeParse({
+			...base,
+			discountReason: "",
+			payments: [{ method: "cash", amount: 250 }],
+		});
+		expect(result.success).toBe(false);
+		expect(result.error?.flatten().fieldErrors.discountReason).toContain(
+			"Indica el motivo del descuento",
+		);
+	});
+
+	it("balances tenders against line and promo discounts", () => {
+		const result = posOrderSchema.safeParse({
+			productItems: [
+				{
+					productId: PRODUCT_ID,
+					qty: 2,
+					unitPrice: 150,
+					discountType: "percentage",
+					discountValue: 10,
+					discountReason: "Empaque dañado",
+				},
+			],
+			promoCode: "bienvenida10",
+			promoDiscountAmount: 27,
+			payments: [{ method: "cash", amount: 243 }],
+		});
+		expect(result.success).toBe(true);
+		expect(result.data?.promoCode).toBe("BIENVENIDA10");
+	});
+
+	it("requires a reference on transfers", () => {
+		const result = posOrderSchema.safeParse({
+			...base,
+			payments: [{ method: "transfer", amount: 250 }],
+		});
+		expect(result.success).toBe(false);
+	});
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+
+import {
+	pricesInForceAt,
+	sortPriceHistory,
+	type PriceHistoryEntry,
+} from "../price-history";
+
+function entry(
+	id: number,
+	createdAt: string,
+	sellPrice: number,
+	target: { productId?: string; comboId?: string } = { productId: "p1" },
+): PriceHistoryEntry {
+	return {
+		id,
+		productId: target.productId ?? null,
+		comboId: target.comboId ?? null,
+		sellPrice,
+		costPrice: null,
+		source: "manual",
+		reference: null,
+		createdBy: null,
+		createdAt,
+	};
+}
+
+describe("sortPriceHistory", () => {
+	it("lists the newest change first", () => {
+		const sorted = sortPriceHistory([
+			entry(1, "2026-01-01T10:00:00Z", 100),
+			entry(3, "2026-03-01T10:00:00Z", 120),
+			entry(2, "2026-02-01T10:00:00Z", 110),
+		]);
+		expect(sorted.map((item) => item.id)).toEqual([3, 2, 1]);
+	});
+
+	it("breaks ties on the same instant by insertion order", () => {
+		const sorted = sortPriceHistory([
+			entry(4, "2026-01-01T10:00:00Z", 100),
+			entry(5, "2026-01-01T10:00:00Z", 105),
+			entry(2, "2025-12-31T10:00:00Z", 90),
+		]);
+		expect(sorted.map((item) => item.id)).toEqual([5, 4, 2]);
+	});
+
+	it("compares instants rather than text", () => {
+		const sorted = sortPriceHistory([
+			entry(1, "2026-01-01T12:00:00+00:00", 100),
+			entry(2, "2026-01-01T08:00:00-06:00", 110),
+		]);
+		expect(sorted.map((item) => item.id)).toEqual([2, 1]);
+	});
+});
+
+describe("pricesInForceAt", () => {
+	const entries = [
+		entry(1, "2026-01-01T10:00:00Z", 100),
+		entry(2, "2026-02-01T10:00:00Z", 110),
+		entry(3, "2026-02-01T10:00:00Z", 115),
+		entry(4, "2026-03-01T10:00:00Z", 130),
+		entry(5, "2026-01-15T10:00:00Z", 250, { comboId: "c1" }),
+	];
+
+	it("takes the latest change made up to the instant", () => {
+		const { products, combos } = pricesInForceAt(
+			entries,
+			"2026-02-15T00:00:00Z",
+		);
+		expect(products.get("p1")).toEqual({ sellPrice: 115, costPrice: null });
+		expect(combos.get("c1")).toEqual({ sellPrice: 250, costPrice: null });
+	});
+
+	it("includes changes made exactly at the instant", () => {
+		const { products } = pricesInForceAt(
+			entries,
+			new Date("2026-03-01T10:00:00Z"),
+		);
+		expect(products.get("p1")?.sellPrice).toBe(130);
+	});
+
+	it("leaves out entities without history before the instant", () => {
+		const { products, combos } = pricesInForceAt(
+			entries,
+			"2026-01-10T00:00:00Z",
+		);
+		expect(products.get("p1")?.sellPrice).toBe(100);
+		expect(combos.has("c1")).toBe(false);
+	});
+});
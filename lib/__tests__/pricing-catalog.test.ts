@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+
+import {
+	buildScopeOptions,
+	previewRuleMatches,
+	type PricingCatalog,
+	type PricingCatalogProduct,
+} from "../pricing-catalog";
+
+function product(
+	overrides: Partial<PricingCatalogProduct> & { id: string; name: string },
+): PricingCatalogProduct {
+	return {
+		status: "active",
+		categoryId: null,
+		categoryName: null,
+		subcategoryName: null,
+		brand: null,
+		promoTag: null,
+		costPrice: 100,
+		sellPrice: 150,
+		currency: "NIO",
+		quantity: 5,
+		...overrides,
+	};
+}
+
+const catalog: PricingCatalog = {
+	products: [
+		product({
+			id: "p1",
+			name: "Labial mate",
+			categoryId: "1",
+			categoryName: "Maquillaje",
+			subcategoryName: "Labios",
+			brand: "Rosé",
+		}),
+		product({
+			id: "p2",
+			name: "Perfume floral",
+			categoryId: "2",
+			categoryName: "Perfumería",
+			promoTag: "verano",
+		}),
+	],
+	combos: [
+		{
+			id: "c1",
+			name: "Kit labios",
+			status: "active",
+			promoTag: "verano",
+			productIds: ["p1"],
+		},
+	],
+	metrics: new Map([
+		["p1", { productId: "p1", inventoryAgeDays: 120, costChangePct: null }],
+	]),
+};
+
+describe("previewRuleMatches", () => {
+	it("lists the products a scoped rule reaches", () => {
+		expect(
+			previewRuleMatches(
+				{ target: "product", scope: "category", scope_ref: "Maquillaje" },
+				catalog,
+			),
+		).toEqual({ products: [{ id: "p1", name: "Labial mate" }], combos: [] });
+	});
+
+	it("previews drafts regardless of their active flag and window", () => {
+		const preview = previewRuleMatches(
+			{
+				target: "product",
+				scope: "promo",
+				scope_ref: "verano",
+				active: false,
+				starts_at: "2999-01-01T00:00:00Z",
+			},
+			catalog,
+		);
+		expect(preview.products.map((match) => match.id)).toEqual(["p2"]);
+	});
+
+	it("applies the rule's conditions to the metrics", () => {
+		const preview = previewRuleMatches(
+			{ target: "product", conditions: { inventoryAge: { minDays: 90 } } },
+			catalog,
+		);
+		expect(preview.products.map((match) => match.id)).toEqual(["p1"]);
+	});
+
+	it("only previews combos for combo rules", () => {
+		expect(
+			previewRuleMatches(
+				{ target: "combo", scope: "promo", scope_ref: "verano" },
+				catalog,
+			),
+		).toEqual({ products: [], combos: [{ id: "c1", name: "Kit labios" }] });
+	});
+});
+
+describe("buildScopeOptions", () => {
+	it("collects sorted, unique suggestions for each scope", () => {
+		expect(buildScopeOptions(catalog)).toEqual({
+			categories: ["Labios", "Maquillaje", "Perfumería"],
+			brands: ["Rosé"],
+			products: ["Labial mate", "Perfume floral"],
+			promoTags: ["verano"],
+		});
+	});
+});
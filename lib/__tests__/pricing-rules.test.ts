@@ -0,0 +1,223 @@
+import { describe, expect, it } from "vitest";
+
+import type { PriceRule } from "../pricing";
+import {
+	explainComboRule,
+	explainProductRule,
+	ruleMatchesCombo,
+	ruleMatchesProduct,
+	type ProductPricingContext,
+} from "../pricing-rules";
+
+function comboRule(conditions: PriceRule["conditions"]): PriceRule {
+	return { id: 1, target: "combo", scope: "global", conditions };
+}
+
+function comboContext(inventoryAges: number[], costChanges: number[] = []) {
+	return { categories: [], inventoryAges, costChanges };
+}
+
+describe("inventory age strategy", () => {
+	const olderThan90 = (strategy: "any" | "all") =>
+		comboRule({ inventoryAge: { minDays: 90, strategy } });
+
+	it("matches when any component is in range with the any strategy", () => {
+		expect(ruleMatchesCombo(olderThan90("any"), comboContext([10, 120]))).toBe(
+			true,
+		);
+	});
+
+	it("requires every component in range with the all strategy", () => {
+		expect(ruleMatchesCombo(olderThan90("all"), comboContext([10, 120]))).toBe(
+			false,
+		);
+		expect(
+			ruleMatchesCombo(olderThan90("all"), comboContext([95, 120])),
+		).toBe(true);
+	});
+
+	it("checks each age against the whole window instead of the overall spread", () => {
+		const rule = comboRule({
+			inventoryAge: { minDays: 30, maxDays: 60, strategy: "any" },
+		});
+		expect(ruleMatchesCombo(rule, comboContext([10, 90]))).toBe(false);
+		expect(ruleMatchesCombo(rule, comboContext([10, 45]))).toBe(true);
+	});
+
+	it("does not match when no component has age data", () => {
+		expect(ruleMatchesCombo(olderThan90("any"), comboContext([]))).toBe(false);
+	});
+
+	it("ignores a strategy without bounds", () => {
+		const rule = comboRule({ inventoryAge: { strategy: "all" } });
+		expect(ruleMatchesCombo(rule, comboContext([]))).toBe(true);
+	});
+});
+
+describe("cost change strategy", () => {
+	const increasedBy10 = (strategy: "any" | "all") =>
+		comboRule({
+			costChange: { direction: "increase", thresholdPct: 10, strategy },
+		});
+
+	it("matches when any component crossed the threshold", () => {
+		expect(
+			ruleMatchesCombo(increasedBy10("any"), comboContext([], [2, 15])),
+		).toBe(true);
+	});
+
+	it("requires every component to cross the threshold with all", () => {
+		expect(
+			ruleMatchesCombo(increasedBy10("all"), comboContext([], [2, 15])),
+		).toBe(false);
+		expect(
+			ruleMatchesCombo(increasedBy10("all"), comboContext([], [12, 15])),
+		).toBe(true);
+	});
+
+	it("respects the direction of the change", () => {
+		const decrease = comboRule({
+			costChange: { direction: "decrease", thresholdPct: 5 },
+		});
+		expect(ruleMatchesCombo(decrease, comboContext([], [8]))).toBe(false);
+		expect(ruleMatchesCombo(decrease, comboContext([], [-8]))).toBe(true);
+	});
+
+	it("treats a direction without threshold as any change that way", () => {
+		const rule: PriceRule = {
+			id: 2,
+			target: "product",
+			scope: "global",
+			conditions: { costChange: { direction: "increase" } },
+		};
+		expect(ruleMatchesProduct(rule, { costChangePct: 0 })).toBe(false);
+		expect(ruleMatchesProduct(rule, { costChangePct: 0.5 })).toBe(true);
+	});
+});
+
+describe("explainComboRule", () => {
+	it("reports every failing check with the values it used", () => {
+		const rule: PriceRule = {
+			...comboRule({
+				inventoryAge: { minDays: 90, strategy: "all" },
+				costChange: { direction: "increase", thresholdPct: 10 },
+			}),
+			active: false,
+		};
+		const explanation = explainComboRule(rule, comboContext([10, 120], [15]));
+
+		expect(explanation.matched).toBe(false);
+		expect(
+			explanation.checks.map((check) => [check.key, check.passed]),
+		).toEqual([
+			["active", false],
+			["window", true],
+			["scope", true],
+			["inventoryAge", false],
+			["costChange", true],
+		]);
+		expect(explanation.checks[3]?.values).toEqual([10, 120]);
+	});
+
+	it("agrees with ruleMatchesCombo", () => {
+		const rule = comboRule({ inventoryAge: { minDays: 90, strategy: "any" } });
+		for (const ages of [[], [10], [10, 120]]) {
+			const context = comboContext(ages);
+			expect(explainComboRule(rule, context).matched).toBe(
+				ruleMatchesCombo(rule, context),
+			);
+		}
+	});
+});
+
+describe("product scope matching", () => {
+	const product: ProductPricingContext = {
+		productId: "prod-1",
+		name: "Sérum Vitamina C",
+		categoryId: "3",
+		categoryName: "Cuidado facial",
+		subcategoryName: "Sérums",
+		brand: "Neutrogena",
+		promoTag: "verano",
+	};
+
+	function productRule(
+		scope: PriceRule["scope"],
+		scopeRef: string | null,
+		conditions?: PriceRule["conditions"],
+	): PriceRule {
+		return {
+			id: 10,
+			target: "product",
+			scope,
+			scope_ref: scopeRef,
+			conditions,
+		};
+	}
+
+	it("matches a category by id or name", () => {
+		expect(ruleMatchesProduct(productRule("category", "3"), product)).toBe(
+			true,
+		);
+		expect(
+			ruleMatchesProduct(productRule("category", "cuidado facial"), product),
+		).toBe(true);
+		expect(
+			ruleMatchesProduct(productRule("category", "Maquillaje"), product),
+		).toBe(false);
+	});
+
+	it("matches a category rule on the subcategory name", () => {
+		expect(ruleMatchesProduct(productRule("category", "Sérums"), product)).toBe(
+			true,
+		);
+		expect(
+			ruleMatchesProduct(productRule("category", "Sérums"), {
+				...product,
+				subcategoryName: null,
+			}),
+		).toBe(false);
+	});
+
+	it("matches brand and product tags", () => {
+		expect(
+			ruleMatchesProduct(productRule("brand", " neutrogena "), product),
+		).toBe(true);
+		expect(ruleMatchesProduct(productRule("product", "prod-1"), product)).toBe(
+			true,
+		);
+		expect(ruleMatchesProduct(productRule("brand", "Cetaphil"), product)).toBe(
+			false,
+		);
+	});
+
+	it("matches the promo scope and condition on the product promo tag", () => {
+		expect(ruleMatchesProduct(productRule("promo", "Verano"), product)).toBe(
+			true,
+		);
+		expect(
+			ruleMatchesProduct(
+				productRule("global", null, { promo: { tag: "verano" } }),
+				product,
+			),
+		).toBe(true);
+		expect(
+			ruleMatchesProduct(
+				productRule("global", null, { promo: { tag: "verano" } }),
+				{ ...product, promoTag: null },
+			),
+		).toBe(false);
+	});
+
+	it("explains the promo check with the product tag", () => {
+		const explanation = explainProductRule(
+			productRule("global", null, { promo: { tag: "invierno" } }),
+			product,
+		);
+		expect(explanation.matched).toBe(false);
+		expect(explanation.checks.at(-1)).toMatchObject({
+			key: "promo",
+			passed: false,
+		});
+	});
+});
@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+
+import type { PriceRule } from "../pricing";
+import type { PricingCatalog } from "../pricing-catalog";
+import { explainPricing } from "../pricing-simulation";
+
+const now = new Date("2026-06-01T12:00:00Z");
+
+const catalog: PricingCatalog = {
+	products: [
+		{
+			id: "p1",
+			name: "Labial mate",
+			status: "active",
+			categoryId: "1",
+			categoryName: "Maquillaje",
+			subcategoryName: null,
+			brand: "Rosé",
+			promoTag: null,
+			costPrice: 100,
+			sellPrice: 150,
+			currency: "NIO",
+			quantity: 4,
+		},
+	],
+	combos: [
+		{
+			id: "c1",
+			name: "Kit labios",
+			status: "active",
+			promoTag: "verano",
+			productIds: ["p1"],
+		},
+	],
+	metrics: new Map([
+		["p1", { productId: "p1", inventoryAgeDays: 45, costChangePct: 12 }],
+	]),
+};
+
+// Already in evaluation order, as `loadPriceRules` returns them.
+const productRules: PriceRule[] = [
+	{ id: 1, priority: 10, active: false, scope: "global" },
+	{ id: 2, priority: 20, scope: "brand", scope_ref: "Otra marca" },
+	{
+		id: 3,
+		priority: 30,
+		scope: "category",
+		scope_ref: "Maquillaje",
+		conditions: { costChange: { direction: "increase", thresholdPct: 10 } },
+	},
+	{ id: 4, priority: 40, scope: "global" },
+];
+
+describe("explainPricing", () => {
+	it("selects the first rule in priority order that matches", () => {
+		const simulation = explainPricing(
+			{ productId: "p1" },
+			catalog,
+			productRules,
+			now,
+		);
+		expect(simulation?.selectedRuleId).toBe(3);
+		expect(
+			simulation?.candidates.map((candidate) => candidate.matched),
+		).toEqual([false, false, true, true]);
+	});
+
+	it("reports the check that kept each earlier rule out", () => {
+		const simulation = explainPricing(
+			{ productId: "p1" },
+			catalog,
+			productRules,
+			now,
+		);
+		const failed = simulation?.candidates
+			.slice(0, 2)
+			.map((candidate) =>
+				candidate.checks
+					.filter((check) => !check.passed)
+					.map((check) => check.key),
+			);
+		expect(failed).toEqual([["active"], ["scope"]]);
+	});
+
+	it("falls through to the next rule when the winner's condition fails", () => {
+		const simulation = explainPricing(
+			{ productId: "p1" },
+			{
+				...catalog,
+				metrics: new Map([
+					[
+						"p1",
+						{ productId: "p1", inventoryAgeDays: 45, costChangePct: 2 },
+					],
+				]),
+			},
+			productRules,
+			now,
+		);
+		expect(simulation?.selectedRuleId).toBe(4);
+		expect(simulation?.metrics).toEqual([
+			{
+				productId: "p1",
+				name: "Labial mate",
+				inventoryAgeDays: 45,
+				costChangePct: 2,
+			},
+		]);
+	});
+
+	it("leaves the selection empty when nothing matches", () => {
+		const simulation = explainPricing(
+			{ productId: "p1" },
+			catalog,
+			productRules.slice(0, 2),
+			now,
+		);
+		expect(simulation?.selectedRuleId).toBeNull();
+	});
+
+	it("explains combos against their promo tag and components", () => {
+		const simulation = explainPricing(
+			{ comboId: "c1" },
+			catalog,
+			[
+				{
+					id: 8,
+					target: "combo",
+					priority: 5,
+					scope: "promo",
+					scope_ref: "invierno",
+				},
+				{
+					id: 9,
+					target: "combo",
+					priority: 6,
+					scope: "promo",
+					scope_ref: "verano",
+				},
+			],
+			now,
+		);
+		expect(simulation?.target).toBe("combo");
+		expect(simulation?.selectedRuleId).toBe(9);
+		expect(simulation?.metrics.map((metric) => metric.productId)).toEqual([
+			"p1",
+		]);
+	});
+
+	it("returns null for items outside the catalog", () => {
+		expect(
+			explainPricing({ productId: "missing" }, catalog, productRules, now),
+		).toBeNull();
+	});
+});
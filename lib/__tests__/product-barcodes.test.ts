@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+
+import {
+	buildBarcodeIndex,
+	findByBarcode,
+	parseBarcodeList,
+} from "../product-barcodes";
+
+describe("parseBarcodeList", () => {
+	it("splits, normalizes and deduplicates codes", () => {
+		expect(parseBarcodeList(" 7501 0001\nabc-123, ABC-123;\n\n")).toEqual([
+			"75010001",
+			"ABC-123",
+		]);
+		expect(parseBarcodeList(undefined)).toEqual([]);
+	});
+});
+
+describe("findByBarcode", () => {
+	const products = [
+		{ id: "lipstick", sku: "LAB-001", barcodes: ["7501000000017"] },
+		{ id: "serum", sku: "7501000000017", barcodes: ["SER-9"] },
+		{ id: "mask", sku: null, barcodes: [] },
+	];
+	const index = buildBarcodeIndex(products);
+
+	it("matches barcodes and SKUs regardless of case and spaces", () => {
+		expect(findByBarcode(index, " lab-001 ")?.id).toBe("lipstick");
+		expect(findByBarcode(index, "ser-9")?.id).toBe("serum");
+	});
+
+	it("prefers a barcode over a SKU with the same code", () => {
+		expect(findByBarcode(index, "7501000000017")?.id).toBe("lipstick");
+	});
+
+	it("returns null for unknown or empty codes", () => {
+		expect(findByBarcode(index, "0000")).toBeNull();
+		expect(findByBarcode(index, "   ")).toBeNull();
+	});
+});
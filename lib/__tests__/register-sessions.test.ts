@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+
+import { buildZReport } from "../register-sessions";
+
+describe("buildZReport", () => {
+	const orders = [
+		{
+			subtotal: 500,
+			discount: 50,
+			tax: 0,
+			total: 450,
+			payments: [
+				{ method: "cash" as const, amount: 250, change: 50 },
+				{ method: "transfer" as const, amount: 200, change: 0 },
+			],
+		},
+		{
+			subtotal: 120.1,
+			discount: 0,
+			tax: 0,
+			total: 120.1,
+			payments: [{ method: "card" as const, amount: 120.1, change: 0 }],
+		},
+	];
+
+	it("totals sales by payment method", () => {
+		const report = buildZReport({
+			openingFloat: 1000,
+			orders,
+			movements: [],
+			refunds: [],
+		});
+
+		expect(report.salesCount).toBe(2);
+		expect(report.grossSales).toBe(620.1);
+		expect(report.discounts).toBe(50);
+		expect(report.netSales).toBe(570.1);
+		expect(report.byMethod.cash).toEqual({ count: 1, amount: 250 });
+		expect(report.byMethod.transfer).toEqual({ count: 1, amount: 200 });
+		expect(report.byMethod.card).toEqual({ count: 1, amount: 120.1 });
+		expect(report.changeGiven).toBe(50);
+	});
+
+	it("expects float plus cash sales and movements minus cash refunds", () => {
+		const report = buildZReport({
+			openingFloat: 1000,
+			orders,
+			movements: [
+				{ kind: "cash_in", amount: 200 },
+				{ kind: "cash_out", amount: 75.5 },
+			],
+			refunds: [
+				{ amount: 30, cashAmount: 30 },
+				{ amount: 100, cashAmount: 0 },
+			],
+			countedCash: 1340,
+		});
+
+		expect(report.refunds).toBe(130);
+		expect(report.cashRefunds).toBe(30);
+		expect(report.expectedCash).toBe(1344.5);
+		expect(report.variance).toBe(-4.5);
+	});
+
+	it("takes a refund of an earlier shift's sale out of this drawer", () => {
+		const report = buildZReport({
+			openingFloat: 500,
+			orders: [],
+			movements: [],
+			refunds: [{ amount: 120, cashAmount: 120 }],
+			countedCash: 380,
+		});
+
+		expect(report.salesCount).toBe(0);
+		expect(report.cashRefunds).toBe(120);
+		expect(report.expectedCash).toBe(380);
+		expect(report.variance).toBe(0);
+	});
+
+	it("only takes the cash share of a split-tender refund", () => {
+		const report = buildZReport({
+			openingFloat: 1000,
+			orders,
+			movements: [],
+			refunds: [{ amount: 450, cashAmount: 250 }],
+		});
+
+		expect(report.refunds).toBe(450);
+		expect(report.cashRefunds).toBe(250);
+		expect(report.expectedCash).toBe(1000);
+	});
+
+	it("leaves the variance empty until cash is counted", () => {
+		const report = buildZReport({
+			openingFloat: 0,
+			orders: [],
+			movements: [],
+			refunds: [],
+		});
+
+		expect(report.expectedCash).toBe(0);
+		expect(report.countedCash).toBeNull();
+		expect(report.variance).toBeNull();
+	});
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+
+import {
+	planRepricingRollback,
+	priceRepricingRow,
+	type RepricingProduct,
+} from "../repricing";
+
+function product(overrides: Partial<RepricingProduct> = {}): RepricingProduct {
+	return {
+		productId: "p1",
+		name: "Labial mate",
+		sku: null,
+		categoryName: null,
+		brand: null,
+		currency: "NIO",
+		costPrice: 30,
+		currentPrice: null,
+		...overrides,
+	};
+}
+
+describe("priceRepricingRow", () => {
+	it("rounds the suggestion to the nearest pretty price", () => {
+		// 30 × 1.5 = 45, and 49 is the closest price ending in 9 or 0.
+		const row = priceRepricingRow(product(), null);
+		expect(row.suggestedPrice).toBe(49);
+	});
+
+	it("rounds both markups to one decimal", () => {
+		const row = priceRepricingRow(product({ currentPrice: 41 }), null);
+		expect(row.currentMarginPct).toBe(36.7);
+		expect(row.suggestedMarginPct).toBe(63.3);
+	});
+
+	it("uses the rule's endings when rounding", () => {
+		const row = priceRepricingRow(product({ costPrice: 100 }), {
+			id: 7,
+			name: "Terminación en 5",
+			margin_mid: 0.42,
+			endings: ["5"],
+		});
+		expect(row.suggestedPrice).toBe(145);
+		expect(row.suggestedMarginPct).toBe(45);
+		expect(row.ruleId).toBe(7);
+		expect(row.ruleName).toBe("Terminación en 5");
+	});
+
+	it("leaves the current markup empty for products without a price", () => {
+		const row = priceRepricingRow(product(), null);
+		expect(row.currentMarginPct).toBeNull();
+		expect(row.ruleId).toBeNull();
+	});
+});
+
+describe("planRepricingRollback", () => {
+	it("restores the price each product had before the run", () => {
+		const plan = planRepricingRollback([
+			{ productId: "a", previousPrice: 120, newPrice: 149, currentPrice: 149 },
+			{ productId: "b", previousPrice: null, newPrice: 59, currentPrice: 59 },
+		]);
+		expect(plan.restore).toEqual([
+			{ productId: "a", price: 120 },
+			{ productId: "b", price: null },
+		]);
+		expect(plan.skipped).toEqual([]);
+	});
+
+	it("skips products whose price changed after the run", () => {
+		const plan = planRepricingRollback([
+			{ productId: "a", previousPrice: 120, newPrice: 149, currentPrice: 159 },
+			{ productId: "b", previousPrice: 80, newPrice: 99, currentPrice: 99 },
+		]);
+		expect(plan.restore).toEqual([{ productId: "b", price: 80 }]);
+		expect(plan.skipped).toEqual(["a"]);
+	});
+});
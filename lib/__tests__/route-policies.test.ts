@@ -0,0 +1,92 @@
+import { readFileSync, readdirSync } from "node:fs";
+import { dirname, join, relative, sep } from "node:path";
+import { fileURLToPath } from "node:url";
+
+import { describe, expect, it } from "vitest";
+
+import {
+	ROUTE_POLICIES,
+	findActionPermission,
+	findRoutePolicy,
+} from "../route-policies";
+
+const appDir = fileURLToPath(new URL("../../app", import.meta.url));
+
+function findActionFiles(dir: string): string[] {
+	return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+		const path = join(dir, entry.name);
+		if (entry.isDirectory()) return findActionFiles(path);
+		return entry.name === "actions.ts" ? [path] : [];
+	});
+}
+
+/** `app/pricing/bulk/actions.ts` → `/pricing/bulk`. */
+function routeOf(file: string) {
+	return `/${relative(appDir, dirname(file)).split(sep).join("/")}`;
+}
+
+const guardedActionFiles = findActionFiles(appDir).filter((file) =>
+	findRoutePolicy(routeOf(file)),
+);
+
+describe("findActionPermission", () => {
+	it("uses the permission of the most specific route", () => {
+		expect(findActionPermission("/pricing/bulk")).toBe("managePricing");
+		expect(findActionPermission("/orders/new")).toBe("manageOrders");
+	});
+
+	it("prefers a named action's own permission", () => {
+		expect(findActionPermission("/orders")).toBe("viewOrders");
+		expect(findActionPermission("/orders", "refund")).toBe("refundOrders");
+	});
+
+	it("throws for routes and actions outside the registry", () => {
+		expect(() => findActionPermission("/login")).toThrow();
+		expect(() => findActionPermission("/no-access")).toThrow();
+		expect(() => findActionPermission("/orders", "unknown")).toThrow();
+	});
+});
+
+describe("server actions", () => {
+	it("covers every route that has actions", () => {
+		expect(guardedActionFiles.map(routeOf).sort()).toEqual(
+			expect.arrayContaining(["/finance", "/inventory", "/orders", "/pos"]),
+		);
+	});
+
+	it.each(guardedActionFiles.map((file) => [routeOf(file), file]))(
+		"%s guards its actions with the registry's permission",
+		(route, file) => {
+			const source = readFileSync(file, "utf8");
+			const calls = Array.from(
+				source.matchAll(
+					/requireRoutePermission\(\s*"([^"]+)"(?:,\s*"([^"]+)")?\s*\)/g,
+				),
+			);
+
+			expect(source).not.toMatch(/requireStaffPermission/);
+			expect(calls.length).toBeGreaterThan(0);
+			for (const [, path, action] of calls) {
+				expect(path).toBe(route);
+				expect(findActionPermission(path, action)).toBeTruthy();
+			}
+		},
+	);
+
+	it("only names actions a policy declares", () => {
+		const declared = ROUTE_POLICIES.flatMap((policy) =>
+			Object.keys(policy.actions ?? {}).map(
+				(action) => `${policy.prefix}:${action}`,
+			),
+		);
+		const used = guardedActionFiles.flatMap((file) =>
+			Array.from(
+				readFileSync(file, "utf8").matchAll(
+					/requireRoutePermission\(\s*"([^"]+)",\s*"([^"]+)"\s*\)/g,
+				),
+				([, path, action]) => `${path}:${action}`,
+			),
+		);
+		expect(used.sort()).toEqual(declared.sort());
+	});
+});
@@ -0,0 +1,253 @@
+import type { User } from "@supabase/supabase-js";
+
+import type { AnySupabaseClient } from "@/lib/supabase-admin";
+
+export const AUDIT_ENTITY_TYPES = [
+	"product",
+	"combo",
+	"category",
+	"subcategory",
+	"expense",
+	"inventory_intake",
+	"price_rule",
+	"promo_code",
+	"repricing_run",
+	"order",
+	"register_session",
+	"staff_member",
+] as const;
+
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+	product: "Producto",
+	combo: "Combo",
+	category: "Categoría",
+	subcategory: "Subcategoría",
+	expense: "Gasto",
+	inventory_intake: "Ingreso de inventario",
+	price_rule: "Regla de precio",
+	promo_code: "Código promocional",
+	repricing_run: "Repreciado masivo",
+	order: "Orden",
+	register_session: "Sesión de caja",
+	staff_member: "Miembro del equipo",
+};
+
+export const AUDIT_ACTIONS = [
+	"product.create",
+	"product.update",
+	"product.archive",
+	"product.activate",
+	"product.delete",
+	"product.classify",
+	"combo.create",
+	"combo.update",
+	"category.create",
+	"subcategory.create",
+	"expense.create",
+	"inventory_intake.create",
+	"price_rule.create",
+	"price_rule.update",
+	"price_rule.activate",
+	"price_rule.deactivate",
+	"price_rule.reorder",
+	"promo_code.create",
+	"promo_code.activate",
+	"promo_code.deactivate",
+	"repricing_run.apply",
+	"repricing_run.rollback",
+	"order.sale",
+	"order.refund",
+	"order.status",
+	"register_session.open",
+	"register_session.cash_movement",
+	"register_session.close",
+	"staff_member.role",
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+	"product.create": "Creó producto",
+	"product.update": "Editó producto",
+	"product.archive": "Archivó producto",
+	"product.activate": "Activó producto",
+	"product.delete": "Eliminó producto",
+	"product.classify": "Reclasificó producto",
+	"combo.create": "Creó combo",
+	"combo.update": "Editó combo",
+	"category.create": "Creó categoría",
+	"subcategory.create": "Creó subcategoría",
+	"expense.create": "Registró gasto",
+	"inventory_intake.create": "Registró ingreso de inventario",
+	"price_rule.create": "Creó regla de precio",
+	"price_rule.update": "Editó regla de precio",
+	"price_rule.activate": "Activó regla de precio",
+	"price_rule.deactivate": "Desactivó regla de precio",
+	"price_rule.reorder": "Cambió prioridad de regla",
+	"promo_code.create": "Creó código promocional",
+	"promo_code.activate": "Activó código promocional",
+	"promo_code.deactivate": "Desactivó código promocional",
+	"repricing_run.apply": "Aplicó repreciado masivo",
+	"repricing_run.rollback": "Revirtió repreciado masivo",
+	"order.sale": "Registró venta en POS",
+	"order.refund": "Reembolsó orden",
+	"order.status": "Cambió estado de orden",
+	"register_session.open": "Abrió caja",
+	"register_session.cash_movement": "Registró movimiento de caja",
+	"register_session.close": "Cerró caja",
+	"staff_member.role": "Cambió rol",
+};
+
+export type AuditState = Record<string, unknown>;
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+export type AuditEventInput = {
+	actor: Pick<User, "id" | "email">;
+	action: AuditAction;
+	entityType: AuditEntityType;
+	entityId?: string | null;
+	before?: AuditState | null;
+	after?: AuditState | null;
+};
+
+export type AuditEntry = {
+	id: number;
+	actorId: string | null;
+	actorEmail: string | null;
+	action: AuditAction | string;
+	entityType: AuditEntityType | string;
+	entityId: string | null;
+	before: AuditState | null;
+	after: AuditState | null;
+	changes: AuditChanges;
+	createdAt: string;
+};
+
+export type AuditFilters = {
+	action?: string;
+	entityType?: string;
+	entityId?: string;
+	actorId?: string;
+	from?: string;
+	to?: string;
+	limit?: number;
+};
+
+type AuditRow = {
+	id: number;
+	actor_id: string | null;
+	actor_email: string | null;
+	action: string;
+	entity_type: string;
+	entity_id: string | null;
+	before: AuditState | null;
+	after: AuditState | null;
+	changes: AuditChanges | null;
+	created_at: string;
+};
+
+export function isAuditAction(value: unknown): value is AuditAction {
+	return (
+		typeof value === "string" &&
+		(AUDIT_ACTIONS as readonly string[]).includes(value)
+	);
+}
+
+export function isAuditEntityType(value: unknown): value is AuditEntityType {
+	return (
+		typeof value === "string" &&
+		(AUDIT_ENTITY_TYPES as readonly string[]).includes(value)
+	);
+}
+
+/**
+ * Fields whose value differs between two snapshots. A missing snapshot counts
+ * as every field going from or to null.
+ */
+export function diffAuditStates(
+	before: AuditState | null | undefined,
+	after: AuditState | null | undefined,
+): AuditChanges {
+	const keys = new Set([
+		...Object.keys(before ?? {}),
+		...Object.keys(after ?? {}),
+	]);
+	const changes: AuditChanges = {};
+
+	for (const key of keys) {
+		const from = before?.[key] ?? null;
+		const to = after?.[key] ?? null;
+		if (JSON.stringify(from) !== JSON.stringify(to)) {
+			changes[key] = { from, to };
+		}
+	}
+
+	return changes;
+}
+
+/**
+ * Appends an entry to the audit log. Runs after the mutation has succeeded,
+ * so a failure is reported to the server log instead of undoing the change.
+ */
+export async function recordAuditEvent(
+	client: AnySupabaseClient,
+	event: AuditEventInput,
+): Promise<void> {
+	const { error } = await client.from("audit_log").insert({
+		actor_id: event.actor.id,
+		actor_email: event.actor.email ?? null,
+		action: event.action,
+		entity_type: event.entityType,
+		entity_id: event.entityId ?? null,
+		before: event.before ?? null,
+		after: event.after ?? null,
+		changes: diffAuditStates(event.before, event.after),
+	});
+
+	if (error) {
+		console.error("[audit] recordAuditEvent", event.action, error);
+	}
+}
+
+export async function listAuditEntries(
+	client: AnySupabaseClient,
+	filters: AuditFilters = {},
+): Promise<AuditEntry[]> {
+	let query = client
+		.from("audit_log")
+		.select(
+			"id, actor_id, actor_email, action, entity_type, entity_id, before, after, changes, created_at",
+		)
+		.order("created_at", { ascending: false })
+		.order("id", { ascending: false })
+		.limit(filters.limit ?? 200);
+
+	if (filters.action) query = query.eq("action", filters.action);
+	if (filters.entityType) query = query.eq("entity_type", filters.entityType);
+	if (filters.entityId) query = query.eq("entity_id", filters.entityId);
+	if (filters.actorId) query = query.eq("actor_id", filters.actorId);
+	if (filters.from) query = query.gte("created_at", filters.from);
+	if (filters.to) query = query.lt("created_at", filters.to);
+
+	const { data, error } = await query;
+
+	if (error) {
+		throw new Error(error.message);
+	}
+
+	return ((data ?? []) as AuditRow[]).map((row) => ({
+		id: row.id,
+		actorId: row.actor_id,
+		actorEmail: row.actor_email,
+		action: row.action,
+		entityType: row.entity_type,
+		entityId: row.entity_id,
+		before: row.before,
+		after: row.after,
+		changes: row.changes ?? {},
+		createdAt: row.created_at,
+	}));
+}
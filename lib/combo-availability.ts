@@ -0,0 +1,97 @@
+import {
+	availableQuantity,
+	fetchReservedQuantities,
+} from "@/lib/stock-reservations";
+import type { AnySupabaseClient } from "@/lib/supabase-admin";
+
+export type ComboComponent = {
+	productId: string;
+	qty: number;
+};
+
+type ComboItemRow = {
+	combo_id: string;
+	product_id: string | null;
+	qty: number | string | null;
+	products: { quantity: number | null } | null;
+};
+
+/**
+ * Whole combos that can be assembled from `available` stock: the minimum of
+ * `floor(available / qty)` over the components. Components missing from the
+ * map, or with a `null` quantity, count as out of stock, like the
+ * `coalesce(p.quantity, 0)` in the order functions. Returns 0 for a combo
+ * without components.
+ */
+export function buildableComboCount(
+	components: ComboComponent[],
+	available: Map<string, number | null>,
+): number {
+	if (components.length === 0) return 0;
+
+	let buildable = Infinity;
+	for (const component of components) {
+		const qty = Math.max(1, Math.floor(component.qty));
+		const stock = available.get(component.productId) ?? 0;
+		const units = Math.max(0, Math.floor(stock / qty));
+		buildable = Math.min(buildable, units);
+	}
+
+	return buildable;
+}
+
+/**
+ * Buildable units per combo id, based on product stock minus reservations.
+ * Products the client can't read (e.g. inactive ones for storefront visitors)
+ * count as out of stock.
+ */
+export async function fetchComboBuildableCounts(
+	client: AnySupabaseClient,
+	comboIds: string[],
+): Promise<Map<string, number>> {
+	const counts = new Map<string, number>();
+	if (comboIds.length === 0) return counts;
+
+	const { data, error } = await client
+		.from("combo_items")
+		.select("combo_id, product_id, qty, products(quantity)")
+		.in("combo_id", comboIds);
+
+	if (error) {
+		throw new Error(error.message);
+	}
+
+	const rows = (data ?? []) as unknown as ComboItemRow[];
+	const productIds = Array.from(
+		new Set(
+			rows
+				.map((row) => row.product_id)
+				.filter((id): id is string => Boolean(id)),
+		),
+	);
+	const reserved = await fetchReservedQuantities(client, productIds);
+
+	const available = new Map<string, number | null>();
+	const componentsByCombo = new Map<string, ComboComponent[]>();
+	for (const row of rows) {
+		if (!row.product_id) continue;
+		if (row.products) {
+			available.set(
+				row.product_id,
+				availableQuantity(row.products.quantity, reserved.get(row.product_id)),
+			);
+		}
+		const components = componentsByCombo.get(row.combo_id) ?? [];
+		components.push({ productId: row.product_id, qty: Number(row.qty ?? 1) });
+		componentsByCombo.set(row.combo_id, components);
+	}
+
+	for (const comboId of comboIds) {
+		counts.set(
+			comboId,
+			buildableComboCount(componentsByCombo.get(comboId) ?? [], available),
+		);
+	}
+
+	return counts;
+}
@@ -0,0 +1,238 @@
+import { recommendPrice, type PriceRule } from "@/lib/pricing";
+import { selectBestRule } from "@/lib/pricing-rules";
+
+export type ComboSuggestionCandidate = {
+	id: string;
+	name: string;
+	costPrice: number;
+	categoryId: string | null;
+	categoryName: string | null;
+	inventoryAgeDays: number | null;
+	costChangePct: number | null;
+};
+
+export type ComboSuggestionOptions = {
+	budgetMin?: number;
+	budgetMax?: number;
+	maxItems?: number;
+	/** Category id or name that at least one product must belong to. */
+	mustIncludeCategory?: string;
+	packagingCost?: number;
+	/** Active combo rules, used to price each proposal like the combo form. */
+	rules?: PriceRule[];
+	limit?: number;
+};
+
+export type ComboSuggestion = {
+	items: Array<{
+		productId: string;
+		name: string;
+		costPrice: number;
+		qty: number;
+	}>;
+	totalCost: number;
+	suggestedPrice: number;
+	averageAgeDays: number | null;
+	ruleId: number | null;
+};
+
+const DEFAULT_MAX_ITEMS = 3;
+const MAX_ITEMS_LIMIT = 6;
+const DEFAULT_LIMIT = 5;
+// Keeps the combinatorial search bounded on large catalogs: only the slowest
+// moving products (plus the best of the required category) are combined.
+const CANDIDATE_POOL_SIZE = 18;
+const REQUIRED_POOL_SIZE = 6;
+const MAX_EVALUATIONS = 5000;
+
+function ageOf(candidate: ComboSuggestionCandidate) {
+	return candidate.inventoryAgeDays ?? 0;
+}
+
+function byAgeDescending(
+	a: ComboSuggestionCandidate,
+	b: ComboSuggestionCandidate,
+) {
+	return ageOf(b) - ageOf(a) || a.name.localeCompare(b.name, "es");
+}
+
+function belongsTo(candidate: ComboSuggestionCandidate, category: string) {
+	const value = category.toLowerCase();
+	return (
+		candidate.categoryId?.toLowerCase() === value ||
+		candidate.categoryName?.toLowerCase() === value
+	);
+}
+
+function roundCurrency(value: number) {
+	return Math.round(value * 100) / 100;
+}
+
+/**
+ * Proposes combos of in-stock products whose recommended price (packaging
+ * included) falls inside the budget. Proposals built from older inventory
+ * rank first so slow-moving stock gets bundled; ties go to the price closest
+ * to the middle of the budget. Every product enters with quantity 1.
+ */
+export function suggestCombos(
+	candidates: ComboSuggestionCandidate[],
+	{
+		budgetMin,
+		budgetMax,
+		maxItems = DEFAULT_MAX_ITEMS,
+		mustIncludeCategory,
+		packagingCost = 0,
+		rules = [],
+		limit = DEFAULT_LIMIT,
+	}: ComboSuggestionOptions = {},
+): ComboSuggestion[] {
+	const size = Math.min(MAX_ITEMS_LIMIT, Math.max(2, Math.floor(maxItems)));
+	const sorted = candidates
+		.filter((candidate) => candidate.costPrice > 0)
+		.sort(byAgeDescending);
+	const required = mustIncludeCategory
+		? sorted.filter((candidate) => belongsTo(candidate, mustIncludeCategory))
+		: [];
+
+	if (mustIncludeCategory && required.length === 0) {
+		return [];
+	}
+
+	const pool = Array.from(
+		new Set([
+			...sorted.slice(0, CANDIDATE_POOL_SIZE),
+			...required.slice(0, REQUIRED_POOL_SIZE),
+		]),
+	).sort(byAgeDescending);
+	const packaging = Math.max(0, packagingCost);
+	const proposals: ComboSuggestion[] = [];
+	const selection: ComboSuggestionCandidate[] = [];
+	let evaluations = 0;
+
+	const evaluate = (itemsCost: number) => {
+		if (
+			mustIncludeCategory &&
+			!selection.some((candidate) => belongsTo(candidate, mustIncludeCategory))
+		) {
+			return;
+		}
+
+		const categories = new Map<
+			string,
+			{ id: string | null; name: string | null }
+		>();
+		for (const candidate of selection) {
+			const key = candidate.categoryId ?? candidate.categoryName;
+			if (key) {
+				categories.set(key, {
+					id: candidate.categoryId,
+					name: candidate.categoryName,
+				});
+			}
+		}
+
+		const ages = selection
+			.map((candidate) => candidate.inventoryAgeDays)
+			.filter((value): value is number => typeof value === "number");
+		const costChanges = selection
+			.map((candidate) => candidate.costChangePct)
+			.filter((value): value is number => typeof value === "number");
+		const categoryList = Array.from(categories.values());
+		const rule = rules.length
+			? selectBestRule(rules, {
+					categories: categoryList,
+					promoTag: null,
+					inventoryAges: ages,
+					costChanges,
+				})
+			: null;
+		const totalCost = roundCurrency(itemsCost + packaging);
+		const { suggested } = recommendPrice({
+			costPrice: totalCost,
+			categoryName: categoryList[0]?.name ?? undefined,
+			rule,
+		});
+
+		if (budgetMin !== undefined && suggested < budgetMin) return;
+		if (budgetMax !== undefined && suggested > budgetMax) return;
+
+		proposals.push({
+			items: selection.map((candidate) => ({
+				productId: candidate.id,
+				name: candidate.name,
+				costPrice: candidate.costPrice,
+				qty: 1,
+			})),
+			totalCost,
+			suggestedPrice: suggested,
+			averageAgeDays: ages.length
+				? Math.round(
+						ages.reduce((acc, value) => acc + value, 0) / ages.length,
+					)
+				: null,
+			ruleId: rule?.id ?? null,
+		});
+	};
+
+	const search = (start: number, itemsCost: number) => {
+		for (let index = start; index < pool.length; index++) {
+			if (evaluations >= MAX_EVALUATIONS) return;
+
+			const candidate = pool[index];
+			const nextCost = itemsCost + candidate.costPrice;
+			// Recommended prices never go below cost, so a combo already over
+			// budget at cost can only get more expensive.
+			if (budgetMax !== undefined && nextCost + packaging > budgetMax) {
+				continue;
+			}
+
+			selection.push(candidate);
+			if (selection.length >= 2) {
+				evaluations++;
+				evaluate(nextCost);
+			}
+			if (selection.length < size) {
+				search(index + 1, nextCost);
+			}
+			selection.pop();
+		}
+	};
+
+	search(0, 0);
+
+	const budgetMiddle =
+		budgetMin !== undefined && budgetMax !== undefined
+			? (budgetMin + budgetMax) / 2
+			: (budgetMin ?? budgetMax ?? null);
+	proposals.sort((a, b) => {
+		const ageDifference = (b.averageAgeDays ?? 0) - (a.averageAgeDays ?? 0);
+		if (ageDifference !== 0 || budgetMiddle === null) {
+			return ageDifference;
+		}
+		return (
+			Math.abs(a.suggestedPrice - budgetMiddle) -
+			Math.abs(b.suggestedPrice - budgetMiddle)
+		);
+	});
+
+	// Skip proposals that only add or drop products from one already chosen,
+	// so the list offers genuinely different bundles.
+	const picked: ComboSuggestion[] = [];
+	const pickedSets: Array<Set<string>> = [];
+	for (const proposal of proposals) {
+		if (picked.length >= limit) break;
+
+		const ids = proposal.items.map((item) => item.productId);
+		const overlaps = pickedSets.some(
+			(set) =>
+				ids.every((id) => set.has(id)) ||
+				Array.from(set).every((id) => ids.includes(id)),
+		);
+		if (overlaps) continue;
+
+		picked.push(proposal);
+		pickedSets.push(new Set(ids));
+	}
+
+	return picked;
+}
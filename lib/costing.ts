@@ -0,0 +1,64 @@
+import type { CostingMethod } from "@/lib/schemas";
+
+export const COSTING_METHOD_LABELS: Record<CostingMethod, string> = {
+	weighted_average: "Promedio ponderado",
+	fifo: "PEPS (primero en entrar, primero en salir)",
+};
+
+export type CostLayer = {
+	unitCost: number;
+	remainingQty: number;
+};
+
+function roundCurrency(value: number): number {
+	return Math.round(value * 100) / 100;
+}
+
+/**
+ * Moving weighted average after receiving `receivedQty` units at
+ * `receivedUnitCost`. Negative or missing stock counts as empty, so the first
+ * intake simply adopts its own cost.
+ */
+export function weightedAverageCost(
+	onHandQty: number,
+	onHandCost: number,
+	receivedQty: number,
+	receivedUnitCost: number,
+): number {
+	const currentQty = Math.max(0, onHandQty);
+	const totalQty = currentQty + receivedQty;
+
+	if (totalQty <= 0) {
+		return roundCurrency(receivedUnitCost);
+	}
+
+	return roundCurrency(
+		(currentQty * onHandCost + receivedQty * receivedUnitCost) / totalQty,
+	);
+}
+
+/**
+ * Average unit cost of the next `qty` units drawn from `layers`, oldest first.
+ * Units beyond the open layers are valued at `fallbackCost`. Mirrors the
+ * `product_unit_cost` database function.
+ */
+export function fifoUnitCost(
+	layers: CostLayer[],
+	qty: number,
+	fallbackCost: number,
+): number {
+	const needed = Math.max(1, Math.floor(qty));
+	let remaining = needed;
+	let total = 0;
+
+	for (const layer of layers) {
+		if (remaining === 0) break;
+		const take = Math.min(Math.max(0, layer.remainingQty), remaining);
+		total += layer.unitCost * take;
+		remaining -= take;
+	}
+
+	total += fallbackCost * remaining;
+
+	return roundCurrency(total / needed);
+}
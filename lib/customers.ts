@@ -0,0 +1,113 @@
+import { normalizePhoneNumber } from "@/lib/schemas";
+import type { AnySupabaseClient } from "@/lib/supabase-admin";
+
+export type CustomerSummary = {
+	id: string;
+	name: string | null;
+	phone: string | null;
+	email: string | null;
+	notes: string | null;
+	createdAt: string;
+	orderCount: number;
+	lifetimeSpend: number;
+	firstPurchaseAt: string | null;
+	lastPurchaseAt: string | null;
+	favoriteCategories: string[];
+};
+
+type CustomerSummaryRow = {
+	id: string;
+	name: string | null;
+	phone: string | null;
+	email: string | null;
+	notes: string | null;
+	created_at: string;
+	order_count: number | string | null;
+	lifetime_spend: number | string | null;
+	first_purchase_at: string | null;
+	last_purchase_at: string | null;
+	favorite_categories: string[] | null;
+};
+
+const CUSTOMER_SUMMARY_COLUMNS =
+	"id, name, phone, email, notes, created_at, order_count, lifetime_spend, first_purchase_at, last_purchase_at, favorite_categories";
+
+function toNumber(value: number | string | null): number {
+	const parsed = Number(value ?? 0);
+	return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function mapCustomerSummary(row: CustomerSummaryRow): CustomerSummary {
+	return {
+		id: row.id,
+		name: row.name,
+		phone: row.phone,
+		email: row.email,
+		notes: row.notes,
+		createdAt: row.created_at,
+		orderCount: toNumber(row.order_count),
+		lifetimeSpend: toNumber(row.lifetime_spend),
+		firstPurchaseAt: row.first_purchase_at,
+		lastPurchaseAt: row.last_purchase_at,
+		favoriteCategories: row.favorite_categories ?? [],
+	};
+}
+
+/**
+ * PostgREST `or` filter matching name, email or phone digits. Characters that
+ * would break the filter syntax are dropped from the query.
+ */
+function buildSearchFilter(query: string): string | null {
+	const cleaned = query.replace(/[,()*%\\"]/g, " ").trim();
+	if (!cleaned) return null;
+
+	const filters = [`name.ilike.%${cleaned}%`, `email.ilike.%${cleaned}%`];
+	const digits = normalizePhoneNumber(cleaned);
+	if (digits && digits.length >= 3) {
+		filters.push(`phone.ilike.%${digits}%`);
+	}
+
+	return filters.join(",");
+}
+
+export async function listCustomerSummaries(
+	client: AnySupabaseClient,
+	options: { search?: string; limit?: number } = {},
+): Promise<CustomerSummary[]> {
+	let query = client
+		.from("customer_summaries")
+		.select(CUSTOMER_SUMMARY_COLUMNS)
+		.order("last_purchase_at", { ascending: false, nullsFirst: false })
+		.order("created_at", { ascending: false })
+		.limit(options.limit ?? 200);
+
+	const filter = options.search ? buildSearchFilter(options.search) : null;
+	if (filter) {
+		query = query.or(filter);
+	}
+
+	const { data, error } = await query;
+
+	if (error) {
+		throw new Error(error.message);
+	}
+
+	return ((data ?? []) as CustomerSummaryRow[]).map(mapCustomerSummary);
+}
+
+export async function fetchCustomerSummary(
+	client: AnySupabaseClient,
+	customerId: string,
+): Promise<CustomerSummary | null> {
+	const { data, error } = await client
+		.from("customer_summaries")
+		.select(CUSTOMER_SUMMARY_COLUMNS)
+		.eq("id", customerId)
+		.maybeSingle();
+
+	if (error) {
+		throw new Error(error.message);
+	}
+
+	return data ? mapCustomerSummary(data as CustomerSummaryRow) : null;
+}
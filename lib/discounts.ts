@@ -0,0 +1,205 @@
+import { toCents } from "@/lib/payments";
+import type { AnySupabaseClient } from "@/lib/supabase-admin";
+
+export type DiscountType = "percentage" | "fixed";
+
+export const DISCOUNT_TYPE_LABELS: Record<DiscountType, string> = {
+	percentage: "Porcentaje",
+	fixed: "Monto fijo",
+};
+
+export type PromoCode = {
+	id: string;
+	code: string;
+	description: string | null;
+	discountType: DiscountType;
+	discountValue: number;
+	minSubtotal: number;
+	startsAt: string | null;
+	endsAt: string | null;
+	maxUses: number | null;
+	timesUsed: number;
+	active: boolean;
+	createdAt: string;
+};
+
+/** Error codes returned by `apply_promo_code` and `evaluatePromoCode`. */
+export type PromoCodeError =
+	| "promo_not_found"
+	| "promo_inactive"
+	| "promo_not_started"
+	| "promo_expired"
+	| "promo_exhausted"
+	| "promo_min_subtotal";
+
+export const PROMO_CODE_ERROR_MESSAGES: Record<PromoCodeError, string> = {
+	promo_not_found: "El código promocional no existe.",
+	promo_inactive: "El código promocional está desactivado.",
+	promo_not_started: "El código promocional todavía no está vigente.",
+	promo_expired: "El código promocional ya venció.",
+	promo_exhausted: "El código promocional alcanzó su límite de usos.",
+	promo_min_subtotal: "La compra no alcanza el mínimo del código promocional.",
+};
+
+export function isPromoCodeError(value: unknown): value is PromoCodeError {
+	return (
+		typeof value === "string" &&
+		Object.prototype.hasOwnProperty.call(PROMO_CODE_ERROR_MESSAGES, value)
+	);
+}
+
+export function normalizePromoCode(value: string) {
+	return value.trim().toUpperCase();
+}
+
+/**
+ * Discount on an amount, as `discount_amount_for` computes it: percentages are
+ * rounded to cents and fixed amounts never exceed what they discount.
+ */
+export function computeDiscountAmount(
+	amount: number,
+	discountType: DiscountType | null | undefined,
+	discountValue: number | null | undefined,
+) {
+	const amountCents = toCents(amount);
+	const value = discountValue ?? 0;
+	if (!discountType || amountCents <= 0 || !(value > 0)) return 0;
+
+	if (discountType === "percentage") {
+		return Math.round((amountCents * Math.min(value, 100)) / 100) / 100;
+	}
+
+	return Math.min(toCents(value), amountCents) / 100;
+}
+
+export type DiscountedLine = {
+	qty: number;
+	unitPrice: number;
+	discountType?: DiscountType;
+	discountValue?: number;
+};
+
+/** Line discount on the rounded line amount; fixed amounts cover the line. */
+export function computeLineDiscount(line: DiscountedLine) {
+	return computeDiscountAmount(
+		(toCents(line.unitPrice) * line.qty) / 100,
+		line.discountType,
+		line.discountValue,
+	);
+}
+
+/**
+ * Checks a promo code the way `apply_promo_code` does and returns the discount
+ * it gives on `amount`, the subtotal after line discounts.
+ */
+export function evaluatePromoCode(
+	promo: PromoCode,
+	amount: number,
+	now: Date = new Date(),
+):
+	| { success: true; discount: number }
+	| { success: false; error: PromoCodeError } {
+	if (!promo.active) return { success: false, error: "promo_inactive" };
+	if (promo.startsAt && new Date(promo.startsAt) > now) {
+		return { success: false, error: "promo_not_started" };
+	}
+	if (promo.endsAt && new Date(promo.endsAt) <= now) {
+		return { success: false, error: "promo_expired" };
+	}
+	if (promo.maxUses !== null && promo.timesUsed >= promo.maxUses) {
+		return { success: false, error: "promo_exhausted" };
+	}
+	if (toCents(amount) < toCents(promo.minSubtotal)) {
+		return { success: false, error: "promo_min_subtotal" };
+	}
+
+	return {
+		success: true,
+		discount: computeDiscountAmount(
+			amount,
+			promo.discountType,
+			promo.discountValue,
+		),
+	};
+}
+
+export function describePromoCode(
+	promo: Pick<PromoCode, "discountType" | "discountValue">,
+	formatAmount: (value: number) => string,
+) {
+	return promo.discountType === "percentage"
+		? `${promo.discountValue} %`
+		: formatAmount(promo.discountValue);
+}
+
+type PromoCodeRow = {
+	id: string;
+	code: string;
+	description: string | null;
+	discount_type: DiscountType;
+	discount_value: number | string | null;
+	min_subtotal: number | string | null;
+	starts_at: string | null;
+	ends_at: string | null;
+	max_uses: number | null;
+	times_used: number | null;
+	active: boolean | null;
+	created_at: string;
+};
+
+const PROMO_CODE_COLUMNS =
+	"id, code, description, discount_type, discount_value, min_subtotal, starts_at, ends_at, max_uses, times_used, active, created_at";
+
+function toNumber(value: number | string | null): number {
+	const parsed = Number(value ?? 0);
+	return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function mapPromoCode(row: PromoCodeRow): PromoCode {
+	return {
+		id: row.id,
+		code: row.code,
+		description: row.description,
+		discountType: row.discount_type,
+		discountValue: toNumber(row.discount_value),
+		minSubtotal: toNumber(row.min_subtotal),
+		startsAt: row.starts_at,
+		endsAt: row.ends_at,
+		maxUses: row.max_uses,
+		timesUsed: row.times_used ?? 0,
+		active: Boolean(row.active),
+		createdAt: row.created_at,
+	};
+}
+
+export async function fetchPromoCodeByCode(
+	client: AnySupabaseClient,
+	code: string,
+): Promise<PromoCode | null> {
+	const { data, error } = await client
+		.from("promo_codes")
+		.select(PROMO_CODE_COLUMNS)
+		.eq("code", normalizePromoCode(code))
+		.maybeSingle();
+
+	if (error) {
+		throw new Error(error.message);
+	}
+
+	return data ? mapPromoCode(data as PromoCodeRow) : null;
+}
+
+export async function listPromoCodes(
+	client: AnySupabaseClient,
+): Promise<PromoCode[]> {
+	const { data, error } = await client
+		.from("promo_codes")
+		.select(PROMO_CODE_COLUMNS)
+		.order("created_at", { ascending: false });
+
+	if (error) {
+		throw new Error(error.message);
+	}
+
+	return ((data ?? []) as PromoCodeRow[]).map(mapPromoCode);
+}
@@ -0,0 +1,297 @@
+// Barcode encoders and label sheet geometry for the label PDF endpoint. The
+// encoders return module strings ("1" = bar, "0" = space) so the renderer
+// only has to draw runs of bars.
+
+const MM_TO_PT = 72 / 25.4;
+
+function mm(value: number) {
+	return value * MM_TO_PT;
+}
+
+export type BarcodeSymbology = "code128" | "ean13";
+
+export type LabelLayoutId =
+	| "a4-3x10"
+	| "a4-3x8"
+	| "letter-3x10"
+	| "thermal-50x25"
+	| "thermal-40x30"
+	| "thermal-58x40";
+
+export type LabelLayout = {
+	id: LabelLayoutId;
+	name: string;
+	pageWidth: number;
+	pageHeight: number;
+	columns: number;
+	rows: number;
+	labelWidth: number;
+	labelHeight: number;
+	marginLeft: number;
+	marginTop: number;
+	gapX: number;
+	gapY: number;
+};
+
+function thermalLayout(
+	id: LabelLayoutId,
+	name: string,
+	width: number,
+	height: number,
+): LabelLayout {
+	return {
+		id,
+		name,
+		pageWidth: mm(width),
+		pageHeight: mm(height),
+		columns: 1,
+		rows: 1,
+		labelWidth: mm(width),
+		labelHeight: mm(height),
+		marginLeft: 0,
+		marginTop: 0,
+		gapX: 0,
+		gapY: 0,
+	};
+}
+
+/** All sizes in PDF points; thermal layouts print one label per page. */
+export const LABEL_LAYOUTS: Record<LabelLayoutId, LabelLayout> = {
+	"a4-3x10": {
+		id: "a4-3x10",
+		name: "Hoja A4 · 3 × 10 (70 × 29.7 mm)",
+		pageWidth: mm(210),
+		pageHeight: mm(297),
+		columns: 3,
+		rows: 10,
+		labelWidth: mm(70),
+		labelHeight: mm(29.7),
+		marginLeft: 0,
+		marginTop: 0,
+		gapX: 0,
+		gapY: 0,
+	},
+	"a4-3x8": {
+		id: "a4-3x8",
+		name: "Hoja A4 · 3 × 8 (70 × 36 mm)",
+		pageWidth: mm(210),
+		pageHeight: mm(297),
+		columns: 3,
+		rows: 8,
+		labelWidth: mm(70),
+		labelHeight: mm(36),
+		marginLeft: 0,
+		marginTop: mm(4.5),
+		gapX: 0,
+		gapY: 0,
+	},
+	"letter-3x10": {
+		id: "letter-3x10",
+		name: "Hoja carta · 3 × 10 (66.7 × 25.4 mm)",
+		pageWidth: 612,
+		pageHeight: 792,
+		columns: 3,
+		rows: 10,
+		labelWidth: 189,
+		labelHeight: 72,
+		marginLeft: 13.5,
+		marginTop: 36,
+		gapX: 9,
+		gapY: 0,
+	},
+	"thermal-50x25": thermalLayout(
+		"thermal-50x25",
+		"Térmica 50 × 25 mm",
+		50,
+		25,
+	),
+	"thermal-40x30": thermalLayout(
+		"thermal-40x30",
+		"Térmica 40 × 30 mm",
+		40,
+		30,
+	),
+	"thermal-58x40": thermalLayout(
+		"thermal-58x40",
+		"Térmica 58 × 40 mm",
+		58,
+		40,
+	),
+};
+
+export const LABEL_LAYOUT_IDS = Object.keys(LABEL_LAYOUTS) as [
+	LabelLayoutId,
+	...LabelLayoutId[],
+];
+
+/**
+ * Page index and bottom-left corner (PDF coordinates) of the label at
+ * `index`, filling each sheet row by row.
+ */
+export function labelPosition(layout: LabelLayout, index: number) {
+	const perPage = layout.columns * layout.rows;
+	const page = Math.floor(index / perPage);
+	const slot = index % perPage;
+	const row = Math.floor(slot / layout.columns);
+	const column = slot % layout.columns;
+
+	return {
+		page,
+		x: layout.marginLeft + column * (layout.labelWidth + layout.gapX),
+		y:
+			layout.pageHeight -
+			layout.marginTop -
+			(row + 1) * layout.labelHeight -
+			row * layout.gapY,
+	};
+}
+
+// Code 128 ---------------------------------------------------------------------
+
+// Bar/space widths for symbol values 0-106; 106 is the stop pattern.
+const CODE128_WIDTHS = (
+	"212222 222122 222221 121223 121322 131222 122213 122312 132212 " +
+	"221213 221312 231212 112232 122132 122231 113222 123122 123221 " +
+	"223211 221132 221231 213212 223112 312131 311222 321122 321221 " +
+	"312212 322112 322211 212123 212321 232121 111323 131123 131321 " +
+	"112313 132113 132311 211313 231113 231311 112133 112331 132131 " +
+	"113123 113321 133121 313121 211331 231131 213113 213311 213131 " +
+	"311123 311321 331121 312113 312311 332111 314111 221411 431111 " +
+	"111224 111422 121124 121421 141122 141221 112214 112412 122114 " +
+	"122411 142112 142211 241211 221114 413111 241112 134111 111242 " +
+	"121142 121241 114212 124112 124211 411212 421112 421211 212141 " +
+	"214121 412121 111143 111341 131141 114113 114311 411113 411311 " +
+	"113141 114131 311141 411131 211412 211214 211232 2331112"
+).split(" ");
+
+const CODE128_START_B = 104;
+const CODE128_STOP = 106;
+
+function widthsToModules(widths: string) {
+	let modules = "";
+	for (let index = 0; index < widths.length; index += 1) {
+		modules += (index % 2 === 0 ? "1" : "0").repeat(Number(widths[index]));
+	}
+	return modules;
+}
+
+/**
+ * Symbol values for `text` in code set B, start code and checksum included
+ * (stop excluded). Returns null when a character is outside printable ASCII.
+ */
+export function code128Values(text: string): number[] | null {
+	if (!text) return null;
+
+	const values = [CODE128_START_B];
+	for (const char of text) {
+		const code = char.charCodeAt(0);
+		if (code < 32 || code > 126) return null;
+		values.push(code - 32);
+	}
+
+	// The start code and the first character both have weight 1.
+	const checksum =
+		values.reduce((sum, value, index) => sum + value * Math.max(index, 1), 0) %
+		103;
+	values.push(checksum);
+
+	return values;
+}
+
+export function encodeCode128(text: string): string | null {
+	const values = code128Values(text);
+	if (!values) return null;
+
+	return [...values, CODE128_STOP]
+		.map((value) => widthsToModules(CODE128_WIDTHS[value]))
+		.join("");
+}
+
+// EAN-13 -----------------------------------------------------------------------
+
+const EAN_L = (
+	"0001101 0011001 0010011 0111101 0100011 " +
+	"0110001 0101111 0111011 0110111 0001011"
+).split(" ");
+const EAN_G = (
+	"0100111 0110011 0011011 0100001 0011101 " +
+	"0111001 0000101 0010001 0001001 0010111"
+).split(" ");
+const EAN_R = (
+	"1110010 1100110 1101100 1000010 1011100 " +
+	"1001110 1010000 1000100 1001000 1110100"
+).split(" ");
+// Which left-half digits use the G set, keyed by the leading digit.
+const EAN_PARITY = (
+	"LLLLLL LLGLGG LLGGLG LLGGGL LGLLGG " +
+	"LGGLLG LGGGLL LGLGLG LGLGGL LGGLGL"
+).split(" ");
+
+export function ean13CheckDigit(digits: string) {
+	const sum = digits
+		.slice(0, 12)
+		.split("")
+		.reduce(
+			(acc, digit, index) => acc + Number(digit) * (index % 2 === 0 ? 1 : 3),
+			0,
+		);
+	return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * The full 13-digit code for 12 digits (check digit appended) or 13 digits
+ * with a valid check digit; null otherwise.
+ */
+export function normalizeEan13(value: string): string | null {
+	if (!/^\d{12,13}$/.test(value)) return null;
+
+	const check = ean13CheckDigit(value);
+	if (value.length === 12) return `${value}${check}`;
+	return Number(value[12]) === check ? value : null;
+}
+
+export function encodeEan13(value: string): string | null {
+	const code = normalizeEan13(value);
+	if (!code) return null;
+
+	const parity = EAN_PARITY[Number(code[0])];
+	let modules = "101";
+	for (let index = 1; index <= 6; index += 1) {
+		const digit = Number(code[index]);
+		modules += parity[index - 1] === "G" ? EAN_G[digit] : EAN_L[digit];
+	}
+	modules += "01010";
+	for (let index = 7; index <= 12; index += 1) {
+		modules += EAN_R[Number(code[index])];
+	}
+	modules += "101";
+
+	return modules;
+}
+
+export type EncodedBarcode = {
+	symbology: BarcodeSymbology;
+	text: string;
+	modules: string;
+};
+
+/**
+ * Encodes `value` with the requested symbology. "auto" prints valid EAN-13
+ * codes as EAN-13 and everything else as Code 128.
+ */
+export function encodeBarcode(
+	value: string,
+	symbology: BarcodeSymbology | "auto",
+): EncodedBarcode | null {
+	if (symbology !== "code128") {
+		const ean = normalizeEan13(value);
+		const modules = ean ? encodeEan13(ean) : null;
+		if (ean && modules) {
+			return { symbology: "ean13", text: ean, modules };
+		}
+		if (symbology === "ean13") return null;
+	}
+
+	const modules = encodeCode128(value);
+	return modules ? { symbology: "code128", text: value, modules } : null;
+}
@@ -0,0 +1,37 @@
+export const ORDER_STATUSES = [
+	"pending",
+	"processing",
+	"completed",
+	"cancelled",
+] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+	pending: "Pendiente",
+	processing: "En proceso",
+	completed: "Completada",
+	cancelled: "Cancelada",
+};
+
+/**
+ * Status changes handled by `transition_order_status`. Cancelling is done
+ * through the refund flow so a reason is always recorded.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+	pending: ["processing"],
+	processing: ["completed", "pending"],
+	completed: [],
+	cancelled: [],
+};
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+	return (
+		typeof value === "string" &&
+		(ORDER_STATUSES as readonly string[]).includes(value)
+	);
+}
+
+export function canTransitionOrder(from: unknown, to: OrderStatus): boolean {
+	return isOrderStatus(from) && ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
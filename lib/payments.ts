@@ -0,0 +1,151 @@
+// Split-tender helpers shared by the POS terminal, the sale schema and the
+// order views. Amounts are compared in cents so floating point noise from
+// form inputs never blocks a sale that balances on paper.
+
+export type TenderMethod = "cash" | "card" | "transfer";
+
+/** `mixed` is stored on orders paid with more than one method. */
+export type OrderPaymentMethod = TenderMethod | "mixed";
+
+export type Tender = {
+	method: TenderMethod;
+	amount: number;
+	/** Cash handed over by the customer; only meaningful for cash tenders. */
+	tendered?: number;
+	reference?: string;
+};
+
+export const PAYMENT_METHOD_LABELS: Record<OrderPaymentMethod, string> = {
+	cash: "Efectivo",
+	card: "Tarjeta",
+	transfer: "Transferencia",
+	mixed: "Mixto",
+};
+
+export function formatPaymentMethod(method: string | null | undefined) {
+	if (!method) return "—";
+	return PAYMENT_METHOD_LABELS[method as OrderPaymentMethod] ?? method;
+}
+
+export function toCents(value: number) {
+	return Math.round((Number.isFinite(value) ? value : 0) * 100);
+}
+
+/**
+ * Manual order discount as `create_pos_sale` applies it: at most what is left
+ * of the subtotal after line and promo discounts, so the discounts never add
+ * up to more than the subtotal.
+ */
+export function capOrderDiscount(discountAmount: number, remaining: number) {
+	return (
+		Math.min(
+			Math.max(toCents(discountAmount), 0),
+			Math.max(toCents(remaining), 0),
+		) / 100
+	);
+}
+
+/**
+ * Sale total exactly as `create_pos_sale` computes it: each line rounded to
+ * cents less its own discount, then the promo and the capped order discount
+ * taken off and tax added. Line discounts come from `computeLineDiscount`.
+ */
+export function computeSaleTotal(input: {
+	lines: { qty: number; unitPrice: number; discountAmount?: number }[];
+	promoDiscountAmount?: number;
+	discountAmount?: number;
+	taxAmount?: number;
+}) {
+	const subtotalCents = input.lines.reduce(
+		(sum, line) =>
+			sum +
+			toCents(line.unitPrice) * line.qty -
+			Math.max(toCents(line.discountAmount ?? 0), 0),
+		0,
+	);
+	const discountableCents = Math.max(
+		subtotalCents - Math.max(toCents(input.promoDiscountAmount ?? 0), 0),
+		0,
+	);
+	const totalCents =
+		discountableCents -
+		toCents(
+			capOrderDiscount(input.discountAmount ?? 0, discountableCents / 100),
+		) +
+		Math.max(toCents(input.taxAmount ?? 0), 0);
+	return totalCents / 100;
+}
+
+/** Change owed on a single tender; zero for non-cash or short tenders. */
+export function tenderChange(tender: Tender) {
+	if (tender.method !== "cash" || tender.tendered === undefined) return 0;
+	return Math.max(toCents(tender.tendered) - toCents(tender.amount), 0) / 100;
+}
+
+export function summarizeTenders(tenders: Tender[], total: number) {
+	const paidCents = tenders.reduce(
+		(sum, tender) => sum + toCents(tender.amount),
+		0,
+	);
+	const totalCents = toCents(total);
+	const changeCents = tenders.reduce(
+		(sum, tender) => sum + toCents(tenderChange(tender)),
+		0,
+	);
+
+	return {
+		paid: paidCents / 100,
+		remaining: (totalCents - paidCents) / 100,
+		change: changeCents / 100,
+		isBalanced: paidCents === totalCents,
+	};
+}
+
+/**
+ * First reason the tenders can't settle `total`, in the words the POS shows,
+ * or `null` when they can. `formatAmount` renders the missing or extra amount.
+ */
+export function findTenderIssue(
+	tenders: Tender[],
+	total: number,
+	formatAmount: (value: number) => string,
+): string | null {
+	if (total <= 0) return null;
+	if (tenders.some((tender) => toCents(tender.amount) <= 0)) {
+		return "Cada pago necesita un monto mayor a cero.";
+	}
+
+	const summary = summarizeTenders(tenders, total);
+	if (!summary.isBalanced) {
+		const difference = formatAmount(Math.abs(summary.remaining));
+		return summary.remaining > 0
+			? `Faltan ${difference} por cobrar.`
+			: `Los pagos exceden el total por ${difference}.`;
+	}
+	if (
+		tenders.some((tender) => tender.method === "transfer" && !tender.reference)
+	) {
+		return "Ingresa la referencia de cada transferencia.";
+	}
+	if (
+		tenders.some(
+			(tender) =>
+				tender.tendered !== undefined &&
+				toCents(tender.tendered) < toCents(tender.amount),
+		)
+	) {
+		return "El efectivo recibido no cubre el monto en efectivo.";
+	}
+	return null;
+}
+
+/** The single method used by every tender, or `mixed`. */
+export function resolveOrderPaymentMethod(
+	tenders: Pick<Tender, "method">[],
+	fallback: TenderMethod = "cash",
+): OrderPaymentMethod {
+	const methods = new Set(tenders.map((tender) => tender.method));
+	if (methods.size === 0) return fallback;
+	if (methods.size > 1) return "mixed";
+	return tenders[0].method;
+}
@@ -0,0 +1,251 @@
+import type { AnySupabaseClient } from "@/lib/supabase-admin";
+
+export const PRICE_HISTORY_SOURCES = [
+	"initial",
+	"manual",
+	"bulk",
+	"intake",
+	"sale",
+] as const;
+
+export type PriceHistorySource = (typeof PRICE_HISTORY_SOURCES)[number];
+
+export const PRICE_HISTORY_SOURCE_LABELS: Record<PriceHistorySource, string> = {
+	initial: "Precio inicial",
+	manual: "Edición manual",
+	bulk: "Repreciado masivo",
+	intake: "Ingreso de inventario",
+	sale: "Venta (PEPS)",
+};
+
+export type PriceSnapshot = {
+	sellPrice: number | null;
+	costPrice: number | null;
+};
+
+export type PriceChangeInput = {
+	productId?: string | null;
+	comboId?: string | null;
+	source: PriceHistorySource;
+	before: PriceSnapshot | null;
+	after: PriceSnapshot;
+	reference?: string | null;
+	createdBy?: string | null;
+};
+
+export type PriceHistoryEntry = PriceSnapshot & {
+	id: number;
+	productId: string | null;
+	comboId: string | null;
+	source: PriceHistorySource;
+	reference: string | null;
+	createdBy: string | null;
+	createdAt: string;
+};
+
+export type PriceHistoryTarget = { productId: string } | { comboId: string };
+
+type PriceHistoryRow = {
+	id: number;
+	product_id: string | null;
+	combo_id: string | null;
+	sell_price: number | string | null;
+	cost_price: number | string | null;
+	source: string;
+	reference: string | null;
+	created_by: string | null;
+	created_at: string;
+};
+
+const PRICE_HISTORY_COLUMNS =
+	"id, product_id, combo_id, sell_price, cost_price, source, reference, created_by, created_at";
+
+function isPriceHistorySource(value: string): value is PriceHistorySource {
+	return (PRICE_HISTORY_SOURCES as readonly string[]).includes(value);
+}
+
+function toNullableNumber(value: number | string | null): number | null {
+	if (value === null) return null;
+	const parsed = typeof value === "number" ? value : Number(value);
+	return Number.isFinite(parsed) ? parsed : null;
+}
+
+/** Normalises raw price columns (numbers or numeric strings) into a snapshot. */
+export function toPriceSnapshot(
+	sellPrice: unknown,
+	costPrice: unknown = null,
+): PriceSnapshot {
+	const normalise = (value: unknown) =>
+		typeof value === "number" || typeof value === "string"
+			? toNullableNumber(value)
+			: null;
+
+	return { sellPrice: normalise(sellPrice), costPrice: normalise(costPrice) };
+}
+
+function mapRow(row: PriceHistoryRow): PriceHistoryEntry {
+	return {
+		id: row.id,
+		productId: row.product_id,
+		comboId: row.combo_id,
+		sellPrice: toNullableNumber(row.sell_price),
+		costPrice: toNullableNumber(row.cost_price),
+		source: row.source as PriceHistorySource,
+		reference: row.reference,
+		createdBy: row.created_by,
+		createdAt: row.created_at,
+	};
+}
+
+/**
+ * Newest first. Rows written in the same transaction share `created_at`, so
+ * the id, which follows insertion order, breaks the tie.
+ */
+export function sortPriceHistory(
+	entries: PriceHistoryEntry[],
+): PriceHistoryEntry[] {
+	return [...entries].sort(
+		(a, b) =>
+			Date.parse(b.createdAt) - Date.parse(a.createdAt) || b.id - a.id,
+	);
+}
+
+/**
+ * Latest snapshot per product and per combo among the entries created at or
+ * before `at`.
+ */
+export function pricesInForceAt(
+	entries: PriceHistoryEntry[],
+	at: string | Date,
+): {
+	products: Map<string, PriceSnapshot>;
+	combos: Map<string, PriceSnapshot>;
+} {
+	const products = new Map<string, PriceSnapshot>();
+	const combos = new Map<string, PriceSnapshot>();
+	const cutoff = typeof at === "string" ? Date.parse(at) : at.getTime();
+
+	for (const entry of sortPriceHistory(entries)) {
+		if (Date.parse(entry.createdAt) > cutoff) continue;
+
+		const snapshot = { sellPrice: entry.sellPrice, costPrice: entry.costPrice };
+		if (entry.productId && !products.has(entry.productId)) {
+			products.set(entry.productId, snapshot);
+		}
+		if (entry.comboId && !combos.has(entry.comboId)) {
+			combos.set(entry.comboId, snapshot);
+		}
+	}
+
+	return { products, combos };
+}
+
+/**
+ * Inserts history rows for price changes applied outside of the database
+ * functions. Changes where neither price moved are skipped; a `null` before
+ * snapshot always records (the entity was just created).
+ */
+export async function recordPriceChanges(
+	client: AnySupabaseClient,
+	changes: PriceChangeInput[],
+): Promise<void> {
+	const rows = changes
+		.filter(
+			(change) =>
+				!change.before ||
+				change.before.sellPrice !== change.after.sellPrice ||
+				change.before.costPrice !== change.after.costPrice,
+		)
+		.map((change) => ({
+			product_id: change.productId ?? null,
+			combo_id: change.comboId ?? null,
+			sell_price: change.after.sellPrice,
+			cost_price: change.after.costPrice,
+			source: change.source,
+			reference: change.reference ?? null,
+			created_by: change.createdBy ?? null,
+		}));
+
+	if (rows.length === 0) return;
+
+	const { error } = await client.from("price_history").insert(rows);
+
+	if (error) {
+		throw new Error(error.message);
+	}
+}
+
+export async function listPriceHistory(
+	client: AnySupabaseClient,
+	target: PriceHistoryTarget,
+	limit = 200,
+): Promise<PriceHistoryEntry[]> {
+	let query = client.from("price_history").select(PRICE_HISTORY_COLUMNS);
+
+	query =
+		"productId" in target
+			? query.eq("product_id", target.productId)
+			: query.eq("combo_id", target.comboId);
+
+	const { data, error } = await query
+		.order("created_at", { ascending: false })
+		.order("id", { ascending: false })
+		.limit(limit);
+
+	if (error) {
+		throw new Error(error.message);
+	}
+
+	return sortPriceHistory(
+		((data ?? []) as PriceHistoryRow[])
+			.filter((row) => isPriceHistorySource(row.source))
+			.map(mapRow),
+	);
+}
+
+/**
+ * Returns the prices in force at `at` for each requested product and combo:
+ * the latest history row created at or before that instant. Entities without
+ * history up to that point are absent from the resulting maps.
+ */
+export async function getPricesAt(
+	client: AnySupabaseClient,
+	{
+		productIds = [],
+		comboIds = [],
+		at,
+	}: { productIds?: string[]; comboIds?: string[]; at: string | Date },
+): Promise<{
+	products: Map<string, PriceSnapshot>;
+	combos: Map<string, PriceSnapshot>;
+}> {
+	const cutoff = typeof at === "string" ? at : at.toISOString();
+	const lookups: Array<{
+		column: "product_id" | "combo_id";
+		ids: string[];
+	}> = [
+		{ column: "product_id", ids: Array.from(new Set(productIds)) },
+		{ column: "combo_id", ids: Array.from(new Set(comboIds)) },
+	];
+	const entries: PriceHistoryEntry[] = [];
+
+	for (const { column, ids } of lookups) {
+		if (ids.length === 0) continue;
+
+		const { data, error } = await client
+			.from("price_history")
+			.select(PRICE_HISTORY_COLUMNS)
+			.in(column, ids)
+			.lte("created_at", cutoff)
+			.order("created_at", { ascending: false })
+			.order("id", { ascending: false });
+
+		if (error) {
+			throw new Error(error.message);
+		}
+
+		entries.push(...((data ?? []) as PriceHistoryRow[]).map(mapRow));
+	}
+
+	return pricesInForceAt(entries, cutoff);
+}
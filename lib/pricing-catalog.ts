@@ -0,0 +1,362 @@
+import type { PriceRule, PriceRuleTarget } from "@/lib/pricing";
+import {
+	normalizeRule,
+	ruleMatchesCombo,
+	ruleMatchesProduct,
+	type ComboPricingContext,
+	type ProductPricingContext,
+	type ProductPricingMetric,
+} from "@/lib/pricing-rules";
+import type { AnySupabaseClient } from "@/lib/supabase-admin";
+
+export type PricingCatalogProduct = {
+	id: string;
+	name: string;
+	status: string;
+	categoryId: string | null;
+	categoryName: string | null;
+	subcategoryName: string | null;
+	brand: string | null;
+	promoTag: string | null;
+	costPrice: number | null;
+	sellPrice: number | null;
+	currency: string;
+	quantity: number;
+};
+
+export type PricingCatalogCombo = {
+	id: string;
+	name: string;
+	status: string;
+	promoTag: string | null;
+	productIds: string[];
+};
+
+export type PricingCatalog = {
+	products: PricingCatalogProduct[];
+	combos: PricingCatalogCombo[];
+	metrics: Map<string, ProductPricingMetric>;
+};
+
+export type RulePreviewMatch = { id: string; name: string };
+
+export type RulePreview = {
+	products: RulePreviewMatch[];
+	combos: RulePreviewMatch[];
+};
+
+/** Values offered as suggestions for a rule's scope reference. */
+export type PricingScopeOptions = {
+	categories: string[];
+	brands: string[];
+	products: string[];
+	promoTags: string[];
+};
+
+type ProductRow = {
+	id: string;
+	name: string;
+	status: string | null;
+	category_id: number | string | null;
+	cost_price: number | string | null;
+	sell_price: number | string | null;
+	currency: string | null;
+	quantity: number | string | null;
+	meta: Record<string, unknown> | null;
+	// Many-to-one embeds come back as an object, but the generated typings
+	// describe them as arrays.
+	categories: { name: string | null } | Array<{ name: string | null }> | null;
+	subcategories:
+		| { name: string | null }
+		| Array<{ name: string | null }>
+		| null;
+};
+
+type ComboRow = {
+	id: string;
+	name: string;
+	status: string | null;
+	promo_tag: string | null;
+	combo_items: Array<{ product_id: string | null }> | null;
+};
+
+type MetricRow = {
+	product_id: string;
+	inventory_age_days: number | string | null;
+	cost_change_pct: number | string | null;
+};
+
+const PRICE_RULE_COLUMNS =
+	"id, name, description, target, scope, scope_ref, margin_low, margin_mid, margin_high, margin_premium, endings, active, priority, price_adjustment_pct, conditions, starts_at, ends_at";
+
+function toNullableNumber(value: number | string | null | undefined) {
+	if (value === null || value === undefined) return null;
+	const parsed = Number(value);
+	return Number.isFinite(parsed) ? parsed : null;
+}
+
+function metaText(value: unknown) {
+	return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/** Brand and promo tag, which products keep as free text in `meta`. */
+export function readProductMetaTags(
+	meta: Record<string, unknown> | null | undefined,
+) {
+	return {
+		brand: metaText(meta?.brand),
+		promoTag: metaText(meta?.promoTag),
+	};
+}
+
+/** Name of a many-to-one embed, which may come back as an object or array. */
+export function embeddedName(
+	value: { name: string | null } | Array<{ name: string | null }> | null,
+) {
+	return (Array.isArray(value) ? value[0]?.name : value?.name) ?? null;
+}
+
+/** Inventory age and latest cost change per product, keyed by product id. */
+export async function loadProductPricingMetrics(
+	client: AnySupabaseClient,
+): Promise<Map<string, ProductPricingMetric>> {
+	const { data, error } = await client.rpc("product_pricing_metrics");
+
+	if (error) {
+		throw new Error(error.message);
+	}
+
+	const metrics = new Map<string, ProductPricingMetric>();
+	for (const row of (data ?? []) as MetricRow[]) {
+		metrics.set(row.product_id, {
+			productId: row.product_id,
+			inventoryAgeDays: toNullableNumber(row.inventory_age_days),
+			costChangePct: toNullableNumber(row.cost_change_pct),
+		});
+	}
+
+	return metrics;
+}
+
+/** Active rules for one target, normalized and ready for the matchers. */
+export async function loadActivePriceRules(
+	client: AnySupabaseClient,
+	target: PriceRuleTarget,
+): Promise<PriceRule[]> {
+	return loadPriceRules(client, target, { activeOnly: true });
+}
+
+/**
+ * Every rule for one target in evaluation order (priority, then id).
+ * Inactive rules are included unless `activeOnly` is set.
+ */
+export async function loadPriceRules(
+	client: AnySupabaseClient,
+	target: PriceRuleTarget,
+	{ activeOnly = false }: { activeOnly?: boolean } = {},
+): Promise<PriceRule[]> {
+	let query = client
+		.from("price_rules")
+		.select(PRICE_RULE_COLUMNS)
+		.eq("target", target);
+
+	if (activeOnly) {
+		query = query.eq("active", true);
+	}
+
+	const { data, error } = await query
+		.order("priority", { ascending: true })
+		.order("id", { ascending: true });
+
+	if (error) {
+		throw new Error(error.message);
+	}
+
+	return ((data ?? []) as PriceRule[]).map(normalizeRule);
+}
+
+/**
+ * Products, combos and intake metrics that pricing rules are evaluated
+ * against. Archived items are left out since no price is suggested for them.
+ */
+export async function loadPricingCatalog(
+	client: AnySupabaseClient,
+): Promise<PricingCatalog> {
+	const [productsResponse, combosResponse, metrics] = await Promise.all([
+		client
+			.from("products")
+			.select(
+				"id, name, status, category_id, cost_price, sell_price, currency, quantity, meta, categories(name), subcategories(name)",
+			)
+			.neq("status", "archived")
+			.order("name", { ascending: true }),
+		client
+			.from("combos")
+			.select("id, name, status, promo_tag, combo_items(product_id)")
+			.neq("status", "archived")
+			.order("name", { ascending: true }),
+		loadProductPricingMetrics(client),
+	]);
+
+	const error = productsResponse.error ?? combosResponse.error;
+	if (error) {
+		throw new Error(error.message);
+	}
+
+	const products = ((productsResponse.data ?? []) as ProductRow[]).map(
+		(row) => ({
+			id: row.id,
+			name: row.name,
+			status: row.status ?? "active",
+			categoryId: row.category_id === null ? null : String(row.category_id),
+			categoryName: embeddedName(row.categories),
+			subcategoryName: embeddedName(row.subcategories),
+			...readProductMetaTags(row.meta),
+			costPrice: toNullableNumber(row.cost_price),
+			sellPrice: toNullableNumber(row.sell_price),
+			currency: row.currency ?? "NIO",
+			quantity: toNullableNumber(row.quantity) ?? 0,
+		}),
+	);
+
+	const combos = ((combosResponse.data ?? []) as ComboRow[]).map((row) => ({
+		id: row.id,
+		name: row.name,
+		status: row.status ?? "active",
+		promoTag: row.promo_tag,
+		productIds: (row.combo_items ?? [])
+			.map((item) => item.product_id)
+			.filter((id): id is string => Boolean(id)),
+	}));
+
+	return { products, combos, metrics };
+}
+
+export function buildComboPricingContext(
+	combo: PricingCatalogCombo,
+	catalog: PricingCatalog,
+	now?: Date,
+): ComboPricingContext {
+	const productsById = new Map(
+		catalog.products.map((product) => [product.id, product]),
+	);
+	const categories = new Map<
+		string,
+		{ id: string | null; name: string | null }
+	>();
+	const inventoryAges: number[] = [];
+	const costChanges: number[] = [];
+
+	for (const productId of combo.productIds) {
+		const product = productsById.get(productId);
+		const categoryKey = product?.categoryId ?? product?.categoryName;
+		if (product && categoryKey) {
+			categories.set(categoryKey, {
+				id: product.categoryId,
+				name: product.categoryName,
+			});
+		}
+
+		const metric = catalog.metrics.get(productId);
+		if (typeof metric?.inventoryAgeDays === "number") {
+			inventoryAges.push(metric.inventoryAgeDays);
+		}
+		if (typeof metric?.costChangePct === "number") {
+			costChanges.push(metric.costChangePct);
+		}
+	}
+
+	return {
+		categories: Array.from(categories.values()),
+		promoTag: combo.promoTag,
+		inventoryAges,
+		costChanges,
+		now,
+	};
+}
+
+function uniqueSorted(values: Array<string | null>) {
+	return Array.from(
+		new Set(values.filter((value): value is string => Boolean(value))),
+	).sort((a, b) => a.localeCompare(b, "es"));
+}
+
+export function buildScopeOptions(catalog: PricingCatalog): PricingScopeOptions {
+	return {
+		categories: uniqueSorted(
+			catalog.products.flatMap((product) => [
+				product.categoryName,
+				product.subcategoryName,
+			]),
+		),
+		brands: uniqueSorted(catalog.products.map((product) => product.brand)),
+		products: uniqueSorted(catalog.products.map((product) => product.name)),
+		promoTags: uniqueSorted([
+			...catalog.combos.map((combo) => combo.promoTag),
+			...catalog.products.map((product) => product.promoTag),
+		]),
+	};
+}
+
+export function buildProductPricingContext(
+	product: PricingCatalogProduct,
+	catalog: PricingCatalog,
+	now?: Date,
+): ProductPricingContext {
+	const metric = catalog.metrics.get(product.id);
+
+	return {
+		productId: product.id,
+		name: product.name,
+		categoryId: product.categoryId,
+		categoryName: product.categoryName,
+		subcategoryName: product.subcategoryName,
+		brand: product.brand,
+		promoTag: product.promoTag,
+		inventoryAgeDays: metric?.inventoryAgeDays ?? null,
+		costChangePct: metric?.costChangePct ?? null,
+		now,
+	};
+}
+
+/**
+ * Products or combos a rule reaches, ignoring its active flag and date window
+ * so a draft can be previewed before it goes live.
+ */
+export function previewRuleMatches(
+	rule: PriceRule,
+	catalog: PricingCatalog,
+): RulePreview {
+	const candidate = normalizeRule({
+		...rule,
+		active: true,
+		starts_at: null,
+		ends_at: null,
+	});
+
+	if ((candidate.target ?? "product") === "combo") {
+		return {
+			products: [],
+			combos: catalog.combos
+				.filter((combo) =>
+					ruleMatchesCombo(
+						candidate,
+						buildComboPricingContext(combo, catalog),
+					),
+				)
+				.map(({ id, name }) => ({ id, name })),
+		};
+	}
+
+	return {
+		products: catalog.products
+			.filter((product) =>
+				ruleMatchesProduct(
+					candidate,
+					buildProductPricingContext(product, catalog),
+				),
+			)
+			.map(({ id, name }) => ({ id, name })),
+		combos: [],
+	};
+}
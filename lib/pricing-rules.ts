@@ -1,4 +1,5 @@
 import {
+	ConditionStrategy,
 	CostChangeCondition,
 	CostChangeDirection,
 	PriceRule,
@@ -19,6 +20,25 @@ export type ComboPricingContext = {
 	now?: Date;
 };
 
+export type ProductPricingContext = {
+	productId?: string | null;
+	name?: string | null;
+	categoryId?: string | null;
+	categoryName?: string | null;
+	subcategoryName?: string | null;
+	brand?: string | null;
+	promoTag?: string | null;
+	inventoryAgeDays?: number | null;
+	costChangePct?: number | null;
+	now?: Date;
+};
+
+type ConditionInputs = {
+	inventoryAges: number[];
+	costChanges: number[];
+	promoTag?: string | null;
+};
+
 export function parseRuleConditions(
 	value: unknown,
 ): PriceRuleConditions | null {
@@ -63,11 +83,299 @@ export function ruleMatchesCombo(
 		return false;
 	}
 
+	if (!isRuleLive(rule, context.now ?? new Date())) {
+		return false;
+	}
+
+	if (!matchesScope(rule, context)) {
+		return false;
+	}
+
+	return conditionsMatch(rule, context);
+}
+
+export function ruleMatchesProduct(
+	rule: PriceRule,
+	context: ProductPricingContext,
+): boolean {
+	if (!rule) return false;
+
+	if ((rule.target ?? "product") !== "product") {
+		return false;
+	}
+
+	if (!isRuleLive(rule, context.now ?? new Date())) {
+		return false;
+	}
+
+	if (!matchesProductScope(rule, context)) {
+		return false;
+	}
+
+	return conditionsMatch(rule, productConditionInputs(context));
+}
+
+export function selectBestRule(
+	rules: PriceRule[],
+	context: ComboPricingContext,
+): PriceRule | null {
+	return (
+		sortRulesByPriority(rules).find((rule) =>
+			ruleMatchesCombo(rule, context),
+		) ?? null
+	);
+}
+
+export function selectBestProductRule(
+	rules: PriceRule[],
+	context: ProductPricingContext,
+): PriceRule | null {
+	return (
+		sortRulesByPriority(rules).find((rule) =>
+			ruleMatchesProduct(rule, context),
+		) ?? null
+	);
+}
+
+export type RuleCheckKey =
+	| "target"
+	| "active"
+	| "window"
+	| "scope"
+	| "inventoryAge"
+	| "costChange"
+	| "promo";
+
+export type RuleCheck = {
+	key: RuleCheckKey;
+	passed: boolean;
+	/** Human-readable summary of what was required and what was found. */
+	detail: string;
+	/** Metric values the check was evaluated against, when it uses any. */
+	values?: number[];
+};
+
+export type RuleExplanation = {
+	rule: PriceRule;
+	matched: boolean;
+	checks: RuleCheck[];
+};
+
+/**
+ * Step-by-step version of `ruleMatchesCombo`: every check is reported, not
+ * just the first failure, so a rule can be debugged in one look.
+ */
+export function explainComboRule(
+	rule: PriceRule,
+	context: ComboPricingContext,
+): RuleExplanation {
+	const categories = context.categories
+		.map((category) => category.name ?? category.id)
+		.filter(Boolean)
+		.join(", ");
+
+	return explainRule(
+		rule,
+		"combo",
+		context.now ?? new Date(),
+		{
+			passed: matchesScope(rule, context),
+			found:
+				(rule.scope ?? "global") === "promo"
+					? `promo del combo: ${context.promoTag || "ninguna"}`
+					: `categorías del combo: ${categories || "ninguna"}`,
+		},
+		context,
+	);
+}
+
+/** Step-by-step version of `ruleMatchesProduct`. */
+export function explainProductRule(
+	rule: PriceRule,
+	context: ProductPricingContext,
+): RuleExplanation {
+	const scope = rule.scope ?? "global";
+	const found =
+		scope === "brand"
+			? `marca: ${context.brand || "ninguna"}`
+			: scope === "product"
+				? `producto: ${context.name || context.productId || "—"}`
+				: scope === "promo"
+					? `promo del producto: ${context.promoTag || "ninguna"}`
+					: `categoría: ${
+							[context.categoryName, context.subcategoryName]
+								.filter(Boolean)
+								.join(" / ") || "ninguna"
+						}`;
+
+	return explainRule(
+		rule,
+		"product",
+		context.now ?? new Date(),
+		{ passed: matchesProductScope(rule, context), found },
+		productConditionInputs(context),
+	);
+}
+
+function productConditionInputs(
+	context: ProductPricingContext,
+): ConditionInputs {
+	return {
+		inventoryAges:
+			typeof context.inventoryAgeDays === "number"
+				? [context.inventoryAgeDays]
+				: [],
+		costChanges:
+			typeof context.costChangePct === "number"
+				? [context.costChangePct]
+				: [],
+		promoTag: context.promoTag,
+	};
+}
+
+const SCOPE_NAMES: Record<string, string> = {
+	category: "categoría",
+	brand: "marca",
+	product: "producto",
+	promo: "promoción",
+	combo: "combo",
+};
+
+function explainRule(
+	rule: PriceRule,
+	target: "product" | "combo",
+	now: Date,
+	scopeResult: { passed: boolean; found: string },
+	inputs: ConditionInputs,
+): RuleExplanation {
+	const checks: RuleCheck[] = [];
+
+	if ((rule.target ?? "product") !== target) {
+		checks.push({
+			key: "target",
+			passed: false,
+			detail:
+				rule.target === "combo"
+					? "La regla es para combos"
+					: "La regla es para productos",
+		});
+	}
+
+	checks.push({
+		key: "active",
+		passed: rule.active !== false,
+		detail: rule.active === false ? "Regla desactivada" : "Regla activa",
+	});
+
+	const startsAt = rule.starts_at ? new Date(rule.starts_at) : null;
+	const endsAt = rule.ends_at ? new Date(rule.ends_at) : null;
+	checks.push({
+		key: "window",
+		passed: !(startsAt && startsAt > now) && !(endsAt && endsAt < now),
+		detail:
+			startsAt || endsAt
+				? `Vigencia ${startsAt ? formatDay(startsAt) : "…"} – ${
+						endsAt ? formatDay(endsAt) : "…"
+					}; hoy ${formatDay(now)}`
+				: "Sin fechas de vigencia",
+	});
+
+	const scope = rule.scope ?? "global";
+	checks.push({
+		key: "scope",
+		passed: scopeResult.passed,
+		detail:
+			scope === "global"
+				? "Alcance global"
+				: `Alcance por ${SCOPE_NAMES[scope] ?? scope} “${
+						rule.scope_ref ?? ""
+					}”; ${scopeResult.found}`,
+	});
+
+	const conditions = parseRuleConditions(rule.conditions ?? null);
+
+	if (conditions?.inventoryAge) {
+		const { minDays, maxDays, strategy } = conditions.inventoryAge;
+		checks.push({
+			key: "inventoryAge",
+			passed: inventoryAgeConditionMatches(
+				conditions.inventoryAge,
+				inputs.inventoryAges,
+			),
+			detail: `Antigüedad ${describeRange(minDays, maxDays, "días")} (${
+				strategy === "all" ? "todos" : "al menos uno"
+			})`,
+			values: inputs.inventoryAges,
+		});
+	}
+
+	if (conditions?.costChange) {
+		const { direction, thresholdPct, strategy } = conditions.costChange;
+		const label =
+			direction === "increase"
+				? "Costo subió"
+				: direction === "decrease"
+					? "Costo bajó"
+					: "Costo cambió";
+		checks.push({
+			key: "costChange",
+			passed: costChangeConditionMatches(
+				conditions.costChange,
+				inputs.costChanges,
+			),
+			detail: `${label}${thresholdPct ? ` ≥ ${thresholdPct} %` : ""} (${
+				strategy === "all" ? "todos" : "al menos uno"
+			})`,
+			values: inputs.costChanges,
+		});
+	}
+
+	if (conditions?.promo) {
+		checks.push({
+			key: "promo",
+			passed: promoConditionMatches(conditions.promo, inputs.promoTag),
+			detail: `Promo “${conditions.promo.tag ?? ""}”; encontrada: ${
+				inputs.promoTag || "ninguna"
+			}`,
+		});
+	}
+
+	return { rule, matched: checks.every((check) => check.passed), checks };
+}
+
+function formatDay(date: Date) {
+	return date.toISOString().slice(0, 10);
+}
+
+function describeRange(
+	min: number | null | undefined,
+	max: number | null | undefined,
+	unit: string,
+) {
+	if (min != null && max != null) return `${min}–${max} ${unit}`;
+	if (min != null) return `≥ ${min} ${unit}`;
+	return `≤ ${max} ${unit}`;
+}
+
+function sortRulesByPriority(rules: PriceRule[]): PriceRule[] {
+	return [...rules].sort((a, b) => {
+		const priorityA = a.priority ?? 100;
+		const priorityB = b.priority ?? 100;
+		if (priorityA !== priorityB) {
+			return priorityA - priorityB;
+		}
+
+		const idA = a.id ?? Number.MAX_SAFE_INTEGER;
+		const idB = b.id ?? Number.MAX_SAFE_INTEGER;
+		return idA - idB;
+	});
+}
+
+function isRuleLive(rule: PriceRule, now: Date): boolean {
 	if (rule.active === false) {
 		return false;
 	}
 
-	const now = context.now ?? new Date();
 	if (rule.starts_at && new Date(rule.starts_at) > now) {
 		return false;
 	}
@@ -76,10 +384,10 @@ export function ruleMatchesCombo(
 		return false;
 	}
 
-	if (!matchesScope(rule, context)) {
-		return false;
-	}
+	return true;
+}
 
+function conditionsMatch(rule: PriceRule, inputs: ConditionInputs): boolean {
 	const conditions = parseRuleConditions(rule.conditions ?? null);
 	if (!conditions) {
 		return true;
@@ -87,24 +395,21 @@ export function ruleMatchesCombo(
 
 	if (
 		conditions.inventoryAge &&
-		!inventoryAgeConditionMatches(
-			conditions.inventoryAge,
-			context.inventoryAges,
-		)
+		!inventoryAgeConditionMatches(conditions.inventoryAge, inputs.inventoryAges)
 	) {
 		return false;
 	}
 
 	if (
 		conditions.costChange &&
-		!costChangeConditionMatches(conditions.costChange, context.costChanges)
+		!costChangeConditionMatches(conditions.costChange, inputs.costChanges)
 	) {
 		return false;
 	}
 
 	if (
 		conditions.promo &&
-		!promoConditionMatches(conditions.promo, context.promoTag)
+		!promoConditionMatches(conditions.promo, inputs.promoTag)
 	) {
 		return false;
 	}
@@ -112,31 +417,6 @@ export function ruleMatchesCombo(
 	return true;
 }
 
-export function selectBestRule(
-	rules: PriceRule[],
-	context: ComboPricingContext,
-): PriceRule | null {
-	const ordered = [...rules].sort((a, b) => {
-		const priorityA = a.priority ?? 100;
-		const priorityB = b.priority ?? 100;
-		if (priorityA !== priorityB) {
-			return priorityA - priorityB;
-		}
-
-		const idA = a.id ?? Number.MAX_SAFE_INTEGER;
-		const idB = b.id ?? Number.MAX_SAFE_INTEGER;
-		return idA - idB;
-	});
-
-	for (const rule of ordered) {
-		if (ruleMatchesCombo(rule, context)) {
-			return rule;
-		}
-	}
-
-	return null;
-}
-
 function matchesScope(rule: PriceRule, context: ComboPricingContext): boolean {
 	const scope = rule.scope ?? "global";
 	const reference = (rule.scope_ref ?? "").toLowerCase();
@@ -165,60 +445,92 @@ function matchesScope(rule: PriceRule, context: ComboPricingContext): boolean {
 	}
 }
 
-function inventoryAgeConditionMatches(
-	condition: NonNullable<PriceRuleConditions["inventoryAge"]>,
-	inventoryAges: number[],
+function matchesProductScope(
+	rule: PriceRule,
+	context: ProductPricingContext,
 ): boolean {
-	if (!inventoryAges.length) {
-		return false;
-	}
-
-	const minDays = condition?.minDays ?? null;
-	const maxDays = condition?.maxDays ?? null;
-	const minAge = Math.min(...inventoryAges);
-	const maxAge = Math.max(...inventoryAges);
+	const scope = rule.scope ?? "global";
+	const reference = (rule.scope_ref ?? "").trim().toLowerCase();
 
-	if (minDays !== null && minDays !== undefined && maxAge < minDays) {
-		return false;
+	switch (scope) {
+		case "global":
+			return true;
+		case "category": {
+			// Subcategories only match by name: their ids share a range with
+			// category ids.
+			if (!reference) return false;
+			return (
+				(context.categoryId ?? "").toLowerCase() === reference ||
+				(context.categoryName ?? "").trim().toLowerCase() === reference ||
+				(context.subcategoryName ?? "").trim().toLowerCase() === reference
+			);
+		}
+		case "brand": {
+			if (!reference) return false;
+			return (context.brand ?? "").trim().toLowerCase() === reference;
+		}
+		case "promo": {
+			if (!reference) return false;
+			return (context.promoTag ?? "").trim().toLowerCase() === reference;
+		}
+		case "product": {
+			if (!reference) return false;
+			return (
+				(context.productId ?? "").toLowerCase() === reference ||
+				(context.name ?? "").trim().toLowerCase() === reference
+			);
+		}
+		default:
+			return false;
 	}
+}
 
-	if (maxDays !== null && maxDays !== undefined && minAge > maxDays) {
+function matchesWithStrategy(
+	values: number[],
+	strategy: ConditionStrategy | undefined,
+	predicate: (value: number) => boolean,
+): boolean {
+	if (!values.length) {
 		return false;
 	}
 
-	return true;
+	return strategy === "all" ? values.every(predicate) : values.some(predicate);
 }
 
-function costChangeConditionMatches(
-	condition: CostChangeCondition,
-	costChanges: number[],
+function inventoryAgeConditionMatches(
+	condition: NonNullable<PriceRuleConditions["inventoryAge"]>,
+	inventoryAges: number[],
 ): boolean {
-	if (!costChanges.length) {
-		return false;
-	}
-
-	const direction: CostChangeDirection = condition.direction ?? "any";
-	const threshold = condition.thresholdPct ?? 0;
-	const increases = costChanges.filter((value) => value !== null && value >= 0);
-	const decreases = costChanges.filter((value) => value !== null && value < 0);
-	const maxIncrease = increases.length ? Math.max(...increases) : null;
-	const maxDecrease = decreases.length ? Math.min(...decreases) : null; // most negative
+	const minDays = condition.minDays ?? null;
+	const maxDays = condition.maxDays ?? null;
 
-	if (threshold <= 0) {
+	if (minDays === null && maxDays === null) {
 		return true;
 	}
 
-	if (direction === "increase") {
-		return maxIncrease !== null && maxIncrease >= threshold;
-	}
-
-	if (direction === "decrease") {
-		return maxDecrease !== null && Math.abs(maxDecrease) >= threshold;
-	}
+	return matchesWithStrategy(
+		inventoryAges,
+		condition.strategy,
+		(age) =>
+			(minDays === null || age >= minDays) &&
+			(maxDays === null || age <= maxDays),
+	);
+}
 
-	const absIncrease = maxIncrease ?? 0;
-	const absDecrease = maxDecrease !== null ? Math.abs(maxDecrease) : 0;
-	return Math.max(absIncrease, absDecrease) >= threshold;
+function costChangeConditionMatches(
+	condition: CostChangeCondition,
+	costChanges: number[],
+): boolean {
+	const direction: CostChangeDirection = condition.direction ?? "any";
+	const threshold = Math.max(condition.thresholdPct ?? 0, 0);
+
+	// Without a threshold the direction alone decides: any non-zero move in
+	// the requested direction qualifies.
+	return matchesWithStrategy(costChanges, condition.strategy, (change) => {
+		if (direction === "increase" && change <= 0) return false;
+		if (direction === "decrease" && change >= 0) return false;
+		return change !== 0 && Math.abs(change) >= threshold;
+	});
 }
 
 function promoConditionMatches(
@@ -242,10 +554,11 @@ function normalizeInventoryAge(value: unknown) {
 	const minDays = toNumberOrNull(record.minDays);
 	const maxDays = toNumberOrNull(record.maxDays);
 	const strategy = isValidStrategy(record.strategy)
-		? (record.strategy as "any" | "all")
+		? record.strategy
 		: undefined;
 
-	if (minDays === null && maxDays === null && !strategy) {
+	// A strategy alone does not restrict anything.
+	if (minDays === null && maxDays === null) {
 		return null;
 	}
 
@@ -262,12 +575,15 @@ function normalizeCostChange(value: unknown): CostChangeCondition | null {
 		? (record.direction as CostChangeDirection)
 		: undefined;
 	const thresholdPct = toNumberOrNull(record.thresholdPct);
+	const strategy = isValidStrategy(record.strategy)
+		? record.strategy
+		: undefined;
 
 	if (!direction && thresholdPct === null) {
 		return null;
 	}
 
-	return { direction, thresholdPct };
+	return { direction, thresholdPct, strategy };
 }
 
 function normalizePromo(value: unknown) {
@@ -294,7 +610,7 @@ function toNumberOrNull(value: unknown): number | null {
 	return Number.isFinite(parsed) ? parsed : null;
 }
 
-function isValidStrategy(value: unknown): value is "any" | "all" {
+function isValidStrategy(value: unknown): value is ConditionStrategy {
 	return value === "any" || value === "all";
 }
 
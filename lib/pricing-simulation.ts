@@ -0,0 +1,104 @@
+import type { PriceRule, PriceRuleTarget } from "@/lib/pricing";
+import {
+	buildComboPricingContext,
+	buildProductPricingContext,
+	loadPriceRules,
+	loadPricingCatalog,
+	type PricingCatalog,
+} from "@/lib/pricing-catalog";
+import {
+	explainComboRule,
+	explainProductRule,
+	selectBestProductRule,
+	selectBestRule,
+	type RuleExplanation,
+} from "@/lib/pricing-rules";
+import type { AnySupabaseClient } from "@/lib/supabase-admin";
+
+export type PricingSimulationInput = { productId: string } | { comboId: string };
+
+export type PricingSimulationMetric = {
+	productId: string;
+	name: string;
+	inventoryAgeDays: number | null;
+	costChangePct: number | null;
+};
+
+export type PricingSimulation = {
+	target: PriceRuleTarget;
+	subject: { id: string; name: string };
+	/** Values from `product_pricing_metrics` for the product or each component. */
+	metrics: PricingSimulationMetric[];
+	/** Every rule for the target, in evaluation order, with each check. */
+	candidates: RuleExplanation[];
+	/** Rule the matchers pick, i.e. the first candidate that matched. */
+	selectedRuleId: number | null;
+};
+
+/**
+ * Explains which pricing rule applies to a product or combo and why the
+ * others do not. Returns null when the item doesn't exist or is archived.
+ */
+export async function simulatePricing(
+	client: AnySupabaseClient,
+	input: PricingSimulationInput,
+	now = new Date(),
+): Promise<PricingSimulation | null> {
+	const [catalog, rules] = await Promise.all([
+		loadPricingCatalog(client),
+		loadPriceRules(client, "comboId" in input ? "combo" : "product"),
+	]);
+
+	return explainPricing(input, catalog, rules, now);
+}
+
+/**
+ * Evaluates `rules`, given in evaluation order (priority, then id), against
+ * one item of the catalog.
+ */
+export function explainPricing(
+	input: PricingSimulationInput,
+	catalog: PricingCatalog,
+	rules: PriceRule[],
+	now = new Date(),
+): PricingSimulation | null {
+	const target: PriceRuleTarget = "comboId" in input ? "combo" : "product";
+	const productsById = new Map(
+		catalog.products.map((product) => [product.id, product]),
+	);
+	const describeMetric = (productId: string): PricingSimulationMetric => {
+		const metric = catalog.metrics.get(productId);
+		return {
+			productId,
+			name: productsById.get(productId)?.name ?? "Producto",
+			inventoryAgeDays: metric?.inventoryAgeDays ?? null,
+			costChangePct: metric?.costChangePct ?? null,
+		};
+	};
+
+	if ("comboId" in input) {
+		const combo = catalog.combos.find((item) => item.id === input.comboId);
+		if (!combo) return null;
+
+		const context = buildComboPricingContext(combo, catalog, now);
+		return {
+			target,
+			subject: { id: combo.id, name: combo.name },
+			metrics: combo.productIds.map(describeMetric),
+			candidates: rules.map((rule) => explainComboRule(rule, context)),
+			selectedRuleId: selectBestRule(rules, context)?.id ?? null,
+		};
+	}
+
+	const product = productsById.get(input.productId);
+	if (!product) return null;
+
+	const context = buildProductPricingContext(product, catalog, now);
+	return {
+		target,
+		subject: { id: product.id, name: product.name },
+		metrics: [describeMetric(product.id)],
+		candidates: rules.map((rule) => explainProductRule(rule, context)),
+		selectedRuleId: selectBestProductRule(rules, context)?.id ?? null,
+	};
+}
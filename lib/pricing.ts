@@ -22,10 +22,17 @@ export type PriceRuleScope =
 	| "promo"
 	| "combo";
 
+/**
+ * How a condition evaluates several inputs (one per combo component): "any"
+ * needs at least one to qualify, "all" needs every one. Products only ever
+ * supply a single input, so both behave the same there.
+ */
+export type ConditionStrategy = "any" | "all";
+
 export type InventoryAgeCondition = {
 	minDays?: number | null;
 	maxDays?: number | null;
-	strategy?: "any" | "all";
+	strategy?: ConditionStrategy;
 };
 
 export type CostChangeDirection = "increase" | "decrease" | "any";
@@ -33,6 +40,7 @@ export type CostChangeDirection = "increase" | "decrease" | "any";
 export type CostChangeCondition = {
 	direction?: CostChangeDirection | null;
 	thresholdPct?: number | null;
+	strategy?: ConditionStrategy;
 };
 
 export type PromoCondition = {
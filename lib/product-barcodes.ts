@@ -0,0 +1,160 @@
+import type { AnySupabaseClient } from "@/lib/supabase-admin";
+
+export const BARCODE_PATTERN = /^[A-Z0-9.-]{4,64}$/;
+
+type BarcodeRow = {
+	code: string;
+	product_id: string;
+	products: { name: string } | null;
+};
+
+export type BarcodeConflict = {
+	code: string;
+	productId: string;
+	productName: string;
+};
+
+/** Raised when a submitted code already belongs to another product. */
+export class BarcodeConflictError extends Error {
+	constructor(public readonly conflicts: BarcodeConflict[]) {
+		super(
+			conflicts
+				.map(
+					(conflict) =>
+						`El código ${conflict.code} ya está asignado a ${conflict.productName}.`,
+				)
+				.join(" "),
+		);
+		this.name = "BarcodeConflictError";
+	}
+}
+
+/**
+ * Scanners and manual entry disagree on case and stray whitespace, so codes
+ * are stored and matched uppercase without spaces.
+ */
+export function normalizeBarcode(value: string) {
+	return value.replace(/\s+/g, "").toUpperCase();
+}
+
+/** Codes typed one per line (or separated by commas), deduplicated. */
+export function parseBarcodeList(value: string | null | undefined): string[] {
+	if (!value) return [];
+
+	const codes = value
+		.split(/[\n,;]+/)
+		.map(normalizeBarcode)
+		.filter((code) => code.length > 0);
+
+	return Array.from(new Set(codes));
+}
+
+type ScannableItem = {
+	sku: string | null;
+	barcodes: string[];
+};
+
+/**
+ * Exact-match index for scan-to-add. Barcodes win over SKUs when both point
+ * at the same code, since SKUs are free text and may collide.
+ */
+export function buildBarcodeIndex<T extends ScannableItem>(
+	items: T[],
+): Map<string, T> {
+	const index = new Map<string, T>();
+
+	for (const item of items) {
+		if (!item.sku) continue;
+		const sku = normalizeBarcode(item.sku);
+		if (sku && !index.has(sku)) {
+			index.set(sku, item);
+		}
+	}
+
+	for (const item of items) {
+		for (const code of item.barcodes) {
+			index.set(normalizeBarcode(code), item);
+		}
+	}
+
+	return index;
+}
+
+export function findByBarcode<T>(
+	index: Map<string, T>,
+	code: string,
+): T | null {
+	const normalized = normalizeBarcode(code);
+	if (!normalized) return null;
+	return index.get(normalized) ?? null;
+}
+
+/**
+ * Fails with BarcodeConflictError when any of `codes` is already used by a
+ * product other than `productId`.
+ */
+export async function assertBarcodesAvailable(
+	client: AnySupabaseClient,
+	codes: string[],
+	productId?: string,
+) {
+	if (codes.length === 0) return;
+
+	let query = client
+		.from("product_barcodes")
+		.select("code, product_id, products(name)")
+		.in("code", codes);
+
+	if (productId) {
+		query = query.neq("product_id", productId);
+	}
+
+	const { data, error } = await query;
+
+	if (error) {
+		throw new Error(error.message);
+	}
+
+	const rows = (data ?? []) as unknown as BarcodeRow[];
+	if (rows.length > 0) {
+		throw new BarcodeConflictError(
+			rows.map((row) => ({
+				code: row.code,
+				productId: row.product_id,
+				productName: row.products?.name ?? "otro producto",
+			})),
+		);
+	}
+}
+
+/** Makes `codes` the full set of barcodes for the product. */
+export async function replaceProductBarcodes(
+	client: AnySupabaseClient,
+	productId: string,
+	codes: string[],
+) {
+	let removal = client
+		.from("product_barcodes")
+		.delete()
+		.eq("product_id", productId);
+
+	if (codes.length > 0) {
+		removal = removal.not("code", "in", `(${codes.join(",")})`);
+	}
+
+	const { error: deleteError } = await removal;
+	if (deleteError) {
+		throw new Error(deleteError.message);
+	}
+
+	if (codes.length === 0) return;
+
+	const { error: insertError } = await client.from("product_barcodes").upsert(
+		codes.map((code) => ({ product_id: productId, code })),
+		{ onConflict: "code", ignoreDuplicates: true },
+	);
+
+	if (insertError) {
+		throw new Error(insertError.message);
+	}
+}
@@ -0,0 +1,388 @@
+import { toCents, type TenderMethod } from "@/lib/payments";
+import type { AnySupabaseClient } from "@/lib/supabase-admin";
+
+export type CashMovementKind = "cash_in" | "cash_out";
+
+export const CASH_MOVEMENT_LABELS: Record<CashMovementKind, string> = {
+	cash_in: "Entrada de efectivo",
+	cash_out: "Salida de efectivo",
+};
+
+export type RegisterSession = {
+	id: string;
+	status: "open" | "closed";
+	openingFloat: number;
+	openingNotes: string | null;
+	openedBy: string | null;
+	openedAt: string;
+	countedCash: number | null;
+	expectedCash: number | null;
+	cashVariance: number | null;
+	closingNotes: string | null;
+	closedBy: string | null;
+	closedAt: string | null;
+};
+
+export type RegisterCashMovement = {
+	id: number;
+	kind: CashMovementKind;
+	amount: number;
+	reason: string;
+	createdAt: string;
+};
+
+export type ZReportOrder = {
+	subtotal: number;
+	/** All discounts; line and promo discounts are the part they make up. */
+	discount: number;
+	lineDiscount?: number;
+	promoDiscount?: number;
+	tax: number;
+	total: number;
+	payments: { method: TenderMethod; amount: number; change: number }[];
+};
+
+export type ZReportRefund = {
+	amount: number;
+	/** Part of the refund given back from the drawer. */
+	cashAmount: number;
+};
+
+export type ZReport = {
+	salesCount: number;
+	grossSales: number;
+	discounts: number;
+	lineDiscounts: number;
+	promoDiscounts: number;
+	taxes: number;
+	netSales: number;
+	byMethod: Record<TenderMethod, { count: number; amount: number }>;
+	changeGiven: number;
+	cashIn: number;
+	cashOut: number;
+	refundsCount: number;
+	refunds: number;
+	cashRefunds: number;
+	openingFloat: number;
+	expectedCash: number;
+	countedCash: number | null;
+	/** Counted minus expected: positive is over, negative is short. */
+	variance: number | null;
+};
+
+type RegisterSessionRow = {
+	id: string;
+	status: "open" | "closed";
+	opening_float: number | string | null;
+	opening_notes: string | null;
+	opened_by: string | null;
+	opened_at: string;
+	counted_cash: number | string | null;
+	expected_cash: number | string | null;
+	cash_variance: number | string | null;
+	closing_notes: string | null;
+	closed_by: string | null;
+	closed_at: string | null;
+};
+
+type CashMovementRow = {
+	id: number;
+	kind: CashMovementKind;
+	amount: number | string | null;
+	reason: string;
+	created_at: string;
+};
+
+type SessionOrderRow = {
+	subtotal_amount: number | string | null;
+	discount_amount: number | string | null;
+	line_discount_amount: number | string | null;
+	promo_discount_amount: number | string | null;
+	tax_amount: number | string | null;
+	total_amount: number | string | null;
+	order_payments: Array<{
+		method: TenderMethod;
+		amount: number | string | null;
+		change_amount: number | string | null;
+	}> | null;
+};
+
+type SessionRefundRow = {
+	amount: number | string | null;
+	cash_amount: number | string | null;
+};
+
+const REGISTER_SESSION_COLUMNS =
+	"id, status, opening_float, opening_notes, opened_by, opened_at, counted_cash, expected_cash, cash_variance, closing_notes, closed_by, closed_at";
+
+function toNumber(value: number | string | null): number {
+	const parsed = Number(value ?? 0);
+	return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function toNullableNumber(value: number | string | null): number | null {
+	return value === null ? null : toNumber(value);
+}
+
+function mapRegisterSession(row: RegisterSessionRow): RegisterSession {
+	return {
+		id: row.id,
+		status: row.status,
+		openingFloat: toNumber(row.opening_float),
+		openingNotes: row.opening_notes,
+		openedBy: row.opened_by,
+		openedAt: row.opened_at,
+		countedCash: toNullableNumber(row.counted_cash),
+		expectedCash: toNullableNumber(row.expected_cash),
+		cashVariance: toNullableNumber(row.cash_variance),
+		closingNotes: row.closing_notes,
+		closedBy: row.closed_by,
+		closedAt: row.closed_at,
+	};
+}
+
+function fromCents(cents: number) {
+	return cents / 100;
+}
+
+/**
+ * End-of-shift totals. Expected cash follows `register_expected_cash`: float
+ * plus cash tenders and cash in, minus cash out and the cash share of the
+ * refunds the session paid out.
+ */
+export function buildZReport(input: {
+	openingFloat: number;
+	orders: ZReportOrder[];
+	movements: Pick<RegisterCashMovement, "kind" | "amount">[];
+	refunds: ZReportRefund[];
+	countedCash?: number | null;
+}): ZReport {
+	const byMethod: Record<TenderMethod, { count: number; cents: number }> = {
+		cash: { count: 0, cents: 0 },
+		card: { count: 0, cents: 0 },
+		transfer: { count: 0, cents: 0 },
+	};
+	let grossCents = 0;
+	let discountCents = 0;
+	let lineDiscountCents = 0;
+	let promoDiscountCents = 0;
+	let taxCents = 0;
+	let netCents = 0;
+	let changeCents = 0;
+
+	for (const order of input.orders) {
+		grossCents += toCents(order.subtotal);
+		discountCents += toCents(order.discount);
+		lineDiscountCents += toCents(order.lineDiscount ?? 0);
+		promoDiscountCents += toCents(order.promoDiscount ?? 0);
+		taxCents += toCents(order.tax);
+		netCents += toCents(order.total);
+		for (const payment of order.payments) {
+			const bucket = byMethod[payment.method];
+			if (!bucket) continue;
+			bucket.count += 1;
+			bucket.cents += toCents(payment.amount);
+			changeCents += toCents(payment.change);
+		}
+	}
+
+	const cashInCents = input.movements
+		.filter((movement) => movement.kind === "cash_in")
+		.reduce((sum, movement) => sum + toCents(movement.amount), 0);
+	const cashOutCents = input.movements
+		.filter((movement) => movement.kind === "cash_out")
+		.reduce((sum, movement) => sum + toCents(movement.amount), 0);
+	const refundCents = input.refunds.reduce(
+		(sum, refund) => sum + toCents(refund.amount),
+		0,
+	);
+	const cashRefundCents = input.refunds.reduce(
+		(sum, refund) => sum + toCents(refund.cashAmount),
+		0,
+	);
+
+	const expectedCents =
+		toCents(input.openingFloat) +
+		byMethod.cash.cents +
+		cashInCents -
+		cashOutCents -
+		cashRefundCents;
+	const countedCash =
+		input.countedCash === undefined || input.countedCash === null
+			? null
+			: input.countedCash;
+
+	return {
+		salesCount: input.orders.length,
+		grossSales: fromCents(grossCents),
+		discounts: fromCents(discountCents),
+		lineDiscounts: fromCents(lineDiscountCents),
+		promoDiscounts: fromCents(promoDiscountCents),
+		taxes: fromCents(taxCents),
+		netSales: fromCents(netCents),
+		byMethod: {
+			cash: {
+				count: byMethod.cash.count,
+				amount: fromCents(byMethod.cash.cents),
+			},
+			card: {
+				count: byMethod.card.count,
+				amount: fromCents(byMethod.card.cents),
+			},
+			transfer: {
+				count: byMethod.transfer.count,
+				amount: fromCents(byMethod.transfer.cents),
+			},
+		},
+		changeGiven: fromCents(changeCents),
+		cashIn: fromCents(cashInCents),
+		cashOut: fromCents(cashOutCents),
+		refundsCount: input.refunds.length,
+		refunds: fromCents(refundCents),
+		cashRefunds: fromCents(cashRefundCents),
+		openingFloat: input.openingFloat,
+		expectedCash: fromCents(expectedCents),
+		countedCash,
+		variance:
+			countedCash === null
+				? null
+				: fromCents(toCents(countedCash) - expectedCents),
+	};
+}
+
+export async function fetchOpenRegisterSession(
+	client: AnySupabaseClient,
+): Promise<RegisterSession | null> {
+	const { data, error } = await client
+		.from("register_sessions")
+		.select(REGISTER_SESSION_COLUMNS)
+		.eq("status", "open")
+		.maybeSingle();
+
+	if (error) {
+		throw new Error(error.message);
+	}
+
+	return data ? mapRegisterSession(data as RegisterSessionRow) : null;
+}
+
+export async function listRegisterSessions(
+	client: AnySupabaseClient,
+	options: { limit?: number } = {},
+): Promise<RegisterSession[]> {
+	const { data, error } = await client
+		.from("register_sessions")
+		.select(REGISTER_SESSION_COLUMNS)
+		.order("opened_at", { ascending: false })
+		.limit(options.limit ?? 30);
+
+	if (error) {
+		throw new Error(error.message);
+	}
+
+	return ((data ?? []) as RegisterSessionRow[]).map(mapRegisterSession);
+}
+
+/**
+ * Session, cash movements and Z-report. Refunds count in the session that
+ * paid them out, whichever shift made the sale, so the client must be allowed
+ * to read `order_refunds`.
+ */
+export async function fetchRegisterSessionReport(
+	client: AnySupabaseClient,
+	sessionId: string,
+): Promise<{
+	session: RegisterSession;
+	movements: RegisterCashMovement[];
+	report: ZReport;
+} | null> {
+	const { data: sessionRow, error: sessionError } = await client
+		.from("register_sessions")
+		.select(REGISTER_SESSION_COLUMNS)
+		.eq("id", sessionId)
+		.maybeSingle();
+
+	if (sessionError) {
+		throw new Error(sessionError.message);
+	}
+	if (!sessionRow) {
+		return null;
+	}
+
+	const session = mapRegisterSession(sessionRow as RegisterSessionRow);
+
+	const [ordersResponse, movementsResponse, refundsResponse] =
+		await Promise.all([
+			client
+				.from("orders")
+				.select(
+					"subtotal_amount, discount_amount, line_discount_amount, promo_discount_amount, tax_amount, total_amount, order_payments(method, amount, change_amount)",
+				)
+				.eq("register_session_id", session.id),
+			client
+				.from("register_cash_movements")
+				.select("id, kind, amount, reason, created_at")
+				.eq("session_id", session.id)
+				.order("created_at", { ascending: true }),
+			client
+				.from("order_refunds")
+				.select("amount, cash_amount")
+				.eq("register_session_id", session.id),
+		]);
+
+	const failed = [ordersResponse, movementsResponse, refundsResponse].find(
+		(response) => response.error,
+	);
+	if (failed?.error) {
+		throw new Error(failed.error.message);
+	}
+
+	const movements = (
+		(movementsResponse.data ?? []) as CashMovementRow[]
+	).map((row) => ({
+		id: row.id,
+		kind: row.kind,
+		amount: toNumber(row.amount),
+		reason: row.reason,
+		createdAt: row.created_at,
+	}));
+
+	const orders = ((ordersResponse.data ?? []) as SessionOrderRow[]).map(
+		(row) => ({
+			subtotal: toNumber(row.subtotal_amount),
+			discount: toNumber(row.discount_amount),
+			lineDiscount: toNumber(row.line_discount_amount),
+			promoDiscount: toNumber(row.promo_discount_amount),
+			tax: toNumber(row.tax_amount),
+			total: toNumber(row.total_amount),
+			payments: (row.order_payments ?? []).map((payment) => ({
+				method: payment.method,
+				amount: toNumber(payment.amount),
+				change: toNumber(payment.change_amount),
+			})),
+		}),
+	);
+
+	const refunds = ((refundsResponse.data ?? []) as SessionRefundRow[]).map(
+		(row) => ({
+			amount: toNumber(row.amount),
+			cashAmount: toNumber(row.cash_amount),
+		}),
+	);
+
+	const report = buildZReport({
+		openingFloat: session.openingFloat,
+		orders,
+		movements,
+		refunds,
+		countedCash: session.countedCash,
+	});
+
+	// Closed sessions keep the expected cash stored at close time.
+	if (session.status === "closed" && session.expectedCash !== null) {
+		report.expectedCash = session.expectedCash;
+		report.variance = session.cashVariance;
+	}
+
+	return { session, movements, report };
+}
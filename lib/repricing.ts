@@ -0,0 +1,294 @@
+import { recommendPrice, type PriceRule } from "@/lib/pricing";
+import {
+	embeddedName,
+	loadActivePriceRules,
+	loadProductPricingMetrics,
+	readProductMetaTags,
+} from "@/lib/pricing-catalog";
+import { selectBestProductRule } from "@/lib/pricing-rules";
+import type { RepricingFilters } from "@/lib/schemas";
+import type { AnySupabaseClient } from "@/lib/supabase-admin";
+
+export type RepricingRow = {
+	productId: string;
+	name: string;
+	sku: string | null;
+	categoryName: string | null;
+	brand: string | null;
+	currency: string;
+	costPrice: number;
+	currentPrice: number | null;
+	suggestedPrice: number;
+	/** Markup over cost, in percent, matching the +40 % tiers. */
+	currentMarginPct: number | null;
+	suggestedMarginPct: number;
+	ruleId: number | null;
+	ruleName: string | null;
+};
+
+/** Product fields a repricing row is priced from. */
+export type RepricingProduct = Pick<
+	RepricingRow,
+	| "productId"
+	| "name"
+	| "sku"
+	| "categoryName"
+	| "brand"
+	| "currency"
+	| "costPrice"
+	| "currentPrice"
+>;
+
+export type RepricingRun = {
+	id: number;
+	filters: Partial<RepricingFilters>;
+	itemCount: number;
+	createdBy: string | null;
+	createdAt: string;
+	rolledBackAt: string | null;
+	/** Items a rollback would restore right now; see `planRepricingRollback`. */
+	restorableCount: number;
+};
+
+export type RepricingRunItem = {
+	productId: string;
+	previousPrice: number | null;
+	newPrice: number;
+	/** Sell price the product has today. */
+	currentPrice: number | null;
+};
+
+export type RepricingRollbackPlan = {
+	restore: Array<{ productId: string; price: number | null }>;
+	/** Products repriced again after the run, which a rollback leaves alone. */
+	skipped: string[];
+};
+
+type ProductRow = {
+	id: string;
+	name: string;
+	sku: string | null;
+	category_id: number | string | null;
+	cost_price: number | string | null;
+	sell_price: number | string | null;
+	currency: string | null;
+	meta: Record<string, unknown> | null;
+	// Many-to-one embeds come back as an object, but the generated typings
+	// describe them as arrays.
+	categories: { name: string | null } | Array<{ name: string | null }> | null;
+	subcategories:
+		| { name: string | null }
+		| Array<{ name: string | null }>
+		| null;
+};
+
+type RunRow = {
+	id: number;
+	filters: Partial<RepricingFilters> | null;
+	item_count: number | null;
+	created_by: string | null;
+	created_at: string;
+	rolled_back_at: string | null;
+	repricing_run_items: RunItemRow[] | null;
+};
+
+type RunItemRow = {
+	product_id: string;
+	previous_price: number | string | null;
+	new_price: number | string;
+	products:
+		| { sell_price: number | string | null }
+		| Array<{ sell_price: number | string | null }>
+		| null;
+};
+
+function toNullableNumber(value: number | string | null | undefined) {
+	if (value === null || value === undefined) return null;
+	const parsed = Number(value);
+	return Number.isFinite(parsed) ? parsed : null;
+}
+
+function markupPct(price: number, cost: number) {
+	return Math.round(((price - cost) / cost) * 1000) / 10;
+}
+
+/**
+ * Prices one product with the rule picked for it. The suggestion goes through
+ * the same pretty-price rounding as the product form, and both markups are
+ * rounded to one decimal.
+ */
+export function priceRepricingRow(
+	product: RepricingProduct,
+	rule: PriceRule | null,
+): RepricingRow {
+	const { costPrice, currentPrice } = product;
+	const recommendation = recommendPrice({
+		costPrice,
+		categoryName: product.categoryName,
+		brand: product.brand,
+		rule,
+	});
+
+	return {
+		...product,
+		suggestedPrice: recommendation.suggested,
+		currentMarginPct:
+			currentPrice === null ? null : markupPct(currentPrice, costPrice),
+		suggestedMarginPct: markupPct(recommendation.suggested, costPrice),
+		ruleId: rule?.id ?? null,
+		ruleName: rule?.name ?? null,
+	};
+}
+
+/**
+ * Suggested sell price for every product in the filtered set, using the same
+ * rule matching as the product form. Products without a cost are skipped
+ * since no price can be derived for them. Pass `productIds` to restrict the
+ * set further, e.g. to the rows selected for a run.
+ */
+export async function buildRepricingPreview(
+	client: AnySupabaseClient,
+	filters: RepricingFilters,
+	productIds?: string[],
+): Promise<RepricingRow[]> {
+	let query = client
+		.from("products")
+		.select(
+			"id, name, sku, category_id, cost_price, sell_price, currency, meta, categories(name), subcategories(name)",
+		)
+		.gt("cost_price", 0)
+		.order("name", { ascending: true });
+
+	query =
+		filters.status === "all"
+			? query.in("status", ["active", "draft"])
+			: query.eq("status", filters.status);
+
+	if (filters.categoryId) {
+		query = query.eq("category_id", Number(filters.categoryId));
+	}
+
+	if (filters.subcategoryId) {
+		query = query.eq("subcategory_id", Number(filters.subcategoryId));
+	}
+
+	if (filters.brand) {
+		query = query.ilike("meta->>brand", filters.brand);
+	}
+
+	if (productIds) {
+		query = query.in("id", productIds);
+	}
+
+	const [productsResponse, rules, metrics] = await Promise.all([
+		query,
+		loadActivePriceRules(client, "product"),
+		loadProductPricingMetrics(client),
+	]);
+
+	if (productsResponse.error) {
+		throw new Error(productsResponse.error.message);
+	}
+
+	const rows: RepricingRow[] = [];
+	for (const product of (productsResponse.data ?? []) as ProductRow[]) {
+		const costPrice = toNullableNumber(product.cost_price);
+		if (!costPrice || costPrice <= 0) continue;
+
+		const categoryName = embeddedName(product.categories);
+		const { brand, promoTag } = readProductMetaTags(product.meta);
+		const metric = metrics.get(product.id);
+		const rule = selectBestProductRule(rules, {
+			productId: product.id,
+			name: product.name,
+			categoryId:
+				product.category_id === null ? null : String(product.category_id),
+			categoryName,
+			subcategoryName: embeddedName(product.subcategories),
+			brand,
+			promoTag,
+			inventoryAgeDays: metric?.inventoryAgeDays,
+			costChangePct: metric?.costChangePct,
+		});
+		rows.push(
+			priceRepricingRow(
+				{
+					productId: product.id,
+					name: product.name,
+					sku: product.sku,
+					categoryName,
+					brand,
+					currency: product.currency ?? "NIO",
+					costPrice,
+					currentPrice: toNullableNumber(product.sell_price),
+				},
+				rule,
+			),
+		);
+	}
+
+	return rows;
+}
+
+/**
+ * Mirrors `rollback_repricing_run`: an item goes back to its previous price
+ * only while the product still carries the price the run wrote.
+ */
+export function planRepricingRollback(
+	items: RepricingRunItem[],
+): RepricingRollbackPlan {
+	const plan: RepricingRollbackPlan = { restore: [], skipped: [] };
+
+	for (const item of items) {
+		if (item.currentPrice === item.newPrice) {
+			plan.restore.push({
+				productId: item.productId,
+				price: item.previousPrice,
+			});
+		} else {
+			plan.skipped.push(item.productId);
+		}
+	}
+
+	return plan;
+}
+
+function toRunItem(row: RunItemRow): RepricingRunItem {
+	const product = Array.isArray(row.products) ? row.products[0] : row.products;
+	return {
+		productId: row.product_id,
+		previousPrice: toNullableNumber(row.previous_price),
+		newPrice: Number(row.new_price),
+		currentPrice: toNullableNumber(product?.sell_price),
+	};
+}
+
+export async function listRepricingRuns(
+	client: AnySupabaseClient,
+	limit = 20,
+): Promise<RepricingRun[]> {
+	const { data, error } = await client
+		.from("repricing_runs")
+		.select(
+			"id, filters, item_count, created_by, created_at, rolled_back_at, repricing_run_items(product_id, previous_price, new_price, products(sell_price))",
+		)
+		.order("created_at", { ascending: false })
+		.limit(limit);
+
+	if (error) {
+		throw new Error(error.message);
+	}
+
+	return ((data ?? []) as RunRow[]).map((row) => ({
+		id: row.id,
+		filters: row.filters ?? {},
+		itemCount: row.item_count ?? 0,
+		createdBy: row.created_by,
+		createdAt: row.created_at,
+		rolledBackAt: row.rolled_back_at,
+		restorableCount: row.rolled_back_at
+			? 0
+			: planRepricingRollback((row.repricing_run_items ?? []).map(toRunItem))
+					.restore.length,
+	}));
+}
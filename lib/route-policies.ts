@@ -0,0 +1,110 @@
+import type { StaffPermission } from "@/lib/staff-roles";
+
+export type RoutePolicy = {
+	/** Path prefix the policy covers, matched on whole segments. */
+	prefix: string;
+	/** Staff permission required, or null when any signed-in user may enter. */
+	permission: StaffPermission | null;
+	/**
+	 * Server actions under the route that need a different permission than
+	 * viewing it, by action name.
+	 */
+	actions?: Readonly<Record<string, StaffPermission>>;
+};
+
+/**
+ * Every back-office route and the permission it needs. Middleware reads this
+ * to turn away signed-out visitors and roles without access before a page or
+ * API route renders, and the dashboard navigation uses it to hide sections.
+ * Server actions can't be checked there, since they post to whatever page the
+ * form is on; each action calls `requireRoutePermission` with its own route
+ * instead, so the form can show the error. The most specific prefix wins.
+ */
+export const ROUTE_POLICIES: readonly RoutePolicy[] = [
+	{ prefix: "/dashboard", permission: "viewDashboard" },
+	{ prefix: "/finance", permission: "viewFinance" },
+	{ prefix: "/settings", permission: "manageSettings" },
+	{ prefix: "/audit", permission: "viewAudit" },
+	{ prefix: "/inventory", permission: "manageInventory" },
+	{ prefix: "/categories", permission: "manageInventory" },
+	{ prefix: "/combos", permission: "manageInventory" },
+	{ prefix: "/pricing", permission: "managePricing" },
+	{ prefix: "/customers", permission: "viewCustomers" },
+	{
+		prefix: "/orders",
+		permission: "viewOrders",
+		actions: { refund: "refundOrders", updateStatus: "manageOrders" },
+	},
+	{ prefix: "/orders/new", permission: "manageOrders" },
+	{ prefix: "/pos", permission: "sellAtPos" },
+	{ prefix: "/no-access", permission: null },
+	{ prefix: "/api/inventory", permission: "manageInventory" },
+	{ prefix: "/api/pricing", permission: "managePricing" },
+];
+
+export const LOGIN_PATH = "/login";
+export const NEXT_PARAM = "next";
+
+function matchesPrefix(pathname: string, prefix: string) {
+	return pathname === prefix || pathname.startsWith(`${prefix}/`);
+}
+
+export function findRoutePolicy(pathname: string): RoutePolicy | null {
+	let match: RoutePolicy | null = null;
+
+	for (const policy of ROUTE_POLICIES) {
+		if (
+			matchesPrefix(pathname, policy.prefix) &&
+			(!match || policy.prefix.length > match.prefix.length)
+		) {
+			match = policy;
+		}
+	}
+
+	return match;
+}
+
+/**
+ * Permission a server action under `path` needs: the action's own entry when
+ * `action` is given, otherwise the route's. Throws for routes or actions the
+ * registry doesn't cover, so an unguarded action fails instead of running.
+ */
+export function findActionPermission(
+	path: string,
+	action?: string,
+): StaffPermission {
+	const policy = findRoutePolicy(path);
+	const permission = action ? policy?.actions?.[action] : policy?.permission;
+
+	if (!permission) {
+		throw new Error(
+			`No route policy covers ${action ? `${path} (${action})` : path}`,
+		);
+	}
+
+	return permission;
+}
+
+export function isApiRoute(pathname: string) {
+	return matchesPrefix(pathname, "/api");
+}
+
+/**
+ * Only same-origin paths survive as a post-login destination, so the `next`
+ * parameter can't be used to bounce users to another site.
+ */
+export function sanitizeNextPath(value: unknown): string | null {
+	if (typeof value !== "string") return null;
+
+	const trimmed = value.trim();
+	if (
+		!trimmed.startsWith("/") ||
+		trimmed.startsWith("//") ||
+		trimmed.startsWith("/\\") ||
+		matchesPrefix(trimmed.split("?")[0], LOGIN_PATH)
+	) {
+		return null;
+	}
+
+	return trimmed;
+}
@@ -1,5 +1,10 @@
 import { z } from "zod";
 
+import { computeLineDiscount, normalizePromoCode } from "@/lib/discounts";
+import { LABEL_LAYOUT_IDS } from "@/lib/labels";
+import { computeSaleTotal, summarizeTenders } from "@/lib/payments";
+import { BARCODE_PATTERN, parseBarcodeList } from "@/lib/product-barcodes";
+
 const BYTES_PER_MEGABYTE = 1024 * 1024;
 export const MAX_PRODUCT_IMAGE_SIZE_MB = 5;
 export const MAX_PRODUCT_IMAGE_BYTES =
@@ -42,22 +47,30 @@ const requiredCategoryId = z
 		message: "Selecciona una categoría válida",
 	});
 
-const optionalPhoneNumber = z
-	.union([z.string(), z.number(), z.null(), z.undefined()])
-	.transform((value) => {
-		if (value === undefined || value === null) {
-			return undefined;
-		}
+/**
+ * Digits-only phone number, or undefined when nothing usable remains. Shared
+ * with customer deduplication so lookups match what forms store.
+ */
+export function normalizePhoneNumber(
+	value: string | number | null | undefined,
+): string | undefined {
+	if (value === undefined || value === null) {
+		return undefined;
+	}
+
+	if (typeof value === "number") {
+		const digits = Math.trunc(value).toString().replace(/\D+/g, "");
+		return digits.length ? digits : undefined;
+	}
 
-		if (typeof value === "number") {
-			const digits = Math.trunc(value).toString().replace(/\D+/g, "");
-			return digits.length ? digits : undefined;
-		}
+	const trimmed = String(value).trim();
+	const digits = trimmed.replace(/\D+/g, "");
+	return digits.length ? digits : undefined;
+}
 
-		const trimmed = String(value).trim();
-		const digits = trimmed.replace(/\D+/g, "");
-		return digits.length ? digits : undefined;
-	})
+const optionalPhoneNumber = z
+	.union([z.string(), z.number(), z.null(), z.undefined()])
+	.transform((value) => normalizePhoneNumber(value))
 	.refine((value) => value === undefined || value.length >= 7, {
 		message: "Ingrese un teléfono válido",
 	});
@@ -182,6 +195,8 @@ const requiredDateTimeString = z
 	);
 
 export const productStatusEnum = z.enum(["active", "draft", "archived"]);
+export const costingMethodEnum = z.enum(["weighted_average", "fifo"]);
+export type CostingMethod = z.infer<typeof costingMethodEnum>;
 
 export const productFormSchema = z.object({
 	name: z
@@ -189,7 +204,16 @@ export const productFormSchema = z.object({
 		.min(1, "El nombre es obligatorio")
 		.max(200, "Máximo 200 caracteres"),
 	brand: optionalTrimmedString,
+	promoTag: optionalTrimmedString,
 	sku: optionalTrimmedString,
+	barcodes: optionalTrimmedString.refine(
+		(value) =>
+			parseBarcodeList(value).every((code) => BARCODE_PATTERN.test(code)),
+		{
+			message:
+				"Cada código de barras debe tener entre 4 y 64 letras, números, puntos o guiones.",
+		},
+	),
 	description: optionalTrimmedString,
 	categoryId: optionalTrimmedString,
 	newCategoryName: optionalTrimmedString,
@@ -218,6 +242,7 @@ export const productFormSchema = z.object({
 	sellPrice: optionalNumber,
 	currency: z.string().min(1, "Moneda requerida").default("NIO"),
 	status: productStatusEnum.default("active"),
+	costingMethod: costingMethodEnum.default("weighted_average"),
 	quantity: nonNegativeInteger.default(0),
 	imageFile: z
 		.any()
@@ -360,18 +385,33 @@ export type InventoryIntakeFormValues = z.infer<
 	typeof inventoryIntakeFormSchema
 >;
 
+export const discountTypeEnum = z.enum(["percentage", "fixed"]);
+
+/** Optional per-line discount; a fixed amount applies to the whole line. */
+const lineDiscountFields = {
+	discountType: discountTypeEnum.optional(),
+	discountValue: z.number().positive("Descuento inválido").optional(),
+	discountReason: optionalTrimmedString.optional(),
+};
+
 const orderProductItemSchema = z.object({
 	productId: z.string().uuid("Producto inválido"),
 	qty: z.number().int().positive("Cantidad inválida"),
 	unitPrice: z.number().min(0, "Precio inválido"),
+	...lineDiscountFields,
 });
 
 const orderComboItemSchema = z.object({
 	comboId: z.string().uuid("Combo inválido"),
 	qty: z.number().int().positive("Cantidad inválida"),
 	unitPrice: z.number().min(0, "Precio inválido"),
+	...lineDiscountFields,
 });
 
+const optionalPromoCode = optionalTrimmedString
+	.transform((value) => (value ? normalizePromoCode(value) : undefined))
+	.optional();
+
 export const orderFormSchema = z
 	.object({
 		customerName: z
@@ -397,18 +437,57 @@ export type OrderFormValues = z.infer<typeof orderFormSchema>;
 
 export const orderPaymentMethodEnum = z.enum(["cash", "card", "transfer"]);
 
+const posPaymentSchema = z
+	.object({
+		method: orderPaymentMethodEnum,
+		amount: z.number().positive("Monto de pago inválido"),
+		tendered: z.number().positive("Efectivo recibido inválido").optional(),
+		reference: optionalTrimmedString.optional(),
+	})
+	.refine((data) => data.method !== "transfer" || Boolean(data.reference), {
+		message: "Ingresa la referencia de cada transferencia",
+		path: ["reference"],
+	})
+	.refine(
+		(data) =>
+			data.tendered === undefined ||
+			(data.method === "cash" && data.tendered >= data.amount),
+		{
+			message: "El efectivo recibido no cubre el monto en efectivo",
+			path: ["tendered"],
+		},
+	);
+
+export type PosPaymentInput = z.infer<typeof posPaymentSchema>;
+
 export const posOrderSchema = z
 	.object({
+		customerId: z
+			.union([z.string().uuid("Cliente inválido"), z.literal(""), z.null()])
+			.optional()
+			.transform((value) => value || undefined),
 		customerName: optionalTrimmedString.optional(),
 		customerPhone: optionalPhoneNumber,
+		customerEmail: optionalTrimmedString.refine(
+			(value) =>
+				value === undefined || z.string().email().safeParse(value).success,
+			{ message: "Ingresa un correo válido" },
+		),
 		notes: optionalTrimmedString.optional(),
 		paymentMethod: orderPaymentMethodEnum.default("cash"),
 		receiptNumber: optionalTrimmedString.optional(),
 		currency: z.string().min(1, "Moneda requerida").default("NIO"),
+		/** Manual order discount, on top of line and promo discounts. */
 		discountAmount: optionalNumber.default(0),
+		discountReason: optionalTrimmedString.optional(),
+		promoCode: optionalPromoCode,
+		/** Promo discount shown at the till; the database recomputes it. */
+		promoDiscountAmount: optionalNumber.default(0),
 		taxAmount: optionalNumber.default(0),
 		productItems: z.array(orderProductItemSchema).default([]),
 		comboItems: z.array(orderComboItemSchema).default([]),
+		/** Split tender; when empty the sale is paid with `paymentMethod`. */
+		payments: z.array(posPaymentSchema).default([]),
 	})
 	.refine(
 		(data) =>
@@ -420,21 +499,454 @@ export const posOrderSchema = z
 	)
 	.refine(
 		(data) =>
+			data.payments.length > 0 ||
 			data.paymentMethod !== "transfer" ||
 			(typeof data.receiptNumber === "string" && data.receiptNumber.length > 0),
 		{
 			message: "Ingresa el número de comprobante",
 			path: ["receiptNumber"],
 		},
+	)
+	.refine(
+		(data) =>
+			[...data.productItems, ...data.comboItems].every(
+				(line) =>
+					!line.discountType ||
+					(line.discountValue !== undefined &&
+						(line.discountType !== "percentage" || line.discountValue <= 100) &&
+						Boolean(line.discountReason)),
+			),
+		{
+			message: "Cada descuento por línea necesita un valor válido y un motivo",
+			path: ["discounts"],
+		},
+	)
+	.refine((data) => !(data.discountAmount > 0) || Boolean(data.discountReason), {
+		message: "Indica el motivo del descuento",
+		path: ["discountReason"],
+	})
+	.refine(
+		(data) =>
+			data.payments.length === 0 ||
+			summarizeTenders(
+				data.payments,
+				computeSaleTotal({
+					lines: [...data.productItems, ...data.comboItems].map((line) => ({
+						...line,
+						discountAmount: computeLineDiscount(line),
+					})),
+					promoDiscountAmount: data.promoDiscountAmount,
+					discountAmount: data.discountAmount,
+					taxAmount: data.taxAmount,
+				}),
+			).isBalanced,
+		{
+			message: "Los pagos deben sumar el total de la venta",
+			path: ["payments"],
+		},
 	);
 
 export type PosOrderValues = z.infer<typeof posOrderSchema>;
 
-export const suggestComboInputSchema = z.object({
-	budgetMin: optionalNumber,
-	budgetMax: optionalNumber,
-	maxItems: optionalNumber,
-	mustIncludeCategory: optionalTrimmedString.optional(),
+export const promoCodeLookupSchema = z.object({
+	code: z
+		.string({ required_error: "Ingresa un código promocional" })
+		.trim()
+		.min(1, "Ingresa un código promocional")
+		.max(32, "Código promocional inválido")
+		.transform(normalizePromoCode),
+	/** Amount the code would discount: the subtotal after line discounts. */
+	subtotal: z.number().min(0, "Subtotal inválido"),
+});
+
+export const registerOpenSchema = z.object({
+	openingFloat: nonNegativeMoneyAmount.transform((value) => value ?? 0),
+	notes: optionalTrimmedString.optional(),
+});
+
+export type RegisterOpenValues = z.infer<typeof registerOpenSchema>;
+
+export const registerCashMovementSchema = z.object({
+	sessionId: z.string().uuid("Sesión de caja inválida"),
+	kind: z.enum(["cash_in", "cash_out"], {
+		errorMap: () => ({ message: "Selecciona el tipo de movimiento" }),
+	}),
+	amount: requiredMoneyAmount,
+	reason: z
+		.string({ required_error: "Indica el motivo" })
+		.trim()
+		.min(1, "Indica el motivo")
+		.max(200, "Máximo 200 caracteres"),
+});
+
+export type RegisterCashMovementValues = z.infer<
+	typeof registerCashMovementSchema
+>;
+
+export const registerCloseSchema = z.object({
+	sessionId: z.string().uuid("Sesión de caja inválida"),
+	countedCash: nonNegativeMoneyAmount.refine(
+		(value) => value !== undefined,
+		{ message: "Ingresa el efectivo contado" },
+	),
+	notes: optionalTrimmedString.optional(),
+});
+
+export type RegisterCloseValues = z.infer<typeof registerCloseSchema>;
+
+export const staffRoleAssignmentSchema = z.object({
+	userId: z.string().uuid("Usuario inválido"),
+	role: z.enum(["owner", "manager", "cashier", "none"], {
+		errorMap: () => ({ message: "Selecciona un rol válido" }),
+	}),
+});
+
+export type StaffRoleAssignmentValues = z.infer<
+	typeof staffRoleAssignmentSchema
+>;
+
+export const customerSearchSchema = z.object({
+	query: z
+		.string()
+		.trim()
+		.min(2, "Escribe al menos 2 caracteres")
+		.max(120, "Máximo 120 caracteres"),
+});
+
+export type CustomerSearchValues = z.infer<typeof customerSearchSchema>;
+
+export const orderRefundModeEnum = z.enum(["full", "partial"]);
+export const orderRefundLineTypeEnum = z.enum(["product", "combo"]);
+
+const orderRefundLineSchema = z.object({
+	lineType: orderRefundLineTypeEnum,
+	lineId: z.number().int().positive("Línea inválida"),
+	qty: z.number().int().positive("Cantidad inválida"),
+});
+
+export const orderRefundSchema = z
+	.object({
+		orderId: z.string().uuid("Orden inválida"),
+		mode: orderRefundModeEnum,
+		reason: z
+			.string({ required_error: "Indica el motivo" })
+			.trim()
+			.min(3, "Indica el motivo")
+			.max(500, "Máximo 500 caracteres"),
+		lines: z.array(orderRefundLineSchema).default([]),
+	})
+	.refine((data) => data.mode === "full" || data.lines.length > 0, {
+		message: "Selecciona al menos una línea para reembolsar",
+		path: ["lines"],
+	});
+
+export type OrderRefundLineInput = z.infer<typeof orderRefundLineSchema>;
+export type OrderRefundValues = z.infer<typeof orderRefundSchema>;
+
+export const orderStatusTransitionSchema = z.object({
+	orderId: z.string().uuid("Orden inválida"),
+	status: z.enum(["pending", "processing", "completed"], {
+		errorMap: () => ({ message: "Estado inválido" }),
+	}),
+	notes: optionalTrimmedString.optional(),
+});
+
+export type OrderStatusTransitionValues = z.infer<
+	typeof orderStatusTransitionSchema
+>;
+
+const storefrontOrderItemSchema = z.object({
+	id: z.string().uuid("Producto inválido"),
+	quantity: z
+		.number()
+		.int("Cantidad inválida")
+		.min(1, "Cantidad inválida")
+		.max(99, "Cantidad inválida"),
+	price: z.number().min(0, "Precio inválido").nullable().optional(),
+});
+
+const storefrontOrderComboItemSchema = storefrontOrderItemSchema.extend({
+	id: z.string().uuid("Combo inválido"),
+});
+
+export const storefrontOrderSchema = z
+	.object({
+		name: z
+			.string({ required_error: "El nombre es obligatorio" })
+			.trim()
+			.min(1, "El nombre es obligatorio")
+			.max(200, "Máximo 200 caracteres"),
+		phone: optionalPhoneNumber,
+		email: optionalTrimmedString.refine(
+			(value) =>
+				value === undefined || z.string().email().safeParse(value).success,
+			{ message: "Ingresa un correo válido" },
+		),
+		message: optionalTrimmedString.optional(),
+		delivery: optionalTrimmedString.optional(),
+		payment: orderPaymentMethodEnum.catch("cash"),
+		promoCode: optionalPromoCode,
+		items: z.array(storefrontOrderItemSchema).default([]),
+		comboItems: z.array(storefrontOrderComboItemSchema).default([]),
+	})
+	.refine((data) => data.items.length + data.comboItems.length > 0, {
+		message: "Agrega al menos un producto a tu carrito",
+		path: ["items"],
+	});
+
+export type StorefrontOrderItemInput = z.infer<
+	typeof storefrontOrderItemSchema
+>;
+export type StorefrontOrderValues = z.infer<typeof storefrontOrderSchema>;
+
+export const priceRuleTargetEnum = z.enum(["product", "combo"]);
+export const priceRuleScopeEnum = z.enum([
+	"global",
+	"category",
+	"brand",
+	"product",
+	"promo",
+]);
+export const priceRuleStrategyEnum = z.enum(["any", "all"]);
+export const priceRuleCostDirectionEnum = z.enum([
+	"increase",
+	"decrease",
+	"any",
+]);
+
+const optionalDateTimeString = z
+	.union([z.string(), z.null(), z.undefined()])
+	.transform((value) => {
+		const trimmed = value?.trim();
+		if (!trimmed) {
+			return undefined;
+		}
+
+		const parsed = new Date(trimmed);
+		return Number.isNaN(parsed.getTime()) ? "invalid" : parsed.toISOString();
+	})
+	.refine((value) => value !== "invalid", {
+		message: "Selecciona una fecha válida",
+	});
+
+const optionalMargin = optionalNumber.refine(
+	(value) => value === undefined || (value >= 0 && value <= 5),
+	{ message: "Usa un margen entre 0 y 5 (0.40 equivale a 40 %)" },
+);
+
+function optionalEnum<T extends [string, ...string[]]>(schema: z.ZodEnum<T>) {
+	return z
+		.union([schema, z.literal(""), z.null(), z.undefined()])
+		.transform((value) => (value ? value : undefined));
+}
+
+export const priceRuleFormSchema = z
+	.object({
+		name: requiredTrimmedString,
+		description: optionalTrimmedString.optional(),
+		target: priceRuleTargetEnum.default("product"),
+		scope: priceRuleScopeEnum.default("global"),
+		scopeRef: optionalTrimmedString.optional(),
+		marginLow: optionalMargin,
+		marginMid: optionalMargin,
+		marginHigh: optionalMargin,
+		marginPremium: optionalMargin,
+		endings: optionalTrimmedString
+			.transform((value) =>
+				value
+					? value
+							.split(/[\s,]+/)
+							.map((ending) => ending.replace(/[^0-9]/g, ""))
+							.filter(Boolean)
+					: undefined,
+			)
+			.optional(),
+		priority: nonNegativeInteger,
+		priceAdjustmentPct: optionalNumber.refine(
+			(value) => value === undefined || (value >= -90 && value <= 200),
+			{ message: "El ajuste debe estar entre -90 % y 200 %" },
+		),
+		active: z
+			.union([z.boolean(), z.string(), z.null(), z.undefined()])
+			.transform(
+				(value) => value === true || value === "on" || value === "true",
+			),
+		startsAt: optionalDateTimeString,
+		endsAt: optionalDateTimeString,
+		inventoryAgeMinDays: nonNegativeInteger,
+		inventoryAgeMaxDays: nonNegativeInteger,
+		inventoryAgeStrategy: optionalEnum(priceRuleStrategyEnum),
+		costChangeDirection: optionalEnum(priceRuleCostDirectionEnum),
+		costChangeThresholdPct: optionalNumber.refine(
+			(value) => value === undefined || value >= 0,
+			{ message: "Ingresa un porcentaje positivo" },
+		),
+		costChangeStrategy: optionalEnum(priceRuleStrategyEnum),
+		promoTag: optionalTrimmedString.optional(),
+	})
+	.superRefine((values, ctx) => {
+		if (values.scope !== "global" && !values.scopeRef) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["scopeRef"],
+				message: "Indica a qué categoría, marca, producto o promoción aplica",
+			});
+		}
+
+		if (
+			values.target === "combo" &&
+			(values.scope === "brand" || values.scope === "product")
+		) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["scope"],
+				message:
+					"Las reglas de combos solo pueden ser globales, por categoría o por promoción",
+			});
+		}
+
+		if (
+			values.inventoryAgeMinDays !== undefined &&
+			values.inventoryAgeMaxDays !== undefined &&
+			values.inventoryAgeMinDays > values.inventoryAgeMaxDays
+		) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["inventoryAgeMaxDays"],
+				message: "El máximo de días debe ser mayor o igual al mínimo",
+			});
+		}
+
+		if (
+			values.startsAt &&
+			values.endsAt &&
+			new Date(values.endsAt) <= new Date(values.startsAt)
+		) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["endsAt"],
+				message: "La fecha de fin debe ser posterior al inicio",
+			});
+		}
+	});
+
+export type PriceRuleFormValues = z.infer<typeof priceRuleFormSchema>;
+
+export const promoCodeFormSchema = z
+	.object({
+		code: z
+			.string({ required_error: "Ingresa el código" })
+			.transform(normalizePromoCode)
+			.refine((value) => /^[A-Z0-9_-]{3,32}$/.test(value), {
+				message: "Usa de 3 a 32 letras, números, guiones o guiones bajos",
+			}),
+		description: optionalTrimmedString.optional(),
+		discountType: discountTypeEnum,
+		discountValue: requiredMoneyAmount,
+		minSubtotal: nonNegativeMoneyAmount.transform((value) => value ?? 0),
+		startsAt: optionalDateTimeString,
+		endsAt: optionalDateTimeString,
+		maxUses: nonNegativeInteger.refine(
+			(value) => value === undefined || value > 0,
+			{ message: "El límite de usos debe ser mayor a cero" },
+		),
+	})
+	.superRefine((values, ctx) => {
+		if (values.discountType === "percentage" && values.discountValue > 100) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["discountValue"],
+				message: "El porcentaje no puede superar 100 %",
+			});
+		}
+
+		if (
+			values.startsAt &&
+			values.endsAt &&
+			new Date(values.endsAt) <= new Date(values.startsAt)
+		) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["endsAt"],
+				message: "La fecha de fin debe ser posterior al inicio",
+			});
+		}
+	});
+
+export type PromoCodeFormValues = z.infer<typeof promoCodeFormSchema>;
+
+export const repricingStatusEnum = z.enum(["active", "draft", "all"]);
+
+export const repricingFiltersSchema = z.object({
+	categoryId: optionalTrimmedString.optional(),
+	subcategoryId: optionalTrimmedString.optional(),
+	brand: optionalTrimmedString.optional(),
+	status: repricingStatusEnum.catch("active"),
 });
 
+export type RepricingFilters = z.infer<typeof repricingFiltersSchema>;
+
+export const repricingApplySchema = z.object({
+	filters: repricingFiltersSchema,
+	productIds: z
+		.array(z.string().uuid("Producto inválido"))
+		.min(1, "Selecciona al menos un producto")
+		.max(500, "Aplica como máximo 500 productos por lote"),
+});
+
+export type RepricingApplyValues = z.infer<typeof repricingApplySchema>;
+
+export const suggestComboInputSchema = z
+	.object({
+		budgetMin: optionalNumber,
+		budgetMax: optionalNumber,
+		maxItems: optionalNumber,
+		mustIncludeCategory: optionalTrimmedString.optional(),
+		packagingCost: optionalNumber,
+	})
+	.refine(
+		(data) =>
+			data.budgetMin === undefined ||
+			data.budgetMax === undefined ||
+			data.budgetMin <= data.budgetMax,
+		{
+			message: "El presupuesto mínimo no puede superar al máximo",
+			path: ["budgetMax"],
+		},
+	);
+
 export type SuggestComboInput = z.infer<typeof suggestComboInputSchema>;
+
+export const MAX_LABELS_PER_REQUEST = 2000;
+
+export const labelPrintSchema = z
+	.object({
+		layout: z.enum(LABEL_LAYOUT_IDS, {
+			errorMap: () => ({ message: "Formato de etiqueta inválido" }),
+		}),
+		symbology: z.enum(["auto", "code128", "ean13"]).default("auto"),
+		showPrice: z.boolean().default(true),
+		items: z
+			.array(
+				z.object({
+					productId: z.string().uuid("Producto inválido"),
+					copies: z
+						.number()
+						.int("Cantidad de copias inválida")
+						.min(1, "Imprime al menos una copia")
+						.max(500, "Máximo 500 copias por producto"),
+				}),
+			)
+			.min(1, "Selecciona al menos un producto"),
+	})
+	.refine(
+		(data) =>
+			data.items.reduce((sum, item) => sum + item.copies, 0) <=
+			MAX_LABELS_PER_REQUEST,
+		{
+			message: `Genera como máximo ${MAX_LABELS_PER_REQUEST} etiquetas por archivo`,
+			path: ["items"],
+		},
+	);
+
+export type LabelPrintValues = z.infer<typeof labelPrintSchema>;
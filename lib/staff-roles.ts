@@ -0,0 +1,52 @@
+export const STAFF_ROLES = ["owner", "manager", "cashier"] as const;
+
+export type StaffRole = (typeof STAFF_ROLES)[number];
+
+export const STAFF_ROLE_LABELS: Record<StaffRole, string> = {
+	owner: "Dueña",
+	manager: "Encargada",
+	cashier: "Cajera",
+};
+
+/**
+ * What each role may do. Mirrors the `has_staff_role` checks in the RLS
+ * policies so the UI and the database agree.
+ */
+export const STAFF_PERMISSIONS = {
+	viewDashboard: ["owner", "manager"],
+	viewFinance: ["owner"],
+	manageSettings: ["owner"],
+	viewAudit: ["owner"],
+	manageInventory: ["owner", "manager"],
+	managePricing: ["owner", "manager"],
+	viewCosts: ["owner", "manager"],
+	viewCustomers: ["owner", "manager"],
+	refundOrders: ["owner", "manager"],
+	viewOrders: ["owner", "manager", "cashier"],
+	manageOrders: ["owner", "manager", "cashier"],
+	sellAtPos: ["owner", "manager", "cashier"],
+} satisfies Record<string, readonly StaffRole[]>;
+
+export type StaffPermission = keyof typeof STAFF_PERMISSIONS;
+
+/** Where each role lands after signing in or hitting a section it can't see. */
+export const STAFF_HOME_PATHS: Record<StaffRole, string> = {
+	owner: "/dashboard",
+	manager: "/dashboard",
+	cashier: "/pos",
+};
+
+export function isStaffRole(value: unknown): value is StaffRole {
+	return (
+		typeof value === "string" &&
+		(STAFF_ROLES as readonly string[]).includes(value)
+	);
+}
+
+export function hasStaffPermission(
+	role: StaffRole | null | undefined,
+	permission: StaffPermission,
+): boolean {
+	if (!role) return false;
+	return (STAFF_PERMISSIONS[permission] as readonly StaffRole[]).includes(role);
+}
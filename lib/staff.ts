@@ -0,0 +1,114 @@
+import type { User } from "@supabase/supabase-js";
+import { redirect } from "next/navigation";
+import { cache } from "react";
+
+import { findActionPermission } from "@/lib/route-policies";
+import {
+	STAFF_HOME_PATHS,
+	hasStaffPermission,
+	isStaffRole,
+	type StaffPermission,
+	type StaffRole,
+} from "@/lib/staff-roles";
+import { createSupabaseAdminClient } from "@/lib/supabase-admin";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+
+export type StaffSession = {
+	user: User;
+	role: StaffRole | null;
+};
+
+export class StaffAuthorizationError extends Error {
+	constructor(public readonly reason: "unauthenticated" | "forbidden") {
+		super(`Staff authorization failed: ${reason}`);
+		this.name = "StaffAuthorizationError";
+	}
+}
+
+export const STAFF_AUTHORIZATION_MESSAGES: Record<
+	StaffAuthorizationError["reason"],
+	string
+> = {
+	unauthenticated: "Tu sesión expiró. Inicia sesión nuevamente.",
+	forbidden: "Tu rol no tiene permiso para realizar esta acción.",
+};
+
+/**
+ * Signed-in user and their staff role, read once per request so pages, the
+ * dashboard shell and actions share the lookup.
+ */
+export const getStaffSession = cache(
+	async (): Promise<StaffSession | null> => {
+		const supabase = await createSupabaseServerClient();
+		const {
+			data: { user },
+		} = await supabase.auth.getUser();
+
+		if (!user) return null;
+
+		const { data, error } = await createSupabaseAdminClient()
+			.from("staff_members")
+			.select("role")
+			.eq("user_id", user.id)
+			.maybeSingle();
+
+		if (error) {
+			console.error("[staff] getStaffSession", error);
+			return { user, role: null };
+		}
+
+		return { user, role: isStaffRole(data?.role) ? data.role : null };
+	},
+);
+
+/**
+ * Guards a server action with the permission `ROUTE_POLICIES` gives its
+ * route, or the named action under it. Throws a StaffAuthorizationError the
+ * action's catch block turns into a form error.
+ */
+export async function requireRoutePermission(
+	path: string,
+	action?: string,
+): Promise<StaffSession & { role: StaffRole }> {
+	return requireStaffPermission(findActionPermission(path, action));
+}
+
+async function requireStaffPermission(
+	permission: StaffPermission,
+): Promise<StaffSession & { role: StaffRole }> {
+	const session = await getStaffSession();
+
+	if (!session) {
+		throw new StaffAuthorizationError("unauthenticated");
+	}
+
+	if (!session.role || !hasStaffPermission(session.role, permission)) {
+		throw new StaffAuthorizationError("forbidden");
+	}
+
+	return { user: session.user, role: session.role };
+}
+
+/**
+ * Guards a dashboard page: signed-out visitors go to the login page and staff
+ * without the permission go back to their role's home section.
+ */
+export async function requireStaffPage(
+	permission: StaffPermission,
+): Promise<StaffSession & { role: StaffRole }> {
+	const session = await getStaffSession();
+
+	if (!session) {
+		redirect("/login");
+	}
+
+	if (!session.role) {
+		redirect("/no-access");
+	}
+
+	if (!hasStaffPermission(session.role, permission)) {
+		redirect(STAFF_HOME_PATHS[session.role]);
+	}
+
+	return { user: session.user, role: session.role };
+}
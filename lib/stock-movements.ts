@@ -0,0 +1,217 @@
+import type { AnySupabaseClient } from "@/lib/supabase-admin";
+
+export const STOCK_MOVEMENT_TYPES = [
+	"sale",
+	"intake",
+	"adjustment",
+	"return",
+	"cancellation",
+	"combo_consumption",
+] as const;
+
+export type StockMovementType = (typeof STOCK_MOVEMENT_TYPES)[number];
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+	sale: "Venta",
+	intake: "Ingreso",
+	adjustment: "Ajuste manual",
+	return: "Devolución",
+	cancellation: "Cancelación",
+	combo_consumption: "Consumo en combo",
+};
+
+export type StockMovementInput = {
+	productId: string;
+	type: StockMovementType;
+	quantityBefore: number;
+	quantityAfter: number;
+	orderId?: string | null;
+	comboId?: string | null;
+	intakeId?: string | null;
+	notes?: string | null;
+	createdBy?: string | null;
+};
+
+export type StockMovement = {
+	id: number;
+	productId: string;
+	type: StockMovementType;
+	quantityChange: number;
+	quantityBefore: number | null;
+	quantityAfter: number | null;
+	orderId: string | null;
+	comboId: string | null;
+	intakeId: string | null;
+	notes: string | null;
+	createdBy: string | null;
+	createdAt: string;
+};
+
+type StockMovementRow = {
+	id: number;
+	product_id: string;
+	movement_type: string;
+	quantity_change: number | string;
+	quantity_before: number | string | null;
+	quantity_after: number | string | null;
+	order_id: string | null;
+	combo_id: string | null;
+	intake_id: string | null;
+	notes: string | null;
+	created_by: string | null;
+	created_at: string;
+};
+
+function isStockMovementType(value: string): value is StockMovementType {
+	return (STOCK_MOVEMENT_TYPES as readonly string[]).includes(value);
+}
+
+function toNullableNumber(value: number | string | null): number | null {
+	if (value === null) return null;
+	const parsed = typeof value === "number" ? value : Number(value);
+	return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Inserts ledger rows for quantity changes applied outside of the database
+ * functions. Movements without a net change are skipped.
+ */
+export async function recordStockMovements(
+	client: AnySupabaseClient,
+	movements: StockMovementInput[],
+): Promise<void> {
+	const rows = movements
+		.filter((movement) => movement.quantityAfter !== movement.quantityBefore)
+		.map((movement) => ({
+			product_id: movement.productId,
+			movement_type: movement.type,
+			quantity_change: movement.quantityAfter - movement.quantityBefore,
+			quantity_before: movement.quantityBefore,
+			quantity_after: movement.quantityAfter,
+			order_id: movement.orderId ?? null,
+			combo_id: movement.comboId ?? null,
+			intake_id: movement.intakeId ?? null,
+			notes: movement.notes ?? null,
+			created_by: movement.createdBy ?? null,
+		}));
+
+	if (rows.length === 0) return;
+
+	const { error } = await client.from("stock_movements").insert(rows);
+
+	if (error) {
+		throw new Error(error.message);
+	}
+}
+
+/** Raised when the stock moved after the caller read the quantity it edits. */
+export class StockConflictError extends Error {
+	constructor(public readonly currentQuantity: number) {
+		super(
+			`El inventario cambió mientras se editaba: ahora hay ${currentQuantity} unidad(es). Recarga la página e inténtalo nuevamente.`,
+		);
+		this.name = "StockConflictError";
+	}
+}
+
+export type StockAdjustmentInput = {
+	productId: string;
+	/** Quantity the change was based on; `null` skips the check. */
+	expectedQuantity: number | null;
+	quantityChange: number;
+	type: StockMovementType;
+	intakeId?: string | null;
+	notes?: string | null;
+	createdBy?: string | null;
+};
+
+export type StockAdjustment = {
+	quantityBefore: number;
+	quantityAfter: number;
+};
+
+type StockAdjustmentRpcResult =
+	| { success: true; quantity_before: number; quantity_after: number }
+	| {
+			success: false;
+			error: "product_not_found" | "quantity_conflict" | "insufficient_stock";
+			quantity?: number;
+	  };
+
+/**
+ * Applies a quantity delta and its ledger row in one transaction, so a sale
+ * landing between the read and the write is never overwritten and the ledger
+ * can't miss the change.
+ */
+export async function adjustProductStock(
+	client: AnySupabaseClient,
+	input: StockAdjustmentInput,
+): Promise<StockAdjustment> {
+	const { data, error } = await client.rpc("adjust_product_stock", {
+		p_product_id: input.productId,
+		p_expected_quantity: input.expectedQuantity,
+		p_quantity_change: input.quantityChange,
+		p_movement_type: input.type,
+		p_intake_id: input.intakeId ?? null,
+		p_notes: input.notes ?? null,
+		p_created_by: input.createdBy ?? null,
+	});
+
+	if (error) {
+		throw new Error(error.message);
+	}
+
+	const result = data as StockAdjustmentRpcResult | null;
+	if (!result) {
+		throw new Error("No pudimos ajustar el inventario");
+	}
+
+	if (!result.success) {
+		if (result.error === "quantity_conflict") {
+			throw new StockConflictError(result.quantity ?? 0);
+		}
+		throw new Error(`adjust_product_stock: ${result.error}`);
+	}
+
+	return {
+		quantityBefore: result.quantity_before,
+		quantityAfter: result.quantity_after,
+	};
+}
+
+export async function listProductStockMovements(
+	client: AnySupabaseClient,
+	productId: string,
+	limit = 100,
+): Promise<StockMovement[]> {
+	const { data, error } = await client
+		.from("stock_movements")
+		.select(
+			"id, product_id, movement_type, quantity_change, quantity_before, quantity_after, order_id, combo_id, intake_id, notes, created_by, created_at",
+		)
+		.eq("product_id", productId)
+		.order("created_at", { ascending: false })
+		.order("id", { ascending: false })
+		.limit(limit);
+
+	if (error) {
+		throw new Error(error.message);
+	}
+
+	return ((data ?? []) as StockMovementRow[])
+		.filter((row) => isStockMovementType(row.movement_type))
+		.map((row) => ({
+			id: row.id,
+			productId: row.product_id,
+			type: row.movement_type as StockMovementType,
+			quantityChange: toNullableNumber(row.quantity_change) ?? 0,
+			quantityBefore: toNullableNumber(row.quantity_before),
+			quantityAfter: toNullableNumber(row.quantity_after),
+			orderId: row.order_id,
+			comboId: row.combo_id,
+			intakeId: row.intake_id,
+			notes: row.notes,
+			createdBy: row.created_by,
+			createdAt: row.created_at,
+		}));
+}
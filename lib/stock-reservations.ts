@@ -0,0 +1,66 @@
+import type { AnySupabaseClient } from "@/lib/supabase-admin";
+
+type ReservedStockRow = {
+	product_id: string;
+	reserved_qty: number | string | null;
+};
+
+export const DEFAULT_RESERVATION_HOURS = 24;
+
+/**
+ * How long a storefront order holds its units, read from
+ * STOREFRONT_RESERVATION_HOURS.
+ */
+export function getReservationMinutes(): number {
+	const hours = Number(process.env.STOREFRONT_RESERVATION_HOURS);
+	const resolved =
+		Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_RESERVATION_HOURS;
+	return Math.round(resolved * 60);
+}
+
+/**
+ * Units held by pending or in-progress orders, keyed by product id. Failures
+ * are logged and treated as "nothing reserved" so listings keep working.
+ */
+export async function fetchReservedQuantities(
+	client: AnySupabaseClient,
+	productIds?: string[],
+): Promise<Map<string, number>> {
+	const reserved = new Map<string, number>();
+
+	if (productIds && productIds.length === 0) {
+		return reserved;
+	}
+
+	let query = client
+		.from("product_reserved_stock")
+		.select("product_id, reserved_qty");
+
+	if (productIds) {
+		query = query.in("product_id", productIds);
+	}
+
+	const { data, error } = await query;
+
+	if (error) {
+		console.error("[stock-reservations] fetchReservedQuantities", error);
+		return reserved;
+	}
+
+	for (const row of (data ?? []) as ReservedStockRow[]) {
+		const qty = Number(row.reserved_qty ?? 0);
+		if (Number.isFinite(qty) && qty > 0) {
+			reserved.set(row.product_id, qty);
+		}
+	}
+
+	return reserved;
+}
+
+export function availableQuantity(
+	quantity: number | null | undefined,
+	reserved: number | undefined,
+): number | null {
+	if (quantity === null || quantity === undefined) return null;
+	return Math.max(0, quantity - (reserved ?? 0));
+}
@@ -1,11 +1,17 @@
 import { unstable_noStore as noStore } from "next/cache";
 
+import { fetchComboBuildableCounts } from "@/lib/combo-availability";
 import { slugify } from "@/lib/slug";
+import {
+	availableQuantity,
+	fetchReservedQuantities,
+} from "@/lib/stock-reservations";
 import { createSupabaseServerClient } from "@/lib/supabase-server";
 
 import type {
 	StorefrontCategory,
 	StorefrontCombo,
+	StorefrontComboDetail,
 	StorefrontProduct,
 } from "./types";
 
@@ -50,15 +56,10 @@ export function buildProductSlug(name: string, id: string) {
 
 export function parseProductIdFromSlug(slug: string) {
 	if (!slug) return null;
-	const candidate = slug.split("-").pop();
-	if (!candidate) {
-		return UUID_REGEX.test(slug) ? slug : null;
-	}
-	return UUID_REGEX.test(candidate)
-		? candidate
-		: UUID_REGEX.test(slug)
-		? slug
-		: null;
+	// The id itself contains dashes, so take the trailing 36 characters
+	// instead of the last dash-separated segment.
+	const candidate = slug.slice(-36);
+	return UUID_REGEX.test(candidate) ? candidate : null;
 }
 
 type ProductRow = {
@@ -66,7 +67,6 @@ type ProductRow = {
 	name: string;
 	description: string | null;
 	sell_price: number | null;
-	cost_price: number | null;
 	currency: string | null;
 	quantity: number | null;
 	image_path: string | null;
@@ -85,6 +85,18 @@ type ComboRow = {
 	image_path: string | null;
 };
 
+type ComboDetailRow = ComboRow & {
+	combo_items: Array<{
+		product_id: string;
+		qty: number | null;
+		products: {
+			id: string;
+			name: string;
+			image_path: string | null;
+		} | null;
+	}> | null;
+};
+
 type CategoryRow = {
 	id: number;
 	name: string;
@@ -104,7 +116,6 @@ function mapProductRow(row: ProductRow): StorefrontProduct {
 		brand: brand ?? undefined,
 		currency: row.currency ?? "NIO",
 		sellPrice: row.sell_price,
-		costPrice: row.cost_price ?? undefined,
 		quantity: row.quantity ?? undefined,
 		imageUrl: resolveStorageImageUrl(row.image_path),
 		description: row.description ?? undefined,
@@ -154,7 +165,7 @@ export async function listActiveProducts(
 	let query = supabase
 		.from("products")
 		.select(
-			"id, name, description, sell_price, cost_price, currency, quantity, image_path, status, meta, categories(id, name)",
+			"id, name, description, sell_price, currency, quantity, image_path, status, meta, categories(id, name)",
 		)
 		.eq("status", "active")
 		.order("created_at", { ascending: false });
@@ -204,7 +215,29 @@ export async function listActiveProducts(
 		return [];
 	}
 
-	return (data ?? []).map((row: ProductRow) => mapProductRow(row));
+	// Units held by pending web orders are not offered again.
+	const rows = (data ?? []) as ProductRow[];
+	const reserved = await fetchReservedQuantities(
+		supabase,
+		rows.map((row) => row.id),
+	);
+	const products = rows.map((row) =>
+		mapProductRow({
+			...row,
+			quantity: availableQuantity(row.quantity, reserved.get(row.id)),
+		}),
+	);
+
+	if (options.onlyAvailable || !options.includeOutOfStock) {
+		return products.filter(
+			(product) =>
+				product.quantity === null ||
+				product.quantity === undefined ||
+				product.quantity > 0,
+		);
+	}
+
+	return products;
 }
 
 type ProductDetailResult = StorefrontProduct & {
@@ -225,7 +258,7 @@ export async function fetchProductDetail(
 	const { data, error } = await supabase
 		.from("products")
 		.select(
-			"id, name, description, sell_price, cost_price, currency, quantity, image_path, status, meta, categories(id, name)",
+			"id, name, description, sell_price, currency, quantity, image_path, status, meta, categories(id, name)",
 		)
 		.eq("id", productId)
 		.eq("status", "active")
@@ -238,8 +271,13 @@ export async function fetchProductDetail(
 		return null;
 	}
 
-	const product = mapProductRow(data as ProductRow);
-	const meta = (data as ProductRow).meta;
+	const row = data as ProductRow;
+	const reserved = await fetchReservedQuantities(supabase, [row.id]);
+	const product = mapProductRow({
+		...row,
+		quantity: availableQuantity(row.quantity, reserved.get(row.id)),
+	});
+	const meta = row.meta;
 
 	const gallery = Array.isArray(meta?.gallery)
 		? ((meta!.gallery as string[])
@@ -279,7 +317,9 @@ export async function listFeaturedCombos(
 ): Promise<StorefrontCombo[]> {
 	noStore();
 	const supabase = await createSupabaseServerClient();
-	let query = supabase
+	// The limit is applied after dropping combos that can't be assembled, so
+	// every active combo is read here.
+	const { data, error } = await supabase
 		.from("combos")
 		.select(
 			"id, name, description, suggested_price, packaging_cost, status, image_path",
@@ -287,18 +327,83 @@ export async function listFeaturedCombos(
 		.eq("status", "active")
 		.order("created_at", { ascending: false });
 
-	if (options.limit) {
-		query = query.limit(options.limit);
-	}
-
-	const { data, error } = await query;
-
 	if (error) {
 		console.error("[storefront] listFeaturedCombos", error);
 		return [];
 	}
 
-	return (data ?? []).map((row: ComboRow) => mapComboRow(row));
+	const rows = (data ?? []) as ComboRow[];
+	let buildable: Map<string, number>;
+	try {
+		buildable = await fetchComboBuildableCounts(
+			supabase,
+			rows.map((row) => row.id),
+		);
+	} catch (countError) {
+		console.error("[storefront] listFeaturedCombos buildable", countError);
+		return [];
+	}
+
+	const combos = rows
+		.map((row) => ({
+			...mapComboRow(row),
+			buildableQty: buildable.get(row.id) ?? 0,
+		}))
+		.filter((combo) => combo.buildableQty !== 0);
+
+	return options.limit ? combos.slice(0, options.limit) : combos;
+}
+
+export async function fetchComboDetail(
+	slugOrId: string,
+): Promise<StorefrontComboDetail | null> {
+	noStore();
+	const comboId = parseProductIdFromSlug(slugOrId);
+	if (!comboId) {
+		return null;
+	}
+
+	const supabase = await createSupabaseServerClient();
+	const { data, error } = await supabase
+		.from("combos")
+		.select(
+			"id, name, description, suggested_price, packaging_cost, status, image_path, combo_items(product_id, qty, products(id, name, image_path))",
+		)
+		.eq("id", comboId)
+		.eq("status", "active")
+		.maybeSingle();
+
+	if (error || !data) {
+		if (error) {
+			console.error("[storefront] fetchComboDetail", error);
+		}
+		return null;
+	}
+
+	const row = data as ComboDetailRow;
+	// Like the listing, a combo whose stock can't be checked is treated as
+	// unbuildable rather than offered blindly.
+	let buildableQty = 0;
+	try {
+		const buildable = await fetchComboBuildableCounts(supabase, [row.id]);
+		buildableQty = buildable.get(row.id) ?? 0;
+	} catch (countError) {
+		console.error("[storefront] fetchComboDetail buildable", countError);
+	}
+
+	return {
+		...mapComboRow(row),
+		buildableQty,
+		items: (row.combo_items ?? [])
+			.filter((item) => Boolean(item.products))
+			.map((item) => ({
+				productId: item.product_id,
+				slug: buildProductSlug(item.products!.name, item.product_id),
+				name: item.products!.name,
+				qty: Math.max(1, Number(item.qty ?? 1)),
+				imageUrl: resolveStorageImageUrl(item.products!.image_path),
+			})),
+	};
 }
 
 export async function listCategoriesWithCounts(): Promise<
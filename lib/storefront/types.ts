@@ -5,7 +5,6 @@ export type StorefrontProduct = {
 	brand?: string | null;
 	currency: string;
 	sellPrice: number | null;
-	costPrice?: number | null;
 	quantity?: number | null;
 	imageUrl?: string | null;
 	description?: string | null;
@@ -25,6 +24,20 @@ export type StorefrontCombo = {
 	status?: string | null;
 	imageUrl?: string | null;
 	badges?: string[];
+	/** Units that component stock can assemble. */
+	buildableQty?: number;
+};
+
+export type StorefrontComboItem = {
+	productId: string;
+	slug: string;
+	name: string;
+	qty: number;
+	imageUrl?: string | null;
+};
+
+export type StorefrontComboDetail = StorefrontCombo & {
+	items: StorefrontComboItem[];
 };
 
 export type StorefrontCategory = {
@@ -1,7 +1,9 @@
 import { createClient, SupabaseClient } from "@supabase/supabase-js";
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any -- Supabase helpers operate on multiple tables without generated types.
-export type SupabaseAdminClient = SupabaseClient<any>;
+export type AnySupabaseClient = SupabaseClient<any>;
+
+export type SupabaseAdminClient = AnySupabaseClient;
 
 export class MissingEnvironmentVariableError extends Error {
 	constructor(public readonly envVar: string) {
@@ -1,6 +1,19 @@
 import { createServerClient } from "@supabase/ssr";
 import { NextResponse, type NextRequest } from "next/server";
 
+import {
+	LOGIN_PATH,
+	NEXT_PARAM,
+	findRoutePolicy,
+	isApiRoute,
+	sanitizeNextPath,
+} from "@/lib/route-policies";
+import {
+	STAFF_HOME_PATHS,
+	hasStaffPermission,
+	isStaffRole,
+} from "@/lib/staff-roles";
+
 export async function middleware(request: NextRequest) {
 	let supabaseResponse = NextResponse.next({
 		request,
@@ -35,22 +48,65 @@ export async function middleware(request: NextRequest) {
 	} = await supabase.auth.getUser();
 
 	const pathname = request.nextUrl.pathname;
-	const protectedPrefixes = ["/dashboard", "/inventory", "/combos"];
-	const isProtectedRoute = protectedPrefixes.some(
-		(prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`),
-	);
+	const policy = findRoutePolicy(pathname);
+	// Server actions post to whatever page the form is on, so the path says
+	// nothing about the action; each one checks its own route's policy with
+	// `requireRoutePermission` and answers with a form error. Only a page POST
+	// can be an action: API routes and reads are always checked here.
+	const isServerAction =
+		request.method === "POST" &&
+		request.headers.has("next-action") &&
+		!isApiRoute(pathname);
+
+	if (policy && !isServerAction) {
+		if (!user) {
+			if (isApiRoute(pathname)) {
+				return NextResponse.json(
+					{ error: "Inicia sesión para continuar." },
+					{ status: 401 },
+				);
+			}
+
+			const url = request.nextUrl.clone();
+			url.pathname = LOGIN_PATH;
+			url.search = "";
+			url.searchParams.set(
+				NEXT_PARAM,
+				`${pathname}${request.nextUrl.search}`,
+			);
+			return NextResponse.redirect(url);
+		}
+
+		if (policy.permission) {
+			const { data: member } = await supabase
+				.from("staff_members")
+				.select("role")
+				.eq("user_id", user.id)
+				.maybeSingle();
+			const role = isStaffRole(member?.role) ? member.role : null;
+
+			if (!hasStaffPermission(role, policy.permission)) {
+				if (isApiRoute(pathname)) {
+					return NextResponse.json(
+						{ error: "Tu rol no tiene acceso a este recurso." },
+						{ status: 403 },
+					);
+				}
 
-	if (!user && isProtectedRoute) {
-		const url = request.nextUrl.clone();
-		url.pathname = "/login";
-		return NextResponse.redirect(url);
+				const url = request.nextUrl.clone();
+				url.pathname = role ? STAFF_HOME_PATHS[role] : "/no-access";
+				url.search = "";
+				return NextResponse.redirect(url);
+			}
+		}
 	}
 
 	// Redirect authenticated users away from login/signup
-	if (user && (pathname === "/login" || pathname === "/signup")) {
-		const url = request.nextUrl.clone();
-		url.pathname = "/dashboard";
-		return NextResponse.redirect(url);
+	if (user && (pathname === LOGIN_PATH || pathname === "/signup")) {
+		const next = sanitizeNextPath(
+			request.nextUrl.searchParams.get(NEXT_PARAM),
+		);
+		return NextResponse.redirect(new URL(next ?? "/dashboard", request.url));
 	}
 
 	return supabaseResponse;
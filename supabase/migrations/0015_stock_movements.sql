@@ -0,0 +1,375 @@
+-- Stock movement ledger: every change to products.quantity is recorded with
+-- its reason so counts can be reconciled.
+
+create table if not exists public.stock_movements (
+    id bigserial primary key,
+    product_id uuid not null references public.products (id) on delete cascade,
+    movement_type text not null,
+    quantity_change integer not null,
+    quantity_before integer,
+    quantity_after integer,
+    order_id uuid references public.orders (id) on delete set null,
+    combo_id uuid references public.combos (id) on delete set null,
+    intake_id uuid references public.inventory_intake (id) on delete cascade,
+    notes text,
+    created_by uuid references auth.users (id),
+    created_at timestamptz not null default now(),
+    constraint stock_movements_type_check check (
+        movement_type in ('sale', 'intake', 'adjustment', 'return', 'cancellation', 'combo_consumption')
+    )
+);
+
+create index if not exists stock_movements_product_created_idx
+    on public.stock_movements (product_id, created_at desc);
+create index if not exists stock_movements_order_idx
+    on public.stock_movements (order_id);
+
+alter table public.stock_movements enable row level security;
+
+drop policy if exists "Stock movements read" on public.stock_movements;
+create policy "Stock movements read"
+    on public.stock_movements
+    for select
+    using (auth.role() = 'authenticated' or auth.role() = 'service_role');
+
+drop policy if exists "Stock movements insert" on public.stock_movements;
+create policy "Stock movements insert"
+    on public.stock_movements
+    for insert
+    with check (auth.role() = 'service_role');
+
+-- POS sales now write one ledger row per product and reason -----------------
+
+create or replace function public.create_pos_sale(payload jsonb)
+returns jsonb
+language plpgsql
+volatile
+security definer
+set search_path = public
+as
+$$
+declare
+    v_product_items jsonb := coalesce(payload->'product_items', '[]'::jsonb);
+    v_combo_items jsonb := coalesce(payload->'combo_items', '[]'::jsonb);
+    v_discount numeric(12, 2) := greatest(round(coalesce((payload->>'discount_amount')::numeric, 0), 2), 0);
+    v_tax numeric(12, 2) := greatest(round(coalesce((payload->>'tax_amount')::numeric, 0), 2), 0);
+    v_product_ids uuid[];
+    v_missing jsonb;
+    v_empty_combo text;
+    v_short jsonb;
+    v_subtotal numeric(12, 2);
+    v_total_cost numeric(12, 2);
+    v_total numeric(12, 2);
+    v_profit numeric(12, 2);
+    v_order_id uuid;
+    v_receipt_number text;
+begin
+    if jsonb_array_length(v_product_items) + jsonb_array_length(v_combo_items) = 0 then
+        return jsonb_build_object('success', false, 'error', 'empty_sale');
+    end if;
+
+    select coalesce(jsonb_agg(c.combo_id), '[]'::jsonb)
+    into v_missing
+    from jsonb_to_recordset(v_combo_items) as c(combo_id uuid)
+    where not exists (select 1 from public.combos co where co.id = c.combo_id);
+
+    if jsonb_array_length(v_missing) > 0 then
+        return jsonb_build_object('success', false, 'error', 'missing_combos', 'combo_ids', v_missing);
+    end if;
+
+    select co.name
+    into v_empty_combo
+    from jsonb_to_recordset(v_combo_items) as c(combo_id uuid)
+    join public.combos co on co.id = c.combo_id
+    where not exists (select 1 from public.combo_items ci where ci.combo_id = c.combo_id)
+    limit 1;
+
+    if v_empty_combo is not null then
+        return jsonb_build_object('success', false, 'error', 'empty_combo', 'combo_name', v_empty_combo);
+    end if;
+
+    select coalesce(array_agg(distinct ids.product_id), '{}')
+    into v_product_ids
+    from (
+        select x.product_id
+        from jsonb_to_recordset(v_product_items) as x(product_id uuid)
+        union
+        select ci.product_id
+        from jsonb_to_recordset(v_combo_items) as c(combo_id uuid)
+        join public.combo_items ci on ci.combo_id = c.combo_id
+    ) as ids;
+
+    -- Lock every product touched by the sale in a stable order so concurrent
+    -- sales of the same units serialize instead of overselling.
+    perform 1
+    from public.products
+    where id = any(v_product_ids)
+    order by id
+    for update;
+
+    select coalesce(jsonb_agg(ids.product_id), '[]'::jsonb)
+    into v_missing
+    from unnest(v_product_ids) as ids(product_id)
+    where not exists (select 1 from public.products p where p.id = ids.product_id);
+
+    if jsonb_array_length(v_missing) > 0 then
+        return jsonb_build_object('success', false, 'error', 'missing_products', 'product_ids', v_missing);
+    end if;
+
+    with
+        requirements as (
+            select r.product_id, sum(r.qty)::integer as required
+            from (
+                select x.product_id, greatest(x.qty, 1) as qty
+                from jsonb_to_recordset(v_product_items) as x(product_id uuid, qty integer)
+                union all
+                select ci.product_id, greatest(ci.qty, 1) * greatest(c.qty, 1)
+                from jsonb_to_recordset(v_combo_items) as c(combo_id uuid, qty integer)
+                join public.combo_items ci on ci.combo_id = c.combo_id
+            ) as r
+            group by r.product_id
+        )
+    select jsonb_agg(
+        jsonb_build_object(
+            'product_id', p.id,
+            'name', p.name,
+            'available', coalesce(p.quantity, 0),
+            'required', req.required
+        )
+        order by p.name
+    )
+    into v_short
+    from requirements req
+    join public.products p on p.id = req.product_id
+    where coalesce(p.quantity, 0) < req.required;
+
+    if v_short is not null then
+        return jsonb_build_object('success', false, 'error', 'insufficient_stock', 'short_products', v_short);
+    end if;
+
+    with
+        product_lines as (
+            select
+                greatest(x.qty, 1) as qty,
+                round(x.unit_price, 2) as unit_price,
+                round(coalesce(p.cost_price, 0), 2) as unit_cost
+            from jsonb_to_recordset(v_product_items) as x(product_id uuid, qty integer, unit_price numeric)
+            join public.products p on p.id = x.product_id
+        ),
+        combo_costs as (
+            select
+                co.id as combo_id,
+                round(coalesce(co.packaging_cost, 0), 2)
+                    + coalesce(sum(round(coalesce(p.cost_price, 0), 2) * greatest(ci.qty, 1)), 0) as unit_cost
+            from public.combos co
+            join public.combo_items ci on ci.combo_id = co.id
+            join public.products p on p.id = ci.product_id
+            group by co.id, co.packaging_cost
+        ),
+        combo_lines as (
+            select
+                greatest(c.qty, 1) as qty,
+                round(c.unit_price, 2) as unit_price,
+                cc.unit_cost
+            from jsonb_to_recordset(v_combo_items) as c(combo_id uuid, qty integer, unit_price numeric)
+            join combo_costs cc on cc.combo_id = c.combo_id
+        ),
+        all_lines as (
+            select qty, unit_price, unit_cost from product_lines
+            union all
+            select qty, unit_price, unit_cost from combo_lines
+        )
+    select
+        coalesce(sum(round(unit_price * qty, 2)), 0),
+        coalesce(sum(round(unit_cost * qty, 2)), 0)
+    into v_subtotal, v_total_cost
+    from all_lines;
+
+    v_total := greatest(v_subtotal - v_discount + v_tax, 0);
+    v_profit := v_total - v_total_cost;
+
+    insert into public.orders (
+        receipt_number,
+        customer_name,
+        customer_phone,
+        notes,
+        status,
+        payment_method,
+        payment_reference,
+        subtotal_amount,
+        discount_amount,
+        tax_amount,
+        total_amount,
+        total_cost,
+        profit_amount,
+        currency,
+        created_by
+    )
+    values (
+        payload->>'receipt_number',
+        payload->>'customer_name',
+        payload->>'customer_phone',
+        payload->>'notes',
+        'completed',
+        coalesce(payload->>'payment_method', 'cash'),
+        payload->>'payment_reference',
+        v_subtotal,
+        v_discount,
+        v_tax,
+        v_total,
+        v_total_cost,
+        v_profit,
+        coalesce(payload->>'currency', 'NIO'),
+        (payload->>'created_by')::uuid
+    )
+    returning id, receipt_number into v_order_id, v_receipt_number;
+
+    insert into public.order_product_items (
+        order_id,
+        product_id,
+        qty,
+        unit_price,
+        unit_cost,
+        line_total,
+        line_cost_total
+    )
+    select
+        v_order_id,
+        x.product_id,
+        greatest(x.qty, 1),
+        round(x.unit_price, 2),
+        round(coalesce(p.cost_price, 0), 2),
+        round(round(x.unit_price, 2) * greatest(x.qty, 1), 2),
+        round(round(coalesce(p.cost_price, 0), 2) * greatest(x.qty, 1), 2)
+    from jsonb_to_recordset(v_product_items) as x(product_id uuid, qty integer, unit_price numeric)
+    join public.products p on p.id = x.product_id;
+
+    insert into public.order_combo_items (
+        order_id,
+        combo_id,
+        qty,
+        unit_price,
+        unit_cost,
+        line_total,
+        line_cost_total
+    )
+    select
+        v_order_id,
+        c.combo_id,
+        greatest(c.qty, 1),
+        round(c.unit_price, 2),
+        cc.unit_cost,
+        round(round(c.unit_price, 2) * greatest(c.qty, 1), 2),
+        round(cc.unit_cost * greatest(c.qty, 1), 2)
+    from jsonb_to_recordset(v_combo_items) as c(combo_id uuid, qty integer, unit_price numeric)
+    join (
+        select
+            co.id as combo_id,
+            round(coalesce(co.packaging_cost, 0), 2)
+                + coalesce(sum(round(coalesce(p.cost_price, 0), 2) * greatest(ci.qty, 1)), 0) as unit_cost
+        from public.combos co
+        join public.combo_items ci on ci.combo_id = co.id
+        join public.products p on p.id = ci.product_id
+        group by co.id, co.packaging_cost
+    ) as cc on cc.combo_id = c.combo_id;
+
+    -- Movements are sequenced per product (direct sale first, then each combo)
+    -- so quantity_before/after chain correctly when a product appears twice.
+    with
+        movements as (
+            select
+                x.product_id,
+                'sale'::text as movement_type,
+                null::uuid as combo_id,
+                -sum(greatest(x.qty, 1))::integer as quantity_change
+            from jsonb_to_recordset(v_product_items) as x(product_id uuid, qty integer)
+            group by x.product_id
+            union all
+            select
+                ci.product_id,
+                'combo_consumption'::text,
+                c.combo_id,
+                -sum(greatest(ci.qty, 1) * greatest(c.qty, 1))::integer
+            from jsonb_to_recordset(v_combo_items) as c(combo_id uuid, qty integer)
+            join public.combo_items ci on ci.combo_id = c.combo_id
+            group by ci.product_id, c.combo_id
+        ),
+        sequenced as (
+            select
+                m.product_id,
+                m.movement_type,
+                m.combo_id,
+                m.quantity_change,
+                coalesce(p.quantity, 0) + coalesce(
+                    sum(m.quantity_change) over (
+                        partition by m.product_id
+                        order by m.movement_type desc, m.combo_id nulls first
+                        rows between unbounded preceding and 1 preceding
+                    ),
+                    0
+                ) as quantity_before
+            from movements m
+            join public.products p on p.id = m.product_id
+        )
+    insert into public.stock_movements (
+        product_id,
+        movement_type,
+        quantity_change,
+        quantity_before,
+        quantity_after,
+        order_id,
+        combo_id,
+        created_by
+    )
+    select
+        s.product_id,
+        s.movement_type,
+        s.quantity_change,
+        s.quantity_before,
+        s.quantity_before + s.quantity_change,
+        v_order_id,
+        s.combo_id,
+        (payload->>'created_by')::uuid
+    from sequenced s;
+
+    with
+        requirements as (
+            select r.product_id, sum(r.qty)::integer as required
+            from (
+                select x.product_id, greatest(x.qty, 1) as qty
+                from jsonb_to_recordset(v_product_items) as x(product_id uuid, qty integer)
+                union all
+                select ci.product_id, greatest(ci.qty, 1) * greatest(c.qty, 1)
+                from jsonb_to_recordset(v_combo_items) as c(combo_id uuid, qty integer)
+                join public.combo_items ci on ci.combo_id = c.combo_id
+            ) as r
+            group by r.product_id
+        )
+    update public.products p
+    set
+        quantity = greatest(coalesce(p.quantity, 0) - req.required, 0),
+        status = case
+            when coalesce(p.quantity, 0) - req.required <= 0 then 'archived'
+            else p.status
+        end
+    from requirements req
+    where p.id = req.product_id;
+
+    return jsonb_build_object(
+        'success', true,
+        'order_id', v_order_id,
+        'receipt_number', v_receipt_number,
+        'subtotal_amount', v_subtotal,
+        'discount_amount', v_discount,
+        'tax_amount', v_tax,
+        'total_amount', v_total,
+        'total_cost', v_total_cost,
+        'profit_amount', v_profit
+    );
+end;
+$$;
+
+revoke all on function public.create_pos_sale(jsonb) from public;
+revoke all on function public.create_pos_sale(jsonb) from anon;
+revoke all on function public.create_pos_sale(jsonb) from authenticated;
+grant execute on function public.create_pos_sale(jsonb) to service_role;
@@ -0,0 +1,615 @@
+-- Order cancellation and refunds: line items track returned units, orders keep
+-- the refunded revenue and cost so reports can net them out.
+
+alter table public.orders
+    add column if not exists refunded_amount numeric(12, 2) not null default 0,
+    add column if not exists refunded_cost numeric(12, 2) not null default 0,
+    add column if not exists cancelled_at timestamptz;
+
+alter table public.order_product_items
+    add column if not exists refunded_qty integer not null default 0;
+
+alter table public.order_combo_items
+    add column if not exists refunded_qty integer not null default 0;
+
+create table if not exists public.order_refunds (
+    id uuid primary key default gen_random_uuid(),
+    order_id uuid not null references public.orders (id) on delete cascade,
+    refund_type text not null,
+    reason text not null,
+    amount numeric(12, 2) not null default 0,
+    cost_amount numeric(12, 2) not null default 0,
+    created_by uuid references auth.users (id),
+    created_at timestamptz not null default now(),
+    constraint order_refunds_type_check check (refund_type in ('full', 'partial'))
+);
+
+create index if not exists order_refunds_order_idx
+    on public.order_refunds (order_id, created_at desc);
+
+create table if not exists public.order_refund_items (
+    id bigserial primary key,
+    refund_id uuid not null references public.order_refunds (id) on delete cascade,
+    order_product_item_id bigint references public.order_product_items (id) on delete cascade,
+    order_combo_item_id bigint references public.order_combo_items (id) on delete cascade,
+    qty integer not null check (qty > 0),
+    amount numeric(12, 2) not null,
+    cost_amount numeric(12, 2) not null,
+    constraint order_refund_items_line_check check (
+        num_nonnulls(order_product_item_id, order_combo_item_id) = 1
+    )
+);
+
+create index if not exists order_refund_items_refund_idx
+    on public.order_refund_items (refund_id);
+
+alter table public.order_refunds enable row level security;
+alter table public.order_refund_items enable row level security;
+
+drop policy if exists "Order refunds read" on public.order_refunds;
+create policy "Order refunds read"
+    on public.order_refunds
+    for select
+    using (
+        auth.role() = 'service_role'
+        or exists (
+            select 1
+            from public.orders o
+            where o.id = order_id
+                and (o.created_by is null or o.created_by = auth.uid())
+        )
+    );
+
+drop policy if exists "Order refunds insert" on public.order_refunds;
+create policy "Order refunds insert"
+    on public.order_refunds
+    for insert
+    with check (auth.role() = 'service_role');
+
+drop policy if exists "Order refund items read" on public.order_refund_items;
+create policy "Order refund items read"
+    on public.order_refund_items
+    for select
+    using (
+        auth.role() = 'service_role'
+        or exists (
+            select 1
+            from public.order_refunds r
+            join public.orders o on o.id = r.order_id
+            where r.id = refund_id
+                and (o.created_by is null or o.created_by = auth.uid())
+        )
+    );
+
+drop policy if exists "Order refund items insert" on public.order_refund_items;
+create policy "Order refund items insert"
+    on public.order_refund_items
+    for insert
+    with check (auth.role() = 'service_role');
+
+-- Refund posting ------------------------------------------------------------
+
+-- Payload: order_id, mode ('full' | 'partial'), reason, created_by and, for
+-- partial refunds, lines: [{ line_type: 'product' | 'combo', line_id, qty }].
+-- Combo lines restock their current components since line items do not keep
+-- a snapshot of the combo recipe.
+create or replace function public.refund_order(payload jsonb)
+returns jsonb
+language plpgsql
+volatile
+security definer
+set search_path = public
+as
+$$
+declare
+    v_order_id uuid := (payload->>'order_id')::uuid;
+    v_mode text := coalesce(payload->>'mode', 'partial');
+    v_reason text := nullif(trim(coalesce(payload->>'reason', '')), '');
+    v_created_by uuid := (payload->>'created_by')::uuid;
+    v_lines jsonb := coalesce(payload->'lines', '[]'::jsonb);
+    v_order public.orders%rowtype;
+    v_resolved jsonb;
+    v_invalid jsonb;
+    v_product_ids uuid[];
+    v_ratio numeric;
+    v_amount numeric(12, 2);
+    v_cost numeric(12, 2);
+    v_remaining_units integer;
+    v_fully_refunded boolean;
+    v_movement_type text;
+    v_refund_id uuid;
+begin
+    if v_reason is null then
+        return jsonb_build_object('success', false, 'error', 'missing_reason');
+    end if;
+
+    select *
+    into v_order
+    from public.orders
+    where id = v_order_id
+    for update;
+
+    if not found then
+        return jsonb_build_object('success', false, 'error', 'order_not_found');
+    end if;
+
+    if v_order.status = 'cancelled' then
+        return jsonb_build_object('success', false, 'error', 'order_cancelled');
+    end if;
+
+    -- Pending and processing orders never took stock, so they can only be
+    -- cancelled outright.
+    if v_order.status <> 'completed' then
+        if v_mode <> 'full' then
+            return jsonb_build_object('success', false, 'error', 'invalid_status', 'status', v_order.status);
+        end if;
+
+        insert into public.order_refunds (order_id, refund_type, reason, amount, cost_amount, created_by)
+        values (v_order_id, 'full', v_reason, 0, 0, v_created_by)
+        returning id into v_refund_id;
+
+        update public.orders
+        set status = 'cancelled', cancelled_at = now()
+        where id = v_order_id;
+
+        return jsonb_build_object(
+            'success', true,
+            'refund_id', v_refund_id,
+            'refund_amount', 0,
+            'refund_cost', 0,
+            'order_status', 'cancelled'
+        );
+    end if;
+
+    if v_mode = 'full' then
+        select coalesce(jsonb_agg(l), '[]'::jsonb)
+        into v_resolved
+        from (
+            select
+                'product'::text as line_type,
+                i.id as line_id,
+                i.product_id,
+                null::uuid as combo_id,
+                i.qty - i.refunded_qty as qty,
+                i.unit_price,
+                i.unit_cost
+            from public.order_product_items i
+            where i.order_id = v_order_id
+                and i.qty > i.refunded_qty
+            union all
+            select
+                'combo'::text,
+                i.id,
+                null::uuid,
+                i.combo_id,
+                i.qty - i.refunded_qty,
+                i.unit_price,
+                i.unit_cost
+            from public.order_combo_items i
+            where i.order_id = v_order_id
+                and i.qty > i.refunded_qty
+        ) as l;
+    else
+        if jsonb_array_length(v_lines) = 0 then
+            return jsonb_build_object('success', false, 'error', 'nothing_to_refund');
+        end if;
+
+        with
+            requested as (
+                select r.line_type, r.line_id, sum(r.qty)::integer as qty
+                from jsonb_to_recordset(v_lines) as r(line_type text, line_id bigint, qty integer)
+                group by r.line_type, r.line_id
+            ),
+            available as (
+                select 'product'::text as line_type, i.id as line_id, i.qty - i.refunded_qty as remaining
+                from public.order_product_items i
+                where i.order_id = v_order_id
+                union all
+                select 'combo'::text, i.id, i.qty - i.refunded_qty
+                from public.order_combo_items i
+                where i.order_id = v_order_id
+            )
+        select jsonb_agg(
+            jsonb_build_object(
+                'line_type', r.line_type,
+                'line_id', r.line_id,
+                'requested', r.qty,
+                'available', coalesce(a.remaining, 0)
+            )
+        )
+        into v_invalid
+        from requested r
+        left join available a on a.line_type = r.line_type and a.line_id = r.line_id
+        where a.line_id is null
+            or coalesce(r.qty, 0) <= 0
+            or r.qty > a.remaining;
+
+        if v_invalid is not null then
+            return jsonb_build_object('success', false, 'error', 'invalid_lines', 'lines', v_invalid);
+        end if;
+
+        with
+            requested as (
+                select r.line_type, r.line_id, sum(r.qty)::integer as qty
+                from jsonb_to_recordset(v_lines) as r(line_type text, line_id bigint, qty integer)
+                group by r.line_type, r.line_id
+            )
+        select coalesce(jsonb_agg(l), '[]'::jsonb)
+        into v_resolved
+        from (
+            select
+                'product'::text as line_type,
+                i.id as line_id,
+                i.product_id,
+                null::uuid as combo_id,
+                r.qty,
+                i.unit_price,
+                i.unit_cost
+            from requested r
+            join public.order_product_items i on i.id = r.line_id
+            where r.line_type = 'product'
+            union all
+            select
+                'combo'::text,
+                i.id,
+                null::uuid,
+                i.combo_id,
+                r.qty,
+                i.unit_price,
+                i.unit_cost
+            from requested r
+            join public.order_combo_items i on i.id = r.line_id
+            where r.line_type = 'combo'
+        ) as l;
+    end if;
+
+    select coalesce(sum(units), 0)::integer
+    into v_remaining_units
+    from (
+        select i.qty - i.refunded_qty as units
+        from public.order_product_items i
+        where i.order_id = v_order_id
+        union all
+        select i.qty - i.refunded_qty
+        from public.order_combo_items i
+        where i.order_id = v_order_id
+    ) as remaining;
+
+    select v_remaining_units - coalesce(sum(x.qty), 0)::integer
+    into v_remaining_units
+    from jsonb_to_recordset(v_resolved) as x(qty integer);
+
+    v_fully_refunded := v_mode = 'full' or v_remaining_units <= 0;
+    v_movement_type := case when v_fully_refunded then 'cancellation' else 'return' end;
+
+    -- Line prices are pre-discount and pre-tax; scale them so the refund matches
+    -- what the customer actually paid for those units.
+    v_ratio := case
+        when v_order.subtotal_amount > 0 then v_order.total_amount / v_order.subtotal_amount
+        else 1
+    end;
+
+    select
+        coalesce(sum(round(x.unit_price * x.qty * v_ratio, 2)), 0),
+        coalesce(sum(round(x.unit_cost * x.qty, 2)), 0)
+    into v_amount, v_cost
+    from jsonb_to_recordset(v_resolved) as x(qty integer, unit_price numeric, unit_cost numeric);
+
+    if v_fully_refunded then
+        -- The last refund absorbs any rounding left over from earlier partials.
+        v_amount := v_order.total_amount - v_order.refunded_amount;
+        v_cost := v_order.total_cost - v_order.refunded_cost;
+    end if;
+
+    v_amount := greatest(least(v_amount, v_order.total_amount - v_order.refunded_amount), 0);
+    v_cost := greatest(v_cost, 0);
+
+    select coalesce(array_agg(distinct ids.product_id), '{}')
+    into v_product_ids
+    from (
+        select x.product_id
+        from jsonb_to_recordset(v_resolved) as x(line_type text, product_id uuid)
+        where x.line_type = 'product'
+        union
+        select ci.product_id
+        from jsonb_to_recordset(v_resolved) as x(line_type text, combo_id uuid)
+        join public.combo_items ci on ci.combo_id = x.combo_id
+        where x.line_type = 'combo'
+    ) as ids;
+
+    perform 1
+    from public.products
+    where id = any(v_product_ids)
+    order by id
+    for update;
+
+    with
+        movements as (
+            select
+                x.product_id,
+                null::uuid as combo_id,
+                sum(x.qty)::integer as quantity_change
+            from jsonb_to_recordset(v_resolved) as x(line_type text, product_id uuid, qty integer)
+            where x.line_type = 'product'
+            group by x.product_id
+            union all
+            select
+                ci.product_id,
+                x.combo_id,
+                sum(greatest(ci.qty, 1) * x.qty)::integer
+            from jsonb_to_recordset(v_resolved) as x(line_type text, combo_id uuid, qty integer)
+            join public.combo_items ci on ci.combo_id = x.combo_id
+            where x.line_type = 'combo'
+            group by ci.product_id, x.combo_id
+        ),
+        sequenced as (
+            select
+                m.product_id,
+                m.combo_id,
+                m.quantity_change,
+                coalesce(p.quantity, 0) + coalesce(
+                    sum(m.quantity_change) over (
+                        partition by m.product_id
+                        order by m.combo_id nulls first
+                        rows between unbounded preceding and 1 preceding
+                    ),
+                    0
+                ) as quantity_before
+            from movements m
+            join public.products p on p.id = m.product_id
+        )
+    insert into public.stock_movements (
+        product_id,
+        movement_type,
+        quantity_change,
+        quantity_before,
+        quantity_after,
+        order_id,
+        combo_id,
+        notes,
+        created_by
+    )
+    select
+        s.product_id,
+        v_movement_type,
+        s.quantity_change,
+        s.quantity_before,
+        s.quantity_before + s.quantity_change,
+        v_order_id,
+        s.combo_id,
+        v_reason,
+        v_created_by
+    from sequenced s;
+
+    -- Products archived because a sale took them to zero come back once they
+    -- have stock again; anything archived with units on hand stays archived.
+    with
+        restock as (
+            select r.product_id, sum(r.qty)::integer as qty
+            from (
+                select x.product_id, x.qty
+                from jsonb_to_recordset(v_resolved) as x(line_type text, product_id uuid, qty integer)
+                where x.line_type = 'product'
+                union all
+                select ci.product_id, greatest(ci.qty, 1) * x.qty
+                from jsonb_to_recordset(v_resolved) as x(line_type text, combo_id uuid, qty integer)
+                join public.combo_items ci on ci.combo_id = x.combo_id
+                where x.line_type = 'combo'
+            ) as r
+            group by r.product_id
+        )
+    update public.products p
+    set
+        quantity = coalesce(p.quantity, 0) + rs.qty,
+        status = case
+            when p.status = 'archived' and coalesce(p.quantity, 0) <= 0 and rs.qty > 0 then 'active'
+            else p.status
+        end
+    from restock rs
+    where p.id = rs.product_id;
+
+    insert into public.order_refunds (order_id, refund_type, reason, amount, cost_amount, created_by)
+    values (
+        v_order_id,
+        case when v_fully_refunded then 'full' else 'partial' end,
+        v_reason,
+        v_amount,
+        v_cost,
+        v_created_by
+    )
+    returning id into v_refund_id;
+
+    insert into public.order_refund_items (
+        refund_id,
+        order_product_item_id,
+        order_combo_item_id,
+        qty,
+        amount,
+        cost_amount
+    )
+    select
+        v_refund_id,
+        case when x.line_type = 'product' then x.line_id end,
+        case when x.line_type = 'combo' then x.line_id end,
+        x.qty,
+        round(x.unit_price * x.qty * v_ratio, 2),
+        round(x.unit_cost * x.qty, 2)
+    from jsonb_to_recordset(v_resolved) as x(
+        line_type text,
+        line_id bigint,
+        qty integer,
+        unit_price numeric,
+        unit_cost numeric
+    );
+
+    update public.order_product_items i
+    set refunded_qty = i.refunded_qty + x.qty
+    from jsonb_to_recordset(v_resolved) as x(line_type text, line_id bigint, qty integer)
+    where x.line_type = 'product'
+        and i.id = x.line_id;
+
+    update public.order_combo_items i
+    set refunded_qty = i.refunded_qty + x.qty
+    from jsonb_to_recordset(v_resolved) as x(line_type text, line_id bigint, qty integer)
+    where x.line_type = 'combo'
+        and i.id = x.line_id;
+
+    update public.orders
+    set
+        refunded_amount = refunded_amount + v_amount,
+        refunded_cost = refunded_cost + v_cost,
+        status = case when v_fully_refunded then 'cancelled' else status end,
+        cancelled_at = case when v_fully_refunded then now() else cancelled_at end
+    where id = v_order_id;
+
+    return jsonb_build_object(
+        'success', true,
+        'refund_id', v_refund_id,
+        'refund_amount', v_amount,
+        'refund_cost', v_cost,
+        'order_status', case when v_fully_refunded then 'cancelled' else v_order.status end
+    );
+end;
+$$;
+
+revoke all on function public.refund_order(jsonb) from public;
+revoke all on function public.refund_order(jsonb) from anon;
+revoke all on function public.refund_order(jsonb) from authenticated;
+grant execute on function public.refund_order(jsonb) to service_role;
+
+-- Dashboard totals net out partial refunds ----------------------------------
+
+create or replace function public.dashboard_overview()
+returns table (
+    product_count bigint,
+    active_product_count bigint,
+    combo_count bigint,
+    category_count bigint,
+    orders_last_30 bigint,
+    revenue_last_30 numeric,
+    profit_last_30 numeric,
+    inventory_units numeric,
+    inventory_value numeric,
+    zero_stock_count bigint,
+    low_stock_products jsonb,
+    sales_last_7 jsonb,
+    recent_products jsonb,
+    recent_combos jsonb
+)
+language plpgsql
+stable
+as
+$$
+begin
+    return query
+    with
+        recent_orders as (
+            select *
+            from public.orders
+            where status = 'completed'
+                and created_at >= now() - interval '30 days'
+        ),
+        date_series as (
+            select generate_series(
+                (current_date - interval '6 days')::date,
+                current_date,
+                interval '1 day'
+            ) as sale_date
+        ),
+        sales_last_week as (
+            select
+                d.sale_date,
+                coalesce(sum(o.total_amount - o.refunded_amount), 0) as total_amount,
+                coalesce(sum(o.profit_amount - (o.refunded_amount - o.refunded_cost)), 0) as profit_amount,
+                count(o.id) as order_count
+            from date_series d
+            left join public.orders o on date_trunc('day', o.created_at)::date = d.sale_date
+                and o.status = 'completed'
+            group by d.sale_date
+            order by d.sale_date
+        ),
+        low_stock as (
+            select id, name, quantity
+            from public.products
+            where status = 'active'
+                and quantity is not null
+                and quantity <= 5
+            order by quantity asc, name asc
+            limit 5
+        )
+    select
+        (select count(*) from public.products) as product_count,
+        (
+            select count(*)
+            from public.products
+            where coalesce(status, 'active') = 'active'
+        ) as active_product_count,
+        (select count(*) from public.combos) as combo_count,
+        (select count(*) from public.categories) as category_count,
+        (select count(*) from recent_orders) as orders_last_30,
+        (
+            select coalesce(sum(total_amount - refunded_amount), 0)
+            from recent_orders
+        ) as revenue_last_30,
+        (
+            select coalesce(sum(profit_amount - (refunded_amount - refunded_cost)), 0)
+            from recent_orders
+        ) as profit_last_30,
+        (
+            select coalesce(sum(greatest(quantity, 0)), 0)
+            from public.products
+            where coalesce(status, 'active') <> 'archived'
+        ) as inventory_units,
+        (
+            select coalesce(sum(cost_price * greatest(quantity, 0)), 0)
+            from public.products
+            where coalesce(status, 'active') <> 'archived'
+        ) as inventory_value,
+        (
+            select count(*)
+            from public.products
+            where coalesce(status, 'active') = 'active'
+              and coalesce(quantity, 0) <= 0
+        ) as zero_stock_count,
+        (
+            select coalesce(jsonb_agg(row_to_json(ls)), '[]'::jsonb)
+            from (
+                select id, name, quantity
+                from low_stock
+            ) as ls
+        ) as low_stock_products,
+        (
+            select coalesce(
+                jsonb_agg(
+                    jsonb_build_object(
+                        'sale_date', to_char(sale_date, 'YYYY-MM-DD'),
+                        'total_amount', total_amount,
+                        'profit_amount', profit_amount,
+                        'order_count', order_count
+                    )
+                    order by sale_date
+                ),
+                '[]'::jsonb
+            )
+            from sales_last_week
+        ) as sales_last_7,
+        (
+            select coalesce(jsonb_agg(row_to_json(row)), '[]'::jsonb)
+            from (
+                select id, name, created_at
+                from public.products
+                order by created_at desc
+                limit 5
+            ) as row
+        ) as recent_products,
+        (
+            select coalesce(jsonb_agg(row_to_json(row)), '[]'::jsonb)
+            from (
+                select id, name, created_at
+                from public.combos
+                order by created_at desc
+                limit 5
+            ) as row
+        ) as recent_combos;
+end;
+$$;
@@ -0,0 +1,175 @@
+-- Storefront orders are priced on the server: the cart is validated against
+-- products and stored as real line items with their unit cost.
+
+alter table public.orders
+    add column if not exists price_review_required boolean not null default false;
+
+-- Payload: customer_name, customer_phone, customer_email, notes,
+-- payment_method, currency and items: [{ product_id, qty, expected_price }].
+-- expected_price is the price the shopper saw; any difference with the
+-- current sell_price rejects the order so the cart can be refreshed.
+create or replace function public.create_storefront_order(payload jsonb)
+returns jsonb
+language plpgsql
+volatile
+security definer
+set search_path = public
+as
+$$
+declare
+    v_items jsonb := coalesce(payload->'items', '[]'::jsonb);
+    v_unavailable jsonb;
+    v_short jsonb;
+    v_price_changes jsonb;
+    v_price_review boolean;
+    v_subtotal numeric(12, 2);
+    v_total_cost numeric(12, 2);
+    v_order_id uuid;
+begin
+    if jsonb_array_length(v_items) = 0 then
+        return jsonb_build_object('success', false, 'error', 'empty_order');
+    end if;
+
+    with
+        requested as (
+            select x.product_id, sum(greatest(x.qty, 1))::integer as qty
+            from jsonb_to_recordset(v_items) as x(product_id uuid, qty integer)
+            group by x.product_id
+        )
+    select jsonb_agg(
+        jsonb_build_object('product_id', r.product_id, 'name', p.name)
+    )
+    into v_unavailable
+    from requested r
+    left join public.products p on p.id = r.product_id
+    where p.id is null
+        or coalesce(p.status, 'active') <> 'active';
+
+    if v_unavailable is not null then
+        return jsonb_build_object('success', false, 'error', 'unavailable_products', 'products', v_unavailable);
+    end if;
+
+    with
+        requested as (
+            select x.product_id, sum(greatest(x.qty, 1))::integer as qty
+            from jsonb_to_recordset(v_items) as x(product_id uuid, qty integer)
+            group by x.product_id
+        )
+    select jsonb_agg(
+        jsonb_build_object(
+            'product_id', p.id,
+            'name', p.name,
+            'available', coalesce(p.quantity, 0),
+            'required', r.qty
+        )
+        order by p.name
+    )
+    into v_short
+    from requested r
+    join public.products p on p.id = r.product_id
+    where coalesce(p.quantity, 0) < r.qty;
+
+    if v_short is not null then
+        return jsonb_build_object('success', false, 'error', 'insufficient_stock', 'short_products', v_short);
+    end if;
+
+    select jsonb_agg(
+        jsonb_build_object(
+            'product_id', p.id,
+            'name', p.name,
+            'expected_price', x.expected_price,
+            'current_price', p.sell_price
+        )
+        order by p.name
+    )
+    into v_price_changes
+    from jsonb_to_recordset(v_items) as x(product_id uuid, expected_price numeric)
+    join public.products p on p.id = x.product_id
+    where round(x.expected_price, 2) is distinct from round(p.sell_price, 2);
+
+    if v_price_changes is not null then
+        return jsonb_build_object('success', false, 'error', 'price_changed', 'price_changes', v_price_changes);
+    end if;
+
+    -- Products without a sell price are accepted at zero and the order is
+    -- flagged so the team confirms the amount with the customer.
+    select
+        bool_or(p.sell_price is null),
+        coalesce(sum(round(coalesce(p.sell_price, 0), 2) * greatest(x.qty, 1)), 0),
+        coalesce(sum(round(coalesce(p.cost_price, 0), 2) * greatest(x.qty, 1)), 0)
+    into v_price_review, v_subtotal, v_total_cost
+    from jsonb_to_recordset(v_items) as x(product_id uuid, qty integer)
+    join public.products p on p.id = x.product_id;
+
+    insert into public.orders (
+        customer_name,
+        customer_phone,
+        customer_email,
+        notes,
+        status,
+        payment_method,
+        subtotal_amount,
+        discount_amount,
+        tax_amount,
+        total_amount,
+        total_cost,
+        profit_amount,
+        price_review_required,
+        currency
+    )
+    values (
+        payload->>'customer_name',
+        payload->>'customer_phone',
+        payload->>'customer_email',
+        payload->>'notes',
+        'pending',
+        coalesce(payload->>'payment_method', 'cash'),
+        v_subtotal,
+        0,
+        0,
+        v_subtotal,
+        v_total_cost,
+        v_subtotal - v_total_cost,
+        coalesce(v_price_review, false),
+        coalesce(payload->>'currency', 'NIO')
+    )
+    returning id into v_order_id;
+
+    insert into public.order_product_items (
+        order_id,
+        product_id,
+        qty,
+        unit_price,
+        unit_cost,
+        line_total,
+        line_cost_total
+    )
+    select
+        v_order_id,
+        p.id,
+        r.qty,
+        round(coalesce(p.sell_price, 0), 2),
+        round(coalesce(p.cost_price, 0), 2),
+        round(round(coalesce(p.sell_price, 0), 2) * r.qty, 2),
+        round(round(coalesce(p.cost_price, 0), 2) * r.qty, 2)
+    from (
+        select x.product_id, sum(greatest(x.qty, 1))::integer as qty
+        from jsonb_to_recordset(v_items) as x(product_id uuid, qty integer)
+        group by x.product_id
+    ) as r
+    join public.products p on p.id = r.product_id;
+
+    return jsonb_build_object(
+        'success', true,
+        'order_id', v_order_id,
+        'subtotal_amount', v_subtotal,
+        'total_amount', v_subtotal,
+        'price_review_required', coalesce(v_price_review, false)
+    );
+end;
+$$;
+
+revoke all on function public.create_storefront_order(jsonb) from public;
+revoke all on function public.create_storefront_order(jsonb) from anon;
+revoke all on function public.create_storefront_order(jsonb) from authenticated;
+grant execute on function public.create_storefront_order(jsonb) to service_role;
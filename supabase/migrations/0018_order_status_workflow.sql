@@ -0,0 +1,626 @@
+-- Order status workflow: pending -> processing -> completed with stock held
+-- while an order is prepared and a timestamped history of every change.
+
+create table if not exists public.order_status_history (
+    id bigserial primary key,
+    order_id uuid not null references public.orders (id) on delete cascade,
+    from_status text,
+    to_status text not null,
+    notes text,
+    created_by uuid references auth.users (id),
+    created_at timestamptz not null default now()
+);
+
+create index if not exists order_status_history_order_idx
+    on public.order_status_history (order_id, created_at);
+
+create table if not exists public.stock_reservations (
+    id bigserial primary key,
+    order_id uuid not null references public.orders (id) on delete cascade,
+    product_id uuid not null references public.products (id) on delete cascade,
+    qty integer not null check (qty > 0),
+    status text not null default 'active',
+    created_by uuid references auth.users (id),
+    created_at timestamptz not null default now(),
+    closed_at timestamptz,
+    constraint stock_reservations_status_check check (status in ('active', 'released', 'fulfilled'))
+);
+
+create index if not exists stock_reservations_active_product_idx
+    on public.stock_reservations (product_id)
+    where status = 'active';
+create index if not exists stock_reservations_order_idx
+    on public.stock_reservations (order_id);
+
+alter table public.order_status_history enable row level security;
+alter table public.stock_reservations enable row level security;
+
+drop policy if exists "Order status history read" on public.order_status_history;
+create policy "Order status history read"
+    on public.order_status_history
+    for select
+    using (
+        auth.role() = 'service_role'
+        or exists (
+            select 1
+            from public.orders o
+            where o.id = order_id
+                and (o.created_by is null or o.created_by = auth.uid())
+        )
+    );
+
+drop policy if exists "Order status history insert" on public.order_status_history;
+create policy "Order status history insert"
+    on public.order_status_history
+    for insert
+    with check (auth.role() = 'service_role');
+
+drop policy if exists "Stock reservations read" on public.stock_reservations;
+create policy "Stock reservations read"
+    on public.stock_reservations
+    for select
+    using (auth.role() = 'authenticated' or auth.role() = 'service_role');
+
+drop policy if exists "Stock reservations write" on public.stock_reservations;
+create policy "Stock reservations write"
+    on public.stock_reservations
+    for all
+    using (auth.role() = 'service_role')
+    with check (auth.role() = 'service_role');
+
+-- Status history ------------------------------------------------------------
+
+-- Functions that change a status can set app.actor_id and app.status_note
+-- (transaction-local) so the history row records who did it and why.
+create or replace function public.handle_order_status_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as
+$$
+begin
+    if tg_op = 'UPDATE' and new.status is not distinct from old.status then
+        return new;
+    end if;
+
+    insert into public.order_status_history (order_id, from_status, to_status, notes, created_by)
+    values (
+        new.id,
+        case when tg_op = 'UPDATE' then old.status end,
+        new.status,
+        nullif(current_setting('app.status_note', true), ''),
+        coalesce(
+            nullif(current_setting('app.actor_id', true), '')::uuid,
+            case when tg_op = 'INSERT' then new.created_by end
+        )
+    );
+
+    -- Reservations only hold stock while an order is being prepared.
+    if new.status <> 'processing' then
+        update public.stock_reservations
+        set status = 'released', closed_at = now()
+        where order_id = new.id
+            and status = 'active';
+    end if;
+
+    return new;
+end;
+$$;
+
+drop trigger if exists orders_status_change on public.orders;
+create trigger orders_status_change
+after insert or update of status on public.orders
+for each row
+execute procedure public.handle_order_status_change();
+
+-- Stock consumption ---------------------------------------------------------
+
+-- Decrements stock for every line of an order, archiving products that reach
+-- zero and writing the matching ledger rows. Callers lock the products first.
+create or replace function public.consume_order_stock(p_order_id uuid, p_created_by uuid)
+returns void
+language plpgsql
+volatile
+security definer
+set search_path = public
+as
+$$
+begin
+    with
+        movements as (
+            select
+                i.product_id,
+                'sale'::text as movement_type,
+                null::uuid as combo_id,
+                -sum(i.qty)::integer as quantity_change
+            from public.order_product_items i
+            where i.order_id = p_order_id
+            group by i.product_id
+            union all
+            select
+                ci.product_id,
+                'combo_consumption'::text,
+                i.combo_id,
+                -sum(greatest(ci.qty, 1) * i.qty)::integer
+            from public.order_combo_items i
+            join public.combo_items ci on ci.combo_id = i.combo_id
+            where i.order_id = p_order_id
+            group by ci.product_id, i.combo_id
+        ),
+        sequenced as (
+            select
+                m.product_id,
+                m.movement_type,
+                m.combo_id,
+                m.quantity_change,
+                coalesce(p.quantity, 0) + coalesce(
+                    sum(m.quantity_change) over (
+                        partition by m.product_id
+                        order by m.movement_type desc, m.combo_id nulls first
+                        rows between unbounded preceding and 1 preceding
+                    ),
+                    0
+                ) as quantity_before
+            from movements m
+            join public.products p on p.id = m.product_id
+        )
+    insert into public.stock_movements (
+        product_id,
+        movement_type,
+        quantity_change,
+        quantity_before,
+        quantity_after,
+        order_id,
+        combo_id,
+        created_by
+    )
+    select
+        s.product_id,
+        s.movement_type,
+        s.quantity_change,
+        s.quantity_before,
+        s.quantity_before + s.quantity_change,
+        p_order_id,
+        s.combo_id,
+        p_created_by
+    from sequenced s;
+
+    with
+        requirements as (
+            select r.product_id, sum(r.qty)::integer as required
+            from (
+                select i.product_id, i.qty
+                from public.order_product_items i
+                where i.order_id = p_order_id
+                union all
+                select ci.product_id, greatest(ci.qty, 1) * i.qty
+                from public.order_combo_items i
+                join public.combo_items ci on ci.combo_id = i.combo_id
+                where i.order_id = p_order_id
+            ) as r
+            group by r.product_id
+        )
+    update public.products p
+    set
+        quantity = greatest(coalesce(p.quantity, 0) - req.required, 0),
+        status = case
+            when coalesce(p.quantity, 0) - req.required <= 0 then 'archived'
+            else p.status
+        end
+    from requirements req
+    where p.id = req.product_id;
+end;
+$$;
+
+revoke all on function public.consume_order_stock(uuid, uuid) from public;
+revoke all on function public.consume_order_stock(uuid, uuid) from anon;
+revoke all on function public.consume_order_stock(uuid, uuid) from authenticated;
+grant execute on function public.consume_order_stock(uuid, uuid) to service_role;
+
+-- POS sales share the consumption step --------------------------------------
+
+create or replace function public.create_pos_sale(payload jsonb)
+returns jsonb
+language plpgsql
+volatile
+security definer
+set search_path = public
+as
+$$
+declare
+    v_product_items jsonb := coalesce(payload->'product_items', '[]'::jsonb);
+    v_combo_items jsonb := coalesce(payload->'combo_items', '[]'::jsonb);
+    v_discount numeric(12, 2) := greatest(round(coalesce((payload->>'discount_amount')::numeric, 0), 2), 0);
+    v_tax numeric(12, 2) := greatest(round(coalesce((payload->>'tax_amount')::numeric, 0), 2), 0);
+    v_product_ids uuid[];
+    v_missing jsonb;
+    v_empty_combo text;
+    v_short jsonb;
+    v_subtotal numeric(12, 2);
+    v_total_cost numeric(12, 2);
+    v_total numeric(12, 2);
+    v_profit numeric(12, 2);
+    v_order_id uuid;
+    v_receipt_number text;
+begin
+    if jsonb_array_length(v_product_items) + jsonb_array_length(v_combo_items) = 0 then
+        return jsonb_build_object('success', false, 'error', 'empty_sale');
+    end if;
+
+    select coalesce(jsonb_agg(c.combo_id), '[]'::jsonb)
+    into v_missing
+    from jsonb_to_recordset(v_combo_items) as c(combo_id uuid)
+    where not exists (select 1 from public.combos co where co.id = c.combo_id);
+
+    if jsonb_array_length(v_missing) > 0 then
+        return jsonb_build_object('success', false, 'error', 'missing_combos', 'combo_ids', v_missing);
+    end if;
+
+    select co.name
+    into v_empty_combo
+    from jsonb_to_recordset(v_combo_items) as c(combo_id uuid)
+    join public.combos co on co.id = c.combo_id
+    where not exists (select 1 from public.combo_items ci where ci.combo_id = c.combo_id)
+    limit 1;
+
+    if v_empty_combo is not null then
+        return jsonb_build_object('success', false, 'error', 'empty_combo', 'combo_name', v_empty_combo);
+    end if;
+
+    select coalesce(array_agg(distinct ids.product_id), '{}')
+    into v_product_ids
+    from (
+        select x.product_id
+        from jsonb_to_recordset(v_product_items) as x(product_id uuid)
+        union
+        select ci.product_id
+        from jsonb_to_recordset(v_combo_items) as c(combo_id uuid)
+        join public.combo_items ci on ci.combo_id = c.combo_id
+    ) as ids;
+
+    -- Lock every product touched by the sale in a stable order so concurrent
+    -- sales of the same units serialize instead of overselling.
+    perform 1
+    from public.products
+    where id = any(v_product_ids)
+    order by id
+    for update;
+
+    select coalesce(jsonb_agg(ids.product_id), '[]'::jsonb)
+    into v_missing
+    from unnest(v_product_ids) as ids(product_id)
+    where not exists (select 1 from public.products p where p.id = ids.product_id);
+
+    if jsonb_array_length(v_missing) > 0 then
+        return jsonb_build_object('success', false, 'error', 'missing_products', 'product_ids', v_missing);
+    end if;
+
+    with
+        requirements as (
+            select r.product_id, sum(r.qty)::integer as required
+            from (
+                select x.product_id, greatest(x.qty, 1) as qty
+                from jsonb_to_recordset(v_product_items) as x(product_id uuid, qty integer)
+                union all
+                select ci.product_id, greatest(ci.qty, 1) * greatest(c.qty, 1)
+                from jsonb_to_recordset(v_combo_items) as c(combo_id uuid, qty integer)
+                join public.combo_items ci on ci.combo_id = c.combo_id
+            ) as r
+            group by r.product_id
+        )
+    select jsonb_agg(
+        jsonb_build_object(
+            'product_id', p.id,
+            'name', p.name,
+            'available', coalesce(p.quantity, 0),
+            'required', req.required
+        )
+        order by p.name
+    )
+    into v_short
+    from requirements req
+    join public.products p on p.id = req.product_id
+    where coalesce(p.quantity, 0) < req.required;
+
+    if v_short is not null then
+        return jsonb_build_object('success', false, 'error', 'insufficient_stock', 'short_products', v_short);
+    end if;
+
+    with
+        product_lines as (
+            select
+                greatest(x.qty, 1) as qty,
+                round(x.unit_price, 2) as unit_price,
+                round(coalesce(p.cost_price, 0), 2) as unit_cost
+            from jsonb_to_recordset(v_product_items) as x(product_id uuid, qty integer, unit_price numeric)
+            join public.products p on p.id = x.product_id
+        ),
+        combo_costs as (
+            select
+                co.id as combo_id,
+                round(coalesce(co.packaging_cost, 0), 2)
+                    + coalesce(sum(round(coalesce(p.cost_price, 0), 2) * greatest(ci.qty, 1)), 0) as unit_cost
+            from public.combos co
+            join public.combo_items ci on ci.combo_id = co.id
+            join public.products p on p.id = ci.product_id
+            group by co.id, co.packaging_cost
+        ),
+        combo_lines as (
+            select
+                greatest(c.qty, 1) as qty,
+                round(c.unit_price, 2) as unit_price,
+                cc.unit_cost
+            from jsonb_to_recordset(v_combo_items) as c(combo_id uuid, qty integer, unit_price numeric)
+            join combo_costs cc on cc.combo_id = c.combo_id
+        ),
+        all_lines as (
+            select qty, unit_price, unit_cost from product_lines
+            union all
+            select qty, unit_price, unit_cost from combo_lines
+        )
+    select
+        coalesce(sum(round(unit_price * qty, 2)), 0),
+        coalesce(sum(round(unit_cost * qty, 2)), 0)
+    into v_subtotal, v_total_cost
+    from all_lines;
+
+    v_total := greatest(v_subtotal - v_discount + v_tax, 0);
+    v_profit := v_total - v_total_cost;
+
+    insert into public.orders (
+        receipt_number,
+        customer_name,
+        customer_phone,
+        notes,
+        status,
+        payment_method,
+        payment_reference,
+        subtotal_amount,
+        discount_amount,
+        tax_amount,
+        total_amount,
+        total_cost,
+        profit_amount,
+        currency,
+        created_by
+    )
+    values (
+        payload->>'receipt_number',
+        payload->>'customer_name',
+        payload->>'customer_phone',
+        payload->>'notes',
+        'completed',
+        coalesce(payload->>'payment_method', 'cash'),
+        payload->>'payment_reference',
+        v_subtotal,
+        v_discount,
+        v_tax,
+        v_total,
+        v_total_cost,
+        v_profit,
+        coalesce(payload->>'currency', 'NIO'),
+        (payload->>'created_by')::uuid
+    )
+    returning id, receipt_number into v_order_id, v_receipt_number;
+
+    insert into public.order_product_items (
+        order_id,
+        product_id,
+        qty,
+        unit_price,
+        unit_cost,
+        line_total,
+        line_cost_total
+    )
+    select
+        v_order_id,
+        x.product_id,
+        greatest(x.qty, 1),
+        round(x.unit_price, 2),
+        round(coalesce(p.cost_price, 0), 2),
+        round(round(x.unit_price, 2) * greatest(x.qty, 1), 2),
+        round(round(coalesce(p.cost_price, 0), 2) * greatest(x.qty, 1), 2)
+    from jsonb_to_recordset(v_product_items) as x(product_id uuid, qty integer, unit_price numeric)
+    join public.products p on p.id = x.product_id;
+
+    insert into public.order_combo_items (
+        order_id,
+        combo_id,
+        qty,
+        unit_price,
+        unit_cost,
+        line_total,
+        line_cost_total
+    )
+    select
+        v_order_id,
+        c.combo_id,
+        greatest(c.qty, 1),
+        round(c.unit_price, 2),
+        cc.unit_cost,
+        round(round(c.unit_price, 2) * greatest(c.qty, 1), 2),
+        round(cc.unit_cost * greatest(c.qty, 1), 2)
+    from jsonb_to_recordset(v_combo_items) as c(combo_id uuid, qty integer, unit_price numeric)
+    join (
+        select
+            co.id as combo_id,
+            round(coalesce(co.packaging_cost, 0), 2)
+                + coalesce(sum(round(coalesce(p.cost_price, 0), 2) * greatest(ci.qty, 1)), 0) as unit_cost
+        from public.combos co
+        join public.combo_items ci on ci.combo_id = co.id
+        join public.products p on p.id = ci.product_id
+        group by co.id, co.packaging_cost
+    ) as cc on cc.combo_id = c.combo_id;
+
+    perform public.consume_order_stock(v_order_id, (payload->>'created_by')::uuid);
+
+    return jsonb_build_object(
+        'success', true,
+        'order_id', v_order_id,
+        'receipt_number', v_receipt_number,
+        'subtotal_amount', v_subtotal,
+        'discount_amount', v_discount,
+        'tax_amount', v_tax,
+        'total_amount', v_total,
+        'total_cost', v_total_cost,
+        'profit_amount', v_profit
+    );
+end;
+$$;
+
+revoke all on function public.create_pos_sale(jsonb) from public;
+revoke all on function public.create_pos_sale(jsonb) from anon;
+revoke all on function public.create_pos_sale(jsonb) from authenticated;
+grant execute on function public.create_pos_sale(jsonb) to service_role;
+
+-- Status transitions --------------------------------------------------------
+
+-- Payload: order_id, status (target), notes, created_by.
+-- Allowed: pending -> processing, processing -> completed, processing -> pending.
+-- Cancellations go through refund_order so the reason is recorded.
+create or replace function public.transition_order_status(payload jsonb)
+returns jsonb
+language plpgsql
+volatile
+security definer
+set search_path = public
+as
+$$
+declare
+    v_order_id uuid := (payload->>'order_id')::uuid;
+    v_to text := payload->>'status';
+    v_created_by uuid := (payload->>'created_by')::uuid;
+    v_order public.orders%rowtype;
+    v_product_ids uuid[];
+    v_short jsonb;
+begin
+    select *
+    into v_order
+    from public.orders
+    where id = v_order_id
+    for update;
+
+    if not found then
+        return jsonb_build_object('success', false, 'error', 'order_not_found');
+    end if;
+
+    if not (
+        (v_order.status = 'pending' and v_to = 'processing')
+        or (v_order.status = 'processing' and v_to in ('completed', 'pending'))
+    ) then
+        return jsonb_build_object(
+            'success', false,
+            'error', 'invalid_transition',
+            'from', v_order.status,
+            'to', v_to
+        );
+    end if;
+
+    perform set_config('app.actor_id', coalesce(v_created_by::text, ''), true);
+    perform set_config('app.status_note', coalesce(payload->>'notes', ''), true);
+
+    if v_to in ('processing', 'completed') then
+        if not exists (select 1 from public.order_product_items where order_id = v_order_id)
+            and not exists (select 1 from public.order_combo_items where order_id = v_order_id) then
+            return jsonb_build_object('success', false, 'error', 'empty_order');
+        end if;
+
+        select coalesce(array_agg(distinct ids.product_id), '{}')
+        into v_product_ids
+        from (
+            select i.product_id
+            from public.order_product_items i
+            where i.order_id = v_order_id
+            union
+            select ci.product_id
+            from public.order_combo_items i
+            join public.combo_items ci on ci.combo_id = i.combo_id
+            where i.order_id = v_order_id
+        ) as ids;
+
+        perform 1
+        from public.products
+        where id = any(v_product_ids)
+        order by id
+        for update;
+
+        -- Units held by other orders are not available to this one.
+        with
+            requirements as (
+                select r.product_id, sum(r.qty)::integer as required
+                from (
+                    select i.product_id, i.qty
+                    from public.order_product_items i
+                    where i.order_id = v_order_id
+                    union all
+                    select ci.product_id, greatest(ci.qty, 1) * i.qty
+                    from public.order_combo_items i
+                    join public.combo_items ci on ci.combo_id = i.combo_id
+                    where i.order_id = v_order_id
+                ) as r
+                group by r.product_id
+            ),
+            reserved as (
+                select sr.product_id, sum(sr.qty)::integer as qty
+                from public.stock_reservations sr
+                where sr.status = 'active'
+                    and sr.order_id <> v_order_id
+                group by sr.product_id
+            )
+        select jsonb_agg(
+            jsonb_build_object(
+                'product_id', p.id,
+                'name', p.name,
+                'available', greatest(coalesce(p.quantity, 0) - coalesce(rs.qty, 0), 0),
+                'required', req.required
+            )
+            order by p.name
+        )
+        into v_short
+        from requirements req
+        join public.products p on p.id = req.product_id
+        left join reserved rs on rs.product_id = req.product_id
+        where coalesce(p.quantity, 0) - coalesce(rs.qty, 0) < req.required;
+
+        if v_short is not null then
+            return jsonb_build_object('success', false, 'error', 'insufficient_stock', 'short_products', v_short);
+        end if;
+    end if;
+
+    if v_to = 'processing' then
+        insert into public.stock_reservations (order_id, product_id, qty, created_by)
+        select v_order_id, r.product_id, sum(r.qty)::integer, v_created_by
+        from (
+            select i.product_id, i.qty
+            from public.order_product_items i
+            where i.order_id = v_order_id
+            union all
+            select ci.product_id, greatest(ci.qty, 1) * i.qty
+            from public.order_combo_items i
+            join public.combo_items ci on ci.combo_id = i.combo_id
+            where i.order_id = v_order_id
+        ) as r
+        group by r.product_id;
+    elsif v_to = 'completed' then
+        update public.stock_reservations
+        set status = 'fulfilled', closed_at = now()
+        where order_id = v_order_id
+            and status = 'active';
+
+        perform public.consume_order_stock(v_order_id, v_created_by);
+    end if;
+
+    -- Moving back to pending releases the reservations through the trigger.
+    update public.orders
+    set status = v_to
+    where id = v_order_id;
+
+    return jsonb_build_object('success', true, 'order_id', v_order_id, 'status', v_to);
+end;
+$$;
+
+revoke all on function public.transition_order_status(jsonb) from public;
+revoke all on function public.transition_order_status(jsonb) from anon;
+revoke all on function public.transition_order_status(jsonb) from authenticated;
+grant execute on function public.transition_order_status(jsonb) to service_role;
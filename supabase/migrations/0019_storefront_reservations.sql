@@ -0,0 +1,711 @@
+-- Storefront reservations: pending web orders hold their units for a limited
+-- time so the POS and the catalog stop offering them.
+
+alter table public.stock_reservations
+    add column if not exists expires_at timestamptz;
+
+alter table public.stock_reservations
+    drop constraint if exists stock_reservations_status_check;
+alter table public.stock_reservations
+    add constraint stock_reservations_status_check
+    check (status in ('active', 'released', 'fulfilled', 'expired'));
+
+create index if not exists stock_reservations_expiry_idx
+    on public.stock_reservations (expires_at)
+    where status = 'active';
+
+-- Units currently held per product. Expired holds are ignored even before the
+-- sweep marks them, so availability never depends on the sweep running.
+create or replace view public.product_reserved_stock as
+select sr.product_id, sum(sr.qty)::integer as reserved_qty
+from public.stock_reservations sr
+where sr.status = 'active'
+    and (sr.expires_at is null or sr.expires_at > now())
+group by sr.product_id;
+
+grant select on public.product_reserved_stock to anon, authenticated, service_role;
+
+-- Sweep ---------------------------------------------------------------------
+
+create or replace function public.release_expired_reservations()
+returns integer
+language plpgsql
+volatile
+security definer
+set search_path = public
+as
+$$
+declare
+    v_released integer;
+begin
+    update public.stock_reservations
+    set status = 'expired', closed_at = now()
+    where status = 'active'
+        and expires_at is not null
+        and expires_at <= now();
+
+    get diagnostics v_released = row_count;
+    return v_released;
+end;
+$$;
+
+revoke all on function public.release_expired_reservations() from public;
+revoke all on function public.release_expired_reservations() from anon;
+revoke all on function public.release_expired_reservations() from authenticated;
+grant execute on function public.release_expired_reservations() to service_role;
+
+do
+$$
+begin
+    if exists (select 1 from pg_extension where extname = 'pg_cron') then
+        perform cron.schedule(
+            'release-expired-reservations',
+            '*/15 * * * *',
+            'select public.release_expired_reservations()'
+        );
+    end if;
+end
+$$;
+
+-- Pending orders keep their hold --------------------------------------------
+
+create or replace function public.handle_order_status_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as
+$$
+begin
+    if tg_op = 'UPDATE' and new.status is not distinct from old.status then
+        return new;
+    end if;
+
+    insert into public.order_status_history (order_id, from_status, to_status, notes, created_by)
+    values (
+        new.id,
+        case when tg_op = 'UPDATE' then old.status end,
+        new.status,
+        nullif(current_setting('app.status_note', true), ''),
+        coalesce(
+            nullif(current_setting('app.actor_id', true), '')::uuid,
+            case when tg_op = 'INSERT' then new.created_by end
+        )
+    );
+
+    -- Reservations hold stock while an order is pending or being prepared.
+    if new.status not in ('pending', 'processing') then
+        update public.stock_reservations
+        set status = 'released', closed_at = now()
+        where order_id = new.id
+            and status = 'active';
+    end if;
+
+    return new;
+end;
+$$;
+
+-- Checkout reserves the ordered units --------------------------------------
+
+-- reservation_minutes (default 24 hours) controls how long the hold lasts.
+create or replace function public.create_storefront_order(payload jsonb)
+returns jsonb
+language plpgsql
+volatile
+security definer
+set search_path = public
+as
+$$
+declare
+    v_items jsonb := coalesce(payload->'items', '[]'::jsonb);
+    v_reservation_minutes integer := greatest(coalesce((payload->>'reservation_minutes')::integer, 1440), 1);
+    v_reserved_until timestamptz;
+    v_product_ids uuid[];
+    v_unavailable jsonb;
+    v_short jsonb;
+    v_price_changes jsonb;
+    v_price_review boolean;
+    v_subtotal numeric(12, 2);
+    v_total_cost numeric(12, 2);
+    v_order_id uuid;
+begin
+    if jsonb_array_length(v_items) = 0 then
+        return jsonb_build_object('success', false, 'error', 'empty_order');
+    end if;
+
+    with
+        requested as (
+            select x.product_id, sum(greatest(x.qty, 1))::integer as qty
+            from jsonb_to_recordset(v_items) as x(product_id uuid, qty integer)
+            group by x.product_id
+        )
+    select jsonb_agg(
+        jsonb_build_object('product_id', r.product_id, 'name', p.name)
+    )
+    into v_unavailable
+    from requested r
+    left join public.products p on p.id = r.product_id
+    where p.id is null
+        or coalesce(p.status, 'active') <> 'active';
+
+    if v_unavailable is not null then
+        return jsonb_build_object('success', false, 'error', 'unavailable_products', 'products', v_unavailable);
+    end if;
+
+    select coalesce(array_agg(distinct x.product_id), '{}')
+    into v_product_ids
+    from jsonb_to_recordset(v_items) as x(product_id uuid);
+
+    perform 1
+    from public.products
+    where id = any(v_product_ids)
+    order by id
+    for update;
+
+    with
+        requested as (
+            select x.product_id, sum(greatest(x.qty, 1))::integer as qty
+            from jsonb_to_recordset(v_items) as x(product_id uuid, qty integer)
+            group by x.product_id
+        )
+    select jsonb_agg(
+        jsonb_build_object(
+            'product_id', p.id,
+            'name', p.name,
+            'available', greatest(coalesce(p.quantity, 0) - coalesce(rs.reserved_qty, 0), 0),
+            'required', r.qty
+        )
+        order by p.name
+    )
+    into v_short
+    from requested r
+    join public.products p on p.id = r.product_id
+    left join public.product_reserved_stock rs on rs.product_id = r.product_id
+    where coalesce(p.quantity, 0) - coalesce(rs.reserved_qty, 0) < r.qty;
+
+    if v_short is not null then
+        return jsonb_build_object('success', false, 'error', 'insufficient_stock', 'short_products', v_short);
+    end if;
+
+    select jsonb_agg(
+        jsonb_build_object(
+            'product_id', p.id,
+            'name', p.name,
+            'expected_price', x.expected_price,
+            'current_price', p.sell_price
+        )
+        order by p.name
+    )
+    into v_price_changes
+    from jsonb_to_recordset(v_items) as x(product_id uuid, expected_price numeric)
+    join public.products p on p.id = x.product_id
+    where round(x.expected_price, 2) is distinct from round(p.sell_price, 2);
+
+    if v_price_changes is not null then
+        return jsonb_build_object('success', false, 'error', 'price_changed', 'price_changes', v_price_changes);
+    end if;
+
+    -- Products without a sell price are accepted at zero and the order is
+    -- flagged so the team confirms the amount with the customer.
+    select
+        bool_or(p.sell_price is null),
+        coalesce(sum(round(coalesce(p.sell_price, 0), 2) * greatest(x.qty, 1)), 0),
+        coalesce(sum(round(coalesce(p.cost_price, 0), 2) * greatest(x.qty, 1)), 0)
+    into v_price_review, v_subtotal, v_total_cost
+    from jsonb_to_recordset(v_items) as x(product_id uuid, qty integer)
+    join public.products p on p.id = x.product_id;
+
+    insert into public.orders (
+        customer_name,
+        customer_phone,
+        customer_email,
+        notes,
+        status,
+        payment_method,
+        subtotal_amount,
+        discount_amount,
+        tax_amount,
+        total_amount,
+        total_cost,
+        profit_amount,
+        price_review_required,
+        currency
+    )
+    values (
+        payload->>'customer_name',
+        payload->>'customer_phone',
+        payload->>'customer_email',
+        payload->>'notes',
+        'pending',
+        coalesce(payload->>'payment_method', 'cash'),
+        v_subtotal,
+        0,
+        0,
+        v_subtotal,
+        v_total_cost,
+        v_subtotal - v_total_cost,
+        coalesce(v_price_review, false),
+        coalesce(payload->>'currency', 'NIO')
+    )
+    returning id into v_order_id;
+
+    insert into public.order_product_items (
+        order_id,
+        product_id,
+        qty,
+        unit_price,
+        unit_cost,
+        line_total,
+        line_cost_total
+    )
+    select
+        v_order_id,
+        p.id,
+        r.qty,
+        round(coalesce(p.sell_price, 0), 2),
+        round(coalesce(p.cost_price, 0), 2),
+        round(round(coalesce(p.sell_price, 0), 2) * r.qty, 2),
+        round(round(coalesce(p.cost_price, 0), 2) * r.qty, 2)
+    from (
+        select x.product_id, sum(greatest(x.qty, 1))::integer as qty
+        from jsonb_to_recordset(v_items) as x(product_id uuid, qty integer)
+        group by x.product_id
+    ) as r
+    join public.products p on p.id = r.product_id;
+
+    v_reserved_until := now() + make_interval(mins => v_reservation_minutes);
+
+    insert into public.stock_reservations (order_id, product_id, qty, expires_at)
+    select v_order_id, x.product_id, sum(greatest(x.qty, 1))::integer, v_reserved_until
+    from jsonb_to_recordset(v_items) as x(product_id uuid, qty integer)
+    group by x.product_id;
+
+    return jsonb_build_object(
+        'success', true,
+        'order_id', v_order_id,
+        'subtotal_amount', v_subtotal,
+        'total_amount', v_subtotal,
+        'price_review_required', coalesce(v_price_review, false),
+        'reserved_until', v_reserved_until
+    );
+end;
+$$;
+
+revoke all on function public.create_storefront_order(jsonb) from public;
+revoke all on function public.create_storefront_order(jsonb) from anon;
+revoke all on function public.create_storefront_order(jsonb) from authenticated;
+grant execute on function public.create_storefront_order(jsonb) to service_role;
+
+-- POS sales cannot take reserved units --------------------------------------
+
+create or replace function public.create_pos_sale(payload jsonb)
+returns jsonb
+language plpgsql
+volatile
+security definer
+set search_path = public
+as
+$$
+declare
+    v_product_items jsonb := coalesce(payload->'product_items', '[]'::jsonb);
+    v_combo_items jsonb := coalesce(payload->'combo_items', '[]'::jsonb);
+    v_discount numeric(12, 2) := greatest(round(coalesce((payload->>'discount_amount')::numeric, 0), 2), 0);
+    v_tax numeric(12, 2) := greatest(round(coalesce((payload->>'tax_amount')::numeric, 0), 2), 0);
+    v_product_ids uuid[];
+    v_missing jsonb;
+    v_empty_combo text;
+    v_short jsonb;
+    v_subtotal numeric(12, 2);
+    v_total_cost numeric(12, 2);
+    v_total numeric(12, 2);
+    v_profit numeric(12, 2);
+    v_order_id uuid;
+    v_receipt_number text;
+begin
+    if jsonb_array_length(v_product_items) + jsonb_array_length(v_combo_items) = 0 then
+        return jsonb_build_object('success', false, 'error', 'empty_sale');
+    end if;
+
+    select coalesce(jsonb_agg(c.combo_id), '[]'::jsonb)
+    into v_missing
+    from jsonb_to_recordset(v_combo_items) as c(combo_id uuid)
+    where not exists (select 1 from public.combos co where co.id = c.combo_id);
+
+    if jsonb_array_length(v_missing) > 0 then
+        return jsonb_build_object('success', false, 'error', 'missing_combos', 'combo_ids', v_missing);
+    end if;
+
+    select co.name
+    into v_empty_combo
+    from jsonb_to_recordset(v_combo_items) as c(combo_id uuid)
+    join public.combos co on co.id = c.combo_id
+    where not exists (select 1 from public.combo_items ci where ci.combo_id = c.combo_id)
+    limit 1;
+
+    if v_empty_combo is not null then
+        return jsonb_build_object('success', false, 'error', 'empty_combo', 'combo_name', v_empty_combo);
+    end if;
+
+    select coalesce(array_agg(distinct ids.product_id), '{}')
+    into v_product_ids
+    from (
+        select x.product_id
+        from jsonb_to_recordset(v_product_items) as x(product_id uuid)
+        union
+        select ci.product_id
+        from jsonb_to_recordset(v_combo_items) as c(combo_id uuid)
+        join public.combo_items ci on ci.combo_id = c.combo_id
+    ) as ids;
+
+    -- Lock every product touched by the sale in a stable order so concurrent
+    -- sales of the same units serialize instead of overselling.
+    perform 1
+    from public.products
+    where id = any(v_product_ids)
+    order by id
+    for update;
+
+    select coalesce(jsonb_agg(ids.product_id), '[]'::jsonb)
+    into v_missing
+    from unnest(v_product_ids) as ids(product_id)
+    where not exists (select 1 from public.products p where p.id = ids.product_id);
+
+    if jsonb_array_length(v_missing) > 0 then
+        return jsonb_build_object('success', false, 'error', 'missing_products', 'product_ids', v_missing);
+    end if;
+
+    with
+        requirements as (
+            select r.product_id, sum(r.qty)::integer as required
+            from (
+                select x.product_id, greatest(x.qty, 1) as qty
+                from jsonb_to_recordset(v_product_items) as x(product_id uuid, qty integer)
+                union all
+                select ci.product_id, greatest(ci.qty, 1) * greatest(c.qty, 1)
+                from jsonb_to_recordset(v_combo_items) as c(combo_id uuid, qty integer)
+                join public.combo_items ci on ci.combo_id = c.combo_id
+            ) as r
+            group by r.product_id
+        )
+    select jsonb_agg(
+        jsonb_build_object(
+            'product_id', p.id,
+            'name', p.name,
+            'available', greatest(coalesce(p.quantity, 0) - coalesce(rs.reserved_qty, 0), 0),
+            'required', req.required
+        )
+        order by p.name
+    )
+    into v_short
+    from requirements req
+    join public.products p on p.id = req.product_id
+    left join public.product_reserved_stock rs on rs.product_id = req.product_id
+    where coalesce(p.quantity, 0) - coalesce(rs.reserved_qty, 0) < req.required;
+
+    if v_short is not null then
+        return jsonb_build_object('success', false, 'error', 'insufficient_stock', 'short_products', v_short);
+    end if;
+
+    with
+        product_lines as (
+            select
+                greatest(x.qty, 1) as qty,
+                round(x.unit_price, 2) as unit_price,
+                round(coalesce(p.cost_price, 0), 2) as unit_cost
+            from jsonb_to_recordset(v_product_items) as x(product_id uuid, qty integer, unit_price numeric)
+            join public.products p on p.id = x.product_id
+        ),
+        combo_costs as (
+            select
+                co.id as combo_id,
+                round(coalesce(co.packaging_cost, 0), 2)
+                    + coalesce(sum(round(coalesce(p.cost_price, 0), 2) * greatest(ci.qty, 1)), 0) as unit_cost
+            from public.combos co
+            join public.combo_items ci on ci.combo_id = co.id
+            join public.products p on p.id = ci.product_id
+            group by co.id, co.packaging_cost
+        ),
+        combo_lines as (
+            select
+                greatest(c.qty, 1) as qty,
+                round(c.unit_price, 2) as unit_price,
+                cc.unit_cost
+            from jsonb_to_recordset(v_combo_items) as c(combo_id uuid, qty integer, unit_price numeric)
+            join combo_costs cc on cc.combo_id = c.combo_id
+        ),
+        all_lines as (
+            select qty, unit_price, unit_cost from product_lines
+            union all
+            select qty, unit_price, unit_cost from combo_lines
+        )
+    select
+        coalesce(sum(round(unit_price * qty, 2)), 0),
+        coalesce(sum(round(unit_cost * qty, 2)), 0)
+    into v_subtotal, v_total_cost
+    from all_lines;
+
+    v_total := greatest(v_subtotal - v_discount + v_tax, 0);
+    v_profit := v_total - v_total_cost;
+
+    insert into public.orders (
+        receipt_number,
+        customer_name,
+        customer_phone,
+        notes,
+        status,
+        payment_method,
+        payment_reference,
+        subtotal_amount,
+        discount_amount,
+        tax_amount,
+        total_amount,
+        total_cost,
+        profit_amount,
+        currency,
+        created_by
+    )
+    values (
+        payload->>'receipt_number',
+        payload->>'customer_name',
+        payload->>'customer_phone',
+        payload->>'notes',
+        'completed',
+        coalesce(payload->>'payment_method', 'cash'),
+        payload->>'payment_reference',
+        v_subtotal,
+        v_discount,
+        v_tax,
+        v_total,
+        v_total_cost,
+        v_profit,
+        coalesce(payload->>'currency', 'NIO'),
+        (payload->>'created_by')::uuid
+    )
+    returning id, receipt_number into v_order_id, v_receipt_number;
+
+    insert into public.order_product_items (
+        order_id,
+        product_id,
+        qty,
+        unit_price,
+        unit_cost,
+        line_total,
+        line_cost_total
+    )
+    select
+        v_order_id,
+        x.product_id,
+        greatest(x.qty, 1),
+        round(x.unit_price, 2),
+        round(coalesce(p.cost_price, 0), 2),
+        round(round(x.unit_price, 2) * greatest(x.qty, 1), 2),
+        round(round(coalesce(p.cost_price, 0), 2) * greatest(x.qty, 1), 2)
+    from jsonb_to_recordset(v_product_items) as x(product_id uuid, qty integer, unit_price numeric)
+    join public.products p on p.id = x.product_id;
+
+    insert into public.order_combo_items (
+        order_id,
+        combo_id,
+        qty,
+        unit_price,
+        unit_cost,
+        line_total,
+        line_cost_total
+    )
+    select
+        v_order_id,
+        c.combo_id,
+        greatest(c.qty, 1),
+        round(c.unit_price, 2),
+        cc.unit_cost,
+        round(round(c.unit_price, 2) * greatest(c.qty, 1), 2),
+        round(cc.unit_cost * greatest(c.qty, 1), 2)
+    from jsonb_to_recordset(v_combo_items) as c(combo_id uuid, qty integer, unit_price numeric)
+    join (
+        select
+            co.id as combo_id,
+            round(coalesce(co.packaging_cost, 0), 2)
+                + coalesce(sum(round(coalesce(p.cost_price, 0), 2) * greatest(ci.qty, 1)), 0) as unit_cost
+        from public.combos co
+        join public.combo_items ci on ci.combo_id = co.id
+        join public.products p on p.id = ci.product_id
+        group by co.id, co.packaging_cost
+    ) as cc on cc.combo_id = c.combo_id;
+
+    perform public.consume_order_stock(v_order_id, (payload->>'created_by')::uuid);
+
+    return jsonb_build_object(
+        'success', true,
+        'order_id', v_order_id,
+        'receipt_number', v_receipt_number,
+        'subtotal_amount', v_subtotal,
+        'discount_amount', v_discount,
+        'tax_amount', v_tax,
+        'total_amount', v_total,
+        'total_cost', v_total_cost,
+        'profit_amount', v_profit
+    );
+end;
+$$;
+
+revoke all on function public.create_pos_sale(jsonb) from public;
+revoke all on function public.create_pos_sale(jsonb) from anon;
+revoke all on function public.create_pos_sale(jsonb) from authenticated;
+grant execute on function public.create_pos_sale(jsonb) to service_role;
+
+-- Preparing an order swaps the checkout hold for an open-ended one -----------
+
+create or replace function public.transition_order_status(payload jsonb)
+returns jsonb
+language plpgsql
+volatile
+security definer
+set search_path = public
+as
+$$
+declare
+    v_order_id uuid := (payload->>'order_id')::uuid;
+    v_to text := payload->>'status';
+    v_created_by uuid := (payload->>'created_by')::uuid;
+    v_order public.orders%rowtype;
+    v_product_ids uuid[];
+    v_short jsonb;
+begin
+    select *
+    into v_order
+    from public.orders
+    where id = v_order_id
+    for update;
+
+    if not found then
+        return jsonb_build_object('success', false, 'error', 'order_not_found');
+    end if;
+
+    if not (
+        (v_order.status = 'pending' and v_to = 'processing')
+        or (v_order.status = 'processing' and v_to in ('completed', 'pending'))
+    ) then
+        return jsonb_build_object(
+            'success', false,
+            'error', 'invalid_transition',
+            'from', v_order.status,
+            'to', v_to
+        );
+    end if;
+
+    perform set_config('app.actor_id', coalesce(v_created_by::text, ''), true);
+    perform set_config('app.status_note', coalesce(payload->>'notes', ''), true);
+
+    if v_to in ('processing', 'completed') then
+        if not exists (select 1 from public.order_product_items where order_id = v_order_id)
+            and not exists (select 1 from public.order_combo_items where order_id = v_order_id) then
+            return jsonb_build_object('success', false, 'error', 'empty_order');
+        end if;
+
+        select coalesce(array_agg(distinct ids.product_id), '{}')
+        into v_product_ids
+        from (
+            select i.product_id
+            from public.order_product_items i
+            where i.order_id = v_order_id
+            union
+            select ci.product_id
+            from public.order_combo_items i
+            join public.combo_items ci on ci.combo_id = i.combo_id
+            where i.order_id = v_order_id
+        ) as ids;
+
+        perform 1
+        from public.products
+        where id = any(v_product_ids)
+        order by id
+        for update;
+
+        -- Units held by other orders are not available to this one.
+        with
+            requirements as (
+                select r.product_id, sum(r.qty)::integer as required
+                from (
+                    select i.product_id, i.qty
+                    from public.order_product_items i
+                    where i.order_id = v_order_id
+                    union all
+                    select ci.product_id, greatest(ci.qty, 1) * i.qty
+                    from public.order_combo_items i
+                    join public.combo_items ci on ci.combo_id = i.combo_id
+                    where i.order_id = v_order_id
+                ) as r
+                group by r.product_id
+            ),
+            reserved as (
+                select sr.product_id, sum(sr.qty)::integer as qty
+                from public.stock_reservations sr
+                where sr.status = 'active'
+                    and (sr.expires_at is null or sr.expires_at > now())
+                    and sr.order_id <> v_order_id
+                group by sr.product_id
+            )
+        select jsonb_agg(
+            jsonb_build_object(
+                'product_id', p.id,
+                'name', p.name,
+                'available', greatest(coalesce(p.quantity, 0) - coalesce(rs.qty, 0), 0),
+                'required', req.required
+            )
+            order by p.name
+        )
+        into v_short
+        from requirements req
+        join public.products p on p.id = req.product_id
+        left join reserved rs on rs.product_id = req.product_id
+        where coalesce(p.quantity, 0) - coalesce(rs.qty, 0) < req.required;
+
+        if v_short is not null then
+            return jsonb_build_object('success', false, 'error', 'insufficient_stock', 'short_products', v_short);
+        end if;
+    end if;
+
+    -- The checkout hold (with expiry) is replaced by one that lasts while the
+    -- order is prepared; going back to pending drops the hold entirely.
+    if v_to in ('processing', 'pending') then
+        update public.stock_reservations
+        set status = 'released', closed_at = now()
+        where order_id = v_order_id
+            and status = 'active';
+    end if;
+
+    if v_to = 'processing' then
+        insert into public.stock_reservations (order_id, product_id, qty, created_by)
+        select v_order_id, r.product_id, sum(r.qty)::integer, v_created_by
+        from (
+            select i.product_id, i.qty
+            from public.order_product_items i
+            where i.order_id = v_order_id
+            union all
+            select ci.product_id, greatest(ci.qty, 1) * i.qty
+            from public.order_combo_items i
+            join public.combo_items ci on ci.combo_id = i.combo_id
+            where i.order_id = v_order_id
+        ) as r
+        group by r.product_id;
+    elsif v_to = 'completed' then
+        update public.stock_reservations
+        set status = 'fulfilled', closed_at = now()
+        where order_id = v_order_id
+            and status = 'active';
+
+        perform public.consume_order_stock(v_order_id, v_created_by);
+    end if;
+
+    update public.orders
+    set status = v_to
+    where id = v_order_id;
+
+    return jsonb_build_object('success', true, 'order_id', v_order_id, 'status', v_to);
+end;
+$$;
+
+revoke all on function public.transition_order_status(jsonb) from public;
+revoke all on function public.transition_order_status(jsonb) from anon;
+revoke all on function public.transition_order_status(jsonb) from authenticated;
+grant execute on function public.transition_order_status(jsonb) to service_role;
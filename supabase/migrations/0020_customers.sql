@@ -0,0 +1,528 @@
+-- Customers: repeat buyers are grouped by normalized phone and email so their
+-- orders, spend and preferences can be looked up from the POS and dashboard.
+
+create table if not exists public.customers (
+    id uuid primary key default gen_random_uuid(),
+    name text,
+    phone text,
+    email text,
+    notes text,
+    created_by uuid references auth.users (id),
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now(),
+    constraint customers_contact_check check (phone is not null or email is not null),
+    constraint customers_phone_format_check check (phone is null or phone ~ '^[0-9]{7,}$'),
+    constraint customers_email_format_check check (email is null or email = lower(btrim(email)))
+);
+
+create unique index if not exists customers_phone_key
+    on public.customers (phone)
+    where phone is not null;
+create unique index if not exists customers_email_key
+    on public.customers (email)
+    where email is not null;
+create index if not exists customers_name_idx
+    on public.customers (lower(name));
+
+drop trigger if exists set_timestamp_customers on public.customers;
+create trigger set_timestamp_customers
+    before update on public.customers
+    for each row
+    execute procedure public.handle_updated_at();
+
+alter table public.customers enable row level security;
+
+drop policy if exists "Customers read" on public.customers;
+create policy "Customers read"
+    on public.customers
+    for select
+    using (auth.role() = 'authenticated' or auth.role() = 'service_role');
+
+drop policy if exists "Customers write" on public.customers;
+create policy "Customers write"
+    on public.customers
+    for all
+    using (auth.role() = 'service_role')
+    with check (auth.role() = 'service_role');
+
+alter table public.orders
+    add column if not exists customer_id uuid references public.customers (id) on delete set null;
+
+create index if not exists orders_customer_created_idx
+    on public.orders (customer_id, created_at desc);
+
+-- Matching ------------------------------------------------------------------
+
+-- Phones keep digits only and need at least 7 of them, the same rule the
+-- forms apply in lib/schemas.ts. Emails are trimmed and lower-cased. A phone
+-- match wins over an email match; contact details missing on the existing
+-- customer are filled in when no other customer already owns them.
+create or replace function public.upsert_customer(
+    p_name text,
+    p_phone text,
+    p_email text,
+    p_created_by uuid default null
+)
+returns uuid
+language plpgsql
+volatile
+security definer
+set search_path = public
+as
+$$
+declare
+    v_name text := nullif(btrim(coalesce(p_name, '')), '');
+    v_phone text := nullif(regexp_replace(coalesce(p_phone, ''), '\D', '', 'g'), '');
+    v_email text := nullif(lower(btrim(coalesce(p_email, ''))), '');
+    v_customer_id uuid;
+begin
+    if v_phone is not null and length(v_phone) < 7 then
+        v_phone := null;
+    end if;
+
+    if v_phone is null and v_email is null then
+        return null;
+    end if;
+
+    if v_phone is not null then
+        select id into v_customer_id
+        from public.customers
+        where phone = v_phone
+        for update;
+    end if;
+
+    if v_customer_id is null and v_email is not null then
+        select id into v_customer_id
+        from public.customers
+        where email = v_email
+        for update;
+    end if;
+
+    if v_customer_id is null then
+        insert into public.customers (name, phone, email, created_by)
+        values (v_name, v_phone, v_email, p_created_by)
+        on conflict do nothing
+        returning id into v_customer_id;
+
+        -- A concurrent checkout created the same customer first.
+        if v_customer_id is null then
+            select id into v_customer_id
+            from public.customers
+            where (v_phone is not null and phone = v_phone)
+                or (v_email is not null and email = v_email)
+            order by (phone = v_phone) desc nulls last
+            limit 1;
+        end if;
+
+        return v_customer_id;
+    end if;
+
+    update public.customers c
+    set
+        name = coalesce(c.name, v_name),
+        phone = coalesce(
+            c.phone,
+            case
+                when v_phone is not null
+                    and not exists (select 1 from public.customers o where o.phone = v_phone)
+                then v_phone
+            end
+        ),
+        email = coalesce(
+            c.email,
+            case
+                when v_email is not null
+                    and not exists (select 1 from public.customers o where o.email = v_email)
+                then v_email
+            end
+        )
+    where c.id = v_customer_id
+        and (
+            (c.name is null and v_name is not null)
+            or (c.phone is null and v_phone is not null)
+            or (c.email is null and v_email is not null)
+        );
+
+    return v_customer_id;
+end;
+$$;
+
+revoke all on function public.upsert_customer(text, text, text, uuid) from public;
+revoke all on function public.upsert_customer(text, text, text, uuid) from anon;
+revoke all on function public.upsert_customer(text, text, text, uuid) from authenticated;
+grant execute on function public.upsert_customer(text, text, text, uuid) to service_role;
+
+-- Orders without an explicit customer are linked from their contact fields,
+-- which covers POS sales, storefront checkouts and manual orders alike.
+create or replace function public.link_order_customer()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as
+$$
+begin
+    if new.customer_id is null then
+        new.customer_id := public.upsert_customer(
+            new.customer_name,
+            new.customer_phone,
+            new.customer_email,
+            new.created_by
+        );
+    end if;
+
+    return new;
+end;
+$$;
+
+drop trigger if exists link_order_customer on public.orders;
+create trigger link_order_customer
+    before insert or update of customer_name, customer_phone, customer_email on public.orders
+    for each row
+    execute procedure public.link_order_customer();
+
+-- Backfill oldest first so the earliest name on record is kept.
+do $$
+declare
+    r record;
+begin
+    for r in
+        select id, customer_name, customer_phone, customer_email, created_by
+        from public.orders
+        where customer_id is null
+            and (customer_phone is not null or customer_email is not null)
+        order by created_at
+    loop
+        update public.orders
+        set customer_id = public.upsert_customer(
+            r.customer_name,
+            r.customer_phone,
+            r.customer_email,
+            r.created_by
+        )
+        where id = r.id;
+    end loop;
+end;
+$$;
+
+-- Summaries -----------------------------------------------------------------
+
+-- Spend counts completed orders net of refunds. Favorite categories rank the
+-- categories of the units a customer kept, top three first.
+create or replace view public.customer_summaries
+with (security_invoker = true)
+as
+select
+    c.id,
+    c.name,
+    c.phone,
+    c.email,
+    c.notes,
+    c.created_at,
+    coalesce(s.order_count, 0) as order_count,
+    coalesce(s.lifetime_spend, 0)::numeric(12, 2) as lifetime_spend,
+    s.first_purchase_at,
+    s.last_purchase_at,
+    coalesce(f.favorite_categories, '{}'::text[]) as favorite_categories
+from public.customers c
+left join lateral (
+    select
+        count(*) as order_count,
+        sum(o.total_amount - coalesce(o.refunded_amount, 0)) as lifetime_spend,
+        min(o.created_at) as first_purchase_at,
+        max(o.created_at) as last_purchase_at
+    from public.orders o
+    where o.customer_id = c.id
+        and o.status = 'completed'
+) s on true
+left join lateral (
+    select array_agg(ranked.name order by ranked.units desc, ranked.name) as favorite_categories
+    from (
+        select cat.name, sum(oi.qty - coalesce(oi.refunded_qty, 0)) as units
+        from public.orders o
+        join public.order_product_items oi on oi.order_id = o.id
+        join public.products p on p.id = oi.product_id
+        join public.categories cat on cat.id = p.category_id
+        where o.customer_id = c.id
+            and o.status = 'completed'
+        group by cat.name
+        having sum(oi.qty - coalesce(oi.refunded_qty, 0)) > 0
+        order by units desc, cat.name
+        limit 3
+    ) ranked
+) f on true;
+
+revoke all on public.customer_summaries from anon;
+grant select on public.customer_summaries to authenticated, service_role;
+
+-- POS sales can name the customer picked in the lookup ----------------------
+
+create or replace function public.create_pos_sale(payload jsonb)
+returns jsonb
+language plpgsql
+volatile
+security definer
+set search_path = public
+as
+$$
+declare
+    v_product_items jsonb := coalesce(payload->'product_items', '[]'::jsonb);
+    v_combo_items jsonb := coalesce(payload->'combo_items', '[]'::jsonb);
+    v_discount numeric(12, 2) := greatest(round(coalesce((payload->>'discount_amount')::numeric, 0), 2), 0);
+    v_tax numeric(12, 2) := greatest(round(coalesce((payload->>'tax_amount')::numeric, 0), 2), 0);
+    v_product_ids uuid[];
+    v_missing jsonb;
+    v_empty_combo text;
+    v_short jsonb;
+    v_subtotal numeric(12, 2);
+    v_total_cost numeric(12, 2);
+    v_total numeric(12, 2);
+    v_profit numeric(12, 2);
+    v_order_id uuid;
+    v_receipt_number text;
+    v_customer_id uuid;
+begin
+    if jsonb_array_length(v_product_items) + jsonb_array_length(v_combo_items) = 0 then
+        return jsonb_build_object('success', false, 'error', 'empty_sale');
+    end if;
+
+    if nullif(payload->>'customer_id', '') is not null then
+        select id into v_customer_id
+        from public.customers
+        where id = (payload->>'customer_id')::uuid;
+
+        if v_customer_id is null then
+            return jsonb_build_object('success', false, 'error', 'customer_not_found');
+        end if;
+    end if;
+
+    select coalesce(jsonb_agg(c.combo_id), '[]'::jsonb)
+    into v_missing
+    from jsonb_to_recordset(v_combo_items) as c(combo_id uuid)
+    where not exists (select 1 from public.combos co where co.id = c.combo_id);
+
+    if jsonb_array_length(v_missing) > 0 then
+        return jsonb_build_object('success', false, 'error', 'missing_combos', 'combo_ids', v_missing);
+    end if;
+
+    select co.name
+    into v_empty_combo
+    from jsonb_to_recordset(v_combo_items) as c(combo_id uuid)
+    join public.combos co on co.id = c.combo_id
+    where not exists (select 1 from public.combo_items ci where ci.combo_id = c.combo_id)
+    limit 1;
+
+    if v_empty_combo is not null then
+        return jsonb_build_object('success', false, 'error', 'empty_combo', 'combo_name', v_empty_combo);
+    end if;
+
+    select coalesce(array_agg(distinct ids.product_id), '{}')
+    into v_product_ids
+    from (
+        select x.product_id
+        from jsonb_to_recordset(v_product_items) as x(product_id uuid)
+        union
+        select ci.product_id
+        from jsonb_to_recordset(v_combo_items) as c(combo_id uuid)
+        join public.combo_items ci on ci.combo_id = c.combo_id
+    ) as ids;
+
+    -- Lock every product touched by the sale in a stable order so concurrent
+    -- sales of the same units serialize instead of overselling.
+    perform 1
+    from public.products
+    where id = any(v_product_ids)
+    order by id
+    for update;
+
+    select coalesce(jsonb_agg(ids.product_id), '[]'::jsonb)
+    into v_missing
+    from unnest(v_product_ids) as ids(product_id)
+    where not exists (select 1 from public.products p where p.id = ids.product_id);
+
+    if jsonb_array_length(v_missing) > 0 then
+        return jsonb_build_object('success', false, 'error', 'missing_products', 'product_ids', v_missing);
+    end if;
+
+    with
+        requirements as (
+            select r.product_id, sum(r.qty)::integer as required
+            from (
+                select x.product_id, greatest(x.qty, 1) as qty
+                from jsonb_to_recordset(v_product_items) as x(product_id uuid, qty integer)
+                union all
+                select ci.product_id, greatest(ci.qty, 1) * greatest(c.qty, 1)
+                from jsonb_to_recordset(v_combo_items) as c(combo_id uuid, qty integer)
+                join public.combo_items ci on ci.combo_id = c.combo_id
+            ) as r
+            group by r.product_id
+        )
+    select jsonb_agg(
+        jsonb_build_object(
+            'product_id', p.id,
+            'name', p.name,
+            'available', greatest(coalesce(p.quantity, 0) - coalesce(rs.reserved_qty, 0), 0),
+            'required', req.required
+        )
+        order by p.name
+    )
+    into v_short
+    from requirements req
+    join public.products p on p.id = req.product_id
+    left join public.product_reserved_stock rs on rs.product_id = req.product_id
+    where coalesce(p.quantity, 0) - coalesce(rs.reserved_qty, 0) < req.required;
+
+    if v_short is not null then
+        return jsonb_build_object('success', false, 'error', 'insufficient_stock', 'short_products', v_short);
+    end if;
+
+    with
+        product_lines as (
+            select
+                greatest(x.qty, 1) as qty,
+                round(x.unit_price, 2) as unit_price,
+                round(coalesce(p.cost_price, 0), 2) as unit_cost
+            from jsonb_to_recordset(v_product_items) as x(product_id uuid, qty integer, unit_price numeric)
+            join public.products p on p.id = x.product_id
+        ),
+        combo_costs as (
+            select
+                co.id as combo_id,
+                round(coalesce(co.packaging_cost, 0), 2)
+                    + coalesce(sum(round(coalesce(p.cost_price, 0), 2) * greatest(ci.qty, 1)), 0) as unit_cost
+            from public.combos co
+            join public.combo_items ci on ci.combo_id = co.id
+            join public.products p on p.id = ci.product_id
+            group by co.id, co.packaging_cost
+        ),
+        combo_lines as (
+            select
+                greatest(c.qty, 1) as qty,
+                round(c.unit_price, 2) as unit_price,
+                cc.unit_cost
+            from jsonb_to_recordset(v_combo_items) as c(combo_id uuid, qty integer, unit_price numeric)
+            join combo_costs cc on cc.combo_id = c.combo_id
+        ),
+        all_lines as (
+            select qty, unit_price, unit_cost from product_lines
+            union all
+            select qty, unit_price, unit_cost from combo_lines
+        )
+    select
+        coalesce(sum(round(unit_price * qty, 2)), 0),
+        coalesce(sum(round(unit_cost * qty, 2)), 0)
+    into v_subtotal, v_total_cost
+    from all_lines;
+
+    v_total := greatest(v_subtotal - v_discount + v_tax, 0);
+    v_profit := v_total - v_total_cost;
+
+    insert into public.orders (
+        receipt_number,
+        customer_id,
+        customer_name,
+        customer_phone,
+        customer_email,
+        notes,
+        status,
+        payment_method,
+        payment_reference,
+        subtotal_amount,
+        discount_amount,
+        tax_amount,
+        total_amount,
+        total_cost,
+        profit_amount,
+        currency,
+        created_by
+    )
+    values (
+        payload->>'receipt_number',
+        v_customer_id,
+        payload->>'customer_name',
+        payload->>'customer_phone',
+        payload->>'customer_email',
+        payload->>'notes',
+        'completed',
+        coalesce(payload->>'payment_method', 'cash'),
+        payload->>'payment_reference',
+        v_subtotal,
+        v_discount,
+        v_tax,
+        v_total,
+        v_total_cost,
+        v_profit,
+        coalesce(payload->>'currency', 'NIO'),
+        (payload->>'created_by')::uuid
+    )
+    returning id, receipt_number into v_order_id, v_receipt_number;
+
+    insert into public.order_product_items (
+        order_id,
+        product_id,
+        qty,
+        unit_price,
+        unit_cost,
+        line_total,
+        line_cost_total
+    )
+    select
+        v_order_id,
+        x.product_id,
+        greatest(x.qty, 1),
+        round(x.unit_price, 2),
+        round(coalesce(p.cost_price, 0), 2),
+        round(round(x.unit_price, 2) * greatest(x.qty, 1), 2),
+        round(round(coalesce(p.cost_price, 0), 2) * greatest(x.qty, 1), 2)
+    from jsonb_to_recordset(v_product_items) as x(product_id uuid, qty integer, unit_price numeric)
+    join public.products p on p.id = x.product_id;
+
+    insert into public.order_combo_items (
+        order_id,
+        combo_id,
+        qty,
+        unit_price,
+        unit_cost,
+        line_total,
+        line_cost_total
+    )
+    select
+        v_order_id,
+        c.combo_id,
+        greatest(c.qty, 1),
+        round(c.unit_price, 2),
+        cc.unit_cost,
+        round(round(c.unit_price, 2) * greatest(c.qty, 1), 2),
+        round(cc.unit_cost * greatest(c.qty, 1), 2)
+    from jsonb_to_recordset(v_combo_items) as c(combo_id uuid, qty integer, unit_price numeric)
+    join (
+        select
+            co.id as combo_id,
+            round(coalesce(co.packaging_cost, 0), 2)
+                + coalesce(sum(round(coalesce(p.cost_price, 0), 2) * greatest(ci.qty, 1)), 0) as unit_cost
+        from public.combos co
+        join public.combo_items ci on ci.combo_id = co.id
+        join public.products p on p.id = ci.product_id
+        group by co.id, co.packaging_cost
+    ) as cc on cc.combo_id = c.combo_id;
+
+    perform public.consume_order_stock(v_order_id, (payload->>'created_by')::uuid);
+
+    return jsonb_build_object(
+        'success', true,
+        'order_id', v_order_id,
+        'receipt_number', v_receipt_number,
+        'subtotal_amount', v_subtotal,
+        'discount_amount', v_discount,
+        'tax_amount', v_tax,
+        'total_amount', v_total,
+        'total_cost', v_total_cost,
+        'profit_amount', v_profit
+    );
+end;
+$$;
+
+revoke all on function public.create_pos_sale(jsonb) from public;
+revoke all on function public.create_pos_sale(jsonb) from anon;
+revoke all on function public.create_pos_sale(jsonb) from authenticated;
+grant execute on function public.create_pos_sale(jsonb) to service_role;
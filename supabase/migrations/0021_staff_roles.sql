@@ -0,0 +1,236 @@
+-- Staff roles: every back-office user is an owner, manager or cashier. Owners
+-- see finance and settings, managers run inventory and cashiers only sell and
+-- follow up orders. Accounts without a row have no back-office access.
+
+create table if not exists public.staff_members (
+    user_id uuid primary key references auth.users (id) on delete cascade,
+    role text not null,
+    created_by uuid references auth.users (id),
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now(),
+    constraint staff_members_role_check check (role in ('owner', 'manager', 'cashier'))
+);
+
+drop trigger if exists set_timestamp_staff_members on public.staff_members;
+create trigger set_timestamp_staff_members
+    before update on public.staff_members
+    for each row
+    execute procedure public.handle_updated_at();
+
+-- Everyone who already had an account ran the whole shop, so they keep full
+-- access as owners.
+insert into public.staff_members (user_id, role)
+select id, 'owner'
+from auth.users
+on conflict (user_id) do nothing;
+
+-- Helpers -------------------------------------------------------------------
+
+create or replace function public.current_staff_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as
+$$
+    select role
+    from public.staff_members
+    where user_id = auth.uid();
+$$;
+
+create or replace function public.has_staff_role(variadic p_roles text[])
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as
+$$
+    select coalesce(public.current_staff_role() = any (p_roles), false);
+$$;
+
+revoke all on function public.current_staff_role() from public;
+revoke all on function public.has_staff_role(text[]) from public;
+grant execute on function public.current_staff_role() to authenticated, service_role;
+grant execute on function public.has_staff_role(text[]) to authenticated, service_role;
+
+-- A fresh install has no staff yet: the first account to sign up becomes the
+-- owner. Later accounts wait until an owner assigns them a role.
+create or replace function public.handle_first_staff_member()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as
+$$
+begin
+    if not exists (select 1 from public.staff_members) then
+        insert into public.staff_members (user_id, role)
+        values (new.id, 'owner')
+        on conflict (user_id) do nothing;
+    end if;
+
+    return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created_staff on auth.users;
+create trigger on_auth_user_created_staff
+    after insert on auth.users
+    for each row
+    execute procedure public.handle_first_staff_member();
+
+alter table public.staff_members enable row level security;
+
+drop policy if exists "Staff members read" on public.staff_members;
+create policy "Staff members read"
+    on public.staff_members
+    for select
+    using (
+        auth.role() = 'service_role'
+        or user_id = auth.uid()
+        or public.has_staff_role('owner')
+    );
+
+drop policy if exists "Staff members write" on public.staff_members;
+create policy "Staff members write"
+    on public.staff_members
+    for all
+    using (auth.role() = 'service_role')
+    with check (auth.role() = 'service_role');
+
+-- Catalog writes: owners and managers ---------------------------------------
+
+drop policy if exists "Products owner insert" on public.products;
+create policy "Products owner insert"
+    on public.products
+    for insert
+    with check (auth.role() = 'service_role' or public.has_staff_role('owner', 'manager'));
+
+drop policy if exists "Products owner write" on public.products;
+create policy "Products owner write"
+    on public.products
+    for update
+    using (auth.role() = 'service_role' or public.has_staff_role('owner', 'manager'))
+    with check (auth.role() = 'service_role' or public.has_staff_role('owner', 'manager'));
+
+drop policy if exists "Products owner delete" on public.products;
+create policy "Products owner delete"
+    on public.products
+    for delete
+    using (auth.role() = 'service_role' or public.has_staff_role('owner', 'manager'));
+
+drop policy if exists "Products owner read" on public.products;
+create policy "Products owner read"
+    on public.products
+    for select
+    using (auth.role() = 'service_role' or public.has_staff_role('owner', 'manager', 'cashier'));
+
+drop policy if exists "Combos owner insert" on public.combos;
+create policy "Combos owner insert"
+    on public.combos
+    for insert
+    with check (auth.role() = 'service_role' or public.has_staff_role('owner', 'manager'));
+
+drop policy if exists "Combos owner write" on public.combos;
+create policy "Combos owner write"
+    on public.combos
+    for update
+    using (auth.role() = 'service_role' or public.has_staff_role('owner', 'manager'))
+    with check (auth.role() = 'service_role' or public.has_staff_role('owner', 'manager'));
+
+drop policy if exists "Combos owner delete" on public.combos;
+create policy "Combos owner delete"
+    on public.combos
+    for delete
+    using (auth.role() = 'service_role' or public.has_staff_role('owner', 'manager'));
+
+drop policy if exists "Combo items owner insert" on public.combo_items;
+create policy "Combo items owner insert"
+    on public.combo_items
+    for insert
+    with check (auth.role() = 'service_role' or public.has_staff_role('owner', 'manager'));
+
+drop policy if exists "Combo items owner update" on public.combo_items;
+create policy "Combo items owner update"
+    on public.combo_items
+    for update
+    using (auth.role() = 'service_role' or public.has_staff_role('owner', 'manager'))
+    with check (auth.role() = 'service_role' or public.has_staff_role('owner', 'manager'));
+
+drop policy if exists "Combo items owner delete" on public.combo_items;
+create policy "Combo items owner delete"
+    on public.combo_items
+    for delete
+    using (auth.role() = 'service_role' or public.has_staff_role('owner', 'manager'));
+
+drop policy if exists "Stock movements read" on public.stock_movements;
+create policy "Stock movements read"
+    on public.stock_movements
+    for select
+    using (auth.role() = 'service_role' or public.has_staff_role('owner', 'manager'));
+
+-- Orders: every staff role -------------------------------------------------
+
+drop policy if exists "Orders read" on public.orders;
+create policy "Orders read"
+    on public.orders
+    for select
+    using (auth.role() = 'service_role' or public.has_staff_role('owner', 'manager', 'cashier'));
+
+drop policy if exists "Order product items read" on public.order_product_items;
+create policy "Order product items read"
+    on public.order_product_items
+    for select
+    using (auth.role() = 'service_role' or public.has_staff_role('owner', 'manager', 'cashier'));
+
+drop policy if exists "Order combo items read" on public.order_combo_items;
+create policy "Order combo items read"
+    on public.order_combo_items
+    for select
+    using (auth.role() = 'service_role' or public.has_staff_role('owner', 'manager', 'cashier'));
+
+drop policy if exists "Order status history read" on public.order_status_history;
+create policy "Order status history read"
+    on public.order_status_history
+    for select
+    using (auth.role() = 'service_role' or public.has_staff_role('owner', 'manager', 'cashier'));
+
+drop policy if exists "Order refunds read" on public.order_refunds;
+create policy "Order refunds read"
+    on public.order_refunds
+    for select
+    using (auth.role() = 'service_role' or public.has_staff_role('owner', 'manager'));
+
+drop policy if exists "Order refund items read" on public.order_refund_items;
+create policy "Order refund items read"
+    on public.order_refund_items
+    for select
+    using (auth.role() = 'service_role' or public.has_staff_role('owner', 'manager'));
+
+drop policy if exists "Customers read" on public.customers;
+create policy "Customers read"
+    on public.customers
+    for select
+    using (auth.role() = 'service_role' or public.has_staff_role('owner', 'manager', 'cashier'));
+
+drop policy if exists "Stock reservations read" on public.stock_reservations;
+create policy "Stock reservations read"
+    on public.stock_reservations
+    for select
+    using (auth.role() = 'service_role' or public.has_staff_role('owner', 'manager', 'cashier'));
+
+-- Finance: owners only ------------------------------------------------------
+
+drop policy if exists "Expense transactions read" on public.expense_transactions;
+create policy "Expense transactions read"
+    on public.expense_transactions
+    for select
+    using (auth.role() = 'service_role' or public.has_staff_role('owner'));
+
+drop policy if exists "Inventory intake read" on public.inventory_intake;
+create policy "Inventory intake read"
+    on public.inventory_intake
+    for select
+    using (auth.role() = 'service_role' or public.has_staff_role('owner'));
@@ -0,0 +1,62 @@
+-- Audit log: append-only record of every administrative mutation with its
+-- actor and the before/after state of the row it touched.
+
+create table if not exists public.audit_log (
+    id bigserial primary key,
+    -- No foreign key: deleting a user must not rewrite their history.
+    actor_id uuid,
+    actor_email text,
+    action text not null,
+    entity_type text not null,
+    entity_id text,
+    before jsonb,
+    after jsonb,
+    changes jsonb not null default '{}'::jsonb,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists audit_log_created_idx
+    on public.audit_log (created_at desc);
+create index if not exists audit_log_entity_idx
+    on public.audit_log (entity_type, entity_id, created_at desc);
+create index if not exists audit_log_actor_idx
+    on public.audit_log (actor_id, created_at desc);
+
+alter table public.audit_log enable row level security;
+
+drop policy if exists "Audit log read" on public.audit_log;
+create policy "Audit log read"
+    on public.audit_log
+    for select
+    using (auth.role() = 'service_role' or public.has_staff_role('owner'));
+
+drop policy if exists "Audit log insert" on public.audit_log;
+create policy "Audit log insert"
+    on public.audit_log
+    for insert
+    with check (auth.role() = 'service_role');
+
+-- Rows can never be edited or removed, not even with the service role.
+create or replace function public.prevent_audit_log_changes()
+returns trigger
+language plpgsql
+as
+$$
+begin
+    raise exception 'audit_log is append-only';
+end;
+$$;
+
+drop trigger if exists audit_log_append_only on public.audit_log;
+create trigger audit_log_append_only
+    before update or delete on public.audit_log
+    for each row
+    execute function public.prevent_audit_log_changes();
+
+drop trigger if exists audit_log_no_truncate on public.audit_log;
+create trigger audit_log_no_truncate
+    before truncate on public.audit_log
+    for each statement
+    execute function public.prevent_audit_log_changes();
+
+revoke update, delete, truncate on public.audit_log from public, anon, authenticated, service_role;
@@ -0,0 +1,231 @@
+-- Bulk repricing: a run applies suggested sell prices to many products at
+-- once and keeps the previous price of each one so the run can be undone.
+
+create table if not exists public.repricing_runs (
+    id bigserial primary key,
+    filters jsonb not null default '{}'::jsonb,
+    item_count integer not null default 0,
+    created_by uuid references auth.users (id),
+    created_at timestamptz not null default now(),
+    rolled_back_at timestamptz,
+    rolled_back_by uuid references auth.users (id)
+);
+
+create index if not exists repricing_runs_created_idx
+    on public.repricing_runs (created_at desc);
+
+create table if not exists public.repricing_run_items (
+    id bigserial primary key,
+    run_id bigint not null references public.repricing_runs (id) on delete cascade,
+    product_id uuid not null references public.products (id) on delete cascade,
+    previous_price numeric(12, 2),
+    new_price numeric(12, 2) not null,
+    cost_price numeric(12, 2),
+    rule_id bigint references public.price_rules (id) on delete set null,
+    restored boolean not null default false
+);
+
+create index if not exists repricing_run_items_run_idx
+    on public.repricing_run_items (run_id);
+
+alter table public.repricing_runs enable row level security;
+alter table public.repricing_run_items enable row level security;
+
+drop policy if exists "Repricing runs read" on public.repricing_runs;
+create policy "Repricing runs read"
+    on public.repricing_runs
+    for select
+    using (auth.role() = 'service_role' or public.has_staff_role('owner', 'manager'));
+
+drop policy if exists "Repricing runs write" on public.repricing_runs;
+create policy "Repricing runs write"
+    on public.repricing_runs
+    for all
+    using (auth.role() = 'service_role')
+    with check (auth.role() = 'service_role');
+
+drop policy if exists "Repricing run items read" on public.repricing_run_items;
+create policy "Repricing run items read"
+    on public.repricing_run_items
+    for select
+    using (auth.role() = 'service_role' or public.has_staff_role('owner', 'manager'));
+
+drop policy if exists "Repricing run items write" on public.repricing_run_items;
+create policy "Repricing run items write"
+    on public.repricing_run_items
+    for all
+    using (auth.role() = 'service_role')
+    with check (auth.role() = 'service_role');
+
+-- Apply ---------------------------------------------------------------------
+
+-- Payload: created_by, filters and items: [{ product_id, new_price, rule_id }].
+-- Products whose price already matches are skipped so the run only lists real
+-- changes.
+create or replace function public.apply_repricing_run(payload jsonb)
+returns jsonb
+language plpgsql
+volatile
+security definer
+set search_path = public
+as
+$$
+declare
+    v_created_by uuid := (payload->>'created_by')::uuid;
+    v_items jsonb := coalesce(payload->'items', '[]'::jsonb);
+    v_item jsonb;
+    v_product public.products%rowtype;
+    v_new_price numeric(12, 2);
+    v_run_id bigint;
+    v_count integer := 0;
+begin
+    if jsonb_array_length(v_items) = 0 then
+        return jsonb_build_object('success', false, 'error', 'empty_run');
+    end if;
+
+    insert into public.repricing_runs (filters, created_by)
+    values (coalesce(payload->'filters', '{}'::jsonb), v_created_by)
+    returning id into v_run_id;
+
+    for v_item in select * from jsonb_array_elements(v_items)
+    loop
+        v_new_price := round((v_item->>'new_price')::numeric, 2);
+
+        if v_new_price is null or v_new_price <= 0 then
+            raise exception 'invalid_price';
+        end if;
+
+        select *
+        into v_product
+        from public.products
+        where id = (v_item->>'product_id')::uuid
+        for update;
+
+        if not found then
+            raise exception 'product_not_found';
+        end if;
+
+        if v_product.sell_price is not distinct from v_new_price then
+            continue;
+        end if;
+
+        insert into public.repricing_run_items (
+            run_id,
+            product_id,
+            previous_price,
+            new_price,
+            cost_price,
+            rule_id
+        )
+        values (
+            v_run_id,
+            v_product.id,
+            v_product.sell_price,
+            v_new_price,
+            v_product.cost_price,
+            nullif(v_item->>'rule_id', '')::bigint
+        );
+
+        update public.products
+        set sell_price = v_new_price
+        where id = v_product.id;
+
+        v_count := v_count + 1;
+    end loop;
+
+    if v_count = 0 then
+        delete from public.repricing_runs where id = v_run_id;
+        return jsonb_build_object('success', false, 'error', 'no_changes');
+    end if;
+
+    update public.repricing_runs
+    set item_count = v_count
+    where id = v_run_id;
+
+    return jsonb_build_object('success', true, 'run_id', v_run_id, 'item_count', v_count);
+end;
+$$;
+
+revoke all on function public.apply_repricing_run(jsonb) from public;
+revoke all on function public.apply_repricing_run(jsonb) from anon;
+revoke all on function public.apply_repricing_run(jsonb) from authenticated;
+grant execute on function public.apply_repricing_run(jsonb) to service_role;
+
+-- Rollback ------------------------------------------------------------------
+
+-- Payload: run_id, rolled_back_by. A product is only restored while it still
+-- carries the price the run gave it; anything repriced since is left alone and
+-- reported as skipped.
+create or replace function public.rollback_repricing_run(payload jsonb)
+returns jsonb
+language plpgsql
+volatile
+security definer
+set search_path = public
+as
+$$
+declare
+    v_run_id bigint := (payload->>'run_id')::bigint;
+    v_run public.repricing_runs%rowtype;
+    v_restored integer;
+    v_skipped integer;
+begin
+    select *
+    into v_run
+    from public.repricing_runs
+    where id = v_run_id
+    for update;
+
+    if not found then
+        return jsonb_build_object('success', false, 'error', 'run_not_found');
+    end if;
+
+    if v_run.rolled_back_at is not null then
+        return jsonb_build_object('success', false, 'error', 'already_rolled_back');
+    end if;
+
+    with restorable as (
+        select i.id, i.product_id, i.previous_price
+        from public.repricing_run_items i
+        join public.products p on p.id = i.product_id
+        where i.run_id = v_run_id
+            and p.sell_price is not distinct from i.new_price
+        for update of p
+    ),
+    restored_products as (
+        update public.products p
+        set sell_price = r.previous_price
+        from restorable r
+        where p.id = r.product_id
+        returning r.id
+    )
+    update public.repricing_run_items i
+    set restored = true
+    from restored_products r
+    where i.id = r.id;
+
+    get diagnostics v_restored = row_count;
+
+    select count(*)
+    into v_skipped
+    from public.repricing_run_items
+    where run_id = v_run_id
+        and not restored;
+
+    update public.repricing_runs
+    set rolled_back_at = now(),
+        rolled_back_by = (payload->>'rolled_back_by')::uuid
+    where id = v_run_id;
+
+    return jsonb_build_object(
+        'success', true,
+        'restored', v_restored,
+        'skipped', v_skipped
+    );
+end;
+$$;
+
+revoke all on function public.rollback_repricing_run(jsonb) from public;
+revoke all on function public.rollback_repricing_run(jsonb) from anon;
+revoke all on function public.rollback_repricing_run(jsonb) from authenticated;
+grant execute on function public.rollback_repricing_run(jsonb) to service_role;
@@ -0,0 +1,230 @@
+-- Price history: one row every time a product's sell or cost price, or a
+-- combo's suggested price, changes. Each row keeps the new values, where the
+-- change came from and who made it, so past sales can be checked against the
+-- list price in force when they happened.
+
+create table if not exists public.price_history (
+    id bigserial primary key,
+    product_id uuid references public.products (id) on delete cascade,
+    combo_id uuid references public.combos (id) on delete cascade,
+    sell_price numeric(12, 2),
+    cost_price numeric(12, 2),
+    source text not null,
+    reference text,
+    created_by uuid references auth.users (id),
+    created_at timestamptz not null default now(),
+    constraint price_history_entity_check check (num_nonnulls(product_id, combo_id) = 1),
+    constraint price_history_source_check check (
+        source in ('initial', 'manual', 'bulk', 'intake')
+    )
+);
+
+create index if not exists price_history_product_created_idx
+    on public.price_history (product_id, created_at desc);
+create index if not exists price_history_combo_created_idx
+    on public.price_history (combo_id, created_at desc);
+
+alter table public.price_history enable row level security;
+
+drop policy if exists "Price history read" on public.price_history;
+create policy "Price history read"
+    on public.price_history
+    for select
+    using (auth.role() = 'service_role' or public.has_staff_role('owner', 'manager'));
+
+drop policy if exists "Price history insert" on public.price_history;
+create policy "Price history insert"
+    on public.price_history
+    for insert
+    with check (auth.role() = 'service_role');
+
+-- Prices already in place become the first entry of each timeline.
+insert into public.price_history (product_id, sell_price, cost_price, source)
+select p.id, p.sell_price, p.cost_price, 'initial'
+from public.products p
+where not exists (
+    select 1 from public.price_history h where h.product_id = p.id
+);
+
+insert into public.price_history (combo_id, sell_price, source)
+select c.id, c.suggested_price, 'initial'
+from public.combos c
+where not exists (
+    select 1 from public.price_history h where h.combo_id = c.id
+);
+
+-- Bulk repricing writes its own history rows ---------------------------------
+
+create or replace function public.apply_repricing_run(payload jsonb)
+returns jsonb
+language plpgsql
+volatile
+security definer
+set search_path = public
+as
+$$
+declare
+    v_created_by uuid := (payload->>'created_by')::uuid;
+    v_items jsonb := coalesce(payload->'items', '[]'::jsonb);
+    v_item jsonb;
+    v_product public.products%rowtype;
+    v_new_price numeric(12, 2);
+    v_run_id bigint;
+    v_count integer := 0;
+begin
+    if jsonb_array_length(v_items) = 0 then
+        return jsonb_build_object('success', false, 'error', 'empty_run');
+    end if;
+
+    insert into public.repricing_runs (filters, created_by)
+    values (coalesce(payload->'filters', '{}'::jsonb), v_created_by)
+    returning id into v_run_id;
+
+    for v_item in select * from jsonb_array_elements(v_items)
+    loop
+        v_new_price := round((v_item->>'new_price')::numeric, 2);
+
+        if v_new_price is null or v_new_price <= 0 then
+            raise exception 'invalid_price';
+        end if;
+
+        select *
+        into v_product
+        from public.products
+        where id = (v_item->>'product_id')::uuid
+        for update;
+
+        if not found then
+            raise exception 'product_not_found';
+        end if;
+
+        if v_product.sell_price is not distinct from v_new_price then
+            continue;
+        end if;
+
+        insert into public.repricing_run_items (
+            run_id,
+            product_id,
+            previous_price,
+            new_price,
+            cost_price,
+            rule_id
+        )
+        values (
+            v_run_id,
+            v_product.id,
+            v_product.sell_price,
+            v_new_price,
+            v_product.cost_price,
+            nullif(v_item->>'rule_id', '')::bigint
+        );
+
+        update public.products
+        set sell_price = v_new_price
+        where id = v_product.id;
+
+        insert into public.price_history (product_id, sell_price, cost_price, source, reference, created_by)
+        values (v_product.id, v_new_price, v_product.cost_price, 'bulk', 'repricing_run:' || v_run_id, v_created_by);
+
+        v_count := v_count + 1;
+    end loop;
+
+    if v_count = 0 then
+        delete from public.repricing_runs where id = v_run_id;
+        return jsonb_build_object('success', false, 'error', 'no_changes');
+    end if;
+
+    update public.repricing_runs
+    set item_count = v_count
+    where id = v_run_id;
+
+    return jsonb_build_object('success', true, 'run_id', v_run_id, 'item_count', v_count);
+end;
+$$;
+
+create or replace function public.rollback_repricing_run(payload jsonb)
+returns jsonb
+language plpgsql
+volatile
+security definer
+set search_path = public
+as
+$$
+declare
+    v_run_id bigint := (payload->>'run_id')::bigint;
+    v_rolled_back_by uuid := (payload->>'rolled_back_by')::uuid;
+    v_run public.repricing_runs%rowtype;
+    v_item record;
+    v_restored integer := 0;
+    v_skipped integer := 0;
+begin
+    select *
+    into v_run
+    from public.repricing_runs
+    where id = v_run_id
+    for update;
+
+    if not found then
+        return jsonb_build_object('success', false, 'error', 'run_not_found');
+    end if;
+
+    if v_run.rolled_back_at is not null then
+        return jsonb_build_object('success', false, 'error', 'already_rolled_back');
+    end if;
+
+    for v_item in
+        select i.id, i.product_id, i.previous_price, i.new_price, p.sell_price, p.cost_price
+        from public.repricing_run_items i
+        join public.products p on p.id = i.product_id
+        where i.run_id = v_run_id
+        order by i.id
+        for update of p
+    loop
+        if v_item.sell_price is distinct from v_item.new_price then
+            v_skipped := v_skipped + 1;
+            continue;
+        end if;
+
+        update public.products
+        set sell_price = v_item.previous_price
+        where id = v_item.product_id;
+
+        update public.repricing_run_items
+        set restored = true
+        where id = v_item.id;
+
+        insert into public.price_history (product_id, sell_price, cost_price, source, reference, created_by)
+        values (
+            v_item.product_id,
+            v_item.previous_price,
+            v_item.cost_price,
+            'bulk',
+            'repricing_rollback:' || v_run_id,
+            v_rolled_back_by
+        );
+
+        v_restored := v_restored + 1;
+    end loop;
+
+    update public.repricing_runs
+    set rolled_back_at = now(),
+        rolled_back_by = v_rolled_back_by
+    where id = v_run_id;
+
+    return jsonb_build_object(
+        'success', true,
+        'restored', v_restored,
+        'skipped', v_skipped
+    );
+end;
+$$;
+
+revoke all on function public.apply_repricing_run(jsonb) from public;
+revoke all on function public.apply_repricing_run(jsonb) from anon;
+revoke all on function public.apply_repricing_run(jsonb) from authenticated;
+grant execute on function public.apply_repricing_run(jsonb) to service_role;
+
+revoke all on function public.rollback_repricing_run(jsonb) from public;
+revoke all on function public.rollback_repricing_run(jsonb) from anon;
+revoke all on function public.rollback_repricing_run(jsonb) from authenticated;
+grant execute on function public.rollback_repricing_run(jsonb) to service_role;
@@ -0,0 +1,604 @@
+-- Inventory costing: every product is valued either by weighted average or by
+-- FIFO layers. Each intake row is a cost layer whose remaining_qty shrinks as
+-- stock is consumed; sales read their unit cost through product_unit_cost so
+-- order profit reflects the method instead of a static cost_price.
+
+alter table public.products
+    add column if not exists costing_method text not null default 'weighted_average';
+
+alter table public.products
+    drop constraint if exists products_costing_method_check;
+alter table public.products
+    add constraint products_costing_method_check
+    check (costing_method in ('weighted_average', 'fifo'));
+
+alter table public.inventory_intake
+    add column if not exists remaining_qty integer not null default 0;
+
+alter table public.inventory_intake
+    drop constraint if exists inventory_intake_remaining_qty_check;
+alter table public.inventory_intake
+    add constraint inventory_intake_remaining_qty_check
+    check (remaining_qty >= 0 and remaining_qty <= quantity);
+
+create index if not exists inventory_intake_open_layers_idx
+    on public.inventory_intake (product_id, occurred_at, created_at)
+    where remaining_qty > 0;
+
+-- Units on hand are assumed to come from the newest intakes, so older layers
+-- are treated as already sold.
+with
+    layers as (
+        select
+            i.id,
+            i.quantity,
+            greatest(coalesce(p.quantity, 0), 0) as on_hand,
+            sum(i.quantity) over (
+                partition by i.product_id
+                order by i.occurred_at desc, i.created_at desc, i.id desc
+            ) as newer_units
+        from public.inventory_intake i
+        join public.products p on p.id = i.product_id
+    )
+update public.inventory_intake i
+set remaining_qty = greatest(
+    least(l.quantity, l.on_hand - (l.newer_units - l.quantity)),
+    0
+)
+from layers l
+where i.id = l.id;
+
+-- FIFO layer changes are tracked in the price history as sales.
+alter table public.price_history
+    drop constraint if exists price_history_source_check;
+alter table public.price_history
+    add constraint price_history_source_check check (
+        source in ('initial', 'manual', 'bulk', 'intake', 'sale')
+    );
+
+-- Cost lookup ---------------------------------------------------------------
+
+-- Unit cost for selling p_qty units right now. Weighted-average products use
+-- cost_price; FIFO products blend their oldest open layers, and any units not
+-- covered by a layer fall back to cost_price.
+create or replace function public.product_unit_cost(p_product_id uuid, p_qty integer)
+returns numeric
+language plpgsql
+stable
+security definer
+set search_path = public
+as
+$$
+declare
+    v_method text;
+    v_fallback numeric(12, 2);
+    v_needed integer := greatest(coalesce(p_qty, 1), 1);
+    v_remaining integer := greatest(coalesce(p_qty, 1), 1);
+    v_total numeric := 0;
+    v_layer record;
+begin
+    select costing_method, round(coalesce(cost_price, 0), 2)
+    into v_method, v_fallback
+    from public.products
+    where id = p_product_id;
+
+    if not found then
+        return 0;
+    end if;
+
+    if v_method <> 'fifo' then
+        return v_fallback;
+    end if;
+
+    for v_layer in
+        select unit_cost, remaining_qty
+        from public.inventory_intake
+        where product_id = p_product_id
+            and remaining_qty > 0
+        order by occurred_at, created_at, id
+    loop
+        exit when v_remaining = 0;
+        v_total := v_total + v_layer.unit_cost * least(v_layer.remaining_qty, v_remaining);
+        v_remaining := v_remaining - least(v_layer.remaining_qty, v_remaining);
+    end loop;
+
+    v_total := v_total + v_fallback * v_remaining;
+
+    return round(v_total / v_needed, 2);
+end;
+$$;
+
+revoke all on function public.product_unit_cost(uuid, integer) from public;
+revoke all on function public.product_unit_cost(uuid, integer) from anon;
+revoke all on function public.product_unit_cost(uuid, integer) from authenticated;
+grant execute on function public.product_unit_cost(uuid, integer) to service_role;
+
+-- Drains p_qty units from the oldest open layers. FIFO products then move
+-- cost_price to their next open layer so pricing screens show the cost of the
+-- units still on the shelf.
+create or replace function public.consume_cost_layers(
+    p_product_id uuid,
+    p_qty integer,
+    p_reference text,
+    p_created_by uuid
+)
+returns void
+language plpgsql
+volatile
+security definer
+set search_path = public
+as
+$$
+declare
+    v_remaining integer := greatest(coalesce(p_qty, 0), 0);
+    v_layer record;
+    v_take integer;
+    v_product public.products%rowtype;
+    v_next_cost numeric(12, 2);
+begin
+    for v_layer in
+        select id, remaining_qty
+        from public.inventory_intake
+        where product_id = p_product_id
+            and remaining_qty > 0
+        order by occurred_at, created_at, id
+        for update
+    loop
+        exit when v_remaining = 0;
+        v_take := least(v_layer.remaining_qty, v_remaining);
+
+        update public.inventory_intake
+        set remaining_qty = remaining_qty - v_take
+        where id = v_layer.id;
+
+        v_remaining := v_remaining - v_take;
+    end loop;
+
+    select *
+    into v_product
+    from public.products
+    where id = p_product_id;
+
+    if not found or v_product.costing_method <> 'fifo' then
+        return;
+    end if;
+
+    select unit_cost
+    into v_next_cost
+    from public.inventory_intake
+    where product_id = p_product_id
+        and remaining_qty > 0
+    order by occurred_at, created_at, id
+    limit 1;
+
+    if v_next_cost is null or v_next_cost is not distinct from v_product.cost_price then
+        return;
+    end if;
+
+    update public.products
+    set cost_price = v_next_cost
+    where id = p_product_id;
+
+    insert into public.price_history (product_id, sell_price, cost_price, source, reference, created_by)
+    values (p_product_id, v_product.sell_price, v_next_cost, 'sale', p_reference, p_created_by);
+end;
+$$;
+
+revoke all on function public.consume_cost_layers(uuid, integer, text, uuid) from public;
+revoke all on function public.consume_cost_layers(uuid, integer, text, uuid) from anon;
+revoke all on function public.consume_cost_layers(uuid, integer, text, uuid) from authenticated;
+grant execute on function public.consume_cost_layers(uuid, integer, text, uuid) to service_role;
+
+-- Stock consumption drains cost layers --------------------------------------
+
+create or replace function public.consume_order_stock(p_order_id uuid, p_created_by uuid)
+returns void
+language plpgsql
+volatile
+security definer
+set search_path = public
+as
+$$
+declare
+    v_line record;
+begin
+    with
+        movements as (
+            select
+                i.product_id,
+                'sale'::text as movement_type,
+                null::uuid as combo_id,
+                -sum(i.qty)::integer as quantity_change
+            from public.order_product_items i
+            where i.order_id = p_order_id
+            group by i.product_id
+            union all
+            select
+                ci.product_id,
+                'combo_consumption'::text,
+                i.combo_id,
+                -sum(greatest(ci.qty, 1) * i.qty)::integer
+            from public.order_combo_items i
+            join public.combo_items ci on ci.combo_id = i.combo_id
+            where i.order_id = p_order_id
+            group by ci.product_id, i.combo_id
+        ),
+        sequenced as (
+            select
+                m.product_id,
+                m.movement_type,
+                m.combo_id,
+                m.quantity_change,
+                coalesce(p.quantity, 0) + coalesce(
+                    sum(m.quantity_change) over (
+                        partition by m.product_id
+                        order by m.movement_type desc, m.combo_id nulls first
+                        rows between unbounded preceding and 1 preceding
+                    ),
+                    0
+                ) as quantity_before
+            from movements m
+            join public.products p on p.id = m.product_id
+        )
+    insert into public.stock_movements (
+        product_id,
+        movement_type,
+        quantity_change,
+        quantity_before,
+        quantity_after,
+        order_id,
+        combo_id,
+        created_by
+    )
+    select
+        s.product_id,
+        s.movement_type,
+        s.quantity_change,
+        s.quantity_before,
+        s.quantity_before + s.quantity_change,
+        p_order_id,
+        s.combo_id,
+        p_created_by
+    from sequenced s;
+
+    with
+        requirements as (
+            select r.product_id, sum(r.qty)::integer as required
+            from (
+                select i.product_id, i.qty
+                from public.order_product_items i
+                where i.order_id = p_order_id
+                union all
+                select ci.product_id, greatest(ci.qty, 1) * i.qty
+                from public.order_combo_items i
+                join public.combo_items ci on ci.combo_id = i.combo_id
+                where i.order_id = p_order_id
+            ) as r
+            group by r.product_id
+        )
+    update public.products p
+    set
+        quantity = greatest(coalesce(p.quantity, 0) - req.required, 0),
+        status = case
+            when coalesce(p.quantity, 0) - req.required <= 0 then 'archived'
+            else p.status
+        end
+    from requirements req
+    where p.id = req.product_id;
+
+    for v_line in
+        select r.product_id, sum(r.qty)::integer as required
+        from (
+            select i.product_id, i.qty
+            from public.order_product_items i
+            where i.order_id = p_order_id
+            union all
+            select ci.product_id, greatest(ci.qty, 1) * i.qty
+            from public.order_combo_items i
+            join public.combo_items ci on ci.combo_id = i.combo_id
+            where i.order_id = p_order_id
+        ) as r
+        group by r.product_id
+        order by r.product_id
+    loop
+        perform public.consume_cost_layers(
+            v_line.product_id,
+            v_line.required,
+            'order:' || p_order_id,
+            p_created_by
+        );
+    end loop;
+end;
+$$;
+
+revoke all on function public.consume_order_stock(uuid, uuid) from public;
+revoke all on function public.consume_order_stock(uuid, uuid) from anon;
+revoke all on function public.consume_order_stock(uuid, uuid) from authenticated;
+grant execute on function public.consume_order_stock(uuid, uuid) to service_role;
+
+-- POS sales cost each line with the product costing method ----------------
+
+create or replace function public.create_pos_sale(payload jsonb)
+returns jsonb
+language plpgsql
+volatile
+security definer
+set search_path = public
+as
+$$
+declare
+    v_product_items jsonb := coalesce(payload->'product_items', '[]'::jsonb);
+    v_combo_items jsonb := coalesce(payload->'combo_items', '[]'::jsonb);
+    v_discount numeric(12, 2) := greatest(round(coalesce((payload->>'discount_amount')::numeric, 0), 2), 0);
+    v_tax numeric(12, 2) := greatest(round(coalesce((payload->>'tax_amount')::numeric, 0), 2), 0);
+    v_product_ids uuid[];
+    v_missing jsonb;
+    v_empty_combo text;
+    v_short jsonb;
+    v_subtotal numeric(12, 2);
+    v_total_cost numeric(12, 2);
+    v_total numeric(12, 2);
+    v_profit numeric(12, 2);
+    v_order_id uuid;
+    v_receipt_number text;
+    v_customer_id uuid;
+begin
+    if jsonb_array_length(v_product_items) + jsonb_array_length(v_combo_items) = 0 then
+        return jsonb_build_object('success', false, 'error', 'empty_sale');
+    end if;
+
+    if nullif(payload->>'customer_id', '') is not null then
+        select id into v_customer_id
+        from public.customers
+        where id = (payload->>'customer_id')::uuid;
+
+        if v_customer_id is null then
+            return jsonb_build_object('success', false, 'error', 'customer_not_found');
+        end if;
+    end if;
+
+    select coalesce(jsonb_agg(c.combo_id), '[]'::jsonb)
+    into v_missing
+    from jsonb_to_recordset(v_combo_items) as c(combo_id uuid)
+    where not exists (select 1 from public.combos co where co.id = c.combo_id);
+
+    if jsonb_array_length(v_missing) > 0 then
+        return jsonb_build_object('success', false, 'error', 'missing_combos', 'combo_ids', v_missing);
+    end if;
+
+    select co.name
+    into v_empty_combo
+    from jsonb_to_recordset(v_combo_items) as c(combo_id uuid)
+    join public.combos co on co.id = c.combo_id
+    where not exists (select 1 from public.combo_items ci where ci.combo_id = c.combo_id)
+    limit 1;
+
+    if v_empty_combo is not null then
+        return jsonb_build_object('success', false, 'error', 'empty_combo', 'combo_name', v_empty_combo);
+    end if;
+
+    select coalesce(array_agg(distinct ids.product_id), '{}')
+    into v_product_ids
+    from (
+        select x.product_id
+        from jsonb_to_recordset(v_product_items) as x(product_id uuid)
+        union
+        select ci.product_id
+        from jsonb_to_recordset(v_combo_items) as c(combo_id uuid)
+        join public.combo_items ci on ci.combo_id = c.combo_id
+    ) as ids;
+
+    -- Lock every product touched by the sale in a stable order so concurrent
+    -- sales of the same units serialize instead of overselling.
+    perform 1
+    from public.products
+    where id = any(v_product_ids)
+    order by id
+    for update;
+
+    select coalesce(jsonb_agg(ids.product_id), '[]'::jsonb)
+    into v_missing
+    from unnest(v_product_ids) as ids(product_id)
+    where not exists (select 1 from public.products p where p.id = ids.product_id);
+
+    if jsonb_array_length(v_missing) > 0 then
+        return jsonb_build_object('success', false, 'error', 'missing_products', 'product_ids', v_missing);
+    end if;
+
+    with
+        requirements as (
+            select r.product_id, sum(r.qty)::integer as required
+            from (
+                select x.product_id, greatest(x.qty, 1) as qty
+                from jsonb_to_recordset(v_product_items) as x(product_id uuid, qty integer)
+                union all
+                select ci.product_id, greatest(ci.qty, 1) * greatest(c.qty, 1)
+                from jsonb_to_recordset(v_combo_items) as c(combo_id uuid, qty integer)
+                join public.combo_items ci on ci.combo_id = c.combo_id
+            ) as r
+            group by r.product_id
+        )
+    select jsonb_agg(
+        jsonb_build_object(
+            'product_id', p.id,
+            'name', p.name,
+            'available', greatest(coalesce(p.quantity, 0) - coalesce(rs.reserved_qty, 0), 0),
+            'required', req.required
+        )
+        order by p.name
+    )
+    into v_short
+    from requirements req
+    join public.products p on p.id = req.product_id
+    left join public.product_reserved_stock rs on rs.product_id = req.product_id
+    where coalesce(p.quantity, 0) - coalesce(rs.reserved_qty, 0) < req.required;
+
+    if v_short is not null then
+        return jsonb_build_object('success', false, 'error', 'insufficient_stock', 'short_products', v_short);
+    end if;
+
+    with
+        product_lines as (
+            select
+                greatest(x.qty, 1) as qty,
+                round(x.unit_price, 2) as unit_price,
+                public.product_unit_cost(x.product_id, greatest(x.qty, 1)) as unit_cost
+            from jsonb_to_recordset(v_product_items) as x(product_id uuid, qty integer, unit_price numeric)
+        ),
+        combo_costs as (
+            select
+                co.id as combo_id,
+                round(coalesce(co.packaging_cost, 0), 2)
+                    + coalesce(sum(
+                        public.product_unit_cost(ci.product_id, greatest(ci.qty, 1) * sold.qty)
+                            * greatest(ci.qty, 1)
+                    ), 0) as unit_cost
+            from (
+                select c.combo_id, sum(greatest(c.qty, 1))::integer as qty
+                from jsonb_to_recordset(v_combo_items) as c(combo_id uuid, qty integer)
+                group by c.combo_id
+            ) as sold
+            join public.combos co on co.id = sold.combo_id
+            join public.combo_items ci on ci.combo_id = co.id
+            group by co.id, co.packaging_cost
+        ),
+        combo_lines as (
+            select
+                greatest(c.qty, 1) as qty,
+                round(c.unit_price, 2) as unit_price,
+                cc.unit_cost
+            from jsonb_to_recordset(v_combo_items) as c(combo_id uuid, qty integer, unit_price numeric)
+            join combo_costs cc on cc.combo_id = c.combo_id
+        ),
+        all_lines as (
+            select qty, unit_price, unit_cost from product_lines
+            union all
+            select qty, unit_price, unit_cost from combo_lines
+        )
+    select
+        coalesce(sum(round(unit_price * qty, 2)), 0),
+        coalesce(sum(round(unit_cost * qty, 2)), 0)
+    into v_subtotal, v_total_cost
+    from all_lines;
+
+    v_total := greatest(v_subtotal - v_discount + v_tax, 0);
+    v_profit := v_total - v_total_cost;
+
+    insert into public.orders (
+        receipt_number,
+        customer_id,
+        customer_name,
+        customer_phone,
+        customer_email,
+        notes,
+        status,
+        payment_method,
+        payment_reference,
+        subtotal_amount,
+        discount_amount,
+        tax_amount,
+        total_amount,
+        total_cost,
+        profit_amount,
+        currency,
+        created_by
+    )
+    values (
+        payload->>'receipt_number',
+        v_customer_id,
+        payload->>'customer_name',
+        payload->>'customer_phone',
+        payload->>'customer_email',
+        payload->>'notes',
+        'completed',
+        coalesce(payload->>'payment_method', 'cash'),
+        payload->>'payment_reference',
+        v_subtotal,
+        v_discount,
+        v_tax,
+        v_total,
+        v_total_cost,
+        v_profit,
+        coalesce(payload->>'currency', 'NIO'),
+        (payload->>'created_by')::uuid
+    )
+    returning id, receipt_number into v_order_id, v_receipt_number;
+
+    insert into public.order_product_items (
+        order_id,
+        product_id,
+        qty,
+        unit_price,
+        unit_cost,
+        line_total,
+        line_cost_total
+    )
+    select
+        v_order_id,
+        x.product_id,
+        greatest(x.qty, 1),
+        round(x.unit_price, 2),
+        uc.unit_cost,
+        round(round(x.unit_price, 2) * greatest(x.qty, 1), 2),
+        round(uc.unit_cost * greatest(x.qty, 1), 2)
+    from jsonb_to_recordset(v_product_items) as x(product_id uuid, qty integer, unit_price numeric)
+    cross join lateral (
+        select public.product_unit_cost(x.product_id, greatest(x.qty, 1)) as unit_cost
+    ) as uc;
+
+    insert into public.order_combo_items (
+        order_id,
+        combo_id,
+        qty,
+        unit_price,
+        unit_cost,
+        line_total,
+        line_cost_total
+    )
+    select
+        v_order_id,
+        c.combo_id,
+        greatest(c.qty, 1),
+        round(c.unit_price, 2),
+        cc.unit_cost,
+        round(round(c.unit_price, 2) * greatest(c.qty, 1), 2),
+        round(cc.unit_cost * greatest(c.qty, 1), 2)
+    from jsonb_to_recordset(v_combo_items) as c(combo_id uuid, qty integer, unit_price numeric)
+    join (
+        select
+            co.id as combo_id,
+            round(coalesce(co.packaging_cost, 0), 2)
+                + coalesce(sum(
+                    public.product_unit_cost(ci.product_id, greatest(ci.qty, 1) * sold.qty)
+                        * greatest(ci.qty, 1)
+                ), 0) as unit_cost
+        from (
+            select s.combo_id, sum(greatest(s.qty, 1))::integer as qty
+            from jsonb_to_recordset(v_combo_items) as s(combo_id uuid, qty integer)
+            group by s.combo_id
+        ) as sold
+        join public.combos co on co.id = sold.combo_id
+        join public.combo_items ci on ci.combo_id = co.id
+        group by co.id, co.packaging_cost
+    ) as cc on cc.combo_id = c.combo_id;
+
+    perform public.consume_order_stock(v_order_id, (payload->>'created_by')::uuid);
+
+    return jsonb_build_object(
+        'success', true,
+        'order_id', v_order_id,
+        'receipt_number', v_receipt_number,
+        'subtotal_amount', v_subtotal,
+        'discount_amount', v_discount,
+        'tax_amount', v_tax,
+        'total_amount', v_total,
+        'total_cost', v_total_cost,
+        'profit_amount', v_profit
+    );
+end;
+$$;
+
+revoke all on function public.create_pos_sale(jsonb) from public;
+revoke all on function public.create_pos_sale(jsonb) from anon;
+revoke all on function public.create_pos_sale(jsonb) from authenticated;
+grant execute on function public.create_pos_sale(jsonb) to service_role;
@@ -0,0 +1,324 @@
+-- Storefront combos: web orders may include combos next to single products.
+-- Combo lines are stored in order_combo_items and reserve their component
+-- units, so stock consumption and reservations work the same as for the POS.
+
+-- payload.combo_items: [{ combo_id, qty, expected_price }]. Stock and
+-- reservations are computed over the combined per-product requirements.
+create or replace function public.create_storefront_order(payload jsonb)
+returns jsonb
+language plpgsql
+volatile
+security definer
+set search_path = public
+as
+$$
+declare
+    v_items jsonb := coalesce(payload->'items', '[]'::jsonb);
+    v_combo_items jsonb := coalesce(payload->'combo_items', '[]'::jsonb);
+    v_reservation_minutes integer := greatest(coalesce((payload->>'reservation_minutes')::integer, 1440), 1);
+    v_reserved_until timestamptz;
+    v_requirements jsonb;
+    v_combo_lines jsonb;
+    v_product_ids uuid[];
+    v_unavailable jsonb;
+    v_short jsonb;
+    v_price_changes jsonb;
+    v_combo_price_changes jsonb;
+    v_price_review boolean;
+    v_combo_price_review boolean;
+    v_subtotal numeric(12, 2);
+    v_total_cost numeric(12, 2);
+    v_combo_subtotal numeric(12, 2);
+    v_combo_cost numeric(12, 2);
+    v_order_id uuid;
+begin
+    if jsonb_array_length(v_items) + jsonb_array_length(v_combo_items) = 0 then
+        return jsonb_build_object('success', false, 'error', 'empty_order');
+    end if;
+
+    with
+        requested as (
+            select x.product_id, sum(greatest(x.qty, 1))::integer as qty
+            from jsonb_to_recordset(v_items) as x(product_id uuid, qty integer)
+            group by x.product_id
+        )
+    select jsonb_agg(
+        jsonb_build_object('product_id', r.product_id, 'name', p.name)
+    )
+    into v_unavailable
+    from requested r
+    left join public.products p on p.id = r.product_id
+    where p.id is null
+        or coalesce(p.status, 'active') <> 'active';
+
+    if v_unavailable is not null then
+        return jsonb_build_object('success', false, 'error', 'unavailable_products', 'products', v_unavailable);
+    end if;
+
+    -- A combo can only be sold while it is active, has components and every
+    -- component is itself on sale.
+    select jsonb_agg(
+        jsonb_build_object('combo_id', c.combo_id, 'name', co.name)
+    )
+    into v_unavailable
+    from (
+        select distinct x.combo_id
+        from jsonb_to_recordset(v_combo_items) as x(combo_id uuid)
+    ) as c
+    left join public.combos co on co.id = c.combo_id
+    where co.id is null
+        or coalesce(co.status, 'active') <> 'active'
+        or not exists (select 1 from public.combo_items ci where ci.combo_id = c.combo_id)
+        or exists (
+            select 1
+            from public.combo_items ci
+            left join public.products p on p.id = ci.product_id
+            where ci.combo_id = c.combo_id
+                and (p.id is null or coalesce(p.status, 'active') <> 'active')
+        );
+
+    if v_unavailable is not null then
+        return jsonb_build_object('success', false, 'error', 'unavailable_combos', 'combos', v_unavailable);
+    end if;
+
+    select coalesce(
+        jsonb_agg(jsonb_build_object('product_id', u.product_id, 'qty', u.qty)),
+        '[]'::jsonb
+    )
+    into v_requirements
+    from (
+        select units.product_id, sum(units.qty)::integer as qty
+        from (
+            select x.product_id, greatest(x.qty, 1) as qty
+            from jsonb_to_recordset(v_items) as x(product_id uuid, qty integer)
+            union all
+            select ci.product_id, greatest(ci.qty, 1) * greatest(c.qty, 1)
+            from jsonb_to_recordset(v_combo_items) as c(combo_id uuid, qty integer)
+            join public.combo_items ci on ci.combo_id = c.combo_id
+        ) as units
+        group by units.product_id
+    ) as u;
+
+    select coalesce(array_agg(r.product_id order by r.product_id), '{}')
+    into v_product_ids
+    from jsonb_to_recordset(v_requirements) as r(product_id uuid);
+
+    perform 1
+    from public.products
+    where id = any(v_product_ids)
+    order by id
+    for update;
+
+    select jsonb_agg(
+        jsonb_build_object(
+            'product_id', p.id,
+            'name', p.name,
+            'available', greatest(coalesce(p.quantity, 0) - coalesce(rs.reserved_qty, 0), 0),
+            'required', r.qty
+        )
+        order by p.name
+    )
+    into v_short
+    from jsonb_to_recordset(v_requirements) as r(product_id uuid, qty integer)
+    join public.products p on p.id = r.product_id
+    left join public.product_reserved_stock rs on rs.product_id = r.product_id
+    where coalesce(p.quantity, 0) - coalesce(rs.reserved_qty, 0) < r.qty;
+
+    if v_short is not null then
+        return jsonb_build_object('success', false, 'error', 'insufficient_stock', 'short_products', v_short);
+    end if;
+
+    select jsonb_agg(
+        jsonb_build_object(
+            'product_id', p.id,
+            'name', p.name,
+            'expected_price', x.expected_price,
+            'current_price', p.sell_price
+        )
+        order by p.name
+    )
+    into v_price_changes
+    from jsonb_to_recordset(v_items) as x(product_id uuid, expected_price numeric)
+    join public.products p on p.id = x.product_id
+    where round(x.expected_price, 2) is distinct from round(p.sell_price, 2);
+
+    select jsonb_agg(
+        jsonb_build_object(
+            'combo_id', co.id,
+            'name', co.name,
+            'expected_price', x.expected_price,
+            'current_price', co.suggested_price
+        )
+        order by co.name
+    )
+    into v_combo_price_changes
+    from jsonb_to_recordset(v_combo_items) as x(combo_id uuid, expected_price numeric)
+    join public.combos co on co.id = x.combo_id
+    where round(x.expected_price, 2) is distinct from round(co.suggested_price, 2);
+
+    if v_price_changes is not null or v_combo_price_changes is not null then
+        return jsonb_build_object(
+            'success', false,
+            'error', 'price_changed',
+            'price_changes', coalesce(v_price_changes, '[]'::jsonb) || coalesce(v_combo_price_changes, '[]'::jsonb)
+        );
+    end if;
+
+    -- Products without a sell price are accepted at zero and the order is
+    -- flagged so the team confirms the amount with the customer.
+    select
+        bool_or(p.sell_price is null),
+        coalesce(sum(round(coalesce(p.sell_price, 0), 2) * greatest(x.qty, 1)), 0),
+        coalesce(sum(round(coalesce(p.cost_price, 0), 2) * greatest(x.qty, 1)), 0)
+    into v_price_review, v_subtotal, v_total_cost
+    from jsonb_to_recordset(v_items) as x(product_id uuid, qty integer)
+    join public.products p on p.id = x.product_id;
+
+    -- A combo costs its packaging plus the current cost of its components.
+    select coalesce(
+        jsonb_agg(
+            jsonb_build_object(
+                'combo_id', co.id,
+                'qty', r.qty,
+                'unit_price', round(coalesce(co.suggested_price, 0), 2),
+                'unit_cost', round(
+                    coalesce(co.packaging_cost, 0) + coalesce((
+                        select sum(round(coalesce(p.cost_price, 0), 2) * greatest(ci.qty, 1))
+                        from public.combo_items ci
+                        join public.products p on p.id = ci.product_id
+                        where ci.combo_id = co.id
+                    ), 0),
+                    2
+                ),
+                'missing_price', co.suggested_price is null
+            )
+        ),
+        '[]'::jsonb
+    )
+    into v_combo_lines
+    from (
+        select x.combo_id, sum(greatest(x.qty, 1))::integer as qty
+        from jsonb_to_recordset(v_combo_items) as x(combo_id uuid, qty integer)
+        group by x.combo_id
+    ) as r
+    join public.combos co on co.id = r.combo_id;
+
+    select
+        bool_or(l.missing_price),
+        coalesce(sum(l.unit_price * l.qty), 0),
+        coalesce(sum(l.unit_cost * l.qty), 0)
+    into v_combo_price_review, v_combo_subtotal, v_combo_cost
+    from jsonb_to_recordset(v_combo_lines) as l(
+        qty integer,
+        unit_price numeric,
+        unit_cost numeric,
+        missing_price boolean
+    );
+
+    v_subtotal := coalesce(v_subtotal, 0) + v_combo_subtotal;
+    v_total_cost := coalesce(v_total_cost, 0) + v_combo_cost;
+    v_price_review := coalesce(v_price_review, false) or coalesce(v_combo_price_review, false);
+
+    insert into public.orders (
+        customer_name,
+        customer_phone,
+        customer_email,
+        notes,
+        status,
+        payment_method,
+        subtotal_amount,
+        discount_amount,
+        tax_amount,
+        total_amount,
+        total_cost,
+        profit_amount,
+        price_review_required,
+        currency
+    )
+    values (
+        payload->>'customer_name',
+        payload->>'customer_phone',
+        payload->>'customer_email',
+        payload->>'notes',
+        'pending',
+        coalesce(payload->>'payment_method', 'cash'),
+        v_subtotal,
+        0,
+        0,
+        v_subtotal,
+        v_total_cost,
+        v_subtotal - v_total_cost,
+        v_price_review,
+        coalesce(payload->>'currency', 'NIO')
+    )
+    returning id into v_order_id;
+
+    insert into public.order_product_items (
+        order_id,
+        product_id,
+        qty,
+        unit_price,
+        unit_cost,
+        line_total,
+        line_cost_total
+    )
+    select
+        v_order_id,
+        p.id,
+        r.qty,
+        round(coalesce(p.sell_price, 0), 2),
+        round(coalesce(p.cost_price, 0), 2),
+        round(round(coalesce(p.sell_price, 0), 2) * r.qty, 2),
+        round(round(coalesce(p.cost_price, 0), 2) * r.qty, 2)
+    from (
+        select x.product_id, sum(greatest(x.qty, 1))::integer as qty
+        from jsonb_to_recordset(v_items) as x(product_id uuid, qty integer)
+        group by x.product_id
+    ) as r
+    join public.products p on p.id = r.product_id;
+
+    insert into public.order_combo_items (
+        order_id,
+        combo_id,
+        qty,
+        unit_price,
+        unit_cost,
+        line_total,
+        line_cost_total
+    )
+    select
+        v_order_id,
+        l.combo_id,
+        l.qty,
+        l.unit_price,
+        l.unit_cost,
+        round(l.unit_price * l.qty, 2),
+        round(l.unit_cost * l.qty, 2)
+    from jsonb_to_recordset(v_combo_lines) as l(
+        combo_id uuid,
+        qty integer,
+        unit_price numeric,
+        unit_cost numeric
+    );
+
+    v_reserved_until := now() + make_interval(mins => v_reservation_minutes);
+
+    insert into public.stock_reservations (order_id, product_id, qty, expires_at)
+    select v_order_id, r.product_id, r.qty, v_reserved_until
+    from jsonb_to_recordset(v_requirements) as r(product_id uuid, qty integer);
+
+    return jsonb_build_object(
+        'success', true,
+        'order_id', v_order_id,
+        'subtotal_amount', v_subtotal,
+        'total_amount', v_subtotal,
+        'price_review_required', v_price_review,
+        'reserved_until', v_reserved_until
+    );
+end;
+$$;
+
+revoke all on function public.create_storefront_order(jsonb) from public;
+revoke all on function public.create_storefront_order(jsonb) from anon;
+revoke all on function public.create_storefront_order(jsonb) from authenticated;
+grant execute on function public.create_storefront_order(jsonb) to service_role;
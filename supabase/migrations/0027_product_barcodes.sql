@@ -0,0 +1,31 @@
+-- Product barcodes: a product may carry several scannable codes (supplier
+-- EAN, our own labels, ...) apart from its SKU. Codes are stored uppercase
+-- without spaces and belong to exactly one product, so a scan at the POS
+-- always resolves to a single item.
+
+create table if not exists public.product_barcodes (
+    id bigserial primary key,
+    product_id uuid not null references public.products (id) on delete cascade,
+    code text not null,
+    created_at timestamptz not null default now(),
+    constraint product_barcodes_code_key unique (code),
+    constraint product_barcodes_code_check check (code ~ '^[A-Z0-9.-]{4,64}$')
+);
+
+create index if not exists product_barcodes_product_idx
+    on public.product_barcodes (product_id);
+
+alter table public.product_barcodes enable row level security;
+
+drop policy if exists "Product barcodes staff read" on public.product_barcodes;
+create policy "Product barcodes staff read"
+    on public.product_barcodes
+    for select
+    using (auth.role() = 'service_role' or public.has_staff_role('owner', 'manager', 'cashier'));
+
+drop policy if exists "Product barcodes owner write" on public.product_barcodes;
+create policy "Product barcodes owner write"
+    on public.product_barcodes
+    for all
+    using (auth.role() = 'service_role' or public.has_staff_role('owner', 'manager'))
+    with check (auth.role() = 'service_role' or public.has_staff_role('owner', 'manager'));
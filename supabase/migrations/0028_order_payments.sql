@@ -0,0 +1,417 @@
+-- Split tender: a sale may be settled with several payments (e.g. part cash,
+-- part transfer). Each tender lives in order_payments; orders.payment_method
+-- keeps the single method used or 'mixed' so existing reports keep working.
+
+alter table public.orders
+    drop constraint if exists orders_payment_method_check;
+alter table public.orders
+    add constraint orders_payment_method_check
+    check (payment_method in ('cash', 'card', 'transfer', 'mixed'));
+
+create table if not exists public.order_payments (
+    id bigserial primary key,
+    order_id uuid not null references public.orders (id) on delete cascade,
+    method text not null,
+    amount numeric(12, 2) not null,
+    tendered_amount numeric(12, 2),
+    change_amount numeric(12, 2) not null default 0,
+    reference text,
+    created_at timestamptz not null default now(),
+    constraint order_payments_method_check check (method in ('cash', 'card', 'transfer')),
+    constraint order_payments_amount_check check (amount > 0),
+    constraint order_payments_tendered_check check (
+        tendered_amount is null or (method = 'cash' and tendered_amount >= amount)
+    ),
+    constraint order_payments_change_check check (change_amount >= 0)
+);
+
+create index if not exists order_payments_order_idx
+    on public.order_payments (order_id);
+
+alter table public.order_payments enable row level security;
+
+drop policy if exists "Order payments staff read" on public.order_payments;
+create policy "Order payments staff read"
+    on public.order_payments
+    for select
+    using (auth.role() = 'service_role' or public.has_staff_role('owner', 'manager', 'cashier'));
+
+drop policy if exists "Order payments service write" on public.order_payments;
+create policy "Order payments service write"
+    on public.order_payments
+    for all
+    using (auth.role() = 'service_role')
+    with check (auth.role() = 'service_role');
+
+-- Existing orders were paid with a single method for the full total.
+insert into public.order_payments (order_id, method, amount, reference, created_at)
+select o.id, o.payment_method, o.total_amount, o.payment_reference, o.created_at
+from public.orders o
+where o.total_amount > 0
+  and o.status = 'completed'
+  and o.payment_method in ('cash', 'card', 'transfer')
+  and not exists (select 1 from public.order_payments op where op.order_id = o.id);
+
+-- POS sale ------------------------------------------------------------------
+
+-- payload.payments: [{ method, amount, tendered_amount, reference }]. When
+-- omitted the sale is paid in full with payload.payment_method. The tenders
+-- must add up to the computed total or the sale is rejected.
+create or replace function public.create_pos_sale(payload jsonb)
+returns jsonb
+language plpgsql
+volatile
+security definer
+set search_path = public
+as
+$$
+declare
+    v_product_items jsonb := coalesce(payload->'product_items', '[]'::jsonb);
+    v_combo_items jsonb := coalesce(payload->'combo_items', '[]'::jsonb);
+    v_discount numeric(12, 2) := greatest(round(coalesce((payload->>'discount_amount')::numeric, 0), 2), 0);
+    v_tax numeric(12, 2) := greatest(round(coalesce((payload->>'tax_amount')::numeric, 0), 2), 0);
+    v_payments jsonb := coalesce(payload->'payments', '[]'::jsonb);
+    v_paid numeric(12, 2);
+    v_invalid_payment boolean;
+    v_payment_method text;
+    v_payment_reference text;
+    v_product_ids uuid[];
+    v_missing jsonb;
+    v_empty_combo text;
+    v_short jsonb;
+    v_subtotal numeric(12, 2);
+    v_total_cost numeric(12, 2);
+    v_total numeric(12, 2);
+    v_profit numeric(12, 2);
+    v_order_id uuid;
+    v_receipt_number text;
+    v_customer_id uuid;
+begin
+    if jsonb_array_length(v_product_items) + jsonb_array_length(v_combo_items) = 0 then
+        return jsonb_build_object('success', false, 'error', 'empty_sale');
+    end if;
+
+    if nullif(payload->>'customer_id', '') is not null then
+        select id into v_customer_id
+        from public.customers
+        where id = (payload->>'customer_id')::uuid;
+
+        if v_customer_id is null then
+            return jsonb_build_object('success', false, 'error', 'customer_not_found');
+        end if;
+    end if;
+
+    select coalesce(jsonb_agg(c.combo_id), '[]'::jsonb)
+    into v_missing
+    from jsonb_to_recordset(v_combo_items) as c(combo_id uuid)
+    where not exists (select 1 from public.combos co where co.id = c.combo_id);
+
+    if jsonb_array_length(v_missing) > 0 then
+        return jsonb_build_object('success', false, 'error', 'missing_combos', 'combo_ids', v_missing);
+    end if;
+
+    select co.name
+    into v_empty_combo
+    from jsonb_to_recordset(v_combo_items) as c(combo_id uuid)
+    join public.combos co on co.id = c.combo_id
+    where not exists (select 1 from public.combo_items ci where ci.combo_id = c.combo_id)
+    limit 1;
+
+    if v_empty_combo is not null then
+        return jsonb_build_object('success', false, 'error', 'empty_combo', 'combo_name', v_empty_combo);
+    end if;
+
+    select coalesce(array_agg(distinct ids.product_id), '{}')
+    into v_product_ids
+    from (
+        select x.product_id
+        from jsonb_to_recordset(v_product_items) as x(product_id uuid)
+        union
+        select ci.product_id
+        from jsonb_to_recordset(v_combo_items) as c(combo_id uuid)
+        join public.combo_items ci on ci.combo_id = c.combo_id
+    ) as ids;
+
+    -- Lock every product touched by the sale in a stable order so concurrent
+    -- sales of the same units serialize instead of overselling.
+    perform 1
+    from public.products
+    where id = any(v_product_ids)
+    order by id
+    for update;
+
+    select coalesce(jsonb_agg(ids.product_id), '[]'::jsonb)
+    into v_missing
+    from unnest(v_product_ids) as ids(product_id)
+    where not exists (select 1 from public.products p where p.id = ids.product_id);
+
+    if jsonb_array_length(v_missing) > 0 then
+        return jsonb_build_object('success', false, 'error', 'missing_products', 'product_ids', v_missing);
+    end if;
+
+    with
+        requirements as (
+            select r.product_id, sum(r.qty)::integer as required
+            from (
+                select x.product_id, greatest(x.qty, 1) as qty
+                from jsonb_to_recordset(v_product_items) as x(product_id uuid, qty integer)
+                union all
+                select ci.product_id, greatest(ci.qty, 1) * greatest(c.qty, 1)
+                from jsonb_to_recordset(v_combo_items) as c(combo_id uuid, qty integer)
+                join public.combo_items ci on ci.combo_id = c.combo_id
+            ) as r
+            group by r.product_id
+        )
+    select jsonb_agg(
+        jsonb_build_object(
+            'product_id', p.id,
+            'name', p.name,
+            'available', greatest(coalesce(p.quantity, 0) - coalesce(rs.reserved_qty, 0), 0),
+            'required', req.required
+        )
+        order by p.name
+    )
+    into v_short
+    from requirements req
+    join public.products p on p.id = req.product_id
+    left join public.product_reserved_stock rs on rs.product_id = req.product_id
+    where coalesce(p.quantity, 0) - coalesce(rs.reserved_qty, 0) < req.required;
+
+    if v_short is not null then
+        return jsonb_build_object('success', false, 'error', 'insufficient_stock', 'short_products', v_short);
+    end if;
+
+    with
+        product_lines as (
+            select
+                greatest(x.qty, 1) as qty,
+                round(x.unit_price, 2) as unit_price,
+                public.product_unit_cost(x.product_id, greatest(x.qty, 1)) as unit_cost
+            from jsonb_to_recordset(v_product_items) as x(product_id uuid, qty integer, unit_price numeric)
+        ),
+        combo_costs as (
+            select
+                co.id as combo_id,
+                round(coalesce(co.packaging_cost, 0), 2)
+                    + coalesce(sum(
+                        public.product_unit_cost(ci.product_id, greatest(ci.qty, 1) * sold.qty)
+                            * greatest(ci.qty, 1)
+                    ), 0) as unit_cost
+            from (
+                select c.combo_id, sum(greatest(c.qty, 1))::integer as qty
+                from jsonb_to_recordset(v_combo_items) as c(combo_id uuid, qty integer)
+                group by c.combo_id
+            ) as sold
+            join public.combos co on co.id = sold.combo_id
+            join public.combo_items ci on ci.combo_id = co.id
+            group by co.id, co.packaging_cost
+        ),
+        combo_lines as (
+            select
+                greatest(c.qty, 1) as qty,
+                round(c.unit_price, 2) as unit_price,
+                cc.unit_cost
+            from jsonb_to_recordset(v_combo_items) as c(combo_id uuid, qty integer, unit_price numeric)
+            join combo_costs cc on cc.combo_id = c.combo_id
+        ),
+        all_lines as (
+            select qty, unit_price, unit_cost from product_lines
+            union all
+            select qty, unit_price, unit_cost from combo_lines
+        )
+    select
+        coalesce(sum(round(unit_price * qty, 2)), 0),
+        coalesce(sum(round(unit_cost * qty, 2)), 0)
+    into v_subtotal, v_total_cost
+    from all_lines;
+
+    v_total := greatest(v_subtotal - v_discount + v_tax, 0);
+    v_profit := v_total - v_total_cost;
+
+    if jsonb_array_length(v_payments) = 0 and v_total > 0 then
+        v_payments := jsonb_build_array(
+            jsonb_build_object(
+                'method', coalesce(payload->>'payment_method', 'cash'),
+                'amount', v_total,
+                'reference', payload->>'payment_reference'
+            )
+        );
+    end if;
+
+    select
+        coalesce(sum(round(t.amount, 2)), 0),
+        coalesce(bool_or(
+            t.method is null
+            or t.method not in ('cash', 'card', 'transfer')
+            or t.amount is null
+            or round(t.amount, 2) <= 0
+            or (t.tendered_amount is not null
+                and (t.method <> 'cash' or round(t.tendered_amount, 2) < round(t.amount, 2)))
+        ), false)
+    into v_paid, v_invalid_payment
+    from jsonb_to_recordset(v_payments) as t(method text, amount numeric, tendered_amount numeric);
+
+    if v_invalid_payment then
+        return jsonb_build_object('success', false, 'error', 'invalid_payment');
+    end if;
+
+    if v_paid <> v_total then
+        return jsonb_build_object(
+            'success', false,
+            'error', 'payment_mismatch',
+            'total_amount', v_total,
+            'paid_amount', v_paid
+        );
+    end if;
+
+    select
+        case when count(distinct t.method) > 1 then 'mixed' else min(t.method) end,
+        coalesce(
+            min(nullif(trim(t.reference), '')) filter (where t.method = 'transfer'),
+            min(nullif(trim(t.reference), ''))
+        )
+    into v_payment_method, v_payment_reference
+    from jsonb_to_recordset(v_payments) as t(method text, reference text);
+
+    insert into public.orders (
+        receipt_number,
+        customer_id,
+        customer_name,
+        customer_phone,
+        customer_email,
+        notes,
+        status,
+        payment_method,
+        payment_reference,
+        subtotal_amount,
+        discount_amount,
+        tax_amount,
+        total_amount,
+        total_cost,
+        profit_amount,
+        currency,
+        created_by
+    )
+    values (
+        payload->>'receipt_number',
+        v_customer_id,
+        payload->>'customer_name',
+        payload->>'customer_phone',
+        payload->>'customer_email',
+        payload->>'notes',
+        'completed',
+        coalesce(v_payment_method, payload->>'payment_method', 'cash'),
+        coalesce(v_payment_reference, payload->>'payment_reference'),
+        v_subtotal,
+        v_discount,
+        v_tax,
+        v_total,
+        v_total_cost,
+        v_profit,
+        coalesce(payload->>'currency', 'NIO'),
+        (payload->>'created_by')::uuid
+    )
+    returning id, receipt_number into v_order_id, v_receipt_number;
+
+    insert into public.order_product_items (
+        order_id,
+        product_id,
+        qty,
+        unit_price,
+        unit_cost,
+        line_total,
+        line_cost_total
+    )
+    select
+        v_order_id,
+        x.product_id,
+        greatest(x.qty, 1),
+        round(x.unit_price, 2),
+        uc.unit_cost,
+        round(round(x.unit_price, 2) * greatest(x.qty, 1), 2),
+        round(uc.unit_cost * greatest(x.qty, 1), 2)
+    from jsonb_to_recordset(v_product_items) as x(product_id uuid, qty integer, unit_price numeric)
+    cross join lateral (
+        select public.product_unit_cost(x.product_id, greatest(x.qty, 1)) as unit_cost
+    ) as uc;
+
+    insert into public.order_combo_items (
+        order_id,
+        combo_id,
+        qty,
+        unit_price,
+        unit_cost,
+        line_total,
+        line_cost_total
+    )
+    select
+        v_order_id,
+        c.combo_id,
+        greatest(c.qty, 1),
+        round(c.unit_price, 2),
+        cc.unit_cost,
+        round(round(c.unit_price, 2) * greatest(c.qty, 1), 2),
+        round(cc.unit_cost * greatest(c.qty, 1), 2)
+    from jsonb_to_recordset(v_combo_items) as c(combo_id uuid, qty integer, unit_price numeric)
+    join (
+        select
+            co.id as combo_id,
+            round(coalesce(co.packaging_cost, 0), 2)
+                + coalesce(sum(
+                    public.product_unit_cost(ci.product_id, greatest(ci.qty, 1) * sold.qty)
+                        * greatest(ci.qty, 1)
+                ), 0) as unit_cost
+        from (
+            select s.combo_id, sum(greatest(s.qty, 1))::integer as qty
+            from jsonb_to_recordset(v_combo_items) as s(combo_id uuid, qty integer)
+            group by s.combo_id
+        ) as sold
+        join public.combos co on co.id = sold.combo_id
+        join public.combo_items ci on ci.combo_id = co.id
+        group by co.id, co.packaging_cost
+    ) as cc on cc.combo_id = c.combo_id;
+
+    insert into public.order_payments (
+        order_id,
+        method,
+        amount,
+        tendered_amount,
+        change_amount,
+        reference
+    )
+    select
+        v_order_id,
+        e.value->>'method',
+        round((e.value->>'amount')::numeric, 2),
+        round((e.value->>'tendered_amount')::numeric, 2),
+        coalesce(
+            round((e.value->>'tendered_amount')::numeric, 2)
+                - round((e.value->>'amount')::numeric, 2),
+            0
+        ),
+        nullif(trim(e.value->>'reference'), '')
+    from jsonb_array_elements(v_payments) with ordinality as e(value, ord)
+    order by e.ord;
+
+    perform public.consume_order_stock(v_order_id, (payload->>'created_by')::uuid);
+
+    return jsonb_build_object(
+        'success', true,
+        'order_id', v_order_id,
+        'receipt_number', v_receipt_number,
+        'subtotal_amount', v_subtotal,
+        'discount_amount', v_discount,
+        'tax_amount', v_tax,
+        'total_amount', v_total,
+        'total_cost', v_total_cost,
+        'profit_amount', v_profit,
+        'payment_method', coalesce(v_payment_method, payload->>'payment_method', 'cash'),
+        'paid_amount', v_paid
+    );
+end;
+$$;
+
+revoke all on function public.create_pos_sale(jsonb) from public;
+revoke all on function public.create_pos_sale(jsonb) from anon;
+revoke all on function public.create_pos_sale(jsonb) from authenticated;
+grant execute on function public.create_pos_sale(jsonb) to service_role;
@@ -0,0 +1,1425 @@
+-- Discounts: POS lines may carry their own percentage or fixed discount with a
+-- reason, and sales and storefront orders may redeem a promo code. Line
+-- discounts are stored on the item rows (line_total is net of them) and every
+-- discount is folded into orders.discount_amount, so subtotal minus discount
+-- plus tax still equals the total and profit stays total minus cost.
+
+create table if not exists public.promo_codes (
+    id uuid primary key default gen_random_uuid(),
+    code text not null,
+    description text,
+    discount_type text not null,
+    discount_value numeric(12, 2) not null,
+    min_subtotal numeric(12, 2) not null default 0,
+    starts_at timestamptz,
+    ends_at timestamptz,
+    max_uses integer,
+    times_used integer not null default 0,
+    active boolean not null default true,
+    created_by uuid references auth.users (id),
+    created_at timestamptz not null default now(),
+    constraint promo_codes_code_check check (code ~ '^[A-Z0-9_-]{3,32}$'),
+    constraint promo_codes_discount_type_check check (discount_type in ('percentage', 'fixed')),
+    constraint promo_codes_discount_value_check check (
+        discount_value > 0 and (discount_type <> 'percentage' or discount_value <= 100)
+    ),
+    constraint promo_codes_min_subtotal_check check (min_subtotal >= 0),
+    constraint promo_codes_max_uses_check check (max_uses is null or max_uses > 0),
+    constraint promo_codes_times_used_check check (times_used >= 0),
+    constraint promo_codes_window_check check (
+        starts_at is null or ends_at is null or ends_at > starts_at
+    )
+);
+
+create unique index if not exists promo_codes_code_idx
+    on public.promo_codes (code);
+
+alter table public.promo_codes enable row level security;
+
+drop policy if exists "Promo codes staff read" on public.promo_codes;
+create policy "Promo codes staff read"
+    on public.promo_codes
+    for select
+    using (auth.role() = 'service_role' or public.has_staff_role('owner', 'manager', 'cashier'));
+
+drop policy if exists "Promo codes service write" on public.promo_codes;
+create policy "Promo codes service write"
+    on public.promo_codes
+    for all
+    using (auth.role() = 'service_role')
+    with check (auth.role() = 'service_role');
+
+alter table public.order_product_items
+    add column if not exists discount_type text,
+    add column if not exists discount_value numeric(12, 2),
+    add column if not exists discount_amount numeric(12, 2) not null default 0,
+    add column if not exists discount_reason text;
+
+alter table public.order_combo_items
+    add column if not exists discount_type text,
+    add column if not exists discount_value numeric(12, 2),
+    add column if not exists discount_amount numeric(12, 2) not null default 0,
+    add column if not exists discount_reason text;
+
+alter table public.order_product_items
+    drop constraint if exists order_product_items_discount_check;
+alter table public.order_product_items
+    add constraint order_product_items_discount_check check (
+        (discount_type is null and discount_amount = 0)
+        or (discount_type in ('percentage', 'fixed') and discount_amount >= 0)
+    );
+
+alter table public.order_combo_items
+    drop constraint if exists order_combo_items_discount_check;
+alter table public.order_combo_items
+    add constraint order_combo_items_discount_check check (
+        (discount_type is null and discount_amount = 0)
+        or (discount_type in ('percentage', 'fixed') and discount_amount >= 0)
+    );
+
+-- discount_amount stays the total of every discount; the columns below split
+-- out what came from line discounts and from the promo code. The remainder is
+-- the manual order discount, explained by discount_reason.
+alter table public.orders
+    add column if not exists line_discount_amount numeric(12, 2) not null default 0,
+    add column if not exists promo_code_id uuid references public.promo_codes (id) on delete set null,
+    add column if not exists promo_code text,
+    add column if not exists promo_discount_amount numeric(12, 2) not null default 0,
+    add column if not exists discount_reason text;
+
+create index if not exists orders_promo_code_idx
+    on public.orders (promo_code_id)
+    where promo_code_id is not null;
+
+-- Discount helpers ------------------------------------------------------------
+
+-- Discount on an amount: percentages are rounded to cents, fixed amounts never
+-- exceed what they discount. Mirrors `computeDiscountAmount` in lib/discounts.
+create or replace function public.discount_amount_for(p_amount numeric, p_type text, p_value numeric)
+returns numeric
+language sql
+immutable
+as
+$$
+    select case
+        when coalesce(p_amount, 0) <= 0 or coalesce(p_value, 0) <= 0 then 0
+        when p_type = 'percentage' then round(p_amount * least(p_value, 100) / 100, 2)
+        when p_type = 'fixed' then least(round(p_value, 2), p_amount)
+        else 0
+    end;
+$$;
+
+-- Locks and validates a promo code against the amount it would discount.
+-- Callers bump times_used once the order is inserted, so a sale that is
+-- rejected later never uses up the code.
+create or replace function public.apply_promo_code(p_code text, p_amount numeric)
+returns jsonb
+language plpgsql
+volatile
+security definer
+set search_path = public
+as
+$$
+declare
+    v_promo public.promo_codes%rowtype;
+begin
+    select * into v_promo
+    from public.promo_codes
+    where code = upper(trim(p_code))
+    for update;
+
+    if v_promo.id is null then
+        return jsonb_build_object('success', false, 'error', 'promo_not_found');
+    end if;
+
+    if not v_promo.active then
+        return jsonb_build_object('success', false, 'error', 'promo_inactive');
+    end if;
+
+    if v_promo.starts_at is not null and v_promo.starts_at > now() then
+        return jsonb_build_object('success', false, 'error', 'promo_not_started');
+    end if;
+
+    if v_promo.ends_at is not null and v_promo.ends_at <= now() then
+        return jsonb_build_object('success', false, 'error', 'promo_expired');
+    end if;
+
+    if v_promo.max_uses is not null and v_promo.times_used >= v_promo.max_uses then
+        return jsonb_build_object('success', false, 'error', 'promo_exhausted');
+    end if;
+
+    if p_amount < v_promo.min_subtotal then
+        return jsonb_build_object(
+            'success', false,
+            'error', 'promo_min_subtotal',
+            'min_subtotal', v_promo.min_subtotal
+        );
+    end if;
+
+    return jsonb_build_object(
+        'success', true,
+        'promo_code_id', v_promo.id,
+        'code', v_promo.code,
+        'discount_amount', public.discount_amount_for(p_amount, v_promo.discount_type, v_promo.discount_value)
+    );
+end;
+$$;
+
+revoke all on function public.apply_promo_code(text, numeric) from public;
+revoke all on function public.apply_promo_code(text, numeric) from anon;
+revoke all on function public.apply_promo_code(text, numeric) from authenticated;
+grant execute on function public.apply_promo_code(text, numeric) to service_role;
+
+-- POS sale ------------------------------------------------------------------
+
+-- Same as 0029, plus per-line discounts with reasons, an optional promo code
+-- and a reason for the manual order discount. payload.discount_amount is the
+-- manual discount; the stored discount_amount adds line and promo discounts.
+create or replace function public.create_pos_sale(payload jsonb)
+returns jsonb
+language plpgsql
+volatile
+security definer
+set search_path = public
+as
+$$
+declare
+    v_product_items jsonb := coalesce(payload->'product_items', '[]'::jsonb);
+    v_combo_items jsonb := coalesce(payload->'combo_items', '[]'::jsonb);
+    v_discount numeric(12, 2) := greatest(round(coalesce((payload->>'discount_amount')::numeric, 0), 2), 0);
+    v_discount_reason text := nullif(trim(coalesce(payload->>'discount_reason', '')), '');
+    v_promo_code text := nullif(upper(trim(coalesce(payload->>'promo_code', ''))), '');
+    v_tax numeric(12, 2) := greatest(round(coalesce((payload->>'tax_amount')::numeric, 0), 2), 0);
+    v_payments jsonb := coalesce(payload->'payments', '[]'::jsonb);
+    v_invalid_discount boolean;
+    v_line_discount numeric(12, 2);
+    v_promo jsonb;
+    v_promo_id uuid;
+    v_promo_discount numeric(12, 2) := 0;
+    v_discount_total numeric(12, 2);
+    v_paid numeric(12, 2);
+    v_invalid_payment boolean;
+    v_payment_method text;
+    v_payment_reference text;
+    v_product_ids uuid[];
+    v_missing jsonb;
+    v_empty_combo text;
+    v_short jsonb;
+    v_subtotal numeric(12, 2);
+    v_total_cost numeric(12, 2);
+    v_total numeric(12, 2);
+    v_profit numeric(12, 2);
+    v_order_id uuid;
+    v_receipt_number text;
+    v_customer_id uuid;
+    v_session_id uuid;
+begin
+    if jsonb_array_length(v_product_items) + jsonb_array_length(v_combo_items) = 0 then
+        return jsonb_build_object('success', false, 'error', 'empty_sale');
+    end if;
+
+    -- Every manual discount needs a valid value and a reason.
+    select coalesce(bool_or(
+        d.discount_type not in ('percentage', 'fixed')
+        or d.discount_value is null
+        or d.discount_value <= 0
+        or (d.discount_type = 'percentage' and d.discount_value > 100)
+        or nullif(trim(coalesce(d.discount_reason, '')), '') is null
+    ), false)
+    into v_invalid_discount
+    from (
+        select x.discount_type, x.discount_value, x.discount_reason
+        from jsonb_to_recordset(v_product_items)
+            as x(discount_type text, discount_value numeric, discount_reason text)
+        union all
+        select c.discount_type, c.discount_value, c.discount_reason
+        from jsonb_to_recordset(v_combo_items)
+            as c(discount_type text, discount_value numeric, discount_reason text)
+    ) as d
+    where d.discount_type is not null;
+
+    if v_invalid_discount or (v_discount > 0 and v_discount_reason is null) then
+        return jsonb_build_object('success', false, 'error', 'invalid_discount');
+    end if;
+
+    select id into v_session_id
+    from public.register_sessions
+    where status = 'open'
+    for share;
+
+    if v_session_id is null then
+        return jsonb_build_object('success', false, 'error', 'register_closed');
+    end if;
+
+    if nullif(payload->>'customer_id', '') is not null then
+        select id into v_customer_id
+        from public.customers
+        where id = (payload->>'customer_id')::uuid;
+
+        if v_customer_id is null then
+            return jsonb_build_object('success', false, 'error', 'customer_not_found');
+        end if;
+    end if;
+
+    select coalesce(jsonb_agg(c.combo_id), '[]'::jsonb)
+    into v_missing
+    from jsonb_to_recordset(v_combo_items) as c(combo_id uuid)
+    where not exists (select 1 from public.combos co where co.id = c.combo_id);
+
+    if jsonb_array_length(v_missing) > 0 then
+        return jsonb_build_object('success', false, 'error', 'missing_combos', 'combo_ids', v_missing);
+    end if;
+
+    select co.name
+    into v_empty_combo
+    from jsonb_to_recordset(v_combo_items) as c(combo_id uuid)
+    join public.combos co on co.id = c.combo_id
+    where not exists (select 1 from public.combo_items ci where ci.combo_id = c.combo_id)
+    limit 1;
+
+    if v_empty_combo is not null then
+        return jsonb_build_object('success', false, 'error', 'empty_combo', 'combo_name', v_empty_combo);
+    end if;
+
+    select coalesce(array_agg(distinct ids.product_id), '{}')
+    into v_product_ids
+    from (
+        select x.product_id
+        from jsonb_to_recordset(v_product_items) as x(product_id uuid)
+        union
+        select ci.product_id
+        from jsonb_to_recordset(v_combo_items) as c(combo_id uuid)
+        join public.combo_items ci on ci.combo_id = c.combo_id
+    ) as ids;
+
+    -- Lock every product touched by the sale in a stable order so concurrent
+    -- sales of the same units serialize instead of overselling.
+    perform 1
+    from public.products
+    where id = any(v_product_ids)
+    order by id
+    for update;
+
+    select coalesce(jsonb_agg(ids.product_id), '[]'::jsonb)
+    into v_missing
+    from unnest(v_product_ids) as ids(product_id)
+    where not exists (select 1 from public.products p where p.id = ids.product_id);
+
+    if jsonb_array_length(v_missing) > 0 then
+        return jsonb_build_object('success', false, 'error', 'missing_products', 'product_ids', v_missing);
+    end if;
+
+    with
+        requirements as (
+            select r.product_id, sum(r.qty)::integer as required
+            from (
+                select x.product_id, greatest(x.qty, 1) as qty
+                from jsonb_to_recordset(v_product_items) as x(product_id uuid, qty integer)
+                union all
+                select ci.product_id, greatest(ci.qty, 1) * greatest(c.qty, 1)
+                from jsonb_to_recordset(v_combo_items) as c(combo_id uuid, qty integer)
+                join public.combo_items ci on ci.combo_id = c.combo_id
+            ) as r
+            group by r.product_id
+        )
+    select jsonb_agg(
+        jsonb_build_object(
+            'product_id', p.id,
+            'name', p.name,
+            'available', greatest(coalesce(p.quantity, 0) - coalesce(rs.reserved_qty, 0), 0),
+            'required', req.required
+        )
+        order by p.name
+    )
+    into v_short
+    from requirements req
+    join public.products p on p.id = req.product_id
+    left join public.product_reserved_stock rs on rs.product_id = req.product_id
+    where coalesce(p.quantity, 0) - coalesce(rs.reserved_qty, 0) < req.required;
+
+    if v_short is not null then
+        return jsonb_build_object('success', false, 'error', 'insufficient_stock', 'short_products', v_short);
+    end if;
+
+    with
+        product_lines as (
+            select
+                greatest(x.qty, 1) as qty,
+                round(x.unit_price, 2) as unit_price,
+                public.discount_amount_for(
+                    round(round(x.unit_price, 2) * greatest(x.qty, 1), 2),
+                    x.discount_type,
+                    x.discount_value
+                ) as discount_amount,
+                public.product_unit_cost(x.product_id, greatest(x.qty, 1)) as unit_cost
+            from jsonb_to_recordset(v_product_items) as x(
+                product_id uuid,
+                qty integer,
+                unit_price numeric,
+                discount_type text,
+                discount_value numeric
+            )
+        ),
+        combo_costs as (
+            select
+                co.id as combo_id,
+                round(coalesce(co.packaging_cost, 0), 2)
+                    + coalesce(sum(
+                        public.product_unit_cost(ci.product_id, greatest(ci.qty, 1) * sold.qty)
+                            * greatest(ci.qty, 1)
+                    ), 0) as unit_cost
+            from (
+                select c.combo_id, sum(greatest(c.qty, 1))::integer as qty
+                from jsonb_to_recordset(v_combo_items) as c(combo_id uuid, qty integer)
+                group by c.combo_id
+            ) as sold
+            join public.combos co on co.id = sold.combo_id
+            join public.combo_items ci on ci.combo_id = co.id
+            group by co.id, co.packaging_cost
+        ),
+        combo_lines as (
+            select
+                greatest(c.qty, 1) as qty,
+                round(c.unit_price, 2) as unit_price,
+                public.discount_amount_for(
+                    round(round(c.unit_price, 2) * greatest(c.qty, 1), 2),
+                    c.discount_type,
+                    c.discount_value
+                ) as discount_amount,
+                cc.unit_cost
+            from jsonb_to_recordset(v_combo_items) as c(
+                combo_id uuid,
+                qty integer,
+                unit_price numeric,
+                discount_type text,
+                discount_value numeric
+            )
+            join combo_costs cc on cc.combo_id = c.combo_id
+        ),
+        all_lines as (
+            select qty, unit_price, discount_amount, unit_cost from product_lines
+            union all
+            select qty, unit_price, discount_amount, unit_cost from combo_lines
+        )
+    select
+        coalesce(sum(round(unit_price * qty, 2)), 0),
+        coalesce(sum(discount_amount), 0),
+        coalesce(sum(round(unit_cost * qty, 2)), 0)
+    into v_subtotal, v_line_discount, v_total_cost
+    from all_lines;
+
+    -- The promo code applies to what is left after line discounts.
+    if v_promo_code is not null then
+        v_promo := public.apply_promo_code(v_promo_code, v_subtotal - v_line_discount);
+
+        if not (v_promo->>'success')::boolean then
+            return v_promo;
+        end if;
+
+        v_promo_id := (v_promo->>'promo_code_id')::uuid;
+        v_promo_code := v_promo->>'code';
+        v_promo_discount := (v_promo->>'discount_amount')::numeric;
+    end if;
+
+    v_discount_total := v_line_discount + v_promo_discount + v_discount;
+    v_total := greatest(v_subtotal - v_discount_total + v_tax, 0);
+    v_profit := v_total - v_total_cost;
+
+    if jsonb_array_length(v_payments) = 0 and v_total > 0 then
+        v_payments := jsonb_build_array(
+            jsonb_build_object(
+                'method', coalesce(payload->>'payment_method', 'cash'),
+                'amount', v_total,
+                'reference', payload->>'payment_reference'
+            )
+        );
+    end if;
+
+    select
+        coalesce(sum(round(t.amount, 2)), 0),
+        coalesce(bool_or(
+            t.method is null
+            or t.method not in ('cash', 'card', 'transfer')
+            or t.amount is null
+            or round(t.amount, 2) <= 0
+            or (t.tendered_amount is not null
+                and (t.method <> 'cash' or round(t.tendered_amount, 2) < round(t.amount, 2)))
+        ), false)
+    into v_paid, v_invalid_payment
+    from jsonb_to_recordset(v_payments) as t(method text, amount numeric, tendered_amount numeric);
+
+    if v_invalid_payment then
+        return jsonb_build_object('success', false, 'error', 'invalid_payment');
+    end if;
+
+    if v_paid <> v_total then
+        return jsonb_build_object(
+            'success', false,
+            'error', 'payment_mismatch',
+            'total_amount', v_total,
+            'paid_amount', v_paid
+        );
+    end if;
+
+    select
+        case when count(distinct t.method) > 1 then 'mixed' else min(t.method) end,
+        coalesce(
+            min(nullif(trim(t.reference), '')) filter (where t.method = 'transfer'),
+            min(nullif(trim(t.reference), ''))
+        )
+    into v_payment_method, v_payment_reference
+    from jsonb_to_recordset(v_payments) as t(method text, reference text);
+
+    insert into public.orders (
+        receipt_number,
+        customer_id,
+        customer_name,
+        customer_phone,
+        customer_email,
+        notes,
+        status,
+        payment_method,
+        payment_reference,
+        subtotal_amount,
+        discount_amount,
+        line_discount_amount,
+        promo_code_id,
+        promo_code,
+        promo_discount_amount,
+        discount_reason,
+        tax_amount,
+        total_amount,
+        total_cost,
+        profit_amount,
+        currency,
+        register_session_id,
+        created_by
+    )
+    values (
+        payload->>'receipt_number',
+        v_customer_id,
+        payload->>'customer_name',
+        payload->>'customer_phone',
+        payload->>'customer_email',
+        payload->>'notes',
+        'completed',
+        coalesce(v_payment_method, payload->>'payment_method', 'cash'),
+        coalesce(v_payment_reference, payload->>'payment_reference'),
+        v_subtotal,
+        v_discount_total,
+        v_line_discount,
+        v_promo_id,
+        v_promo_code,
+        v_promo_discount,
+        case when v_discount > 0 then v_discount_reason end,
+        v_tax,
+        v_total,
+        v_total_cost,
+        v_profit,
+        coalesce(payload->>'currency', 'NIO'),
+        v_session_id,
+        (payload->>'created_by')::uuid
+    )
+    returning id, receipt_number into v_order_id, v_receipt_number;
+
+    if v_promo_id is not null then
+        update public.promo_codes
+        set times_used = times_used + 1
+        where id = v_promo_id;
+    end if;
+
+    insert into public.order_product_items (
+        order_id,
+        product_id,
+        qty,
+        unit_price,
+        unit_cost,
+        discount_type,
+        discount_value,
+        discount_amount,
+        discount_reason,
+        line_total,
+        line_cost_total
+    )
+    select
+        v_order_id,
+        x.product_id,
+        greatest(x.qty, 1),
+        round(x.unit_price, 2),
+        uc.unit_cost,
+        x.discount_type,
+        case when x.discount_type is not null then round(x.discount_value, 2) end,
+        ld.discount_amount,
+        case when x.discount_type is not null then nullif(trim(x.discount_reason), '') end,
+        round(round(x.unit_price, 2) * greatest(x.qty, 1), 2) - ld.discount_amount,
+        round(uc.unit_cost * greatest(x.qty, 1), 2)
+    from jsonb_to_recordset(v_product_items) as x(
+        product_id uuid,
+        qty integer,
+        unit_price numeric,
+        discount_type text,
+        discount_value numeric,
+        discount_reason text
+    )
+    cross join lateral (
+        select public.product_unit_cost(x.product_id, greatest(x.qty, 1)) as unit_cost
+    ) as uc
+    cross join lateral (
+        select public.discount_amount_for(
+            round(round(x.unit_price, 2) * greatest(x.qty, 1), 2),
+            x.discount_type,
+            x.discount_value
+        ) as discount_amount
+    ) as ld;
+
+    insert into public.order_combo_items (
+        order_id,
+        combo_id,
+        qty,
+        unit_price,
+        unit_cost,
+        discount_type,
+        discount_value,
+        discount_amount,
+        discount_reason,
+        line_total,
+        line_cost_total
+    )
+    select
+        v_order_id,
+        c.combo_id,
+        greatest(c.qty, 1),
+        round(c.unit_price, 2),
+        cc.unit_cost,
+        c.discount_type,
+        case when c.discount_type is not null then round(c.discount_value, 2) end,
+        ld.discount_amount,
+        case when c.discount_type is not null then nullif(trim(c.discount_reason), '') end,
+        round(round(c.unit_price, 2) * greatest(c.qty, 1), 2) - ld.discount_amount,
+        round(cc.unit_cost * greatest(c.qty, 1), 2)
+    from jsonb_to_recordset(v_combo_items) as c(
+        combo_id uuid,
+        qty integer,
+        unit_price numeric,
+        discount_type text,
+        discount_value numeric,
+        discount_reason text
+    )
+    cross join lateral (
+        select public.discount_amount_for(
+            round(round(c.unit_price, 2) * greatest(c.qty, 1), 2),
+            c.discount_type,
+            c.discount_value
+        ) as discount_amount
+    ) as ld
+    join (
+        select
+            co.id as combo_id,
+            round(coalesce(co.packaging_cost, 0), 2)
+                + coalesce(sum(
+                    public.product_unit_cost(ci.product_id, greatest(ci.qty, 1) * sold.qty)
+                        * greatest(ci.qty, 1)
+                ), 0) as unit_cost
+        from (
+            select s.combo_id, sum(greatest(s.qty, 1))::integer as qty
+            from jsonb_to_recordset(v_combo_items) as s(combo_id uuid, qty integer)
+            group by s.combo_id
+        ) as sold
+        join public.combos co on co.id = sold.combo_id
+        join public.combo_items ci on ci.combo_id = co.id
+        group by co.id, co.packaging_cost
+    ) as cc on cc.combo_id = c.combo_id;
+
+    insert into public.order_payments (
+        order_id,
+        method,
+        amount,
+        tendered_amount,
+        change_amount,
+        reference
+    )
+    select
+        v_order_id,
+        e.value->>'method',
+        round((e.value->>'amount')::numeric, 2),
+        round((e.value->>'tendered_amount')::numeric, 2),
+        coalesce(
+            round((e.value->>'tendered_amount')::numeric, 2)
+                - round((e.value->>'amount')::numeric, 2),
+            0
+        ),
+        nullif(trim(e.value->>'reference'), '')
+    from jsonb_array_elements(v_payments) with ordinality as e(value, ord)
+    order by e.ord;
+
+    perform public.consume_order_stock(v_order_id, (payload->>'created_by')::uuid);
+
+    return jsonb_build_object(
+        'success', true,
+        'order_id', v_order_id,
+        'receipt_number', v_receipt_number,
+        'subtotal_amount', v_subtotal,
+        'discount_amount', v_discount_total,
+        'line_discount_amount', v_line_discount,
+        'promo_code', v_promo_code,
+        'promo_discount_amount', v_promo_discount,
+        'tax_amount', v_tax,
+        'total_amount', v_total,
+        'total_cost', v_total_cost,
+        'profit_amount', v_profit,
+        'payment_method', coalesce(v_payment_method, payload->>'payment_method', 'cash'),
+        'paid_amount', v_paid,
+        'register_session_id', v_session_id
+    );
+end;
+$$;
+
+revoke all on function public.create_pos_sale(jsonb) from public;
+revoke all on function public.create_pos_sale(jsonb) from anon;
+revoke all on function public.create_pos_sale(jsonb) from authenticated;
+grant execute on function public.create_pos_sale(jsonb) to service_role;
+
+-- Storefront order ----------------------------------------------------------
+
+-- Same as 0026, plus payload.promo_code, applied to the order subtotal.
+create or replace function public.create_storefront_order(payload jsonb)
+returns jsonb
+language plpgsql
+volatile
+security definer
+set search_path = public
+as
+$$
+declare
+    v_items jsonb := coalesce(payload->'items', '[]'::jsonb);
+    v_combo_items jsonb := coalesce(payload->'combo_items', '[]'::jsonb);
+    v_reservation_minutes integer := greatest(coalesce((payload->>'reservation_minutes')::integer, 1440), 1);
+    v_promo_code text := nullif(upper(trim(coalesce(payload->>'promo_code', ''))), '');
+    v_promo jsonb;
+    v_promo_id uuid;
+    v_promo_discount numeric(12, 2) := 0;
+    v_total numeric(12, 2);
+    v_reserved_until timestamptz;
+    v_requirements jsonb;
+    v_combo_lines jsonb;
+    v_product_ids uuid[];
+    v_unavailable jsonb;
+    v_short jsonb;
+    v_price_changes jsonb;
+    v_combo_price_changes jsonb;
+    v_price_review boolean;
+    v_combo_price_review boolean;
+    v_subtotal numeric(12, 2);
+    v_total_cost numeric(12, 2);
+    v_combo_subtotal numeric(12, 2);
+    v_combo_cost numeric(12, 2);
+    v_order_id uuid;
+begin
+    if jsonb_array_length(v_items) + jsonb_array_length(v_combo_items) = 0 then
+        return jsonb_build_object('success', false, 'error', 'empty_order');
+    end if;
+
+    with
+        requested as (
+            select x.product_id, sum(greatest(x.qty, 1))::integer as qty
+            from jsonb_to_recordset(v_items) as x(product_id uuid, qty integer)
+            group by x.product_id
+        )
+    select jsonb_agg(
+        jsonb_build_object('product_id', r.product_id, 'name', p.name)
+    )
+    into v_unavailable
+    from requested r
+    left join public.products p on p.id = r.product_id
+    where p.id is null
+        or coalesce(p.status, 'active') <> 'active';
+
+    if v_unavailable is not null then
+        return jsonb_build_object('success', false, 'error', 'unavailable_products', 'products', v_unavailable);
+    end if;
+
+    -- A combo can only be sold while it is active, has components and every
+    -- component is itself on sale.
+    select jsonb_agg(
+        jsonb_build_object('combo_id', c.combo_id, 'name', co.name)
+    )
+    into v_unavailable
+    from (
+        select distinct x.combo_id
+        from jsonb_to_recordset(v_combo_items) as x(combo_id uuid)
+    ) as c
+    left join public.combos co on co.id = c.combo_id
+    where co.id is null
+        or coalesce(co.status, 'active') <> 'active'
+        or not exists (select 1 from public.combo_items ci where ci.combo_id = c.combo_id)
+        or exists (
+            select 1
+            from public.combo_items ci
+            left join public.products p on p.id = ci.product_id
+            where ci.combo_id = c.combo_id
+                and (p.id is null or coalesce(p.status, 'active') <> 'active')
+        );
+
+    if v_unavailable is not null then
+        return jsonb_build_object('success', false, 'error', 'unavailable_combos', 'combos', v_unavailable);
+    end if;
+
+    select coalesce(
+        jsonb_agg(jsonb_build_object('product_id', u.product_id, 'qty', u.qty)),
+        '[]'::jsonb
+    )
+    into v_requirements
+    from (
+        select units.product_id, sum(units.qty)::integer as qty
+        from (
+            select x.product_id, greatest(x.qty, 1) as qty
+            from jsonb_to_recordset(v_items) as x(product_id uuid, qty integer)
+            union all
+            select ci.product_id, greatest(ci.qty, 1) * greatest(c.qty, 1)
+            from jsonb_to_recordset(v_combo_items) as c(combo_id uuid, qty integer)
+            join public.combo_items ci on ci.combo_id = c.combo_id
+        ) as units
+        group by units.product_id
+    ) as u;
+
+    select coalesce(array_agg(r.product_id order by r.product_id), '{}')
+    into v_product_ids
+    from jsonb_to_recordset(v_requirements) as r(product_id uuid);
+
+    perform 1
+    from public.products
+    where id = any(v_product_ids)
+    order by id
+    for update;
+
+    select jsonb_agg(
+        jsonb_build_object(
+            'product_id', p.id,
+            'name', p.name,
+            'available', greatest(coalesce(p.quantity, 0) - coalesce(rs.reserved_qty, 0), 0),
+            'required', r.qty
+        )
+        order by p.name
+    )
+    into v_short
+    from jsonb_to_recordset(v_requirements) as r(product_id uuid, qty integer)
+    join public.products p on p.id = r.product_id
+    left join public.product_reserved_stock rs on rs.product_id = r.product_id
+    where coalesce(p.quantity, 0) - coalesce(rs.reserved_qty, 0) < r.qty;
+
+    if v_short is not null then
+        return jsonb_build_object('success', false, 'error', 'insufficient_stock', 'short_products', v_short);
+    end if;
+
+    select jsonb_agg(
+        jsonb_build_object(
+            'product_id', p.id,
+            'name', p.name,
+            'expected_price', x.expected_price,
+            'current_price', p.sell_price
+        )
+        order by p.name
+    )
+    into v_price_changes
+    from jsonb_to_recordset(v_items) as x(product_id uuid, expected_price numeric)
+    join public.products p on p.id = x.product_id
+    where round(x.expected_price, 2) is distinct from round(p.sell_price, 2);
+
+    select jsonb_agg(
+        jsonb_build_object(
+            'combo_id', co.id,
+            'name', co.name,
+            'expected_price', x.expected_price,
+            'current_price', co.suggested_price
+        )
+        order by co.name
+    )
+    into v_combo_price_changes
+    from jsonb_to_recordset(v_combo_items) as x(combo_id uuid, expected_price numeric)
+    join public.combos co on co.id = x.combo_id
+    where round(x.expected_price, 2) is distinct from round(co.suggested_price, 2);
+
+    if v_price_changes is not null or v_combo_price_changes is not null then
+        return jsonb_build_object(
+            'success', false,
+            'error', 'price_changed',
+            'price_changes', coalesce(v_price_changes, '[]'::jsonb) || coalesce(v_combo_price_changes, '[]'::jsonb)
+        );
+    end if;
+
+    -- Products without a sell price are accepted at zero and the order is
+    -- flagged so the team confirms the amount with the customer.
+    select
+        bool_or(p.sell_price is null),
+        coalesce(sum(round(coalesce(p.sell_price, 0), 2) * greatest(x.qty, 1)), 0),
+        coalesce(sum(round(coalesce(p.cost_price, 0), 2) * greatest(x.qty, 1)), 0)
+    into v_price_review, v_subtotal, v_total_cost
+    from jsonb_to_recordset(v_items) as x(product_id uuid, qty integer)
+    join public.products p on p.id = x.product_id;
+
+    -- A combo costs its packaging plus the current cost of its components.
+    select coalesce(
+        jsonb_agg(
+            jsonb_build_object(
+                'combo_id', co.id,
+                'qty', r.qty,
+                'unit_price', round(coalesce(co.suggested_price, 0), 2),
+                'unit_cost', round(
+                    coalesce(co.packaging_cost, 0) + coalesce((
+                        select sum(round(coalesce(p.cost_price, 0), 2) * greatest(ci.qty, 1))
+                        from public.combo_items ci
+                        join public.products p on p.id = ci.product_id
+                        where ci.combo_id = co.id
+                    ), 0),
+                    2
+                ),
+                'missing_price', co.suggested_price is null
+            )
+        ),
+        '[]'::jsonb
+    )
+    into v_combo_lines
+    from (
+        select x.combo_id, sum(greatest(x.qty, 1))::integer as qty
+        from jsonb_to_recordset(v_combo_items) as x(combo_id uuid, qty integer)
+        group by x.combo_id
+    ) as r
+    join public.combos co on co.id = r.combo_id;
+
+    select
+        bool_or(l.missing_price),
+        coalesce(sum(l.unit_price * l.qty), 0),
+        coalesce(sum(l.unit_cost * l.qty), 0)
+    into v_combo_price_review, v_combo_subtotal, v_combo_cost
+    from jsonb_to_recordset(v_combo_lines) as l(
+        qty integer,
+        unit_price numeric,
+        unit_cost numeric,
+        missing_price boolean
+    );
+
+    v_subtotal := coalesce(v_subtotal, 0) + v_combo_subtotal;
+    v_total_cost := coalesce(v_total_cost, 0) + v_combo_cost;
+    v_price_review := coalesce(v_price_review, false) or coalesce(v_combo_price_review, false);
+
+    if v_promo_code is not null then
+        v_promo := public.apply_promo_code(v_promo_code, v_subtotal);
+
+        if not (v_promo->>'success')::boolean then
+            return v_promo;
+        end if;
+
+        v_promo_id := (v_promo->>'promo_code_id')::uuid;
+        v_promo_code := v_promo->>'code';
+        v_promo_discount := (v_promo->>'discount_amount')::numeric;
+    end if;
+
+    v_total := v_subtotal - v_promo_discount;
+
+    insert into public.orders (
+        customer_name,
+        customer_phone,
+        customer_email,
+        notes,
+        status,
+        payment_method,
+        subtotal_amount,
+        discount_amount,
+        promo_code_id,
+        promo_code,
+        promo_discount_amount,
+        tax_amount,
+        total_amount,
+        total_cost,
+        profit_amount,
+        price_review_required,
+        currency
+    )
+    values (
+        payload->>'customer_name',
+        payload->>'customer_phone',
+        payload->>'customer_email',
+        payload->>'notes',
+        'pending',
+        coalesce(payload->>'payment_method', 'cash'),
+        v_subtotal,
+        v_promo_discount,
+        v_promo_id,
+        v_promo_code,
+        v_promo_discount,
+        0,
+        v_total,
+        v_total_cost,
+        v_total - v_total_cost,
+        v_price_review,
+        coalesce(payload->>'currency', 'NIO')
+    )
+    returning id into v_order_id;
+
+    if v_promo_id is not null then
+        update public.promo_codes
+        set times_used = times_used + 1
+        where id = v_promo_id;
+    end if;
+
+    insert into public.order_product_items (
+        order_id,
+        product_id,
+        qty,
+        unit_price,
+        unit_cost,
+        line_total,
+        line_cost_total
+    )
+    select
+        v_order_id,
+        p.id,
+        r.qty,
+        round(coalesce(p.sell_price, 0), 2),
+        round(coalesce(p.cost_price, 0), 2),
+        round(round(coalesce(p.sell_price, 0), 2) * r.qty, 2),
+        round(round(coalesce(p.cost_price, 0), 2) * r.qty, 2)
+    from (
+        select x.product_id, sum(greatest(x.qty, 1))::integer as qty
+        from jsonb_to_recordset(v_items) as x(product_id uuid, qty integer)
+        group by x.product_id
+    ) as r
+    join public.products p on p.id = r.product_id;
+
+    insert into public.order_combo_items (
+        order_id,
+        combo_id,
+        qty,
+        unit_price,
+        unit_cost,
+        line_total,
+        line_cost_total
+    )
+    select
+        v_order_id,
+        l.combo_id,
+        l.qty,
+        l.unit_price,
+        l.unit_cost,
+        round(l.unit_price * l.qty, 2),
+        round(l.unit_cost * l.qty, 2)
+    from jsonb_to_recordset(v_combo_lines) as l(
+        combo_id uuid,
+        qty integer,
+        unit_price numeric,
+        unit_cost numeric
+    );
+
+    v_reserved_until := now() + make_interval(mins => v_reservation_minutes);
+
+    insert into public.stock_reservations (order_id, product_id, qty, expires_at)
+    select v_order_id, r.product_id, r.qty, v_reserved_until
+    from jsonb_to_recordset(v_requirements) as r(product_id uuid, qty integer);
+
+    return jsonb_build_object(
+        'success', true,
+        'order_id', v_order_id,
+        'subtotal_amount', v_subtotal,
+        'discount_amount', v_promo_discount,
+        'promo_code', v_promo_code,
+        'total_amount', v_total,
+        'price_review_required', v_price_review,
+        'reserved_until', v_reserved_until
+    );
+end;
+$$;
+
+revoke all on function public.create_storefront_order(jsonb) from public;
+revoke all on function public.create_storefront_order(jsonb) from anon;
+revoke all on function public.create_storefront_order(jsonb) from authenticated;
+grant execute on function public.create_storefront_order(jsonb) to service_role;
+
+-- Refunds -------------------------------------------------------------------
+
+-- Same as 0016, but refunds start from the net line amounts so a unit sold
+-- with a line discount is refunded at what it was actually sold for.
+create or replace function public.refund_order(payload jsonb)
+returns jsonb
+language plpgsql
+volatile
+security definer
+set search_path = public
+as
+$$
+declare
+    v_order_id uuid := (payload->>'order_id')::uuid;
+    v_mode text := coalesce(payload->>'mode', 'partial');
+    v_reason text := nullif(trim(coalesce(payload->>'reason', '')), '');
+    v_created_by uuid := (payload->>'created_by')::uuid;
+    v_lines jsonb := coalesce(payload->'lines', '[]'::jsonb);
+    v_order public.orders%rowtype;
+    v_resolved jsonb;
+    v_invalid jsonb;
+    v_product_ids uuid[];
+    v_ratio numeric;
+    v_amount numeric(12, 2);
+    v_cost numeric(12, 2);
+    v_remaining_units integer;
+    v_fully_refunded boolean;
+    v_movement_type text;
+    v_refund_id uuid;
+begin
+    if v_reason is null then
+        return jsonb_build_object('success', false, 'error', 'missing_reason');
+    end if;
+
+    select *
+    into v_order
+    from public.orders
+    where id = v_order_id
+    for update;
+
+    if not found then
+        return jsonb_build_object('success', false, 'error', 'order_not_found');
+    end if;
+
+    if v_order.status = 'cancelled' then
+        return jsonb_build_object('success', false, 'error', 'order_cancelled');
+    end if;
+
+    -- Pending and processing orders never took stock, so they can only be
+    -- cancelled outright.
+    if v_order.status <> 'completed' then
+        if v_mode <> 'full' then
+            return jsonb_build_object('success', false, 'error', 'invalid_status', 'status', v_order.status);
+        end if;
+
+        insert into public.order_refunds (order_id, refund_type, reason, amount, cost_amount, created_by)
+        values (v_order_id, 'full', v_reason, 0, 0, v_created_by)
+        returning id into v_refund_id;
+
+        update public.orders
+        set status = 'cancelled', cancelled_at = now()
+        where id = v_order_id;
+
+        return jsonb_build_object(
+            'success', true,
+            'refund_id', v_refund_id,
+            'refund_amount', 0,
+            'refund_cost', 0,
+            'order_status', 'cancelled'
+        );
+    end if;
+
+    if v_mode = 'full' then
+        select coalesce(jsonb_agg(l), '[]'::jsonb)
+        into v_resolved
+        from (
+            select
+                'product'::text as line_type,
+                i.id as line_id,
+                i.product_id,
+                null::uuid as combo_id,
+                i.qty - i.refunded_qty as qty,
+                coalesce(i.line_total, round(i.unit_price * i.qty, 2)) / i.qty as unit_price,
+                i.unit_cost
+            from public.order_product_items i
+            where i.order_id = v_order_id
+                and i.qty > i.refunded_qty
+            union all
+            select
+                'combo'::text,
+                i.id,
+                null::uuid,
+                i.combo_id,
+                i.qty - i.refunded_qty,
+                coalesce(i.line_total, round(i.unit_price * i.qty, 2)) / i.qty as unit_price,
+                i.unit_cost
+            from public.order_combo_items i
+            where i.order_id = v_order_id
+                and i.qty > i.refunded_qty
+        ) as l;
+    else
+        if jsonb_array_length(v_lines) = 0 then
+            return jsonb_build_object('success', false, 'error', 'nothing_to_refund');
+        end if;
+
+        with
+            requested as (
+                select r.line_type, r.line_id, sum(r.qty)::integer as qty
+                from jsonb_to_recordset(v_lines) as r(line_type text, line_id bigint, qty integer)
+                group by r.line_type, r.line_id
+            ),
+            available as (
+                select 'product'::text as line_type, i.id as line_id, i.qty - i.refunded_qty as remaining
+                from public.order_product_items i
+                where i.order_id = v_order_id
+                union all
+                select 'combo'::text, i.id, i.qty - i.refunded_qty
+                from public.order_combo_items i
+                where i.order_id = v_order_id
+            )
+        select jsonb_agg(
+            jsonb_build_object(
+                'line_type', r.line_type,
+                'line_id', r.line_id,
+                'requested', r.qty,
+                'available', coalesce(a.remaining, 0)
+            )
+        )
+        into v_invalid
+        from requested r
+        left join available a on a.line_type = r.line_type and a.line_id = r.line_id
+        where a.line_id is null
+            or coalesce(r.qty, 0) <= 0
+            or r.qty > a.remaining;
+
+        if v_invalid is not null then
+            return jsonb_build_object('success', false, 'error', 'invalid_lines', 'lines', v_invalid);
+        end if;
+
+        with
+            requested as (
+                select r.line_type, r.line_id, sum(r.qty)::integer as qty
+                from jsonb_to_recordset(v_lines) as r(line_type text, line_id bigint, qty integer)
+                group by r.line_type, r.line_id
+            )
+        select coalesce(jsonb_agg(l), '[]'::jsonb)
+        into v_resolved
+        from (
+            select
+                'product'::text as line_type,
+                i.id as line_id,
+                i.product_id,
+                null::uuid as combo_id,
+                r.qty,
+                coalesce(i.line_total, round(i.unit_price * i.qty, 2)) / i.qty as unit_price,
+                i.unit_cost
+            from requested r
+            join public.order_product_items i on i.id = r.line_id
+            where r.line_type = 'product'
+            union all
+            select
+                'combo'::text,
+                i.id,
+                null::uuid,
+                i.combo_id,
+                r.qty,
+                coalesce(i.line_total, round(i.unit_price * i.qty, 2)) / i.qty as unit_price,
+                i.unit_cost
+            from requested r
+            join public.order_combo_items i on i.id = r.line_id
+            where r.line_type = 'combo'
+        ) as l;
+    end if;
+
+    select coalesce(sum(units), 0)::integer
+    into v_remaining_units
+    from (
+        select i.qty - i.refunded_qty as units
+        from public.order_product_items i
+        where i.order_id = v_order_id
+        union all
+        select i.qty - i.refunded_qty
+        from public.order_combo_items i
+        where i.order_id = v_order_id
+    ) as remaining;
+
+    select v_remaining_units - coalesce(sum(x.qty), 0)::integer
+    into v_remaining_units
+    from jsonb_to_recordset(v_resolved) as x(qty integer);
+
+    v_fully_refunded := v_mode = 'full' or v_remaining_units <= 0;
+    v_movement_type := case when v_fully_refunded then 'cancellation' else 'return' end;
+
+    -- Line amounts are net of line discounts but before the promo code, the
+    -- order discount and tax; scale them so the refund matches what the
+    -- customer actually paid for those units.
+    v_ratio := case
+        when v_order.subtotal_amount - v_order.line_discount_amount > 0
+            then v_order.total_amount / (v_order.subtotal_amount - v_order.line_discount_amount)
+        else 1
+    end;
+
+    select
+        coalesce(sum(round(x.unit_price * x.qty * v_ratio, 2)), 0),
+        coalesce(sum(round(x.unit_cost * x.qty, 2)), 0)
+    into v_amount, v_cost
+    from jsonb_to_recordset(v_resolved) as x(qty integer, unit_price numeric, unit_cost numeric);
+
+    if v_fully_refunded then
+        -- The last refund absorbs any rounding left over from earlier partials.
+        v_amount := v_order.total_amount - v_order.refunded_amount;
+        v_cost := v_order.total_cost - v_order.refunded_cost;
+    end if;
+
+    v_amount := greatest(least(v_amount, v_order.total_amount - v_order.refunded_amount), 0);
+    v_cost := greatest(v_cost, 0);
+
+    select coalesce(array_agg(distinct ids.product_id), '{}')
+    into v_product_ids
+    from (
+        select x.product_id
+        from jsonb_to_recordset(v_resolved) as x(line_type text, product_id uuid)
+        where x.line_type = 'product'
+        union
+        select ci.product_id
+        from jsonb_to_recordset(v_resolved) as x(line_type text, combo_id uuid)
+        join public.combo_items ci on ci.combo_id = x.combo_id
+        where x.line_type = 'combo'
+    ) as ids;
+
+    perform 1
+    from public.products
+    where id = any(v_product_ids)
+    order by id
+    for update;
+
+    with
+        movements as (
+            select
+                x.product_id,
+                null::uuid as combo_id,
+                sum(x.qty)::integer as quantity_change
+            from jsonb_to_recordset(v_resolved) as x(line_type text, product_id uuid, qty integer)
+            where x.line_type = 'product'
+            group by x.product_id
+            union all
+            select
+                ci.product_id,
+                x.combo_id,
+                sum(greatest(ci.qty, 1) * x.qty)::integer
+            from jsonb_to_recordset(v_resolved) as x(line_type text, combo_id uuid, qty integer)
+            join public.combo_items ci on ci.combo_id = x.combo_id
+            where x.line_type = 'combo'
+            group by ci.product_id, x.combo_id
+        ),
+        sequenced as (
+            select
+                m.product_id,
+                m.combo_id,
+                m.quantity_change,
+                coalesce(p.quantity, 0) + coalesce(
+                    sum(m.quantity_change) over (
+                        partition by m.product_id
+                        order by m.combo_id nulls first
+                        rows between unbounded preceding and 1 preceding
+                    ),
+                    0
+                ) as quantity_before
+            from movements m
+            join public.products p on p.id = m.product_id
+        )
+    insert into public.stock_movements (
+        product_id,
+        movement_type,
+        quantity_change,
+        quantity_before,
+        quantity_after,
+        order_id,
+        combo_id,
+        notes,
+        created_by
+    )
+    select
+        s.product_id,
+        v_movement_type,
+        s.quantity_change,
+        s.quantity_before,
+        s.quantity_before + s.quantity_change,
+        v_order_id,
+        s.combo_id,
+        v_reason,
+        v_created_by
+    from sequenced s;
+
+    -- Products archived because a sale took them to zero come back once they
+    -- have stock again; anything archived with units on hand stays archived.
+    with
+        restock as (
+            select r.product_id, sum(r.qty)::integer as qty
+            from (
+                select x.product_id, x.qty
+                from jsonb_to_recordset(v_resolved) as x(line_type text, product_id uuid, qty integer)
+                where x.line_type = 'product'
+                union all
+                select ci.product_id, greatest(ci.qty, 1) * x.qty
+                from jsonb_to_recordset(v_resolved) as x(line_type text, combo_id uuid, qty integer)
+                join public.combo_items ci on ci.combo_id = x.combo_id
+                where x.line_type = 'combo'
+            ) as r
+            group by r.product_id
+        )
+    update public.products p
+    set
+        quantity = coalesce(p.quantity, 0) + rs.qty,
+        status = case
+            when p.status = 'archived' and coalesce(p.quantity, 0) <= 0 and rs.qty > 0 then 'active'
+            else p.status
+        end
+    from restock rs
+    where p.id = rs.product_id;
+
+    insert into public.order_refunds (order_id, refund_type, reason, amount, cost_amount, created_by)
+    values (
+        v_order_id,
+        case when v_fully_refunded then 'full' else 'partial' end,
+        v_reason,
+        v_amount,
+        v_cost,
+        v_created_by
+    )
+    returning id into v_refund_id;
+
+    insert into public.order_refund_items (
+        refund_id,
+        order_product_item_id,
+        order_combo_item_id,
+        qty,
+        amount,
+        cost_amount
+    )
+    select
+        v_refund_id,
+        case when x.line_type = 'product' then x.line_id end,
+        case when x.line_type = 'combo' then x.line_id end,
+        x.qty,
+        round(x.unit_price * x.qty * v_ratio, 2),
+        round(x.unit_cost * x.qty, 2)
+    from jsonb_to_recordset(v_resolved) as x(
+        line_type text,
+        line_id bigint,
+        qty integer,
+        unit_price numeric,
+        unit_cost numeric
+    );
+
+    update public.order_product_items i
+    set refunded_qty = i.refunded_qty + x.qty
+    from jsonb_to_recordset(v_resolved) as x(line_type text, line_id bigint, qty integer)
+    where x.line_type = 'product'
+        and i.id = x.line_id;
+
+    update public.order_combo_items i
+    set refunded_qty = i.refunded_qty + x.qty
+    from jsonb_to_recordset(v_resolved) as x(line_type text, line_id bigint, qty integer)
+    where x.line_type = 'combo'
+        and i.id = x.line_id;
+
+    update public.orders
+    set
+        refunded_amount = refunded_amount + v_amount,
+        refunded_cost = refunded_cost + v_cost,
+        status = case when v_fully_refunded then 'cancelled' else status end,
+        cancelled_at = case when v_fully_refunded then now() else cancelled_at end
+    where id = v_order_id;
+
+    return jsonb_build_object(
+        'success', true,
+        'refund_id', v_refund_id,
+        'refund_amount', v_amount,
+        'refund_cost', v_cost,
+        'order_status', case when v_fully_refunded then 'cancelled' else v_order.status end
+    );
+end;
+$$;
+
+revoke all on function public.refund_order(jsonb) from public;
+revoke all on function public.refund_order(jsonb) from anon;
+revoke all on function public.refund_order(jsonb) from authenticated;
+grant execute on function public.refund_order(jsonb) to service_role;
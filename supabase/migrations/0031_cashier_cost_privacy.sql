@@ -0,0 +1,111 @@
+-- Cashiers sell and follow up orders but don't see costs or margins. Row
+-- policies can't hide single columns, so the POS reads products and recent
+-- orders through views that blank the cost columns for cashiers, and the base
+-- tables become owner and manager only. The order pages cashiers open read
+-- with the service role once the page has checked the role.
+
+-- Views -------------------------------------------------------------------
+
+-- Both views run with their owner's rights, so the where clause is the access
+-- check; security_barrier keeps caller filters from running before it.
+create or replace view public.pos_products
+with (security_barrier = true)
+as
+select
+    p.id,
+    p.name,
+    p.sku,
+    p.sell_price,
+    case
+        when public.has_staff_role('owner', 'manager') then p.cost_price
+    end as cost_price,
+    p.quantity,
+    p.currency,
+    p.status,
+    p.image_path,
+    p.category_id
+from public.products p
+where public.has_staff_role('owner', 'manager', 'cashier');
+
+revoke all on public.pos_products from anon;
+grant select on public.pos_products to authenticated, service_role;
+
+create or replace view public.pos_orders
+with (security_barrier = true)
+as
+select
+    o.id,
+    o.receipt_number,
+    o.status,
+    o.payment_method,
+    o.total_amount,
+    case
+        when public.has_staff_role('owner', 'manager') then o.total_cost
+    end as total_cost,
+    case
+        when public.has_staff_role('owner', 'manager') then o.profit_amount
+    end as profit_amount,
+    o.currency,
+    o.register_session_id,
+    o.created_at
+from public.orders o
+where public.has_staff_role('owner', 'manager', 'cashier');
+
+revoke all on public.pos_orders from anon;
+grant select on public.pos_orders to authenticated, service_role;
+
+-- Base tables -------------------------------------------------------------
+
+drop policy if exists "Products owner read" on public.products;
+create policy "Products owner read"
+    on public.products
+    for select
+    using (auth.role() = 'service_role' or public.has_staff_role('owner', 'manager'));
+
+-- The storefront policy would otherwise hand cashiers every active product.
+drop policy if exists "Products active public read" on public.products;
+create policy "Products active public read"
+    on public.products
+    for select
+    using (
+        coalesce(status, 'active') = 'active'
+        and not public.has_staff_role('cashier')
+    );
+
+drop policy if exists "Orders read" on public.orders;
+create policy "Orders read"
+    on public.orders
+    for select
+    using (auth.role() = 'service_role' or public.has_staff_role('owner', 'manager'));
+
+drop policy if exists "Order product items read" on public.order_product_items;
+create policy "Order product items read"
+    on public.order_product_items
+    for select
+    using (auth.role() = 'service_role' or public.has_staff_role('owner', 'manager'));
+
+drop policy if exists "Order combo items read" on public.order_combo_items;
+create policy "Order combo items read"
+    on public.order_combo_items
+    for select
+    using (auth.role() = 'service_role' or public.has_staff_role('owner', 'manager'));
+
+-- Anonymous visitors (and a cashier without a session) only get the product
+-- columns the storefront shows. The grant lists the columns that exist now;
+-- a later migration adding a public column has to grant it as well.
+do
+$$
+declare
+    v_columns text;
+begin
+    select string_agg(quote_ident(column_name), ', ' order by ordinal_position)
+    into v_columns
+    from information_schema.columns
+    where table_schema = 'public'
+        and table_name = 'products'
+        and column_name <> 'cost_price';
+
+    revoke select on public.products from anon;
+    execute format('grant select (%s) on public.products to anon', v_columns);
+end;
+$$;
@@ -0,0 +1,84 @@
+-- Stock adjustments made from the dashboard (product edits and intakes) apply
+-- a delta instead of writing an absolute quantity, and write their ledger row
+-- in the same transaction. The caller passes the quantity it based the change
+-- on; if a sale or another edit moved the stock in between, nothing is written
+-- and the caller gets the current quantity back.
+
+create or replace function public.adjust_product_stock(
+    p_product_id uuid,
+    p_expected_quantity integer,
+    p_quantity_change integer,
+    p_movement_type text,
+    p_intake_id uuid,
+    p_notes text,
+    p_created_by uuid
+)
+returns jsonb
+language plpgsql
+volatile
+security definer
+set search_path = public
+as
+$$
+declare
+    v_before integer;
+    v_after integer;
+begin
+    select coalesce(quantity, 0)
+    into v_before
+    from public.products
+    where id = p_product_id
+    for update;
+
+    if not found then
+        return jsonb_build_object('success', false, 'error', 'product_not_found');
+    end if;
+
+    -- A null expectation skips the check, which compensating steps rely on.
+    if p_expected_quantity is not null and v_before <> p_expected_quantity then
+        return jsonb_build_object('success', false, 'error', 'quantity_conflict', 'quantity', v_before);
+    end if;
+
+    v_after := v_before + coalesce(p_quantity_change, 0);
+
+    if v_after < 0 then
+        return jsonb_build_object('success', false, 'error', 'insufficient_stock', 'quantity', v_before);
+    end if;
+
+    if v_after = v_before then
+        return jsonb_build_object('success', true, 'quantity_before', v_before, 'quantity_after', v_after);
+    end if;
+
+    update public.products
+    set quantity = v_after
+    where id = p_product_id;
+
+    insert into public.stock_movements (
+        product_id,
+        movement_type,
+        quantity_change,
+        quantity_before,
+        quantity_after,
+        intake_id,
+        notes,
+        created_by
+    )
+    values (
+        p_product_id,
+        p_movement_type,
+        v_after - v_before,
+        v_before,
+        v_after,
+        p_intake_id,
+        p_notes,
+        p_created_by
+    );
+
+    return jsonb_build_object('success', true, 'quantity_before', v_before, 'quantity_after', v_after);
+end;
+$$;
+
+revoke all on function public.adjust_product_stock(uuid, integer, integer, text, uuid, text, uuid) from public;
+revoke all on function public.adjust_product_stock(uuid, integer, integer, text, uuid, text, uuid) from anon;
+revoke all on function public.adjust_product_stock(uuid, integer, integer, text, uuid, text, uuid) from authenticated;
+grant execute on function public.adjust_product_stock(uuid, integer, integer, text, uuid, text, uuid) to service_role;
@@ -0,0 +1,51 @@
+-- Expected cash only counts refunds of the session's own sales. 0029 took
+-- every cash-order refund issued while the session was open, so refunding a
+-- sale from an earlier shift (or a storefront order paid in cash) lowered the
+-- expected cash of whichever drawer happened to be open.
+--
+-- Upgrade note: since 0029, create_pos_sale rejects every sale with
+-- 'register_closed' while no register session is open, and the POS shows
+-- "La caja está cerrada". Stores upgrading from before 0029 have to open a
+-- session (with its cash float) from the POS before the first sale; there is
+-- no setting to sell without one, since the session is what the sale's cash
+-- is reconciled against.
+
+create or replace function public.register_expected_cash(p_session_id uuid)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as
+$$
+    select
+        s.opening_float
+        + coalesce((
+            select sum(op.amount)
+            from public.order_payments op
+            join public.orders o on o.id = op.order_id
+            where o.register_session_id = s.id
+              and op.method = 'cash'
+        ), 0)
+        + coalesce((
+            select sum(case when m.kind = 'cash_in' then m.amount else -m.amount end)
+            from public.register_cash_movements m
+            where m.session_id = s.id
+        ), 0)
+        - coalesce((
+            select sum(r.amount)
+            from public.order_refunds r
+            join public.orders o on o.id = r.order_id
+            where o.register_session_id = s.id
+              and o.payment_method = 'cash'
+              and r.created_at >= s.opened_at
+              and (s.closed_at is null or r.created_at < s.closed_at)
+        ), 0)
+    from public.register_sessions s
+    where s.id = p_session_id;
+$$;
+
+revoke all on function public.register_expected_cash(uuid) from public;
+revoke all on function public.register_expected_cash(uuid) from anon;
+revoke all on function public.register_expected_cash(uuid) from authenticated;
+grant execute on function public.register_expected_cash(uuid) to service_role;
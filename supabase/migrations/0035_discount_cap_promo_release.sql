@@ -0,0 +1,999 @@
+-- Discounts never add up to more than the subtotal: the manual POS discount
+-- is cut down to what line and promo discounts left, instead of the total
+-- being floored at zero while discount_amount kept the full amount. And an
+-- order gives its promo code use back when it is cancelled (through a refund
+-- or a cancellation) or when its storefront hold expires, so abandoned and
+-- cancelled orders don't exhaust a code's max_uses.
+
+alter table public.orders
+    add column if not exists promo_released_at timestamptz;
+
+-- Promo code uses ----------------------------------------------------------
+
+-- Gives the order's promo code use back, once.
+create or replace function public.release_order_promo_use(p_order_id uuid)
+returns void
+language plpgsql
+volatile
+security definer
+set search_path = public
+as
+$$
+declare
+    v_promo_id uuid;
+begin
+    update public.orders
+    set promo_released_at = now()
+    where id = p_order_id
+        and promo_code_id is not null
+        and promo_released_at is null
+    returning promo_code_id into v_promo_id;
+
+    if v_promo_id is not null then
+        update public.promo_codes
+        set times_used = greatest(times_used - 1, 0)
+        where id = v_promo_id;
+    end if;
+end;
+$$;
+
+revoke all on function public.release_order_promo_use(uuid) from public;
+revoke all on function public.release_order_promo_use(uuid) from anon;
+revoke all on function public.release_order_promo_use(uuid) from authenticated;
+grant execute on function public.release_order_promo_use(uuid) to service_role;
+
+-- Takes a released use again when an order whose hold expired goes ahead. The
+-- customer was already quoted the discount, so the code's limit isn't checked.
+create or replace function public.reclaim_order_promo_use(p_order_id uuid)
+returns void
+language plpgsql
+volatile
+security definer
+set search_path = public
+as
+$$
+declare
+    v_promo_id uuid;
+begin
+    update public.orders
+    set promo_released_at = null
+    where id = p_order_id
+        and promo_code_id is not null
+        and promo_released_at is not null
+    returning promo_code_id into v_promo_id;
+
+    if v_promo_id is not null then
+        update public.promo_codes
+        set times_used = times_used + 1
+        where id = v_promo_id;
+    end if;
+end;
+$$;
+
+revoke all on function public.reclaim_order_promo_use(uuid) from public;
+revoke all on function public.reclaim_order_promo_use(uuid) from anon;
+revoke all on function public.reclaim_order_promo_use(uuid) from authenticated;
+grant execute on function public.reclaim_order_promo_use(uuid) to service_role;
+
+-- Every status change goes through this trigger, so cancelling from
+-- refund_order (pending, processing or fully refunded orders) releases the use
+-- here as well.
+create or replace function public.handle_order_status_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as
+$$
+begin
+    if tg_op = 'UPDATE' and new.status is not distinct from old.status then
+        return new;
+    end if;
+
+    insert into public.order_status_history (order_id, from_status, to_status, notes, created_by)
+    values (
+        new.id,
+        case when tg_op = 'UPDATE' then old.status end,
+        new.status,
+        nullif(current_setting('app.status_note', true), ''),
+        coalesce(
+            nullif(current_setting('app.actor_id', true), '')::uuid,
+            case when tg_op = 'INSERT' then new.created_by end
+        )
+    );
+
+    -- Reservations hold stock while an order is pending or being prepared.
+    if new.status not in ('pending', 'processing') then
+        update public.stock_reservations
+        set status = 'released', closed_at = now()
+        where order_id = new.id
+            and status = 'active';
+    end if;
+
+    if new.status = 'cancelled' then
+        perform public.release_order_promo_use(new.id);
+    elsif new.status in ('processing', 'completed') and new.promo_released_at is not null then
+        perform public.reclaim_order_promo_use(new.id);
+    end if;
+
+    return new;
+end;
+$$;
+
+-- Same as 0019, plus pending orders whose hold expired give their promo code
+-- use back.
+create or replace function public.release_expired_reservations()
+returns integer
+language plpgsql
+volatile
+security definer
+set search_path = public
+as
+$$
+declare
+    v_released integer;
+    v_order_ids uuid[];
+begin
+    with
+        expired as (
+            update public.stock_reservations
+            set status = 'expired', closed_at = now()
+            where status = 'active'
+                and expires_at is not null
+                and expires_at <= now()
+            returning order_id
+        )
+    select count(*)::integer, coalesce(array_agg(distinct order_id), '{}')
+    into v_released, v_order_ids
+    from expired;
+
+    perform public.release_order_promo_use(o.id)
+    from public.orders o
+    where o.id = any(v_order_ids)
+        and o.status = 'pending';
+
+    return v_released;
+end;
+$$;
+
+revoke all on function public.release_expired_reservations() from public;
+revoke all on function public.release_expired_reservations() from anon;
+revoke all on function public.release_expired_reservations() from authenticated;
+grant execute on function public.release_expired_reservations() to service_role;
+
+-- POS sale ------------------------------------------------------------------
+
+-- Same as 0033, with the manual discount capped.
+create or replace function public.create_pos_sale(payload jsonb)
+returns jsonb
+language plpgsql
+volatile
+security definer
+set search_path = public
+as
+$$
+declare
+    v_product_items jsonb := coalesce(payload->'product_items', '[]'::jsonb);
+    v_combo_items jsonb := coalesce(payload->'combo_items', '[]'::jsonb);
+    v_discount numeric(12, 2) := greatest(round(coalesce((payload->>'discount_amount')::numeric, 0), 2), 0);
+    v_discount_reason text := nullif(trim(coalesce(payload->>'discount_reason', '')), '');
+    v_promo_code text := nullif(upper(trim(coalesce(payload->>'promo_code', ''))), '');
+    v_tax numeric(12, 2) := greatest(round(coalesce((payload->>'tax_amount')::numeric, 0), 2), 0);
+    v_payments jsonb := coalesce(payload->'payments', '[]'::jsonb);
+    v_invalid_discount boolean;
+    v_line_discount numeric(12, 2);
+    v_promo jsonb;
+    v_promo_id uuid;
+    v_promo_discount numeric(12, 2) := 0;
+    v_discount_total numeric(12, 2);
+    v_paid numeric(12, 2);
+    v_invalid_payment boolean;
+    v_payment_method text;
+    v_payment_reference text;
+    v_product_ids uuid[];
+    v_missing jsonb;
+    v_empty_combo text;
+    v_short jsonb;
+    v_subtotal numeric(12, 2);
+    v_total_cost numeric(12, 2);
+    v_total numeric(12, 2);
+    v_profit numeric(12, 2);
+    v_order_id uuid;
+    v_receipt_number text;
+    v_customer_id uuid;
+    v_session_id uuid;
+begin
+    if jsonb_array_length(v_product_items) + jsonb_array_length(v_combo_items) = 0 then
+        return jsonb_build_object('success', false, 'error', 'empty_sale');
+    end if;
+
+    -- Every manual discount needs a valid value and a reason.
+    select coalesce(bool_or(
+        d.discount_type not in ('percentage', 'fixed')
+        or d.discount_value is null
+        or d.discount_value <= 0
+        or (d.discount_type = 'percentage' and d.discount_value > 100)
+        or nullif(trim(coalesce(d.discount_reason, '')), '') is null
+    ), false)
+    into v_invalid_discount
+    from (
+        select x.discount_type, x.discount_value, x.discount_reason
+        from jsonb_to_recordset(v_product_items)
+            as x(discount_type text, discount_value numeric, discount_reason text)
+        union all
+        select c.discount_type, c.discount_value, c.discount_reason
+        from jsonb_to_recordset(v_combo_items)
+            as c(discount_type text, discount_value numeric, discount_reason text)
+    ) as d
+    where d.discount_type is not null;
+
+    if v_invalid_discount or (v_discount > 0 and v_discount_reason is null) then
+        return jsonb_build_object('success', false, 'error', 'invalid_discount');
+    end if;
+
+    select id into v_session_id
+    from public.register_sessions
+    where status = 'open'
+    for share;
+
+    if v_session_id is null then
+        return jsonb_build_object('success', false, 'error', 'register_closed');
+    end if;
+
+    if nullif(payload->>'customer_id', '') is not null then
+        select id into v_customer_id
+        from public.customers
+        where id = (payload->>'customer_id')::uuid;
+
+        if v_customer_id is null then
+            return jsonb_build_object('success', false, 'error', 'customer_not_found');
+        end if;
+    end if;
+
+    select coalesce(jsonb_agg(c.combo_id), '[]'::jsonb)
+    into v_missing
+    from jsonb_to_recordset(v_combo_items) as c(combo_id uuid)
+    where not exists (select 1 from public.combos co where co.id = c.combo_id);
+
+    if jsonb_array_length(v_missing) > 0 then
+        return jsonb_build_object('success', false, 'error', 'missing_combos', 'combo_ids', v_missing);
+    end if;
+
+    select co.name
+    into v_empty_combo
+    from jsonb_to_recordset(v_combo_items) as c(combo_id uuid)
+    join public.combos co on co.id = c.combo_id
+    where not exists (select 1 from public.combo_items ci where ci.combo_id = c.combo_id)
+    limit 1;
+
+    if v_empty_combo is not null then
+        return jsonb_build_object('success', false, 'error', 'empty_combo', 'combo_name', v_empty_combo);
+    end if;
+
+    select coalesce(array_agg(distinct ids.product_id), '{}')
+    into v_product_ids
+    from (
+        select x.product_id
+        from jsonb_to_recordset(v_product_items) as x(product_id uuid)
+        union
+        select ci.product_id
+        from jsonb_to_recordset(v_combo_items) as c(combo_id uuid)
+        join public.combo_items ci on ci.combo_id = c.combo_id
+    ) as ids;
+
+    -- Lock every product touched by the sale in a stable order so concurrent
+    -- sales of the same units serialize instead of overselling.
+    perform 1
+    from public.products
+    where id = any(v_product_ids)
+    order by id
+    for update;
+
+    select coalesce(jsonb_agg(ids.product_id), '[]'::jsonb)
+    into v_missing
+    from unnest(v_product_ids) as ids(product_id)
+    where not exists (select 1 from public.products p where p.id = ids.product_id);
+
+    if jsonb_array_length(v_missing) > 0 then
+        return jsonb_build_object('success', false, 'error', 'missing_products', 'product_ids', v_missing);
+    end if;
+
+    with
+        requirements as (
+            select r.product_id, sum(r.qty)::integer as required
+            from (
+                select x.product_id, greatest(x.qty, 1) as qty
+                from jsonb_to_recordset(v_product_items) as x(product_id uuid, qty integer)
+                union all
+                select ci.product_id, greatest(ci.qty, 1) * greatest(c.qty, 1)
+                from jsonb_to_recordset(v_combo_items) as c(combo_id uuid, qty integer)
+                join public.combo_items ci on ci.combo_id = c.combo_id
+            ) as r
+            group by r.product_id
+        )
+    select jsonb_agg(
+        jsonb_build_object(
+            'product_id', p.id,
+            'name', p.name,
+            'available', greatest(coalesce(p.quantity, 0) - coalesce(rs.reserved_qty, 0), 0),
+            'required', req.required
+        )
+        order by p.name
+    )
+    into v_short
+    from requirements req
+    join public.products p on p.id = req.product_id
+    left join public.product_reserved_stock rs on rs.product_id = req.product_id
+    where coalesce(p.quantity, 0) - coalesce(rs.reserved_qty, 0) < req.required;
+
+    if v_short is not null then
+        return jsonb_build_object('success', false, 'error', 'insufficient_stock', 'short_products', v_short);
+    end if;
+
+    with
+        product_lines as (
+            select
+                greatest(x.qty, 1) as qty,
+                round(x.unit_price, 2) as unit_price,
+                public.discount_amount_for(
+                    round(round(x.unit_price, 2) * greatest(x.qty, 1), 2),
+                    x.discount_type,
+                    x.discount_value
+                ) as discount_amount
+            from jsonb_to_recordset(v_product_items) as x(
+                product_id uuid,
+                qty integer,
+                unit_price numeric,
+                discount_type text,
+                discount_value numeric
+            )
+        ),
+        combo_lines as (
+            select
+                greatest(c.qty, 1) as qty,
+                round(c.unit_price, 2) as unit_price,
+                public.discount_amount_for(
+                    round(round(c.unit_price, 2) * greatest(c.qty, 1), 2),
+                    c.discount_type,
+                    c.discount_value
+                ) as discount_amount
+            from jsonb_to_recordset(v_combo_items) as c(
+                combo_id uuid,
+                qty integer,
+                unit_price numeric,
+                discount_type text,
+                discount_value numeric
+            )
+        ),
+        all_lines as (
+            select qty, unit_price, discount_amount from product_lines
+            union all
+            select qty, unit_price, discount_amount from combo_lines
+        )
+    select
+        coalesce(sum(round(unit_price * qty, 2)), 0),
+        coalesce(sum(discount_amount), 0)
+    into v_subtotal, v_line_discount
+    from all_lines;
+
+    -- The promo code applies to what is left after line discounts.
+    if v_promo_code is not null then
+        v_promo := public.apply_promo_code(v_promo_code, v_subtotal - v_line_discount);
+
+        if not (v_promo->>'success')::boolean then
+            return v_promo;
+        end if;
+
+        v_promo_id := (v_promo->>'promo_code_id')::uuid;
+        v_promo_code := v_promo->>'code';
+        v_promo_discount := (v_promo->>'discount_amount')::numeric;
+    end if;
+
+    -- Line and promo discounts never exceed what they discount, so only the
+    -- manual discount can overshoot; it takes at most what they left.
+    v_discount := least(v_discount, v_subtotal - v_line_discount - v_promo_discount);
+    v_discount_total := v_line_discount + v_promo_discount + v_discount;
+    v_total := greatest(v_subtotal - v_discount_total + v_tax, 0);
+
+    if jsonb_array_length(v_payments) = 0 and v_total > 0 then
+        v_payments := jsonb_build_array(
+            jsonb_build_object(
+                'method', coalesce(payload->>'payment_method', 'cash'),
+                'amount', v_total,
+                'reference', payload->>'payment_reference'
+            )
+        );
+    end if;
+
+    select
+        coalesce(sum(round(t.amount, 2)), 0),
+        coalesce(bool_or(
+            t.method is null
+            or t.method not in ('cash', 'card', 'transfer')
+            or t.amount is null
+            or round(t.amount, 2) <= 0
+            or (t.tendered_amount is not null
+                and (t.method <> 'cash' or round(t.tendered_amount, 2) < round(t.amount, 2)))
+        ), false)
+    into v_paid, v_invalid_payment
+    from jsonb_to_recordset(v_payments) as t(method text, amount numeric, tendered_amount numeric);
+
+    if v_invalid_payment then
+        return jsonb_build_object('success', false, 'error', 'invalid_payment');
+    end if;
+
+    if v_paid <> v_total then
+        return jsonb_build_object(
+            'success', false,
+            'error', 'payment_mismatch',
+            'total_amount', v_total,
+            'paid_amount', v_paid
+        );
+    end if;
+
+    select
+        case when count(distinct t.method) > 1 then 'mixed' else min(t.method) end,
+        coalesce(
+            min(nullif(trim(t.reference), '')) filter (where t.method = 'transfer'),
+            min(nullif(trim(t.reference), ''))
+        )
+    into v_payment_method, v_payment_reference
+    from jsonb_to_recordset(v_payments) as t(method text, reference text);
+
+    insert into public.orders (
+        receipt_number,
+        customer_id,
+        customer_name,
+        customer_phone,
+        customer_email,
+        notes,
+        status,
+        payment_method,
+        payment_reference,
+        subtotal_amount,
+        discount_amount,
+        line_discount_amount,
+        promo_code_id,
+        promo_code,
+        promo_discount_amount,
+        discount_reason,
+        tax_amount,
+        total_amount,
+        total_cost,
+        profit_amount,
+        currency,
+        register_session_id,
+        created_by
+    )
+    values (
+        payload->>'receipt_number',
+        v_customer_id,
+        payload->>'customer_name',
+        payload->>'customer_phone',
+        payload->>'customer_email',
+        payload->>'notes',
+        'completed',
+        coalesce(v_payment_method, payload->>'payment_method', 'cash'),
+        coalesce(v_payment_reference, payload->>'payment_reference'),
+        v_subtotal,
+        v_discount_total,
+        v_line_discount,
+        v_promo_id,
+        v_promo_code,
+        v_promo_discount,
+        case when v_discount > 0 then v_discount_reason end,
+        v_tax,
+        v_total,
+        0,
+        v_total,
+        coalesce(payload->>'currency', 'NIO'),
+        v_session_id,
+        (payload->>'created_by')::uuid
+    )
+    returning id, receipt_number into v_order_id, v_receipt_number;
+
+    if v_promo_id is not null then
+        update public.promo_codes
+        set times_used = times_used + 1
+        where id = v_promo_id;
+    end if;
+
+    insert into public.order_product_items (
+        order_id,
+        product_id,
+        qty,
+        unit_price,
+        unit_cost,
+        discount_type,
+        discount_value,
+        discount_amount,
+        discount_reason,
+        line_total,
+        line_cost_total
+    )
+    select
+        v_order_id,
+        x.product_id,
+        greatest(x.qty, 1),
+        round(x.unit_price, 2),
+        0,
+        x.discount_type,
+        case when x.discount_type is not null then round(x.discount_value, 2) end,
+        ld.discount_amount,
+        case when x.discount_type is not null then nullif(trim(x.discount_reason), '') end,
+        round(round(x.unit_price, 2) * greatest(x.qty, 1), 2) - ld.discount_amount,
+        0
+    from jsonb_to_recordset(v_product_items) as x(
+        product_id uuid,
+        qty integer,
+        unit_price numeric,
+        discount_type text,
+        discount_value numeric,
+        discount_reason text
+    )
+    cross join lateral (
+        select public.discount_amount_for(
+            round(round(x.unit_price, 2) * greatest(x.qty, 1), 2),
+            x.discount_type,
+            x.discount_value
+        ) as discount_amount
+    ) as ld;
+
+    insert into public.order_combo_items (
+        order_id,
+        combo_id,
+        qty,
+        unit_price,
+        unit_cost,
+        discount_type,
+        discount_value,
+        discount_amount,
+        discount_reason,
+        line_total,
+        line_cost_total
+    )
+    select
+        v_order_id,
+        c.combo_id,
+        greatest(c.qty, 1),
+        round(c.unit_price, 2),
+        0,
+        c.discount_type,
+        case when c.discount_type is not null then round(c.discount_value, 2) end,
+        ld.discount_amount,
+        case when c.discount_type is not null then nullif(trim(c.discount_reason), '') end,
+        round(round(c.unit_price, 2) * greatest(c.qty, 1), 2) - ld.discount_amount,
+        0
+    from jsonb_to_recordset(v_combo_items) as c(
+        combo_id uuid,
+        qty integer,
+        unit_price numeric,
+        discount_type text,
+        discount_value numeric,
+        discount_reason text
+    )
+    cross join lateral (
+        select public.discount_amount_for(
+            round(round(c.unit_price, 2) * greatest(c.qty, 1), 2),
+            c.discount_type,
+            c.discount_value
+        ) as discount_amount
+    ) as ld;
+
+    insert into public.order_payments (
+        order_id,
+        method,
+        amount,
+        tendered_amount,
+        change_amount,
+        reference
+    )
+    select
+        v_order_id,
+        e.value->>'method',
+        round((e.value->>'amount')::numeric, 2),
+        round((e.value->>'tendered_amount')::numeric, 2),
+        coalesce(
+            round((e.value->>'tendered_amount')::numeric, 2)
+                - round((e.value->>'amount')::numeric, 2),
+            0
+        ),
+        nullif(trim(e.value->>'reference'), '')
+    from jsonb_array_elements(v_payments) with ordinality as e(value, ord)
+    order by e.ord;
+
+    perform public.consume_order_stock(v_order_id, (payload->>'created_by')::uuid);
+
+    select total_cost, profit_amount
+    into v_total_cost, v_profit
+    from public.orders
+    where id = v_order_id;
+
+    return jsonb_build_object(
+        'success', true,
+        'order_id', v_order_id,
+        'receipt_number', v_receipt_number,
+        'subtotal_amount', v_subtotal,
+        'discount_amount', v_discount_total,
+        'line_discount_amount', v_line_discount,
+        'promo_code', v_promo_code,
+        'promo_discount_amount', v_promo_discount,
+        'tax_amount', v_tax,
+        'total_amount', v_total,
+        'total_cost', v_total_cost,
+        'profit_amount', v_profit,
+        'payment_method', coalesce(v_payment_method, payload->>'payment_method', 'cash'),
+        'paid_amount', v_paid,
+        'register_session_id', v_session_id
+    );
+end;
+$$;
+
+revoke all on function public.create_pos_sale(jsonb) from public;
+revoke all on function public.create_pos_sale(jsonb) from anon;
+revoke all on function public.create_pos_sale(jsonb) from authenticated;
+grant execute on function public.create_pos_sale(jsonb) to service_role;
+
+-- Storefront order ----------------------------------------------------------
+
+-- Same as 0033, with the promo discount capped at the subtotal.
+create or replace function public.create_storefront_order(payload jsonb)
+returns jsonb
+language plpgsql
+volatile
+security definer
+set search_path = public
+as
+$$
+declare
+    v_items jsonb := coalesce(payload->'items', '[]'::jsonb);
+    v_combo_items jsonb := coalesce(payload->'combo_items', '[]'::jsonb);
+    v_reservation_minutes integer := greatest(coalesce((payload->>'reservation_minutes')::integer, 1440), 1);
+    v_promo_code text := nullif(upper(trim(coalesce(payload->>'promo_code', ''))), '');
+    v_promo jsonb;
+    v_promo_id uuid;
+    v_promo_discount numeric(12, 2) := 0;
+    v_total numeric(12, 2);
+    v_reserved_until timestamptz;
+    v_requirements jsonb;
+    v_unit_costs jsonb;
+    v_combo_lines jsonb;
+    v_product_ids uuid[];
+    v_unavailable jsonb;
+    v_short jsonb;
+    v_price_changes jsonb;
+    v_combo_price_changes jsonb;
+    v_price_review boolean;
+    v_combo_price_review boolean;
+    v_subtotal numeric(12, 2);
+    v_total_cost numeric(12, 2);
+    v_combo_subtotal numeric(12, 2);
+    v_combo_cost numeric(12, 2);
+    v_order_id uuid;
+begin
+    if jsonb_array_length(v_items) + jsonb_array_length(v_combo_items) = 0 then
+        return jsonb_build_object('success', false, 'error', 'empty_order');
+    end if;
+
+    with
+        requested as (
+            select x.product_id, sum(greatest(x.qty, 1))::integer as qty
+            from jsonb_to_recordset(v_items) as x(product_id uuid, qty integer)
+            group by x.product_id
+        )
+    select jsonb_agg(
+        jsonb_build_object('product_id', r.product_id, 'name', p.name)
+    )
+    into v_unavailable
+    from requested r
+    left join public.products p on p.id = r.product_id
+    where p.id is null
+        or coalesce(p.status, 'active') <> 'active';
+
+    if v_unavailable is not null then
+        return jsonb_build_object('success', false, 'error', 'unavailable_products', 'products', v_unavailable);
+    end if;
+
+    -- A combo can only be sold while it is active, has components and every
+    -- component is itself on sale.
+    select jsonb_agg(
+        jsonb_build_object('combo_id', c.combo_id, 'name', co.name)
+    )
+    into v_unavailable
+    from (
+        select distinct x.combo_id
+        from jsonb_to_recordset(v_combo_items) as x(combo_id uuid)
+    ) as c
+    left join public.combos co on co.id = c.combo_id
+    where co.id is null
+        or coalesce(co.status, 'active') <> 'active'
+        or not exists (select 1 from public.combo_items ci where ci.combo_id = c.combo_id)
+        or exists (
+            select 1
+            from public.combo_items ci
+            left join public.products p on p.id = ci.product_id
+            where ci.combo_id = c.combo_id
+                and (p.id is null or coalesce(p.status, 'active') <> 'active')
+        );
+
+    if v_unavailable is not null then
+        return jsonb_build_object('success', false, 'error', 'unavailable_combos', 'combos', v_unavailable);
+    end if;
+
+    select coalesce(
+        jsonb_agg(jsonb_build_object('product_id', u.product_id, 'qty', u.qty)),
+        '[]'::jsonb
+    )
+    into v_requirements
+    from (
+        select units.product_id, sum(units.qty)::integer as qty
+        from (
+            select x.product_id, greatest(x.qty, 1) as qty
+            from jsonb_to_recordset(v_items) as x(product_id uuid, qty integer)
+            union all
+            select ci.product_id, greatest(ci.qty, 1) * greatest(c.qty, 1)
+            from jsonb_to_recordset(v_combo_items) as c(combo_id uuid, qty integer)
+            join public.combo_items ci on ci.combo_id = c.combo_id
+        ) as units
+        group by units.product_id
+    ) as u;
+
+    select coalesce(array_agg(r.product_id order by r.product_id), '{}')
+    into v_product_ids
+    from jsonb_to_recordset(v_requirements) as r(product_id uuid);
+
+    perform 1
+    from public.products
+    where id = any(v_product_ids)
+    order by id
+    for update;
+
+    select jsonb_agg(
+        jsonb_build_object(
+            'product_id', p.id,
+            'name', p.name,
+            'available', greatest(coalesce(p.quantity, 0) - coalesce(rs.reserved_qty, 0), 0),
+            'required', r.qty
+        )
+        order by p.name
+    )
+    into v_short
+    from jsonb_to_recordset(v_requirements) as r(product_id uuid, qty integer)
+    join public.products p on p.id = r.product_id
+    left join public.product_reserved_stock rs on rs.product_id = r.product_id
+    where coalesce(p.quantity, 0) - coalesce(rs.reserved_qty, 0) < r.qty;
+
+    if v_short is not null then
+        return jsonb_build_object('success', false, 'error', 'insufficient_stock', 'short_products', v_short);
+    end if;
+
+    select jsonb_agg(
+        jsonb_build_object(
+            'product_id', p.id,
+            'name', p.name,
+            'expected_price', x.expected_price,
+            'current_price', p.sell_price
+        )
+        order by p.name
+    )
+    into v_price_changes
+    from jsonb_to_recordset(v_items) as x(product_id uuid, expected_price numeric)
+    join public.products p on p.id = x.product_id
+    where round(x.expected_price, 2) is distinct from round(p.sell_price, 2);
+
+    select jsonb_agg(
+        jsonb_build_object(
+            'combo_id', co.id,
+            'name', co.name,
+            'expected_price', x.expected_price,
+            'current_price', co.suggested_price
+        )
+        order by co.name
+    )
+    into v_combo_price_changes
+    from jsonb_to_recordset(v_combo_items) as x(combo_id uuid, expected_price numeric)
+    join public.combos co on co.id = x.combo_id
+    where round(x.expected_price, 2) is distinct from round(co.suggested_price, 2);
+
+    if v_price_changes is not null or v_combo_price_changes is not null then
+        return jsonb_build_object(
+            'success', false,
+            'error', 'price_changed',
+            'price_changes', coalesce(v_price_changes, '[]'::jsonb) || coalesce(v_combo_price_changes, '[]'::jsonb)
+        );
+    end if;
+
+    -- Costs are estimated from the open layers for the order's whole demand of
+    -- each product; completing the order re-costs it from what it draws.
+    select coalesce(
+        jsonb_object_agg(r.product_id::text, public.product_unit_cost(r.product_id, r.qty)),
+        '{}'::jsonb
+    )
+    into v_unit_costs
+    from jsonb_to_recordset(v_requirements) as r(product_id uuid, qty integer);
+
+    -- Products without a sell price are accepted at zero and the order is
+    -- flagged so the team confirms the amount with the customer.
+    select
+        bool_or(p.sell_price is null),
+        coalesce(sum(round(coalesce(p.sell_price, 0), 2) * greatest(x.qty, 1)), 0),
+        coalesce(sum((v_unit_costs->>p.id::text)::numeric * greatest(x.qty, 1)), 0)
+    into v_price_review, v_subtotal, v_total_cost
+    from jsonb_to_recordset(v_items) as x(product_id uuid, qty integer)
+    join public.products p on p.id = x.product_id;
+
+    -- A combo costs its packaging plus the current cost of its components.
+    select coalesce(
+        jsonb_agg(
+            jsonb_build_object(
+                'combo_id', co.id,
+                'qty', r.qty,
+                'unit_price', round(coalesce(co.suggested_price, 0), 2),
+                'unit_cost', round(
+                    coalesce(co.packaging_cost, 0) + coalesce((
+                        select sum((v_unit_costs->>ci.product_id::text)::numeric * greatest(ci.qty, 1))
+                        from public.combo_items ci
+                        where ci.combo_id = co.id
+                    ), 0),
+                    2
+                ),
+                'missing_price', co.suggested_price is null
+            )
+        ),
+        '[]'::jsonb
+    )
+    into v_combo_lines
+    from (
+        select x.combo_id, sum(greatest(x.qty, 1))::integer as qty
+        from jsonb_to_recordset(v_combo_items) as x(combo_id uuid, qty integer)
+        group by x.combo_id
+    ) as r
+    join public.combos co on co.id = r.combo_id;
+
+    select
+        bool_or(l.missing_price),
+        coalesce(sum(l.unit_price * l.qty), 0),
+        coalesce(sum(l.unit_cost * l.qty), 0)
+    into v_combo_price_review, v_combo_subtotal, v_combo_cost
+    from jsonb_to_recordset(v_combo_lines) as l(
+        qty integer,
+        unit_price numeric,
+        unit_cost numeric,
+        missing_price boolean
+    );
+
+    v_subtotal := coalesce(v_subtotal, 0) + v_combo_subtotal;
+    v_total_cost := coalesce(v_total_cost, 0) + v_combo_cost;
+    v_price_review := coalesce(v_price_review, false) or coalesce(v_combo_price_review, false);
+
+    if v_promo_code is not null then
+        v_promo := public.apply_promo_code(v_promo_code, v_subtotal);
+
+        if not (v_promo->>'success')::boolean then
+            return v_promo;
+        end if;
+
+        v_promo_id := (v_promo->>'promo_code_id')::uuid;
+        v_promo_code := v_promo->>'code';
+        v_promo_discount := least((v_promo->>'discount_amount')::numeric, v_subtotal);
+    end if;
+
+    v_total := v_subtotal - v_promo_discount;
+
+    insert into public.orders (
+        customer_name,
+        customer_phone,
+        customer_email,
+        notes,
+        status,
+        payment_method,
+        subtotal_amount,
+        discount_amount,
+        promo_code_id,
+        promo_code,
+        promo_discount_amount,
+        tax_amount,
+        total_amount,
+        total_cost,
+        profit_amount,
+        price_review_required,
+        currency
+    )
+    values (
+        payload->>'customer_name',
+        payload->>'customer_phone',
+        payload->>'customer_email',
+        payload->>'notes',
+        'pending',
+        coalesce(payload->>'payment_method', 'cash'),
+        v_subtotal,
+        v_promo_discount,
+        v_promo_id,
+        v_promo_code,
+        v_promo_discount,
+        0,
+        v_total,
+        v_total_cost,
+        v_total - v_total_cost,
+        v_price_review,
+        coalesce(payload->>'currency', 'NIO')
+    )
+    returning id into v_order_id;
+
+    if v_promo_id is not null then
+        update public.promo_codes
+        set times_used = times_used + 1
+        where id = v_promo_id;
+    end if;
+
+    insert into public.order_product_items (
+        order_id,
+        product_id,
+        qty,
+        unit_price,
+        unit_cost,
+        line_total,
+        line_cost_total
+    )
+    select
+        v_order_id,
+        p.id,
+        r.qty,
+        round(coalesce(p.sell_price, 0), 2),
+        (v_unit_costs->>p.id::text)::numeric,
+        round(round(coalesce(p.sell_price, 0), 2) * r.qty, 2),
+        round((v_unit_costs->>p.id::text)::numeric * r.qty, 2)
+    from (
+        select x.product_id, sum(greatest(x.qty, 1))::integer as qty
+        from jsonb_to_recordset(v_items) as x(product_id uuid, qty integer)
+        group by x.product_id
+    ) as r
+    join public.products p on p.id = r.product_id;
+
+    insert into public.order_combo_items (
+        order_id,
+        combo_id,
+        qty,
+        unit_price,
+        unit_cost,
+        line_total,
+        line_cost_total
+    )
+    select
+        v_order_id,
+        l.combo_id,
+        l.qty,
+        l.unit_price,
+        l.unit_cost,
+        round(l.unit_price * l.qty, 2),
+        round(l.unit_cost * l.qty, 2)
+    from jsonb_to_recordset(v_combo_lines) as l(
+        combo_id uuid,
+        qty integer,
+        unit_price numeric,
+        unit_cost numeric
+    );
+
+    v_reserved_until := now() + make_interval(mins => v_reservation_minutes);
+
+    insert into public.stock_reservations (order_id, product_id, qty, expires_at)
+    select v_order_id, r.product_id, r.qty, v_reserved_until
+    from jsonb_to_recordset(v_requirements) as r(product_id uuid, qty integer);
+
+    return jsonb_build_object(
+        'success', true,
+        'order_id', v_order_id,
+        'subtotal_amount', v_subtotal,
+        'discount_amount', v_promo_discount,
+        'promo_code', v_promo_code,
+        'total_amount', v_total,
+        'price_review_required', v_price_review,
+        'reserved_until', v_reserved_until
+    );
+end;
+$$;
+
+revoke all on function public.create_storefront_order(jsonb) from public;
+revoke all on function public.create_storefront_order(jsonb) from anon;
+revoke all on function public.create_storefront_order(jsonb) from authenticated;
+grant execute on function public.create_storefront_order(jsonb) to service_role;
@@ -0,0 +1,549 @@
+-- Refunds record the register session that paid them and how much of them
+-- went back in cash, and expected cash subtracts what each session paid out.
+-- 0034 only counted refunds of the session's own sales on orders paid fully
+-- in cash, so a cash refund of an earlier shift's sale left the open drawer
+-- short, and the cash part of a split-tender refund never counted.
+
+alter table public.order_refunds
+    add column if not exists register_session_id uuid references public.register_sessions (id) on delete set null,
+    add column if not exists cash_amount numeric(12, 2) not null default 0;
+
+alter table public.order_refunds
+    drop constraint if exists order_refunds_cash_amount_check;
+alter table public.order_refunds
+    add constraint order_refunds_cash_amount_check check (cash_amount >= 0 and cash_amount <= amount);
+
+create index if not exists order_refunds_register_session_idx
+    on public.order_refunds (register_session_id)
+    where register_session_id is not null;
+
+-- Existing refunds go to the session open when they were issued, with the
+-- cash share capped at what the order was paid in cash. Closed sessions keep
+-- the expected cash stored when they were closed.
+update public.order_refunds r
+set
+    register_session_id = (
+        select s.id
+        from public.register_sessions s
+        where r.created_at >= s.opened_at
+            and (s.closed_at is null or r.created_at < s.closed_at)
+        order by s.opened_at desc
+        limit 1
+    ),
+    cash_amount = least(
+        r.amount,
+        coalesce(
+            (
+                select sum(op.amount)
+                from public.order_payments op
+                where op.order_id = r.order_id
+                    and op.method = 'cash'
+            ),
+            (
+                select o.total_amount
+                from public.orders o
+                where o.id = r.order_id
+                    and o.payment_method = 'cash'
+            ),
+            0
+        )
+    )
+where r.register_session_id is null
+    and r.amount > 0;
+
+-- Expected cash -------------------------------------------------------------
+
+-- Same as 0034, but refunds count by the session that paid them out, for
+-- their cash share only.
+create or replace function public.register_expected_cash(p_session_id uuid)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as
+$$
+    select
+        s.opening_float
+        + coalesce((
+            select sum(op.amount)
+            from public.order_payments op
+            join public.orders o on o.id = op.order_id
+            where o.register_session_id = s.id
+              and op.method = 'cash'
+        ), 0)
+        + coalesce((
+            select sum(case when m.kind = 'cash_in' then m.amount else -m.amount end)
+            from public.register_cash_movements m
+            where m.session_id = s.id
+        ), 0)
+        - coalesce((
+            select sum(r.cash_amount)
+            from public.order_refunds r
+            where r.register_session_id = s.id
+        ), 0)
+    from public.register_sessions s
+    where s.id = p_session_id;
+$$;
+
+revoke all on function public.register_expected_cash(uuid) from public;
+revoke all on function public.register_expected_cash(uuid) from anon;
+revoke all on function public.register_expected_cash(uuid) from authenticated;
+grant execute on function public.register_expected_cash(uuid) to service_role;
+
+-- Refunds -------------------------------------------------------------------
+
+-- Same as 0033, but the refund records the open register session and the
+-- part of it given back in cash.
+create or replace function public.refund_order(payload jsonb)
+returns jsonb
+language plpgsql
+volatile
+security definer
+set search_path = public
+as
+$$
+declare
+    v_order_id uuid := (payload->>'order_id')::uuid;
+    v_mode text := coalesce(payload->>'mode', 'partial');
+    v_reason text := nullif(trim(coalesce(payload->>'reason', '')), '');
+    v_created_by uuid := (payload->>'created_by')::uuid;
+    v_lines jsonb := coalesce(payload->'lines', '[]'::jsonb);
+    v_order public.orders%rowtype;
+    v_resolved jsonb;
+    v_invalid jsonb;
+    v_product_ids uuid[];
+    v_ratio numeric;
+    v_amount numeric(12, 2);
+    v_cost numeric(12, 2);
+    v_remaining_units integer;
+    v_fully_refunded boolean;
+    v_movement_type text;
+    v_restock record;
+    v_refund_id uuid;
+    v_session_id uuid;
+    v_cash_paid numeric(12, 2);
+    v_cash_amount numeric(12, 2);
+begin
+    if v_reason is null then
+        return jsonb_build_object('success', false, 'error', 'missing_reason');
+    end if;
+
+    select *
+    into v_order
+    from public.orders
+    where id = v_order_id
+    for update;
+
+    if not found then
+        return jsonb_build_object('success', false, 'error', 'order_not_found');
+    end if;
+
+    if v_order.status = 'cancelled' then
+        return jsonb_build_object('success', false, 'error', 'order_cancelled');
+    end if;
+
+    -- Pending and processing orders never took stock, so they can only be
+    -- cancelled outright.
+    if v_order.status <> 'completed' then
+        if v_mode <> 'full' then
+            return jsonb_build_object('success', false, 'error', 'invalid_status', 'status', v_order.status);
+        end if;
+
+        insert into public.order_refunds (order_id, refund_type, reason, amount, cost_amount, created_by)
+        values (v_order_id, 'full', v_reason, 0, 0, v_created_by)
+        returning id into v_refund_id;
+
+        update public.orders
+        set status = 'cancelled', cancelled_at = now()
+        where id = v_order_id;
+
+        return jsonb_build_object(
+            'success', true,
+            'refund_id', v_refund_id,
+            'refund_amount', 0,
+            'refund_cost', 0,
+            'order_status', 'cancelled'
+        );
+    end if;
+
+    if v_mode = 'full' then
+        select coalesce(jsonb_agg(l), '[]'::jsonb)
+        into v_resolved
+        from (
+            select
+                'product'::text as line_type,
+                i.id as line_id,
+                i.product_id,
+                null::uuid as combo_id,
+                i.qty - i.refunded_qty as qty,
+                coalesce(i.line_total, round(i.unit_price * i.qty, 2)) / i.qty as unit_price,
+                i.unit_cost
+            from public.order_product_items i
+            where i.order_id = v_order_id
+                and i.qty > i.refunded_qty
+            union all
+            select
+                'combo'::text,
+                i.id,
+                null::uuid,
+                i.combo_id,
+                i.qty - i.refunded_qty,
+                coalesce(i.line_total, round(i.unit_price * i.qty, 2)) / i.qty as unit_price,
+                i.unit_cost
+            from public.order_combo_items i
+            where i.order_id = v_order_id
+                and i.qty > i.refunded_qty
+        ) as l;
+    else
+        if jsonb_array_length(v_lines) = 0 then
+            return jsonb_build_object('success', false, 'error', 'nothing_to_refund');
+        end if;
+
+        with
+            requested as (
+                select r.line_type, r.line_id, sum(r.qty)::integer as qty
+                from jsonb_to_recordset(v_lines) as r(line_type text, line_id bigint, qty integer)
+                group by r.line_type, r.line_id
+            ),
+            available as (
+                select 'product'::text as line_type, i.id as line_id, i.qty - i.refunded_qty as remaining
+                from public.order_product_items i
+                where i.order_id = v_order_id
+                union all
+                select 'combo'::text, i.id, i.qty - i.refunded_qty
+                from public.order_combo_items i
+                where i.order_id = v_order_id
+            )
+        select jsonb_agg(
+            jsonb_build_object(
+                'line_type', r.line_type,
+                'line_id', r.line_id,
+                'requested', r.qty,
+                'available', coalesce(a.remaining, 0)
+            )
+        )
+        into v_invalid
+        from requested r
+        left join available a on a.line_type = r.line_type and a.line_id = r.line_id
+        where a.line_id is null
+            or coalesce(r.qty, 0) <= 0
+            or r.qty > a.remaining;
+
+        if v_invalid is not null then
+            return jsonb_build_object('success', false, 'error', 'invalid_lines', 'lines', v_invalid);
+        end if;
+
+        with
+            requested as (
+                select r.line_type, r.line_id, sum(r.qty)::integer as qty
+                from jsonb_to_recordset(v_lines) as r(line_type text, line_id bigint, qty integer)
+                group by r.line_type, r.line_id
+            )
+        select coalesce(jsonb_agg(l), '[]'::jsonb)
+        into v_resolved
+        from (
+            select
+                'product'::text as line_type,
+                i.id as line_id,
+                i.product_id,
+                null::uuid as combo_id,
+                r.qty,
+                coalesce(i.line_total, round(i.unit_price * i.qty, 2)) / i.qty as unit_price,
+                i.unit_cost
+            from requested r
+            join public.order_product_items i on i.id = r.line_id
+            where r.line_type = 'product'
+            union all
+            select
+                'combo'::text,
+                i.id,
+                null::uuid,
+                i.combo_id,
+                r.qty,
+                coalesce(i.line_total, round(i.unit_price * i.qty, 2)) / i.qty as unit_price,
+                i.unit_cost
+            from requested r
+            join public.order_combo_items i on i.id = r.line_id
+            where r.line_type = 'combo'
+        ) as l;
+    end if;
+
+    select coalesce(sum(units), 0)::integer
+    into v_remaining_units
+    from (
+        select i.qty - i.refunded_qty as units
+        from public.order_product_items i
+        where i.order_id = v_order_id
+        union all
+        select i.qty - i.refunded_qty
+        from public.order_combo_items i
+        where i.order_id = v_order_id
+    ) as remaining;
+
+    select v_remaining_units - coalesce(sum(x.qty), 0)::integer
+    into v_remaining_units
+    from jsonb_to_recordset(v_resolved) as x(qty integer);
+
+    v_fully_refunded := v_mode = 'full' or v_remaining_units <= 0;
+    v_movement_type := case when v_fully_refunded then 'cancellation' else 'return' end;
+
+    -- Line amounts are net of line discounts but before the promo code, the
+    -- order discount and tax; scale them so the refund matches what the
+    -- customer actually paid for those units.
+    v_ratio := case
+        when v_order.subtotal_amount - v_order.line_discount_amount > 0
+            then v_order.total_amount / (v_order.subtotal_amount - v_order.line_discount_amount)
+        else 1
+    end;
+
+    select
+        coalesce(sum(round(x.unit_price * x.qty * v_ratio, 2)), 0),
+        coalesce(sum(round(x.unit_cost * x.qty, 2)), 0)
+    into v_amount, v_cost
+    from jsonb_to_recordset(v_resolved) as x(qty integer, unit_price numeric, unit_cost numeric);
+
+    if v_fully_refunded then
+        -- The last refund absorbs any rounding left over from earlier partials.
+        v_amount := v_order.total_amount - v_order.refunded_amount;
+        v_cost := v_order.total_cost - v_order.refunded_cost;
+    end if;
+
+    v_amount := greatest(least(v_amount, v_order.total_amount - v_order.refunded_amount), 0);
+    v_cost := greatest(v_cost, 0);
+
+    -- Cash goes back first, up to what the order was paid in cash less what
+    -- earlier refunds already gave back; the rest returns through the other
+    -- tenders. Orders without tender rows were paid in full with their method.
+    if exists (select 1 from public.order_payments op where op.order_id = v_order_id) then
+        select coalesce(sum(op.amount), 0)
+        into v_cash_paid
+        from public.order_payments op
+        where op.order_id = v_order_id
+            and op.method = 'cash';
+    else
+        v_cash_paid := case when v_order.payment_method = 'cash' then v_order.total_amount else 0 end;
+    end if;
+
+    select v_cash_paid - coalesce(sum(r.cash_amount), 0)
+    into v_cash_paid
+    from public.order_refunds r
+    where r.order_id = v_order_id;
+
+    v_cash_amount := greatest(least(v_amount, v_cash_paid), 0);
+
+    -- The cash leaves whichever drawer is open now, whatever shift made the
+    -- sale. The share lock makes a concurrent close wait for the refund.
+    select s.id
+    into v_session_id
+    from public.register_sessions s
+    where s.status = 'open'
+    for share;
+
+    select coalesce(array_agg(distinct ids.product_id), '{}')
+    into v_product_ids
+    from (
+        select x.product_id
+        from jsonb_to_recordset(v_resolved) as x(line_type text, product_id uuid)
+        where x.line_type = 'product'
+        union
+        select ci.product_id
+        from jsonb_to_recordset(v_resolved) as x(line_type text, combo_id uuid)
+        join public.combo_items ci on ci.combo_id = x.combo_id
+        where x.line_type = 'combo'
+    ) as ids;
+
+    perform 1
+    from public.products
+    where id = any(v_product_ids)
+    order by id
+    for update;
+
+    with
+        movements as (
+            select
+                x.product_id,
+                null::uuid as combo_id,
+                sum(x.qty)::integer as quantity_change
+            from jsonb_to_recordset(v_resolved) as x(line_type text, product_id uuid, qty integer)
+            where x.line_type = 'product'
+            group by x.product_id
+            union all
+            select
+                ci.product_id,
+                x.combo_id,
+                sum(greatest(ci.qty, 1) * x.qty)::integer
+            from jsonb_to_recordset(v_resolved) as x(line_type text, combo_id uuid, qty integer)
+            join public.combo_items ci on ci.combo_id = x.combo_id
+            where x.line_type = 'combo'
+            group by ci.product_id, x.combo_id
+        ),
+        sequenced as (
+            select
+                m.product_id,
+                m.combo_id,
+                m.quantity_change,
+                coalesce(p.quantity, 0) + coalesce(
+                    sum(m.quantity_change) over (
+                        partition by m.product_id
+                        order by m.combo_id nulls first
+                        rows between unbounded preceding and 1 preceding
+                    ),
+                    0
+                ) as quantity_before
+            from movements m
+            join public.products p on p.id = m.product_id
+        )
+    insert into public.stock_movements (
+        product_id,
+        movement_type,
+        quantity_change,
+        quantity_before,
+        quantity_after,
+        order_id,
+        combo_id,
+        notes,
+        created_by
+    )
+    select
+        s.product_id,
+        v_movement_type,
+        s.quantity_change,
+        s.quantity_before,
+        s.quantity_before + s.quantity_change,
+        v_order_id,
+        s.combo_id,
+        v_reason,
+        v_created_by
+    from sequenced s;
+
+    -- Products archived because a sale took them to zero come back once they
+    -- have stock again; anything archived with units on hand stays archived.
+    with
+        restock as (
+            select r.product_id, sum(r.qty)::integer as qty
+            from (
+                select x.product_id, x.qty
+                from jsonb_to_recordset(v_resolved) as x(line_type text, product_id uuid, qty integer)
+                where x.line_type = 'product'
+                union all
+                select ci.product_id, greatest(ci.qty, 1) * x.qty
+                from jsonb_to_recordset(v_resolved) as x(line_type text, combo_id uuid, qty integer)
+                join public.combo_items ci on ci.combo_id = x.combo_id
+                where x.line_type = 'combo'
+            ) as r
+            group by r.product_id
+        )
+    update public.products p
+    set
+        quantity = coalesce(p.quantity, 0) + rs.qty,
+        status = case
+            when p.status = 'archived' and coalesce(p.quantity, 0) <= 0 and rs.qty > 0 then 'active'
+            else p.status
+        end
+    from restock rs
+    where p.id = rs.product_id;
+
+    for v_restock in
+        select r.product_id, sum(r.qty)::integer as qty
+        from (
+            select x.product_id, x.qty
+            from jsonb_to_recordset(v_resolved) as x(line_type text, product_id uuid, qty integer)
+            where x.line_type = 'product'
+            union all
+            select ci.product_id, greatest(ci.qty, 1) * x.qty
+            from jsonb_to_recordset(v_resolved) as x(line_type text, combo_id uuid, qty integer)
+            join public.combo_items ci on ci.combo_id = x.combo_id
+            where x.line_type = 'combo'
+        ) as r
+        group by r.product_id
+        order by r.product_id
+    loop
+        perform public.restore_stock_layers(
+            v_restock.product_id,
+            v_restock.qty,
+            v_order_id,
+            'refund:' || v_order_id,
+            v_created_by
+        );
+    end loop;
+
+    insert into public.order_refunds (
+        order_id,
+        refund_type,
+        reason,
+        amount,
+        cost_amount,
+        cash_amount,
+        register_session_id,
+        created_by
+    )
+    values (
+        v_order_id,
+        case when v_fully_refunded then 'full' else 'partial' end,
+        v_reason,
+        v_amount,
+        v_cost,
+        v_cash_amount,
+        v_session_id,
+        v_created_by
+    )
+    returning id into v_refund_id;
+
+    insert into public.order_refund_items (
+        refund_id,
+        order_product_item_id,
+        order_combo_item_id,
+        qty,
+        amount,
+        cost_amount
+    )
+    select
+        v_refund_id,
+        case when x.line_type = 'product' then x.line_id end,
+        case when x.line_type = 'combo' then x.line_id end,
+        x.qty,
+        round(x.unit_price * x.qty * v_ratio, 2),
+        round(x.unit_cost * x.qty, 2)
+    from jsonb_to_recordset(v_resolved) as x(
+        line_type text,
+        line_id bigint,
+        qty integer,
+        unit_price numeric,
+        unit_cost numeric
+    );
+
+    update public.order_product_items i
+    set refunded_qty = i.refunded_qty + x.qty
+    from jsonb_to_recordset(v_resolved) as x(line_type text, line_id bigint, qty integer)
+    where x.line_type = 'product'
+        and i.id = x.line_id;
+
+    update public.order_combo_items i
+    set refunded_qty = i.refunded_qty + x.qty
+    from jsonb_to_recordset(v_resolved) as x(line_type text, line_id bigint, qty integer)
+    where x.line_type = 'combo'
+        and i.id = x.line_id;
+
+    update public.orders
+    set
+        refunded_amount = refunded_amount + v_amount,
+        refunded_cost = refunded_cost + v_cost,
+        status = case when v_fully_refunded then 'cancelled' else status end,
+        cancelled_at = case when v_fully_refunded then now() else cancelled_at end
+    where id = v_order_id;
+
+    return jsonb_build_object(
+        'success', true,
+        'refund_id', v_refund_id,
+        'refund_amount', v_amount,
+        'refund_cost', v_cost,
+        'order_status', case when v_fully_refunded then 'cancelled' else v_order.status end
+    );
+end;
+$$;
+
+revoke all on function public.refund_order(jsonb) from public;
+revoke all on function public.refund_order(jsonb) from anon;
+revoke all on function public.refund_order(jsonb) from authenticated;
+grant execute on function public.refund_order(jsonb) to service_role;